@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import {
+  AccountNotFoundError,
+  AccountValidationError,
+  deleteAccount,
+  updateAccount,
+  type UpdateAccountInput,
+} from "@/lib/accounts";
+import {
+  parseAccountType,
+  parseCashFlowCategory,
+} from "@/lib/chart-of-accounts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteParams = {
+  params: {
+    code: string;
+  };
+};
+
+function toErrorResponse(error: unknown, context: string, fallback: string) {
+  if (error instanceof UnauthorizedError) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (error instanceof AccountNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (error instanceof AccountValidationError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  console.error(context, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const input: UpdateAccountInput = {};
+
+    if (typeof body.name === "string") {
+      input.name = body.name;
+    }
+    if (body.type !== undefined) {
+      const type = parseAccountType(body.type);
+      if (!type) {
+        return NextResponse.json(
+          { error: "Invalid account type." },
+          { status: 400 }
+        );
+      }
+      input.type = type;
+    }
+    if (body.parentCode !== undefined) {
+      input.parentCode =
+        typeof body.parentCode === "string" && body.parentCode.trim()
+          ? body.parentCode.trim()
+          : null;
+    }
+    if (body.cashFlowCategory !== undefined) {
+      input.cashFlowCategory = parseCashFlowCategory(body.cashFlowCategory);
+    }
+    if (typeof body.isCash === "boolean") {
+      input.isCash = body.isCash;
+    }
+    if (typeof body.isActive === "boolean") {
+      input.isActive = body.isActive;
+    }
+
+    const account = await updateAccount(user.userId, params.code, input);
+
+    return NextResponse.json({ message: "Account updated.", account });
+  } catch (error) {
+    return toErrorResponse(error, "Update account error", "Failed to update account.");
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    await deleteAccount(user.userId, params.code);
+    return NextResponse.json({ message: "Account deleted." });
+  } catch (error) {
+    return toErrorResponse(error, "Delete account error", "Failed to delete account.");
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import {
+  AccountValidationError,
+  createAccount,
+  listAccounts,
+} from "@/lib/accounts";
+import {
+  parseAccountType,
+  parseCashFlowCategory,
+} from "@/lib/chart-of-accounts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    const accounts = await listAccounts(user.userId);
+    return NextResponse.json({ accounts });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("List accounts error", error);
+    return NextResponse.json(
+      { error: "Failed to load chart of accounts." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const type = parseAccountType(body.type);
+    if (!type) {
+      return NextResponse.json(
+        { error: "Invalid account type." },
+        { status: 400 }
+      );
+    }
+
+    const account = await createAccount(user.userId, {
+      code: typeof body.code === "string" ? body.code : "",
+      name: typeof body.name === "string" ? body.name : "",
+      type,
+      parentCode:
+        typeof body.parentCode === "string" && body.parentCode.trim()
+          ? body.parentCode.trim()
+          : null,
+      cashFlowCategory: parseCashFlowCategory(body.cashFlowCategory),
+      isCash: body.isCash === true,
+    });
+
+    return NextResponse.json(
+      { message: "Account created.", account },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof AccountValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Create account error", error);
+    return NextResponse.json(
+      { error: "Failed to create account." },
+      { status: 500 }
+    );
+  }
+}
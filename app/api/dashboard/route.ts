@@ -2,11 +2,12 @@ import { NextResponse } from "next/server";
 
 import { UnauthorizedError, requireUser } from "@/lib/auth";
 import { buildDashboardSnapshot } from "@/lib/finance";
+import { InvalidPeriodError, parsePeriodQuery } from "@/lib/period-range";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
     console.log("📊 Dashboard API called");
     console.log("🔧 Environment check:");
@@ -20,13 +21,19 @@ export async function GET() {
       username: user.username,
     });
 
-    const snapshot = await buildDashboardSnapshot(user.userId);
+    const { searchParams } = new URL(request.url);
+    const period = parsePeriodQuery(searchParams, "all-time");
+
+    const snapshot = await buildDashboardSnapshot(user.userId, period);
     console.log("📈 Dashboard snapshot result:", snapshot);
     return NextResponse.json(snapshot);
   } catch (error) {
     if (error instanceof UnauthorizedError) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (error instanceof InvalidPeriodError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Dashboard API error", error);
     return NextResponse.json(
       { error: "Failed to load dashboard data." },
@@ -6,6 +6,9 @@ import {
   updateTransaction,
   type UpdateTransactionInput,
 } from "@/lib/finance";
+import { InventoryValidationError } from "@/lib/inventory";
+import { PeriodLockedError } from "@/lib/periods";
+import { TaxCodeValidationError } from "@/lib/tax-codes";
 import {
   TRANSACTION_PRESETS,
   isTransactionPresetKey,
@@ -106,6 +109,15 @@ export async function PATCH(request: Request, { params }: RouteParams) {
     if (error instanceof UnauthorizedError) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (error instanceof PeriodLockedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (
+      error instanceof TaxCodeValidationError ||
+      error instanceof InventoryValidationError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Update transaction error", error);
     const message =
       error instanceof Error ? error.message : "Failed to update transaction.";
@@ -116,12 +128,23 @@ export async function PATCH(request: Request, { params }: RouteParams) {
 export async function DELETE(request: Request, { params }: RouteParams) {
   try {
     const user = await requireUser();
-    await deleteTransaction(params.id, user.userId);
-    return NextResponse.json({ message: "Transaction deleted." });
+    const result = await deleteTransaction(params.id, user.userId);
+    return NextResponse.json({
+      message: result.voided
+        ? "Transaction voided with a reversing journal entry."
+        : "Transaction deleted.",
+      voided: result.voided,
+    });
   } catch (error) {
     if (error instanceof UnauthorizedError) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (error instanceof PeriodLockedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof InventoryValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Delete transaction error", error);
     const message =
       error instanceof Error ? error.message : "Failed to delete transaction.";
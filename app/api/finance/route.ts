@@ -3,10 +3,21 @@ import { NextResponse } from "next/server";
 import { UnauthorizedError, requireUser } from "@/lib/auth";
 import {
   DEFAULT_CATEGORY_BY_TYPE,
+  STOCK_PRESET_KEYS,
   buildFinanceOverview,
   createTransaction,
   type CreateTransactionInput,
 } from "@/lib/finance";
+import {
+  InventoryItemNotFoundError,
+  InventoryValidationError,
+} from "@/lib/inventory";
+import { InvalidPeriodError, parsePeriodQuery } from "@/lib/period-range";
+import { PeriodLockedError } from "@/lib/periods";
+import {
+  TaxCodeNotFoundError,
+  TaxCodeValidationError,
+} from "@/lib/tax-codes";
 import {
   TRANSACTION_PRESETS,
   isTransactionPresetKey,
@@ -20,19 +31,7 @@ export async function GET(request: Request) {
   try {
     const user = await requireUser();
     const { searchParams } = new URL(request.url);
-    const period = searchParams.get("period") || "all-time";
-
-    // Validate period
-    const validPeriods = [
-      "current-month",
-      "last-month",
-      "current-quarter",
-      "last-quarter",
-      "year-to-date",
-      "last-year",
-      "all-time",
-    ];
-    const periodKey = validPeriods.includes(period) ? period : "all-time";
+    const periodKey = parsePeriodQuery(searchParams, "all-time");
 
     console.log(
       "📊 Finance API called with period:",
@@ -41,7 +40,7 @@ export async function GET(request: Request) {
       user.userId.toString()
     );
 
-    const overview = await buildFinanceOverview(user.userId, periodKey as any);
+    const overview = await buildFinanceOverview(user.userId, periodKey);
 
     console.log("💰 Finance overview:", {
       netIncome: overview.metrics.netIncomeMTD,
@@ -54,6 +53,9 @@ export async function GET(request: Request) {
     if (error instanceof UnauthorizedError) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (error instanceof InvalidPeriodError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Finance API error", error);
     return NextResponse.json(
       { error: "Failed to load finance data." },
@@ -67,8 +69,29 @@ export async function POST(request: Request) {
     const user = await requireUser();
     const body = await request.json();
 
-    const amount = Number(body.amount);
-    if (!Number.isFinite(amount) || amount <= 0) {
+    const inventoryItemId =
+      typeof body.inventoryItemId === "string" && body.inventoryItemId.trim()
+        ? body.inventoryItemId.trim()
+        : null;
+    const inventory: CreateTransactionInput["inventory"] = inventoryItemId
+      ? { itemId: inventoryItemId, quantity: Number(body.quantity) }
+      : null;
+
+    if (
+      isTransactionPresetKey(body.presetKey) &&
+      STOCK_PRESET_KEYS.includes(body.presetKey) &&
+      !inventory
+    ) {
+      return NextResponse.json(
+        { error: "Select the stock item this transaction moves." },
+        { status: 400 }
+      );
+    }
+
+    // Cost of goods issued from stock is priced by the stock ledger
+    const amount = Number(body.amount ?? 0);
+    const isPricedByLedger = Boolean(inventory) && body.presetKey === "cogs";
+    if (!isPricedByLedger && (!Number.isFinite(amount) || amount <= 0)) {
       return NextResponse.json(
         { error: "Amount must be greater than zero." },
         { status: 400 }
@@ -142,6 +165,11 @@ export async function POST(request: Request) {
     const status: CreateTransactionInput["status"] =
       body.status === "pending" ? "pending" : "posted";
 
+    const tax: CreateTransactionInput["tax"] =
+      typeof body.taxCode === "string" && body.taxCode.trim()
+        ? { code: body.taxCode.trim(), inclusive: body.taxInclusive === true }
+        : null;
+
     const input: CreateTransactionInput = {
       type,
       amount,
@@ -153,6 +181,8 @@ export async function POST(request: Request) {
       counterparty: counterpartyValue,
       presetKey,
       presetLabel,
+      inventory,
+      tax,
     };
 
     const created = await createTransaction(user.userId, input);
@@ -171,6 +201,21 @@ export async function POST(request: Request) {
     if (error instanceof UnauthorizedError) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (error instanceof PeriodLockedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof InventoryItemNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof InventoryValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (
+      error instanceof TaxCodeNotFoundError ||
+      error instanceof TaxCodeValidationError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Create transaction error", error);
     const message =
       error instanceof Error ? error.message : "Failed to create transaction.";
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import { AttendanceNotFoundError, deleteAttendance } from "@/lib/attendance";
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteParams = {
+  params: {
+    id: string;
+  };
+};
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    await deleteAttendance(user.userId, params.id);
+    return NextResponse.json({ message: "Attendance record deleted." });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof AttendanceNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Delete attendance error", error);
+    return NextResponse.json(
+      { error: "Failed to delete attendance record." },
+      { status: 500 }
+    );
+  }
+}
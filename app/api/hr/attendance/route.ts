@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+
+import {
+  AttendanceValidationError,
+  listAttendance,
+  parseAttendanceStatus,
+  recordAttendance,
+} from "@/lib/attendance";
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import { EmployeeNotFoundError } from "@/lib/employees";
+import { parseCalendarDate } from "@/lib/period-range";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" ? value : null;
+
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser();
+    const { searchParams } = new URL(request.url);
+
+    // A single `date` or a `from`/`to` range, both YYYY-MM-DD
+    const from = parseCalendarDate(
+      searchParams.get("from") ?? searchParams.get("date") ?? ""
+    );
+    const to = parseCalendarDate(
+      searchParams.get("to") ?? searchParams.get("date") ?? ""
+    );
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: "Provide a date, or from and to, in YYYY-MM-DD format." },
+        { status: 400 }
+      );
+    }
+
+    const records = await listAttendance(user.userId, {
+      from,
+      to,
+      employeeId: searchParams.get("employeeId"),
+    });
+    return NextResponse.json({ records });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("List attendance error", error);
+    return NextResponse.json(
+      { error: "Failed to load attendance." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const date =
+      typeof body.date === "string" ? parseCalendarDate(body.date) : null;
+    if (!date) {
+      return NextResponse.json(
+        { error: "Date must be in YYYY-MM-DD format." },
+        { status: 400 }
+      );
+    }
+
+    const status = parseAttendanceStatus(body.status);
+    if (!status) {
+      return NextResponse.json(
+        { error: "Status must be present or absent." },
+        { status: 400 }
+      );
+    }
+
+    const record = await recordAttendance(user.userId, {
+      employeeId: optionalString(body.employeeId) ?? "",
+      date,
+      status,
+      checkIn: optionalString(body.checkIn),
+      checkOut: optionalString(body.checkOut),
+      overtimeHours: Number(body.overtimeHours ?? 0),
+      note: optionalString(body.note),
+    });
+
+    return NextResponse.json({ message: "Attendance saved.", record });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof EmployeeNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof AttendanceValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Record attendance error", error);
+    return NextResponse.json(
+      { error: "Failed to save attendance." },
+      { status: 500 }
+    );
+  }
+}
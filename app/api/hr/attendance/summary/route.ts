@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+
+import { summarizeAttendanceForPayroll } from "@/lib/attendance";
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import { isPeriodKey } from "@/lib/periods";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Unpaid days and overtime per employee for the payroll of `period`. */
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser();
+    const { searchParams } = new URL(request.url);
+    const period = searchParams.get("period");
+    if (!isPeriodKey(period)) {
+      return NextResponse.json(
+        { error: "Period must be in YYYY-MM format." },
+        { status: 400 }
+      );
+    }
+
+    const [year, month] = period.split("-").map(Number);
+    const summary = await summarizeAttendanceForPayroll(
+      user.userId,
+      new Date(year, month - 1, 1),
+      new Date(year, month, 1)
+    );
+    return NextResponse.json({ summary: Array.from(summary.values()) });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("Attendance summary error", error);
+    return NextResponse.json(
+      { error: "Failed to summarize attendance." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import {
+  EmployeeNotFoundError,
+  EmployeeValidationError,
+  deleteEmployee,
+  getEmployee,
+  parseEmploymentStatus,
+  parseTaxStatus,
+  updateEmployee,
+} from "@/lib/employees";
+import { parseCalendarDate } from "@/lib/period-range";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteParams = {
+  params: {
+    id: string;
+  };
+};
+
+/** Leaves fields absent from the body untouched; null clears them. */
+const optionalString = (value: unknown) =>
+  value === undefined ? undefined : typeof value === "string" ? value : null;
+
+function toErrorResponse(error: unknown, context: string, fallback: string) {
+  if (error instanceof UnauthorizedError) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (error instanceof EmployeeNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (error instanceof EmployeeValidationError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  console.error(context, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    const employee = await getEmployee(user.userId, params.id);
+    return NextResponse.json({ employee });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      "Get employee error",
+      "Failed to load employee."
+    );
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    let joinDate: Date | undefined;
+    if (body.joinDate !== undefined) {
+      const parsed =
+        typeof body.joinDate === "string"
+          ? parseCalendarDate(body.joinDate)
+          : null;
+      if (!parsed) {
+        return NextResponse.json(
+          { error: "Join date must be in YYYY-MM-DD format." },
+          { status: 400 }
+        );
+      }
+      joinDate = parsed;
+    }
+
+    let endDate: Date | null | undefined;
+    if (typeof body.endDate === "string" && body.endDate) {
+      endDate = parseCalendarDate(body.endDate);
+      if (!endDate) {
+        return NextResponse.json(
+          { error: "End date must be in YYYY-MM-DD format." },
+          { status: 400 }
+        );
+      }
+    } else if (body.endDate !== undefined) {
+      endDate = null;
+    }
+
+    if (
+      body.employmentStatus !== undefined &&
+      !parseEmploymentStatus(body.employmentStatus)
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "Employment status must be permanent, contract, probation, " +
+            "intern or terminated.",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.taxStatus !== undefined && !parseTaxStatus(body.taxStatus)) {
+      return NextResponse.json(
+        { error: "Tax status must be a PTKP status such as TK/0 or K/1." },
+        { status: 400 }
+      );
+    }
+
+    const employee = await updateEmployee(user.userId, params.id, {
+      employeeNumber: optionalString(body.employeeNumber),
+      name: typeof body.name === "string" ? body.name : undefined,
+      position: typeof body.position === "string" ? body.position : undefined,
+      department:
+        typeof body.department === "string" ? body.department : undefined,
+      joinDate,
+      employmentStatus: parseEmploymentStatus(body.employmentStatus),
+      endDate,
+      baseSalary:
+        body.baseSalary === undefined ? undefined : Number(body.baseSalary),
+      bankName: optionalString(body.bankName),
+      bankAccountNumber: optionalString(body.bankAccountNumber),
+      npwp: optionalString(body.npwp),
+      bpjsKesehatanNumber: optionalString(body.bpjsKesehatanNumber),
+      bpjsKetenagakerjaanNumber: optionalString(
+        body.bpjsKetenagakerjaanNumber
+      ),
+      taxStatus: parseTaxStatus(body.taxStatus),
+    });
+
+    return NextResponse.json({ message: "Employee updated.", employee });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      "Update employee error",
+      "Failed to update employee."
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    await deleteEmployee(user.userId, params.id);
+    return NextResponse.json({ message: "Employee deleted." });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      "Delete employee error",
+      "Failed to delete employee."
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import {
+  EmployeeValidationError,
+  createEmployee,
+  listEmployees,
+  parseEmploymentStatus,
+  parseTaxStatus,
+  summarizeEmployees,
+} from "@/lib/employees";
+import { parseCalendarDate } from "@/lib/period-range";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" ? value : null;
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    const employees = await listEmployees(user.userId);
+    return NextResponse.json({
+      employees,
+      totals: summarizeEmployees(employees),
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("List employees error", error);
+    return NextResponse.json(
+      { error: "Failed to load employees." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const joinDate =
+      typeof body.joinDate === "string"
+        ? parseCalendarDate(body.joinDate)
+        : null;
+    if (!joinDate) {
+      return NextResponse.json(
+        { error: "Join date must be in YYYY-MM-DD format." },
+        { status: 400 }
+      );
+    }
+
+    let endDate: Date | null = null;
+    if (typeof body.endDate === "string" && body.endDate) {
+      endDate = parseCalendarDate(body.endDate);
+      if (!endDate) {
+        return NextResponse.json(
+          { error: "End date must be in YYYY-MM-DD format." },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (
+      body.employmentStatus &&
+      !parseEmploymentStatus(body.employmentStatus)
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "Employment status must be permanent, contract, probation, " +
+            "intern or terminated.",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.taxStatus && !parseTaxStatus(body.taxStatus)) {
+      return NextResponse.json(
+        { error: "Tax status must be a PTKP status such as TK/0 or K/1." },
+        { status: 400 }
+      );
+    }
+
+    const employee = await createEmployee(user.userId, {
+      employeeNumber: optionalString(body.employeeNumber),
+      name: optionalString(body.name) ?? "",
+      position: optionalString(body.position) ?? "",
+      department: optionalString(body.department) ?? "",
+      joinDate,
+      employmentStatus: parseEmploymentStatus(body.employmentStatus),
+      endDate,
+      baseSalary: Number(body.baseSalary ?? 0),
+      bankName: optionalString(body.bankName),
+      bankAccountNumber: optionalString(body.bankAccountNumber),
+      npwp: optionalString(body.npwp),
+      bpjsKesehatanNumber: optionalString(body.bpjsKesehatanNumber),
+      bpjsKetenagakerjaanNumber: optionalString(
+        body.bpjsKetenagakerjaanNumber
+      ),
+      taxStatus: parseTaxStatus(body.taxStatus),
+    });
+
+    return NextResponse.json(
+      { message: "Employee added.", employee },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof EmployeeValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Create employee error", error);
+    return NextResponse.json(
+      { error: "Failed to add employee." },
+      { status: 500 }
+    );
+  }
+}
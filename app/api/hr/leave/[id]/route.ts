@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+
+import {
+  LeaveRequestNotFoundError,
+  LeaveValidationError,
+  decideLeaveRequest,
+} from "@/lib/attendance";
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteParams = {
+  params: {
+    id: string;
+  };
+};
+
+const ACTION_DECISIONS = {
+  approve: "approved",
+  reject: "rejected",
+  cancel: "cancelled",
+} as const;
+
+const ACTION_MESSAGES = {
+  approve: "Leave approved.",
+  reject: "Leave rejected.",
+  cancel: "Leave cancelled.",
+} as const;
+
+function isAction(value: unknown): value is keyof typeof ACTION_MESSAGES {
+  return typeof value === "string" && value in ACTION_MESSAGES;
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    if (!isAction(body.action)) {
+      return NextResponse.json(
+        { error: "Action must be approve, reject or cancel." },
+        { status: 400 }
+      );
+    }
+
+    const leaveRequest = await decideLeaveRequest(
+      user.userId,
+      params.id,
+      ACTION_DECISIONS[body.action],
+      typeof body.note === "string" ? body.note : null
+    );
+
+    return NextResponse.json({
+      message: ACTION_MESSAGES[body.action],
+      leaveRequest,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof LeaveRequestNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof LeaveValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Update leave request error", error);
+    return NextResponse.json(
+      { error: "Failed to update leave request." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+
+import {
+  LeaveValidationError,
+  createLeaveRequest,
+  listLeaveBalances,
+  listLeaveRequests,
+  parseLeaveStatus,
+  parseLeaveType,
+} from "@/lib/attendance";
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import { EmployeeNotFoundError } from "@/lib/employees";
+import { parseCalendarDate } from "@/lib/period-range";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser();
+    const { searchParams } = new URL(request.url);
+    const status = parseLeaveStatus(searchParams.get("status"));
+    const year = Number(searchParams.get("year")) || new Date().getFullYear();
+
+    const [leaveRequests, balances] = await Promise.all([
+      listLeaveRequests(user.userId, { status }),
+      listLeaveBalances(user.userId, year),
+    ]);
+    return NextResponse.json({ leaveRequests, balances, year });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("List leave requests error", error);
+    return NextResponse.json(
+      { error: "Failed to load leave requests." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const startDate =
+      typeof body.startDate === "string"
+        ? parseCalendarDate(body.startDate)
+        : null;
+    const endDate =
+      typeof body.endDate === "string" ? parseCalendarDate(body.endDate) : null;
+    if (!startDate || !endDate) {
+      return NextResponse.json(
+        { error: "Start and end dates must be in YYYY-MM-DD format." },
+        { status: 400 }
+      );
+    }
+
+    const type = parseLeaveType(body.type);
+    if (!type) {
+      return NextResponse.json(
+        { error: "Leave type must be annual, sick or unpaid." },
+        { status: 400 }
+      );
+    }
+
+    const leaveRequest = await createLeaveRequest(user.userId, {
+      employeeId: typeof body.employeeId === "string" ? body.employeeId : "",
+      type,
+      startDate,
+      endDate,
+      reason: typeof body.reason === "string" ? body.reason : null,
+    });
+
+    return NextResponse.json(
+      { message: "Leave request submitted.", leaveRequest },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof EmployeeNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof LeaveValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Create leave request error", error);
+    return NextResponse.json(
+      { error: "Failed to submit leave request." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import { JournalValidationError } from "@/lib/journal";
+import {
+  PayrollRunNotFoundError,
+  PayrollValidationError,
+  deletePayrollRun,
+  getPayrollRun,
+  postPayrollRun,
+  voidPayrollRun,
+} from "@/lib/payroll";
+import { PeriodLockedError } from "@/lib/periods";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteParams = {
+  params: {
+    id: string;
+  };
+};
+
+const ACTION_MESSAGES = {
+  post: "Payroll posted.",
+  void: "Payroll voided.",
+} as const;
+
+function isAction(value: unknown): value is keyof typeof ACTION_MESSAGES {
+  return typeof value === "string" && value in ACTION_MESSAGES;
+}
+
+function toErrorResponse(error: unknown, context: string, fallback: string) {
+  if (error instanceof UnauthorizedError) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (error instanceof PayrollRunNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (
+    error instanceof PayrollValidationError ||
+    error instanceof JournalValidationError
+  ) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  if (error instanceof PeriodLockedError) {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+  console.error(context, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    const payrollRun = await getPayrollRun(user.userId, params.id);
+    return NextResponse.json({ payrollRun });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      "Load payroll run error",
+      "Failed to load payroll run."
+    );
+  }
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    if (!isAction(body.action)) {
+      return NextResponse.json(
+        { error: "Action must be post or void." },
+        { status: 400 }
+      );
+    }
+
+    const payrollRun =
+      body.action === "post"
+        ? await postPayrollRun(user.userId, params.id)
+        : await voidPayrollRun(user.userId, params.id);
+
+    return NextResponse.json({
+      message: ACTION_MESSAGES[body.action],
+      payrollRun,
+    });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      "Update payroll run error",
+      "Failed to update payroll run."
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    await deletePayrollRun(user.userId, params.id);
+    return NextResponse.json({ message: "Payroll run deleted." });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      "Delete payroll run error",
+      "Failed to delete payroll run."
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import { JournalValidationError } from "@/lib/journal";
+import { parseCalendarDate } from "@/lib/period-range";
+import {
+  PayrollValidationError,
+  createPayrollRun,
+  listPayrollRuns,
+  parsePayrollRunStatus,
+  postPayrollRun,
+  type PayrollAdjustmentInput,
+} from "@/lib/payroll";
+import { PeriodLockedError } from "@/lib/periods";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const optionalNumber = (value: unknown) =>
+  value === undefined || value === null || value === ""
+    ? null
+    : Number(value);
+
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser();
+    const { searchParams } = new URL(request.url);
+    const status = parsePayrollRunStatus(searchParams.get("status"));
+
+    const payrollRuns = await listPayrollRuns(user.userId);
+    return NextResponse.json({
+      payrollRuns: status
+        ? payrollRuns.filter((run) => run.status === status)
+        : payrollRuns,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("List payroll runs error", error);
+    return NextResponse.json(
+      { error: "Failed to load payroll runs." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const payDate =
+      typeof body.payDate === "string" ? parseCalendarDate(body.payDate) : null;
+    if (!payDate) {
+      return NextResponse.json(
+        { error: "Pay date must be in YYYY-MM-DD format." },
+        { status: 400 }
+      );
+    }
+
+    if (body.adjustments !== undefined && !Array.isArray(body.adjustments)) {
+      return NextResponse.json(
+        { error: "Adjustments must be a list." },
+        { status: 400 }
+      );
+    }
+
+    const adjustments: PayrollAdjustmentInput[] = (
+      (body.adjustments as unknown[] | undefined) ?? []
+    ).map((raw) => {
+      const adjustment = (raw ?? {}) as Record<string, unknown>;
+      return {
+        employeeId:
+          typeof adjustment.employeeId === "string"
+            ? adjustment.employeeId
+            : "",
+        allowances: optionalNumber(adjustment.allowances),
+        deductions: optionalNumber(adjustment.deductions),
+      };
+    });
+
+    const payrollRun = await createPayrollRun(user.userId, {
+      period: typeof body.period === "string" ? body.period : "",
+      payDate,
+      memo: typeof body.memo === "string" ? body.memo : null,
+      adjustments,
+    });
+
+    if (body.post === true) {
+      const posted = await postPayrollRun(user.userId, payrollRun.id);
+      return NextResponse.json(
+        { message: "Payroll posted.", payrollRun: posted },
+        { status: 201 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "Payroll saved as draft.", payrollRun },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (
+      error instanceof PayrollValidationError ||
+      error instanceof JournalValidationError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof PeriodLockedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Create payroll run error", error);
+    return NextResponse.json(
+      { error: "Failed to create payroll run." },
+      { status: 500 }
+    );
+  }
+}
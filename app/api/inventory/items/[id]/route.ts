@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import {
+  InventoryItemNotFoundError,
+  InventoryValidationError,
+  deleteItem,
+  getItem,
+  listMovements,
+  parseCostMethod,
+  updateItem,
+} from "@/lib/inventory";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteParams = {
+  params: {
+    id: string;
+  };
+};
+
+function toErrorResponse(error: unknown, context: string, fallback: string) {
+  if (error instanceof UnauthorizedError) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (error instanceof InventoryItemNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (error instanceof InventoryValidationError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  console.error(context, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    const [item, movements] = await Promise.all([
+      getItem(user.userId, params.id),
+      listMovements(user.userId, { itemId: params.id }),
+    ]);
+    return NextResponse.json({ item, movements });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      "Get inventory item error",
+      "Failed to load item."
+    );
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    if (body.costMethod !== undefined && !parseCostMethod(body.costMethod)) {
+      return NextResponse.json(
+        { error: "Cost method must be fifo or average." },
+        { status: 400 }
+      );
+    }
+
+    const item = await updateItem(user.userId, params.id, {
+      name: typeof body.name === "string" ? body.name : undefined,
+      unit: typeof body.unit === "string" ? body.unit : undefined,
+      costMethod: parseCostMethod(body.costMethod),
+      reorderLevel:
+        body.reorderLevel === undefined ? undefined : Number(body.reorderLevel),
+      description:
+        typeof body.description === "string" ? body.description : undefined,
+    });
+
+    return NextResponse.json({ message: "Item updated.", item });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      "Update inventory item error",
+      "Failed to update item."
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    await deleteItem(user.userId, params.id);
+    return NextResponse.json({ message: "Item deleted." });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      "Delete inventory item error",
+      "Failed to delete item."
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import {
+  InventoryValidationError,
+  createItem,
+  listItems,
+  parseCostMethod,
+  summarizeItems,
+  type OpeningStockInput,
+} from "@/lib/inventory";
+import { parseCalendarDate } from "@/lib/period-range";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const optionalNumber = (value: unknown) =>
+  value === undefined || value === null || value === ""
+    ? null
+    : Number(value);
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    const items = await listItems(user.userId);
+    return NextResponse.json({ items, totals: summarizeItems(items) });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("List inventory items error", error);
+    return NextResponse.json(
+      { error: "Failed to load inventory items." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    if (body.costMethod && !parseCostMethod(body.costMethod)) {
+      return NextResponse.json(
+        { error: "Cost method must be fifo or average." },
+        { status: 400 }
+      );
+    }
+
+    let openingStock: OpeningStockInput | null = null;
+    if (body.openingStock) {
+      const raw = body.openingStock as Record<string, unknown>;
+      const date =
+        typeof raw.date === "string" ? parseCalendarDate(raw.date) : null;
+      if (!date) {
+        return NextResponse.json(
+          { error: "Opening stock date must be in YYYY-MM-DD format." },
+          { status: 400 }
+        );
+      }
+      openingStock = {
+        date,
+        quantity: Number(raw.quantity),
+        unitCost: Number(raw.unitCost),
+        location: typeof raw.location === "string" ? raw.location : null,
+      };
+    }
+
+    const item = await createItem(user.userId, {
+      sku: typeof body.sku === "string" ? body.sku : "",
+      name: typeof body.name === "string" ? body.name : "",
+      unit: typeof body.unit === "string" ? body.unit : null,
+      costMethod: parseCostMethod(body.costMethod),
+      reorderLevel: optionalNumber(body.reorderLevel),
+      description:
+        typeof body.description === "string" ? body.description : null,
+      openingStock,
+    });
+
+    return NextResponse.json(
+      { message: "Item created.", item },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof InventoryValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Create inventory item error", error);
+    return NextResponse.json(
+      { error: "Failed to create item." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import {
+  InventoryItemNotFoundError,
+  InventoryValidationError,
+  listMovements,
+  parseMovementType,
+  recordMovement,
+} from "@/lib/inventory";
+import { parseCalendarDate } from "@/lib/period-range";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser();
+    const { searchParams } = new URL(request.url);
+    const type = parseMovementType(searchParams.get("type"));
+
+    const movements = await listMovements(user.userId, {
+      itemId: searchParams.get("itemId"),
+    });
+    return NextResponse.json({
+      movements: type
+        ? movements.filter((movement) => movement.type === type)
+        : movements,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof InventoryItemNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("List stock movements error", error);
+    return NextResponse.json(
+      { error: "Failed to load stock movements." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const type = parseMovementType(body.type);
+    if (!type) {
+      return NextResponse.json(
+        { error: "Type must be receipt, issue, adjustment or transfer." },
+        { status: 400 }
+      );
+    }
+
+    const date =
+      typeof body.date === "string" ? parseCalendarDate(body.date) : null;
+    if (!date) {
+      return NextResponse.json(
+        { error: "Movement date must be in YYYY-MM-DD format." },
+        { status: 400 }
+      );
+    }
+
+    const item = await recordMovement(user.userId, {
+      itemId: typeof body.itemId === "string" ? body.itemId : "",
+      type,
+      date,
+      quantity: Number(body.quantity),
+      location: typeof body.location === "string" ? body.location : null,
+      toLocation: typeof body.toLocation === "string" ? body.toLocation : null,
+      unitCost:
+        body.unitCost === undefined ||
+        body.unitCost === null ||
+        body.unitCost === ""
+          ? null
+          : Number(body.unitCost),
+      offsetAccountCode:
+        typeof body.offsetAccountCode === "string"
+          ? body.offsetAccountCode
+          : null,
+      reference: typeof body.reference === "string" ? body.reference : null,
+      memo: typeof body.memo === "string" ? body.memo : null,
+    });
+
+    return NextResponse.json(
+      { message: "Stock movement recorded.", item },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof InventoryItemNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof InventoryValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Record stock movement error", error);
+    return NextResponse.json(
+      { error: "Failed to record stock movement." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import {
+  JournalValidationError,
+  postJournal,
+  type JournalDraftLine,
+} from "@/lib/journal";
+import { PeriodLockedError, assertPeriodsOpen } from "@/lib/periods";
+import {
+  TaxCodeNotFoundError,
+  TaxCodeValidationError,
+  getActiveTaxCode,
+} from "@/lib/tax-codes";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function parseAmount(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  const amount = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(amount) ? amount : NaN;
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const date =
+      typeof body.date === "string" ? new Date(body.date) : new Date(NaN);
+    if (Number.isNaN(date.getTime())) {
+      return NextResponse.json(
+        { error: "Journal date is invalid." },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(body.lines)) {
+      return NextResponse.json(
+        { error: "Journal lines are required." },
+        { status: 400 }
+      );
+    }
+
+    const lines: JournalDraftLine[] = body.lines.map((raw) => {
+      const line = (raw ?? {}) as Record<string, unknown>;
+      return {
+        accountCode:
+          typeof line.accountCode === "string" ? line.accountCode.trim() : "",
+        debit: parseAmount(line.debit),
+        credit: parseAmount(line.credit),
+        description:
+          typeof line.description === "string" && line.description.trim()
+            ? line.description.trim()
+            : undefined,
+        taxCode:
+          typeof line.taxCode === "string" && line.taxCode.trim()
+            ? line.taxCode.trim().toUpperCase()
+            : undefined,
+        taxBase: parseAmount(line.taxBase),
+      };
+    });
+
+    if (
+      lines.some(
+        (line) =>
+          Number.isNaN(line.debit) ||
+          Number.isNaN(line.credit) ||
+          Number.isNaN(line.taxBase)
+      )
+    ) {
+      return NextResponse.json(
+        { error: "Debit, credit and tax base amounts must be numbers." },
+        { status: 400 }
+      );
+    }
+
+    const memo =
+      typeof body.memo === "string" && body.memo.trim()
+        ? body.memo.trim()
+        : undefined;
+
+    // Tagged VAT lines feed the PPN report, so only active PPN codes count
+    const taxCodes = new Set(
+      lines.flatMap((line) => (line.taxCode ? [line.taxCode] : []))
+    );
+    for (const code of taxCodes) {
+      await getActiveTaxCode(user.userId, code, "ppn");
+    }
+
+    await assertPeriodsOpen(user.userId, date);
+    const entry = await postJournal(user.userId, { date, memo, lines });
+
+    return NextResponse.json(
+      {
+        message: "Journal posted.",
+        entryId: entry._id?.toString() ?? null,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (
+      error instanceof JournalValidationError ||
+      error instanceof TaxCodeNotFoundError ||
+      error instanceof TaxCodeValidationError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof PeriodLockedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Post journal error", error);
+    return NextResponse.json(
+      { error: "Failed to post journal." },
+      { status: 500 }
+    );
+  }
+}
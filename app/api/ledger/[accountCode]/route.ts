@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import { buildAccountLedger } from "@/lib/ledger";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteParams = {
+  params: {
+    accountCode: string;
+  };
+};
+
+function parseDate(value: string | null): Date | null {
+  if (!value) {
+    return null;
+  }
+  // Plain calendar dates are read in server time, like getPeriodRange
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (match) {
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    const { searchParams } = new URL(request.url);
+    const fromParam = searchParams.get("from");
+    const toParam = searchParams.get("to");
+
+    const now = new Date();
+    const start = fromParam
+      ? parseDate(fromParam)
+      : new Date(now.getFullYear(), 0, 1);
+    const to = toParam ? parseDate(toParam) : now;
+
+    if (!start || !to) {
+      return NextResponse.json(
+        { error: "Invalid date range." },
+        { status: 400 }
+      );
+    }
+
+    // `to` is inclusive: the ledger covers the whole of that day
+    const end = new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1);
+
+    if (start >= end) {
+      return NextResponse.json(
+        { error: "Start date must be before end date." },
+        { status: 400 }
+      );
+    }
+
+    const ledger = await buildAccountLedger(user.userId, params.accountCode, {
+      start,
+      end,
+    });
+
+    if (!ledger) {
+      return NextResponse.json({ error: "Unknown account." }, { status: 404 });
+    }
+
+    return NextResponse.json(ledger);
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("Ledger API error", error);
+    return NextResponse.json(
+      { error: "Failed to load account ledger." },
+      { status: 500 }
+    );
+  }
+}
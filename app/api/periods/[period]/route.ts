@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import { JournalValidationError } from "@/lib/journal";
+import {
+  PeriodValidationError,
+  closeAccountingPeriod,
+  lockAccountingPeriod,
+  reopenAccountingPeriod,
+  unlockAccountingPeriod,
+} from "@/lib/periods";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteParams = {
+  params: {
+    period: string;
+  };
+};
+
+const ACTIONS = {
+  close: closeAccountingPeriod,
+  reopen: reopenAccountingPeriod,
+  lock: lockAccountingPeriod,
+  unlock: unlockAccountingPeriod,
+} as const;
+
+const ACTION_MESSAGES: Record<keyof typeof ACTIONS, string> = {
+  close: "Period closed.",
+  reopen: "Period reopened.",
+  lock: "Period locked.",
+  unlock: "Period unlocked.",
+};
+
+function isAction(value: unknown): value is keyof typeof ACTIONS {
+  return typeof value === "string" && value in ACTIONS;
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    if (!isAction(body.action)) {
+      return NextResponse.json(
+        { error: "Action must be close, reopen, lock or unlock." },
+        { status: 400 }
+      );
+    }
+
+    const period = await ACTIONS[body.action](user.userId, params.period);
+
+    return NextResponse.json({
+      message: ACTION_MESSAGES[body.action],
+      period,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (
+      error instanceof PeriodValidationError ||
+      error instanceof JournalValidationError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Update period error", error);
+    return NextResponse.json(
+      { error: "Failed to update accounting period." },
+      { status: 500 }
+    );
+  }
+}
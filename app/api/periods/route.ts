@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import { listAccountingPeriods } from "@/lib/periods";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    const periods = await listAccountingPeriods(user.userId);
+    return NextResponse.json({ periods });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("List periods error", error);
+    return NextResponse.json(
+      { error: "Failed to load accounting periods." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import { JournalValidationError } from "@/lib/journal";
+import { parseCalendarDate } from "@/lib/period-range";
+import { PeriodLockedError } from "@/lib/periods";
+import {
+  BillNotFoundError,
+  BillValidationError,
+  approveBill,
+  deleteBill,
+  recordBillPayment,
+  voidBill,
+} from "@/lib/procurement";
+import {
+  TaxCodeNotFoundError,
+  TaxCodeValidationError,
+} from "@/lib/tax-codes";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteParams = {
+  params: {
+    id: string;
+  };
+};
+
+const ACTION_MESSAGES = {
+  approve: "Bill approved.",
+  pay: "Payment recorded.",
+  void: "Bill voided.",
+} as const;
+
+function isAction(value: unknown): value is keyof typeof ACTION_MESSAGES {
+  return typeof value === "string" && value in ACTION_MESSAGES;
+}
+
+function toErrorResponse(error: unknown, context: string, fallback: string) {
+  if (error instanceof UnauthorizedError) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (error instanceof BillNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (
+    error instanceof BillValidationError ||
+    error instanceof JournalValidationError ||
+    error instanceof TaxCodeNotFoundError ||
+    error instanceof TaxCodeValidationError
+  ) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  if (error instanceof PeriodLockedError) {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+  console.error(context, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    if (!isAction(body.action)) {
+      return NextResponse.json(
+        { error: "Action must be approve, pay or void." },
+        { status: 400 }
+      );
+    }
+
+    let bill;
+    if (body.action === "pay") {
+      const date =
+        typeof body.date === "string" ? parseCalendarDate(body.date) : null;
+      if (!date) {
+        return NextResponse.json(
+          { error: "Payment date must be in YYYY-MM-DD format." },
+          { status: 400 }
+        );
+      }
+      bill = await recordBillPayment(user.userId, params.id, {
+        date,
+        amount: Number(body.amount),
+        // Left out, the vendor's withholding code applies
+        withholdingTaxCode:
+          body.withholdingTaxCode === undefined
+            ? undefined
+            : String(body.withholdingTaxCode ?? "") || null,
+        memo: typeof body.memo === "string" ? body.memo : null,
+      });
+    } else if (body.action === "approve") {
+      bill = await approveBill(user.userId, params.id);
+    } else {
+      bill = await voidBill(user.userId, params.id);
+    }
+
+    return NextResponse.json({
+      message: ACTION_MESSAGES[body.action],
+      bill,
+    });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      "Update bill error",
+      "Failed to update bill."
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    await deleteBill(user.userId, params.id);
+    return NextResponse.json({ message: "Bill deleted." });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      "Delete bill error",
+      "Failed to delete bill."
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import { JournalValidationError } from "@/lib/journal";
+import { parseCalendarDate } from "@/lib/period-range";
+import { PeriodLockedError } from "@/lib/periods";
+import {
+  BillValidationError,
+  approveBill,
+  createBill,
+  listBills,
+  parseBillStatus,
+  summarizeBills,
+  type BillLineInput,
+} from "@/lib/procurement";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser();
+    const { searchParams } = new URL(request.url);
+    const status = parseBillStatus(searchParams.get("status"));
+
+    const bills = await listBills(user.userId);
+    return NextResponse.json({
+      bills: status ? bills.filter((bill) => bill.status === status) : bills,
+      totals: summarizeBills(bills),
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("List bills error", error);
+    return NextResponse.json(
+      { error: "Failed to load bills." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const billDate =
+      typeof body.billDate === "string"
+        ? parseCalendarDate(body.billDate)
+        : null;
+    if (!billDate) {
+      return NextResponse.json(
+        { error: "Bill date must be in YYYY-MM-DD format." },
+        { status: 400 }
+      );
+    }
+
+    let dueDate: Date | null = null;
+    if (typeof body.dueDate === "string" && body.dueDate) {
+      dueDate = parseCalendarDate(body.dueDate);
+      if (!dueDate) {
+        return NextResponse.json(
+          { error: "Due date must be in YYYY-MM-DD format." },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (!Array.isArray(body.lines)) {
+      return NextResponse.json(
+        { error: "Bill lines are required." },
+        { status: 400 }
+      );
+    }
+
+    const lines: BillLineInput[] = body.lines.map((raw) => {
+      const line = (raw ?? {}) as Record<string, unknown>;
+      return {
+        description:
+          typeof line.description === "string" ? line.description : "",
+        accountCode:
+          typeof line.accountCode === "string" ? line.accountCode : null,
+        quantity: Number(line.quantity),
+        unitPrice: Number(line.unitPrice),
+        purchaseOrderLineId:
+          typeof line.purchaseOrderLineId === "string"
+            ? line.purchaseOrderLineId
+            : null,
+      };
+    });
+
+    const bill = await createBill(user.userId, {
+      vendorId: typeof body.vendorId === "string" ? body.vendorId : "",
+      purchaseOrderId:
+        typeof body.purchaseOrderId === "string" && body.purchaseOrderId
+          ? body.purchaseOrderId
+          : null,
+      vendorReference:
+        typeof body.vendorReference === "string" ? body.vendorReference : null,
+      billDate,
+      dueDate,
+      memo: typeof body.memo === "string" ? body.memo : null,
+      lines,
+    });
+
+    if (body.approve === true) {
+      const approved = await approveBill(user.userId, bill.id);
+      return NextResponse.json(
+        { message: "Bill approved.", bill: approved },
+        { status: 201 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "Bill saved as draft.", bill },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (
+      error instanceof BillValidationError ||
+      error instanceof JournalValidationError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof PeriodLockedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Create bill error", error);
+    return NextResponse.json(
+      { error: "Failed to create bill." },
+      { status: 500 }
+    );
+  }
+}
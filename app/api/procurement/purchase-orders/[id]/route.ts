@@ -0,0 +1,135 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import {
+  InventoryItemNotFoundError,
+  InventoryValidationError,
+} from "@/lib/inventory";
+import { JournalValidationError } from "@/lib/journal";
+import { parseCalendarDate } from "@/lib/period-range";
+import { PeriodLockedError } from "@/lib/periods";
+import {
+  PurchaseOrderConflictError,
+  PurchaseOrderNotFoundError,
+  PurchaseOrderValidationError,
+  approvePurchaseOrder,
+  closePurchaseOrder,
+  deletePurchaseOrder,
+  receivePurchaseOrder,
+} from "@/lib/procurement";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteParams = {
+  params: {
+    id: string;
+  };
+};
+
+const ACTION_MESSAGES = {
+  approve: "Purchase order approved.",
+  receive: "Goods receipt recorded.",
+  close: "Purchase order closed.",
+} as const;
+
+function isAction(value: unknown): value is keyof typeof ACTION_MESSAGES {
+  return typeof value === "string" && value in ACTION_MESSAGES;
+}
+
+function toErrorResponse(error: unknown, context: string, fallback: string) {
+  if (error instanceof UnauthorizedError) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (error instanceof PurchaseOrderNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (
+    error instanceof PurchaseOrderValidationError ||
+    error instanceof InventoryValidationError ||
+    error instanceof InventoryItemNotFoundError ||
+    error instanceof JournalValidationError
+  ) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  if (
+    error instanceof PeriodLockedError ||
+    error instanceof PurchaseOrderConflictError
+  ) {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+  console.error(context, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    if (!isAction(body.action)) {
+      return NextResponse.json(
+        { error: "Action must be approve, receive or close." },
+        { status: 400 }
+      );
+    }
+
+    let purchaseOrder;
+    if (body.action === "receive") {
+      const date =
+        typeof body.date === "string" ? parseCalendarDate(body.date) : null;
+      if (!date) {
+        return NextResponse.json(
+          { error: "Receipt date must be in YYYY-MM-DD format." },
+          { status: 400 }
+        );
+      }
+      if (!Array.isArray(body.lines)) {
+        return NextResponse.json(
+          { error: "Receipt lines are required." },
+          { status: 400 }
+        );
+      }
+      purchaseOrder = await receivePurchaseOrder(user.userId, params.id, {
+        date,
+        reference: typeof body.reference === "string" ? body.reference : null,
+        lines: body.lines.map((raw) => {
+          const line = (raw ?? {}) as Record<string, unknown>;
+          return {
+            lineId: typeof line.lineId === "string" ? line.lineId : "",
+            quantity: Number(line.quantity),
+          };
+        }),
+      });
+    } else if (body.action === "approve") {
+      purchaseOrder = await approvePurchaseOrder(user.userId, params.id);
+    } else {
+      purchaseOrder = await closePurchaseOrder(user.userId, params.id);
+    }
+
+    return NextResponse.json({
+      message: ACTION_MESSAGES[body.action],
+      purchaseOrder,
+    });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      "Update purchase order error",
+      "Failed to update purchase order."
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    await deletePurchaseOrder(user.userId, params.id);
+    return NextResponse.json({ message: "Purchase order deleted." });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      "Delete purchase order error",
+      "Failed to delete purchase order."
+    );
+  }
+}
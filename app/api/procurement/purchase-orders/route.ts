@@ -0,0 +1,122 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import { parseCalendarDate } from "@/lib/period-range";
+import {
+  PurchaseOrderValidationError,
+  approvePurchaseOrder,
+  createPurchaseOrder,
+  listPurchaseOrders,
+  parsePurchaseOrderStatus,
+  type PurchaseOrderLineInput,
+} from "@/lib/procurement";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser();
+    const { searchParams } = new URL(request.url);
+    const status = parsePurchaseOrderStatus(searchParams.get("status"));
+
+    const purchaseOrders = await listPurchaseOrders(user.userId);
+    return NextResponse.json({
+      purchaseOrders: status
+        ? purchaseOrders.filter((order) => order.status === status)
+        : purchaseOrders,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("List purchase orders error", error);
+    return NextResponse.json(
+      { error: "Failed to load purchase orders." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const orderDate =
+      typeof body.orderDate === "string"
+        ? parseCalendarDate(body.orderDate)
+        : null;
+    if (!orderDate) {
+      return NextResponse.json(
+        { error: "Order date must be in YYYY-MM-DD format." },
+        { status: 400 }
+      );
+    }
+
+    const expectedDate =
+      typeof body.expectedDate === "string"
+        ? parseCalendarDate(body.expectedDate)
+        : null;
+    if (!expectedDate) {
+      return NextResponse.json(
+        { error: "Expected date must be in YYYY-MM-DD format." },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(body.lines)) {
+      return NextResponse.json(
+        { error: "Order lines are required." },
+        { status: 400 }
+      );
+    }
+
+    const lines: PurchaseOrderLineInput[] = body.lines.map((raw) => {
+      const line = (raw ?? {}) as Record<string, unknown>;
+      return {
+        itemId: typeof line.itemId === "string" ? line.itemId : "",
+        description:
+          typeof line.description === "string" ? line.description : null,
+        quantity: Number(line.quantity),
+        unitPrice: Number(line.unitPrice),
+      };
+    });
+
+    const purchaseOrder = await createPurchaseOrder(user.userId, {
+      vendorId: typeof body.vendorId === "string" ? body.vendorId : "",
+      orderDate,
+      expectedDate,
+      memo: typeof body.memo === "string" ? body.memo : null,
+      lines,
+    });
+
+    if (body.approve === true) {
+      const approved = await approvePurchaseOrder(
+        user.userId,
+        purchaseOrder.id
+      );
+      return NextResponse.json(
+        { message: "Purchase order approved.", purchaseOrder: approved },
+        { status: 201 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "Purchase order saved as draft.", purchaseOrder },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof PurchaseOrderValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Create purchase order error", error);
+    return NextResponse.json(
+      { error: "Failed to create purchase order." },
+      { status: 500 }
+    );
+  }
+}
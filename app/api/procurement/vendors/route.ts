@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import {
+  VendorValidationError,
+  createVendor,
+  listVendors,
+} from "@/lib/procurement";
+import {
+  TaxCodeNotFoundError,
+  TaxCodeValidationError,
+} from "@/lib/tax-codes";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    const vendors = await listVendors(user.userId);
+    return NextResponse.json({ vendors });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("List vendors error", error);
+    return NextResponse.json(
+      { error: "Failed to load vendors." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const vendor = await createVendor(user.userId, {
+      name: typeof body.name === "string" ? body.name : "",
+      email: typeof body.email === "string" ? body.email : null,
+      phone: typeof body.phone === "string" ? body.phone : null,
+      address: typeof body.address === "string" ? body.address : null,
+      paymentTermDays:
+        body.paymentTermDays === undefined ||
+        body.paymentTermDays === null ||
+        body.paymentTermDays === ""
+          ? null
+          : Number(body.paymentTermDays),
+      withholdingTaxCode:
+        typeof body.withholdingTaxCode === "string"
+          ? body.withholdingTaxCode
+          : null,
+    });
+
+    return NextResponse.json(
+      { message: "Vendor created.", vendor },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (
+      error instanceof VendorValidationError ||
+      error instanceof TaxCodeNotFoundError ||
+      error instanceof TaxCodeValidationError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Create vendor error", error);
+    return NextResponse.json(
+      { error: "Failed to create vendor." },
+      { status: 500 }
+    );
+  }
+}
@@ -2,61 +2,41 @@ import { NextRequest, NextResponse } from "next/server";
 import clientPromise from "@/lib/mongodb";
 import { ObjectId } from "mongodb";
 import { requireUser } from "@/lib/auth";
-
-function getPeriodDates(period: string) {
-  const now = new Date();
-  const currentYear = now.getFullYear();
-  const currentMonth = now.getMonth();
-
-  switch (period) {
-    case "current-month":
-      return {
-        start: new Date(currentYear, currentMonth, 1),
-        end: new Date(currentYear, currentMonth + 1, 0, 23, 59, 59, 999),
-      };
-    case "last-month":
-      return {
-        start: new Date(currentYear, currentMonth - 1, 1),
-        end: new Date(currentYear, currentMonth, 0, 23, 59, 59, 999),
-      };
-    case "year-to-date":
-      return {
-        start: new Date(currentYear, 0, 1),
-        end: now,
-      };
-    case "last-year":
-      return {
-        start: new Date(currentYear - 1, 0, 1),
-        end: new Date(currentYear - 1, 11, 31, 23, 59, 59, 999),
-      };
-    case "all-time":
-      return {
-        start: new Date(2020, 0, 1), // arbitrary old date
-        end: now,
-      };
-    default:
-      return null;
-  }
-}
+import { resolvePeriodRange } from "@/lib/finance";
+import {
+  InvalidPeriodError,
+  parsePeriodKey,
+  parsePeriodQuery,
+} from "@/lib/period-range";
 
 export async function DELETE(request: NextRequest) {
   try {
     const user = await requireUser();
     const body = await request.json();
-    const { category, period, type } = body;
+    const { category, period, from, to, type } = body;
 
-    if (!category || !period || !type) {
+    if (!category || !(period || from || to) || !type) {
       return NextResponse.json(
         { error: "Category, period, and type are required" },
         { status: 400 }
       );
     }
 
-    // Get period range
-    const periodRange = getPeriodDates(period);
-    if (!periodRange) {
+    // Same period windows as the reports the deletion was started from
+    const selection =
+      from || to
+        ? parsePeriodQuery(
+            new URLSearchParams({
+              from: String(from ?? ""),
+              to: String(to ?? ""),
+            }),
+            "all-time"
+          )
+        : parsePeriodKey(period);
+    if (!selection) {
       return NextResponse.json({ error: "Invalid period" }, { status: 400 });
     }
+    const periodRange = await resolvePeriodRange(user.userId, selection);
 
     const client = await clientPromise;
     const db = client.db("erp_system");
@@ -68,7 +48,7 @@ export async function DELETE(request: NextRequest) {
       category: category,
       date: {
         $gte: periodRange.start,
-        $lte: periodRange.end,
+        $lt: periodRange.end,
       },
     };
 
@@ -85,12 +65,15 @@ export async function DELETE(request: NextRequest) {
         message: "Transactions deleted successfully",
         deletedCount: result.deletedCount,
         category: category,
-        period: period,
+        period: periodRange.label,
         type: type,
       },
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof InvalidPeriodError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Delete by category error:", error);
     return NextResponse.json(
       { error: "Failed to delete transactions" },
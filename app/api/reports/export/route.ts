@@ -1,14 +1,63 @@
 import { NextResponse } from "next/server";
 import * as XLSX from "xlsx-js-style";
 
+import { buildAgingReportFor } from "@/lib/aging";
+import {
+  AGING_BUCKETS,
+  isAgingReportType,
+  type AgingReport,
+} from "@/lib/aging-schema";
 import { UnauthorizedError, requireUser } from "@/lib/auth";
-import { buildReportData, type PeriodKey } from "@/lib/finance";
+import {
+  buildMonthlyIncomeStatement,
+  buildReportData,
+  type MonthlyIncomeStatement,
+  type MonthlyReportRow,
+} from "@/lib/finance";
+import type {
+  InventoryReconciliation,
+  InventoryValuationReport,
+  StockMovementReport,
+} from "@/lib/inventory-report-schema";
+import {
+  buildInventoryValuation,
+  buildStockMovementReport,
+} from "@/lib/inventory-reports";
+import type { MovementType } from "@/lib/inventory";
+import { isPeriodKey } from "@/lib/periods";
+import {
+  InvalidPeriodError,
+  formatRangeLabel,
+  parseCalendarDate,
+  parsePeriodQuery,
+  toPeriodQuery,
+  type PeriodKey,
+} from "@/lib/period-range";
+import {
+  calculateVariance,
+  parseComparisonQuery,
+  toComparisonQuery,
+} from "@/lib/report-comparison";
+import { buildPpnReport, buildWithholdingReport } from "@/lib/tax-reports";
+import type {
+  PpnReport,
+  PpnReportSection,
+  WithholdingReport,
+} from "@/lib/tax-schema";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 const DEFAULT_PERIOD: PeriodKey = "current-month";
-const VALID_TYPES = new Set(["income-statement", "balance-sheet", "cash-flow"]);
+const VALID_TYPES = new Set([
+  "income-statement",
+  "balance-sheet",
+  "cash-flow",
+  "equity",
+  "trial-balance",
+]);
+const VALID_MODES = new Set(["monthly"]);
+const VALID_CASH_FLOW_METHODS = new Set(["direct", "indirect"]);
 
 type SheetBuilder = (
   report: Awaited<ReturnType<typeof buildReportData>>
@@ -28,17 +77,29 @@ interface RowMetadata {
   kind?: RowKind;
   numeric?: boolean;
   merge?: boolean;
+  /** Column holding a fraction to format as a percentage. */
+  percentColumn?: number;
+  /** Columns holding stock quantities rather than amounts. */
+  quantityColumns?: number[];
 }
 
 interface SheetAccumulator {
   rows: (string | number)[][];
   meta: RowMetadata[];
   merges: XLSX.Range[];
+  columnCount: number;
 }
 
 type Style = Partial<XLSX.CellStyle>;
 
 const CURRENCY_FORMAT = '"Rp"\\ #,##0;-"Rp"\\ #,##0;"-"';
+const PERCENT_FORMAT = '0.0%;-0.0%;"-"';
+const QUANTITY_FORMAT = '#,##0.####;-#,##0.####;"-"';
+
+// Item, current, comparison, variance and variance % columns
+const COMPARISON_COLUMN_COUNT = 5;
+const COMPARISON_PERCENT_COLUMN = 4;
+const COMPARISON_COLUMN_WIDTHS = [44, 22, 22, 22, 14];
 
 const COLORS = {
   slate900: "FF111827",
@@ -125,22 +186,25 @@ const STYLE_NET_VALUE: Style = {
   numFmt: CURRENCY_FORMAT,
 };
 
-function createAccumulator(): SheetAccumulator {
-  return { rows: [], meta: [], merges: [] };
+function createAccumulator(columnCount = 2): SheetAccumulator {
+  return { rows: [], meta: [], merges: [], columnCount };
 }
 
-function normalizeRow(row: (string | number | null)[]): (string | number)[] {
+function normalizeRow(
+  row: (string | number | null)[],
+  columnCount: number
+): (string | number)[] {
   const normalized = row.map((value) =>
     value === null || value === undefined ? "" : value
   );
   if (normalized.length === 0) {
     normalized.push("");
   }
-  while (normalized.length < 2) {
+  while (normalized.length < columnCount) {
     normalized.push("");
   }
-  if (normalized.length > 2) {
-    normalized.length = 2;
+  if (normalized.length > columnCount) {
+    normalized.length = columnCount;
   }
   return normalized as (string | number)[];
 }
@@ -150,12 +214,14 @@ function pushRow(
   row: (string | number | null)[],
   metadata: RowMetadata = {}
 ) {
-  const normalized = normalizeRow(row);
+  const normalized = normalizeRow(row, acc.columnCount);
   const entry: RowMetadata = {
     ...metadata,
     numeric:
       metadata.numeric ??
-      (typeof normalized[1] === "number" && Number.isFinite(normalized[1])),
+      normalized
+        .slice(1)
+        .some((value) => typeof value === "number" && Number.isFinite(value)),
   };
   acc.rows.push(normalized);
   acc.meta.push(entry);
@@ -170,20 +236,82 @@ function pushRow(
 function pushHeader(
   acc: SheetAccumulator,
   title: string,
-  period: string,
-  generatedAt: string
+  report:
+    | Awaited<ReturnType<typeof buildReportData>>
+    | MonthlyIncomeStatement
+    | StockMovementReport
+    | PpnReport
+    | WithholdingReport
 ) {
   pushRow(acc, [title, ""], { kind: "title", merge: true });
-  const generatedLabel = new Date(generatedAt).toLocaleString("id-ID", {
+  const generatedLabel = new Date(report.generatedAt).toLocaleString("id-ID", {
     dateStyle: "long",
     timeStyle: "short",
   });
-  pushRow(acc, ["Period", period], { kind: "meta" });
+  pushRow(acc, ["Period", report.period], { kind: "meta" });
+  pushRow(
+    acc,
+    [
+      "Range",
+      formatRangeLabel(new Date(report.range.start), new Date(report.range.end)),
+    ],
+    { kind: "meta" }
+  );
+  if ("comparison" in report && report.comparison) {
+    pushRow(acc, ["Compared With", report.comparison.period], {
+      kind: "meta",
+    });
+  }
   pushRow(acc, ["Generated At", generatedLabel], { kind: "meta" });
   pushRow(acc, [""], { kind: "spacer" });
 }
 
-type SectionRow = { label: string; amount: number };
+function createStatementAccumulator(
+  report: Awaited<ReturnType<typeof buildReportData>>
+): SheetAccumulator {
+  return createAccumulator(report.comparison ? COMPARISON_COLUMN_COUNT : 2);
+}
+
+function finalizeStatementSheet(
+  acc: SheetAccumulator,
+  report: Awaited<ReturnType<typeof buildReportData>>
+): XLSX.WorkSheet {
+  return report.comparison
+    ? finalizeSheet(acc, COMPARISON_COLUMN_WIDTHS)
+    : finalizeSheet(acc);
+}
+
+/** The amount, followed by the comparison and variance cells if compared. */
+function amountCells(amount: number, comparisonAmount?: number) {
+  if (comparisonAmount === undefined) {
+    return [amount];
+  }
+  const variance = calculateVariance(amount, comparisonAmount);
+  return [
+    amount,
+    comparisonAmount,
+    variance.amount,
+    variance.percent === null ? "" : variance.percent / 100,
+  ];
+}
+
+function pushNetRow(
+  acc: SheetAccumulator,
+  label: string,
+  amount: number,
+  comparisonAmount?: number
+) {
+  pushRow(acc, [label, ...amountCells(amount, comparisonAmount)], {
+    kind: "net",
+    percentColumn: COMPARISON_PERCENT_COLUMN,
+  });
+}
+
+type SectionRow = {
+  label: string;
+  amount: number;
+  comparisonAmount?: number;
+};
 
 function pushSection(
   acc: SheetAccumulator,
@@ -192,15 +320,26 @@ function pushSection(
     rows: SectionRow[];
     totalLabel: string;
     totalValue: number;
+    totalComparison?: number;
     includeSpacer?: boolean;
     emptyLabel?: string;
   }
 ) {
   pushRow(acc, [options.title, ""], { kind: "section", merge: true });
-  pushRow(acc, ["Item", "Amount"], { kind: "tableHeader" });
+  pushRow(
+    acc,
+    options.totalComparison === undefined
+      ? ["Item", "Amount"]
+      : ["Item", "Current", "Comparison", "Variance", "Variance %"],
+    { kind: "tableHeader" }
+  );
   if (options.rows.length) {
     options.rows.forEach((row) =>
-      pushRow(acc, [row.label, row.amount], { kind: "data" })
+      pushRow(
+        acc,
+        [row.label, ...amountCells(row.amount, row.comparisonAmount)],
+        { kind: "data", percentColumn: COMPARISON_PERCENT_COLUMN }
+      )
     );
   } else {
     pushRow(acc, [options.emptyLabel ?? "No records", "-"], {
@@ -208,7 +347,14 @@ function pushSection(
       numeric: false,
     });
   }
-  pushRow(acc, [options.totalLabel, options.totalValue], { kind: "totals" });
+  pushRow(
+    acc,
+    [
+      options.totalLabel,
+      ...amountCells(options.totalValue, options.totalComparison),
+    ],
+    { kind: "totals", percentColumn: COMPARISON_PERCENT_COLUMN }
+  );
   if (options.includeSpacer ?? true) {
     pushRow(acc, [""], { kind: "spacer" });
   }
@@ -235,7 +381,15 @@ function applyStyles(sheet: XLSX.WorkSheet, acc: SheetAccumulator) {
       const cell = ensureCell(sheet, rowIndex, colIndex, row[colIndex]);
       const style = styleForCell(meta, colIndex, row[colIndex]);
       if (style) {
-        cell.s = mergeStyles(cell.s as Style | undefined, style);
+        const isNumber = typeof row[colIndex] === "number";
+        cell.s = mergeStyles(
+          cell.s as Style | undefined,
+          isNumber && colIndex === meta.percentColumn
+            ? { ...style, numFmt: PERCENT_FORMAT }
+            : isNumber && meta.quantityColumns?.includes(colIndex)
+            ? { ...style, numFmt: QUANTITY_FORMAT }
+            : style
+        );
       }
     }
   });
@@ -303,121 +457,844 @@ function styleForCell(
   }
 }
 
-function isValidPeriod(value: string | null): value is PeriodKey {
-  return (
-    value !== null &&
-    [
-      "current-month",
-      "last-month",
-      "current-quarter",
-      "last-quarter",
-      "year-to-date",
-      "last-year",
-    ].includes(value)
-  );
-}
-
 function buildIncomeSheet(
   report: Awaited<ReturnType<typeof buildReportData>>
 ): XLSX.WorkSheet {
-  const acc = createAccumulator();
-  pushHeader(acc, "Income Statement", report.period, report.generatedAt);
+  const acc = createStatementAccumulator(report);
+  const previous = report.comparison?.totals.incomeStatement;
+  pushHeader(acc, "Income Statement", report);
   pushSection(acc, {
     title: "Revenue",
     rows: report.incomeStatement.revenues,
     totalLabel: "Total Revenue",
     totalValue: report.incomeStatement.totals.revenue,
+    totalComparison: previous?.revenue,
   });
   pushSection(acc, {
     title: "Expenses",
     rows: report.incomeStatement.expenses,
     totalLabel: "Total Expenses",
     totalValue: report.incomeStatement.totals.expenses,
+    totalComparison: previous?.expenses,
   });
-  pushRow(acc, ["Net Income", report.incomeStatement.totals.netIncome], {
-    kind: "net",
-  });
-  return finalizeSheet(acc);
+  pushNetRow(
+    acc,
+    "Net Income",
+    report.incomeStatement.totals.netIncome,
+    previous?.netIncome
+  );
+  return finalizeStatementSheet(acc, report);
 }
 
 function buildBalanceSheet(
   report: Awaited<ReturnType<typeof buildReportData>>
 ): XLSX.WorkSheet {
-  const acc = createAccumulator();
-  pushHeader(acc, "Balance Sheet", report.period, report.generatedAt);
+  const acc = createStatementAccumulator(report);
+  const previous = report.comparison?.totals.balanceSheet;
+  pushHeader(acc, "Balance Sheet", report);
   pushSection(acc, {
     title: "Assets",
     rows: report.balanceSheet.assets,
     totalLabel: "Total Assets",
     totalValue: report.balanceSheet.totals.assets,
+    totalComparison: previous?.assets,
   });
   pushSection(acc, {
     title: "Liabilities",
     rows: report.balanceSheet.liabilities,
     totalLabel: "Total Liabilities",
     totalValue: report.balanceSheet.totals.liabilities,
+    totalComparison: previous?.liabilities,
   });
   pushSection(acc, {
     title: "Equity",
     rows: report.balanceSheet.equity,
     totalLabel: "Total Equity",
     totalValue: report.balanceSheet.totals.equity,
+    totalComparison: previous?.equity,
     includeSpacer: false,
   });
-  return finalizeSheet(acc);
+  return finalizeStatementSheet(acc, report);
 }
 
 function buildCashFlowSheet(
   report: Awaited<ReturnType<typeof buildReportData>>
 ): XLSX.WorkSheet {
-  const acc = createAccumulator();
-  pushHeader(acc, "Cash Flow Statement", report.period, report.generatedAt);
+  const acc = createStatementAccumulator(report);
+  const previous = report.comparison?.totals.cashFlow;
+  pushHeader(acc, "Cash Flow Statement", report);
   pushSection(acc, {
     title: "Operating Activities",
     rows: report.cashFlow.operating,
     totalLabel: "Net Operating Cash Flow",
     totalValue: report.cashFlow.totals.operating,
+    totalComparison: previous?.operating,
   });
   pushSection(acc, {
     title: "Investing Activities",
     rows: report.cashFlow.investing,
     totalLabel: "Net Investing Cash Flow",
     totalValue: report.cashFlow.totals.investing,
+    totalComparison: previous?.investing,
   });
   pushSection(acc, {
     title: "Financing Activities",
     rows: report.cashFlow.financing,
     totalLabel: "Net Financing Cash Flow",
     totalValue: report.cashFlow.totals.financing,
+    totalComparison: previous?.financing,
   });
-  pushRow(acc, ["Net Change in Cash", report.cashFlow.totals.netChange], {
-    kind: "net",
+  pushNetRow(
+    acc,
+    "Net Change in Cash",
+    report.cashFlow.totals.netChange,
+    previous?.netChange
+  );
+  return finalizeStatementSheet(acc, report);
+}
+
+function pushMonthlySection(
+  acc: SheetAccumulator,
+  statement: MonthlyIncomeStatement,
+  options: {
+    title: string;
+    rows: MonthlyReportRow[];
+    totalLabel: string;
+    totals: MonthlyIncomeStatement["totals"]["revenue"];
+  }
+) {
+  pushRow(acc, [options.title, ""], { kind: "section", merge: true });
+  pushRow(
+    acc,
+    ["Item", ...statement.months.map((month) => month.label), "Total"],
+    { kind: "tableHeader" }
+  );
+  if (options.rows.length) {
+    options.rows.forEach((row) =>
+      pushRow(acc, [row.label, ...row.amounts, row.total], { kind: "data" })
+    );
+  } else {
+    pushRow(acc, ["No records", "-"], { kind: "data", numeric: false });
+  }
+  pushRow(
+    acc,
+    [options.totalLabel, ...options.totals.amounts, options.totals.total],
+    { kind: "totals" }
+  );
+  pushRow(acc, [""], { kind: "spacer" });
+}
+
+function buildMonthlyIncomeSheet(
+  statement: MonthlyIncomeStatement
+): XLSX.WorkSheet {
+  // Item column, one column per month and the total
+  const acc = createAccumulator(statement.months.length + 2);
+  pushHeader(acc, "Monthly Income Statement", statement);
+  pushMonthlySection(acc, statement, {
+    title: "Revenue",
+    rows: statement.revenues,
+    totalLabel: "Total Revenue",
+    totals: statement.totals.revenue,
+  });
+  pushMonthlySection(acc, statement, {
+    title: "Cost of Goods Sold",
+    rows: statement.cogs,
+    totalLabel: "Total Cost of Goods Sold",
+    totals: statement.totals.cogs,
+  });
+  pushRow(
+    acc,
+    [
+      "Gross Profit",
+      ...statement.totals.grossProfit.amounts,
+      statement.totals.grossProfit.total,
+    ],
+    { kind: "totals" }
+  );
+  pushRow(acc, [""], { kind: "spacer" });
+  pushMonthlySection(acc, statement, {
+    title: "Operating Expenses",
+    rows: statement.expenses,
+    totalLabel: "Total Operating Expenses",
+    totals: statement.totals.expenses,
   });
+  pushRow(
+    acc,
+    [
+      "Net Income",
+      ...statement.totals.netIncome.amounts,
+      statement.totals.netIncome.total,
+    ],
+    { kind: "net" }
+  );
+  return finalizeSheet(acc, [44, ...statement.months.map(() => 18), 20]);
+}
+
+function buildIndirectCashFlowSheet(
+  report: Awaited<ReturnType<typeof buildReportData>>
+): XLSX.WorkSheet {
+  const { indirect } = report.cashFlow;
+  const acc = createAccumulator();
+  pushHeader(acc, "Cash Flow Statement (Indirect Method)", report);
+  pushSection(acc, {
+    title: "Operating Activities",
+    rows: [
+      { label: "Net Income", amount: indirect.netIncome },
+      ...indirect.operatingAdjustments,
+    ],
+    totalLabel: "Net Operating Cash Flow",
+    totalValue: indirect.totals.operating,
+  });
+  pushSection(acc, {
+    title: "Investing Activities",
+    rows: indirect.investing,
+    totalLabel: "Net Investing Cash Flow",
+    totalValue: indirect.totals.investing,
+  });
+  pushSection(acc, {
+    title: "Financing Activities",
+    rows: indirect.financing,
+    totalLabel: "Net Financing Cash Flow",
+    totalValue: indirect.totals.financing,
+  });
+  pushRow(acc, ["Beginning Cash", indirect.beginningCash], { kind: "totals" });
+  pushRow(acc, ["Net Change in Cash", indirect.totals.netChange], {
+    kind: "totals",
+  });
+  pushRow(acc, ["Ending Cash", indirect.endingCash], { kind: "net" });
   return finalizeSheet(acc);
 }
 
+function buildEquitySheet(
+  report: Awaited<ReturnType<typeof buildReportData>>
+): XLSX.WorkSheet {
+  const { equityStatement } = report;
+  const acc = createAccumulator(4);
+  pushHeader(acc, "Statement of Changes in Equity", report);
+  pushRow(acc, ["Item", "Owner's Capital", "Retained Earnings", "Total"], {
+    kind: "tableHeader",
+  });
+  pushRow(
+    acc,
+    [
+      "Opening Balance",
+      equityStatement.opening.capital,
+      equityStatement.opening.retainedEarnings,
+      equityStatement.opening.total,
+    ],
+    { kind: "totals" }
+  );
+  equityStatement.movements.forEach((row) =>
+    pushRow(acc, [row.label, row.capital, row.retainedEarnings, row.total], {
+      kind: "data",
+    })
+  );
+  pushRow(
+    acc,
+    [
+      "Closing Balance",
+      equityStatement.closing.capital,
+      equityStatement.closing.retainedEarnings,
+      equityStatement.closing.total,
+    ],
+    { kind: "net" }
+  );
+  return finalizeSheet(acc, [44, 22, 22, 22]);
+}
+
+function buildTrialBalanceSheet(
+  report: Awaited<ReturnType<typeof buildReportData>>
+): XLSX.WorkSheet {
+  const { trialBalance } = report;
+  const acc = createAccumulator(4);
+  pushHeader(acc, "Trial Balance", report);
+  pushRow(acc, ["Account", "Debit", "Credit", "Balance"], {
+    kind: "tableHeader",
+  });
+  trialBalance.rows.forEach((row) =>
+    pushRow(
+      acc,
+      [`${row.code} - ${row.name}`, row.debit, row.credit, row.balance],
+      { kind: "data" }
+    )
+  );
+  trialBalance.unknownAccounts.forEach((row) =>
+    pushRow(
+      acc,
+      [`${row.code} - Not in chart of accounts`, row.debit, row.credit, ""],
+      { kind: "data" }
+    )
+  );
+  pushRow(
+    acc,
+    ["Total", trialBalance.totals.debit, trialBalance.totals.credit, ""],
+    { kind: "totals" }
+  );
+  pushRow(acc, [""], { kind: "spacer" });
+  pushRow(
+    acc,
+    [
+      "Status",
+      trialBalance.isBalanced
+        ? "Balanced"
+        : trialBalance.unknownAccounts.length
+        ? `${trialBalance.unknownAccounts.length} unknown account(s)`
+        : `Out of balance by Rp ${trialBalance.totals.difference.toLocaleString(
+            "id-ID"
+          )}`,
+    ],
+    { kind: "meta", numeric: false }
+  );
+  return finalizeSheet(acc, [44, 22, 22, 22]);
+}
+
 const SHEET_BUILDERS: Record<string, SheetBuilder> = {
   "income-statement": buildIncomeSheet,
   "balance-sheet": buildBalanceSheet,
   "cash-flow": buildCashFlowSheet,
+  equity: buildEquitySheet,
+  "trial-balance": buildTrialBalanceSheet,
 };
 
 const SHEET_NAMES: Record<string, string> = {
   "income-statement": "Income Statement",
   "balance-sheet": "Balance Sheet",
   "cash-flow": "Cash Flow",
+  equity: "Changes in Equity",
+  "trial-balance": "Trial Balance",
+  "receivables-aging": "Receivables Aging",
+  "payables-aging": "Payables Aging",
+  "inventory-valuation": "Inventory Valuation",
+  "stock-movements": "Stock Movements",
+  ppn: "PPN",
+  withholding: "Withholding Tax",
+};
+
+const MOVEMENT_TYPE_LABELS: Record<MovementType, string> = {
+  receipt: "Receipt",
+  issue: "Issue",
+  adjustment: "Adjustment",
+  transfer: "Transfer",
 };
 
+function buildAgingSheet(report: AgingReport): XLSX.WorkSheet {
+  const isReceivables = report.type === "receivables-aging";
+  const acc = createAccumulator(AGING_BUCKETS.length + 2);
+  pushRow(acc, [SHEET_NAMES[report.type], ""], { kind: "title", merge: true });
+  pushRow(
+    acc,
+    [
+      "As Of",
+      new Date(report.asOf).toLocaleDateString("id-ID", { dateStyle: "long" }),
+    ],
+    { kind: "meta" }
+  );
+  pushRow(
+    acc,
+    [
+      "Generated At",
+      new Date(report.generatedAt).toLocaleString("id-ID", {
+        dateStyle: "long",
+        timeStyle: "short",
+      }),
+    ],
+    { kind: "meta" }
+  );
+  pushRow(acc, [""], { kind: "spacer" });
+  pushRow(
+    acc,
+    [
+      isReceivables ? "Customer" : "Vendor",
+      ...AGING_BUCKETS.map((bucket) => bucket.label),
+      "Total",
+    ],
+    { kind: "tableHeader" }
+  );
+  if (report.rows.length) {
+    report.rows.forEach((row) =>
+      pushRow(
+        acc,
+        [
+          row.name,
+          ...AGING_BUCKETS.map((bucket) => row.buckets[bucket.value]),
+          row.total,
+        ],
+        { kind: "data" }
+      )
+    );
+  } else {
+    pushRow(acc, ["Nothing outstanding", "-"], {
+      kind: "data",
+      numeric: false,
+    });
+  }
+  pushRow(
+    acc,
+    [
+      "Total",
+      ...AGING_BUCKETS.map((bucket) => report.totals[bucket.value]),
+      report.totals.total,
+    ],
+    { kind: "net" }
+  );
+  return finalizeSheet(acc, [36, 18, 18, 18, 18, 18, 20]);
+}
+
+/** Ledger value, journal balance and difference in the sheet's last column. */
+function pushReconciliation(
+  acc: SheetAccumulator,
+  title: string,
+  reconciliation: InventoryReconciliation
+) {
+  const padding = Array<string>(acc.columnCount - 2).fill("");
+  pushRow(acc, [title, ""], { kind: "section", merge: true });
+  pushRow(acc, ["Stock Ledger Value", ...padding, reconciliation.stockValue], {
+    kind: "data",
+  });
+  pushRow(
+    acc,
+    ["Journal Balance (1200)", ...padding, reconciliation.ledgerBalance],
+    { kind: "data" }
+  );
+  pushRow(acc, ["Difference", ...padding, reconciliation.difference], {
+    kind: "totals",
+  });
+}
+
+function buildInventoryValuationSheet(
+  report: InventoryValuationReport
+): XLSX.WorkSheet {
+  const acc = createAccumulator(7);
+  pushRow(acc, [SHEET_NAMES[report.type], ""], { kind: "title", merge: true });
+  pushRow(
+    acc,
+    [
+      "As Of",
+      new Date(report.asOf).toLocaleDateString("id-ID", { dateStyle: "long" }),
+    ],
+    { kind: "meta" }
+  );
+  pushRow(
+    acc,
+    [
+      "Generated At",
+      new Date(report.generatedAt).toLocaleString("id-ID", {
+        dateStyle: "long",
+        timeStyle: "short",
+      }),
+    ],
+    { kind: "meta" }
+  );
+  pushRow(acc, [""], { kind: "spacer" });
+  pushRow(
+    acc,
+    ["SKU", "Item", "Unit", "Method", "Quantity", "Unit Cost", "Value"],
+    { kind: "tableHeader" }
+  );
+  if (report.rows.length) {
+    report.rows.forEach((row) =>
+      pushRow(
+        acc,
+        [
+          row.sku,
+          row.name,
+          row.unit,
+          row.costMethod === "fifo" ? "FIFO" : "Average",
+          row.quantity,
+          row.unitCost,
+          row.value,
+        ],
+        { kind: "data", quantityColumns: [4] }
+      )
+    );
+  } else {
+    pushRow(acc, ["No items", "-"], { kind: "data", numeric: false });
+  }
+  pushRow(acc, ["Total", "", "", "", "", "", report.totalValue], {
+    kind: "net",
+  });
+  pushRow(acc, [""], { kind: "spacer" });
+  pushReconciliation(acc, "Reconciliation", report.reconciliation);
+  return finalizeSheet(acc, [24, 36, 10, 12, 14, 18, 20]);
+}
+
+function buildStockMovementSheet(report: StockMovementReport): XLSX.WorkSheet {
+  const acc = createAccumulator(9);
+  const quantityColumns = [4, 7];
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString("id-ID", { dateStyle: "medium" });
+  pushHeader(acc, SHEET_NAMES[report.type], report);
+
+  if (!report.rows.length) {
+    pushRow(acc, ["No stock movements", "-"], {
+      kind: "data",
+      numeric: false,
+    });
+  }
+  report.rows.forEach((row) => {
+    pushRow(acc, [`${row.sku} - ${row.name} (${row.unit})`, ""], {
+      kind: "section",
+      merge: true,
+    });
+    pushRow(
+      acc,
+      [
+        "Date",
+        "Type",
+        "Location",
+        "Reference",
+        "Quantity",
+        "Unit Cost",
+        "Value",
+        "Balance Qty",
+        "Balance Value",
+      ],
+      { kind: "tableHeader" }
+    );
+    pushRow(
+      acc,
+      [
+        "Opening Balance",
+        "",
+        "",
+        "",
+        "",
+        "",
+        "",
+        row.opening.quantity,
+        row.opening.value,
+      ],
+      { kind: "data", quantityColumns }
+    );
+    row.movements.forEach((movement) =>
+      pushRow(
+        acc,
+        [
+          formatDate(movement.date),
+          MOVEMENT_TYPE_LABELS[movement.type],
+          movement.toLocation
+            ? `${movement.location} -> ${movement.toLocation}`
+            : movement.location,
+          movement.reference ?? "",
+          movement.quantity,
+          movement.unitCost,
+          movement.value,
+          movement.balance.quantity,
+          movement.balance.value,
+        ],
+        { kind: "data", quantityColumns }
+      )
+    );
+    pushRow(
+      acc,
+      [
+        "Closing Balance",
+        "",
+        "",
+        "",
+        "",
+        "",
+        "",
+        row.closing.quantity,
+        row.closing.value,
+      ],
+      { kind: "totals", quantityColumns }
+    );
+    pushRow(acc, [""], { kind: "spacer" });
+  });
+
+  pushRow(acc, ["Summary", ""], { kind: "section", merge: true });
+  (
+    [
+      ["Opening Value", report.totals.opening],
+      ["Received", report.totals.received],
+      ["Issued", report.totals.issued],
+      ["Closing Value", report.totals.closing],
+    ] as const
+  ).forEach(([label, value]) =>
+    pushRow(acc, [label, "", "", "", "", "", "", "", value], {
+      kind: label === "Closing Value" ? "net" : "data",
+    })
+  );
+  pushRow(acc, [""], { kind: "spacer" });
+  pushReconciliation(
+    acc,
+    "Reconciliation - Opening",
+    report.reconciliation.opening
+  );
+  pushRow(acc, [""], { kind: "spacer" });
+  pushReconciliation(
+    acc,
+    "Reconciliation - Closing",
+    report.reconciliation.closing
+  );
+  return finalizeSheet(acc, [24, 14, 20, 20, 14, 16, 18, 14, 20]);
+}
+
+/** Per-code totals of one side of the PPN return. */
+function pushPpnSection(
+  acc: SheetAccumulator,
+  title: string,
+  section: PpnReportSection
+) {
+  pushRow(acc, [title, ""], { kind: "section", merge: true });
+  pushRow(
+    acc,
+    ["Tax Code", "Name", "", "Rate", "Entries", "DPP", "PPN"],
+    { kind: "tableHeader" }
+  );
+  if (section.rows.length) {
+    section.rows.forEach((row) =>
+      pushRow(
+        acc,
+        [
+          row.taxCode,
+          row.name,
+          "",
+          row.rate / 100,
+          row.transactions,
+          row.base,
+          row.tax,
+        ],
+        { kind: "data", percentColumn: 3, quantityColumns: [4] }
+      )
+    );
+  } else {
+    pushRow(acc, ["No PPN posted", "-"], {
+      kind: "data",
+      numeric: false,
+    });
+  }
+  pushRow(acc, ["Total", "", "", "", "", section.base, section.tax], {
+    kind: "totals",
+  });
+  pushRow(acc, [""], { kind: "spacer" });
+}
+
+function buildPpnSheet(report: PpnReport): XLSX.WorkSheet {
+  const acc = createAccumulator(7);
+  pushHeader(acc, SHEET_NAMES[report.type], report);
+  pushPpnSection(acc, "Output VAT (PPN Keluaran)", report.output);
+  pushPpnSection(acc, "Input VAT (PPN Masukan)", report.input);
+  pushRow(
+    acc,
+    [
+      report.netPayable >= 0
+        ? "PPN Payable (Kurang Bayar)"
+        : "Overpaid PPN (Lebih Bayar)",
+      "",
+      "",
+      "",
+      "",
+      "",
+      report.netPayable,
+    ],
+    { kind: "net" }
+  );
+  pushRow(acc, [""], { kind: "spacer" });
+
+  pushRow(acc, ["Journal Lines", ""], { kind: "section", merge: true });
+  pushRow(acc, ["Date", "Description", "Side", "Tax Code", "DPP", "PPN"], {
+    kind: "tableHeader",
+  });
+  report.lines.forEach((line) =>
+    pushRow(
+      acc,
+      [
+        new Date(line.date).toLocaleDateString("id-ID", {
+          dateStyle: "medium",
+        }),
+        line.description,
+        line.direction === "output" ? "Output" : "Input",
+        line.taxCode,
+        line.base,
+        line.tax,
+      ],
+      { kind: "data" }
+    )
+  );
+  return finalizeSheet(acc, [24, 36, 10, 14, 20, 18, 18]);
+}
+
+function buildWithholdingSheet(report: WithholdingReport): XLSX.WorkSheet {
+  const acc = createAccumulator(7);
+  pushHeader(acc, SHEET_NAMES[report.type], report);
+
+  pushRow(acc, ["Per Vendor", ""], { kind: "section", merge: true });
+  pushRow(
+    acc,
+    ["Vendor", "Tax Code", "Name", "Rate", "Payments", "Gross", "Withheld"],
+    { kind: "tableHeader" }
+  );
+  if (report.rows.length) {
+    report.rows.forEach((row) =>
+      pushRow(
+        acc,
+        [
+          row.vendorName,
+          row.taxCode,
+          row.name,
+          row.rate / 100,
+          row.payments,
+          row.gross,
+          row.withheld,
+        ],
+        { kind: "data", percentColumn: 3, quantityColumns: [4] }
+      )
+    );
+  } else {
+    pushRow(acc, ["Nothing withheld", "-"], { kind: "data", numeric: false });
+  }
+  pushRow(
+    acc,
+    ["Total", "", "", "", "", report.totals.gross, report.totals.withheld],
+    { kind: "net" }
+  );
+  pushRow(acc, [""], { kind: "spacer" });
+
+  pushRow(acc, ["Payments", ""], { kind: "section", merge: true });
+  pushRow(
+    acc,
+    [
+      "Date",
+      "Vendor",
+      "Bill",
+      "Vendor Invoice",
+      "Tax Code",
+      "Gross",
+      "Withheld",
+    ],
+    { kind: "tableHeader" }
+  );
+  report.lines.forEach((line) =>
+    pushRow(
+      acc,
+      [
+        new Date(line.date).toLocaleDateString("id-ID", {
+          dateStyle: "medium",
+        }),
+        line.vendorName,
+        line.billNumber,
+        line.vendorReference ?? "",
+        line.taxCode,
+        line.gross,
+        line.withheld,
+      ],
+      { kind: "data" }
+    )
+  );
+  return finalizeSheet(acc, [32, 14, 32, 18, 14, 20, 18]);
+}
+
+/** Sends a workbook as an xlsx download. */
+function toWorkbookResponse(workbook: XLSX.WorkBook, filename: string) {
+  const arrayBuffer = XLSX.write(workbook, {
+    bookType: "xlsx",
+    type: "array",
+  }) as ArrayBuffer;
+
+  return new NextResponse(arrayBuffer, {
+    status: 200,
+    headers: {
+      "Content-Type":
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "Content-Disposition": `attachment; filename=${filename}`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
 export async function GET(request: Request) {
   try {
     const user = await requireUser();
     const { searchParams } = new URL(request.url);
-    const periodParam = searchParams.get("period");
     const typeParam = searchParams.get("type");
+    const modeParam = searchParams.get("mode");
+    const methodParam = searchParams.get("method") ?? "direct";
+
+    if (isAgingReportType(typeParam) || typeParam === "inventory-valuation") {
+      const asOfParam = searchParams.get("asOf");
+      const asOf = asOfParam ? parseCalendarDate(asOfParam) : new Date();
+      if (!asOf) {
+        return NextResponse.json(
+          { error: "asOf must be a date in YYYY-MM-DD format." },
+          { status: 400 }
+        );
+      }
 
-    const period: PeriodKey = isValidPeriod(periodParam)
-      ? periodParam
-      : DEFAULT_PERIOD;
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(
+        workbook,
+        typeParam === "inventory-valuation"
+          ? buildInventoryValuationSheet(
+              await buildInventoryValuation(user.userId, asOf)
+            )
+          : buildAgingSheet(
+              await buildAgingReportFor(user.userId, typeParam, asOf)
+            ),
+        SHEET_NAMES[typeParam]
+      );
+      return toWorkbookResponse(
+        workbook,
+        `report-${typeParam}-${asOf.toLocaleDateString("en-CA")}.xlsx`
+      );
+    }
+
+    if (typeParam === "ppn") {
+      const monthParam = searchParams.get("period");
+      if (!isPeriodKey(monthParam)) {
+        return NextResponse.json(
+          { error: "period must be a month in YYYY-MM format." },
+          { status: 400 }
+        );
+      }
+
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(
+        workbook,
+        buildPpnSheet(await buildPpnReport(user.userId, monthParam)),
+        SHEET_NAMES[typeParam]
+      );
+      return toWorkbookResponse(workbook, `report-ppn-${monthParam}.xlsx`);
+    }
+
+    const period = parsePeriodQuery(searchParams, DEFAULT_PERIOD);
+
+    if (typeParam === "withholding") {
+      const report = await buildWithholdingReport(user.userId, period);
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(
+        workbook,
+        buildWithholdingSheet(report),
+        SHEET_NAMES[typeParam]
+      );
+      return toWorkbookResponse(
+        workbook,
+        `report-${typeParam}-${Object.values(toPeriodQuery(period)).join(
+          "_"
+        )}.xlsx`
+      );
+    }
+
+    if (typeParam === "stock-movements") {
+      const report = await buildStockMovementReport(user.userId, period, {
+        itemId: searchParams.get("itemId"),
+      });
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(
+        workbook,
+        buildStockMovementSheet(report),
+        SHEET_NAMES[typeParam]
+      );
+      return toWorkbookResponse(
+        workbook,
+        `report-${typeParam}-${Object.values(toPeriodQuery(period)).join(
+          "_"
+        )}.xlsx`
+      );
+    }
+
+    const comparison = parseComparisonQuery(searchParams);
 
     if (typeParam && !VALID_TYPES.has(typeParam)) {
       return NextResponse.json(
@@ -425,41 +1302,60 @@ export async function GET(request: Request) {
         { status: 400 }
       );
     }
+    if (modeParam && !VALID_MODES.has(modeParam)) {
+      return NextResponse.json(
+        { error: "Unknown report mode." },
+        { status: 400 }
+      );
+    }
+    if (!VALID_CASH_FLOW_METHODS.has(methodParam)) {
+      return NextResponse.json(
+        { error: "Unknown cash flow method." },
+        { status: 400 }
+      );
+    }
 
-    const report = await buildReportData(user.userId, period);
     const workbook = XLSX.utils.book_new();
 
-    const typesToExport = typeParam ? [typeParam] : Array.from(VALID_TYPES);
+    if (modeParam === "monthly") {
+      const statement = await buildMonthlyIncomeStatement(user.userId, period);
+      XLSX.utils.book_append_sheet(
+        workbook,
+        buildMonthlyIncomeSheet(statement),
+        "Monthly Income"
+      );
+    } else {
+      const report = await buildReportData(user.userId, period, comparison);
+      const typesToExport = typeParam ? [typeParam] : Array.from(VALID_TYPES);
 
-    typesToExport.forEach((type) => {
-      const builder = SHEET_BUILDERS[type];
-      if (!builder) {
-        return;
-      }
-      const sheet = builder(report);
-      const sheetName = (SHEET_NAMES[type] ?? type).slice(0, 31);
-      XLSX.utils.book_append_sheet(workbook, sheet, sheetName);
-    });
+      typesToExport.forEach((type) => {
+        const builder =
+          type === "cash-flow" && methodParam === "indirect"
+            ? buildIndirectCashFlowSheet
+            : SHEET_BUILDERS[type];
+        if (!builder) {
+          return;
+        }
+        const sheet = builder(report);
+        const sheetName = (SHEET_NAMES[type] ?? type).slice(0, 31);
+        XLSX.utils.book_append_sheet(workbook, sheet, sheetName);
+      });
+    }
 
-    const arrayBuffer = XLSX.write(workbook, {
-      bookType: "xlsx",
-      type: "array",
-    }) as ArrayBuffer;
-    const filename = `report-${typeParam ?? "full"}-${period}.xlsx`;
-
-    return new NextResponse(arrayBuffer, {
-      status: 200,
-      headers: {
-        "Content-Type":
-          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-        "Content-Disposition": `attachment; filename=${filename}`,
-        "Cache-Control": "no-store",
-      },
-    });
+    const reportName = modeParam ?? typeParam ?? "full";
+    const filename = `report-${reportName}-${Object.values({
+      ...toPeriodQuery(period),
+      ...(comparison ? toComparisonQuery(comparison) : {}),
+    }).join("_")}.xlsx`;
+
+    return toWorkbookResponse(workbook, filename);
   } catch (error) {
     if (error instanceof UnauthorizedError) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (error instanceof InvalidPeriodError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Report export error", error);
     return NextResponse.json(
       { error: "Failed to export report." },
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 
 import { UnauthorizedError, requireUser } from "@/lib/auth";
 import { deleteReportAdjustment } from "@/lib/report-adjustments";
+import { PeriodLockedError } from "@/lib/periods";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -27,6 +28,9 @@ export async function DELETE(request: Request, { params }: RouteParams) {
     if (error instanceof UnauthorizedError) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (error instanceof PeriodLockedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.error("Delete report adjustment error", error);
     return NextResponse.json(
       { error: "Gagal menghapus penyesuaian laporan." },
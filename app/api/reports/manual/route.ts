@@ -9,6 +9,7 @@ import {
   type ReportAdjustmentType,
 } from "@/lib/report-adjustments-schema";
 import { createReportAdjustment } from "@/lib/report-adjustments";
+import { PeriodLockedError } from "@/lib/periods";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -95,6 +96,9 @@ export async function POST(request: Request) {
     if (error instanceof UnauthorizedError) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (error instanceof PeriodLockedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.error("Create report adjustment error", error);
     return NextResponse.json(
       { error: "Gagal menambahkan penyesuaian laporan." },
@@ -1,41 +1,106 @@
 import { NextResponse } from "next/server";
 
+import { buildAgingReportFor } from "@/lib/aging";
+import { isAgingReportType } from "@/lib/aging-schema";
 import { UnauthorizedError, requireUser } from "@/lib/auth";
-import { buildReportData, type PeriodKey } from "@/lib/finance";
+import { buildMonthlyIncomeStatement, buildReportData } from "@/lib/finance";
+import {
+  buildInventoryValuation,
+  buildStockMovementReport,
+} from "@/lib/inventory-reports";
+import {
+  InvalidPeriodError,
+  parseCalendarDate,
+  parsePeriodQuery,
+  type PeriodKey,
+} from "@/lib/period-range";
+import { isPeriodKey } from "@/lib/periods";
+import { parseComparisonQuery } from "@/lib/report-comparison";
+import { buildPpnReport, buildWithholdingReport } from "@/lib/tax-reports";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 const DEFAULT_PERIOD: PeriodKey = "all-time";
-const VALID_TYPES = new Set(["income-statement", "balance-sheet", "cash-flow"]);
-
-function isValidPeriod(value: string | null): value is PeriodKey {
-  return (
-    value !== null &&
-    [
-      "current-month",
-      "last-month",
-      "current-quarter",
-      "last-quarter",
-      "year-to-date",
-      "last-year",
-      "all-time",
-    ].includes(value)
-  );
-}
+const VALID_TYPES = new Set([
+  "income-statement",
+  "balance-sheet",
+  "cash-flow",
+  "equity",
+  "trial-balance",
+]);
+const VALID_MODES = new Set(["monthly"]);
 
 export async function GET(request: Request) {
   try {
     const user = await requireUser();
     const { searchParams } = new URL(request.url);
-    const periodParam = searchParams.get("period");
     const typeParam = searchParams.get("type");
+    const modeParam = searchParams.get("mode");
 
-    const period: PeriodKey = isValidPeriod(periodParam)
-      ? periodParam
-      : DEFAULT_PERIOD;
+    // Aging and inventory valuation are a snapshot at one date, not a period
+    if (isAgingReportType(typeParam) || typeParam === "inventory-valuation") {
+      const asOfParam = searchParams.get("asOf");
+      const asOf = asOfParam ? parseCalendarDate(asOfParam) : new Date();
+      if (!asOf) {
+        return NextResponse.json(
+          { error: "asOf must be a date in YYYY-MM-DD format." },
+          { status: 400 }
+        );
+      }
 
-    const report = await buildReportData(user.userId, period);
+      return NextResponse.json(
+        typeParam === "inventory-valuation"
+          ? await buildInventoryValuation(user.userId, asOf)
+          : await buildAgingReportFor(user.userId, typeParam, asOf)
+      );
+    }
+
+    // PPN is reported per tax month (masa pajak)
+    if (typeParam === "ppn") {
+      const monthParam = searchParams.get("period");
+      if (!isPeriodKey(monthParam)) {
+        return NextResponse.json(
+          { error: "period must be a month in YYYY-MM format." },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(await buildPpnReport(user.userId, monthParam));
+    }
+
+    const period = parsePeriodQuery(searchParams, DEFAULT_PERIOD);
+
+    if (typeParam === "stock-movements") {
+      return NextResponse.json(
+        await buildStockMovementReport(user.userId, period, {
+          itemId: searchParams.get("itemId"),
+        })
+      );
+    }
+
+    if (typeParam === "withholding") {
+      return NextResponse.json(
+        await buildWithholdingReport(user.userId, period)
+      );
+    }
+
+    if (modeParam) {
+      if (!VALID_MODES.has(modeParam)) {
+        return NextResponse.json(
+          { error: "Unknown report mode." },
+          { status: 400 }
+        );
+      }
+
+      // Monthly columns are only built for the income statement
+      return NextResponse.json(
+        await buildMonthlyIncomeStatement(user.userId, period)
+      );
+    }
+    const comparison = parseComparisonQuery(searchParams);
+
+    const report = await buildReportData(user.userId, period, comparison);
 
     if (typeParam) {
       if (!VALID_TYPES.has(typeParam)) {
@@ -51,6 +116,7 @@ export async function GET(request: Request) {
           range: report.range,
           generatedAt: report.generatedAt,
           incomeStatement: report.incomeStatement,
+          comparison: report.comparison,
         });
       }
 
@@ -60,6 +126,25 @@ export async function GET(request: Request) {
           range: report.range,
           generatedAt: report.generatedAt,
           balanceSheet: report.balanceSheet,
+          comparison: report.comparison,
+        });
+      }
+
+      if (typeParam === "equity") {
+        return NextResponse.json({
+          period: report.period,
+          range: report.range,
+          generatedAt: report.generatedAt,
+          equityStatement: report.equityStatement,
+        });
+      }
+
+      if (typeParam === "trial-balance") {
+        return NextResponse.json({
+          period: report.period,
+          range: report.range,
+          generatedAt: report.generatedAt,
+          trialBalance: report.trialBalance,
         });
       }
 
@@ -68,6 +153,7 @@ export async function GET(request: Request) {
         range: report.range,
         generatedAt: report.generatedAt,
         cashFlow: report.cashFlow,
+        comparison: report.comparison,
       });
     }
 
@@ -76,6 +162,9 @@ export async function GET(request: Request) {
     if (error instanceof UnauthorizedError) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (error instanceof InvalidPeriodError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Reports API error", error);
     return NextResponse.json(
       { error: "Failed to generate report." },
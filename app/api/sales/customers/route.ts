@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import {
+  CustomerValidationError,
+  createCustomer,
+  listCustomers,
+} from "@/lib/sales";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    const customers = await listCustomers(user.userId);
+    return NextResponse.json({ customers });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("List customers error", error);
+    return NextResponse.json(
+      { error: "Failed to load customers." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const customer = await createCustomer(user.userId, {
+      name: typeof body.name === "string" ? body.name : "",
+      email: typeof body.email === "string" ? body.email : null,
+      phone: typeof body.phone === "string" ? body.phone : null,
+      address: typeof body.address === "string" ? body.address : null,
+    });
+
+    return NextResponse.json(
+      { message: "Customer created.", customer },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof CustomerValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Create customer error", error);
+    return NextResponse.json(
+      { error: "Failed to create customer." },
+      { status: 500 }
+    );
+  }
+}
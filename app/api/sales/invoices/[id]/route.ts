@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import { JournalValidationError } from "@/lib/journal";
+import { parseCalendarDate } from "@/lib/period-range";
+import { PeriodLockedError } from "@/lib/periods";
+import {
+  InvoiceNotFoundError,
+  InvoiceValidationError,
+  deleteInvoice,
+  issueInvoice,
+  recordInvoicePayment,
+  voidInvoice,
+} from "@/lib/sales";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteParams = {
+  params: {
+    id: string;
+  };
+};
+
+const ACTION_MESSAGES = {
+  issue: "Invoice issued.",
+  pay: "Payment recorded.",
+  void: "Invoice voided.",
+} as const;
+
+function isAction(value: unknown): value is keyof typeof ACTION_MESSAGES {
+  return typeof value === "string" && value in ACTION_MESSAGES;
+}
+
+function toErrorResponse(error: unknown, context: string, fallback: string) {
+  if (error instanceof UnauthorizedError) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (error instanceof InvoiceNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (
+    error instanceof InvoiceValidationError ||
+    error instanceof JournalValidationError
+  ) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  if (error instanceof PeriodLockedError) {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+  console.error(context, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    if (!isAction(body.action)) {
+      return NextResponse.json(
+        { error: "Action must be issue, pay or void." },
+        { status: 400 }
+      );
+    }
+
+    let invoice;
+    if (body.action === "pay") {
+      const date =
+        typeof body.date === "string" ? parseCalendarDate(body.date) : null;
+      if (!date) {
+        return NextResponse.json(
+          { error: "Payment date must be in YYYY-MM-DD format." },
+          { status: 400 }
+        );
+      }
+      invoice = await recordInvoicePayment(user.userId, params.id, {
+        date,
+        amount: Number(body.amount),
+        memo: typeof body.memo === "string" ? body.memo : null,
+      });
+    } else if (body.action === "issue") {
+      invoice = await issueInvoice(user.userId, params.id);
+    } else {
+      invoice = await voidInvoice(user.userId, params.id);
+    }
+
+    return NextResponse.json({
+      message: ACTION_MESSAGES[body.action],
+      invoice,
+    });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      "Update invoice error",
+      "Failed to update invoice."
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    await deleteInvoice(user.userId, params.id);
+    return NextResponse.json({ message: "Invoice deleted." });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      "Delete invoice error",
+      "Failed to delete invoice."
+    );
+  }
+}
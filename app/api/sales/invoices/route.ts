@@ -0,0 +1,119 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import { JournalValidationError } from "@/lib/journal";
+import { parseCalendarDate } from "@/lib/period-range";
+import { PeriodLockedError } from "@/lib/periods";
+import {
+  InvoiceValidationError,
+  createInvoice,
+  issueInvoice,
+  listInvoices,
+  parseInvoiceStatus,
+  summarizeInvoices,
+  type InvoiceLineInput,
+} from "@/lib/sales";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser();
+    const { searchParams } = new URL(request.url);
+    const status = parseInvoiceStatus(searchParams.get("status"));
+
+    const invoices = await listInvoices(user.userId);
+    return NextResponse.json({
+      invoices: status
+        ? invoices.filter((invoice) => invoice.status === status)
+        : invoices,
+      totals: summarizeInvoices(invoices),
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("List invoices error", error);
+    return NextResponse.json(
+      { error: "Failed to load invoices." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const issueDate =
+      typeof body.issueDate === "string"
+        ? parseCalendarDate(body.issueDate)
+        : null;
+    const dueDate =
+      typeof body.dueDate === "string" ? parseCalendarDate(body.dueDate) : null;
+    if (!issueDate || !dueDate) {
+      return NextResponse.json(
+        { error: "Issue and due dates must be in YYYY-MM-DD format." },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(body.lines)) {
+      return NextResponse.json(
+        { error: "Invoice lines are required." },
+        { status: 400 }
+      );
+    }
+
+    const lines: InvoiceLineInput[] = body.lines.map((raw) => {
+      const line = (raw ?? {}) as Record<string, unknown>;
+      return {
+        description:
+          typeof line.description === "string" ? line.description : "",
+        quantity: Number(line.quantity),
+        unitPrice: Number(line.unitPrice),
+      };
+    });
+
+    const invoice = await createInvoice(user.userId, {
+      customerId: typeof body.customerId === "string" ? body.customerId : "",
+      issueDate,
+      dueDate,
+      memo: typeof body.memo === "string" ? body.memo : null,
+      lines,
+    });
+
+    if (body.issue === true) {
+      const issued = await issueInvoice(user.userId, invoice.id);
+      return NextResponse.json(
+        { message: "Invoice issued.", invoice: issued },
+        { status: 201 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "Invoice saved as draft.", invoice },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (
+      error instanceof InvoiceValidationError ||
+      error instanceof JournalValidationError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof PeriodLockedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Create invoice error", error);
+    return NextResponse.json(
+      { error: "Failed to create invoice." },
+      { status: 500 }
+    );
+  }
+}
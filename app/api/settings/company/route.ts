@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import {
+  CompanySettingsValidationError,
+  getCompanySettings,
+  updateCompanySettings,
+  type UpdateCompanySettingsInput,
+} from "@/lib/company-settings";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    const settings = await getCompanySettings(user.userId);
+    return NextResponse.json({ settings });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("Load company settings error", error);
+    return NextResponse.json(
+      { error: "Failed to load company settings." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: Request) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const input: UpdateCompanySettingsInput = {};
+    if (body.fiscalYearStartMonth !== undefined) {
+      input.fiscalYearStartMonth = Number(body.fiscalYearStartMonth);
+    }
+
+    const settings = await updateCompanySettings(user.userId, input);
+
+    return NextResponse.json({ message: "Settings saved.", settings });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof CompanySettingsValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Update company settings error", error);
+    return NextResponse.json(
+      { error: "Failed to save company settings." },
+      { status: 500 }
+    );
+  }
+}
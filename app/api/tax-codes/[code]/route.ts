@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import {
+  TaxCodeNotFoundError,
+  TaxCodeValidationError,
+  deleteTaxCode,
+  updateTaxCode,
+  type UpdateTaxCodeInput,
+} from "@/lib/tax-codes";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteParams = {
+  params: {
+    code: string;
+  };
+};
+
+function toErrorResponse(error: unknown, context: string, fallback: string) {
+  if (error instanceof UnauthorizedError) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (error instanceof TaxCodeNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (error instanceof TaxCodeValidationError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  console.error(context, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const input: UpdateTaxCodeInput = {};
+    if (typeof body.name === "string") {
+      input.name = body.name;
+    }
+    if (body.rate !== undefined) {
+      input.rate = Number(body.rate);
+    }
+    if (typeof body.isActive === "boolean") {
+      input.isActive = body.isActive;
+    }
+
+    const taxCode = await updateTaxCode(user.userId, params.code, input);
+
+    return NextResponse.json({ message: "Tax code updated.", taxCode });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      "Update tax code error",
+      "Failed to update tax code."
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireUser();
+    await deleteTaxCode(user.userId, params.code);
+    return NextResponse.json({ message: "Tax code deleted." });
+  } catch (error) {
+    return toErrorResponse(
+      error,
+      "Delete tax code error",
+      "Failed to delete tax code."
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+
+import { UnauthorizedError, requireUser } from "@/lib/auth";
+import {
+  TaxCodeValidationError,
+  createTaxCode,
+  listTaxCodes,
+} from "@/lib/tax-codes";
+import { parseTaxKind } from "@/lib/tax-schema";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    const taxCodes = await listTaxCodes(user.userId);
+    return NextResponse.json({ taxCodes });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("List tax codes error", error);
+    return NextResponse.json(
+      { error: "Failed to load tax codes." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser();
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const taxCode = await createTaxCode(user.userId, {
+      code: typeof body.code === "string" ? body.code : "",
+      name: typeof body.name === "string" ? body.name : "",
+      kind: parseTaxKind(body.kind) ?? "ppn",
+      rate: Number(body.rate),
+    });
+
+    return NextResponse.json(
+      { message: "Tax code created.", taxCode },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof TaxCodeValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Create tax code error", error);
+    return NextResponse.json(
+      { error: "Failed to create tax code." },
+      { status: 500 }
+    );
+  }
+}
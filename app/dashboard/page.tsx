@@ -7,6 +7,7 @@ import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
+import { DateRangePicker } from "@/components/date-range-picker";
 import { PageHeader } from "@/components/page-header";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
@@ -16,9 +17,11 @@ import {
   ChartTooltip,
   ChartTooltipContent,
 } from "@/components/ui/chart";
+import { toPeriodQuery, type CustomPeriod } from "@/lib/period-range";
 import { cn } from "@/lib/utils";
 
 type DashboardMetrics = {
+  period: string;
   metrics: {
     incomeThisMonth: number;
     expensesThisMonth: number;
@@ -38,6 +41,7 @@ export default function Dashboard() {
   const [data, setData] = useState<DashboardMetrics | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [customRange, setCustomRange] = useState<CustomPeriod | null>(null);
 
   const currencyFormatter = useMemo(
     () =>
@@ -118,7 +122,10 @@ export default function Dashboard() {
         console.log("✅ Session valid:", sessionData);
 
         console.log("📈 Fetching dashboard data...");
-        const response = await fetch("/api/dashboard", {
+        const params = customRange
+          ? `?${new URLSearchParams(toPeriodQuery(customRange)).toString()}`
+          : "";
+        const response = await fetch(`/api/dashboard${params}`, {
           cache: "no-store",
           credentials: "include",
         });
@@ -148,7 +155,7 @@ export default function Dashboard() {
     return () => {
       ignore = true;
     };
-  }, [router]);
+  }, [customRange, router]);
 
   const monthlyTrend = data?.monthlyTrend ?? [];
   const currentTrend = monthlyTrend.at(-1);
@@ -158,7 +165,9 @@ export default function Dashboard() {
     {
       key: "income",
       title: "Total Income This Month",
-      description: "Pendapatan bulan berjalan",
+      description: customRange
+        ? `Pendapatan ${data?.period ?? ""}`
+        : "Pendapatan bulan berjalan",
       value: formatCurrency(data?.metrics.incomeThisMonth),
       change: calculateChange(currentTrend?.income, previousTrend?.income),
       gradient: "from-emerald-500/20 via-emerald-500/10 to-white",
@@ -168,7 +177,9 @@ export default function Dashboard() {
     {
       key: "expenses",
       title: "Total Expenses This Month",
-      description: "Pengeluaran bulan berjalan",
+      description: customRange
+        ? `Pengeluaran ${data?.period ?? ""}`
+        : "Pengeluaran bulan berjalan",
       value: formatCurrency(data?.metrics.expensesThisMonth),
       change: calculateChange(currentTrend?.expenses, previousTrend?.expenses),
       gradient: "from-rose-500/20 via-rose-500/10 to-white",
@@ -215,7 +226,17 @@ export default function Dashboard() {
         <AppSidebar activeMenu="dashboard" />
 
         <div className="flex-1 overflow-auto">
-          <PageHeader title="Dashboard" showLogo={true} />
+          <PageHeader title="Dashboard" showLogo={true}>
+            <DateRangePicker
+              value={customRange}
+              onChange={setCustomRange}
+              placeholder="Rentang khusus"
+              applyLabel="Terapkan"
+              cancelLabel="Batal"
+              clearLabel="Hapus rentang"
+              locale="id-ID"
+            />
+          </PageHeader>
 
           <main className="space-y-6 p-6">
             {error && (
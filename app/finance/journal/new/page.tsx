@@ -0,0 +1,430 @@
+"use client";
+
+import type React from "react";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Plus, Trash2 } from "lucide-react";
+
+import { SidebarProvider } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/app-sidebar";
+import { PageHeader } from "@/components/page-header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type { AccountSummary } from "@/lib/accounts";
+import type { ChartOfAccounts } from "@/lib/chart-of-accounts";
+import {
+  JournalValidationError,
+  normaliseJournalLines,
+} from "@/lib/journal-schema";
+
+type LineState = {
+  id: number;
+  accountCode: string;
+  debit: string;
+  credit: string;
+  description: string;
+};
+
+let nextLineId = 0;
+
+const createLine = (): LineState => ({
+  id: nextLineId++,
+  accountCode: "",
+  debit: "",
+  credit: "",
+  description: "",
+});
+
+const toAmount = (value: string) => (value.trim() ? Number(value) : undefined);
+
+export default function NewJournalPage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [date, setDate] = useState(() =>
+    new Date().toLocaleDateString("en-CA")
+  );
+  const [memo, setMemo] = useState("");
+  const [lines, setLines] = useState<LineState[]>(() => [
+    createLine(),
+    createLine(),
+  ]);
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const currencyFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat("id-ID", {
+        style: "currency",
+        currency: "IDR",
+        maximumFractionDigits: 0,
+      }),
+    []
+  );
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  useEffect(() => {
+    const loadAccounts = async () => {
+      try {
+        const response = await fetch("/api/accounts", {
+          cache: "no-store",
+          credentials: "include",
+        });
+        if (response.status === 401) {
+          await redirectToLogin();
+          return;
+        }
+        const payload = (await response.json().catch(() => null)) as {
+          accounts?: AccountSummary[];
+        } | null;
+        setAccounts(payload?.accounts ?? []);
+      } catch (error) {
+        console.error(error);
+      }
+    };
+    void loadAccounts();
+  }, [redirectToLogin]);
+
+  const chart = useMemo(() => {
+    const result: ChartOfAccounts = {};
+    accounts.forEach((account) => {
+      result[account.code] = account;
+    });
+    return result;
+  }, [accounts]);
+
+  const activeAccounts = accounts.filter((account) => account.isActive);
+
+  const totals = lines.reduce(
+    (sum, line) => ({
+      debit: sum.debit + (Number(line.debit) || 0),
+      credit: sum.credit + (Number(line.credit) || 0),
+    }),
+    { debit: 0, credit: 0 }
+  );
+
+  // Same checks the server runs in postJournal, evaluated on every edit
+  const validationError = useMemo(() => {
+    if (!accounts.length) {
+      return null;
+    }
+    if (lines.some((line) => !line.accountCode)) {
+      return "Select an account for every line.";
+    }
+    try {
+      normaliseJournalLines(
+        lines.map((line) => ({
+          accountCode: line.accountCode,
+          debit: toAmount(line.debit),
+          credit: toAmount(line.credit),
+          description: line.description || undefined,
+        })),
+        chart
+      );
+      return null;
+    } catch (error) {
+      return error instanceof JournalValidationError
+        ? error.message
+        : "Journal is invalid.";
+    }
+  }, [accounts.length, chart, lines]);
+
+  const updateLine = (id: number, patch: Partial<LineState>) => {
+    setLines((prev) =>
+      prev.map((line) => (line.id === id ? { ...line, ...patch } : line))
+    );
+  };
+
+  const removeLine = (id: number) => {
+    setLines((prev) =>
+      prev.length > 2 ? prev.filter((line) => line.id !== id) : prev
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (validationError) {
+      toast({
+        title: "Jurnal belum valid",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/journal", {
+        method: "POST",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          // Local midnight, like the date picker on the transaction form
+          date: new Date(`${date}T00:00:00`).toISOString(),
+          memo,
+          lines: lines.map((line) => ({
+            accountCode: line.accountCode,
+            debit: toAmount(line.debit),
+            credit: toAmount(line.credit),
+            description: line.description,
+          })),
+        }),
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload.error ?? "Gagal menyimpan jurnal.");
+      }
+
+      toast({
+        title: "Jurnal tersimpan",
+        description: "Jurnal umum berhasil diposting ke buku besar.",
+      });
+      router.push("/finance");
+    } catch (error) {
+      toast({
+        title: "Gagal menyimpan",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Terjadi kesalahan tak terduga.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <SidebarProvider>
+      <div className="flex min-h-screen bg-gray-50">
+        <AppSidebar activeMenu="finance" />
+
+        <div className="flex-1 overflow-auto">
+          <PageHeader title="Finance - Journal Entry" />
+
+          <main className="p-6">
+            <Card className="mx-auto max-w-5xl">
+              <CardHeader>
+                <CardTitle>New Journal Entry</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form className="space-y-6" onSubmit={handleSubmit}>
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="journal-date">Date</Label>
+                      <Input
+                        id="journal-date"
+                        type="date"
+                        value={date}
+                        onChange={(event) => setDate(event.target.value)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2 md:col-span-2">
+                      <Label htmlFor="journal-memo">Memo</Label>
+                      <Input
+                        id="journal-memo"
+                        value={memo}
+                        onChange={(event) => setMemo(event.target.value)}
+                        placeholder="Payroll March 2025"
+                      />
+                    </div>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[280px]">Account</TableHead>
+                        <TableHead>Description</TableHead>
+                        <TableHead className="w-[160px] text-right">
+                          Debit
+                        </TableHead>
+                        <TableHead className="w-[160px] text-right">
+                          Credit
+                        </TableHead>
+                        <TableHead className="w-[48px]" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lines.map((line) => (
+                        <TableRow key={line.id}>
+                          <TableCell>
+                            <Select
+                              value={line.accountCode}
+                              onValueChange={(value) =>
+                                updateLine(line.id, { accountCode: value })
+                              }
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select account" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {activeAccounts.map((account) => (
+                                  <SelectItem
+                                    key={account.code}
+                                    value={account.code}
+                                  >
+                                    {account.code} - {account.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              value={line.description}
+                              onChange={(event) =>
+                                updateLine(line.id, {
+                                  description: event.target.value,
+                                })
+                              }
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="any"
+                              className="text-right"
+                              value={line.debit}
+                              onChange={(event) =>
+                                updateLine(line.id, {
+                                  debit: event.target.value,
+                                })
+                              }
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="any"
+                              className="text-right"
+                              value={line.credit}
+                              onChange={(event) =>
+                                updateLine(line.id, {
+                                  credit: event.target.value,
+                                })
+                              }
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-gray-500 hover:text-red-600"
+                              onClick={() => removeLine(line.id)}
+                              disabled={lines.length <= 2}
+                              title="Remove line"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                    <TableFooter>
+                      <TableRow>
+                        <TableCell colSpan={2} className="font-semibold">
+                          Total
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">
+                          {currencyFormatter.format(totals.debit)}
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">
+                          {currencyFormatter.format(totals.credit)}
+                        </TableCell>
+                        <TableCell />
+                      </TableRow>
+                    </TableFooter>
+                  </Table>
+
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() =>
+                        setLines((prev) => [...prev, createLine()])
+                      }
+                    >
+                      <Plus className="mr-2 h-4 w-4" /> Add Line
+                    </Button>
+                    <p
+                      className={
+                        validationError
+                          ? "text-sm text-destructive"
+                          : "text-sm text-emerald-700"
+                      }
+                    >
+                      {validationError ??
+                        (accounts.length ? "Journal is balanced." : "")}
+                    </p>
+                  </div>
+
+                  <div className="flex gap-4">
+                    <Button
+                      type="submit"
+                      className="flex-1"
+                      disabled={isSubmitting || Boolean(validationError)}
+                    >
+                      {isSubmitting ? "Saving..." : "Post Journal"}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => router.push("/finance")}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          </main>
+        </div>
+      </div>
+    </SidebarProvider>
+  );
+}
@@ -0,0 +1,400 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Loader2 } from "lucide-react";
+
+import { SidebarProvider } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/app-sidebar";
+import { PageHeader } from "@/components/page-header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { AccountSummary } from "@/lib/accounts";
+import type { AccountLedger } from "@/lib/ledger";
+
+const toInputDate = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+function LedgerContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [accountCode, setAccountCode] = useState(
+    () => searchParams.get("account") ?? "1000"
+  );
+  const [from, setFrom] = useState(
+    () =>
+      searchParams.get("from") ??
+      toInputDate(new Date(new Date().getFullYear(), 0, 1))
+  );
+  const [to, setTo] = useState(
+    () => searchParams.get("to") ?? toInputDate(new Date())
+  );
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [data, setData] = useState<AccountLedger | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currencyFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat("id-ID", {
+        style: "currency",
+        currency: "IDR",
+        maximumFractionDigits: 0,
+      }),
+    []
+  );
+
+  const formatCurrency = (value?: number) =>
+    currencyFormatter.format(value ?? 0);
+
+  const formatDate = (value: string) => {
+    const parsed = new Date(value);
+    return Number.isNaN(parsed.getTime())
+      ? "-"
+      : parsed.toLocaleDateString("id-ID", {
+          day: "2-digit",
+          month: "short",
+          year: "numeric",
+        });
+  };
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  const loadLedger = useCallback(
+    async (code: string, fromDate: string, toDate: string) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({ from: fromDate, to: toDate });
+        const response = await fetch(
+          `/api/ledger/${encodeURIComponent(code)}?${params.toString()}`,
+          {
+            cache: "no-store",
+            credentials: "include",
+          }
+        );
+
+        if (response.status === 401) {
+          await redirectToLogin();
+          return;
+        }
+
+        const payload = (await response.json().catch(() => null)) as
+          | (AccountLedger & { error?: string })
+          | null;
+
+        if (!response.ok || !payload) {
+          throw new Error(payload?.error ?? "Gagal memuat buku besar.");
+        }
+
+        setData(payload);
+      } catch (err) {
+        console.error(err);
+        setData(null);
+        setError(
+          err instanceof Error ? err.message : "Gagal memuat buku besar."
+        );
+      } finally {
+        setLoading(false);
+      }
+    },
+    [redirectToLogin]
+  );
+
+  useEffect(() => {
+    fetch("/api/accounts", { cache: "no-store", credentials: "include" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((payload: { accounts?: AccountSummary[] } | null) => {
+        setAccounts(payload?.accounts ?? []);
+      })
+      .catch((err) => console.error(err));
+  }, []);
+
+  useEffect(() => {
+    void loadLedger(accountCode, from, to);
+    // Only the initial query string is loaded automatically
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loadLedger]);
+
+  const handleApply = () => {
+    const params = new URLSearchParams({ account: accountCode, from, to });
+    router.replace(`/finance/ledger?${params.toString()}`);
+    void loadLedger(accountCode, from, to);
+  };
+
+  const handleOpenTransaction = (referenceId?: string) => {
+    if (!referenceId) {
+      return;
+    }
+    // Invoice, bill, stock and payroll postings are referenced as
+    // "<source>:<id>"
+    if (referenceId.startsWith("invoice:")) {
+      router.push("/sales");
+      return;
+    }
+    if (referenceId.startsWith("bill:")) {
+      router.push("/procurement");
+      return;
+    }
+    if (referenceId.startsWith("stock:")) {
+      router.push("/inventory");
+      return;
+    }
+    if (referenceId.startsWith("payroll:")) {
+      router.push(`/hr/payroll/${referenceId.slice("payroll:".length)}`);
+      return;
+    }
+    router.push(`/finance/transaction?id=${encodeURIComponent(referenceId)}`);
+  };
+
+  return (
+    <SidebarProvider>
+      <div className="flex min-h-screen bg-gray-50">
+        <AppSidebar activeMenu="finance" />
+
+        <div className="flex-1 overflow-auto">
+          <PageHeader title="Buku Besar" />
+
+          <main className="p-6 space-y-6">
+            <Card>
+              <CardContent className="pt-6">
+                <div className="grid gap-4 md:grid-cols-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="ledger-account">Akun</Label>
+                    <Select value={accountCode} onValueChange={setAccountCode}>
+                      <SelectTrigger id="ledger-account">
+                        <SelectValue placeholder="Pilih akun" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {accounts.map((account) => (
+                          <SelectItem key={account.code} value={account.code}>
+                            {account.code} - {account.name}
+                            {account.isActive ? "" : " (nonaktif)"}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="ledger-from">Dari</Label>
+                    <Input
+                      id="ledger-from"
+                      type="date"
+                      value={from}
+                      onChange={(event) => setFrom(event.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="ledger-to">Sampai</Label>
+                    <Input
+                      id="ledger-to"
+                      type="date"
+                      value={to}
+                      onChange={(event) => setTo(event.target.value)}
+                    />
+                  </div>
+                  <div className="flex items-end">
+                    <Button
+                      className="w-full"
+                      onClick={handleApply}
+                      disabled={loading}
+                    >
+                      {loading ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : null}
+                      Tampilkan
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {error && (
+              <Card className="border-destructive/40">
+                <CardContent className="pt-4 text-sm text-destructive">
+                  {error}
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              {[
+                { label: "Saldo Awal", value: data?.openingBalance },
+                { label: "Total Debit", value: data?.totals.debit },
+                { label: "Total Kredit", value: data?.totals.credit },
+                { label: "Saldo Akhir", value: data?.closingBalance },
+              ].map((item) => (
+                <Card key={item.label}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-gray-500">
+                      {item.label}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {loading ? (
+                      <Skeleton className="h-8 w-32" />
+                    ) : (
+                      <div className="text-2xl font-bold break-words">
+                        {formatCurrency(item.value)}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  {data
+                    ? `${data.account.code} - ${data.account.name}`
+                    : "Mutasi Akun"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tanggal</TableHead>
+                      <TableHead>Keterangan</TableHead>
+                      <TableHead className="text-right">Debit</TableHead>
+                      <TableHead className="text-right">Kredit</TableHead>
+                      <TableHead className="text-right">Saldo</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data && (
+                      <TableRow className="bg-slate-50">
+                        <TableCell>{formatDate(data.range.start)}</TableCell>
+                        <TableCell className="font-medium">
+                          Saldo Awal
+                        </TableCell>
+                        <TableCell />
+                        <TableCell />
+                        <TableCell className="text-right font-medium">
+                          {formatCurrency(data.openingBalance)}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {loading ? (
+                      <TableRow>
+                        <TableCell
+                          colSpan={5}
+                          className="text-center text-muted-foreground"
+                        >
+                          Memuat mutasi…
+                        </TableCell>
+                      </TableRow>
+                    ) : data && data.lines.length ? (
+                      data.lines.map((line, index) => (
+                        <TableRow key={`${line.entryId}-${index}`}>
+                          <TableCell>{formatDate(line.date)}</TableCell>
+                          <TableCell>
+                            {line.referenceId ? (
+                              <button
+                                type="button"
+                                className="text-left text-blue-700 hover:underline"
+                                onClick={() =>
+                                  handleOpenTransaction(line.referenceId)
+                                }
+                              >
+                                {line.memo || line.description || "-"}
+                              </button>
+                            ) : (
+                              line.memo || line.description || "-"
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {line.debit ? formatCurrency(line.debit) : ""}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {line.credit ? formatCurrency(line.credit) : ""}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(line.runningBalance)}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell
+                          colSpan={5}
+                          className="text-center text-muted-foreground"
+                        >
+                          Tidak ada mutasi pada rentang ini.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {data && !loading && (
+                      <TableRow className="bg-slate-50">
+                        <TableCell />
+                        <TableCell className="font-semibold">
+                          Saldo Akhir
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">
+                          {formatCurrency(data.totals.debit)}
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">
+                          {formatCurrency(data.totals.credit)}
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">
+                          {formatCurrency(data.closingBalance)}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </main>
+        </div>
+      </div>
+    </SidebarProvider>
+  );
+}
+
+export default function LedgerPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen items-center justify-center bg-gray-50">
+          <Loader2 className="h-8 w-8 animate-spin text-slate-600" />
+        </div>
+      }
+    >
+      <LedgerContent />
+    </Suspense>
+  );
+}
@@ -21,17 +21,26 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
 import {
+  BookOpen,
   Edit3,
   FileText,
+  Layers,
   Loader2,
   MoreVertical,
   Plus,
   RefreshCcw,
   Trash2,
 } from "lucide-react";
+import { DateRangePicker } from "@/components/date-range-picker";
 import { PageHeader } from "@/components/page-header";
 import { useToast } from "@/hooks/use-toast";
+import {
+  toPeriodQuery,
+  type CustomPeriod,
+  type PeriodKey,
+} from "@/lib/period-range";
 import type { FinanceEntryType } from "@/lib/transaction-presets";
 
 type FinanceData = {
@@ -50,25 +59,36 @@ type FinanceData = {
     status: string;
     category: string;
     displayType: string;
+    voided: boolean;
+    journalChain: Array<{
+      entryId: string;
+      kind: "original" | "reversal" | "correction";
+      date: string;
+      amount: number;
+      createdAt: string;
+    }>;
   }>;
 };
 
-type TimePeriod =
-  | "current-month"
-  | "last-month"
-  | "current-quarter"
-  | "last-quarter"
-  | "year-to-date"
-  | "last-year"
-  | "all-time";
+const JOURNAL_KIND_LABELS: Record<
+  FinanceData["recentTransactions"][number]["journalChain"][number]["kind"],
+  string
+> = {
+  original: "Asli",
+  reversal: "Pembalik",
+  correction: "Koreksi",
+};
 
-const TIME_PERIOD_LABELS: Record<TimePeriod, string> = {
+const TIME_PERIOD_LABELS: Record<PeriodKey, string> = {
   "current-month": "Bulan Ini",
   "last-month": "Bulan Lalu",
   "current-quarter": "Kuartal Ini",
   "last-quarter": "Kuartal Lalu",
   "year-to-date": "Tahun Berjalan",
   "last-year": "Tahun Lalu",
+  "fiscal-quarter": "Kuartal Fiskal",
+  "fiscal-year-to-date": "Tahun Fiskal Berjalan",
+  "last-fiscal-year": "Tahun Fiskal Lalu",
   "all-time": "Semua Waktu",
 };
 
@@ -79,7 +99,11 @@ export default function FinancePage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [actionId, setActionId] = useState<string | null>(null);
-  const [timePeriod, setTimePeriod] = useState<TimePeriod>("all-time");
+  const [timePeriod, setTimePeriod] = useState<PeriodKey>("all-time");
+  const [customRange, setCustomRange] = useState<CustomPeriod | null>(null);
+  const periodQuery = new URLSearchParams(
+    toPeriodQuery(customRange ?? timePeriod)
+  ).toString();
 
   const getStatusLabel = useCallback((status: string | undefined | null) => {
     const key = (status ?? "").toLowerCase();
@@ -146,7 +170,7 @@ export default function FinancePage() {
         return;
       }
 
-      const response = await fetch(`/api/finance?period=${timePeriod}`, {
+      const response = await fetch(`/api/finance?${periodQuery}`, {
         cache: "no-store",
         credentials: "include",
       });
@@ -159,7 +183,7 @@ export default function FinancePage() {
       }
       const payload = (await response.json()) as FinanceData;
       console.log("📊 Finance data loaded:", {
-        period: timePeriod,
+        period: periodQuery,
         netIncome: payload.metrics.netIncomeMTD,
         cashBalance: payload.metrics.cashBalance,
         transactions: payload.recentTransactions.length,
@@ -172,11 +196,11 @@ export default function FinancePage() {
     } finally {
       setLoading(false);
     }
-  }, [redirectToLogin]);
+  }, [periodQuery, redirectToLogin]);
 
   useEffect(() => {
     void loadData();
-  }, [loadData, timePeriod]);
+  }, [loadData]);
 
   const handleNewTransaction = () => {
     router.push("/finance/transaction");
@@ -186,6 +210,14 @@ export default function FinancePage() {
     router.push("/reports");
   };
 
+  const handleViewLedger = () => {
+    router.push("/finance/ledger");
+  };
+
+  const handleNewJournal = () => {
+    router.push("/finance/journal/new");
+  };
+
   const handleEditTransaction = (id: string) => {
     if (!id) {
       return;
@@ -254,12 +286,21 @@ export default function FinancePage() {
     }
   };
 
-  const handleDeleteTransaction = async (id: string) => {
+  const handleDeleteTransaction = async (
+    transaction: FinanceData["recentTransactions"][number]
+  ) => {
+    const { id } = transaction;
     if (!id) {
       return;
     }
 
-    const confirmed = window.confirm("Hapus transaksi ini?");
+    // Posted journals are never removed; the server books a reversal instead
+    const isPosted = (transaction.status ?? "").toLowerCase() === "posted";
+    const confirmed = window.confirm(
+      isPosted
+        ? "Transaksi ini sudah diposting. Jurnal pembalik akan dibuat dan transaksi ditandai dibatalkan. Lanjutkan?"
+        : "Hapus transaksi ini?"
+    );
     if (!confirmed) {
       return;
     }
@@ -284,10 +325,20 @@ export default function FinancePage() {
         throw new Error(payload?.error ?? "Gagal menghapus transaksi.");
       }
 
-      toast({
-        title: "Transaksi dihapus",
-        description: "Transaksi berhasil dihapus.",
-      });
+      const payload = (await response.json().catch(() => null)) as {
+        voided?: boolean;
+      } | null;
+      toast(
+        payload?.voided
+          ? {
+              title: "Transaksi dibatalkan",
+              description: "Jurnal pembalik berhasil diposting.",
+            }
+          : {
+              title: "Transaksi dihapus",
+              description: "Transaksi berhasil dihapus.",
+            }
+      );
       await loadData();
     } catch (err) {
       console.error(err);
@@ -311,6 +362,21 @@ export default function FinancePage() {
 
         <div className="flex-1 overflow-auto">
           <PageHeader title="Keuangan">
+            <DateRangePicker
+              value={customRange}
+              onChange={setCustomRange}
+              placeholder="Rentang khusus"
+              applyLabel="Terapkan"
+              cancelLabel="Batal"
+              clearLabel="Hapus rentang"
+              locale="id-ID"
+            />
+            <Button variant="outline" onClick={handleViewLedger}>
+              <BookOpen className="mr-2 h-4 w-4" /> Buku Besar
+            </Button>
+            <Button variant="outline" onClick={handleNewJournal}>
+              <Layers className="mr-2 h-4 w-4" /> Jurnal Umum
+            </Button>
             <Button onClick={handleNewTransaction}>
               <Plus className="mr-2 h-4 w-4" /> Transaksi Baru
             </Button>
@@ -389,16 +455,25 @@ export default function FinancePage() {
                         size="sm"
                         className="h-7 text-xs px-2"
                       >
-                        {TIME_PERIOD_LABELS[timePeriod]}
+                        {customRange
+                          ? "Rentang Khusus"
+                          : TIME_PERIOD_LABELS[timePeriod]}
                       </Button>
                     </DropdownMenuTrigger>
                     <DropdownMenuContent align="end">
-                      {(Object.keys(TIME_PERIOD_LABELS) as TimePeriod[]).map(
+                      {(Object.keys(TIME_PERIOD_LABELS) as PeriodKey[]).map(
                         (period) => (
                           <DropdownMenuItem
                             key={period}
-                            onClick={() => setTimePeriod(period)}
-                            className={timePeriod === period ? "bg-accent" : ""}
+                            onClick={() => {
+                              setTimePeriod(period);
+                              setCustomRange(null);
+                            }}
+                            className={
+                              !customRange && timePeriod === period
+                                ? "bg-accent"
+                                : ""
+                            }
                           >
                             {TIME_PERIOD_LABELS[period]}
                           </DropdownMenuItem>
@@ -465,7 +540,33 @@ export default function FinancePage() {
                       data.recentTransactions.map((transaction) => (
                         <TableRow key={transaction.id || transaction.date}>
                           <TableCell>{formatDate(transaction.date)}</TableCell>
-                          <TableCell>{transaction.description}</TableCell>
+                          <TableCell>
+                            <div>{transaction.description}</div>
+                            {transaction.journalChain.length > 1 ? (
+                              <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                                {transaction.journalChain.map((link, index) => (
+                                  <span
+                                    key={link.entryId}
+                                    className="flex items-center gap-1"
+                                  >
+                                    {index > 0 ? <span>→</span> : null}
+                                    <Badge
+                                      variant={
+                                        link.kind === "reversal"
+                                          ? "destructive"
+                                          : "secondary"
+                                      }
+                                      title={`${formatDate(
+                                        link.createdAt
+                                      )} · ${formatCurrency(link.amount)}`}
+                                    >
+                                      {JOURNAL_KIND_LABELS[link.kind]}
+                                    </Badge>
+                                  </span>
+                                ))}
+                              </div>
+                            ) : null}
+                          </TableCell>
                           <TableCell className="capitalize">
                             {transaction.displayType ||
                               transaction.category ||
@@ -475,7 +576,9 @@ export default function FinancePage() {
                             {formatCurrency(transaction.amount)}
                           </TableCell>
                           <TableCell className="text-right capitalize">
-                            {getStatusLabel(transaction.status)}
+                            {transaction.voided
+                              ? "Dibatalkan"
+                              : getStatusLabel(transaction.status)}
                           </TableCell>
                           <TableCell className="text-right">
                             <DropdownMenu>
@@ -484,7 +587,10 @@ export default function FinancePage() {
                                   variant="ghost"
                                   size="icon"
                                   className="h-8 w-8"
-                                  disabled={actionId === transaction.id}
+                                  disabled={
+                                    actionId === transaction.id ||
+                                    transaction.voided
+                                  }
                                 >
                                   {actionId === transaction.id ? (
                                     <Loader2 className="h-4 w-4 animate-spin" />
@@ -517,7 +623,7 @@ export default function FinancePage() {
                                 <DropdownMenuItem
                                   className="text-destructive focus:text-destructive"
                                   onClick={() =>
-                                    handleDeleteTransaction(transaction.id)
+                                    handleDeleteTransaction(transaction)
                                   }
                                 >
                                   <Trash2 className="mr-2 h-4 w-4" /> Hapus
@@ -31,6 +31,8 @@ import { SidebarProvider } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { PageHeader } from "@/components/page-header";
 import { useToast } from "@/hooks/use-toast";
+import type { InventoryItemSummary } from "@/lib/inventory";
+import { calculateTax, type TaxCode } from "@/lib/tax-schema";
 import type { FinanceEntryType } from "@/lib/transaction-presets";
 
 type TransactionStatus = "posted" | "pending";
@@ -54,6 +56,16 @@ type TemplatesResponse = {
 
 const CUSTOM_TEMPLATE_ID = "custom";
 
+/** Template presets that must move stock in or out of inventory. */
+const STOCK_PRESET_KEYS = ["purchase", "cogs"];
+/** Sale presets, which may issue stock and post its cost of goods. */
+const SALE_PRESET_KEYS = ["cash"];
+const NO_STOCK_ITEM = "none";
+const NO_TAX_CODE = "none";
+
+/** Finance types PPN can be charged on: sales, and costs or assets bought. */
+const TAXABLE_FINANCE_TYPES: FinanceType[] = ["income", "expense", "asset"];
+
 const FINANCE_TYPE_OPTIONS: Array<{ value: FinanceType; label: string }> = [
   { value: "income", label: "Income" },
   { value: "expense", label: "Expense" },
@@ -79,6 +91,12 @@ export default function TransactionInput() {
   const [counterparty, setCounterparty] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+  const [stockItems, setStockItems] = useState<InventoryItemSummary[]>([]);
+  const [stockItemId, setStockItemId] = useState(NO_STOCK_ITEM);
+  const [stockQuantity, setStockQuantity] = useState("");
+  const [taxCodes, setTaxCodes] = useState<TaxCode[]>([]);
+  const [taxCode, setTaxCode] = useState(NO_TAX_CODE);
+  const [taxInclusive, setTaxInclusive] = useState(true);
 
   // Currency formatting utilities
   const formatRupiah = (value: string): string => {
@@ -113,6 +131,95 @@ export default function TransactionInput() {
     [templates, selectedTemplateId]
   );
 
+  const stockPresetKey =
+    selectedTemplateId !== CUSTOM_TEMPLATE_ID &&
+    selectedTemplate?.presetKey &&
+    (STOCK_PRESET_KEYS.includes(selectedTemplate.presetKey) ||
+      SALE_PRESET_KEYS.includes(selectedTemplate.presetKey))
+      ? selectedTemplate.presetKey
+      : null;
+  const requiresStockItem = Boolean(
+    stockPresetKey && STOCK_PRESET_KEYS.includes(stockPresetKey)
+  );
+  const selectedStockItem =
+    stockPresetKey && stockItemId !== NO_STOCK_ITEM
+      ? stockItems.find((item) => item.id === stockItemId) ?? null
+      : null;
+  // Barang yang dikeluarkan dinilai dari kartu stok, bukan dari input nominal
+  const isPricedByStock =
+    stockPresetKey === "cogs" && Boolean(selectedStockItem);
+
+  const isTaxable =
+    stockPresetKey !== "cogs" && TAXABLE_FINANCE_TYPES.includes(financeType);
+  const selectedTaxCode = isTaxable
+    ? taxCodes.find((item) => item.code === taxCode) ?? null
+    : null;
+  const taxBreakdown =
+    selectedTaxCode && Number(amount) > 0
+      ? calculateTax(Number(amount), selectedTaxCode.rate, taxInclusive)
+      : null;
+
+  useEffect(() => {
+    let active = true;
+
+    const loadTaxCodes = async () => {
+      try {
+        const response = await fetch("/api/tax-codes", { cache: "no-store" });
+        if (!response.ok) {
+          throw new Error("Gagal memuat kode pajak.");
+        }
+        const payload = (await response.json()) as { taxCodes?: TaxCode[] };
+        if (active && Array.isArray(payload.taxCodes)) {
+          setTaxCodes(
+            payload.taxCodes.filter(
+              (item) => item.kind === "ppn" && item.isActive
+            )
+          );
+        }
+      } catch (error) {
+        console.error("Failed to fetch tax codes", error);
+      }
+    };
+
+    void loadTaxCodes();
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!stockPresetKey || stockItems.length) {
+      return;
+    }
+    let active = true;
+
+    const loadStockItems = async () => {
+      try {
+        const response = await fetch("/api/inventory/items", {
+          cache: "no-store",
+        });
+        if (!response.ok) {
+          throw new Error("Gagal memuat daftar barang.");
+        }
+        const payload = (await response.json()) as {
+          items?: InventoryItemSummary[];
+        };
+        if (active && Array.isArray(payload.items)) {
+          setStockItems(payload.items);
+        }
+      } catch (error) {
+        console.error("Failed to fetch inventory items", error);
+      }
+    };
+
+    void loadStockItems();
+
+    return () => {
+      active = false;
+    };
+  }, [stockPresetKey, stockItems.length]);
+
   useEffect(() => {
     let active = true;
 
@@ -185,8 +292,31 @@ export default function TransactionInput() {
       return;
     }
 
+    const numericQuantity = Number(stockQuantity);
+    if (requiresStockItem && !selectedStockItem) {
+      toast({
+        title: "Barang wajib dipilih",
+        description:
+          "Pembelian dan HPP harus mencatat barang persediaan yang bergerak.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (selectedStockItem && !(numericQuantity > 0)) {
+      toast({
+        title: "Kuantitas tidak valid",
+        description: "Masukkan jumlah barang lebih dari 0.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     const numericAmount = Number(amount);
-    if (!numericAmount || Number.isNaN(numericAmount) || numericAmount <= 0) {
+    if (
+      !isPricedByStock &&
+      (!numericAmount || Number.isNaN(numericAmount) || numericAmount <= 0)
+    ) {
       toast({
         title: "Nominal tidak valid",
         description: "Masukkan jumlah transaksi lebih dari 0.",
@@ -241,6 +371,10 @@ export default function TransactionInput() {
             : undefined,
           presetLabel,
           presetKey,
+          inventoryItemId: selectedStockItem?.id,
+          quantity: selectedStockItem ? numericQuantity : undefined,
+          taxCode: selectedTaxCode?.code,
+          taxInclusive: selectedTaxCode ? taxInclusive : undefined,
         }),
       });
 
@@ -624,13 +758,18 @@ export default function TransactionInput() {
                           inputMode="numeric"
                           placeholder="0"
                           className="pl-8"
-                          value={formattedAmount}
+                          value={isPricedByStock ? "" : formattedAmount}
                           onChange={(event) =>
                             handleAmountChange(event.target.value)
                           }
+                          disabled={isPricedByStock}
                         />
                       </div>
-                      {formattedAmount && (
+                      {isPricedByStock ? (
+                        <p className="text-xs text-muted-foreground">
+                          Dihitung otomatis dari harga pokok di kartu stok.
+                        </p>
+                      ) : formattedAmount && (
                         <p className="text-xs text-muted-foreground">
                           Numeric value: {amount}
                         </p>
@@ -638,6 +777,132 @@ export default function TransactionInput() {
                     </div>
                   </div>
 
+                  {stockPresetKey && (
+                    <div className="grid gap-6 md:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="stock-item">Inventory Item</Label>
+                        <Select
+                          value={
+                            requiresStockItem && stockItemId === NO_STOCK_ITEM
+                              ? ""
+                              : stockItemId
+                          }
+                          onValueChange={setStockItemId}
+                        >
+                          <SelectTrigger id="stock-item">
+                            <SelectValue placeholder="Pilih barang" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {!requiresStockItem && (
+                              <SelectItem value={NO_STOCK_ITEM}>
+                                Tanpa barang persediaan
+                              </SelectItem>
+                            )}
+                            {stockItems.map((item) => (
+                              <SelectItem key={item.id} value={item.id}>
+                                {item.sku} - {item.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                          {stockPresetKey === "purchase"
+                            ? "Barang yang dibeli masuk ke persediaan sebesar nominal transaksi di luar PPN."
+                            : stockPresetKey === "cogs"
+                            ? "Barang dikeluarkan dari persediaan sesuai metode biayanya."
+                            : "Barang yang dijual dikeluarkan dari persediaan; harga pokoknya dicatat ke HPP."}
+                        </p>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="stock-quantity">
+                          Quantity
+                          {selectedStockItem
+                            ? ` (${selectedStockItem.unit})`
+                            : ""}
+                        </Label>
+                        <Input
+                          id="stock-quantity"
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={stockQuantity}
+                          onChange={(event) =>
+                            setStockQuantity(event.target.value)
+                          }
+                          disabled={!selectedStockItem}
+                        />
+                        {selectedStockItem && (
+                          <p className="text-xs text-muted-foreground">
+                            Stok tersedia:{" "}
+                            {selectedStockItem.quantityOnHand}{" "}
+                            {selectedStockItem.unit}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {isTaxable && (
+                    <div className="grid gap-6 md:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="tax-code">Tax Code</Label>
+                        <Select value={taxCode} onValueChange={setTaxCode}>
+                          <SelectTrigger id="tax-code">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_TAX_CODE}>
+                              Tanpa PPN
+                            </SelectItem>
+                            {taxCodes.map((item) => (
+                              <SelectItem key={item.code} value={item.code}>
+                                {item.code} - {item.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                          {financeType === "income"
+                            ? "PPN keluaran dicatat ke akun 2300 Output VAT."
+                            : "PPN masukan dicatat ke akun 1300 Input VAT."}
+                        </p>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="tax-inclusive">Amount Entered</Label>
+                        <Select
+                          value={taxInclusive ? "inclusive" : "exclusive"}
+                          onValueChange={(value) =>
+                            setTaxInclusive(value === "inclusive")
+                          }
+                          disabled={!selectedTaxCode}
+                        >
+                          <SelectTrigger id="tax-inclusive">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="inclusive">
+                              Tax inclusive (termasuk PPN)
+                            </SelectItem>
+                            <SelectItem value="exclusive">
+                              Tax exclusive (belum termasuk PPN)
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {taxBreakdown && (
+                          <p className="text-xs text-muted-foreground">
+                            DPP Rp{" "}
+                            {taxBreakdown.base.toLocaleString("id-ID")} + PPN
+                            Rp {taxBreakdown.tax.toLocaleString("id-ID")} =
+                            Total Rp{" "}
+                            {taxBreakdown.total.toLocaleString("id-ID")}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
                   <div className="space-y-2">
                     <Label htmlFor="category">Category</Label>
                     <Input
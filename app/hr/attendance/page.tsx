@@ -0,0 +1,457 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { CalendarDays, Loader2, Save, Trash2 } from "lucide-react";
+
+import { SidebarProvider } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/app-sidebar";
+import { PageHeader } from "@/components/page-header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  AttendanceRecordSummary,
+  AttendanceStatus,
+} from "@/lib/attendance";
+import type { EmployeeSummary } from "@/lib/employees";
+
+type RowState = {
+  recordId: string | null;
+  status: AttendanceStatus | "";
+  checkIn: string;
+  checkOut: string;
+  overtimeHours: string;
+};
+
+const EMPTY_ROW: RowState = {
+  recordId: null,
+  status: "",
+  checkIn: "",
+  checkOut: "",
+  overtimeHours: "",
+};
+
+const toClockTime = (value: string | null) =>
+  value ? new Date(value).toTimeString().slice(0, 5) : "";
+
+const toRowState = (record: AttendanceRecordSummary): RowState => ({
+  recordId: record.id,
+  status: record.status,
+  checkIn: toClockTime(record.checkIn),
+  checkOut: toClockTime(record.checkOut),
+  overtimeHours: record.overtimeHours ? String(record.overtimeHours) : "",
+});
+
+export default function AttendancePage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [date, setDate] = useState(() =>
+    new Date().toLocaleDateString("en-CA")
+  );
+  const [employees, setEmployees] = useState<EmployeeSummary[]>([]);
+  const [rows, setRows] = useState<Record<string, RowState>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  const loadSheet = useCallback(async () => {
+    if (!date) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [employeesResponse, recordsResponse] = await Promise.all([
+        fetch("/api/hr/employees", {
+          cache: "no-store",
+          credentials: "include",
+        }),
+        fetch(`/api/hr/attendance?date=${encodeURIComponent(date)}`, {
+          cache: "no-store",
+          credentials: "include",
+        }),
+      ]);
+
+      if (employeesResponse.status === 401 || recordsResponse.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const employeesPayload = (await employeesResponse
+        .json()
+        .catch(() => null)) as {
+        employees?: EmployeeSummary[];
+        error?: string;
+      } | null;
+      const recordsPayload = (await recordsResponse
+        .json()
+        .catch(() => null)) as {
+        records?: AttendanceRecordSummary[];
+        error?: string;
+      } | null;
+      if (!employeesResponse.ok || !employeesPayload?.employees) {
+        throw new Error(employeesPayload?.error ?? "Failed to load employees.");
+      }
+      if (!recordsResponse.ok || !recordsPayload?.records) {
+        throw new Error(recordsPayload?.error ?? "Failed to load attendance.");
+      }
+
+      setEmployees(employeesPayload.employees);
+      setRows(
+        Object.fromEntries(
+          recordsPayload.records.map((record) => [
+            record.employeeId,
+            toRowState(record),
+          ])
+        )
+      );
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load attendance."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [date, redirectToLogin]);
+
+  useEffect(() => {
+    void loadSheet();
+  }, [loadSheet]);
+
+  // Only people employed on the selected day belong on its sheet
+  const sheetEmployees = useMemo(() => {
+    const day = new Date(`${date}T00:00:00`);
+    return employees.filter(
+      (employee) =>
+        new Date(employee.joinDate) <= day &&
+        (!employee.endDate || new Date(employee.endDate) >= day)
+    );
+  }, [date, employees]);
+
+  const rowOf = (employeeId: string) => rows[employeeId] ?? EMPTY_ROW;
+
+  const updateRow = (employeeId: string, patch: Partial<RowState>) => {
+    setRows((prev) => ({
+      ...prev,
+      [employeeId]: { ...(prev[employeeId] ?? EMPTY_ROW), ...patch },
+    }));
+  };
+
+  const handleSave = async (employee: EmployeeSummary) => {
+    const row = rowOf(employee.id);
+    if (!row.status) {
+      toast({
+        title: "Select present or absent",
+        description: employee.name,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingId(employee.id);
+    try {
+      const response = await fetch("/api/hr/attendance", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          employeeId: employee.id,
+          date,
+          status: row.status,
+          checkIn: row.checkIn,
+          checkOut: row.checkOut,
+          overtimeHours: Number(row.overtimeHours) || 0,
+        }),
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        message?: string;
+        record?: AttendanceRecordSummary;
+        error?: string;
+      } | null;
+      if (!response.ok || !payload?.record) {
+        throw new Error(payload?.error ?? "Failed to save attendance.");
+      }
+
+      updateRow(employee.id, toRowState(payload.record));
+      toast({
+        title: payload.message ?? "Attendance saved.",
+        description: employee.name,
+      });
+    } catch (err) {
+      toast({
+        title: "Save failed",
+        description:
+          err instanceof Error ? err.message : "Failed to save attendance.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleClear = async (employee: EmployeeSummary) => {
+    const { recordId } = rowOf(employee.id);
+    if (!recordId) {
+      updateRow(employee.id, EMPTY_ROW);
+      return;
+    }
+
+    setSavingId(employee.id);
+    try {
+      const response = await fetch(
+        `/api/hr/attendance/${encodeURIComponent(recordId)}`,
+        { method: "DELETE", credentials: "include" }
+      );
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to delete attendance.");
+      }
+
+      updateRow(employee.id, EMPTY_ROW);
+    } catch (err) {
+      toast({
+        title: "Delete failed",
+        description:
+          err instanceof Error ? err.message : "Failed to delete attendance.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <SidebarProvider>
+      <div className="flex min-h-screen bg-gray-50">
+        <AppSidebar activeMenu="hr" />
+
+        <div className="flex-1 overflow-auto">
+          <PageHeader title="Human Resources - Attendance">
+            <Button variant="outline" onClick={() => router.push("/hr/leave")}>
+              <CalendarDays className="mr-2 h-4 w-4" /> Leave
+            </Button>
+          </PageHeader>
+
+          <main className="p-6">
+            {error && <p className="mb-4 text-sm text-destructive">{error}</p>}
+
+            <Card>
+              <CardHeader className="flex flex-row items-end justify-between">
+                <CardTitle>Daily Attendance</CardTitle>
+                <div className="space-y-2">
+                  <Label htmlFor="attendance-date">Date</Label>
+                  <Input
+                    id="attendance-date"
+                    type="date"
+                    value={date}
+                    onChange={(event) => setDate(event.target.value)}
+                    className="w-44"
+                  />
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Employee</TableHead>
+                      <TableHead className="w-[140px]">Status</TableHead>
+                      <TableHead className="w-[130px]">Check-in</TableHead>
+                      <TableHead className="w-[130px]">Check-out</TableHead>
+                      <TableHead className="w-[120px] text-right">
+                        Overtime (h)
+                      </TableHead>
+                      <TableHead className="w-[100px] text-right">
+                        Actions
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {loading && !employees.length ? (
+                      <TableRow>
+                        <TableCell
+                          colSpan={6}
+                          className="text-center text-muted-foreground"
+                        >
+                          Loading attendance...
+                        </TableCell>
+                      </TableRow>
+                    ) : sheetEmployees.length ? (
+                      sheetEmployees.map((employee) => {
+                        const row = rowOf(employee.id);
+                        const isAbsent = row.status === "absent";
+                        return (
+                          <TableRow key={employee.id}>
+                            <TableCell>
+                              <div className="font-medium">
+                                {employee.name}
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {employee.employeeNumber}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <Select
+                                value={row.status}
+                                onValueChange={(value) =>
+                                  updateRow(employee.id, {
+                                    status: value as AttendanceStatus,
+                                  })
+                                }
+                              >
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Not recorded" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="present">
+                                    Present
+                                  </SelectItem>
+                                  <SelectItem value="absent">Absent</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="time"
+                                value={row.checkIn}
+                                disabled={isAbsent}
+                                onChange={(event) =>
+                                  updateRow(employee.id, {
+                                    checkIn: event.target.value,
+                                  })
+                                }
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="time"
+                                value={row.checkOut}
+                                disabled={isAbsent}
+                                onChange={(event) =>
+                                  updateRow(employee.id, {
+                                    checkOut: event.target.value,
+                                  })
+                                }
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.5"
+                                className="text-right"
+                                value={row.overtimeHours}
+                                disabled={isAbsent}
+                                onChange={(event) =>
+                                  updateRow(employee.id, {
+                                    overtimeHours: event.target.value,
+                                  })
+                                }
+                                placeholder="0"
+                              />
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex justify-end gap-1">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  disabled={savingId === employee.id}
+                                  onClick={() => handleSave(employee)}
+                                  title="Save"
+                                >
+                                  {savingId === employee.id ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <Save className="h-4 w-4" />
+                                  )}
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8 text-gray-500 hover:text-red-600"
+                                  disabled={
+                                    savingId === employee.id || !row.status
+                                  }
+                                  onClick={() => handleClear(employee)}
+                                  title="Clear"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    ) : (
+                      <TableRow>
+                        <TableCell
+                          colSpan={6}
+                          className="text-center text-muted-foreground"
+                        >
+                          No employees on staff on this date.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+                <p className="text-sm text-muted-foreground">
+                  Absences not covered by approved leave are unpaid. Overtime
+                  is paid at 1/173 of the monthly salary per hour with the
+                  statutory multipliers; on weekends enter all hours worked as
+                  overtime.
+                </p>
+              </CardContent>
+            </Card>
+          </main>
+        </div>
+      </div>
+    </SidebarProvider>
+  );
+}
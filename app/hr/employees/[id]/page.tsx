@@ -0,0 +1,96 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+
+import { SidebarProvider } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/app-sidebar";
+import { EmployeeForm } from "@/components/employee-form";
+import { PageHeader } from "@/components/page-header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { EmployeeSummary } from "@/lib/employees";
+
+export default function EditEmployeePage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const [employee, setEmployee] = useState<EmployeeSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  useEffect(() => {
+    const loadEmployee = async () => {
+      try {
+        const response = await fetch(
+          `/api/hr/employees/${encodeURIComponent(params.id)}`,
+          { cache: "no-store", credentials: "include" }
+        );
+
+        if (response.status === 401) {
+          await redirectToLogin();
+          return;
+        }
+
+        const payload = (await response.json().catch(() => null)) as {
+          employee?: EmployeeSummary;
+          error?: string;
+        } | null;
+        if (!response.ok || !payload?.employee) {
+          throw new Error(payload?.error ?? "Failed to load employee.");
+        }
+        setEmployee(payload.employee);
+      } catch (err) {
+        console.error(err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load employee."
+        );
+      }
+    };
+    void loadEmployee();
+  }, [params.id, redirectToLogin]);
+
+  return (
+    <SidebarProvider>
+      <div className="flex min-h-screen bg-gray-50">
+        <AppSidebar activeMenu="hr" />
+
+        <div className="flex-1 overflow-auto">
+          <PageHeader title="Human Resources - Edit Employee" />
+
+          <main className="p-6">
+            <Card className="mx-auto max-w-3xl">
+              <CardHeader>
+                <CardTitle>
+                  {employee
+                    ? `${employee.employeeNumber} - ${employee.name}`
+                    : "Edit Employee"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {error ? (
+                  <p className="text-sm text-destructive">{error}</p>
+                ) : employee ? (
+                  <EmployeeForm employee={employee} />
+                ) : (
+                  <Skeleton className="h-64 w-full" />
+                )}
+              </CardContent>
+            </Card>
+          </main>
+        </div>
+      </div>
+    </SidebarProvider>
+  );
+}
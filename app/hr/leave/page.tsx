@@ -0,0 +1,521 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  CheckCircle2,
+  Clock,
+  Loader2,
+  MoreVertical,
+  Plus,
+  XCircle,
+} from "lucide-react";
+
+import { SidebarProvider } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/app-sidebar";
+import {
+  LEAVE_STATUS_BADGES,
+  LEAVE_TYPE_LABELS,
+  LeaveRequestDialog,
+} from "@/components/leave-request-dialog";
+import { PageHeader } from "@/components/page-header";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  LeaveBalance,
+  LeaveRequestSummary,
+  LeaveStatus,
+} from "@/lib/attendance";
+import type { EmployeeSummary } from "@/lib/employees";
+
+type LeaveAction = "approve" | "reject" | "cancel";
+
+const ACTION_PROMPTS: Record<LeaveAction, string> = {
+  approve: "Approve",
+  reject: "Reject",
+  cancel: "Cancel",
+};
+
+export default function LeavePage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<LeaveStatus | "all">(
+    "pending"
+  );
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const [leaveRequests, setLeaveRequests] = useState<LeaveRequestSummary[]>(
+    []
+  );
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [employees, setEmployees] = useState<EmployeeSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionId, setActionId] = useState<string | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString("en-US", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  const loadLeave = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ year: String(year) });
+      if (statusFilter !== "all") {
+        params.set("status", statusFilter);
+      }
+      const response = await fetch(`/api/hr/leave?${params.toString()}`, {
+        cache: "no-store",
+        credentials: "include",
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        leaveRequests?: LeaveRequestSummary[];
+        balances?: LeaveBalance[];
+        error?: string;
+      } | null;
+      if (!response.ok || !payload?.leaveRequests) {
+        throw new Error(payload?.error ?? "Failed to load leave requests.");
+      }
+
+      setLeaveRequests(payload.leaveRequests);
+      setBalances(payload.balances ?? []);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load leave requests."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [redirectToLogin, statusFilter, year]);
+
+  useEffect(() => {
+    void loadLeave();
+  }, [loadLeave]);
+
+  useEffect(() => {
+    const loadEmployees = async () => {
+      try {
+        const response = await fetch("/api/hr/employees", {
+          cache: "no-store",
+          credentials: "include",
+        });
+        const payload = (await response.json().catch(() => null)) as {
+          employees?: EmployeeSummary[];
+        } | null;
+        setEmployees(
+          (payload?.employees ?? []).filter((employee) => employee.isActive)
+        );
+      } catch (err) {
+        console.error(err);
+      }
+    };
+    void loadEmployees();
+  }, []);
+
+  // One row per employee with each leave type side by side
+  const balanceRows = useMemo(() => {
+    const rows = new Map<
+      string,
+      { employeeNumber: string; employeeName: string } & Partial<
+        Record<LeaveBalance["type"], LeaveBalance>
+      >
+    >();
+    for (const balance of balances) {
+      const row = rows.get(balance.employeeId) ?? {
+        employeeNumber: balance.employeeNumber,
+        employeeName: balance.employeeName,
+      };
+      row[balance.type] = balance;
+      rows.set(balance.employeeId, row);
+    }
+    return Array.from(rows.entries());
+  }, [balances]);
+
+  const handleAction = async (
+    leaveRequest: LeaveRequestSummary,
+    action: LeaveAction
+  ) => {
+    const note = window.prompt(
+      `${ACTION_PROMPTS[action]} ${leaveRequest.employeeName}'s ` +
+        `${LEAVE_TYPE_LABELS[leaveRequest.type].toLowerCase()}? ` +
+        "Add an optional note:"
+    );
+    if (note === null) {
+      return;
+    }
+
+    setActionId(leaveRequest.id);
+    try {
+      const response = await fetch(
+        `/api/hr/leave/${encodeURIComponent(leaveRequest.id)}`,
+        {
+          method: "POST",
+          credentials: "include",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action, note }),
+        }
+      );
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        message?: string;
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to update leave request.");
+      }
+
+      toast({
+        title: payload?.message ?? "Leave request updated.",
+        description: leaveRequest.employeeName,
+      });
+      await loadLeave();
+    } catch (err) {
+      toast({
+        title: "Action failed",
+        description:
+          err instanceof Error
+            ? err.message
+            : "Failed to update leave request.",
+        variant: "destructive",
+      });
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const renderBalance = (balance: LeaveBalance | undefined) => {
+    if (!balance) {
+      return "-";
+    }
+    const taken =
+      balance.pending > 0
+        ? `${balance.taken} (+${balance.pending} pending)`
+        : String(balance.taken);
+    return balance.entitlement === null
+      ? taken
+      : `${taken} / ${balance.entitlement} · ${balance.remaining} left`;
+  };
+
+  const currentYear = new Date().getFullYear();
+
+  return (
+    <SidebarProvider>
+      <div className="flex min-h-screen bg-gray-50">
+        <AppSidebar activeMenu="hr" />
+
+        <div className="flex-1 overflow-auto">
+          <PageHeader title="Human Resources - Leave">
+            <Button
+              variant="outline"
+              onClick={() => router.push("/hr/attendance")}
+            >
+              <Clock className="mr-2 h-4 w-4" /> Attendance
+            </Button>
+            <Button onClick={() => setIsDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" /> New Leave Request
+            </Button>
+          </PageHeader>
+
+          <main className="space-y-6 p-6">
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Card>
+              <CardHeader className="flex flex-row items-center">
+                <CardTitle>Leave Requests</CardTitle>
+                <div className="ml-auto w-44">
+                  <Select
+                    value={statusFilter}
+                    onValueChange={(value) =>
+                      setStatusFilter(value as LeaveStatus | "all")
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All requests</SelectItem>
+                      {Object.entries(LEAVE_STATUS_BADGES).map(
+                        ([value, badge]) => (
+                          <SelectItem key={value} value={value}>
+                            {badge.label}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Dates</TableHead>
+                      <TableHead className="text-right">Days</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {loading && !leaveRequests.length ? (
+                      <TableRow>
+                        <TableCell
+                          colSpan={7}
+                          className="text-center text-muted-foreground"
+                        >
+                          Loading leave requests...
+                        </TableCell>
+                      </TableRow>
+                    ) : leaveRequests.length ? (
+                      leaveRequests.map((leaveRequest) => (
+                        <TableRow key={leaveRequest.id}>
+                          <TableCell>
+                            <div className="font-medium">
+                              {leaveRequest.employeeName}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {leaveRequest.employeeNumber}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {LEAVE_TYPE_LABELS[leaveRequest.type]}
+                          </TableCell>
+                          <TableCell>
+                            {formatDate(leaveRequest.startDate)}
+                            {leaveRequest.endDate !== leaveRequest.startDate
+                              ? ` - ${formatDate(leaveRequest.endDate)}`
+                              : ""}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {leaveRequest.days}
+                          </TableCell>
+                          <TableCell className="max-w-[220px] truncate">
+                            {leaveRequest.reason ?? "-"}
+                            {leaveRequest.decisionNote && (
+                              <div className="text-xs text-muted-foreground">
+                                {leaveRequest.decisionNote}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Badge
+                              variant={
+                                LEAVE_STATUS_BADGES[leaveRequest.status]
+                                  .variant
+                              }
+                            >
+                              {LEAVE_STATUS_BADGES[leaveRequest.status].label}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {(leaveRequest.status === "pending" ||
+                              leaveRequest.status === "approved") && (
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    disabled={actionId === leaveRequest.id}
+                                  >
+                                    {actionId === leaveRequest.id ? (
+                                      <Loader2 className="h-4 w-4 animate-spin" />
+                                    ) : (
+                                      <MoreVertical className="h-4 w-4" />
+                                    )}
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  {leaveRequest.status === "pending" && (
+                                    <>
+                                      <DropdownMenuItem
+                                        onClick={() =>
+                                          handleAction(leaveRequest, "approve")
+                                        }
+                                      >
+                                        <CheckCircle2 className="mr-2 h-4 w-4" />
+                                        Approve
+                                      </DropdownMenuItem>
+                                      <DropdownMenuItem
+                                        onClick={() =>
+                                          handleAction(leaveRequest, "reject")
+                                        }
+                                      >
+                                        <XCircle className="mr-2 h-4 w-4" />
+                                        Reject
+                                      </DropdownMenuItem>
+                                    </>
+                                  )}
+                                  <DropdownMenuItem
+                                    className="text-destructive focus:text-destructive"
+                                    onClick={() =>
+                                      handleAction(leaveRequest, "cancel")
+                                    }
+                                  >
+                                    <XCircle className="mr-2 h-4 w-4" /> Cancel
+                                  </DropdownMenuItem>
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell
+                          colSpan={7}
+                          className="text-center text-muted-foreground"
+                        >
+                          No leave requests found.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center">
+                <CardTitle>Leave Balances</CardTitle>
+                <div className="ml-auto w-32">
+                  <Select
+                    value={String(year)}
+                    onValueChange={(value) => setYear(Number(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[currentYear + 1, currentYear, currentYear - 1].map(
+                        (option) => (
+                          <SelectItem key={option} value={String(option)}>
+                            {option}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>{LEAVE_TYPE_LABELS.annual}</TableHead>
+                      <TableHead>{LEAVE_TYPE_LABELS.sick}</TableHead>
+                      <TableHead>{LEAVE_TYPE_LABELS.unpaid}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {balanceRows.length ? (
+                      balanceRows.map(([employeeId, row]) => (
+                        <TableRow key={employeeId}>
+                          <TableCell>
+                            <div className="font-medium">
+                              {row.employeeName}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {row.employeeNumber}
+                            </div>
+                          </TableCell>
+                          <TableCell>{renderBalance(row.annual)}</TableCell>
+                          <TableCell>{renderBalance(row.sick)}</TableCell>
+                          <TableCell>{renderBalance(row.unpaid)}</TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell
+                          colSpan={4}
+                          className="text-center text-muted-foreground"
+                        >
+                          {loading
+                            ? "Loading leave balances..."
+                            : "No active employees."}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+                <p className="mt-4 text-sm text-muted-foreground">
+                  Days are working days taken in {year}. Approved unpaid leave
+                  is deducted from the month&apos;s payroll run.
+                </p>
+              </CardContent>
+            </Card>
+          </main>
+        </div>
+      </div>
+
+      <LeaveRequestDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        employees={employees}
+        onCreated={(leaveRequest) => {
+          toast({
+            title: "Leave request submitted.",
+            description: `${leaveRequest.employeeName} - ${leaveRequest.days} day(s)`,
+          });
+          void loadLeave();
+        }}
+        onUnauthorized={redirectToLogin}
+      />
+    </SidebarProvider>
+  );
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { SidebarProvider } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/app-sidebar";
+import { EmployeeForm } from "@/components/employee-form";
+import { PageHeader } from "@/components/page-header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+export default function NewEmployeePage() {
+  return (
+    <SidebarProvider>
+      <div className="flex min-h-screen bg-gray-50">
+        <AppSidebar activeMenu="hr" />
+
+        <div className="flex-1 overflow-auto">
+          <PageHeader title="Human Resources - New Employee" />
+
+          <main className="p-6">
+            <Card className="mx-auto max-w-3xl">
+              <CardHeader>
+                <CardTitle>New Employee</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <EmployeeForm />
+              </CardContent>
+            </Card>
+          </main>
+        </div>
+      </div>
+    </SidebarProvider>
+  );
+}
@@ -1,9 +1,36 @@
 "use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
+import {
+  CalendarDays,
+  Check,
+  Clock,
+  FileText,
+  Loader2,
+  MoreVertical,
+  Pencil,
+  Plus,
+  Trash2,
+  Wallet,
+  X,
+} from "lucide-react";
+
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
+import { EMPLOYMENT_STATUS_LABELS } from "@/components/employee-form";
+import { LEAVE_TYPE_LABELS } from "@/components/leave-request-dialog";
+import { PageHeader } from "@/components/page-header";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Skeleton } from "@/components/ui/skeleton";
 import {
   Table,
   TableBody,
@@ -12,16 +39,217 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Plus, FileText } from "lucide-react";
-import { PageHeader } from "@/components/page-header";
+import { useToast } from "@/hooks/use-toast";
+import type { LeaveRequestSummary } from "@/lib/attendance";
+import type { EmployeeSummary, EmployeeTotals } from "@/lib/employees";
 
 export default function HRPage() {
   const router = useRouter();
+  const { toast } = useToast();
+  const [employees, setEmployees] = useState<EmployeeSummary[]>([]);
+  const [totals, setTotals] = useState<EmployeeTotals | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionId, setActionId] = useState<string | null>(null);
+  const [pendingLeave, setPendingLeave] = useState<LeaveRequestSummary[]>([]);
+
+  const currencyFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat("id-ID", {
+        style: "currency",
+        currency: "IDR",
+        maximumFractionDigits: 0,
+      }),
+    []
+  );
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString("en-US", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  const loadEmployees = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/hr/employees", {
+        cache: "no-store",
+        credentials: "include",
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        employees?: EmployeeSummary[];
+        totals?: EmployeeTotals;
+        error?: string;
+      } | null;
+      if (!response.ok || !payload?.employees) {
+        throw new Error(payload?.error ?? "Failed to load employees.");
+      }
+
+      setEmployees(payload.employees);
+      setTotals(payload.totals ?? null);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load employees."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [redirectToLogin]);
+
+  const loadPendingLeave = useCallback(async () => {
+    try {
+      const response = await fetch("/api/hr/leave?status=pending", {
+        cache: "no-store",
+        credentials: "include",
+      });
+      const payload = (await response.json().catch(() => null)) as {
+        leaveRequests?: LeaveRequestSummary[];
+      } | null;
+      setPendingLeave(payload?.leaveRequests ?? []);
+    } catch (err) {
+      console.error(err);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadEmployees();
+    void loadPendingLeave();
+  }, [loadEmployees, loadPendingLeave]);
+
+  const handleLeaveDecision = async (
+    leaveRequest: LeaveRequestSummary,
+    action: "approve" | "reject"
+  ) => {
+    setActionId(leaveRequest.id);
+    try {
+      const response = await fetch(
+        `/api/hr/leave/${encodeURIComponent(leaveRequest.id)}`,
+        {
+          method: "POST",
+          credentials: "include",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action }),
+        }
+      );
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
 
-  const handleNewEmployee = () => {
-    router.push("/hr/new-employee");
+      const payload = (await response.json().catch(() => null)) as {
+        message?: string;
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to update leave request.");
+      }
+
+      toast({
+        title: payload?.message ?? "Leave request updated.",
+        description: leaveRequest.employeeName,
+      });
+      await loadPendingLeave();
+    } catch (err) {
+      toast({
+        title: "Action failed",
+        description:
+          err instanceof Error
+            ? err.message
+            : "Failed to update leave request.",
+        variant: "destructive",
+      });
+    } finally {
+      setActionId(null);
+    }
   };
 
+  const handleDelete = async (employee: EmployeeSummary) => {
+    if (
+      !window.confirm(
+        `Delete ${employee.name}? Set the status to Terminated instead to ` +
+          "keep their history."
+      )
+    ) {
+      return;
+    }
+
+    setActionId(employee.id);
+    try {
+      const response = await fetch(
+        `/api/hr/employees/${encodeURIComponent(employee.id)}`,
+        { method: "DELETE", credentials: "include" }
+      );
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        message?: string;
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to delete employee.");
+      }
+
+      toast({
+        title: payload?.message ?? "Employee deleted.",
+        description: `${employee.employeeNumber} - ${employee.name}`,
+      });
+      await loadEmployees();
+    } catch (err) {
+      toast({
+        title: "Delete failed",
+        description:
+          err instanceof Error ? err.message : "Failed to delete employee.",
+        variant: "destructive",
+      });
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const renderStat = (title: string, value: string) => (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-gray-500">
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading && !totals ? (
+          <Skeleton className="h-8 w-24" />
+        ) : (
+          <div className="text-2xl font-bold">{value}</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
   return (
     <SidebarProvider>
       <div className="flex min-h-screen bg-gray-50">
@@ -29,61 +257,43 @@ export default function HRPage() {
 
         <div className="flex-1 overflow-auto">
           <PageHeader title="Human Resources">
-            <Button onClick={handleNewEmployee}>
+            <Button
+              variant="outline"
+              onClick={() => router.push("/hr/attendance")}
+            >
+              <Clock className="mr-2 h-4 w-4" /> Attendance
+            </Button>
+            <Button variant="outline" onClick={() => router.push("/hr/leave")}>
+              <CalendarDays className="mr-2 h-4 w-4" /> Leave
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => router.push("/hr/payroll")}
+            >
+              <Wallet className="mr-2 h-4 w-4" /> Payroll
+            </Button>
+            <Button onClick={() => router.push("/hr/new-employee")}>
               <Plus className="mr-2 h-4 w-4" /> New Employee
             </Button>
           </PageHeader>
 
           <main className="p-6">
+            {error && <p className="mb-4 text-sm text-destructive">{error}</p>}
+
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium text-gray-500">
-                    Total Employees
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold text-muted-foreground">
-                    --
-                  </div>
-                </CardContent>
-              </Card>
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium text-gray-500">
-                    Departments
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold text-muted-foreground">
-                    --
-                  </div>
-                </CardContent>
-              </Card>
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium text-gray-500">
-                    New Hires (MTD)
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold text-muted-foreground">
-                    --
-                  </div>
-                </CardContent>
-              </Card>
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium text-gray-500">
-                    Open Positions
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold text-muted-foreground">
-                    --
-                  </div>
-                </CardContent>
-              </Card>
+              {renderStat(
+                "Total Employees",
+                String(totals?.activeEmployees ?? 0)
+              )}
+              {renderStat("Departments", String(totals?.departments ?? 0))}
+              {renderStat(
+                "New Hires (MTD)",
+                String(totals?.newHiresThisMonth ?? 0)
+              )}
+              {renderStat(
+                "Monthly Base Salaries",
+                currencyFormatter.format(totals?.monthlyBaseSalaries ?? 0)
+              )}
             </div>
 
             <div className="mt-6 grid gap-6 md:grid-cols-3">
@@ -91,13 +301,6 @@ export default function HRPage() {
                 <CardHeader className="flex flex-row items-center">
                   <CardTitle>Employee Directory</CardTitle>
                   <div className="ml-auto flex gap-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => router.push("/hr/departments")}
-                    >
-                      View Departments
-                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
@@ -114,40 +317,206 @@ export default function HRPage() {
                         <TableHead>Employee</TableHead>
                         <TableHead>Position</TableHead>
                         <TableHead>Department</TableHead>
+                        <TableHead>Joined</TableHead>
                         <TableHead>Status</TableHead>
                         <TableHead className="text-right">Actions</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      <TableRow>
-                        <TableCell
-                          colSpan={5}
-                          className="text-center text-muted-foreground"
-                        >
-                          No employee records available.
-                        </TableCell>
-                      </TableRow>
+                      {loading && !employees.length ? (
+                        <TableRow>
+                          <TableCell
+                            colSpan={6}
+                            className="text-center text-muted-foreground"
+                          >
+                            Loading employees...
+                          </TableCell>
+                        </TableRow>
+                      ) : employees.length ? (
+                        employees.map((employee) => (
+                          <TableRow key={employee.id}>
+                            <TableCell>
+                              <div className="font-medium">
+                                {employee.name}
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {employee.employeeNumber}
+                              </div>
+                            </TableCell>
+                            <TableCell>{employee.position}</TableCell>
+                            <TableCell>{employee.department}</TableCell>
+                            <TableCell>
+                              {formatDate(employee.joinDate)}
+                            </TableCell>
+                            <TableCell>
+                              <Badge
+                                variant={
+                                  employee.isActive ? "secondary" : "outline"
+                                }
+                              >
+                                {
+                                  EMPLOYMENT_STATUS_LABELS[
+                                    employee.employmentStatus
+                                  ]
+                                }
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    disabled={actionId === employee.id}
+                                  >
+                                    {actionId === employee.id ? (
+                                      <Loader2 className="h-4 w-4 animate-spin" />
+                                    ) : (
+                                      <MoreVertical className="h-4 w-4" />
+                                    )}
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  <DropdownMenuItem
+                                    onClick={() =>
+                                      router.push(
+                                        `/hr/employees/${encodeURIComponent(
+                                          employee.id
+                                        )}`
+                                      )
+                                    }
+                                  >
+                                    <Pencil className="mr-2 h-4 w-4" /> Edit
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    className="text-destructive focus:text-destructive"
+                                    onClick={() => handleDelete(employee)}
+                                  >
+                                    <Trash2 className="mr-2 h-4 w-4" /> Delete
+                                  </DropdownMenuItem>
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      ) : (
+                        <TableRow>
+                          <TableCell
+                            colSpan={6}
+                            className="text-center text-muted-foreground"
+                          >
+                            No employee records available.
+                          </TableCell>
+                        </TableRow>
+                      )}
                     </TableBody>
                   </Table>
-                  <Button
-                    variant="outline"
-                    className="mt-4 w-full"
-                    onClick={() => router.push("/hr/employees")}
-                  >
-                    View All Employees
-                  </Button>
                 </CardContent>
               </Card>
 
               <div className="space-y-6">
+                <Card>
+                  <CardHeader className="flex flex-row items-center gap-2">
+                    <CardTitle>Pending Leave Approvals</CardTitle>
+                    {pendingLeave.length > 0 && (
+                      <Badge variant="outline">{pendingLeave.length}</Badge>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    {pendingLeave.length ? (
+                      <div className="space-y-3">
+                        {pendingLeave.slice(0, 5).map((leaveRequest) => (
+                          <div
+                            key={leaveRequest.id}
+                            className="flex items-center gap-2"
+                          >
+                            <div className="min-w-0 flex-1 text-sm">
+                              <div className="truncate font-medium">
+                                {leaveRequest.employeeName}
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {LEAVE_TYPE_LABELS[leaveRequest.type]} ·{" "}
+                                {formatDate(leaveRequest.startDate)} ·{" "}
+                                {leaveRequest.days} day(s)
+                              </div>
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-green-600"
+                              disabled={actionId === leaveRequest.id}
+                              onClick={() =>
+                                handleLeaveDecision(leaveRequest, "approve")
+                              }
+                              title="Approve"
+                            >
+                              <Check className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-red-600"
+                              disabled={actionId === leaveRequest.id}
+                              onClick={() =>
+                                handleLeaveDecision(leaveRequest, "reject")
+                              }
+                              title="Reject"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        No leave requests awaiting approval.
+                      </p>
+                    )}
+                    <Button
+                      variant="outline"
+                      className="mt-4 w-full"
+                      onClick={() => router.push("/hr/leave")}
+                    >
+                      Manage Leave
+                    </Button>
+                  </CardContent>
+                </Card>
+
                 <Card>
                   <CardHeader>
                     <CardTitle>Department Distribution</CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <p className="text-sm text-muted-foreground">
-                      No department data available.
-                    </p>
+                    {totals?.byDepartment.length ? (
+                      <div className="space-y-3">
+                        {totals.byDepartment.map((row) => (
+                          <div key={row.department} className="space-y-1">
+                            <div className="flex justify-between text-sm">
+                              <span>{row.department}</span>
+                              <span className="text-muted-foreground">
+                                {row.employees}
+                              </span>
+                            </div>
+                            <div className="h-2 rounded-full bg-slate-100">
+                              <div
+                                className="h-2 rounded-full bg-slate-600"
+                                style={{
+                                  width: `${
+                                    (row.employees / totals.activeEmployees) *
+                                    100
+                                  }%`,
+                                }}
+                              />
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        No department data available.
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
 
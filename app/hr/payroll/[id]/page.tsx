@@ -0,0 +1,300 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { ArrowLeft, CheckCircle2, FileText } from "lucide-react";
+
+import { SidebarProvider } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/app-sidebar";
+import { PageHeader } from "@/components/page-header";
+import {
+  PAYROLL_STATUS_BADGES,
+  PayslipDialog,
+  formatPayrollPeriod,
+} from "@/components/payslip-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type { PayrollRunDetail, PayslipSummary } from "@/lib/payroll";
+
+export default function PayrollRunPage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const [run, setRun] = useState<PayrollRunDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPosting, setIsPosting] = useState(false);
+  const [viewing, setViewing] = useState<PayslipSummary | null>(null);
+
+  const currencyFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat("id-ID", {
+        style: "currency",
+        currency: "IDR",
+        maximumFractionDigits: 0,
+      }),
+    []
+  );
+
+  const formatCurrency = (value: number) => currencyFormatter.format(value);
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  useEffect(() => {
+    const loadRun = async () => {
+      try {
+        const response = await fetch(
+          `/api/hr/payroll/${encodeURIComponent(params.id)}`,
+          { cache: "no-store", credentials: "include" }
+        );
+
+        if (response.status === 401) {
+          await redirectToLogin();
+          return;
+        }
+
+        const payload = (await response.json().catch(() => null)) as {
+          payrollRun?: PayrollRunDetail;
+          error?: string;
+        } | null;
+        if (!response.ok || !payload?.payrollRun) {
+          throw new Error(payload?.error ?? "Failed to load payroll run.");
+        }
+        setRun(payload.payrollRun);
+      } catch (err) {
+        console.error(err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load payroll run."
+        );
+      }
+    };
+    void loadRun();
+  }, [params.id, redirectToLogin]);
+
+  const handlePost = async () => {
+    if (!run) {
+      return;
+    }
+
+    setIsPosting(true);
+    try {
+      const response = await fetch(
+        `/api/hr/payroll/${encodeURIComponent(run.id)}`,
+        {
+          method: "POST",
+          credentials: "include",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action: "post" }),
+        }
+      );
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        message?: string;
+        payrollRun?: PayrollRunDetail;
+        error?: string;
+      } | null;
+      if (!response.ok || !payload?.payrollRun) {
+        throw new Error(payload?.error ?? "Failed to post payroll.");
+      }
+
+      setRun(payload.payrollRun);
+      toast({
+        title: payload.message ?? "Payroll posted.",
+        description: `${run.number} - ${formatPayrollPeriod(run.period)}`,
+      });
+    } catch (err) {
+      toast({
+        title: "Posting failed",
+        description:
+          err instanceof Error ? err.message : "Failed to post payroll.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const renderStat = (title: string, value: number) => (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-gray-500">
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">{formatCurrency(value)}</div>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <SidebarProvider>
+      <div className="flex min-h-screen bg-gray-50">
+        <AppSidebar activeMenu="hr" />
+
+        <div className="flex-1 overflow-auto">
+          <PageHeader
+            title={
+              run
+                ? `Payroll ${run.number} - ${formatPayrollPeriod(run.period)}`
+                : "Payroll"
+            }
+          >
+            <Button
+              variant="outline"
+              onClick={() => router.push("/hr/payroll")}
+            >
+              <ArrowLeft className="mr-2 h-4 w-4" /> Payroll Runs
+            </Button>
+            {run?.status === "draft" && (
+              <Button onClick={handlePost} disabled={isPosting}>
+                <CheckCircle2 className="mr-2 h-4 w-4" />
+                {isPosting ? "Posting..." : "Post Payroll"}
+              </Button>
+            )}
+          </PageHeader>
+
+          <main className="space-y-6 p-6">
+            {error ? (
+              <p className="text-sm text-destructive">{error}</p>
+            ) : !run ? (
+              <Skeleton className="h-64 w-full" />
+            ) : (
+              <>
+                <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+                  {renderStat("Gross Pay", run.totals.grossPay)}
+                  {renderStat(
+                    "Employer BPJS",
+                    run.totals.employerContributions
+                  )}
+                  {renderStat("PPh 21 Withheld", run.totals.pph21)}
+                  {renderStat("Net Pay", run.totals.netPay)}
+                </div>
+
+                <Card>
+                  <CardHeader className="flex flex-row items-center gap-3">
+                    <CardTitle>Payslips</CardTitle>
+                    <Badge variant={PAYROLL_STATUS_BADGES[run.status].variant}>
+                      {PAYROLL_STATUS_BADGES[run.status].label}
+                    </Badge>
+                    <span className="ml-auto text-sm text-muted-foreground">
+                      Paid{" "}
+                      {new Date(run.payDate).toLocaleDateString("en-US", {
+                        day: "numeric",
+                        month: "short",
+                        year: "numeric",
+                      })}
+                      {run.memo ? ` · ${run.memo}` : ""}
+                    </span>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Employee</TableHead>
+                          <TableHead className="text-right">
+                            Gross Pay
+                          </TableHead>
+                          <TableHead className="text-right">
+                            BPJS (Employee)
+                          </TableHead>
+                          <TableHead className="text-right">PPh 21</TableHead>
+                          <TableHead className="text-right">Net Pay</TableHead>
+                          <TableHead className="text-right">Payslip</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {run.payslips.map((payslip) => (
+                          <TableRow key={payslip.employeeId}>
+                            <TableCell>
+                              <div className="font-medium">{payslip.name}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {payslip.employeeNumber} · {payslip.department}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {formatCurrency(payslip.grossPay)}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {formatCurrency(payslip.employeeContributions)}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {formatCurrency(payslip.pph21)}
+                            </TableCell>
+                            <TableCell className="text-right font-medium">
+                              {formatCurrency(payslip.netPay)}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setViewing(payslip)}
+                              >
+                                <FileText className="mr-2 h-4 w-4" /> View
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                      <TableFooter>
+                        <TableRow>
+                          <TableCell className="font-semibold">Total</TableCell>
+                          <TableCell className="text-right font-semibold">
+                            {formatCurrency(run.totals.grossPay)}
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">
+                            {formatCurrency(run.totals.employeeContributions)}
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">
+                            {formatCurrency(run.totals.pph21)}
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">
+                            {formatCurrency(run.totals.netPay)}
+                          </TableCell>
+                          <TableCell />
+                        </TableRow>
+                      </TableFooter>
+                    </Table>
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </main>
+        </div>
+      </div>
+
+      <PayslipDialog
+        run={run}
+        payslip={viewing}
+        onClose={() => setViewing(null)}
+      />
+    </SidebarProvider>
+  );
+}
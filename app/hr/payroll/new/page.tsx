@@ -0,0 +1,497 @@
+"use client";
+
+import type React from "react";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import { SidebarProvider } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/app-sidebar";
+import { PageHeader } from "@/components/page-header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type { PayrollAttendance } from "@/lib/attendance";
+import type { EmployeeSummary } from "@/lib/employees";
+import type { PayrollRunDetail } from "@/lib/payroll";
+
+type AdjustmentState = {
+  allowances: string;
+  deductions: string;
+};
+
+const EMPTY_ADJUSTMENT: AdjustmentState = { allowances: "", deductions: "" };
+
+/** Hourly overtime wage divisor, matching the server calculation. */
+const OVERTIME_MONTHLY_HOURS = 173;
+
+const currentPeriod = () => new Date().toLocaleDateString("en-CA").slice(0, 7);
+
+/** Whether the employee worked any part of the YYYY-MM `period`. */
+const isOnPayroll = (employee: EmployeeSummary, period: string) => {
+  const [year, month] = period.split("-").map(Number);
+  const start = new Date(year, month - 1, 1);
+  const end = new Date(year, month, 1);
+  return (
+    new Date(employee.joinDate) < end &&
+    (employee.isActive ||
+      (employee.endDate !== null && new Date(employee.endDate) >= start))
+  );
+};
+
+/** Monday-to-Friday days in the YYYY-MM `period`. */
+const workingDaysIn = (period: string) => {
+  const [year, month] = period.split("-").map(Number);
+  let days = 0;
+  for (
+    let day = new Date(year, month - 1, 1);
+    day.getMonth() === month - 1;
+    day.setDate(day.getDate() + 1)
+  ) {
+    if (day.getDay() !== 0 && day.getDay() !== 6) {
+      days += 1;
+    }
+  }
+  return days;
+};
+
+export default function NewPayrollRunPage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [employees, setEmployees] = useState<EmployeeSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [period, setPeriod] = useState(currentPeriod);
+  const [payDate, setPayDate] = useState(() =>
+    new Date().toLocaleDateString("en-CA")
+  );
+  const [memo, setMemo] = useState("");
+  const [adjustments, setAdjustments] = useState<
+    Record<string, AdjustmentState>
+  >({});
+  const [attendance, setAttendance] = useState<
+    Record<string, PayrollAttendance>
+  >({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const currencyFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat("id-ID", {
+        style: "currency",
+        currency: "IDR",
+        maximumFractionDigits: 0,
+      }),
+    []
+  );
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  useEffect(() => {
+    const loadEmployees = async () => {
+      try {
+        const response = await fetch("/api/hr/employees", {
+          cache: "no-store",
+          credentials: "include",
+        });
+        if (response.status === 401) {
+          await redirectToLogin();
+          return;
+        }
+        const payload = (await response.json().catch(() => null)) as {
+          employees?: EmployeeSummary[];
+        } | null;
+        setEmployees(payload?.employees ?? []);
+      } catch (error) {
+        console.error(error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    void loadEmployees();
+  }, [redirectToLogin]);
+
+  useEffect(() => {
+    if (!/^\d{4}-\d{2}$/.test(period)) {
+      setAttendance({});
+      return;
+    }
+
+    const loadAttendance = async () => {
+      try {
+        const response = await fetch(
+          `/api/hr/attendance/summary?period=${encodeURIComponent(period)}`,
+          { cache: "no-store", credentials: "include" }
+        );
+        const payload = (await response.json().catch(() => null)) as {
+          summary?: PayrollAttendance[];
+        } | null;
+        setAttendance(
+          Object.fromEntries(
+            (payload?.summary ?? []).map((row) => [row.employeeId, row])
+          )
+        );
+      } catch (error) {
+        console.error(error);
+      }
+    };
+    void loadAttendance();
+  }, [period]);
+
+  const workingDays = useMemo(
+    () => (/^\d{4}-\d{2}$/.test(period) ? workingDaysIn(period) : 0),
+    [period]
+  );
+
+  const payrollEmployees = useMemo(
+    () =>
+      /^\d{4}-\d{2}$/.test(period)
+        ? employees.filter((employee) => isOnPayroll(employee, period))
+        : [],
+    [employees, period]
+  );
+
+  const adjustmentOf = (employeeId: string) =>
+    adjustments[employeeId] ?? EMPTY_ADJUSTMENT;
+
+  // A preview only; the saved run rounds each component on the server
+  const grossPay = (employee: EmployeeSummary) => {
+    const adjustment = adjustmentOf(employee.id);
+    const worked = attendance[employee.id];
+    const overtimePay =
+      (employee.baseSalary / OVERTIME_MONTHLY_HOURS) *
+      (worked?.overtimeRateHours ?? 0);
+    const unpaidLeaveDeduction = workingDays
+      ? (employee.baseSalary *
+          Math.min(worked?.unpaidDays ?? 0, workingDays)) /
+        workingDays
+      : 0;
+    return (
+      employee.baseSalary +
+      (Number(adjustment.allowances) || 0) +
+      overtimePay -
+      unpaidLeaveDeduction -
+      (Number(adjustment.deductions) || 0)
+    );
+  };
+
+  const describeAttendance = (employeeId: string) => {
+    const worked = attendance[employeeId];
+    const parts = [
+      worked?.overtimeHours ? `${worked.overtimeHours} h overtime` : null,
+      worked?.unpaidDays ? `${worked.unpaidDays} unpaid day(s)` : null,
+    ].filter(Boolean);
+    return parts.length ? parts.join(" · ") : "-";
+  };
+
+  const totalGross = payrollEmployees.reduce(
+    (sum, employee) => sum + grossPay(employee),
+    0
+  );
+
+  const validationError = !/^\d{4}-\d{2}$/.test(period)
+    ? "Select the payroll month."
+    : !payDate
+    ? "Enter the pay date."
+    : !payrollEmployees.length
+    ? "No employees are on the payroll for this month."
+    : payrollEmployees.some((employee) => grossPay(employee) < 0)
+    ? "Deductions cannot exceed an employee's pay."
+    : null;
+
+  const updateAdjustment = (
+    employeeId: string,
+    patch: Partial<AdjustmentState>
+  ) => {
+    setAdjustments((prev) => ({
+      ...prev,
+      [employeeId]: { ...(prev[employeeId] ?? EMPTY_ADJUSTMENT), ...patch },
+    }));
+  };
+
+  const submitRun = async (post: boolean) => {
+    if (validationError) {
+      toast({
+        title: "Payroll run is incomplete",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/hr/payroll", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          period,
+          payDate,
+          memo,
+          post,
+          adjustments: payrollEmployees.map((employee) => ({
+            employeeId: employee.id,
+            allowances: Number(adjustmentOf(employee.id).allowances) || 0,
+            deductions: Number(adjustmentOf(employee.id).deductions) || 0,
+          })),
+        }),
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        message?: string;
+        payrollRun?: PayrollRunDetail;
+        error?: string;
+      } | null;
+      if (!response.ok || !payload?.payrollRun) {
+        throw new Error(payload?.error ?? "Failed to save payroll run.");
+      }
+
+      toast({
+        title: payload.message ?? "Payroll saved.",
+        description: `${payload.payrollRun.number} for ${period}`,
+      });
+      router.push(`/hr/payroll/${encodeURIComponent(payload.payrollRun.id)}`);
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to save payroll run.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    void submitRun(true);
+  };
+
+  return (
+    <SidebarProvider>
+      <div className="flex min-h-screen bg-gray-50">
+        <AppSidebar activeMenu="hr" />
+
+        <div className="flex-1 overflow-auto">
+          <PageHeader title="Human Resources - New Payroll Run" />
+
+          <main className="p-6">
+            <Card className="mx-auto max-w-5xl">
+              <CardHeader>
+                <CardTitle>New Payroll Run</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form className="space-y-6" onSubmit={handleSubmit}>
+                  <div className="grid gap-4 md:grid-cols-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="payroll-period">Payroll Month</Label>
+                      <Input
+                        id="payroll-period"
+                        type="month"
+                        value={period}
+                        onChange={(event) => setPeriod(event.target.value)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="payroll-pay-date">Pay Date</Label>
+                      <Input
+                        id="payroll-pay-date"
+                        type="date"
+                        value={payDate}
+                        onChange={(event) => setPayDate(event.target.value)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2 md:col-span-2">
+                      <Label htmlFor="payroll-memo">Memo</Label>
+                      <Input
+                        id="payroll-memo"
+                        value={memo}
+                        onChange={(event) => setMemo(event.target.value)}
+                        placeholder="Includes Eid bonus (THR)"
+                      />
+                    </div>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Employee</TableHead>
+                        <TableHead className="text-right">
+                          Base Salary
+                        </TableHead>
+                        <TableHead>Attendance</TableHead>
+                        <TableHead className="w-[160px] text-right">
+                          Allowances
+                        </TableHead>
+                        <TableHead className="w-[160px] text-right">
+                          Deductions
+                        </TableHead>
+                        <TableHead className="text-right">Gross Pay</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {loading ? (
+                        <TableRow>
+                          <TableCell
+                            colSpan={6}
+                            className="text-center text-muted-foreground"
+                          >
+                            Loading employees...
+                          </TableCell>
+                        </TableRow>
+                      ) : payrollEmployees.length ? (
+                        payrollEmployees.map((employee) => (
+                          <TableRow key={employee.id}>
+                            <TableCell>
+                              <div className="font-medium">
+                                {employee.name}
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {employee.employeeNumber} ·{" "}
+                                {employee.taxStatus}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {currencyFormatter.format(employee.baseSalary)}
+                            </TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                              {describeAttendance(employee.id)}
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min="0"
+                                step="any"
+                                className="text-right"
+                                value={adjustmentOf(employee.id).allowances}
+                                onChange={(event) =>
+                                  updateAdjustment(employee.id, {
+                                    allowances: event.target.value,
+                                  })
+                                }
+                                placeholder="0"
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min="0"
+                                step="any"
+                                className="text-right"
+                                value={adjustmentOf(employee.id).deductions}
+                                onChange={(event) =>
+                                  updateAdjustment(employee.id, {
+                                    deductions: event.target.value,
+                                  })
+                                }
+                                placeholder="0"
+                              />
+                            </TableCell>
+                            <TableCell className="text-right font-medium">
+                              {currencyFormatter.format(grossPay(employee))}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      ) : (
+                        <TableRow>
+                          <TableCell
+                            colSpan={6}
+                            className="text-center text-muted-foreground"
+                          >
+                            No employees are on the payroll for this month.
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                    <TableFooter>
+                      <TableRow>
+                        <TableCell colSpan={5} className="font-semibold">
+                          Total Gross Pay
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">
+                          {currencyFormatter.format(totalGross)}
+                        </TableCell>
+                      </TableRow>
+                    </TableFooter>
+                  </Table>
+
+                  <p className="text-sm text-muted-foreground">
+                    Overtime and unpaid days come from attendance and approved
+                    leave; overtime is paid at 1/173 of base salary per hour
+                    and each unpaid working day deducts a day&apos;s base pay.
+                    BPJS contributions, PPh 21 and net pay are calculated when
+                    the run is saved.
+                  </p>
+
+                  {validationError ? (
+                    <p className="text-sm text-destructive">
+                      {validationError}
+                    </p>
+                  ) : null}
+
+                  <div className="flex gap-4">
+                    <Button
+                      type="submit"
+                      className="flex-1"
+                      disabled={isSubmitting || Boolean(validationError)}
+                    >
+                      {isSubmitting ? "Saving..." : "Post Payroll"}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      className="flex-1"
+                      disabled={isSubmitting || Boolean(validationError)}
+                      onClick={() => void submitRun(false)}
+                    >
+                      Save as Draft
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => router.push("/hr/payroll")}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          </main>
+        </div>
+      </div>
+    </SidebarProvider>
+  );
+}
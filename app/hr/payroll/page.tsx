@@ -0,0 +1,333 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  CheckCircle2,
+  FileText,
+  Loader2,
+  MoreVertical,
+  Plus,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+
+import { SidebarProvider } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/app-sidebar";
+import { PageHeader } from "@/components/page-header";
+import {
+  PAYROLL_STATUS_BADGES,
+  formatPayrollPeriod,
+} from "@/components/payslip-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type { PayrollRunSummary } from "@/lib/payroll";
+
+export default function PayrollPage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [runs, setRuns] = useState<PayrollRunSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionId, setActionId] = useState<string | null>(null);
+
+  const currencyFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat("id-ID", {
+        style: "currency",
+        currency: "IDR",
+        maximumFractionDigits: 0,
+      }),
+    []
+  );
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString("en-US", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  const loadRuns = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/hr/payroll", {
+        cache: "no-store",
+        credentials: "include",
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        payrollRuns?: PayrollRunSummary[];
+        error?: string;
+      } | null;
+      if (!response.ok || !payload?.payrollRuns) {
+        throw new Error(payload?.error ?? "Failed to load payroll runs.");
+      }
+
+      setRuns(payload.payrollRuns);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load payroll runs."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [redirectToLogin]);
+
+  useEffect(() => {
+    void loadRuns();
+  }, [loadRuns]);
+
+  const handleAction = async (
+    run: PayrollRunSummary,
+    action: "post" | "void" | "delete"
+  ) => {
+    if (
+      action === "void" &&
+      !window.confirm(
+        `Void ${run.number}? Its journal will be reversed so the month can ` +
+          "be run again."
+      )
+    ) {
+      return;
+    }
+    if (action === "delete" && !window.confirm(`Delete ${run.number}?`)) {
+      return;
+    }
+
+    setActionId(run.id);
+    try {
+      const url = `/api/hr/payroll/${encodeURIComponent(run.id)}`;
+      const response = await fetch(
+        url,
+        action === "delete"
+          ? { method: "DELETE", credentials: "include" }
+          : {
+              method: "POST",
+              credentials: "include",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ action }),
+            }
+      );
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        message?: string;
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to update payroll run.");
+      }
+
+      toast({
+        title: payload?.message ?? "Payroll run updated.",
+        description: `${run.number} - ${formatPayrollPeriod(run.period)}`,
+      });
+      await loadRuns();
+    } catch (err) {
+      toast({
+        title: "Action failed",
+        description:
+          err instanceof Error ? err.message : "Failed to update payroll run.",
+        variant: "destructive",
+      });
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  return (
+    <SidebarProvider>
+      <div className="flex min-h-screen bg-gray-50">
+        <AppSidebar activeMenu="hr" />
+
+        <div className="flex-1 overflow-auto">
+          <PageHeader title="Human Resources - Payroll">
+            <Button onClick={() => router.push("/hr/payroll/new")}>
+              <Plus className="mr-2 h-4 w-4" /> New Payroll Run
+            </Button>
+          </PageHeader>
+
+          <main className="p-6">
+            {error && <p className="mb-4 text-sm text-destructive">{error}</p>}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Payroll Runs</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Run</TableHead>
+                      <TableHead>Period</TableHead>
+                      <TableHead>Pay Date</TableHead>
+                      <TableHead className="text-right">Employees</TableHead>
+                      <TableHead className="text-right">Gross Pay</TableHead>
+                      <TableHead className="text-right">PPh 21</TableHead>
+                      <TableHead className="text-right">Net Pay</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {loading && !runs.length ? (
+                      <TableRow>
+                        <TableCell
+                          colSpan={9}
+                          className="text-center text-muted-foreground"
+                        >
+                          Loading payroll runs...
+                        </TableCell>
+                      </TableRow>
+                    ) : runs.length ? (
+                      runs.map((run) => (
+                        <TableRow key={run.id}>
+                          <TableCell className="font-medium">
+                            {run.number}
+                          </TableCell>
+                          <TableCell>
+                            {formatPayrollPeriod(run.period)}
+                          </TableCell>
+                          <TableCell>{formatDate(run.payDate)}</TableCell>
+                          <TableCell className="text-right">
+                            {run.employees}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {currencyFormatter.format(run.totals.grossPay)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {currencyFormatter.format(run.totals.pph21)}
+                          </TableCell>
+                          <TableCell className="text-right font-medium">
+                            {currencyFormatter.format(run.totals.netPay)}
+                          </TableCell>
+                          <TableCell>
+                            <Badge
+                              variant={
+                                PAYROLL_STATUS_BADGES[run.status].variant
+                              }
+                            >
+                              {PAYROLL_STATUS_BADGES[run.status].label}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  disabled={actionId === run.id}
+                                >
+                                  {actionId === run.id ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <MoreVertical className="h-4 w-4" />
+                                  )}
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem
+                                  onClick={() =>
+                                    router.push(
+                                      `/hr/payroll/${encodeURIComponent(
+                                        run.id
+                                      )}`
+                                    )
+                                  }
+                                >
+                                  <FileText className="mr-2 h-4 w-4" /> View
+                                  Payslips
+                                </DropdownMenuItem>
+                                {run.status === "draft" && (
+                                  <>
+                                    <DropdownMenuItem
+                                      onClick={() => handleAction(run, "post")}
+                                    >
+                                      <CheckCircle2 className="mr-2 h-4 w-4" />
+                                      Post
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem
+                                      className="text-destructive focus:text-destructive"
+                                      onClick={() =>
+                                        handleAction(run, "delete")
+                                      }
+                                    >
+                                      <Trash2 className="mr-2 h-4 w-4" /> Delete
+                                    </DropdownMenuItem>
+                                  </>
+                                )}
+                                {run.status === "posted" && (
+                                  <DropdownMenuItem
+                                    className="text-destructive focus:text-destructive"
+                                    onClick={() => handleAction(run, "void")}
+                                  >
+                                    <XCircle className="mr-2 h-4 w-4" /> Void
+                                  </DropdownMenuItem>
+                                )}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell
+                          colSpan={9}
+                          className="text-center text-muted-foreground"
+                        >
+                          No payroll runs yet.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </main>
+        </div>
+      </div>
+    </SidebarProvider>
+  );
+}
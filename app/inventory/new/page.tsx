@@ -0,0 +1,321 @@
+"use client";
+
+import type React from "react";
+
+import { useCallback, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import { SidebarProvider } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/app-sidebar";
+import { PageHeader } from "@/components/page-header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import type { CostMethod } from "@/lib/inventory";
+
+const COST_METHOD_OPTIONS: Array<{ value: CostMethod; label: string }> = [
+  { value: "average", label: "Weighted Average" },
+  { value: "fifo", label: "FIFO (First In, First Out)" },
+];
+
+export default function NewInventoryItemPage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [sku, setSku] = useState("");
+  const [name, setName] = useState("");
+  const [unit, setUnit] = useState("pcs");
+  const [costMethod, setCostMethod] = useState<CostMethod>("average");
+  const [reorderLevel, setReorderLevel] = useState("0");
+  const [description, setDescription] = useState("");
+  const [openingQuantity, setOpeningQuantity] = useState("");
+  const [openingUnitCost, setOpeningUnitCost] = useState("");
+  const [openingDate, setOpeningDate] = useState(() =>
+    new Date().toLocaleDateString("en-CA")
+  );
+  const [openingLocation, setOpeningLocation] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const hasOpeningStock = Number(openingQuantity) > 0;
+
+  const validationError = !sku.trim()
+    ? "Enter a SKU."
+    : !name.trim()
+    ? "Enter the item name."
+    : hasOpeningStock && openingUnitCost === ""
+    ? "Enter the unit cost of the opening stock."
+    : null;
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (validationError) {
+      toast({
+        title: "Item is incomplete",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/inventory/items", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sku,
+          name,
+          unit,
+          costMethod,
+          reorderLevel: Number(reorderLevel) || 0,
+          description,
+          openingStock: hasOpeningStock
+            ? {
+                date: openingDate,
+                quantity: Number(openingQuantity),
+                unitCost: Number(openingUnitCost),
+                location: openingLocation,
+              }
+            : null,
+        }),
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        message?: string;
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to create item.");
+      }
+
+      toast({
+        title: payload?.message ?? "Item created.",
+        description: `${sku.trim().toUpperCase()} - ${name.trim()}`,
+      });
+      router.push("/inventory");
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description:
+          error instanceof Error ? error.message : "Failed to create item.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <SidebarProvider>
+      <div className="flex min-h-screen bg-gray-50">
+        <AppSidebar activeMenu="inventory" />
+
+        <div className="flex-1 overflow-auto">
+          <PageHeader title="Inventory - New Item" />
+
+          <main className="p-6">
+            <Card className="mx-auto max-w-3xl">
+              <CardHeader>
+                <CardTitle>New Item</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form className="space-y-6" onSubmit={handleSubmit}>
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="item-sku">SKU</Label>
+                      <Input
+                        id="item-sku"
+                        value={sku}
+                        onChange={(event) => setSku(event.target.value)}
+                        placeholder="BRG-001"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2 md:col-span-2">
+                      <Label htmlFor="item-name">Name</Label>
+                      <Input
+                        id="item-name"
+                        value={name}
+                        onChange={(event) => setName(event.target.value)}
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="item-unit">Unit</Label>
+                      <Input
+                        id="item-unit"
+                        value={unit}
+                        onChange={(event) => setUnit(event.target.value)}
+                        placeholder="pcs"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="item-cost-method">Cost Method</Label>
+                      <Select
+                        value={costMethod}
+                        onValueChange={(value) =>
+                          setCostMethod(value as CostMethod)
+                        }
+                      >
+                        <SelectTrigger id="item-cost-method">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {COST_METHOD_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="item-reorder-level">Reorder Level</Label>
+                      <Input
+                        id="item-reorder-level"
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={reorderLevel}
+                        onChange={(event) =>
+                          setReorderLevel(event.target.value)
+                        }
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="item-description">Description</Label>
+                    <Textarea
+                      id="item-description"
+                      value={description}
+                      onChange={(event) => setDescription(event.target.value)}
+                      rows={3}
+                    />
+                  </div>
+
+                  <div className="space-y-4 rounded-lg border border-slate-200 p-4">
+                    <div>
+                      <h3 className="text-sm font-semibold">Opening Stock</h3>
+                      <p className="text-xs text-muted-foreground">
+                        Optional. Recorded as a receipt into the stock ledger.
+                      </p>
+                    </div>
+                    <div className="grid gap-4 md:grid-cols-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="opening-quantity">Quantity</Label>
+                        <Input
+                          id="opening-quantity"
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={openingQuantity}
+                          onChange={(event) =>
+                            setOpeningQuantity(event.target.value)
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="opening-unit-cost">Unit Cost</Label>
+                        <Input
+                          id="opening-unit-cost"
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={openingUnitCost}
+                          onChange={(event) =>
+                            setOpeningUnitCost(event.target.value)
+                          }
+                          disabled={!hasOpeningStock}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="opening-date">Date</Label>
+                        <Input
+                          id="opening-date"
+                          type="date"
+                          value={openingDate}
+                          onChange={(event) =>
+                            setOpeningDate(event.target.value)
+                          }
+                          disabled={!hasOpeningStock}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="opening-location">Location</Label>
+                        <Input
+                          id="opening-location"
+                          value={openingLocation}
+                          onChange={(event) =>
+                            setOpeningLocation(event.target.value)
+                          }
+                          placeholder="Main"
+                          disabled={!hasOpeningStock}
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  {validationError ? (
+                    <p className="text-sm text-muted-foreground">
+                      {validationError}
+                    </p>
+                  ) : null}
+
+                  <div className="flex gap-4">
+                    <Button
+                      type="submit"
+                      className="flex-1"
+                      disabled={isSubmitting || Boolean(validationError)}
+                    >
+                      {isSubmitting ? "Saving..." : "Create Item"}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => router.push("/inventory")}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          </main>
+        </div>
+      </div>
+    </SidebarProvider>
+  );
+}
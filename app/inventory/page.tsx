@@ -1,9 +1,48 @@
 "use client";
+
+import type React from "react";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
+import {
+  ArrowLeftRight,
+  FileText,
+  History,
+  Loader2,
+  MoreVertical,
+  Plus,
+  Trash2,
+} from "lucide-react";
+
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
+import { PageHeader } from "@/components/page-header";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
 import {
   Table,
   TableBody,
@@ -12,16 +51,310 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Plus, FileText } from "lucide-react";
-import { PageHeader } from "@/components/page-header";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  InventoryItemSummary,
+  InventoryTotals,
+  MovementType,
+  StockMovementSummary,
+  StockStatus,
+} from "@/lib/inventory";
+
+const STATUS_BADGES: Record<
+  StockStatus,
+  { label: string; variant: "secondary" | "outline" | "destructive" }
+> = {
+  in_stock: { label: "In Stock", variant: "secondary" },
+  low_stock: { label: "Low Stock", variant: "outline" },
+  out_of_stock: { label: "Out of Stock", variant: "destructive" },
+};
+
+const MOVEMENT_LABELS: Record<MovementType, string> = {
+  receipt: "Receipt",
+  issue: "Issue",
+  adjustment: "Adjustment",
+  transfer: "Transfer",
+};
+
+/** Account journaled against inventory when the form leaves it blank. */
+const DEFAULT_OFFSET_HINTS: Record<MovementType, string> = {
+  receipt: "1000 - Cash",
+  issue: "5000 - Cost of Goods Sold",
+  adjustment: "5100 - Operating Expense",
+  transfer: "",
+};
+
+type MovementFormState = {
+  type: MovementType;
+  date: string;
+  quantity: string;
+  location: string;
+  toLocation: string;
+  unitCost: string;
+  offsetAccountCode: string;
+  reference: string;
+  memo: string;
+};
+
+const createMovementForm = (): MovementFormState => ({
+  type: "receipt",
+  date: new Date().toLocaleDateString("en-CA"),
+  quantity: "",
+  location: "",
+  toLocation: "",
+  unitCost: "",
+  offsetAccountCode: "",
+  reference: "",
+  memo: "",
+});
 
 export default function InventoryPage() {
   const router = useRouter();
+  const { toast } = useToast();
+  const [items, setItems] = useState<InventoryItemSummary[]>([]);
+  const [totals, setTotals] = useState<InventoryTotals | null>(null);
+  const [movements, setMovements] = useState<StockMovementSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionId, setActionId] = useState<string | null>(null);
+  const [historyItemId, setHistoryItemId] = useState<string | null>(null);
+  const [movementItem, setMovementItem] =
+    useState<InventoryItemSummary | null>(null);
+  const [movementForm, setMovementForm] =
+    useState<MovementFormState>(createMovementForm);
+  const [isRecording, setIsRecording] = useState(false);
+
+  const currencyFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat("id-ID", {
+        style: "currency",
+        currency: "IDR",
+        maximumFractionDigits: 0,
+      }),
+    []
+  );
+
+  const formatCurrency = (value?: number) =>
+    currencyFormatter.format(value ?? 0);
+
+  const formatQuantity = (value: number) =>
+    value.toLocaleString("id-ID", { maximumFractionDigits: 4 });
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString("en-US", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [itemsResponse, movementsResponse] = await Promise.all([
+        fetch("/api/inventory/items", {
+          cache: "no-store",
+          credentials: "include",
+        }),
+        fetch("/api/inventory/movements", {
+          cache: "no-store",
+          credentials: "include",
+        }),
+      ]);
+
+      if (itemsResponse.status === 401 || movementsResponse.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const itemsPayload = (await itemsResponse.json().catch(() => null)) as {
+        items?: InventoryItemSummary[];
+        totals?: InventoryTotals;
+        error?: string;
+      } | null;
+      const movementsPayload = (await movementsResponse
+        .json()
+        .catch(() => null)) as {
+        movements?: StockMovementSummary[];
+      } | null;
+
+      if (!itemsResponse.ok || !itemsPayload?.items) {
+        throw new Error(
+          itemsPayload?.error ?? "Failed to load inventory items."
+        );
+      }
+
+      setItems(itemsPayload.items);
+      setTotals(itemsPayload.totals ?? null);
+      setMovements(movementsPayload?.movements ?? []);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load inventory items."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [redirectToLogin]);
+
+  useEffect(() => {
+    void loadData();
+  }, [loadData]);
+
+  const handleDeleteItem = async (item: InventoryItemSummary) => {
+    if (!window.confirm(`Delete ${item.sku} - ${item.name}?`)) {
+      return;
+    }
+
+    setActionId(item.id);
+    try {
+      const response = await fetch(
+        `/api/inventory/items/${encodeURIComponent(item.id)}`,
+        { method: "DELETE", credentials: "include" }
+      );
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to delete item.");
+      }
+
+      toast({ title: "Item deleted", description: item.sku });
+      await loadData();
+    } catch (err) {
+      toast({
+        title: "Delete failed",
+        description:
+          err instanceof Error ? err.message : "Failed to delete item.",
+        variant: "destructive",
+      });
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const openMovementDialog = (item: InventoryItemSummary) => {
+    setMovementItem(item);
+    setMovementForm({
+      ...createMovementForm(),
+      location: item.locations[0]?.location ?? "",
+      unitCost: item.averageCost ? String(item.averageCost) : "",
+    });
+  };
+
+  const updateMovementForm = (changes: Partial<MovementFormState>) =>
+    setMovementForm((prev) => ({ ...prev, ...changes }));
+
+  const handleRecordMovement = async (
+    e: React.FormEvent<HTMLFormElement>
+  ) => {
+    e.preventDefault();
+    if (!movementItem) {
+      return;
+    }
+
+    setIsRecording(true);
+    try {
+      const takesCost =
+        movementForm.type === "receipt" || movementForm.type === "adjustment";
+      const response = await fetch("/api/inventory/movements", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          itemId: movementItem.id,
+          type: movementForm.type,
+          date: movementForm.date,
+          quantity: Number(movementForm.quantity),
+          location: movementForm.location,
+          toLocation:
+            movementForm.type === "transfer" ? movementForm.toLocation : null,
+          unitCost: takesCost ? movementForm.unitCost : null,
+          offsetAccountCode:
+            movementForm.type === "transfer"
+              ? null
+              : movementForm.offsetAccountCode,
+          reference: movementForm.reference,
+          memo: movementForm.memo,
+        }),
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to record stock movement.");
+      }
 
-  const handleNewItem = () => {
-    router.push("/inventory/new");
+      toast({
+        title: "Stock movement recorded",
+        description: `${MOVEMENT_LABELS[movementForm.type]} - ${
+          movementItem.sku
+        }`,
+      });
+      setMovementItem(null);
+      await loadData();
+    } catch (err) {
+      toast({
+        title: "Movement failed",
+        description:
+          err instanceof Error
+            ? err.message
+            : "Failed to record stock movement.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRecording(false);
+    }
   };
 
+  const renderStat = (title: string, value: string, note?: string) => (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-gray-500">
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading && !totals ? (
+          <Skeleton className="h-8 w-32" />
+        ) : (
+          <div className="text-2xl font-bold">{value}</div>
+        )}
+        {note ? <p className="text-xs text-muted-foreground">{note}</p> : null}
+      </CardContent>
+    </Card>
+  );
+
+  const historyItem = items.find((item) => item.id === historyItemId);
+  const visibleMovements = historyItemId
+    ? movements.filter((movement) => movement.itemId === historyItemId)
+    : movements.slice(0, 50);
+
   return (
     <SidebarProvider>
       <div className="flex min-h-screen bg-gray-50">
@@ -29,61 +362,29 @@ export default function InventoryPage() {
 
         <div className="flex-1 overflow-auto">
           <PageHeader title="Inventory">
-            <Button onClick={handleNewItem}>
+            <Button onClick={() => router.push("/inventory/new")}>
               <Plus className="mr-2 h-4 w-4" /> Add Item
             </Button>
           </PageHeader>
 
           <main className="p-6">
+            {error && <p className="mb-4 text-sm text-destructive">{error}</p>}
+
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium text-gray-500">
-                    Total Items
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold text-muted-foreground">
-                    --
-                  </div>
-                </CardContent>
-              </Card>
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium text-gray-500">
-                    Low Stock Items
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold text-muted-foreground">
-                    --
-                  </div>
-                </CardContent>
-              </Card>
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium text-gray-500">
-                    Out of Stock Items
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold text-muted-foreground">
-                    --
-                  </div>
-                </CardContent>
-              </Card>
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium text-gray-500">
-                    Inventory Value
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold text-muted-foreground">
-                    --
-                  </div>
-                </CardContent>
-              </Card>
+              {renderStat("Total Items", String(totals?.totalItems ?? 0))}
+              {renderStat(
+                "Low Stock Items",
+                String(totals?.lowStock ?? 0),
+                "At or below their reorder level"
+              )}
+              {renderStat(
+                "Out of Stock Items",
+                String(totals?.outOfStock ?? 0)
+              )}
+              {renderStat(
+                "Inventory Value",
+                formatCurrency(totals?.inventoryValue)
+              )}
             </div>
 
             <Card className="mt-6">
@@ -102,23 +403,202 @@ export default function InventoryPage() {
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Item Code</TableHead>
+                      <TableHead>SKU</TableHead>
                       <TableHead>Name</TableHead>
-                      <TableHead>Category</TableHead>
-                      <TableHead>Stock Level</TableHead>
-                      <TableHead>Unit Price</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">On Hand</TableHead>
+                      <TableHead className="text-right">
+                        Reorder Level
+                      </TableHead>
+                      <TableHead className="text-right">Avg. Cost</TableHead>
+                      <TableHead className="text-right">Value</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
+                    {loading && !items.length ? (
+                      <TableRow>
+                        <TableCell
+                          colSpan={8}
+                          className="text-center text-muted-foreground"
+                        >
+                          Loading inventory items...
+                        </TableCell>
+                      </TableRow>
+                    ) : items.length ? (
+                      items.map((item) => (
+                        <TableRow key={item.id}>
+                          <TableCell className="font-medium">
+                            {item.sku}
+                          </TableCell>
+                          <TableCell>
+                            <div>{item.name}</div>
+                            {item.locations.length > 1 ? (
+                              <div className="text-xs text-muted-foreground">
+                                {item.locations
+                                  .map(
+                                    (entry) =>
+                                      `${entry.location}: ${formatQuantity(
+                                        entry.quantity
+                                      )}`
+                                  )
+                                  .join(", ")}
+                              </div>
+                            ) : null}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={STATUS_BADGES[item.status].variant}>
+                              {STATUS_BADGES[item.status].label}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatQuantity(item.quantityOnHand)} {item.unit}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatQuantity(item.reorderLevel)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(item.averageCost)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(item.value)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  disabled={actionId === item.id}
+                                >
+                                  {actionId === item.id ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <MoreVertical className="h-4 w-4" />
+                                  )}
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem
+                                  onClick={() => openMovementDialog(item)}
+                                >
+                                  <ArrowLeftRight className="mr-2 h-4 w-4" />
+                                  Record Movement
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => setHistoryItemId(item.id)}
+                                >
+                                  <History className="mr-2 h-4 w-4" /> Stock
+                                  Ledger
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  className="text-destructive focus:text-destructive"
+                                  onClick={() => handleDeleteItem(item)}
+                                >
+                                  <Trash2 className="mr-2 h-4 w-4" /> Delete
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell
+                          colSpan={8}
+                          className="text-center text-muted-foreground"
+                        >
+                          No inventory items to display.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card className="mt-6">
+              <CardHeader className="flex flex-row items-center">
+                <CardTitle>
+                  Stock Ledger
+                  {historyItem
+                    ? ` - ${historyItem.sku} ${historyItem.name}`
+                    : ""}
+                </CardTitle>
+                {historyItemId ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="ml-auto"
+                    onClick={() => setHistoryItemId(null)}
+                  >
+                    Show All Items
+                  </Button>
+                ) : null}
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
                     <TableRow>
-                      <TableCell
-                        colSpan={6}
-                        className="text-center text-muted-foreground"
-                      >
-                        No inventory items to display.
-                      </TableCell>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Reference</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead className="text-right">Unit Cost</TableHead>
+                      <TableHead className="text-right">Value</TableHead>
                     </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleMovements.length ? (
+                      visibleMovements.map((movement) => (
+                        <TableRow key={movement.id}>
+                          <TableCell>{formatDate(movement.date)}</TableCell>
+                          <TableCell className="font-medium">
+                            {movement.sku}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline">
+                              {MOVEMENT_LABELS[movement.type]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            {movement.toLocation
+                              ? `${movement.location} → ${movement.toLocation}`
+                              : movement.location}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {movement.reference ?? movement.memo ?? "-"}
+                          </TableCell>
+                          <TableCell
+                            className={
+                              movement.quantity < 0
+                                ? "text-right text-red-600"
+                                : "text-right"
+                            }
+                          >
+                            {formatQuantity(movement.quantity)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(movement.unitCost)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(movement.value)}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell
+                          colSpan={8}
+                          className="text-center text-muted-foreground"
+                        >
+                          No stock movements recorded.
+                        </TableCell>
+                      </TableRow>
+                    )}
                   </TableBody>
                 </Table>
               </CardContent>
@@ -126,6 +606,186 @@ export default function InventoryPage() {
           </main>
         </div>
       </div>
+
+      <Dialog
+        open={Boolean(movementItem)}
+        onOpenChange={(open) => {
+          if (!open) {
+            setMovementItem(null);
+          }
+        }}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              Record Movement
+              {movementItem ? ` - ${movementItem.sku}` : ""}
+            </DialogTitle>
+          </DialogHeader>
+          <form className="space-y-4" onSubmit={handleRecordMovement}>
+            <p className="text-sm text-muted-foreground">
+              On hand:{" "}
+              {formatQuantity(movementItem?.quantityOnHand ?? 0)}{" "}
+              {movementItem?.unit}
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="movement-type">Type</Label>
+                <Select
+                  value={movementForm.type}
+                  onValueChange={(value) =>
+                    updateMovementForm({ type: value as MovementType })
+                  }
+                >
+                  <SelectTrigger id="movement-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(MOVEMENT_LABELS) as MovementType[]).map(
+                      (type) => (
+                        <SelectItem key={type} value={type}>
+                          {MOVEMENT_LABELS[type]}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="movement-date">Date</Label>
+                <Input
+                  id="movement-date"
+                  type="date"
+                  value={movementForm.date}
+                  onChange={(event) =>
+                    updateMovementForm({ date: event.target.value })
+                  }
+                  required
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="movement-quantity">Quantity</Label>
+                <Input
+                  id="movement-quantity"
+                  type="number"
+                  step="any"
+                  min={movementForm.type === "adjustment" ? undefined : "0"}
+                  value={movementForm.quantity}
+                  onChange={(event) =>
+                    updateMovementForm({ quantity: event.target.value })
+                  }
+                  required
+                />
+                {movementForm.type === "adjustment" ? (
+                  <p className="text-xs text-muted-foreground">
+                    Use a negative quantity to write stock off.
+                  </p>
+                ) : null}
+              </div>
+              {movementForm.type === "receipt" ||
+              movementForm.type === "adjustment" ? (
+                <div className="space-y-2">
+                  <Label htmlFor="movement-unit-cost">Unit Cost</Label>
+                  <Input
+                    id="movement-unit-cost"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={movementForm.unitCost}
+                    onChange={(event) =>
+                      updateMovementForm({ unitCost: event.target.value })
+                    }
+                    required={movementForm.type === "receipt"}
+                  />
+                </div>
+              ) : null}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="movement-location">
+                  {movementForm.type === "transfer" ? "From" : "Location"}
+                </Label>
+                <Input
+                  id="movement-location"
+                  value={movementForm.location}
+                  onChange={(event) =>
+                    updateMovementForm({ location: event.target.value })
+                  }
+                  placeholder="Main"
+                />
+              </div>
+              {movementForm.type === "transfer" ? (
+                <div className="space-y-2">
+                  <Label htmlFor="movement-to-location">To</Label>
+                  <Input
+                    id="movement-to-location"
+                    value={movementForm.toLocation}
+                    onChange={(event) =>
+                      updateMovementForm({ toLocation: event.target.value })
+                    }
+                    required
+                  />
+                </div>
+              ) : null}
+            </div>
+            {movementForm.type !== "transfer" ? (
+              <div className="space-y-2">
+                <Label htmlFor="movement-offset-account">Offset Account</Label>
+                <Input
+                  id="movement-offset-account"
+                  value={movementForm.offsetAccountCode}
+                  onChange={(event) =>
+                    updateMovementForm({
+                      offsetAccountCode: event.target.value,
+                    })
+                  }
+                  placeholder={DEFAULT_OFFSET_HINTS[movementForm.type]}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Account code posted against inventory (1200).
+                </p>
+              </div>
+            ) : null}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="movement-reference">Reference</Label>
+                <Input
+                  id="movement-reference"
+                  value={movementForm.reference}
+                  onChange={(event) =>
+                    updateMovementForm({ reference: event.target.value })
+                  }
+                  placeholder="DO-0012"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="movement-memo">Memo</Label>
+                <Input
+                  id="movement-memo"
+                  value={movementForm.memo}
+                  onChange={(event) =>
+                    updateMovementForm({ memo: event.target.value })
+                  }
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setMovementItem(null)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isRecording}>
+                {isRecording ? "Saving..." : "Record Movement"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
     </SidebarProvider>
   );
 }
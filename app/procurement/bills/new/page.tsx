@@ -0,0 +1,632 @@
+"use client";
+
+import type React from "react";
+
+import { Suspense, useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Loader2, Plus, Trash2, UserPlus } from "lucide-react";
+
+import { SidebarProvider } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/app-sidebar";
+import { NewVendorDialog } from "@/components/new-vendor-dialog";
+import { PageHeader } from "@/components/page-header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type { AccountSummary } from "@/lib/accounts";
+import { ACCOUNT_CODES } from "@/lib/chart-of-accounts";
+import type {
+  PurchaseOrderSummary,
+  VendorSummary,
+} from "@/lib/procurement";
+
+type LineState = {
+  id: number;
+  description: string;
+  accountCode: string;
+  quantity: string;
+  unitPrice: string;
+  purchaseOrderLineId?: string;
+};
+
+let nextLineId = 0;
+
+const createLine = (): LineState => ({
+  id: nextLineId++,
+  description: "",
+  accountCode: ACCOUNT_CODES.OPERATING_EXPENSE,
+  quantity: "1",
+  unitPrice: "",
+});
+
+const lineAmount = (line: LineState) =>
+  (Number(line.quantity) || 0) * (Number(line.unitPrice) || 0);
+
+const addDays = (calendarDate: string, days: number) => {
+  const date = new Date(`${calendarDate}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return date.toLocaleDateString("en-CA");
+};
+
+// Received but not yet billed, which is what the three-way match allows
+const toMatchedLines = (order: PurchaseOrderSummary): LineState[] =>
+  order.lines
+    .filter((line) => line.quantityReceived > line.quantityBilled)
+    .map((line) => ({
+      id: nextLineId++,
+      description: line.description,
+      accountCode: ACCOUNT_CODES.GOODS_RECEIVED_NOT_INVOICED,
+      quantity: String(line.quantityReceived - line.quantityBilled),
+      unitPrice: String(line.unitPrice),
+      purchaseOrderLineId: line.id,
+    }));
+
+function NewBillContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const purchaseOrderId = searchParams.get("purchaseOrder");
+  const { toast } = useToast();
+  const [vendors, setVendors] = useState<VendorSummary[]>([]);
+  const [purchaseOrder, setPurchaseOrder] =
+    useState<PurchaseOrderSummary | null>(null);
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [vendorId, setVendorId] = useState("");
+  const [vendorReference, setVendorReference] = useState("");
+  const [billDate, setBillDate] = useState(() =>
+    new Date().toLocaleDateString("en-CA")
+  );
+  const [dueDate, setDueDate] = useState(() =>
+    addDays(new Date().toLocaleDateString("en-CA"), 30)
+  );
+  const [memo, setMemo] = useState("");
+  const [lines, setLines] = useState<LineState[]>(() => [createLine()]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [vendorDialogOpen, setVendorDialogOpen] = useState(false);
+
+  const currencyFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat("id-ID", {
+        style: "currency",
+        currency: "IDR",
+        maximumFractionDigits: 0,
+      }),
+    []
+  );
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const [vendorsResponse, accountsResponse, ordersResponse] =
+          await Promise.all([
+            fetch("/api/procurement/vendors", {
+              cache: "no-store",
+              credentials: "include",
+            }),
+            fetch("/api/accounts", {
+              cache: "no-store",
+              credentials: "include",
+            }),
+            purchaseOrderId
+              ? fetch("/api/procurement/purchase-orders", {
+                  cache: "no-store",
+                  credentials: "include",
+                })
+              : null,
+          ]);
+        if (
+          vendorsResponse.status === 401 ||
+          accountsResponse.status === 401 ||
+          ordersResponse?.status === 401
+        ) {
+          await redirectToLogin();
+          return;
+        }
+        const vendorsPayload = (await vendorsResponse
+          .json()
+          .catch(() => null)) as { vendors?: VendorSummary[] } | null;
+        const accountsPayload = (await accountsResponse
+          .json()
+          .catch(() => null)) as { accounts?: AccountSummary[] } | null;
+        setVendors(vendorsPayload?.vendors ?? []);
+        setAccounts(accountsPayload?.accounts ?? []);
+
+        if (ordersResponse) {
+          const ordersPayload = (await ordersResponse
+            .json()
+            .catch(() => null)) as {
+            purchaseOrders?: PurchaseOrderSummary[];
+          } | null;
+          const order = ordersPayload?.purchaseOrders?.find(
+            (candidate) => candidate.id === purchaseOrderId
+          );
+          if (order) {
+            const vendor = vendorsPayload?.vendors?.find(
+              (candidate) => candidate.id === order.vendorId
+            );
+            setPurchaseOrder(order);
+            setVendorId(order.vendorId);
+            setMemo(`Purchase order ${order.number}`);
+            setLines(toMatchedLines(order));
+            if (vendor) {
+              setDueDate(
+                addDays(
+                  new Date().toLocaleDateString("en-CA"),
+                  vendor.paymentTermDays
+                )
+              );
+            }
+          }
+        }
+      } catch (error) {
+        console.error(error);
+      }
+    };
+    void loadOptions();
+  }, [purchaseOrderId, redirectToLogin]);
+
+  // Purchases are charged to expenses or to non-cash assets like inventory
+  const chargeableAccounts = accounts.filter(
+    (account) =>
+      account.isActive &&
+      !account.isCash &&
+      (account.type === "expense" || account.type === "asset")
+  );
+
+  const total = lines.reduce((sum, line) => sum + lineAmount(line), 0);
+
+  const validationError = useMemo(() => {
+    if (!vendorId) {
+      return "Select a vendor.";
+    }
+    if (!lines.length) {
+      return "Everything received on this order has been billed.";
+    }
+    if (lines.some((line) => !line.description.trim())) {
+      return "Every line needs a description.";
+    }
+    if (lines.some((line) => !line.accountCode)) {
+      return "Select an account for every line.";
+    }
+    if (lines.some((line) => !(Number(line.quantity) > 0))) {
+      return "Line quantities must be greater than zero.";
+    }
+    if (dueDate < billDate) {
+      return "The due date cannot be before the bill date.";
+    }
+    if (total <= 0) {
+      return "Bill total must be greater than zero.";
+    }
+    return null;
+  }, [billDate, dueDate, lines, total, vendorId]);
+
+  const updateLine = (id: number, patch: Partial<LineState>) => {
+    setLines((prev) =>
+      prev.map((line) => (line.id === id ? { ...line, ...patch } : line))
+    );
+  };
+
+  const removeLine = (id: number) => {
+    setLines((prev) =>
+      prev.length > 1 ? prev.filter((line) => line.id !== id) : prev
+    );
+  };
+
+  const applyPaymentTerms = (nextVendorId: string, nextBillDate: string) => {
+    const vendor = vendors.find((item) => item.id === nextVendorId);
+    if (vendor && nextBillDate) {
+      setDueDate(addDays(nextBillDate, vendor.paymentTermDays));
+    }
+  };
+
+  const handleVendorChange = (value: string) => {
+    setVendorId(value);
+    applyPaymentTerms(value, billDate);
+  };
+
+  const handleBillDateChange = (value: string) => {
+    setBillDate(value);
+    applyPaymentTerms(vendorId, value);
+  };
+
+  const handleVendorCreated = (vendor: VendorSummary) => {
+    setVendors((prev) =>
+      [...prev, vendor].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    setVendorId(vendor.id);
+    if (billDate) {
+      setDueDate(addDays(billDate, vendor.paymentTermDays));
+    }
+  };
+
+  const submitBill = async (approve: boolean) => {
+    if (validationError) {
+      toast({
+        title: "Bill is incomplete",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/procurement/bills", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          vendorId,
+          purchaseOrderId: purchaseOrder?.id ?? null,
+          vendorReference,
+          billDate,
+          dueDate,
+          memo,
+          approve,
+          lines: lines.map((line) => ({
+            description: line.description,
+            accountCode: line.accountCode,
+            quantity: Number(line.quantity),
+            unitPrice: Number(line.unitPrice) || 0,
+            purchaseOrderLineId: line.purchaseOrderLineId ?? null,
+          })),
+        }),
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        message?: string;
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to save bill.");
+      }
+
+      toast({
+        title: payload?.message ?? "Bill saved.",
+        description: approve
+          ? "The payable has been posted to the ledger."
+          : "Approve it from the procurement page when it is ready.",
+      });
+      router.push("/procurement");
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description:
+          error instanceof Error ? error.message : "Failed to save bill.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    void submitBill(true);
+  };
+
+  return (
+    <SidebarProvider>
+      <div className="flex min-h-screen bg-gray-50">
+        <AppSidebar activeMenu="procurement" />
+
+        <div className="flex-1 overflow-auto">
+          <PageHeader title="Procurement - New Bill" />
+
+          <main className="p-6">
+            <Card className="mx-auto max-w-5xl">
+              <CardHeader>
+                <CardTitle>New Vendor Bill</CardTitle>
+                {purchaseOrder ? (
+                  <p className="text-sm text-muted-foreground">
+                    Billing goods received on {purchaseOrder.number}. Approval
+                    checks quantities and prices against the order and its
+                    receipts.
+                  </p>
+                ) : null}
+              </CardHeader>
+              <CardContent>
+                <form className="space-y-6" onSubmit={handleSubmit}>
+                  <div className="grid gap-4 md:grid-cols-4">
+                    <div className="space-y-2 md:col-span-2">
+                      <Label htmlFor="bill-vendor">Vendor</Label>
+                      <div className="flex gap-2">
+                        <Select
+                          value={vendorId}
+                          onValueChange={handleVendorChange}
+                          disabled={Boolean(purchaseOrder)}
+                        >
+                          <SelectTrigger id="bill-vendor">
+                            <SelectValue placeholder="Select vendor" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {vendors.map((vendor) => (
+                              <SelectItem key={vendor.id} value={vendor.id}>
+                                {vendor.name} (Net {vendor.paymentTermDays})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setVendorDialogOpen(true)}
+                          disabled={Boolean(purchaseOrder)}
+                          title="New vendor"
+                        >
+                          <UserPlus className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="bill-date">Bill Date</Label>
+                      <Input
+                        id="bill-date"
+                        type="date"
+                        value={billDate}
+                        onChange={(event) =>
+                          handleBillDateChange(event.target.value)
+                        }
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="bill-due-date">Due Date</Label>
+                      <Input
+                        id="bill-due-date"
+                        type="date"
+                        value={dueDate}
+                        onChange={(event) => setDueDate(event.target.value)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="bill-reference">Vendor Invoice No.</Label>
+                      <Input
+                        id="bill-reference"
+                        value={vendorReference}
+                        onChange={(event) =>
+                          setVendorReference(event.target.value)
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2 md:col-span-3">
+                      <Label htmlFor="bill-memo">Memo</Label>
+                      <Input
+                        id="bill-memo"
+                        value={memo}
+                        onChange={(event) => setMemo(event.target.value)}
+                        placeholder="Office supplies March 2025"
+                      />
+                    </div>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Description</TableHead>
+                        <TableHead className="w-[240px]">Account</TableHead>
+                        <TableHead className="w-[100px] text-right">
+                          Quantity
+                        </TableHead>
+                        <TableHead className="w-[160px] text-right">
+                          Unit Price
+                        </TableHead>
+                        <TableHead className="w-[160px] text-right">
+                          Amount
+                        </TableHead>
+                        <TableHead className="w-[48px]" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lines.map((line) => (
+                        <TableRow key={line.id}>
+                          <TableCell>
+                            <Input
+                              value={line.description}
+                              onChange={(event) =>
+                                updateLine(line.id, {
+                                  description: event.target.value,
+                                })
+                              }
+                            />
+                          </TableCell>
+                          <TableCell>
+                            {line.purchaseOrderLineId ? (
+                              <span className="text-sm text-muted-foreground">
+                                {line.accountCode} - Goods Received Not
+                                Invoiced
+                              </span>
+                            ) : (
+                              <Select
+                                value={line.accountCode}
+                                onValueChange={(value) =>
+                                  updateLine(line.id, { accountCode: value })
+                                }
+                              >
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select account" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {chargeableAccounts.map((account) => (
+                                    <SelectItem
+                                      key={account.code}
+                                      value={account.code}
+                                    >
+                                      {account.code} - {account.name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="any"
+                              className="text-right"
+                              value={line.quantity}
+                              onChange={(event) =>
+                                updateLine(line.id, {
+                                  quantity: event.target.value,
+                                })
+                              }
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="any"
+                              className="text-right"
+                              value={line.unitPrice}
+                              onChange={(event) =>
+                                updateLine(line.id, {
+                                  unitPrice: event.target.value,
+                                })
+                              }
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {currencyFormatter.format(lineAmount(line))}
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-gray-500 hover:text-red-600"
+                              onClick={() => removeLine(line.id)}
+                              disabled={lines.length <= 1}
+                              title="Remove line"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                    <TableFooter>
+                      <TableRow>
+                        <TableCell colSpan={4} className="font-semibold">
+                          Total
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">
+                          {currencyFormatter.format(total)}
+                        </TableCell>
+                        <TableCell />
+                      </TableRow>
+                    </TableFooter>
+                  </Table>
+
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() =>
+                        setLines((prev) => [...prev, createLine()])
+                      }
+                      disabled={Boolean(purchaseOrder)}
+                    >
+                      <Plus className="mr-2 h-4 w-4" /> Add Line
+                    </Button>
+                    {validationError ? (
+                      <p className="text-sm text-destructive">
+                        {validationError}
+                      </p>
+                    ) : null}
+                  </div>
+
+                  <div className="flex gap-4">
+                    <Button
+                      type="submit"
+                      className="flex-1"
+                      disabled={isSubmitting || Boolean(validationError)}
+                    >
+                      {isSubmitting ? "Saving..." : "Approve Bill"}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      className="flex-1"
+                      disabled={isSubmitting || Boolean(validationError)}
+                      onClick={() => void submitBill(false)}
+                    >
+                      Save as Draft
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => router.push("/procurement")}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          </main>
+        </div>
+      </div>
+
+      <NewVendorDialog
+        open={vendorDialogOpen}
+        onOpenChange={setVendorDialogOpen}
+        onCreated={handleVendorCreated}
+        onUnauthorized={redirectToLogin}
+      />
+    </SidebarProvider>
+  );
+}
+
+export default function NewBillPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen items-center justify-center bg-gray-50">
+          <Loader2 className="h-8 w-8 animate-spin text-slate-600" />
+        </div>
+      }
+    >
+      <NewBillContent />
+    </Suspense>
+  );
+}
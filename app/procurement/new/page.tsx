@@ -0,0 +1,501 @@
+"use client";
+
+import type React from "react";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Plus, Trash2, UserPlus } from "lucide-react";
+
+import { SidebarProvider } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/app-sidebar";
+import { NewVendorDialog } from "@/components/new-vendor-dialog";
+import { PageHeader } from "@/components/page-header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type { InventoryItemSummary } from "@/lib/inventory";
+import type { VendorSummary } from "@/lib/procurement";
+
+type LineState = {
+  id: number;
+  itemId: string;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+};
+
+let nextLineId = 0;
+
+const createLine = (): LineState => ({
+  id: nextLineId++,
+  itemId: "",
+  description: "",
+  quantity: "1",
+  unitPrice: "",
+});
+
+const lineAmount = (line: LineState) =>
+  (Number(line.quantity) || 0) * (Number(line.unitPrice) || 0);
+
+const addDays = (calendarDate: string, days: number) => {
+  const date = new Date(`${calendarDate}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return date.toLocaleDateString("en-CA");
+};
+
+export default function NewPurchaseOrderPage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [vendors, setVendors] = useState<VendorSummary[]>([]);
+  const [items, setItems] = useState<InventoryItemSummary[]>([]);
+  const [vendorId, setVendorId] = useState("");
+  const [orderDate, setOrderDate] = useState(() =>
+    new Date().toLocaleDateString("en-CA")
+  );
+  const [expectedDate, setExpectedDate] = useState(() =>
+    addDays(new Date().toLocaleDateString("en-CA"), 7)
+  );
+  const [memo, setMemo] = useState("");
+  const [lines, setLines] = useState<LineState[]>(() => [createLine()]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [vendorDialogOpen, setVendorDialogOpen] = useState(false);
+
+  const currencyFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat("id-ID", {
+        style: "currency",
+        currency: "IDR",
+        maximumFractionDigits: 0,
+      }),
+    []
+  );
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const [vendorsResponse, itemsResponse] = await Promise.all([
+          fetch("/api/procurement/vendors", {
+            cache: "no-store",
+            credentials: "include",
+          }),
+          fetch("/api/inventory/items", {
+            cache: "no-store",
+            credentials: "include",
+          }),
+        ]);
+        if (vendorsResponse.status === 401 || itemsResponse.status === 401) {
+          await redirectToLogin();
+          return;
+        }
+        const vendorsPayload = (await vendorsResponse
+          .json()
+          .catch(() => null)) as { vendors?: VendorSummary[] } | null;
+        const itemsPayload = (await itemsResponse
+          .json()
+          .catch(() => null)) as { items?: InventoryItemSummary[] } | null;
+        setVendors(vendorsPayload?.vendors ?? []);
+        setItems(itemsPayload?.items ?? []);
+      } catch (error) {
+        console.error(error);
+      }
+    };
+    void loadOptions();
+  }, [redirectToLogin]);
+
+  const total = lines.reduce((sum, line) => sum + lineAmount(line), 0);
+
+  const validationError = useMemo(() => {
+    if (!vendorId) {
+      return "Select a vendor.";
+    }
+    if (lines.some((line) => !line.itemId)) {
+      return "Select an item for every line.";
+    }
+    if (lines.some((line) => !(Number(line.quantity) > 0))) {
+      return "Line quantities must be greater than zero.";
+    }
+    if (expectedDate < orderDate) {
+      return "The expected date cannot be before the order date.";
+    }
+    if (total <= 0) {
+      return "Order total must be greater than zero.";
+    }
+    return null;
+  }, [expectedDate, lines, orderDate, total, vendorId]);
+
+  const updateLine = (id: number, patch: Partial<LineState>) => {
+    setLines((prev) =>
+      prev.map((line) => (line.id === id ? { ...line, ...patch } : line))
+    );
+  };
+
+  const removeLine = (id: number) => {
+    setLines((prev) =>
+      prev.length > 1 ? prev.filter((line) => line.id !== id) : prev
+    );
+  };
+
+  // Suggest the item's current average cost as the price to order at
+  const handleItemChange = (line: LineState, itemId: string) => {
+    const item = items.find((candidate) => candidate.id === itemId);
+    updateLine(line.id, {
+      itemId,
+      description: item ? `${item.sku} - ${item.name}` : line.description,
+      unitPrice:
+        line.unitPrice || !item?.averageCost
+          ? line.unitPrice
+          : String(item.averageCost),
+    });
+  };
+
+  const handleVendorCreated = (vendor: VendorSummary) => {
+    setVendors((prev) =>
+      [...prev, vendor].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    setVendorId(vendor.id);
+  };
+
+  const submitOrder = async (approve: boolean) => {
+    if (validationError) {
+      toast({
+        title: "Purchase order is incomplete",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/procurement/purchase-orders", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          vendorId,
+          orderDate,
+          expectedDate,
+          memo,
+          approve,
+          lines: lines.map((line) => ({
+            itemId: line.itemId,
+            description: line.description,
+            quantity: Number(line.quantity),
+            unitPrice: Number(line.unitPrice) || 0,
+          })),
+        }),
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        message?: string;
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to save purchase order.");
+      }
+
+      toast({
+        title: payload?.message ?? "Purchase order saved.",
+        description: approve
+          ? "Record goods receipts from the procurement page as they arrive."
+          : "Approve it from the procurement page when it is ready.",
+      });
+      router.push("/procurement");
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to save purchase order.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    void submitOrder(true);
+  };
+
+  return (
+    <SidebarProvider>
+      <div className="flex min-h-screen bg-gray-50">
+        <AppSidebar activeMenu="procurement" />
+
+        <div className="flex-1 overflow-auto">
+          <PageHeader title="Procurement - New Purchase Order" />
+
+          <main className="p-6">
+            <Card className="mx-auto max-w-5xl">
+              <CardHeader>
+                <CardTitle>New Purchase Order</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form className="space-y-6" onSubmit={handleSubmit}>
+                  <div className="grid gap-4 md:grid-cols-4">
+                    <div className="space-y-2 md:col-span-2">
+                      <Label htmlFor="order-vendor">Vendor</Label>
+                      <div className="flex gap-2">
+                        <Select value={vendorId} onValueChange={setVendorId}>
+                          <SelectTrigger id="order-vendor">
+                            <SelectValue placeholder="Select vendor" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {vendors.map((vendor) => (
+                              <SelectItem key={vendor.id} value={vendor.id}>
+                                {vendor.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setVendorDialogOpen(true)}
+                          title="New vendor"
+                        >
+                          <UserPlus className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="order-date">Order Date</Label>
+                      <Input
+                        id="order-date"
+                        type="date"
+                        value={orderDate}
+                        onChange={(event) => setOrderDate(event.target.value)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="order-expected-date">Expected Date</Label>
+                      <Input
+                        id="order-expected-date"
+                        type="date"
+                        value={expectedDate}
+                        onChange={(event) =>
+                          setExpectedDate(event.target.value)
+                        }
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2 md:col-span-4">
+                      <Label htmlFor="order-memo">Memo</Label>
+                      <Input
+                        id="order-memo"
+                        value={memo}
+                        onChange={(event) => setMemo(event.target.value)}
+                        placeholder="Restock for April"
+                      />
+                    </div>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[240px]">Item</TableHead>
+                        <TableHead>Description</TableHead>
+                        <TableHead className="w-[100px] text-right">
+                          Quantity
+                        </TableHead>
+                        <TableHead className="w-[160px] text-right">
+                          Unit Price
+                        </TableHead>
+                        <TableHead className="w-[160px] text-right">
+                          Amount
+                        </TableHead>
+                        <TableHead className="w-[48px]" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lines.map((line) => (
+                        <TableRow key={line.id}>
+                          <TableCell>
+                            <Select
+                              value={line.itemId}
+                              onValueChange={(value) =>
+                                handleItemChange(line, value)
+                              }
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select item" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {items.map((item) => (
+                                  <SelectItem key={item.id} value={item.id}>
+                                    {item.sku} - {item.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              value={line.description}
+                              onChange={(event) =>
+                                updateLine(line.id, {
+                                  description: event.target.value,
+                                })
+                              }
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="any"
+                              className="text-right"
+                              value={line.quantity}
+                              onChange={(event) =>
+                                updateLine(line.id, {
+                                  quantity: event.target.value,
+                                })
+                              }
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="any"
+                              className="text-right"
+                              value={line.unitPrice}
+                              onChange={(event) =>
+                                updateLine(line.id, {
+                                  unitPrice: event.target.value,
+                                })
+                              }
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {currencyFormatter.format(lineAmount(line))}
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-gray-500 hover:text-red-600"
+                              onClick={() => removeLine(line.id)}
+                              disabled={lines.length <= 1}
+                              title="Remove line"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                    <TableFooter>
+                      <TableRow>
+                        <TableCell colSpan={4} className="font-semibold">
+                          Total
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">
+                          {currencyFormatter.format(total)}
+                        </TableCell>
+                        <TableCell />
+                      </TableRow>
+                    </TableFooter>
+                  </Table>
+
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() =>
+                        setLines((prev) => [...prev, createLine()])
+                      }
+                    >
+                      <Plus className="mr-2 h-4 w-4" /> Add Line
+                    </Button>
+                    {validationError ? (
+                      <p className="text-sm text-destructive">
+                        {validationError}
+                      </p>
+                    ) : null}
+                  </div>
+
+                  <div className="flex gap-4">
+                    <Button
+                      type="submit"
+                      className="flex-1"
+                      disabled={isSubmitting || Boolean(validationError)}
+                    >
+                      {isSubmitting ? "Saving..." : "Approve Order"}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      className="flex-1"
+                      disabled={isSubmitting || Boolean(validationError)}
+                      onClick={() => void submitOrder(false)}
+                    >
+                      Save as Draft
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => router.push("/procurement")}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          </main>
+        </div>
+      </div>
+
+      <NewVendorDialog
+        open={vendorDialogOpen}
+        onOpenChange={setVendorDialogOpen}
+        onCreated={handleVendorCreated}
+        onUnauthorized={redirectToLogin}
+      />
+    </SidebarProvider>
+  );
+}
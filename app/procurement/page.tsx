@@ -1,9 +1,51 @@
 "use client";
+
+import type React from "react";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
+import {
+  Ban,
+  Banknote,
+  FileText,
+  Loader2,
+  Lock,
+  MoreVertical,
+  PackageCheck,
+  Plus,
+  Send,
+  Trash2,
+} from "lucide-react";
+
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
+import { PageHeader } from "@/components/page-header";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
 import {
   Table,
   TableBody,
@@ -12,16 +54,494 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Plus, FileText, Eye } from "lucide-react";
-import { PageHeader } from "@/components/page-header";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  VendorSummary,
+  BillStatus,
+  BillSummary,
+  BillTotals,
+  PurchaseOrderStatus,
+  PurchaseOrderSummary,
+} from "@/lib/procurement";
+import { calculateTax, type TaxCode } from "@/lib/tax-schema";
+
+type BillAction = "approve" | "void" | "delete";
+
+const NO_WITHHOLDING = "none";
+
+type PurchaseOrderAction = "approve" | "close" | "delete";
+
+const STATUS_BADGES: Record<
+  BillStatus,
+  {
+    label: string;
+    variant: "default" | "secondary" | "outline" | "destructive";
+  }
+> = {
+  draft: { label: "Draft", variant: "outline" },
+  open: { label: "Open", variant: "secondary" },
+  partially_paid: { label: "Partially Paid", variant: "secondary" },
+  paid: { label: "Paid", variant: "default" },
+  void: { label: "Void", variant: "outline" },
+};
+
+const ORDER_STATUS_BADGES: Record<
+  PurchaseOrderStatus,
+  {
+    label: string;
+    variant: "default" | "secondary" | "outline" | "destructive";
+  }
+> = {
+  draft: { label: "Draft", variant: "outline" },
+  approved: { label: "Approved", variant: "secondary" },
+  partially_received: { label: "Partially Received", variant: "secondary" },
+  received: { label: "Received", variant: "default" },
+  closed: { label: "Closed", variant: "outline" },
+};
+
+const ORDER_ACTION_CONFIRMATIONS: Record<PurchaseOrderAction, string> = {
+  approve: "Approve this purchase order? Goods can then be received on it.",
+  close: "Close this purchase order? No more goods can be received on it.",
+  delete: "Delete this draft purchase order?",
+};
+
+const ACTION_CONFIRMATIONS: Record<BillAction, string> = {
+  approve: "Approve this bill? Its total will be posted to payables.",
+  void: "Void this bill? Its payable and payments will be reversed.",
+  delete: "Delete this draft bill?",
+};
 
 export default function ProcurementPage() {
   const router = useRouter();
+  const { toast } = useToast();
+  const [bills, setBills] = useState<BillSummary[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<
+    PurchaseOrderSummary[]
+  >([]);
+  const [totals, setTotals] = useState<BillTotals | null>(null);
+  const [vendors, setVendors] = useState<VendorSummary[]>([]);
+  const [withholdingCodes, setWithholdingCodes] = useState<TaxCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionId, setActionId] = useState<string | null>(null);
+  const [payingBill, setPayingBill] = useState<BillSummary | null>(null);
+  const [paymentDate, setPaymentDate] = useState("");
+  const [paymentAmount, setPaymentAmount] = useState("");
+  const [paymentMemo, setPaymentMemo] = useState("");
+  const [paymentWithholding, setPaymentWithholding] = useState(NO_WITHHOLDING);
+  const [isRecording, setIsRecording] = useState(false);
+  const [receivingOrder, setReceivingOrder] =
+    useState<PurchaseOrderSummary | null>(null);
+  const [receiptDate, setReceiptDate] = useState("");
+  const [receiptReference, setReceiptReference] = useState("");
+  const [receiptQuantities, setReceiptQuantities] = useState<
+    Record<string, string>
+  >({});
+  const [isReceiving, setIsReceiving] = useState(false);
+
+  const currencyFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat("id-ID", {
+        style: "currency",
+        currency: "IDR",
+        maximumFractionDigits: 0,
+      }),
+    []
+  );
+
+  const formatCurrency = (value?: number) =>
+    currencyFormatter.format(value ?? 0);
+
+  const formatQuantity = (value: number) =>
+    value.toLocaleString("id-ID", { maximumFractionDigits: 4 });
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString("en-US", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [billsResponse, vendorsResponse, ordersResponse, taxResponse] =
+        await Promise.all([
+          fetch("/api/procurement/bills", {
+            cache: "no-store",
+            credentials: "include",
+          }),
+          fetch("/api/procurement/vendors", {
+            cache: "no-store",
+            credentials: "include",
+          }),
+          fetch("/api/procurement/purchase-orders", {
+            cache: "no-store",
+            credentials: "include",
+          }),
+          fetch("/api/tax-codes", {
+            cache: "no-store",
+            credentials: "include",
+          }),
+        ]);
+
+      if (
+        billsResponse.status === 401 ||
+        vendorsResponse.status === 401 ||
+        ordersResponse.status === 401 ||
+        taxResponse.status === 401
+      ) {
+        await redirectToLogin();
+        return;
+      }
+
+      const billsPayload = (await billsResponse.json().catch(() => null)) as {
+        bills?: BillSummary[];
+        totals?: BillTotals;
+        error?: string;
+      } | null;
+      const vendorsPayload = (await vendorsResponse
+        .json()
+        .catch(() => null)) as {
+        vendors?: VendorSummary[];
+      } | null;
+      const ordersPayload = (await ordersResponse.json().catch(() => null)) as {
+        purchaseOrders?: PurchaseOrderSummary[];
+      } | null;
+      const taxPayload = (await taxResponse.json().catch(() => null)) as {
+        taxCodes?: TaxCode[];
+      } | null;
+
+      if (!billsResponse.ok || !billsPayload?.bills) {
+        throw new Error(billsPayload?.error ?? "Failed to load bills.");
+      }
+
+      setBills(billsPayload.bills);
+      setTotals(billsPayload.totals ?? null);
+      setVendors(vendorsPayload?.vendors ?? []);
+      setPurchaseOrders(ordersPayload?.purchaseOrders ?? []);
+      setWithholdingCodes(
+        (taxPayload?.taxCodes ?? []).filter(
+          (taxCode) => taxCode.kind === "withholding" && taxCode.isActive
+        )
+      );
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to load bills.");
+    } finally {
+      setLoading(false);
+    }
+  }, [redirectToLogin]);
+
+  useEffect(() => {
+    void loadData();
+  }, [loadData]);
+
+  const runAction = async (bill: BillSummary, action: BillAction) => {
+    if (!window.confirm(ACTION_CONFIRMATIONS[action])) {
+      return;
+    }
+
+    setActionId(bill.id);
+    try {
+      const url = `/api/procurement/bills/${encodeURIComponent(bill.id)}`;
+      const response = await fetch(
+        url,
+        action === "delete"
+          ? { method: "DELETE", credentials: "include" }
+          : {
+              method: "POST",
+              credentials: "include",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ action }),
+            }
+      );
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
 
-  const handleNewPurchase = () => {
-    router.push("/procurement/new");
+      const payload = (await response.json().catch(() => null)) as {
+        message?: string;
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to update bill.");
+      }
+
+      toast({
+        title: payload?.message ?? "Bill updated.",
+        description: `Bill ${bill.number}`,
+      });
+      await loadData();
+    } catch (err) {
+      toast({
+        title: "Update failed",
+        description:
+          err instanceof Error ? err.message : "Failed to update bill.",
+        variant: "destructive",
+      });
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const runOrderAction = async (
+    order: PurchaseOrderSummary,
+    action: PurchaseOrderAction
+  ) => {
+    if (!window.confirm(ORDER_ACTION_CONFIRMATIONS[action])) {
+      return;
+    }
+
+    setActionId(order.id);
+    try {
+      const url = `/api/procurement/purchase-orders/${encodeURIComponent(
+        order.id
+      )}`;
+      const response = await fetch(
+        url,
+        action === "delete"
+          ? { method: "DELETE", credentials: "include" }
+          : {
+              method: "POST",
+              credentials: "include",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ action }),
+            }
+      );
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        message?: string;
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to update purchase order.");
+      }
+
+      toast({
+        title: payload?.message ?? "Purchase order updated.",
+        description: `Purchase order ${order.number}`,
+      });
+      await loadData();
+    } catch (err) {
+      toast({
+        title: "Update failed",
+        description:
+          err instanceof Error
+            ? err.message
+            : "Failed to update purchase order.",
+        variant: "destructive",
+      });
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const openReceiptDialog = (order: PurchaseOrderSummary) => {
+    setReceivingOrder(order);
+    setReceiptDate(new Date().toLocaleDateString("en-CA"));
+    setReceiptReference("");
+    setReceiptQuantities(
+      Object.fromEntries(
+        order.lines.map((line) => [
+          line.id,
+          String(Math.max(line.quantity - line.quantityReceived, 0)),
+        ])
+      )
+    );
+  };
+
+  const handleReceiveGoods = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!receivingOrder) {
+      return;
+    }
+
+    setIsReceiving(true);
+    try {
+      const response = await fetch(
+        `/api/procurement/purchase-orders/${encodeURIComponent(
+          receivingOrder.id
+        )}`,
+        {
+          method: "POST",
+          credentials: "include",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            action: "receive",
+            date: receiptDate,
+            reference: receiptReference,
+            lines: receivingOrder.lines.map((line) => ({
+              lineId: line.id,
+              quantity: Number(receiptQuantities[line.id]) || 0,
+            })),
+          }),
+        }
+      );
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to record goods receipt.");
+      }
+
+      toast({
+        title: "Goods received",
+        description: `Purchase order ${receivingOrder.number}`,
+      });
+      setReceivingOrder(null);
+      await loadData();
+    } catch (err) {
+      toast({
+        title: "Receipt failed",
+        description:
+          err instanceof Error
+            ? err.message
+            : "Failed to record goods receipt.",
+        variant: "destructive",
+      });
+      // Lines taken into stock before a failure stay received
+      await loadData();
+    } finally {
+      setIsReceiving(false);
+    }
   };
 
+  const openPaymentDialog = (bill: BillSummary) => {
+    setPayingBill(bill);
+    setPaymentDate(new Date().toLocaleDateString("en-CA"));
+    setPaymentAmount(String(bill.balance));
+    setPaymentMemo("");
+    setPaymentWithholding(
+      vendors.find((vendor) => vendor.id === bill.vendorId)
+        ?.withholdingTaxCode ?? NO_WITHHOLDING
+    );
+  };
+
+  const paymentValue = Number(paymentAmount) || 0;
+  const paymentWithholdingCode = withholdingCodes.find(
+    (taxCode) => taxCode.code === paymentWithholding
+  );
+  const paymentWithheld = paymentWithholdingCode
+    ? calculateTax(paymentValue, paymentWithholdingCode.rate, false).tax
+    : 0;
+
+  const handleRecordPayment = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!payingBill) {
+      return;
+    }
+
+    setIsRecording(true);
+    try {
+      const response = await fetch(
+        `/api/procurement/bills/${encodeURIComponent(payingBill.id)}`,
+        {
+          method: "POST",
+          credentials: "include",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            action: "pay",
+            date: paymentDate,
+            amount: Number(paymentAmount),
+            withholdingTaxCode:
+              paymentWithholding === NO_WITHHOLDING ? null : paymentWithholding,
+            memo: paymentMemo,
+          }),
+        }
+      );
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to record payment.");
+      }
+
+      toast({
+        title: "Payment recorded",
+        description: `Bill ${payingBill.number}`,
+      });
+      setPayingBill(null);
+      await loadData();
+    } catch (err) {
+      toast({
+        title: "Payment failed",
+        description:
+          err instanceof Error ? err.message : "Failed to record payment.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  const renderStat = (title: string, value: number, note?: string) => (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-gray-500">
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading && !totals ? (
+          <Skeleton className="h-8 w-32" />
+        ) : (
+          <div className="text-2xl font-bold">{formatCurrency(value)}</div>
+        )}
+        {note ? <p className="text-xs text-muted-foreground">{note}</p> : null}
+      </CardContent>
+    </Card>
+  );
+
+  const vendorsWithBalance = vendors.filter(
+    (vendor) => vendor.balance > 0
+  );
+
+  const hasUnbilledReceipts = (order: PurchaseOrderSummary) =>
+    order.lines.some((line) => line.quantityReceived > line.quantityBilled);
+
+  const enterBill = (order: PurchaseOrderSummary) =>
+    router.push(
+      `/procurement/bills/new?purchaseOrder=${encodeURIComponent(order.id)}`
+    );
+
+  const orderNumbers = new Map(
+    purchaseOrders.map((order) => [order.id, order.number])
+  );
+
   return (
     <SidebarProvider>
       <div className="flex min-h-screen bg-gray-50">
@@ -29,154 +549,354 @@ export default function ProcurementPage() {
 
         <div className="flex-1 overflow-auto">
           <PageHeader title="Procurement">
-            <Button onClick={handleNewPurchase}>
-              <Plus className="mr-2 h-4 w-4" /> New Purchase Order
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => router.push("/procurement/bills/new")}
+              >
+                <Plus className="mr-2 h-4 w-4" /> New Bill
+              </Button>
+              <Button onClick={() => router.push("/procurement/new")}>
+                <Plus className="mr-2 h-4 w-4" /> New Purchase Order
+              </Button>
+            </div>
           </PageHeader>
 
           <main className="p-6">
+            {error && <p className="mb-4 text-sm text-destructive">{error}</p>}
+
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium text-gray-500">
-                    Total Purchases (MTD)
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold text-muted-foreground">
-                    --
-                  </div>
-                  <p className="text-xs text-muted-foreground">Awaiting data</p>
-                </CardContent>
-              </Card>
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium text-gray-500">
-                    Open POs
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold text-muted-foreground">
-                    --
-                  </div>
-                </CardContent>
-              </Card>
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium text-gray-500">
-                    Pending Deliveries
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold text-muted-foreground">
-                    --
-                  </div>
-                </CardContent>
-              </Card>
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium text-gray-500">
-                    Active Suppliers
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold text-muted-foreground">
-                    --
-                  </div>
-                </CardContent>
-              </Card>
+              {renderStat(
+                "Outstanding Payables",
+                totals?.outstanding ?? 0,
+                totals?.draftCount
+                  ? `${totals.draftCount} draft bill(s) not yet approved`
+                  : undefined
+              )}
+              {renderStat("Overdue", totals?.overdue ?? 0)}
+              {renderStat("Due in 7 Days", totals?.dueThisWeek ?? 0)}
+              {renderStat("Paid (MTD)", totals?.paidThisMonth ?? 0)}
             </div>
 
-            <div className="mt-6 grid gap-6 md:grid-cols-3">
-              <Card className="md:col-span-2">
-                <CardHeader className="flex flex-row items-center">
-                  <CardTitle>Recent Purchase Orders</CardTitle>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    className="ml-auto"
-                    onClick={() => router.push("/reports")}
-                  >
-                    <FileText className="mr-2 h-4 w-4" /> View Reports
-                  </Button>
-                </CardHeader>
-                <CardContent>
-                  <Table>
-                    <TableHeader>
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Purchase Orders</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Order</TableHead>
+                      <TableHead>Vendor</TableHead>
+                      <TableHead>Order Date</TableHead>
+                      <TableHead>Expected</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead className="text-right">Received</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {loading && !purchaseOrders.length ? (
                       <TableRow>
-                        <TableHead>PO Number</TableHead>
-                        <TableHead>Supplier</TableHead>
-                        <TableHead>Date</TableHead>
-                        <TableHead>Status</TableHead>
-                        <TableHead>Amount</TableHead>
-                        <TableHead className="text-right">Actions</TableHead>
+                        <TableCell
+                          colSpan={8}
+                          className="text-center text-muted-foreground"
+                        >
+                          Loading purchase orders...
+                        </TableCell>
                       </TableRow>
-                    </TableHeader>
-                    <TableBody>
+                    ) : purchaseOrders.length ? (
+                      purchaseOrders.map((order) => (
+                        <TableRow key={order.id}>
+                          <TableCell className="font-medium">
+                            {order.number}
+                          </TableCell>
+                          <TableCell>{order.vendorName}</TableCell>
+                          <TableCell>{formatDate(order.orderDate)}</TableCell>
+                          <TableCell>
+                            {formatDate(order.expectedDate)}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Badge
+                                variant={
+                                  ORDER_STATUS_BADGES[order.status].variant
+                                }
+                              >
+                                {ORDER_STATUS_BADGES[order.status].label}
+                              </Badge>
+                              {order.isLate ? (
+                                <Badge variant="destructive">Late</Badge>
+                              ) : null}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(order.total)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(order.receivedValue)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  disabled={
+                                    actionId === order.id ||
+                                    (order.status === "closed" &&
+                                      !hasUnbilledReceipts(order))
+                                  }
+                                >
+                                  {actionId === order.id ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <MoreVertical className="h-4 w-4" />
+                                  )}
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                {order.status === "draft" ? (
+                                  <DropdownMenuItem
+                                    onClick={() =>
+                                      runOrderAction(order, "approve")
+                                    }
+                                  >
+                                    <Send className="mr-2 h-4 w-4" /> Approve
+                                  </DropdownMenuItem>
+                                ) : null}
+                                {order.status === "approved" ||
+                                order.status === "partially_received" ? (
+                                  <DropdownMenuItem
+                                    onClick={() => openReceiptDialog(order)}
+                                  >
+                                    <PackageCheck className="mr-2 h-4 w-4" />
+                                    Receive Goods
+                                  </DropdownMenuItem>
+                                ) : null}
+                                {hasUnbilledReceipts(order) ? (
+                                  <DropdownMenuItem
+                                    onClick={() => enterBill(order)}
+                                  >
+                                    <FileText className="mr-2 h-4 w-4" />
+                                    Enter Bill
+                                  </DropdownMenuItem>
+                                ) : null}
+                                {order.status === "draft" ? (
+                                  <DropdownMenuItem
+                                    className="text-destructive focus:text-destructive"
+                                    onClick={() =>
+                                      runOrderAction(order, "delete")
+                                    }
+                                  >
+                                    <Trash2 className="mr-2 h-4 w-4" /> Delete
+                                  </DropdownMenuItem>
+                                ) : order.status !== "closed" ? (
+                                  <DropdownMenuItem
+                                    onClick={() =>
+                                      runOrderAction(order, "close")
+                                    }
+                                  >
+                                    <Lock className="mr-2 h-4 w-4" /> Close
+                                  </DropdownMenuItem>
+                                ) : null}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
                       <TableRow>
                         <TableCell
-                          colSpan={6}
+                          colSpan={8}
                           className="text-center text-muted-foreground"
                         >
-                          No purchase orders available.
+                          No purchase orders yet.
                         </TableCell>
                       </TableRow>
-                    </TableBody>
-                  </Table>
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardHeader>
-                  <CardTitle>Top Suppliers</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-sm text-muted-foreground">
-                    No supplier rankings available.
-                  </p>
-                  <Button
-                    variant="outline"
-                    className="mt-4 w-full"
-                    onClick={() => router.push("/procurement/suppliers")}
-                  >
-                    View All Suppliers
-                  </Button>
-                </CardContent>
-              </Card>
-            </div>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
 
             <Card className="mt-6">
-              <CardHeader className="flex flex-row items-center">
-                <CardTitle>Upcoming Deliveries</CardTitle>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="ml-auto"
-                  onClick={() => router.push("/procurement/deliveries")}
-                >
-                  <Eye className="mr-2 h-4 w-4" /> View All
-                </Button>
+              <CardHeader>
+                <CardTitle>Bills</CardTitle>
               </CardHeader>
               <CardContent>
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>PO Number</TableHead>
-                      <TableHead>Supplier</TableHead>
-                      <TableHead>Expected Date</TableHead>
-                      <TableHead>Items</TableHead>
+                      <TableHead>Bill</TableHead>
+                      <TableHead>Vendor</TableHead>
+                      <TableHead>Bill Date</TableHead>
+                      <TableHead>Due</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
+                    {loading && !bills.length ? (
+                      <TableRow>
+                        <TableCell
+                          colSpan={8}
+                          className="text-center text-muted-foreground"
+                        >
+                          Loading bills...
+                        </TableCell>
+                      </TableRow>
+                    ) : bills.length ? (
+                      bills.map((bill) => (
+                        <TableRow key={bill.id}>
+                          <TableCell className="font-medium">
+                            {bill.number}
+                            {bill.purchaseOrderId ? (
+                              <div className="text-xs font-normal text-muted-foreground">
+                                {orderNumbers.get(bill.purchaseOrderId) ??
+                                  "Purchase order"}
+                              </div>
+                            ) : null}
+                          </TableCell>
+                          <TableCell>{bill.vendorName}</TableCell>
+                          <TableCell>{formatDate(bill.billDate)}</TableCell>
+                          <TableCell>{formatDate(bill.dueDate)}</TableCell>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Badge
+                                variant={STATUS_BADGES[bill.status].variant}
+                              >
+                                {STATUS_BADGES[bill.status].label}
+                              </Badge>
+                              {bill.isOverdue ? (
+                                <Badge variant="destructive">Overdue</Badge>
+                              ) : null}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(bill.total)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(bill.balance)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  disabled={
+                                    actionId === bill.id ||
+                                    bill.status === "void"
+                                  }
+                                >
+                                  {actionId === bill.id ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <MoreVertical className="h-4 w-4" />
+                                  )}
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                {bill.status === "draft" ? (
+                                  <DropdownMenuItem
+                                    onClick={() => runAction(bill, "approve")}
+                                  >
+                                    <Send className="mr-2 h-4 w-4" /> Approve
+                                  </DropdownMenuItem>
+                                ) : null}
+                                {bill.balance > 0 ? (
+                                  <DropdownMenuItem
+                                    onClick={() => openPaymentDialog(bill)}
+                                  >
+                                    <Banknote className="mr-2 h-4 w-4" />
+                                    Record Payment
+                                  </DropdownMenuItem>
+                                ) : null}
+                                {bill.status === "draft" ? (
+                                  <DropdownMenuItem
+                                    className="text-destructive focus:text-destructive"
+                                    onClick={() => runAction(bill, "delete")}
+                                  >
+                                    <Trash2 className="mr-2 h-4 w-4" /> Delete
+                                  </DropdownMenuItem>
+                                ) : (
+                                  <DropdownMenuItem
+                                    className="text-destructive focus:text-destructive"
+                                    onClick={() => runAction(bill, "void")}
+                                  >
+                                    <Ban className="mr-2 h-4 w-4" /> Void
+                                  </DropdownMenuItem>
+                                )}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell
+                          colSpan={8}
+                          className="text-center text-muted-foreground"
+                        >
+                          No bills yet.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Vendor Balances</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
                     <TableRow>
-                      <TableCell
-                        colSpan={5}
-                        className="text-center text-muted-foreground"
-                      >
-                        No upcoming deliveries scheduled.
-                      </TableCell>
+                      <TableHead>Vendor</TableHead>
+                      <TableHead>Payment Terms</TableHead>
+                      <TableHead className="text-right">
+                        Open Bills
+                      </TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
                     </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {vendorsWithBalance.length ? (
+                      vendorsWithBalance.map((vendor) => (
+                        <TableRow key={vendor.id}>
+                          <TableCell className="font-medium">
+                            {vendor.name}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            Net {vendor.paymentTermDays}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {vendor.openBills}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(vendor.balance)}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell
+                          colSpan={4}
+                          className="text-center text-muted-foreground"
+                        >
+                          Nothing is owed to vendors.
+                        </TableCell>
+                      </TableRow>
+                    )}
                   </TableBody>
                 </Table>
               </CardContent>
@@ -184,6 +904,194 @@ export default function ProcurementPage() {
           </main>
         </div>
       </div>
+
+      <Dialog
+        open={Boolean(payingBill)}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPayingBill(null);
+          }
+        }}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              Record Payment
+              {payingBill ? ` - ${payingBill.number}` : ""}
+            </DialogTitle>
+          </DialogHeader>
+          <form className="space-y-4" onSubmit={handleRecordPayment}>
+            <p className="text-sm text-muted-foreground">
+              Balance due: {formatCurrency(payingBill?.balance)}
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="payment-date">Date</Label>
+              <Input
+                id="payment-date"
+                type="date"
+                value={paymentDate}
+                onChange={(event) => setPaymentDate(event.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-amount">Amount</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                min="0"
+                step="any"
+                value={paymentAmount}
+                onChange={(event) => setPaymentAmount(event.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-withholding">Withholding Tax</Label>
+              <Select
+                value={paymentWithholding}
+                onValueChange={setPaymentWithholding}
+              >
+                <SelectTrigger id="payment-withholding">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_WITHHOLDING}>No withholding</SelectItem>
+                  {withholdingCodes.map((taxCode) => (
+                    <SelectItem key={taxCode.code} value={taxCode.code}>
+                      {taxCode.code} - {taxCode.name} ({taxCode.rate}%)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {paymentWithholdingCode && (
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(paymentWithheld)} withheld to account 2330;
+                  cash paid {formatCurrency(paymentValue - paymentWithheld)}.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-memo">Memo</Label>
+              <Input
+                id="payment-memo"
+                value={paymentMemo}
+                onChange={(event) => setPaymentMemo(event.target.value)}
+                placeholder="Bank transfer"
+              />
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setPayingBill(null)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isRecording}>
+                {isRecording ? "Saving..." : "Record Payment"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={Boolean(receivingOrder)}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReceivingOrder(null);
+          }
+        }}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              Receive Goods
+              {receivingOrder ? ` - ${receivingOrder.number}` : ""}
+            </DialogTitle>
+          </DialogHeader>
+          <form className="space-y-4" onSubmit={handleReceiveGoods}>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="receipt-date">Date</Label>
+                <Input
+                  id="receipt-date"
+                  type="date"
+                  value={receiptDate}
+                  onChange={(event) => setReceiptDate(event.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="receipt-reference">Delivery Note No.</Label>
+                <Input
+                  id="receipt-reference"
+                  value={receiptReference}
+                  onChange={(event) => setReceiptReference(event.target.value)}
+                />
+              </div>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Line</TableHead>
+                  <TableHead className="text-right">Ordered</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="w-[140px] text-right">
+                    Receive Now
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {receivingOrder?.lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell>{line.description}</TableCell>
+                    <TableCell className="text-right">
+                      {formatQuantity(line.quantity)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatQuantity(line.quantityReceived)}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        className="text-right"
+                        value={receiptQuantities[line.id] ?? ""}
+                        onChange={(event) =>
+                          setReceiptQuantities((prev) => ({
+                            ...prev,
+                            [line.id]: event.target.value,
+                          }))
+                        }
+                        disabled={line.quantityReceived >= line.quantity}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-muted-foreground">
+              Goods go into stock at the ordered price and are owed in account
+              2150 until the vendor&apos;s bill is matched to this order.
+            </p>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setReceivingOrder(null)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isReceiving}>
+                {isReceiving ? "Saving..." : "Receive Goods"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
     </SidebarProvider>
   );
 }
@@ -4,7 +4,12 @@ import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { Download, FileSpreadsheet, Plus, Trash2 } from "lucide-react";
 
+import { AgingReport } from "@/components/aging-report";
+import { InventoryReport } from "@/components/inventory-report";
+import { PpnReport } from "@/components/ppn-report";
+import { WithholdingReport } from "@/components/withholding-report";
 import { AppSidebar } from "@/components/app-sidebar";
+import { DateRangePicker } from "@/components/date-range-picker";
 import { PageHeader } from "@/components/page-header";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -39,19 +44,90 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import {
   REPORT_ADJUSTMENT_SECTIONS,
+  isValidAdjustmentType,
   type ReportAdjustmentSection,
   type ReportAdjustmentType,
 } from "@/lib/report-adjustments-schema";
-import type { PeriodKey } from "@/lib/finance";
-
-type ReportType = ReportAdjustmentType;
+import {
+  formatRangeLabel,
+  toPeriodQuery,
+  type CustomPeriod,
+  type PeriodKey,
+  type PeriodSelection,
+} from "@/lib/period-range";
+import {
+  calculateVariance,
+  toComparisonQuery,
+  type ComparisonKey,
+  type ComparisonSelection,
+  type ReportVariance,
+} from "@/lib/report-comparison";
+import type { AgingReportType } from "@/lib/aging-schema";
+import type { InventoryReportType } from "@/lib/inventory-report-schema";
+import type { TrialBalance } from "@/lib/ledger";
+
+type ReportType =
+  | ReportAdjustmentType
+  | "equity"
+  | "trial-balance"
+  | AgingReportType
+  | InventoryReportType
+  | "ppn"
+  | "withholding";
 
 type ReportRow = {
   label: string;
   amount: number;
   description?: string;
+  accountCode?: string;
   isManual?: boolean;
   adjustmentId?: string;
+  comparisonAmount?: number;
+};
+
+type ReportStatementTotals = {
+  incomeStatement: {
+    revenue: number;
+    cogs: number;
+    grossProfit: number;
+    expenses: number;
+    netIncome: number;
+  };
+  balanceSheet: {
+    assets: number;
+    liabilities: number;
+    equity: number;
+  };
+  cashFlow: {
+    operating: number;
+    investing: number;
+    financing: number;
+    netChange: number;
+  };
+};
+
+type IndirectCashFlow = {
+  netIncome: number;
+  operatingAdjustments: ReportRow[];
+  investing: ReportRow[];
+  financing: ReportRow[];
+  totals: ReportStatementTotals["cashFlow"];
+  beginningCash: number;
+  endingCash: number;
+};
+
+type CashFlowMethod = "direct" | "indirect";
+
+type EquityBalance = {
+  capital: number;
+  retainedEarnings: number;
+  total: number;
+};
+
+type EquityStatement = {
+  opening: EquityBalance;
+  movements: Array<EquityBalance & { label: string }>;
+  closing: EquityBalance;
 };
 
 type ReportData = {
@@ -65,23 +141,13 @@ type ReportData = {
     revenues: ReportRow[];
     cogs: ReportRow[];
     expenses: ReportRow[];
-    totals: {
-      revenue: number;
-      cogs: number;
-      grossProfit: number;
-      expenses: number;
-      netIncome: number;
-    };
+    totals: ReportStatementTotals["incomeStatement"];
   };
   balanceSheet: {
     assets: ReportRow[];
     liabilities: ReportRow[];
     equity: ReportRow[];
-    totals: {
-      assets: number;
-      liabilities: number;
-      equity: number;
-    };
+    totals: ReportStatementTotals["balanceSheet"];
     validation: {
       isBalanced: boolean;
       difference: number;
@@ -91,15 +157,23 @@ type ReportData = {
     operating: ReportRow[];
     investing: ReportRow[];
     financing: ReportRow[];
-    totals: {
-      operating: number;
-      investing: number;
-      financing: number;
-      netChange: number;
+    totals: ReportStatementTotals["cashFlow"];
+    indirect: IndirectCashFlow;
+  };
+  equityStatement: EquityStatement;
+  trialBalance: TrialBalance;
+  comparison?: {
+    period: string;
+    range: {
+      start: string;
+      end: string;
     };
+    totals: ReportStatementTotals;
   };
 };
 
+type ComparisonOption = "none" | ComparisonKey | "custom";
+
 type StatementSection = {
   letter: string;
   title: string;
@@ -107,10 +181,12 @@ type StatementSection = {
   summary?: ReportRow[];
   emptyLabel: string;
   specialNote?: string;
+  /** Derived rows that cannot be deleted from the report. */
+  readOnly?: boolean;
 };
 
 type AdjustmentFormState = {
-  reportType: ReportType;
+  reportType: ReportAdjustmentType;
   section: ReportAdjustmentSection;
   label: string;
   description: string;
@@ -126,24 +202,55 @@ const periodOptions: Array<{ value: PeriodKey; label: string }> = [
   { value: "last-quarter", label: "Last Quarter" },
   { value: "year-to-date", label: "Year to Date" },
   { value: "last-year", label: "Last Year" },
+  { value: "fiscal-quarter", label: "Fiscal Quarter" },
+  { value: "fiscal-year-to-date", label: "Fiscal Year to Date" },
+  { value: "last-fiscal-year", label: "Last Fiscal Year" },
+];
+
+const comparisonOptions: Array<{ value: ComparisonOption; label: string }> = [
+  { value: "none", label: "No Comparison" },
+  { value: "previous-period", label: "Previous Period" },
+  { value: "previous-year", label: "Same Period Last Year" },
+  { value: "custom", label: "Custom Range" },
 ];
 
 const REPORT_TITLES: Record<ReportType, string> = {
   "income-statement": "Income Statement",
   "balance-sheet": "Balance Sheet",
   "cash-flow": "Cash Flow Statement",
+  equity: "Statement of Changes in Equity",
+  "trial-balance": "Trial Balance",
+  "receivables-aging": "Receivables Aging",
+  "payables-aging": "Payables Aging",
+  "inventory-valuation": "Inventory Valuation",
+  "stock-movements": "Stock Movements",
+  ppn: "PPN Report",
+  withholding: "Withholding Tax",
 };
 
 const SECTION_OPTIONS = REPORT_ADJUSTMENT_SECTIONS;
 
 const getDefaultAdjustmentSection = (
-  type: ReportType
+  type: ReportAdjustmentType
 ): ReportAdjustmentSection => SECTION_OPTIONS[type][0]?.value ?? "revenues";
 
+// Only the three statements take manual rows, so the other reports open the
+// dialog on the income statement
+const toAdjustmentType = (type: ReportType): ReportAdjustmentType =>
+  isValidAdjustmentType(type) ? type : "income-statement";
+
 export default function ReportsPage() {
   const router = useRouter();
   const [reportType, setReportType] = useState<ReportType>("income-statement");
   const [period, setPeriod] = useState<PeriodKey>("all-time");
+  const [customRange, setCustomRange] = useState<CustomPeriod | null>(null);
+  const [cashFlowMethod, setCashFlowMethod] =
+    useState<CashFlowMethod>("direct");
+  const [comparisonOption, setComparisonOption] =
+    useState<ComparisonOption>("none");
+  const [comparisonRange, setComparisonRange] = useState<CustomPeriod | null>(
+    null
+  );
   const [data, setData] = useState<ReportData | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [downloading, setDownloading] = useState<boolean>(false);
@@ -168,6 +275,22 @@ export default function ReportsPage() {
     })
   );
 
+  // A picked range overrides the period dropdown until it is cleared
+  const selection: PeriodSelection = customRange ?? period;
+  const comparison: ComparisonSelection | null =
+    comparisonOption === "none"
+      ? null
+      : comparisonOption === "custom"
+      ? comparisonRange
+      : comparisonOption;
+  const periodSlug = Object.values({
+    ...toPeriodQuery(selection),
+    ...(comparison ? toComparisonQuery(comparison) : {}),
+  }).join("_");
+  const rangeLabel = data
+    ? formatRangeLabel(new Date(data.range.start), new Date(data.range.end))
+    : "";
+
   const currencyFormatter = useMemo(
     () =>
       new Intl.NumberFormat("id-ID", {
@@ -181,6 +304,16 @@ export default function ReportsPage() {
   const formatCurrency = (value?: number) =>
     currencyFormatter.format(value ?? 0);
 
+  const getRowVariance = (row: ReportRow): ReportVariance | null =>
+    row.comparisonAmount === undefined
+      ? null
+      : calculateVariance(row.amount, row.comparisonAmount);
+
+  const formatVariancePercent = (variance: ReportVariance | null) =>
+    variance?.percent == null
+      ? "-"
+      : `${variance.percent > 0 ? "+" : ""}${variance.percent.toFixed(1)}%`;
+
   const handleDeleteRow = async (rowId: string) => {
     try {
       setIsDeleting(rowId);
@@ -246,7 +379,7 @@ export default function ReportsPage() {
           },
           body: JSON.stringify({
             category: targetRow.label,
-            period: period,
+            ...toPeriodQuery(selection),
             type: sectionType.includes("revenue")
               ? "income"
               : sectionType.includes("expense")
@@ -265,7 +398,7 @@ export default function ReportsPage() {
       setDeletedRows((prev) => new Set([...prev, rowId]));
 
       // Refresh data from server to get updated totals
-      await fetchReportData(period);
+      await fetchReportData(selection, comparison);
     } catch (error) {
       console.error("Error deleting row:", error);
       alert("Failed to delete data. Please try again.");
@@ -322,7 +455,10 @@ export default function ReportsPage() {
   }, [router]);
 
   const fetchReportData = useCallback(
-    async (targetPeriod: PeriodKey) => {
+    async (
+      targetPeriod: PeriodSelection,
+      targetComparison: ComparisonSelection | null = null
+    ) => {
       setLoading(true);
       setError(null);
 
@@ -337,7 +473,10 @@ export default function ReportsPage() {
           return;
         }
 
-        const params = new URLSearchParams({ period: targetPeriod });
+        const params = new URLSearchParams({
+          ...toPeriodQuery(targetPeriod),
+          ...(targetComparison ? toComparisonQuery(targetComparison) : {}),
+        });
         const response = await fetch(`/api/reports?${params.toString()}`, {
           cache: "no-store",
           credentials: "include",
@@ -365,7 +504,7 @@ export default function ReportsPage() {
   );
 
   const initialiseAdjustmentForm = useCallback(
-    (type: ReportType): AdjustmentFormState => ({
+    (type: ReportAdjustmentType): AdjustmentFormState => ({
       reportType: type,
       section: getDefaultAdjustmentSection(type),
       label: "",
@@ -382,14 +521,16 @@ export default function ReportsPage() {
       if (!open) {
         setAdjustmentError(null);
         setAdjustmentSaving(false);
-        setAdjustmentForm(initialiseAdjustmentForm(reportType));
+        setAdjustmentForm(
+          initialiseAdjustmentForm(toAdjustmentType(reportType))
+        );
       }
     },
     [initialiseAdjustmentForm, reportType]
   );
 
   const openAdjustmentDialog = useCallback(
-    (type: ReportType) => {
+    (type: ReportAdjustmentType) => {
       setAdjustmentError(null);
       setAdjustmentForm(initialiseAdjustmentForm(type));
       setAdjustmentDialogOpen(true);
@@ -401,7 +542,7 @@ export default function ReportsPage() {
     (field: keyof AdjustmentFormState, value: string) => {
       setAdjustmentForm((prev) => {
         if (field === "reportType") {
-          const nextType = value as ReportType;
+          const nextType = value as ReportAdjustmentType;
           return {
             ...prev,
             reportType: nextType,
@@ -481,7 +622,7 @@ export default function ReportsPage() {
         }
 
         handleAdjustmentDialogToggle(false);
-        await fetchReportData(period);
+        await fetchReportData(selection, comparison);
       } catch (err) {
         console.error(err);
         setAdjustmentError("An error occurred while saving the adjustment.");
@@ -492,7 +633,8 @@ export default function ReportsPage() {
     [
       adjustmentForm,
       fetchReportData,
-      period,
+      selection,
+      comparison,
       redirectToLogin,
       handleAdjustmentDialogToggle,
     ]
@@ -525,7 +667,7 @@ export default function ReportsPage() {
           return;
         }
 
-        await fetchReportData(period);
+        await fetchReportData(selection, comparison);
       } catch (err) {
         console.error(err);
         setError("Failed to delete adjustment.");
@@ -533,7 +675,7 @@ export default function ReportsPage() {
         setDeletingAdjustmentId(null);
       }
     },
-    [fetchReportData, period, redirectToLogin]
+    [fetchReportData, selection, comparison, redirectToLogin]
   );
 
   useEffect(() => {
@@ -541,10 +683,11 @@ export default function ReportsPage() {
   }, [fetchReportData]);
 
   const handleGenerateReport = () => {
-    void fetchReportData(period);
+    void fetchReportData(selection, comparison);
   };
 
-  const handleDownloadExcel = async () => {
+  // The monthly mode exports the income statement with one column per month
+  const downloadExcel = async (mode: "monthly" | null) => {
     if (!data || downloading) {
       return;
     }
@@ -553,7 +696,16 @@ export default function ReportsPage() {
     setDownloading(true);
 
     try {
-      const params = new URLSearchParams({ period, type: reportType });
+      const params = new URLSearchParams(
+        mode
+          ? { ...toPeriodQuery(selection), mode }
+          : {
+              ...toPeriodQuery(selection),
+              ...(comparison ? toComparisonQuery(comparison) : {}),
+              ...(reportType === "cash-flow" ? { method: cashFlowMethod } : {}),
+              type: reportType,
+            }
+      );
       const sessionResponse = await fetch("/api/auth/session", {
         cache: "no-store",
         credentials: "include",
@@ -581,7 +733,7 @@ export default function ReportsPage() {
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement("a");
       link.href = url;
-      link.download = `laporan-${reportType}-${period}.xlsx`;
+      link.download = `laporan-${mode ?? reportType}-${periodSlug}.xlsx`;
       document.body.appendChild(link);
       link.click();
       link.remove();
@@ -594,6 +746,9 @@ export default function ReportsPage() {
     }
   };
 
+  const handleDownloadExcel = () => downloadExcel(null);
+  const handleDownloadMonthlyExcel = () => downloadExcel("monthly");
+
   const getRowPrimaryLabel = (row: ReportRow) => {
     const description = row.description?.trim();
     return description && description.length > 0 ? description : row.label;
@@ -611,6 +766,25 @@ export default function ReportsPage() {
     return row.label;
   };
 
+  const handleOpenLedger = (accountCode: string) => {
+    if (!data) {
+      return;
+    }
+    const toInputDate = (date: Date) => {
+      const month = String(date.getMonth() + 1).padStart(2, "0");
+      const day = String(date.getDate()).padStart(2, "0");
+      return `${date.getFullYear()}-${month}-${day}`;
+    };
+    // Report ranges end exclusively, the ledger page takes an inclusive date
+    const lastDay = new Date(new Date(data.range.end).getTime() - 1);
+    const params = new URLSearchParams({
+      account: accountCode,
+      from: toInputDate(new Date(data.range.start)),
+      to: toInputDate(lastDay),
+    });
+    router.push(`/finance/ledger?${params.toString()}`);
+  };
+
   const renderNoDataState = (message: string) => (
     <div className="rounded-lg border border-dashed border-slate-200 bg-white p-6 text-center text-sm text-muted-foreground">
       {message}
@@ -622,8 +796,7 @@ export default function ReportsPage() {
       return [];
     }
 
-    const { revenue, cogs, grossProfit, expenses, netIncome } =
-      data.incomeStatement.totals;
+    const previous = data.comparison?.totals.incomeStatement;
 
     // Calculate adjusted totals excluding deleted rows
     const adjustedRevenue = calculateAdjustedTotal(
@@ -647,6 +820,10 @@ export default function ReportsPage() {
       ...data.incomeStatement.cogs.map((row) => ({
         ...row,
         amount: -row.amount, // Make COGS negative
+        comparisonAmount:
+          row.comparisonAmount === undefined
+            ? undefined
+            : -row.comparisonAmount,
         label: row.label, // Keep original label but will show as negative amount
       })),
     ];
@@ -660,6 +837,7 @@ export default function ReportsPage() {
           {
             label: "Gross Profit",
             amount: adjustedGrossProfit,
+            comparisonAmount: previous?.grossProfit,
           },
         ],
         emptyLabel: "revenue",
@@ -672,6 +850,7 @@ export default function ReportsPage() {
           {
             label: "Total Operating Expenses",
             amount: adjustedExpenses,
+            comparisonAmount: previous?.expenses,
           },
         ],
         emptyLabel: "operating expenses",
@@ -684,6 +863,7 @@ export default function ReportsPage() {
           {
             label: "Net Income (Gross Profit - Operating Expenses)",
             amount: adjustedNetIncome,
+            comparisonAmount: previous?.netIncome,
           },
         ],
         emptyLabel: "net income summary",
@@ -696,151 +876,149 @@ export default function ReportsPage() {
       return [];
     }
 
-    // Get cash balance from cash flow (like in the image)
-    const netCashIncrease = data.cashFlow.totals.netChange || 0;
-
-    // Create specific balance sheet structure matching the image
-    const currentAssetsData = [
-      { label: "Kas dan Bank (Dari Laporan Arus Kas)", amount: 133555000 },
-      { label: "Piutang Usaha (Account Receivable)", amount: 10000000 },
-      { label: "Persediaan Barang Baku (Inventory)", amount: 15000000 },
-    ];
-
-    const nonCurrentAssetsData = [
-      { label: "Peralatan (Nilai Kotor)", amount: 40000000 },
-      { label: "(-) Akumulasi Penyusutan", amount: -10000000 },
-    ];
-
-    const currentLiabilitiesData = [
-      { label: "Utang Usaha (Account Payable)", amount: 10000000 },
-      { label: "Utang Pajak UMKM", amount: 445000 },
-    ];
-
-    const equityData = [
-      { label: "Modal Pemilik (Owner's Capital)", amount: 89555000 },
-      {
-        label: "Laba Ditahan / Tahun Berjalan (Retained Earnings)",
-        amount: 88555000,
-      },
-    ];
-
-    // Calculate totals
-    const totalCurrentAssets = currentAssetsData.reduce(
-      (sum, item) => sum + item.amount,
-      0
+    const adjustedAssets = calculateAdjustedTotal(
+      data.balanceSheet.assets,
+      "Assets"
     );
-    const totalNonCurrentAssets = nonCurrentAssetsData.reduce(
-      (sum, item) => sum + item.amount,
-      0
+    const adjustedLiabilities = calculateAdjustedTotal(
+      data.balanceSheet.liabilities,
+      "Liabilities"
     );
-    const totalAssets = totalCurrentAssets + totalNonCurrentAssets;
-
-    const totalCurrentLiabilities = currentLiabilitiesData.reduce(
-      (sum, item) => sum + item.amount,
-      0
+    const adjustedEquity = calculateAdjustedTotal(
+      data.balanceSheet.equity,
+      "Equity"
     );
-    const totalEquity = equityData.reduce((sum, item) => sum + item.amount, 0);
-    const totalLiabilitiesEquity = totalCurrentLiabilities + totalEquity;
+    const difference = adjustedAssets - (adjustedLiabilities + adjustedEquity);
+    const previous = data.comparison?.totals.balanceSheet;
 
     return [
       {
         letter: "A",
-        title: "ASET",
-        rows: [],
-        summary: [],
-        emptyLabel: "assets header",
-      },
-      {
-        letter: "",
-        title: "ASET LANCAR (Current Assets)",
-        rows: currentAssetsData,
-        summary: [
-          {
-            label: "Total Aset Lancar",
-            amount: totalCurrentAssets,
-          },
-        ],
-        emptyLabel: "current assets",
-      },
-      {
-        letter: "",
-        title: "ASET TIDAK LANCAR (Non-Current Assets)",
-        rows: nonCurrentAssetsData,
-        summary: [
-          {
-            label: "Nilai Buku Bersih Peralatan",
-            amount: 30000000,
-          },
-          {
-            label: "Total Aset Tidak Lancar",
-            amount: totalNonCurrentAssets,
-          },
-        ],
-        emptyLabel: "non-current assets",
-      },
-      {
-        letter: "",
-        title: "TOTAL ASET",
-        rows: [],
+        title: "Assets",
+        rows: data.balanceSheet.assets,
         summary: [
           {
-            label: "TOTAL ASET",
-            amount: totalAssets,
+            label: "Total Assets",
+            amount: adjustedAssets,
+            comparisonAmount: previous?.assets,
           },
         ],
-        emptyLabel: "total assets",
+        emptyLabel: "assets",
       },
       {
         letter: "B",
-        title: "KEWAJIBAN & EKUITAS",
-        rows: [],
-        summary: [],
-        emptyLabel: "liabilities header",
-      },
-      {
-        letter: "",
-        title: "KEWAJIBAN LANCAR (Current Liabilities)",
-        rows: currentLiabilitiesData,
+        title: "Liabilities",
+        rows: data.balanceSheet.liabilities,
         summary: [
           {
-            label: "Total Kewajiban Lancar",
-            amount: totalCurrentLiabilities,
+            label: "Total Liabilities",
+            amount: adjustedLiabilities,
+            comparisonAmount: previous?.liabilities,
           },
         ],
-        emptyLabel: "current liabilities",
+        emptyLabel: "liabilities",
       },
       {
-        letter: "",
-        title: "EKUITAS (Equity)",
-        rows: equityData,
+        letter: "C",
+        title: "Equity",
+        rows: data.balanceSheet.equity,
         summary: [
           {
-            label: "Total Ekuitas",
-            amount: totalEquity,
+            label: "Total Equity",
+            amount: adjustedEquity,
+            comparisonAmount: previous?.equity,
           },
         ],
         emptyLabel: "equity",
       },
       {
-        letter: "",
-        title: "TOTAL KEWAJIBAN + EKUITAS",
+        letter: "D",
+        title: "Total Liabilities + Equity",
         rows: [],
         summary: [
           {
-            label: "TOTAL KEWAJIBAN + EKUITAS",
-            amount: totalLiabilitiesEquity,
+            label: "Total Liabilities + Equity",
+            amount: adjustedLiabilities + adjustedEquity,
+            comparisonAmount:
+              previous && previous.liabilities + previous.equity,
           },
         ],
-        emptyLabel: "total liabilities and equity",
+        emptyLabel: "balance check",
+        specialNote:
+          Math.abs(difference) < 0.01
+            ? undefined
+            : `Out of balance by ${currencyFormatter.format(
+                difference
+              )}. Review manual adjustments.`,
       },
     ];
-  }, [data]);
+  }, [data, calculateAdjustedTotal, currencyFormatter]);
 
   const cashFlowSections = useMemo<StatementSection[]>(() => {
     if (!data) {
       return [];
     }
 
+    if (cashFlowMethod === "indirect") {
+      const { indirect } = data.cashFlow;
+      return [
+        {
+          letter: "A",
+          title: "Operating Cash Flow (Indirect)",
+          rows: [
+            { label: "Net Income", amount: indirect.netIncome },
+            ...indirect.operatingAdjustments,
+          ],
+          summary: [
+            {
+              label: "Net Operating Cash Flow",
+              amount: indirect.totals.operating,
+            },
+          ],
+          emptyLabel: "operating activities",
+          readOnly: true,
+        },
+        {
+          letter: "B",
+          title: "Investing Cash Flow",
+          rows: indirect.investing,
+          summary: [
+            {
+              label: "Net Investing Cash Flow",
+              amount: indirect.totals.investing,
+            },
+          ],
+          emptyLabel: "investing activities",
+          readOnly: true,
+        },
+        {
+          letter: "C",
+          title: "Financing Cash Flow",
+          rows: indirect.financing,
+          summary: [
+            {
+              label: "Net Financing Cash Flow",
+              amount: indirect.totals.financing,
+            },
+          ],
+          emptyLabel: "financing activities",
+          readOnly: true,
+        },
+        {
+          letter: "D",
+          title: "Cash Reconciliation",
+          rows: [],
+          summary: [
+            { label: "Beginning Cash", amount: indirect.beginningCash },
+            { label: "Net Change in Cash", amount: indirect.totals.netChange },
+            { label: "Ending Cash", amount: indirect.endingCash },
+          ],
+          emptyLabel: "cash summary",
+          readOnly: true,
+        },
+      ];
+    }
+
     // Calculate adjusted totals excluding deleted rows
     const adjustedOperating = calculateAdjustedTotal(
       data.cashFlow.operating,
@@ -854,6 +1032,7 @@ export default function ReportsPage() {
       data.cashFlow.financing,
       "Financing"
     );
+    const previous = data.comparison?.totals.cashFlow;
 
     return [
       {
@@ -864,6 +1043,7 @@ export default function ReportsPage() {
           {
             label: "Net Operating Cash Flow",
             amount: adjustedOperating,
+            comparisonAmount: previous?.operating,
           },
         ],
         emptyLabel: "operating activities",
@@ -876,6 +1056,7 @@ export default function ReportsPage() {
           {
             label: "Net Investing Cash Flow",
             amount: adjustedInvesting,
+            comparisonAmount: previous?.investing,
           },
         ],
         emptyLabel: "investing activities",
@@ -888,6 +1069,7 @@ export default function ReportsPage() {
           {
             label: "Net Financing Cash Flow",
             amount: adjustedFinancing,
+            comparisonAmount: previous?.financing,
           },
         ],
         emptyLabel: "financing activities",
@@ -900,17 +1082,41 @@ export default function ReportsPage() {
           {
             label: "Net Increase in Cash",
             amount: adjustedOperating + adjustedInvesting + adjustedFinancing,
+            comparisonAmount: previous?.netChange,
           },
         ],
         emptyLabel: "cash summary",
       },
     ];
-  }, [data, calculateAdjustedTotal]);
+  }, [data, calculateAdjustedTotal, cashFlowMethod]);
+
+  const comparing = Boolean(data?.comparison);
+  const statementColumnCount = comparing ? 6 : 3;
+
+  const renderComparisonCells = (row: ReportRow, className: string) => {
+    if (!comparing) {
+      return null;
+    }
+    const variance = getRowVariance(row);
+    return (
+      <>
+        <TableCell className={`text-right ${className}`}>
+          {variance ? formatCurrency(row.comparisonAmount) : "-"}
+        </TableCell>
+        <TableCell className={`text-right ${className}`}>
+          {variance ? formatCurrency(variance.amount) : "-"}
+        </TableCell>
+        <TableCell className={`text-right ${className}`}>
+          {formatVariancePercent(variance)}
+        </TableCell>
+      </>
+    );
+  };
 
   const renderEmptyRow = (label: string, showRatio: boolean) => (
     <TableRow key={`${label}-empty`}>
       <TableCell
-        colSpan={3}
+        colSpan={statementColumnCount}
         className="text-center text-xs text-muted-foreground"
       >
         No {label} data available.
@@ -921,7 +1127,7 @@ export default function ReportsPage() {
   const renderSection = (section: StatementSection) => {
     const hasDataRows = section.rows.length > 0;
     const hasSummaryRows = (section.summary?.length ?? 0) > 0;
-    const headerColSpan = 3;
+    const headerColSpan = statementColumnCount;
 
     return (
       <div
@@ -937,6 +1143,19 @@ export default function ReportsPage() {
               <TableHead className="text-right text-slate-600">
                 Amount (Rp)
               </TableHead>
+              {comparing && (
+                <>
+                  <TableHead className="text-right text-slate-600">
+                    Comparison (Rp)
+                  </TableHead>
+                  <TableHead className="text-right text-slate-600">
+                    Variance (Rp)
+                  </TableHead>
+                  <TableHead className="text-right text-slate-600">
+                    Variance %
+                  </TableHead>
+                </>
+              )}
               <TableHead className="w-[80px] text-right text-slate-600">
                 Actions
               </TableHead>
@@ -972,9 +1191,22 @@ export default function ReportsPage() {
                       <TableRow key={id}>
                         <TableCell className="align-top">
                           <div>
-                            <div className="font-medium text-slate-700">
-                              {primary}
-                            </div>
+                            {row.accountCode ? (
+                              <button
+                                type="button"
+                                className="text-left font-medium text-slate-700 hover:text-blue-700 hover:underline"
+                                onClick={() =>
+                                  handleOpenLedger(row.accountCode!)
+                                }
+                                title="Open account ledger"
+                              >
+                                {primary}
+                              </button>
+                            ) : (
+                              <div className="font-medium text-slate-700">
+                                {primary}
+                              </div>
+                            )}
                             {secondary && (
                               <p className="mt-1 text-xs text-muted-foreground">
                                 {secondary}
@@ -985,52 +1217,55 @@ export default function ReportsPage() {
                         <TableCell className="text-right font-medium text-slate-700">
                           {formatCurrency(row.amount)}
                         </TableCell>
+                        {renderComparisonCells(row, "text-slate-600")}
                         <TableCell className="text-right">
-                          <div className="flex items-center gap-2">
-                            {row.isManual && (
-                              <Badge variant="outline" className="text-xs">
-                                Manual
-                              </Badge>
-                            )}
-                            {/* Delete button for manual rows (database deletion) */}
-                            {row.isManual && row.adjustmentId && (
+                          {section.readOnly ? null : (
+                            <div className="flex items-center gap-2">
+                              {row.isManual && (
+                                <Badge variant="outline" className="text-xs">
+                                  Manual
+                                </Badge>
+                              )}
+                              {/* Delete button for manual rows (database deletion) */}
+                              {row.isManual && row.adjustmentId && (
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-7 w-7 text-rose-600 hover:text-rose-600"
+                                  disabled={
+                                    deletingAdjustmentId === row.adjustmentId
+                                  }
+                                  onClick={() =>
+                                    handleDeleteAdjustment(row.adjustmentId!)
+                                  }
+                                  title="Delete from database"
+                                >
+                                  {deletingAdjustmentId === row.adjustmentId ? (
+                                    <span className="h-4 w-4 animate-spin rounded-full border-2 border-current border-r-transparent" />
+                                  ) : (
+                                    <Trash2 className="h-4 w-4" />
+                                  )}
+                                </Button>
+                              )}
+                              {/* Delete button for all rows (permanent deletion) */}
                               <Button
                                 type="button"
                                 variant="ghost"
                                 size="icon"
-                                className="h-7 w-7 text-rose-600 hover:text-rose-600"
-                                disabled={
-                                  deletingAdjustmentId === row.adjustmentId
-                                }
-                                onClick={() =>
-                                  handleDeleteAdjustment(row.adjustmentId!)
-                                }
-                                title="Delete from database"
+                                className="h-7 w-7 text-gray-500 hover:text-red-600"
+                                onClick={() => handleDeleteRow(id)}
+                                title="Permanently delete from database"
+                                disabled={isDeleting === id}
                               >
-                                {deletingAdjustmentId === row.adjustmentId ? (
-                                  <span className="h-4 w-4 animate-spin rounded-full border-2 border-current border-r-transparent" />
+                                {isDeleting === id ? (
+                                  <div className="h-3 w-3 animate-spin rounded-full border-2 border-red-600 border-t-transparent" />
                                 ) : (
-                                  <Trash2 className="h-4 w-4" />
+                                  <Trash2 className="h-3 w-3" />
                                 )}
                               </Button>
-                            )}
-                            {/* Delete button for all rows (permanent deletion) */}
-                            <Button
-                              type="button"
-                              variant="ghost"
-                              size="icon"
-                              className="h-7 w-7 text-gray-500 hover:text-red-600"
-                              onClick={() => handleDeleteRow(id)}
-                              title="Permanently delete from database"
-                              disabled={isDeleting === id}
-                            >
-                              {isDeleting === id ? (
-                                <div className="h-3 w-3 animate-spin rounded-full border-2 border-red-600 border-t-transparent" />
-                              ) : (
-                                <Trash2 className="h-3 w-3" />
-                              )}
-                            </Button>
-                          </div>
+                            </div>
+                          )}
                         </TableCell>
                       </TableRow>
                     );
@@ -1053,6 +1288,7 @@ export default function ReportsPage() {
                   <TableCell className="text-right font-semibold text-slate-900">
                     {formatCurrency(row.amount)}
                   </TableCell>
+                  {renderComparisonCells(row, "font-semibold text-slate-900")}
                   <TableCell className="text-right">
                     {/* Empty actions cell for summary rows */}
                   </TableCell>
@@ -1072,6 +1308,162 @@ export default function ReportsPage() {
     );
   };
 
+  const renderEquityStatement = (statement: EquityStatement) => {
+    const renderBalanceRow = (label: string, balance: EquityBalance) => (
+      <TableRow key={label} className="bg-slate-50">
+        <TableCell className="font-semibold text-slate-900">{label}</TableCell>
+        <TableCell className="text-right font-semibold text-slate-900">
+          {formatCurrency(balance.capital)}
+        </TableCell>
+        <TableCell className="text-right font-semibold text-slate-900">
+          {formatCurrency(balance.retainedEarnings)}
+        </TableCell>
+        <TableCell className="text-right font-semibold text-slate-900">
+          {formatCurrency(balance.total)}
+        </TableCell>
+      </TableRow>
+    );
+
+    return (
+      <div className="overflow-hidden rounded-xl border border-slate-200 bg-white shadow-sm">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[320px] text-slate-600">
+                Description
+              </TableHead>
+              <TableHead className="text-right text-slate-600">
+                Owner&apos;s Capital (Rp)
+              </TableHead>
+              <TableHead className="text-right text-slate-600">
+                Retained Earnings (Rp)
+              </TableHead>
+              <TableHead className="text-right text-slate-600">
+                Total (Rp)
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {renderBalanceRow("Opening Balance", statement.opening)}
+            {statement.movements.map((row) => (
+              <TableRow key={row.label}>
+                <TableCell className="font-medium text-slate-700">
+                  {row.label}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(row.capital)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(row.retainedEarnings)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(row.total)}
+                </TableCell>
+              </TableRow>
+            ))}
+            {renderBalanceRow("Closing Balance", statement.closing)}
+          </TableBody>
+        </Table>
+      </div>
+    );
+  };
+
+  const renderTrialBalance = (trialBalance: TrialBalance) => {
+    const asOf = new Date(
+      new Date(trialBalance.asOf).getTime() - 1
+    ).toLocaleDateString("en-US", { dateStyle: "long" });
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-slate-600">As of {asOf}</p>
+          {trialBalance.isBalanced ? (
+            <Badge variant="secondary">Balanced</Badge>
+          ) : trialBalance.unknownAccounts.length ? (
+            <Badge variant="destructive">
+              {trialBalance.unknownAccounts.length} unknown account(s)
+            </Badge>
+          ) : (
+            <Badge variant="destructive">
+              Out of balance by{" "}
+              {formatCurrency(trialBalance.totals.difference)}
+            </Badge>
+          )}
+        </div>
+        <div className="overflow-hidden rounded-xl border border-slate-200 bg-white shadow-sm">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[320px] text-slate-600">
+                  Account
+                </TableHead>
+                <TableHead className="text-right text-slate-600">
+                  Debit (Rp)
+                </TableHead>
+                <TableHead className="text-right text-slate-600">
+                  Credit (Rp)
+                </TableHead>
+                <TableHead className="text-right text-slate-600">
+                  Balance (Rp)
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {trialBalance.rows.map((row) => (
+                <TableRow key={row.code}>
+                  <TableCell>
+                    <button
+                      type="button"
+                      className="text-left font-medium text-slate-700 hover:text-blue-700 hover:underline"
+                      onClick={() => handleOpenLedger(row.code)}
+                    >
+                      {row.code} - {row.name}
+                    </button>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(row.debit)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(row.credit)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(row.balance)}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {trialBalance.unknownAccounts.map((row) => (
+                <TableRow key={`unknown:${row.code}`} className="bg-red-50">
+                  <TableCell className="font-medium text-red-700">
+                    {row.code} - Not in chart of accounts
+                  </TableCell>
+                  <TableCell className="text-right text-red-700">
+                    {formatCurrency(row.debit)}
+                  </TableCell>
+                  <TableCell className="text-right text-red-700">
+                    {formatCurrency(row.credit)}
+                  </TableCell>
+                  <TableCell />
+                </TableRow>
+              ))}
+              <TableRow className="bg-slate-50">
+                <TableCell className="font-semibold text-slate-900">
+                  Total
+                </TableCell>
+                <TableCell className="text-right font-semibold text-slate-900">
+                  {formatCurrency(trialBalance.totals.debit)}
+                </TableCell>
+                <TableCell className="text-right font-semibold text-slate-900">
+                  {formatCurrency(trialBalance.totals.credit)}
+                </TableCell>
+                <TableCell />
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    );
+  };
+
   const handleDownloadPDF = async () => {
     if (!data || pdfExporting) {
       return;
@@ -1110,8 +1502,6 @@ export default function ReportsPage() {
       const margin = 36;
       const usableWidth = doc.internal.pageSize.getWidth() - margin * 2;
 
-      const rangeStart = new Date(data.range.start).toLocaleDateString("id-ID");
-      const rangeEnd = new Date(data.range.end).toLocaleDateString("id-ID");
       const generatedAt = new Date(data.generatedAt).toLocaleString("id-ID");
 
       doc.setFont("helvetica", "bold");
@@ -1121,19 +1511,183 @@ export default function ReportsPage() {
       doc.setFont("helvetica", "normal");
       doc.setFontSize(11);
       doc.text(`Periode: ${data.period}`, margin, margin + 18);
-      doc.text(`Range: ${rangeStart} - ${rangeEnd}`, margin, margin + 34);
+      doc.text(`Range: ${rangeLabel}`, margin, margin + 34);
       doc.text(`Dibuat: ${generatedAt}`, margin, margin + 50);
+      if (data.comparison) {
+        doc.text(
+          `Pembanding: ${data.comparison.period}`,
+          margin,
+          margin + 66
+        );
+      }
+      const tableStartY = margin + (data.comparison ? 86 : 70);
+
+      if (reportType === "equity") {
+        const { equityStatement } = data;
+        const balanceCells = (label: string, balance: EquityBalance) =>
+          [
+            label,
+            formatCurrency(balance.capital),
+            formatCurrency(balance.retainedEarnings),
+            formatCurrency(balance.total),
+          ].map((content) => ({ content, styles: { fontStyle: "bold" } }));
+
+        autoTable(doc, {
+          startY: tableStartY,
+          head: [
+            [
+              "Description",
+              "Owner's Capital (Rp)",
+              "Retained Earnings (Rp)",
+              "Total (Rp)",
+            ],
+          ],
+          body: [
+            balanceCells("Opening Balance", equityStatement.opening),
+            ...equityStatement.movements.map((row) => [
+              row.label,
+              formatCurrency(row.capital),
+              formatCurrency(row.retainedEarnings),
+              formatCurrency(row.total),
+            ]),
+            balanceCells("Closing Balance", equityStatement.closing),
+          ],
+          margin: { left: margin, right: margin },
+          tableWidth: usableWidth,
+          styles: {
+            font: "helvetica",
+            fontSize: 10,
+            cellPadding: { top: 4, right: 6, bottom: 4, left: 6 },
+            lineColor: [226, 232, 240],
+            lineWidth: 0.5,
+          },
+          headStyles: {
+            fillColor: [248, 250, 252],
+            textColor: [71, 85, 105],
+            fontStyle: "bold",
+          },
+          columnStyles: {
+            1: { halign: "right" },
+            2: { halign: "right" },
+            3: { halign: "right" },
+          },
+        });
 
-      const sectionMap: Record<ReportType, StatementSection[]> = {
+        doc.save(`laporan-${reportType}-${periodSlug}.pdf`);
+        return;
+      }
+
+      if (reportType === "trial-balance") {
+        const { trialBalance } = data;
+        autoTable(doc, {
+          startY: tableStartY,
+          head: [["Account", "Debit (Rp)", "Credit (Rp)", "Balance (Rp)"]],
+          body: [
+            ...trialBalance.rows.map((row) => [
+              `${row.code} - ${row.name}`,
+              formatCurrency(row.debit),
+              formatCurrency(row.credit),
+              formatCurrency(row.balance),
+            ]),
+            ...trialBalance.unknownAccounts.map((row) => [
+              `${row.code} - Not in chart of accounts`,
+              formatCurrency(row.debit),
+              formatCurrency(row.credit),
+              "",
+            ]),
+            [
+              { content: "Total", styles: { fontStyle: "bold" } },
+              {
+                content: formatCurrency(trialBalance.totals.debit),
+                styles: { fontStyle: "bold" },
+              },
+              {
+                content: formatCurrency(trialBalance.totals.credit),
+                styles: { fontStyle: "bold" },
+              },
+              "",
+            ],
+          ],
+          margin: { left: margin, right: margin },
+          tableWidth: usableWidth,
+          styles: {
+            font: "helvetica",
+            fontSize: 10,
+            cellPadding: { top: 4, right: 6, bottom: 4, left: 6 },
+            lineColor: [226, 232, 240],
+            lineWidth: 0.5,
+          },
+          headStyles: {
+            fillColor: [248, 250, 252],
+            textColor: [71, 85, 105],
+            fontStyle: "bold",
+          },
+          columnStyles: {
+            1: { halign: "right" },
+            2: { halign: "right" },
+            3: { halign: "right" },
+          },
+        });
+
+        const finalY =
+          (doc as unknown as { lastAutoTable?: { finalY: number } })
+            .lastAutoTable?.finalY ?? tableStartY;
+        doc.setFontSize(10);
+        doc.text(
+          trialBalance.isBalanced
+            ? "Status: Balanced"
+            : trialBalance.unknownAccounts.length
+            ? `Status: ${trialBalance.unknownAccounts.length} unknown account(s)`
+            : `Status: Out of balance by ${formatCurrency(
+                trialBalance.totals.difference
+              )}`,
+          margin,
+          finalY + 20
+        );
+
+        doc.save(`laporan-${reportType}-${periodSlug}.pdf`);
+        return;
+      }
+
+      // Aging reports export from their own tab
+      if (!isValidAdjustmentType(reportType)) {
+        return;
+      }
+
+      const sectionMap: Record<ReportAdjustmentType, StatementSection[]> = {
         "income-statement": incomeStatementSections,
         "balance-sheet": balanceSheetSections,
         "cash-flow": cashFlowSections,
       };
 
-      let nextY = margin + 70;
+      let nextY = tableStartY;
+      const columnCount = data.comparison ? 5 : 2;
+      const comparisonPdfCells = (row: ReportRow) => {
+        if (!data.comparison) {
+          return [];
+        }
+        const variance = getRowVariance(row);
+        return variance
+          ? [
+              formatCurrency(row.comparisonAmount),
+              formatCurrency(variance.amount),
+              formatVariancePercent(variance),
+            ]
+          : ["-", "-", "-"];
+      };
 
       for (const section of sectionMap[reportType]) {
-        const head = [["Description", "Amount (Rp)"]];
+        const head = [
+          data.comparison
+            ? [
+                "Description",
+                "Amount (Rp)",
+                "Comparison (Rp)",
+                "Variance (Rp)",
+                "Variance %",
+              ]
+            : ["Description", "Amount (Rp)"],
+        ];
 
         const body: Array<
           Array<
@@ -1150,7 +1704,7 @@ export default function ReportsPage() {
         body.push([
           {
             content: `${section.letter}. ${section.title}`,
-            colSpan: 2,
+            colSpan: columnCount,
             styles: {
               fillColor: [241, 245, 249],
               textColor: [15, 23, 42],
@@ -1180,6 +1734,7 @@ export default function ReportsPage() {
                   : undefined,
               },
               formatCurrency(row.amount),
+              ...comparisonPdfCells(row),
             ];
 
             body.push(rowCells);
@@ -1190,7 +1745,7 @@ export default function ReportsPage() {
           body.push([
             {
               content: `No ${section.emptyLabel} data available.`,
-              colSpan: 2,
+              colSpan: columnCount,
               styles: {
                 textColor: [100, 116, 139],
                 fontSize: 9,
@@ -1219,6 +1774,10 @@ export default function ReportsPage() {
                   fontStyle: "bold",
                 },
               },
+              ...comparisonPdfCells(row).map((content) => ({
+                content,
+                styles: { fontStyle: "bold" },
+              })),
             ];
 
             body.push(summaryCells);
@@ -1261,7 +1820,7 @@ export default function ReportsPage() {
         nextY = (autoTableState?.finalY ?? nextY) + 20;
       }
 
-      doc.save(`laporan-${reportType}-${period}.pdf`);
+      doc.save(`laporan-${reportType}-${periodSlug}.pdf`);
     } catch (err) {
       console.error("Failed to export PDF", err);
       setError("Failed to download PDF file.");
@@ -1294,7 +1853,9 @@ export default function ReportsPage() {
               <CardContent>
                 <div className="mb-6 space-y-3">
                   <Button
-                    onClick={() => openAdjustmentDialog(reportType)}
+                    onClick={() =>
+                      openAdjustmentDialog(toAdjustmentType(reportType))
+                    }
                     className="w-full"
                   >
                     <Plus className="mr-2 h-4 w-4" /> Add Manual Row
@@ -1310,7 +1871,7 @@ export default function ReportsPage() {
                     </Button>
                   )}
                 </div>
-                <div className="grid gap-6 md:grid-cols-3">
+                <div className="grid gap-6 md:grid-cols-4">
                   <div className="space-y-2">
                     <Label htmlFor="report-type">Report Type</Label>
                     <Select
@@ -1332,6 +1893,28 @@ export default function ReportsPage() {
                         <SelectItem value="cash-flow">
                           Cash Flow Statement
                         </SelectItem>
+                        <SelectItem value="equity">
+                          Changes in Equity
+                        </SelectItem>
+                        <SelectItem value="trial-balance">
+                          Trial Balance
+                        </SelectItem>
+                        <SelectItem value="receivables-aging">
+                          Receivables Aging
+                        </SelectItem>
+                        <SelectItem value="payables-aging">
+                          Payables Aging
+                        </SelectItem>
+                        <SelectItem value="inventory-valuation">
+                          Inventory Valuation
+                        </SelectItem>
+                        <SelectItem value="stock-movements">
+                          Stock Movements
+                        </SelectItem>
+                        <SelectItem value="ppn">PPN Report</SelectItem>
+                        <SelectItem value="withholding">
+                          Withholding Tax
+                        </SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -1339,7 +1922,10 @@ export default function ReportsPage() {
                     <Label htmlFor="period">Period</Label>
                     <Select
                       value={period}
-                      onValueChange={(value) => setPeriod(value as PeriodKey)}
+                      onValueChange={(value) => {
+                        setPeriod(value as PeriodKey);
+                        setCustomRange(null);
+                      }}
                     >
                       <SelectTrigger id="period">
                         <SelectValue placeholder="Select period" />
@@ -1352,6 +1938,39 @@ export default function ReportsPage() {
                         ))}
                       </SelectContent>
                     </Select>
+                    <DateRangePicker
+                      value={customRange}
+                      onChange={setCustomRange}
+                      className="w-full"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="comparison">Compare With</Label>
+                    <Select
+                      value={comparisonOption}
+                      onValueChange={(value) =>
+                        setComparisonOption(value as ComparisonOption)
+                      }
+                    >
+                      <SelectTrigger id="comparison">
+                        <SelectValue placeholder="Select comparison" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {comparisonOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {comparisonOption === "custom" && (
+                      <DateRangePicker
+                        value={comparisonRange}
+                        onChange={setComparisonRange}
+                        placeholder="Comparison range"
+                        className="w-full"
+                      />
+                    )}
                   </div>
                   <div className="flex items-end">
                     <Button
@@ -1365,7 +1984,12 @@ export default function ReportsPage() {
                 </div>
                 {data && !loading && (
                   <p className="mt-4 text-xs text-muted-foreground">
-                    Period: {data.period} - Updated: {""}
+                    Period: {data.period}
+                    {data.period !== rangeLabel ? ` (${rangeLabel})` : ""} -
+                    {data.comparison
+                      ? ` Compared with: ${data.comparison.period} - `
+                      : " "}
+                    Updated: {""}
                     {new Date(data.generatedAt).toLocaleString("en-US")}
                   </p>
                 )}
@@ -1376,12 +2000,20 @@ export default function ReportsPage() {
               value={reportType}
               onValueChange={(value) => setReportType(value as ReportType)}
             >
-              <TabsList className="mb-4 grid w-full grid-cols-3">
+              <TabsList className="mb-4 grid w-full grid-cols-11">
                 <TabsTrigger value="income-statement">
                   Income Statement
                 </TabsTrigger>
                 <TabsTrigger value="balance-sheet">Balance Sheet</TabsTrigger>
                 <TabsTrigger value="cash-flow">Cash Flow</TabsTrigger>
+                <TabsTrigger value="equity">Equity</TabsTrigger>
+                <TabsTrigger value="trial-balance">Trial Balance</TabsTrigger>
+                <TabsTrigger value="receivables-aging">AR Aging</TabsTrigger>
+                <TabsTrigger value="payables-aging">AP Aging</TabsTrigger>
+                <TabsTrigger value="inventory-valuation">Inventory</TabsTrigger>
+                <TabsTrigger value="stock-movements">Stock Moves</TabsTrigger>
+                <TabsTrigger value="ppn">PPN</TabsTrigger>
+                <TabsTrigger value="withholding">PPh 23/4(2)</TabsTrigger>
               </TabsList>
 
               <TabsContent value="income-statement">
@@ -1389,6 +2021,16 @@ export default function ReportsPage() {
                   <CardHeader className="flex flex-row items-center justify-between">
                     <CardTitle>Income Statement</CardTitle>
                     <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleDownloadMonthlyExcel}
+                        disabled={!data || downloading}
+                        title="One column per month with a total column"
+                      >
+                        <FileSpreadsheet className="mr-2 h-4 w-4" />
+                        Monthly Excel
+                      </Button>
                       <Button
                         variant="outline"
                         size="sm"
@@ -1479,6 +2121,22 @@ export default function ReportsPage() {
                   <CardHeader className="flex flex-row items-center justify-between">
                     <CardTitle>Cash Flow Statement</CardTitle>
                     <div className="flex gap-2">
+                      <Select
+                        value={cashFlowMethod}
+                        onValueChange={(value) =>
+                          setCashFlowMethod(value as CashFlowMethod)
+                        }
+                      >
+                        <SelectTrigger className="h-9 w-[170px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="direct">Direct Method</SelectItem>
+                          <SelectItem value="indirect">
+                            Indirect Method
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
                       <Button
                         variant="outline"
                         size="sm"
@@ -1516,6 +2174,108 @@ export default function ReportsPage() {
                   </CardContent>
                 </Card>
               </TabsContent>
+
+              <TabsContent value="equity">
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between">
+                    <CardTitle>Statement of Changes in Equity</CardTitle>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleDownloadPDF}
+                        disabled={!data || pdfExporting}
+                      >
+                        <Download className="mr-2 h-4 w-4" />
+                        {pdfExporting ? "Downloading..." : "PDF"}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleDownloadExcel}
+                        disabled={!data || downloading}
+                      >
+                        <FileSpreadsheet className="mr-2 h-4 w-4" />
+                        {downloading ? "Downloading..." : "Excel"}
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {loading && !data ? (
+                      <Skeleton className="h-32 w-full" />
+                    ) : data?.equityStatement ? (
+                      renderEquityStatement(data.equityStatement)
+                    ) : (
+                      renderNoDataState(
+                        "No equity data available for this period."
+                      )
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="trial-balance">
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between">
+                    <CardTitle>Trial Balance</CardTitle>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleDownloadPDF}
+                        disabled={!data || pdfExporting}
+                      >
+                        <Download className="mr-2 h-4 w-4" />
+                        {pdfExporting ? "Downloading..." : "PDF"}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleDownloadExcel}
+                        disabled={!data || downloading}
+                      >
+                        <FileSpreadsheet className="mr-2 h-4 w-4" />
+                        {downloading ? "Downloading..." : "Excel"}
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {loading && !data ? (
+                      <Skeleton className="h-32 w-full" />
+                    ) : data?.trialBalance ? (
+                      renderTrialBalance(data.trialBalance)
+                    ) : (
+                      renderNoDataState(
+                        "No Trial Balance data available for this period."
+                      )
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="receivables-aging">
+                <AgingReport type="receivables-aging" />
+              </TabsContent>
+
+              <TabsContent value="payables-aging">
+                <AgingReport type="payables-aging" />
+              </TabsContent>
+
+              <TabsContent value="inventory-valuation">
+                <InventoryReport type="inventory-valuation" />
+              </TabsContent>
+
+              <TabsContent value="stock-movements">
+                <InventoryReport type="stock-movements" />
+              </TabsContent>
+
+              <TabsContent value="ppn">
+                <PpnReport />
+              </TabsContent>
+
+              <TabsContent value="withholding">
+                <WithholdingReport />
+              </TabsContent>
             </Tabs>
           </main>
         </div>
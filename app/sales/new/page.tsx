@@ -0,0 +1,586 @@
+"use client";
+
+import type React from "react";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Plus, Trash2, UserPlus } from "lucide-react";
+
+import { SidebarProvider } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/app-sidebar";
+import { PageHeader } from "@/components/page-header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type { CustomerSummary } from "@/lib/sales";
+
+type LineState = {
+  id: number;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+};
+
+const DEFAULT_PAYMENT_TERM_DAYS = 30;
+
+let nextLineId = 0;
+
+const createLine = (): LineState => ({
+  id: nextLineId++,
+  description: "",
+  quantity: "1",
+  unitPrice: "",
+});
+
+const lineAmount = (line: LineState) =>
+  (Number(line.quantity) || 0) * (Number(line.unitPrice) || 0);
+
+const addDays = (calendarDate: string, days: number) => {
+  const date = new Date(`${calendarDate}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return date.toLocaleDateString("en-CA");
+};
+
+const EMPTY_CUSTOMER_FORM = { name: "", email: "", phone: "", address: "" };
+
+export default function NewInvoicePage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [customers, setCustomers] = useState<CustomerSummary[]>([]);
+  const [customerId, setCustomerId] = useState("");
+  const [issueDate, setIssueDate] = useState(() =>
+    new Date().toLocaleDateString("en-CA")
+  );
+  const [dueDate, setDueDate] = useState(() =>
+    addDays(new Date().toLocaleDateString("en-CA"), DEFAULT_PAYMENT_TERM_DAYS)
+  );
+  const [memo, setMemo] = useState("");
+  const [lines, setLines] = useState<LineState[]>(() => [createLine()]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [customerDialogOpen, setCustomerDialogOpen] = useState(false);
+  const [customerForm, setCustomerForm] = useState(EMPTY_CUSTOMER_FORM);
+  const [isSavingCustomer, setIsSavingCustomer] = useState(false);
+
+  const currencyFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat("id-ID", {
+        style: "currency",
+        currency: "IDR",
+        maximumFractionDigits: 0,
+      }),
+    []
+  );
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  useEffect(() => {
+    const loadCustomers = async () => {
+      try {
+        const response = await fetch("/api/sales/customers", {
+          cache: "no-store",
+          credentials: "include",
+        });
+        if (response.status === 401) {
+          await redirectToLogin();
+          return;
+        }
+        const payload = (await response.json().catch(() => null)) as {
+          customers?: CustomerSummary[];
+        } | null;
+        setCustomers(payload?.customers ?? []);
+      } catch (error) {
+        console.error(error);
+      }
+    };
+    void loadCustomers();
+  }, [redirectToLogin]);
+
+  const total = lines.reduce((sum, line) => sum + lineAmount(line), 0);
+
+  const validationError = useMemo(() => {
+    if (!customerId) {
+      return "Select a customer.";
+    }
+    if (lines.some((line) => !line.description.trim())) {
+      return "Every line needs a description.";
+    }
+    if (lines.some((line) => !(Number(line.quantity) > 0))) {
+      return "Line quantities must be greater than zero.";
+    }
+    if (dueDate < issueDate) {
+      return "The due date cannot be before the issue date.";
+    }
+    if (total <= 0) {
+      return "Invoice total must be greater than zero.";
+    }
+    return null;
+  }, [customerId, dueDate, issueDate, lines, total]);
+
+  const updateLine = (id: number, patch: Partial<LineState>) => {
+    setLines((prev) =>
+      prev.map((line) => (line.id === id ? { ...line, ...patch } : line))
+    );
+  };
+
+  const removeLine = (id: number) => {
+    setLines((prev) =>
+      prev.length > 1 ? prev.filter((line) => line.id !== id) : prev
+    );
+  };
+
+  const handleIssueDateChange = (value: string) => {
+    // Keep the payment term when the issue date moves
+    const term = Math.round(
+      (new Date(`${dueDate}T00:00:00`).getTime() -
+        new Date(`${issueDate}T00:00:00`).getTime()) /
+        86_400_000
+    );
+    setIssueDate(value);
+    if (value) {
+      setDueDate(addDays(value, Math.max(term, 0)));
+    }
+  };
+
+  const handleCreateCustomer = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSavingCustomer(true);
+    try {
+      const response = await fetch("/api/sales/customers", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(customerForm),
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        customer?: CustomerSummary;
+        error?: string;
+      } | null;
+      if (!response.ok || !payload?.customer) {
+        throw new Error(payload?.error ?? "Failed to create customer.");
+      }
+
+      const customer = payload.customer;
+      setCustomers((prev) =>
+        [...prev, customer].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setCustomerId(customer.id);
+      setCustomerForm(EMPTY_CUSTOMER_FORM);
+      setCustomerDialogOpen(false);
+    } catch (error) {
+      toast({
+        title: "Customer not saved",
+        description:
+          error instanceof Error ? error.message : "Failed to create customer.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingCustomer(false);
+    }
+  };
+
+  const submitInvoice = async (issue: boolean) => {
+    if (validationError) {
+      toast({
+        title: "Invoice is incomplete",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/sales/invoices", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          customerId,
+          issueDate,
+          dueDate,
+          memo,
+          issue,
+          lines: lines.map((line) => ({
+            description: line.description,
+            quantity: Number(line.quantity),
+            unitPrice: Number(line.unitPrice) || 0,
+          })),
+        }),
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        message?: string;
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to save invoice.");
+      }
+
+      toast({
+        title: payload?.message ?? "Invoice saved.",
+        description: issue
+          ? "The receivable has been posted to the ledger."
+          : "Issue it from the sales page when it is ready.",
+      });
+      router.push("/sales");
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description:
+          error instanceof Error ? error.message : "Failed to save invoice.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    void submitInvoice(true);
+  };
+
+  return (
+    <SidebarProvider>
+      <div className="flex min-h-screen bg-gray-50">
+        <AppSidebar activeMenu="sales" />
+
+        <div className="flex-1 overflow-auto">
+          <PageHeader title="Sales - New Invoice" />
+
+          <main className="p-6">
+            <Card className="mx-auto max-w-5xl">
+              <CardHeader>
+                <CardTitle>New Invoice</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form className="space-y-6" onSubmit={handleSubmit}>
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="invoice-customer">Customer</Label>
+                      <div className="flex gap-2">
+                        <Select
+                          value={customerId}
+                          onValueChange={setCustomerId}
+                        >
+                          <SelectTrigger id="invoice-customer">
+                            <SelectValue placeholder="Select customer" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {customers.map((customer) => (
+                              <SelectItem key={customer.id} value={customer.id}>
+                                {customer.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setCustomerDialogOpen(true)}
+                          title="New customer"
+                        >
+                          <UserPlus className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="invoice-issue-date">Issue Date</Label>
+                      <Input
+                        id="invoice-issue-date"
+                        type="date"
+                        value={issueDate}
+                        onChange={(event) =>
+                          handleIssueDateChange(event.target.value)
+                        }
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="invoice-due-date">Due Date</Label>
+                      <Input
+                        id="invoice-due-date"
+                        type="date"
+                        value={dueDate}
+                        onChange={(event) => setDueDate(event.target.value)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2 md:col-span-3">
+                      <Label htmlFor="invoice-memo">Memo</Label>
+                      <Input
+                        id="invoice-memo"
+                        value={memo}
+                        onChange={(event) => setMemo(event.target.value)}
+                        placeholder="Consulting services March 2025"
+                      />
+                    </div>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Description</TableHead>
+                        <TableHead className="w-[120px] text-right">
+                          Quantity
+                        </TableHead>
+                        <TableHead className="w-[180px] text-right">
+                          Unit Price
+                        </TableHead>
+                        <TableHead className="w-[180px] text-right">
+                          Amount
+                        </TableHead>
+                        <TableHead className="w-[48px]" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lines.map((line) => (
+                        <TableRow key={line.id}>
+                          <TableCell>
+                            <Input
+                              value={line.description}
+                              onChange={(event) =>
+                                updateLine(line.id, {
+                                  description: event.target.value,
+                                })
+                              }
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="any"
+                              className="text-right"
+                              value={line.quantity}
+                              onChange={(event) =>
+                                updateLine(line.id, {
+                                  quantity: event.target.value,
+                                })
+                              }
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="any"
+                              className="text-right"
+                              value={line.unitPrice}
+                              onChange={(event) =>
+                                updateLine(line.id, {
+                                  unitPrice: event.target.value,
+                                })
+                              }
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {currencyFormatter.format(lineAmount(line))}
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-gray-500 hover:text-red-600"
+                              onClick={() => removeLine(line.id)}
+                              disabled={lines.length <= 1}
+                              title="Remove line"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                    <TableFooter>
+                      <TableRow>
+                        <TableCell colSpan={3} className="font-semibold">
+                          Total
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">
+                          {currencyFormatter.format(total)}
+                        </TableCell>
+                        <TableCell />
+                      </TableRow>
+                    </TableFooter>
+                  </Table>
+
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() =>
+                        setLines((prev) => [...prev, createLine()])
+                      }
+                    >
+                      <Plus className="mr-2 h-4 w-4" /> Add Line
+                    </Button>
+                    {validationError ? (
+                      <p className="text-sm text-destructive">
+                        {validationError}
+                      </p>
+                    ) : null}
+                  </div>
+
+                  <div className="flex gap-4">
+                    <Button
+                      type="submit"
+                      className="flex-1"
+                      disabled={isSubmitting || Boolean(validationError)}
+                    >
+                      {isSubmitting ? "Saving..." : "Issue Invoice"}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      className="flex-1"
+                      disabled={isSubmitting || Boolean(validationError)}
+                      onClick={() => void submitInvoice(false)}
+                    >
+                      Save as Draft
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => router.push("/sales")}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          </main>
+        </div>
+      </div>
+
+      <Dialog open={customerDialogOpen} onOpenChange={setCustomerDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New Customer</DialogTitle>
+          </DialogHeader>
+          <form className="space-y-4" onSubmit={handleCreateCustomer}>
+            <div className="space-y-2">
+              <Label htmlFor="customer-name">Name</Label>
+              <Input
+                id="customer-name"
+                value={customerForm.name}
+                onChange={(event) =>
+                  setCustomerForm((prev) => ({
+                    ...prev,
+                    name: event.target.value,
+                  }))
+                }
+                required
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="customer-email">Email</Label>
+                <Input
+                  id="customer-email"
+                  type="email"
+                  value={customerForm.email}
+                  onChange={(event) =>
+                    setCustomerForm((prev) => ({
+                      ...prev,
+                      email: event.target.value,
+                    }))
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="customer-phone">Phone</Label>
+                <Input
+                  id="customer-phone"
+                  value={customerForm.phone}
+                  onChange={(event) =>
+                    setCustomerForm((prev) => ({
+                      ...prev,
+                      phone: event.target.value,
+                    }))
+                  }
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="customer-address">Address</Label>
+              <Input
+                id="customer-address"
+                value={customerForm.address}
+                onChange={(event) =>
+                  setCustomerForm((prev) => ({
+                    ...prev,
+                    address: event.target.value,
+                  }))
+                }
+              />
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setCustomerDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSavingCustomer}>
+                {isSavingCustomer ? "Saving..." : "Save Customer"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </SidebarProvider>
+  );
+}
@@ -1,9 +1,41 @@
 "use client";
+
+import type React from "react";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
+import {
+  Ban,
+  Banknote,
+  Loader2,
+  MoreVertical,
+  Plus,
+  Send,
+  Trash2,
+} from "lucide-react";
+
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
+import { PageHeader } from "@/components/page-header";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
 import {
   Table,
   TableBody,
@@ -12,16 +44,275 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Plus, FileText } from "lucide-react";
-import { PageHeader } from "@/components/page-header";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  CustomerSummary,
+  InvoiceStatus,
+  InvoiceSummary,
+  InvoiceTotals,
+} from "@/lib/sales";
+
+type InvoiceAction = "issue" | "void" | "delete";
+
+const STATUS_BADGES: Record<
+  InvoiceStatus,
+  {
+    label: string;
+    variant: "default" | "secondary" | "outline" | "destructive";
+  }
+> = {
+  draft: { label: "Draft", variant: "outline" },
+  sent: { label: "Sent", variant: "secondary" },
+  partially_paid: { label: "Partially Paid", variant: "secondary" },
+  paid: { label: "Paid", variant: "default" },
+  void: { label: "Void", variant: "outline" },
+};
+
+const ACTION_CONFIRMATIONS: Record<InvoiceAction, string> = {
+  issue: "Issue this invoice? Its total will be posted to receivables.",
+  void: "Void this invoice? Its receivable and payments will be reversed.",
+  delete: "Delete this draft invoice?",
+};
 
 export default function SalesPage() {
   const router = useRouter();
+  const { toast } = useToast();
+  const [invoices, setInvoices] = useState<InvoiceSummary[]>([]);
+  const [totals, setTotals] = useState<InvoiceTotals | null>(null);
+  const [customers, setCustomers] = useState<CustomerSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionId, setActionId] = useState<string | null>(null);
+  const [payingInvoice, setPayingInvoice] = useState<InvoiceSummary | null>(
+    null
+  );
+  const [paymentDate, setPaymentDate] = useState("");
+  const [paymentAmount, setPaymentAmount] = useState("");
+  const [paymentMemo, setPaymentMemo] = useState("");
+  const [isRecording, setIsRecording] = useState(false);
+
+  const currencyFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat("id-ID", {
+        style: "currency",
+        currency: "IDR",
+        maximumFractionDigits: 0,
+      }),
+    []
+  );
+
+  const formatCurrency = (value?: number) =>
+    currencyFormatter.format(value ?? 0);
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString("en-US", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [invoicesResponse, customersResponse] = await Promise.all([
+        fetch("/api/sales/invoices", {
+          cache: "no-store",
+          credentials: "include",
+        }),
+        fetch("/api/sales/customers", {
+          cache: "no-store",
+          credentials: "include",
+        }),
+      ]);
+
+      if (
+        invoicesResponse.status === 401 ||
+        customersResponse.status === 401
+      ) {
+        await redirectToLogin();
+        return;
+      }
+
+      const invoicesPayload = (await invoicesResponse
+        .json()
+        .catch(() => null)) as {
+        invoices?: InvoiceSummary[];
+        totals?: InvoiceTotals;
+        error?: string;
+      } | null;
+      const customersPayload = (await customersResponse
+        .json()
+        .catch(() => null)) as {
+        customers?: CustomerSummary[];
+      } | null;
+
+      if (!invoicesResponse.ok || !invoicesPayload?.invoices) {
+        throw new Error(invoicesPayload?.error ?? "Failed to load invoices.");
+      }
+
+      setInvoices(invoicesPayload.invoices);
+      setTotals(invoicesPayload.totals ?? null);
+      setCustomers(customersPayload?.customers ?? []);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load invoices."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [redirectToLogin]);
+
+  useEffect(() => {
+    void loadData();
+  }, [loadData]);
+
+  const runAction = async (invoice: InvoiceSummary, action: InvoiceAction) => {
+    if (!window.confirm(ACTION_CONFIRMATIONS[action])) {
+      return;
+    }
+
+    setActionId(invoice.id);
+    try {
+      const url = `/api/sales/invoices/${encodeURIComponent(invoice.id)}`;
+      const response = await fetch(
+        url,
+        action === "delete"
+          ? { method: "DELETE", credentials: "include" }
+          : {
+              method: "POST",
+              credentials: "include",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ action }),
+            }
+      );
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        message?: string;
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to update invoice.");
+      }
+
+      toast({
+        title: payload?.message ?? "Invoice updated.",
+        description: `Invoice ${invoice.number}`,
+      });
+      await loadData();
+    } catch (err) {
+      toast({
+        title: "Update failed",
+        description:
+          err instanceof Error ? err.message : "Failed to update invoice.",
+        variant: "destructive",
+      });
+    } finally {
+      setActionId(null);
+    }
+  };
 
-  const handleNewSale = () => {
-    router.push("/sales/new");
+  const openPaymentDialog = (invoice: InvoiceSummary) => {
+    setPayingInvoice(invoice);
+    setPaymentDate(new Date().toLocaleDateString("en-CA"));
+    setPaymentAmount(String(invoice.balance));
+    setPaymentMemo("");
   };
 
+  const handleRecordPayment = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!payingInvoice) {
+      return;
+    }
+
+    setIsRecording(true);
+    try {
+      const response = await fetch(
+        `/api/sales/invoices/${encodeURIComponent(payingInvoice.id)}`,
+        {
+          method: "POST",
+          credentials: "include",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            action: "pay",
+            date: paymentDate,
+            amount: Number(paymentAmount),
+            memo: paymentMemo,
+          }),
+        }
+      );
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to record payment.");
+      }
+
+      toast({
+        title: "Payment recorded",
+        description: `Invoice ${payingInvoice.number}`,
+      });
+      setPayingInvoice(null);
+      await loadData();
+    } catch (err) {
+      toast({
+        title: "Payment failed",
+        description:
+          err instanceof Error ? err.message : "Failed to record payment.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  const renderStat = (title: string, value: number, note?: string) => (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-gray-500">
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading && !totals ? (
+          <Skeleton className="h-8 w-32" />
+        ) : (
+          <div className="text-2xl font-bold">{formatCurrency(value)}</div>
+        )}
+        {note ? <p className="text-xs text-muted-foreground">{note}</p> : null}
+      </CardContent>
+    </Card>
+  );
+
+  const customersWithBalance = customers.filter(
+    (customer) => customer.balance > 0
+  );
+
   return (
     <SidebarProvider>
       <div className="flex min-h-screen bg-gray-50">
@@ -29,99 +320,198 @@ export default function SalesPage() {
 
         <div className="flex-1 overflow-auto">
           <PageHeader title="Sales">
-            <Button onClick={handleNewSale}>
-              <Plus className="mr-2 h-4 w-4" /> New Sale
+            <Button onClick={() => router.push("/sales/new")}>
+              <Plus className="mr-2 h-4 w-4" /> New Invoice
             </Button>
           </PageHeader>
 
           <main className="p-6">
+            {error && <p className="mb-4 text-sm text-destructive">{error}</p>}
+
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium text-gray-500">
-                    Total Sales (MTD)
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold text-muted-foreground">
-                    --
-                  </div>
-                  <p className="text-xs text-muted-foreground">Awaiting data</p>
-                </CardContent>
-              </Card>
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium text-gray-500">
-                    Orders (MTD)
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold text-muted-foreground">
-                    --
-                  </div>
-                  <p className="text-xs text-muted-foreground">Awaiting data</p>
-                </CardContent>
-              </Card>
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium text-gray-500">
-                    Average Order Value
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold text-muted-foreground">
-                    --
-                  </div>
-                  <p className="text-xs text-muted-foreground">Awaiting data</p>
-                </CardContent>
-              </Card>
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium text-gray-500">
-                    Pending Orders
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold text-muted-foreground">
-                    --
-                  </div>
-                </CardContent>
-              </Card>
+              {renderStat(
+                "Outstanding Receivables",
+                totals?.outstanding ?? 0,
+                totals?.draftCount
+                  ? `${totals.draftCount} draft invoice(s) not yet issued`
+                  : undefined
+              )}
+              {renderStat("Overdue", totals?.overdue ?? 0)}
+              {renderStat("Invoiced (MTD)", totals?.invoicedThisMonth ?? 0)}
+              {renderStat("Collected (MTD)", totals?.collectedThisMonth ?? 0)}
             </div>
 
             <Card className="mt-6">
-              <CardHeader className="flex flex-row items-center">
-                <CardTitle>Recent Orders</CardTitle>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="ml-auto"
-                  onClick={() => router.push("/reports")}
-                >
-                  <FileText className="mr-2 h-4 w-4" /> View Reports
-                </Button>
+              <CardHeader>
+                <CardTitle>Invoices</CardTitle>
               </CardHeader>
               <CardContent>
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Order ID</TableHead>
+                      <TableHead>Invoice</TableHead>
                       <TableHead>Customer</TableHead>
-                      <TableHead>Date</TableHead>
+                      <TableHead>Issued</TableHead>
+                      <TableHead>Due</TableHead>
                       <TableHead>Status</TableHead>
-                      <TableHead>Amount</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
+                    {loading && !invoices.length ? (
+                      <TableRow>
+                        <TableCell
+                          colSpan={8}
+                          className="text-center text-muted-foreground"
+                        >
+                          Loading invoices...
+                        </TableCell>
+                      </TableRow>
+                    ) : invoices.length ? (
+                      invoices.map((invoice) => (
+                        <TableRow key={invoice.id}>
+                          <TableCell className="font-medium">
+                            {invoice.number}
+                          </TableCell>
+                          <TableCell>{invoice.customerName}</TableCell>
+                          <TableCell>{formatDate(invoice.issueDate)}</TableCell>
+                          <TableCell>{formatDate(invoice.dueDate)}</TableCell>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Badge
+                                variant={STATUS_BADGES[invoice.status].variant}
+                              >
+                                {STATUS_BADGES[invoice.status].label}
+                              </Badge>
+                              {invoice.isOverdue ? (
+                                <Badge variant="destructive">Overdue</Badge>
+                              ) : null}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(invoice.total)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(invoice.balance)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  disabled={
+                                    actionId === invoice.id ||
+                                    invoice.status === "void"
+                                  }
+                                >
+                                  {actionId === invoice.id ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <MoreVertical className="h-4 w-4" />
+                                  )}
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                {invoice.status === "draft" ? (
+                                  <DropdownMenuItem
+                                    onClick={() => runAction(invoice, "issue")}
+                                  >
+                                    <Send className="mr-2 h-4 w-4" /> Issue
+                                  </DropdownMenuItem>
+                                ) : null}
+                                {invoice.balance > 0 ? (
+                                  <DropdownMenuItem
+                                    onClick={() => openPaymentDialog(invoice)}
+                                  >
+                                    <Banknote className="mr-2 h-4 w-4" />
+                                    Record Payment
+                                  </DropdownMenuItem>
+                                ) : null}
+                                {invoice.status === "draft" ? (
+                                  <DropdownMenuItem
+                                    className="text-destructive focus:text-destructive"
+                                    onClick={() =>
+                                      runAction(invoice, "delete")
+                                    }
+                                  >
+                                    <Trash2 className="mr-2 h-4 w-4" /> Delete
+                                  </DropdownMenuItem>
+                                ) : (
+                                  <DropdownMenuItem
+                                    className="text-destructive focus:text-destructive"
+                                    onClick={() => runAction(invoice, "void")}
+                                  >
+                                    <Ban className="mr-2 h-4 w-4" /> Void
+                                  </DropdownMenuItem>
+                                )}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell
+                          colSpan={8}
+                          className="text-center text-muted-foreground"
+                        >
+                          No invoices yet.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Customer Balances</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
                     <TableRow>
-                      <TableCell
-                        colSpan={6}
-                        className="text-center text-muted-foreground"
-                      >
-                        No sales orders available.
-                      </TableCell>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead className="text-right">
+                        Open Invoices
+                      </TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
                     </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {customersWithBalance.length ? (
+                      customersWithBalance.map((customer) => (
+                        <TableRow key={customer.id}>
+                          <TableCell className="font-medium">
+                            {customer.name}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {customer.email ?? "-"}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {customer.openInvoices}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(customer.balance)}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell
+                          colSpan={4}
+                          className="text-center text-muted-foreground"
+                        >
+                          No customer owes anything.
+                        </TableCell>
+                      </TableRow>
+                    )}
                   </TableBody>
                 </Table>
               </CardContent>
@@ -129,6 +519,72 @@ export default function SalesPage() {
           </main>
         </div>
       </div>
+
+      <Dialog
+        open={Boolean(payingInvoice)}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPayingInvoice(null);
+          }
+        }}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              Record Payment
+              {payingInvoice ? ` - ${payingInvoice.number}` : ""}
+            </DialogTitle>
+          </DialogHeader>
+          <form className="space-y-4" onSubmit={handleRecordPayment}>
+            <p className="text-sm text-muted-foreground">
+              Balance due: {formatCurrency(payingInvoice?.balance)}
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="payment-date">Date</Label>
+              <Input
+                id="payment-date"
+                type="date"
+                value={paymentDate}
+                onChange={(event) => setPaymentDate(event.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-amount">Amount</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                min="0"
+                step="any"
+                value={paymentAmount}
+                onChange={(event) => setPaymentAmount(event.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-memo">Memo</Label>
+              <Input
+                id="payment-memo"
+                value={paymentMemo}
+                onChange={(event) => setPaymentMemo(event.target.value)}
+                placeholder="Bank transfer"
+              />
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setPayingInvoice(null)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isRecording}>
+                {isRecording ? "Saving..." : "Record Payment"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
     </SidebarProvider>
   );
 }
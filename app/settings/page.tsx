@@ -25,8 +25,22 @@ import {
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Bell, User, Building, Shield, Globe, Moon } from "lucide-react";
+import {
+  Bell,
+  BookOpen,
+  CalendarCheck,
+  User,
+  Building,
+  Shield,
+  Globe,
+  Moon,
+  Percent,
+} from "lucide-react";
 import { PageHeader } from "@/components/page-header";
+import { ChartOfAccountsManager } from "@/components/chart-of-accounts-manager";
+import { AccountingPeriodsManager } from "@/components/accounting-periods-manager";
+import { FiscalYearSettings } from "@/components/fiscal-year-settings";
+import { TaxCodesManager } from "@/components/tax-codes-manager";
 
 export default function SettingsPage() {
   const router = useRouter();
@@ -49,7 +63,7 @@ export default function SettingsPage() {
               onValueChange={setActiveTab}
               className="space-y-6"
             >
-              <TabsList className="grid w-full grid-cols-5">
+              <TabsList className="grid w-full grid-cols-8">
                 <TabsTrigger
                   value="account"
                   className="flex items-center gap-2"
@@ -64,6 +78,27 @@ export default function SettingsPage() {
                   <Building className="h-4 w-4" />
                   <span className="hidden sm:inline">Company</span>
                 </TabsTrigger>
+                <TabsTrigger
+                  value="accounts"
+                  className="flex items-center gap-2"
+                >
+                  <BookOpen className="h-4 w-4" />
+                  <span className="hidden sm:inline">Accounts</span>
+                </TabsTrigger>
+                <TabsTrigger
+                  value="periods"
+                  className="flex items-center gap-2"
+                >
+                  <CalendarCheck className="h-4 w-4" />
+                  <span className="hidden sm:inline">Periods</span>
+                </TabsTrigger>
+                <TabsTrigger
+                  value="taxes"
+                  className="flex items-center gap-2"
+                >
+                  <Percent className="h-4 w-4" />
+                  <span className="hidden sm:inline">Taxes</span>
+                </TabsTrigger>
                 <TabsTrigger
                   value="security"
                   className="flex items-center gap-2"
@@ -277,6 +312,21 @@ export default function SettingsPage() {
                     <Button onClick={handleSaveChanges}>Save Changes</Button>
                   </CardFooter>
                 </Card>
+                <div className="mt-6">
+                  <FiscalYearSettings />
+                </div>
+              </TabsContent>
+
+              <TabsContent value="accounts">
+                <ChartOfAccountsManager />
+              </TabsContent>
+
+              <TabsContent value="periods">
+                <AccountingPeriodsManager />
+              </TabsContent>
+
+              <TabsContent value="taxes">
+                <TaxCodesManager />
               </TabsContent>
 
               <TabsContent value="security">
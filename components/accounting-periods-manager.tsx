@@ -0,0 +1,277 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { AccountingPeriodSummary, PeriodStatus } from "@/lib/periods";
+
+type PeriodAction = "close" | "reopen" | "lock" | "unlock";
+
+const STATUS_BADGES: Record<
+  PeriodStatus,
+  { label: string; variant: "default" | "secondary" | "outline" }
+> = {
+  open: { label: "Open", variant: "outline" },
+  closed: { label: "Closed", variant: "secondary" },
+  locked: { label: "Locked", variant: "default" },
+};
+
+const ACTION_CONFIRMATIONS: Record<PeriodAction, string> = {
+  close:
+    "Post a closing entry moving this month's revenue and expenses into retained earnings?",
+  reopen: "Reverse the closing entry and reopen this month?",
+  lock:
+    "Lock this month? Transactions and adjustments dated in it will be rejected.",
+  unlock: "Unlock this month? It will return to closed.",
+};
+
+const formatPeriod = (period: AccountingPeriodSummary) =>
+  new Date(period.start).toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+  });
+
+export function AccountingPeriodsManager() {
+  const router = useRouter();
+  const [periods, setPeriods] = useState<AccountingPeriodSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingPeriod, setPendingPeriod] = useState<string | null>(null);
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  const loadPeriods = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/periods", {
+        cache: "no-store",
+        credentials: "include",
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        periods?: AccountingPeriodSummary[];
+        error?: string;
+      } | null;
+
+      if (!response.ok || !payload?.periods) {
+        throw new Error(payload?.error ?? "Failed to load accounting periods.");
+      }
+
+      setPeriods(payload.periods);
+    } catch (err) {
+      console.error(err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to load accounting periods."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [redirectToLogin]);
+
+  useEffect(() => {
+    void loadPeriods();
+  }, [loadPeriods]);
+
+  const runAction = async (
+    period: AccountingPeriodSummary,
+    action: PeriodAction
+  ) => {
+    if (!window.confirm(ACTION_CONFIRMATIONS[action])) {
+      return;
+    }
+
+    setPendingPeriod(period.period);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/periods/${encodeURIComponent(period.period)}`,
+        {
+          method: "POST",
+          credentials: "include",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action }),
+        }
+      );
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as {
+          error?: string;
+        } | null;
+        setError(payload?.error ?? "Request failed.");
+        return;
+      }
+
+      await loadPeriods();
+    } catch (err) {
+      console.error(err);
+      setError("Failed to update accounting period.");
+    } finally {
+      setPendingPeriod(null);
+    }
+  };
+
+  const renderActions = (period: AccountingPeriodSummary) => {
+    const busy = pendingPeriod === period.period;
+    const ended = new Date(period.end) <= new Date();
+
+    if (busy) {
+      return <Loader2 className="ml-auto h-4 w-4 animate-spin" />;
+    }
+
+    switch (period.status) {
+      case "open":
+        return (
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!ended}
+            title={ended ? undefined : "The month has not ended yet"}
+            onClick={() => runAction(period, "close")}
+          >
+            Close Month
+          </Button>
+        );
+      case "closed":
+        return (
+          <div className="flex justify-end gap-2">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => runAction(period, "reopen")}
+            >
+              Reopen
+            </Button>
+            <Button size="sm" onClick={() => runAction(period, "lock")}>
+              Lock
+            </Button>
+          </div>
+        );
+      case "locked":
+        return (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => runAction(period, "unlock")}
+          >
+            Unlock
+          </Button>
+        );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Accounting Periods</CardTitle>
+        <CardDescription>
+          Closing a month moves its revenue and expenses into retained
+          earnings. Closed and locked months reject new, edited or deleted
+          entries dated inside them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Period</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Closed</TableHead>
+              <TableHead>Locked</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading && !periods.length ? (
+              <TableRow>
+                <TableCell
+                  colSpan={5}
+                  className="text-center text-muted-foreground"
+                >
+                  Loading periods...
+                </TableCell>
+              </TableRow>
+            ) : periods.length ? (
+              periods.map((period) => (
+                <TableRow key={period.period}>
+                  <TableCell className="font-medium">
+                    {formatPeriod(period)}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_BADGES[period.status].variant}>
+                      {STATUS_BADGES[period.status].label}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {period.closedAt
+                      ? new Date(period.closedAt).toLocaleDateString("en-US")
+                      : "-"}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {period.lockedAt
+                      ? new Date(period.lockedAt).toLocaleDateString("en-US")
+                      : "-"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {renderActions(period)}
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={5}
+                  className="text-center text-muted-foreground"
+                >
+                  No periods yet.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,409 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Download, FileSpreadsheet } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AGING_BUCKETS,
+  type AgingReport as AgingReportData,
+  type AgingReportType,
+} from "@/lib/aging-schema";
+
+const REPORT_COPY: Record<
+  AgingReportType,
+  { title: string; counterparty: string; empty: string }
+> = {
+  "receivables-aging": {
+    title: "Receivables Aging",
+    counterparty: "Customer",
+    empty: "No customer owed anything on this date.",
+  },
+  "payables-aging": {
+    title: "Payables Aging",
+    counterparty: "Vendor",
+    empty: "Nothing was owed to vendors on this date.",
+  },
+};
+
+type AgingReportProps = {
+  type: AgingReportType;
+};
+
+export function AgingReport({ type }: AgingReportProps) {
+  const router = useRouter();
+  const copy = REPORT_COPY[type];
+  const [asOf, setAsOf] = useState(() =>
+    new Date().toLocaleDateString("en-CA")
+  );
+  const [report, setReport] = useState<AgingReportData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [pdfExporting, setPdfExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currencyFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat("id-ID", {
+        style: "currency",
+        currency: "IDR",
+        maximumFractionDigits: 0,
+      }),
+    []
+  );
+
+  const formatCurrency = (value: number) => currencyFormatter.format(value);
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  const loadReport = useCallback(async () => {
+    if (!asOf) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ type, asOf });
+      const response = await fetch(`/api/reports?${params.toString()}`, {
+        cache: "no-store",
+        credentials: "include",
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as
+        | (AgingReportData & { error?: string })
+        | null;
+
+      if (!response.ok || !payload?.rows) {
+        throw new Error(payload?.error ?? `Failed to load ${copy.title}.`);
+      }
+
+      setReport(payload);
+    } catch (err) {
+      console.error(err);
+      setError(
+        err instanceof Error ? err.message : `Failed to load ${copy.title}.`
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [asOf, copy.title, redirectToLogin, type]);
+
+  useEffect(() => {
+    void loadReport();
+  }, [loadReport]);
+
+  const handleDownloadExcel = async () => {
+    if (!report || downloading) {
+      return;
+    }
+
+    setError(null);
+    setDownloading(true);
+    try {
+      const params = new URLSearchParams({ type, asOf });
+      const response = await fetch(`/api/reports/export?${params.toString()}`, {
+        credentials: "include",
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(`Failed to download Excel (${response.status})`);
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `laporan-${type}-${asOf}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to download Excel file.");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleDownloadPDF = async () => {
+    if (!report || pdfExporting) {
+      return;
+    }
+
+    setError(null);
+    setPdfExporting(true);
+    try {
+      const [{ jsPDF }, autoTableModule] = await Promise.all([
+        import("jspdf"),
+        import("jspdf-autotable"),
+      ]);
+
+      const autoTable = (autoTableModule.default ?? autoTableModule) as (
+        doc: unknown,
+        options: unknown
+      ) => { finalY?: number };
+
+      const doc = new jsPDF({
+        orientation: "landscape",
+        unit: "pt",
+        format: "a4",
+      });
+
+      const margin = 36;
+      const usableWidth = doc.internal.pageSize.getWidth() - margin * 2;
+      const boldCell = (content: string) => ({
+        content,
+        styles: { fontStyle: "bold" },
+      });
+
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(18);
+      doc.text(copy.title, margin, margin);
+
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(11);
+      doc.text(
+        `Per tanggal: ${new Date(report.asOf).toLocaleDateString("id-ID", {
+          dateStyle: "long",
+        })}`,
+        margin,
+        margin + 18
+      );
+      doc.text(
+        `Dibuat: ${new Date(report.generatedAt).toLocaleString("id-ID")}`,
+        margin,
+        margin + 34
+      );
+
+      autoTable(doc, {
+        startY: margin + 54,
+        head: [
+          [
+            copy.counterparty,
+            ...AGING_BUCKETS.map((bucket) => `${bucket.label} (Rp)`),
+            "Total (Rp)",
+          ],
+        ],
+        body: [
+          ...report.rows.map((row) => [
+            row.name,
+            ...AGING_BUCKETS.map((bucket) =>
+              formatCurrency(row.buckets[bucket.value])
+            ),
+            formatCurrency(row.total),
+          ]),
+          [
+            boldCell("Total"),
+            ...AGING_BUCKETS.map((bucket) =>
+              boldCell(formatCurrency(report.totals[bucket.value]))
+            ),
+            boldCell(formatCurrency(report.totals.total)),
+          ],
+        ],
+        margin: { left: margin, right: margin },
+        tableWidth: usableWidth,
+        styles: {
+          font: "helvetica",
+          fontSize: 10,
+          cellPadding: { top: 4, right: 6, bottom: 4, left: 6 },
+          lineColor: [226, 232, 240],
+          lineWidth: 0.5,
+        },
+        headStyles: {
+          fillColor: [248, 250, 252],
+          textColor: [71, 85, 105],
+          fontStyle: "bold",
+        },
+        // Every column after the counterparty holds an amount
+        columnStyles: Object.fromEntries(
+          Array.from({ length: AGING_BUCKETS.length + 1 }, (_, index) => [
+            index + 1,
+            { halign: "right" },
+          ])
+        ),
+      });
+
+      doc.save(`laporan-${type}-${asOf}.pdf`);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to download PDF file.");
+    } finally {
+      setPdfExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>{copy.title}</CardTitle>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDownloadPDF}
+            disabled={!report || pdfExporting}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            {pdfExporting ? "Downloading..." : "PDF"}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDownloadExcel}
+            disabled={!report || downloading}
+          >
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            {downloading ? "Downloading..." : "Excel"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${type}-as-of`}>As Of</Label>
+            <Input
+              id={`${type}-as-of`}
+              type="date"
+              value={asOf}
+              onChange={(event) => setAsOf(event.target.value)}
+              className="w-44"
+            />
+          </div>
+          {report && report.totals.total > 0 && (
+            <Badge
+              variant={
+                report.totals.total > report.totals.current
+                  ? "destructive"
+                  : "secondary"
+              }
+            >
+              {formatCurrency(report.totals.total - report.totals.current)}{" "}
+              past due
+            </Badge>
+          )}
+        </div>
+
+        {error && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {loading && !report ? (
+          <Skeleton className="h-32 w-full" />
+        ) : report && report.rows.length ? (
+          <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[200px] text-slate-600">
+                    {copy.counterparty}
+                  </TableHead>
+                  {AGING_BUCKETS.map((bucket) => (
+                    <TableHead
+                      key={bucket.value}
+                      className="text-right text-slate-600"
+                    >
+                      {bucket.label}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right text-slate-600">
+                    Total
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.map((row) => (
+                  <TableRow key={row.counterpartyId}>
+                    <TableCell>
+                      <div className="font-medium text-slate-700">
+                        {row.name}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {row.documentCount} open{" "}
+                        {row.documentCount === 1 ? "document" : "documents"}
+                      </div>
+                    </TableCell>
+                    {AGING_BUCKETS.map((bucket) => (
+                      <TableCell
+                        key={bucket.value}
+                        className={
+                          bucket.value !== "current" &&
+                          row.buckets[bucket.value] > 0
+                            ? "text-right text-red-600"
+                            : "text-right"
+                        }
+                      >
+                        {formatCurrency(row.buckets[bucket.value])}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-medium">
+                      {formatCurrency(row.total)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="bg-slate-50">
+                  <TableCell className="font-semibold text-slate-900">
+                    Total
+                  </TableCell>
+                  {AGING_BUCKETS.map((bucket) => (
+                    <TableCell
+                      key={bucket.value}
+                      className="text-right font-semibold text-slate-900"
+                    >
+                      {formatCurrency(report.totals[bucket.value])}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right font-semibold text-slate-900">
+                    {formatCurrency(report.totals.total)}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="rounded-lg border border-dashed border-slate-200 bg-white p-6 text-center text-sm text-muted-foreground">
+            {copy.empty}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,548 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { AccountSummary } from "@/lib/accounts";
+import {
+  ACCOUNT_TYPES,
+  CASH_FLOW_CATEGORIES,
+  type AccountType,
+} from "@/lib/chart-of-accounts";
+
+const NO_VALUE = "none";
+
+const TYPE_LABELS: Record<AccountType, string> = {
+  asset: "Asset",
+  liability: "Liability",
+  equity: "Equity",
+  revenue: "Revenue",
+  expense: "Expense",
+};
+
+type AccountFormState = {
+  code: string;
+  name: string;
+  type: AccountType;
+  parentCode: string;
+  cashFlowCategory: string;
+  isCash: boolean;
+};
+
+const EMPTY_FORM: AccountFormState = {
+  code: "",
+  name: "",
+  type: "expense",
+  parentCode: NO_VALUE,
+  cashFlowCategory: NO_VALUE,
+  isCash: false,
+};
+
+/** Order accounts parent-first so sub-accounts render under their parent. */
+function sortAsTree(accounts: AccountSummary[]) {
+  const byParent = new Map<string, AccountSummary[]>();
+  const codes = new Set(accounts.map((account) => account.code));
+
+  accounts.forEach((account) => {
+    const parent =
+      account.parentCode && codes.has(account.parentCode)
+        ? account.parentCode
+        : "";
+    byParent.set(parent, [...(byParent.get(parent) ?? []), account]);
+  });
+
+  const ordered: Array<{ account: AccountSummary; depth: number }> = [];
+  const visit = (parent: string, depth: number) => {
+    (byParent.get(parent) ?? [])
+      .sort((a, b) => a.code.localeCompare(b.code))
+      .forEach((account) => {
+        ordered.push({ account, depth });
+        visit(account.code, depth + 1);
+      });
+  };
+  visit("", 0);
+
+  return ordered;
+}
+
+export function ChartOfAccountsManager() {
+  const router = useRouter();
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [form, setForm] = useState<AccountFormState>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  const loadAccounts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/accounts", {
+        cache: "no-store",
+        credentials: "include",
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        accounts?: AccountSummary[];
+        error?: string;
+      } | null;
+
+      if (!response.ok || !payload?.accounts) {
+        throw new Error(payload?.error ?? "Failed to load chart of accounts.");
+      }
+
+      setAccounts(payload.accounts);
+    } catch (err) {
+      console.error(err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load chart of accounts."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [redirectToLogin]);
+
+  useEffect(() => {
+    void loadAccounts();
+  }, [loadAccounts]);
+
+  const rows = useMemo(() => sortAsTree(accounts), [accounts]);
+  const editingAccount = editingCode
+    ? accounts.find((account) => account.code === editingCode) ?? null
+    : null;
+  const typeLocked = Boolean(
+    editingAccount && (editingAccount.isSystem || editingAccount.hasPostings)
+  );
+
+  const parentOptions = accounts.filter(
+    (account) =>
+      account.type === form.type &&
+      account.code !== editingCode &&
+      account.isActive
+  );
+
+  const openCreateDialog = () => {
+    setEditingCode(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (account: AccountSummary) => {
+    setEditingCode(account.code);
+    setForm({
+      code: account.code,
+      name: account.name,
+      type: account.type,
+      parentCode: account.parentCode ?? NO_VALUE,
+      cashFlowCategory: account.cashFlowCategory ?? NO_VALUE,
+      isCash: Boolean(account.isCash),
+    });
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const sendRequest = async (
+    url: string,
+    init: RequestInit
+  ): Promise<string | null> => {
+    const response = await fetch(url, {
+      ...init,
+      credentials: "include",
+      headers: { "Content-Type": "application/json" },
+    });
+
+    if (response.status === 401) {
+      await redirectToLogin();
+      return null;
+    }
+
+    if (!response.ok) {
+      const payload = (await response.json().catch(() => null)) as {
+        error?: string;
+      } | null;
+      return payload?.error ?? "Request failed.";
+    }
+
+    return null;
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSaving(true);
+    setFormError(null);
+
+    const body = {
+      name: form.name,
+      type: form.type,
+      parentCode: form.parentCode === NO_VALUE ? null : form.parentCode,
+      cashFlowCategory:
+        form.cashFlowCategory === NO_VALUE ? null : form.cashFlowCategory,
+      isCash: form.type === "asset" && form.isCash,
+    };
+
+    try {
+      const failure = editingCode
+        ? await sendRequest(
+            `/api/accounts/${encodeURIComponent(editingCode)}`,
+            { method: "PATCH", body: JSON.stringify(body) }
+          )
+        : await sendRequest("/api/accounts", {
+            method: "POST",
+            body: JSON.stringify({ ...body, code: form.code }),
+          });
+
+      if (failure) {
+        setFormError(failure);
+        return;
+      }
+
+      setDialogOpen(false);
+      await loadAccounts();
+    } catch (err) {
+      console.error(err);
+      setFormError("Failed to save account.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (account: AccountSummary) => {
+    setError(null);
+    const failure = await sendRequest(
+      `/api/accounts/${encodeURIComponent(account.code)}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify({ isActive: !account.isActive }),
+      }
+    );
+    if (failure) {
+      setError(failure);
+      return;
+    }
+    await loadAccounts();
+  };
+
+  const handleDelete = async (account: AccountSummary) => {
+    if (!window.confirm(`Delete account ${account.code} - ${account.name}?`)) {
+      return;
+    }
+    setError(null);
+    const failure = await sendRequest(
+      `/api/accounts/${encodeURIComponent(account.code)}`,
+      { method: "DELETE" }
+    );
+    if (failure) {
+      setError(failure);
+      return;
+    }
+    await loadAccounts();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Chart of Accounts</CardTitle>
+          <CardDescription>
+            Add sub-accounts such as separate bank accounts or expense lines.
+            Accounts with posted entries can only be deactivated.
+          </CardDescription>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" /> Add Account
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[100px]">Code</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Cash Flow</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead className="w-[100px] text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading && !accounts.length ? (
+              <TableRow>
+                <TableCell
+                  colSpan={6}
+                  className="text-center text-muted-foreground"
+                >
+                  Loading accounts…
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map(({ account, depth }) => (
+                <TableRow
+                  key={account.code}
+                  className={account.isActive ? undefined : "opacity-60"}
+                >
+                  <TableCell className="font-mono">{account.code}</TableCell>
+                  <TableCell>
+                    <div
+                      className="flex items-center gap-2"
+                      style={{ paddingLeft: depth * 20 }}
+                    >
+                      <span>{account.name}</span>
+                      {account.isCash && <Badge variant="outline">Cash</Badge>}
+                      {account.isSystem && (
+                        <Badge variant="secondary">Default</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>{TYPE_LABELS[account.type]}</TableCell>
+                  <TableCell className="capitalize">
+                    {account.cashFlowCategory ?? "-"}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={account.isActive}
+                      disabled={account.isSystem}
+                      onCheckedChange={() => void handleToggleActive(account)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => openEditDialog(account)}
+                        title="Edit account"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-gray-500 hover:text-red-600"
+                        onClick={() => void handleDelete(account)}
+                        disabled={account.isSystem || account.hasPostings}
+                        title={
+                          account.hasPostings
+                            ? "Accounts with posted entries can only be deactivated"
+                            : "Delete account"
+                        }
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editingCode ? `Edit Account ${editingCode}` : "Add Account"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="grid gap-2">
+                <Label htmlFor="account-code">Code</Label>
+                <Input
+                  id="account-code"
+                  value={form.code}
+                  disabled={Boolean(editingCode)}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, code: event.target.value }))
+                  }
+                  placeholder="1010"
+                  required
+                />
+              </div>
+              <div className="grid gap-2 sm:col-span-2">
+                <Label htmlFor="account-name">Name</Label>
+                <Input
+                  id="account-name"
+                  value={form.name}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, name: event.target.value }))
+                  }
+                  placeholder="Bank BCA"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="account-type">Type</Label>
+                <Select
+                  value={form.type}
+                  disabled={typeLocked}
+                  onValueChange={(value) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      type: value as AccountType,
+                      parentCode: NO_VALUE,
+                      isCash: value === "asset" ? prev.isCash : false,
+                    }))
+                  }
+                >
+                  <SelectTrigger id="account-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ACCOUNT_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="account-parent">Parent Account</Label>
+                <Select
+                  value={form.parentCode}
+                  onValueChange={(value) =>
+                    setForm((prev) => ({ ...prev, parentCode: value }))
+                  }
+                >
+                  <SelectTrigger id="account-parent">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_VALUE}>None</SelectItem>
+                    {parentOptions.map((account) => (
+                      <SelectItem key={account.code} value={account.code}>
+                        {account.code} - {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="account-cash-flow">Cash Flow Category</Label>
+                <Select
+                  value={form.cashFlowCategory}
+                  onValueChange={(value) =>
+                    setForm((prev) => ({ ...prev, cashFlowCategory: value }))
+                  }
+                >
+                  <SelectTrigger id="account-cash-flow">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_VALUE}>
+                      Default (operating)
+                    </SelectItem>
+                    {CASH_FLOW_CATEGORIES.map((category) => (
+                      <SelectItem
+                        key={category}
+                        value={category}
+                        className="capitalize"
+                      >
+                        {category}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between rounded-md border px-3">
+                <Label htmlFor="account-is-cash">Cash account</Label>
+                <Switch
+                  id="account-is-cash"
+                  checked={form.isCash}
+                  disabled={form.type !== "asset"}
+                  onCheckedChange={(checked) =>
+                    setForm((prev) => ({ ...prev, isCash: checked }))
+                  }
+                />
+              </div>
+            </div>
+
+            {formError && (
+              <p className="text-sm text-destructive">{formError}</p>
+            )}
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Save Account"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import type { DateRange } from "react-day-picker";
+import { CalendarIcon, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import type { CustomPeriod } from "@/lib/period-range";
+import { cn } from "@/lib/utils";
+
+type DateRangePickerProps = {
+  value: CustomPeriod | null;
+  onChange: (value: CustomPeriod | null) => void;
+  placeholder?: string;
+  applyLabel?: string;
+  cancelLabel?: string;
+  clearLabel?: string;
+  locale?: string;
+  className?: string;
+};
+
+/**
+ * Pick an inclusive day range. The range is only reported once both ends are
+ * chosen and applied, so callers fetch once per selection.
+ */
+export function DateRangePicker({
+  value,
+  onChange,
+  placeholder = "Custom range",
+  applyLabel = "Apply",
+  cancelLabel = "Cancel",
+  clearLabel = "Clear",
+  locale = "en-US",
+  className,
+}: DateRangePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DateRange | undefined>(
+    value ? { from: value.from, to: value.to } : undefined
+  );
+
+  const formatDate = (date: Date) =>
+    date.toLocaleDateString(locale, {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraft(value ? { from: value.from, to: value.to } : undefined);
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleApply = () => {
+    if (!draft?.from) {
+      return;
+    }
+    onChange({ from: draft.from, to: draft.to ?? draft.from });
+    setOpen(false);
+  };
+
+  return (
+    <div className={cn("flex items-center gap-1", className)}>
+      <Popover open={open} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            className={cn(
+              "justify-start text-left font-normal",
+              !value && "text-muted-foreground"
+            )}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {value
+              ? `${formatDate(value.from)} - ${formatDate(value.to)}`
+              : placeholder}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="end">
+          <Calendar
+            mode="range"
+            selected={draft}
+            onSelect={setDraft}
+            defaultMonth={draft?.from ?? value?.from}
+            numberOfMonths={2}
+          />
+          <div className="flex justify-end gap-2 border-t p-3">
+            <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+              {cancelLabel}
+            </Button>
+            <Button size="sm" onClick={handleApply} disabled={!draft?.from}>
+              {applyLabel}
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+      {value ? (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => onChange(null)}
+          title={clearLabel}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+"use client";
+
+import type React from "react";
+
+import { useCallback, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  EmployeeSummary,
+  EmploymentStatus,
+  TaxStatus,
+} from "@/lib/employees";
+
+export const EMPLOYMENT_STATUS_LABELS: Record<EmploymentStatus, string> = {
+  permanent: "Permanent",
+  contract: "Contract",
+  probation: "Probation",
+  intern: "Intern",
+  terminated: "Terminated",
+};
+
+const TAX_STATUS_LABELS: Record<TaxStatus, string> = {
+  "TK/0": "TK/0 - Single",
+  "TK/1": "TK/1 - Single, 1 dependant",
+  "TK/2": "TK/2 - Single, 2 dependants",
+  "TK/3": "TK/3 - Single, 3 dependants",
+  "K/0": "K/0 - Married",
+  "K/1": "K/1 - Married, 1 dependant",
+  "K/2": "K/2 - Married, 2 dependants",
+  "K/3": "K/3 - Married, 3 dependants",
+};
+
+type EmployeeFormProps = {
+  /** The employee being edited; a new one is created when absent. */
+  employee?: EmployeeSummary | null;
+};
+
+const toDateInput = (value: string | null | undefined) =>
+  value ? new Date(value).toLocaleDateString("en-CA") : "";
+
+export function EmployeeForm({ employee }: EmployeeFormProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [form, setForm] = useState(() => ({
+    employeeNumber: employee?.employeeNumber ?? "",
+    name: employee?.name ?? "",
+    position: employee?.position ?? "",
+    department: employee?.department ?? "",
+    joinDate:
+      toDateInput(employee?.joinDate) ||
+      new Date().toLocaleDateString("en-CA"),
+    employmentStatus: employee?.employmentStatus ?? "permanent",
+    endDate: toDateInput(employee?.endDate),
+    baseSalary: employee ? String(employee.baseSalary) : "",
+    bankName: employee?.bankName ?? "",
+    bankAccountNumber: employee?.bankAccountNumber ?? "",
+    npwp: employee?.npwp ?? "",
+    bpjsKesehatanNumber: employee?.bpjsKesehatanNumber ?? "",
+    bpjsKetenagakerjaanNumber: employee?.bpjsKetenagakerjaanNumber ?? "",
+    taxStatus: employee?.taxStatus ?? "TK/0",
+  }));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const setField = (field: keyof typeof form, value: string) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const validationError = !form.name.trim()
+    ? "Enter the employee's name."
+    : !form.position.trim()
+    ? "Enter the position."
+    : !form.department.trim()
+    ? "Enter the department."
+    : form.baseSalary === "" || Number(form.baseSalary) < 0
+    ? "Enter the monthly base salary."
+    : null;
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (validationError) {
+      toast({
+        title: "Employee record is incomplete",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(
+        employee
+          ? `/api/hr/employees/${encodeURIComponent(employee.id)}`
+          : "/api/hr/employees",
+        {
+          method: employee ? "PATCH" : "POST",
+          credentials: "include",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...form,
+            endDate:
+              form.employmentStatus === "terminated" ? form.endDate : null,
+            baseSalary: Number(form.baseSalary),
+          }),
+        }
+      );
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        message?: string;
+        employee?: EmployeeSummary;
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to save employee.");
+      }
+
+      toast({
+        title: payload?.message ?? "Employee saved.",
+        description: payload?.employee
+          ? `${payload.employee.employeeNumber} - ${payload.employee.name}`
+          : undefined,
+      });
+      router.push("/hr");
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description:
+          error instanceof Error ? error.message : "Failed to save employee.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form className="space-y-6" onSubmit={handleSubmit}>
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="employee-number">Employee ID</Label>
+          <Input
+            id="employee-number"
+            value={form.employeeNumber}
+            onChange={(event) =>
+              setField("employeeNumber", event.target.value)
+            }
+            placeholder="Assigned automatically"
+          />
+        </div>
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="employee-name">Full Name</Label>
+          <Input
+            id="employee-name"
+            value={form.name}
+            onChange={(event) => setField("name", event.target.value)}
+            required
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="employee-position">Position</Label>
+          <Input
+            id="employee-position"
+            value={form.position}
+            onChange={(event) => setField("position", event.target.value)}
+            placeholder="Staff Akuntansi"
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="employee-department">Department</Label>
+          <Input
+            id="employee-department"
+            value={form.department}
+            onChange={(event) => setField("department", event.target.value)}
+            placeholder="Finance"
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="employee-salary">Monthly Base Salary</Label>
+          <Input
+            id="employee-salary"
+            type="number"
+            min="0"
+            step="any"
+            value={form.baseSalary}
+            onChange={(event) => setField("baseSalary", event.target.value)}
+            required
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="employee-join-date">Join Date</Label>
+          <Input
+            id="employee-join-date"
+            type="date"
+            value={form.joinDate}
+            onChange={(event) => setField("joinDate", event.target.value)}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="employee-status">Employment Status</Label>
+          <Select
+            value={form.employmentStatus}
+            onValueChange={(value) => setField("employmentStatus", value)}
+          >
+            <SelectTrigger id="employee-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(EMPLOYMENT_STATUS_LABELS).map(
+                ([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                )
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="employee-end-date">End Date</Label>
+          <Input
+            id="employee-end-date"
+            type="date"
+            value={form.endDate}
+            onChange={(event) => setField("endDate", event.target.value)}
+            disabled={form.employmentStatus !== "terminated"}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-4 rounded-lg border border-slate-200 p-4">
+        <h3 className="text-sm font-semibold">Payroll Details</h3>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="employee-bank">Bank</Label>
+            <Input
+              id="employee-bank"
+              value={form.bankName}
+              onChange={(event) => setField("bankName", event.target.value)}
+              placeholder="BCA"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="employee-bank-account">Bank Account Number</Label>
+            <Input
+              id="employee-bank-account"
+              value={form.bankAccountNumber}
+              onChange={(event) =>
+                setField("bankAccountNumber", event.target.value)
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="employee-npwp">NPWP</Label>
+            <Input
+              id="employee-npwp"
+              value={form.npwp}
+              onChange={(event) => setField("npwp", event.target.value)}
+              placeholder="15 or 16 digits"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="employee-tax-status">PTKP Status</Label>
+            <Select
+              value={form.taxStatus}
+              onValueChange={(value) => setField("taxStatus", value)}
+            >
+              <SelectTrigger id="employee-tax-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(TAX_STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="employee-bpjs-kesehatan">
+              BPJS Kesehatan Number
+            </Label>
+            <Input
+              id="employee-bpjs-kesehatan"
+              value={form.bpjsKesehatanNumber}
+              onChange={(event) =>
+                setField("bpjsKesehatanNumber", event.target.value)
+              }
+              placeholder="13 digits"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="employee-bpjs-tk">
+              BPJS Ketenagakerjaan Number
+            </Label>
+            <Input
+              id="employee-bpjs-tk"
+              value={form.bpjsKetenagakerjaanNumber}
+              onChange={(event) =>
+                setField("bpjsKetenagakerjaanNumber", event.target.value)
+              }
+              placeholder="11 digits"
+            />
+          </div>
+        </div>
+      </div>
+
+      {validationError ? (
+        <p className="text-sm text-muted-foreground">{validationError}</p>
+      ) : null}
+
+      <div className="flex gap-4">
+        <Button
+          type="submit"
+          className="flex-1"
+          disabled={isSubmitting || Boolean(validationError)}
+        >
+          {isSubmitting
+            ? "Saving..."
+            : employee
+            ? "Save Changes"
+            : "Add Employee"}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          className="flex-1"
+          onClick={() => router.push("/hr")}
+        >
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
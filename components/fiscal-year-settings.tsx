@@ -0,0 +1,154 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { CompanySettings } from "@/lib/company-settings";
+
+const MONTH_OPTIONS = Array.from({ length: 12 }, (_, index) => ({
+  value: String(index + 1),
+  label: new Date(2000, index, 1).toLocaleString("en-US", { month: "long" }),
+}));
+
+export function FiscalYearSettings() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [startMonth, setStartMonth] = useState("1");
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch("/api/settings/company", {
+          cache: "no-store",
+          credentials: "include",
+        });
+        if (response.status === 401) {
+          await redirectToLogin();
+          return;
+        }
+        const payload = (await response.json().catch(() => null)) as {
+          settings?: CompanySettings;
+        } | null;
+        if (payload?.settings) {
+          setStartMonth(String(payload.settings.fiscalYearStartMonth));
+        }
+      } catch (error) {
+        console.error(error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    void loadSettings();
+  }, [redirectToLogin]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch("/api/settings/company", {
+        method: "PATCH",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fiscalYearStartMonth: Number(startMonth) }),
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        error?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to save fiscal year.");
+      }
+
+      toast({
+        title: "Fiscal year saved",
+        description: "Fiscal periods in reports now follow the new start.",
+      });
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to save fiscal year.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Fiscal Year</CardTitle>
+        <CardDescription>
+          Fiscal quarters and fiscal year reports start from this month.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid max-w-xs gap-2">
+          <Label htmlFor="fiscal-year-start">Fiscal Year Starts In</Label>
+          <Select
+            value={startMonth}
+            onValueChange={setStartMonth}
+            disabled={loading}
+          >
+            <SelectTrigger id="fiscal-year-start">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MONTH_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-end">
+        <Button onClick={handleSave} disabled={loading || saving}>
+          {saving ? "Saving..." : "Save Fiscal Year"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,414 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { FileSpreadsheet } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { MovementType } from "@/lib/inventory";
+import type {
+  InventoryReconciliation,
+  InventoryReportType,
+  InventoryValuationReport,
+  StockMovementReport,
+} from "@/lib/inventory-report-schema";
+
+const REPORT_TITLES: Record<InventoryReportType, string> = {
+  "inventory-valuation": "Inventory Valuation",
+  "stock-movements": "Stock Movements",
+};
+
+const MOVEMENT_LABELS: Record<MovementType, string> = {
+  receipt: "Receipt",
+  issue: "Issue",
+  adjustment: "Adjustment",
+  transfer: "Transfer",
+};
+
+type InventoryReportProps = {
+  type: InventoryReportType;
+};
+
+type ReportPayload = InventoryValuationReport | StockMovementReport;
+
+const startOfMonth = () => {
+  const today = new Date();
+  return new Date(today.getFullYear(), today.getMonth(), 1).toLocaleDateString(
+    "en-CA"
+  );
+};
+
+export function InventoryReport({ type }: InventoryReportProps) {
+  const router = useRouter();
+  const title = REPORT_TITLES[type];
+  const [asOf, setAsOf] = useState(() =>
+    new Date().toLocaleDateString("en-CA")
+  );
+  const [from, setFrom] = useState(startOfMonth);
+  const [report, setReport] = useState<ReportPayload | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currencyFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat("id-ID", {
+        style: "currency",
+        currency: "IDR",
+        maximumFractionDigits: 0,
+      }),
+    []
+  );
+
+  const formatCurrency = (value: number) => currencyFormatter.format(value);
+
+  const formatQuantity = (value: number) =>
+    value.toLocaleString("id-ID", { maximumFractionDigits: 4 });
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString("en-US", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+
+  // Valuation is read at one date; movements over the from/to days
+  const query = useMemo(
+    () =>
+      new URLSearchParams(
+        type === "inventory-valuation"
+          ? { type, asOf }
+          : { type, from, to: asOf }
+      ),
+    [asOf, from, type]
+  );
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  const loadReport = useCallback(async () => {
+    if (!asOf || (type === "stock-movements" && !from)) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/reports?${query.toString()}`, {
+        cache: "no-store",
+        credentials: "include",
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as
+        | (ReportPayload & { error?: string })
+        | null;
+
+      if (!response.ok || !payload?.rows) {
+        throw new Error(payload?.error ?? `Failed to load ${title}.`);
+      }
+
+      setReport(payload);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : `Failed to load ${title}.`);
+    } finally {
+      setLoading(false);
+    }
+  }, [asOf, from, query, redirectToLogin, title, type]);
+
+  useEffect(() => {
+    void loadReport();
+  }, [loadReport]);
+
+  const handleDownloadExcel = async () => {
+    if (!report || downloading) {
+      return;
+    }
+
+    setError(null);
+    setDownloading(true);
+    try {
+      const response = await fetch(
+        `/api/reports/export?${query.toString()}`,
+        { credentials: "include" }
+      );
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(`Failed to download Excel (${response.status})`);
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download =
+        type === "inventory-valuation"
+          ? `laporan-${type}-${asOf}.xlsx`
+          : `laporan-${type}-${from}_${asOf}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to download Excel file.");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const renderReconciliation = (
+    label: string,
+    reconciliation: InventoryReconciliation
+  ) => (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <span className="font-medium text-slate-700">{label}</span>
+      <span className="text-muted-foreground">
+        Stock ledger {formatCurrency(reconciliation.stockValue)} · Account
+        1200 {formatCurrency(reconciliation.ledgerBalance)}
+      </span>
+      <Badge
+        variant={reconciliation.difference === 0 ? "secondary" : "destructive"}
+      >
+        {reconciliation.difference === 0
+          ? "Reconciled"
+          : `Difference ${formatCurrency(reconciliation.difference)}`}
+      </Badge>
+    </div>
+  );
+
+  const renderValuation = (data: InventoryValuationReport) => (
+    <>
+      {renderReconciliation("Reconciliation", data.reconciliation)}
+      <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-slate-600">SKU</TableHead>
+              <TableHead className="min-w-[200px] text-slate-600">
+                Item
+              </TableHead>
+              <TableHead className="text-slate-600">Method</TableHead>
+              <TableHead className="text-right text-slate-600">
+                Quantity
+              </TableHead>
+              <TableHead className="text-right text-slate-600">
+                Unit Cost
+              </TableHead>
+              <TableHead className="text-right text-slate-600">Value</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.rows.map((row) => (
+              <TableRow key={row.itemId}>
+                <TableCell className="font-medium">{row.sku}</TableCell>
+                <TableCell>{row.name}</TableCell>
+                <TableCell>
+                  {row.costMethod === "fifo" ? "FIFO" : "Average"}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatQuantity(row.quantity)} {row.unit}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(row.unitCost)}
+                </TableCell>
+                <TableCell className="text-right font-medium">
+                  {formatCurrency(row.value)}
+                </TableCell>
+              </TableRow>
+            ))}
+            <TableRow className="bg-slate-50">
+              <TableCell colSpan={5} className="font-semibold text-slate-900">
+                Total
+              </TableCell>
+              <TableCell className="text-right font-semibold text-slate-900">
+                {formatCurrency(data.totalValue)}
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </div>
+    </>
+  );
+
+  const renderMovements = (data: StockMovementReport) => (
+    <>
+      {renderReconciliation("Opening", data.reconciliation.opening)}
+      {renderReconciliation("Closing", data.reconciliation.closing)}
+      <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-slate-600">Date</TableHead>
+              <TableHead className="text-slate-600">Type</TableHead>
+              <TableHead className="text-slate-600">Reference</TableHead>
+              <TableHead className="text-right text-slate-600">
+                Quantity
+              </TableHead>
+              <TableHead className="text-right text-slate-600">Value</TableHead>
+              <TableHead className="text-right text-slate-600">
+                Balance
+              </TableHead>
+              <TableHead className="text-right text-slate-600">
+                Balance Value
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.rows.map((row) => (
+              <Fragment key={row.itemId}>
+                <TableRow className="bg-slate-50">
+                  <TableCell colSpan={5} className="font-semibold">
+                    {row.sku} - {row.name}
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {formatQuantity(row.opening.quantity)} {row.unit}
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {formatCurrency(row.opening.value)}
+                  </TableCell>
+                </TableRow>
+                {row.movements.map((movement) => (
+                  <TableRow key={movement.id}>
+                    <TableCell>{formatDate(movement.date)}</TableCell>
+                    <TableCell>
+                      {MOVEMENT_LABELS[movement.type]}
+                      {movement.toLocation
+                        ? ` (${movement.location} → ${movement.toLocation})`
+                        : ""}
+                    </TableCell>
+                    <TableCell>{movement.reference ?? "-"}</TableCell>
+                    <TableCell className="text-right">
+                      {formatQuantity(movement.quantity)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(movement.value)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatQuantity(movement.balance.quantity)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(movement.balance.value)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </Fragment>
+            ))}
+            <TableRow className="bg-slate-50">
+              <TableCell colSpan={4} className="font-semibold text-slate-900">
+                Received {formatCurrency(data.totals.received)} · Issued{" "}
+                {formatCurrency(data.totals.issued)}
+              </TableCell>
+              <TableCell
+                colSpan={3}
+                className="text-right font-semibold text-slate-900"
+              >
+                Closing {formatCurrency(data.totals.closing)}
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </div>
+    </>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>{title}</CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleDownloadExcel}
+          disabled={!report || downloading}
+        >
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          {downloading ? "Downloading..." : "Excel"}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          {type === "stock-movements" && (
+            <div className="space-y-2">
+              <Label htmlFor={`${type}-from`}>From</Label>
+              <Input
+                id={`${type}-from`}
+                type="date"
+                value={from}
+                onChange={(event) => setFrom(event.target.value)}
+                className="w-44"
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor={`${type}-as-of`}>
+              {type === "stock-movements" ? "To" : "As Of"}
+            </Label>
+            <Input
+              id={`${type}-as-of`}
+              type="date"
+              value={asOf}
+              onChange={(event) => setAsOf(event.target.value)}
+              className="w-44"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {loading && !report ? (
+          <Skeleton className="h-32 w-full" />
+        ) : report?.type === type && report.rows.length ? (
+          report.type === "inventory-valuation" ? (
+            renderValuation(report)
+          ) : (
+            renderMovements(report)
+          )
+        ) : (
+          <div className="rounded-lg border border-dashed border-slate-200 bg-white p-6 text-center text-sm text-muted-foreground">
+            {type === "inventory-valuation"
+              ? "No inventory items yet."
+              : "No stock on hand or movements in this range."}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
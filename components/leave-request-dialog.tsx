@@ -0,0 +1,224 @@
+"use client";
+
+import type React from "react";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  LeaveRequestSummary,
+  LeaveStatus,
+  LeaveType,
+} from "@/lib/attendance";
+import type { EmployeeSummary } from "@/lib/employees";
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  annual: "Annual leave",
+  sick: "Sick leave",
+  unpaid: "Unpaid leave",
+};
+
+export const LEAVE_STATUS_BADGES: Record<
+  LeaveStatus,
+  { label: string; variant: "default" | "secondary" | "outline" }
+> = {
+  pending: { label: "Pending", variant: "outline" },
+  approved: { label: "Approved", variant: "default" },
+  rejected: { label: "Rejected", variant: "secondary" },
+  cancelled: { label: "Cancelled", variant: "secondary" },
+};
+
+const emptyLeaveForm = () => {
+  const today = new Date().toLocaleDateString("en-CA");
+  return {
+    employeeId: "",
+    type: "annual" as LeaveType,
+    startDate: today,
+    endDate: today,
+    reason: "",
+  };
+};
+
+type LeaveRequestDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Employees who can be picked; usually the active ones. */
+  employees: EmployeeSummary[];
+  onCreated: (leaveRequest: LeaveRequestSummary) => void;
+  onUnauthorized: () => Promise<void>;
+};
+
+export function LeaveRequestDialog({
+  open,
+  onOpenChange,
+  employees,
+  onCreated,
+  onUnauthorized,
+}: LeaveRequestDialogProps) {
+  const { toast } = useToast();
+  const [leaveForm, setLeaveForm] = useState(emptyLeaveForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const setField = (field: keyof typeof leaveForm, value: string) =>
+    setLeaveForm((prev) => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!leaveForm.employeeId) {
+      toast({
+        title: "Leave not submitted",
+        description: "Select the employee taking leave.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/hr/leave", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(leaveForm),
+      });
+
+      if (response.status === 401) {
+        await onUnauthorized();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        leaveRequest?: LeaveRequestSummary;
+        error?: string;
+      } | null;
+      if (!response.ok || !payload?.leaveRequest) {
+        throw new Error(payload?.error ?? "Failed to submit leave request.");
+      }
+
+      onCreated(payload.leaveRequest);
+      setLeaveForm(emptyLeaveForm());
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Leave not submitted",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to submit leave request.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Leave Request</DialogTitle>
+        </DialogHeader>
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="leave-employee">Employee</Label>
+              <Select
+                value={leaveForm.employeeId}
+                onValueChange={(value) => setField("employeeId", value)}
+              >
+                <SelectTrigger id="leave-employee">
+                  <SelectValue placeholder="Select employee" />
+                </SelectTrigger>
+                <SelectContent>
+                  {employees.map((employee) => (
+                    <SelectItem key={employee.id} value={employee.id}>
+                      {employee.employeeNumber} - {employee.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leave-type">Leave Type</Label>
+              <Select
+                value={leaveForm.type}
+                onValueChange={(value) => setField("type", value)}
+              >
+                <SelectTrigger id="leave-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(LEAVE_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="leave-start">First Day</Label>
+              <Input
+                id="leave-start"
+                type="date"
+                value={leaveForm.startDate}
+                onChange={(event) => setField("startDate", event.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leave-end">Last Day</Label>
+              <Input
+                id="leave-end"
+                type="date"
+                value={leaveForm.endDate}
+                min={leaveForm.startDate}
+                onChange={(event) => setField("endDate", event.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="leave-reason">Reason</Label>
+            <Input
+              id="leave-reason"
+              value={leaveForm.reason}
+              onChange={(event) => setField("reason", event.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Submitting..." : "Submit Request"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import type React from "react";
+
+import { useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { VendorSummary } from "@/lib/procurement";
+import type { TaxCode } from "@/lib/tax-schema";
+
+const NO_WITHHOLDING = "none";
+
+const EMPTY_VENDOR_FORM = {
+  name: "",
+  email: "",
+  phone: "",
+  address: "",
+  paymentTermDays: "30",
+  withholdingTaxCode: NO_WITHHOLDING,
+};
+
+type NewVendorDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (vendor: VendorSummary) => void;
+  onUnauthorized: () => Promise<void>;
+};
+
+export function NewVendorDialog({
+  open,
+  onOpenChange,
+  onCreated,
+  onUnauthorized,
+}: NewVendorDialogProps) {
+  const { toast } = useToast();
+  const [vendorForm, setVendorForm] = useState(EMPTY_VENDOR_FORM);
+  const [isSavingVendor, setIsSavingVendor] = useState(false);
+  const [withholdingCodes, setWithholdingCodes] = useState<TaxCode[]>([]);
+
+  useEffect(() => {
+    if (!open || withholdingCodes.length) {
+      return;
+    }
+    let active = true;
+
+    const loadWithholdingCodes = async () => {
+      try {
+        const response = await fetch("/api/tax-codes", {
+          cache: "no-store",
+          credentials: "include",
+        });
+        if (!response.ok) {
+          throw new Error("Failed to load tax codes.");
+        }
+        const payload = (await response.json()) as { taxCodes?: TaxCode[] };
+        if (active && Array.isArray(payload.taxCodes)) {
+          setWithholdingCodes(
+            payload.taxCodes.filter(
+              (taxCode) => taxCode.kind === "withholding" && taxCode.isActive
+            )
+          );
+        }
+      } catch (error) {
+        console.error("Failed to fetch withholding tax codes", error);
+      }
+    };
+
+    void loadWithholdingCodes();
+
+    return () => {
+      active = false;
+    };
+  }, [open, withholdingCodes.length]);
+
+  const handleCreateVendor = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSavingVendor(true);
+    try {
+      const response = await fetch("/api/procurement/vendors", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...vendorForm,
+          withholdingTaxCode:
+            vendorForm.withholdingTaxCode === NO_WITHHOLDING
+              ? null
+              : vendorForm.withholdingTaxCode,
+        }),
+      });
+
+      if (response.status === 401) {
+        await onUnauthorized();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        vendor?: VendorSummary;
+        error?: string;
+      } | null;
+      if (!response.ok || !payload?.vendor) {
+        throw new Error(payload?.error ?? "Failed to create vendor.");
+      }
+
+      onCreated(payload.vendor);
+      setVendorForm(EMPTY_VENDOR_FORM);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Vendor not saved",
+        description:
+          error instanceof Error ? error.message : "Failed to create vendor.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingVendor(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Vendor</DialogTitle>
+        </DialogHeader>
+        <form className="space-y-4" onSubmit={handleCreateVendor}>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="vendor-name">Name</Label>
+              <Input
+                id="vendor-name"
+                value={vendorForm.name}
+                onChange={(event) =>
+                  setVendorForm((prev) => ({
+                    ...prev,
+                    name: event.target.value,
+                  }))
+                }
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vendor-terms">Payment Terms (days)</Label>
+              <Input
+                id="vendor-terms"
+                type="number"
+                min="0"
+                max="365"
+                step="1"
+                value={vendorForm.paymentTermDays}
+                onChange={(event) =>
+                  setVendorForm((prev) => ({
+                    ...prev,
+                    paymentTermDays: event.target.value,
+                  }))
+                }
+                required
+              />
+            </div>
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="vendor-email">Email</Label>
+              <Input
+                id="vendor-email"
+                type="email"
+                value={vendorForm.email}
+                onChange={(event) =>
+                  setVendorForm((prev) => ({
+                    ...prev,
+                    email: event.target.value,
+                  }))
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vendor-phone">Phone</Label>
+              <Input
+                id="vendor-phone"
+                value={vendorForm.phone}
+                onChange={(event) =>
+                  setVendorForm((prev) => ({
+                    ...prev,
+                    phone: event.target.value,
+                  }))
+                }
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="vendor-address">Address</Label>
+            <Input
+              id="vendor-address"
+              value={vendorForm.address}
+              onChange={(event) =>
+                setVendorForm((prev) => ({
+                  ...prev,
+                  address: event.target.value,
+                }))
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="vendor-withholding">Withholding Tax</Label>
+            <Select
+              value={vendorForm.withholdingTaxCode}
+              onValueChange={(value) =>
+                setVendorForm((prev) => ({
+                  ...prev,
+                  withholdingTaxCode: value,
+                }))
+              }
+            >
+              <SelectTrigger id="vendor-withholding">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_WITHHOLDING}>No withholding</SelectItem>
+                {withholdingCodes.map((taxCode) => (
+                  <SelectItem key={taxCode.code} value={taxCode.code}>
+                    {taxCode.code} - {taxCode.name} ({taxCode.rate}%)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Withheld from every payment to this vendor unless changed on
+              the payment.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSavingVendor}>
+              {isSavingVendor ? "Saving..." : "Save Vendor"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useMemo } from "react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type {
+  PayrollRunStatus,
+  PayrollRunSummary,
+  PayslipSummary,
+} from "@/lib/payroll";
+
+export const PAYROLL_STATUS_BADGES: Record<
+  PayrollRunStatus,
+  { label: string; variant: "default" | "secondary" | "outline" }
+> = {
+  draft: { label: "Draft", variant: "outline" },
+  posted: { label: "Posted", variant: "default" },
+  void: { label: "Void", variant: "secondary" },
+};
+
+/** "2026-10" as "October 2026". */
+export const formatPayrollPeriod = (period: string) => {
+  const [year, month] = period.split("-").map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+  });
+};
+
+type PayslipDialogProps = {
+  run: PayrollRunSummary | null;
+  /** The payslip shown; the dialog is closed when null. */
+  payslip: PayslipSummary | null;
+  onClose: () => void;
+};
+
+export function PayslipDialog({ run, payslip, onClose }: PayslipDialogProps) {
+  const currencyFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat("id-ID", {
+        style: "currency",
+        currency: "IDR",
+        maximumFractionDigits: 0,
+      }),
+    []
+  );
+
+  const renderLine = (label: string, amount: number, strong = false) => (
+    <div
+      className={`flex justify-between text-sm ${
+        strong ? "font-semibold" : ""
+      }`}
+    >
+      <span>{label}</span>
+      <span>{currencyFormatter.format(amount)}</span>
+    </div>
+  );
+
+  return (
+    <Dialog
+      open={Boolean(payslip)}
+      onOpenChange={(open) => {
+        if (!open) {
+          onClose();
+        }
+      }}
+    >
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            Payslip
+            {run ? ` - ${formatPayrollPeriod(run.period)}` : ""}
+          </DialogTitle>
+        </DialogHeader>
+        {payslip && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div>
+                <div className="font-medium">{payslip.name}</div>
+                <div className="text-muted-foreground">
+                  {payslip.employeeNumber}
+                </div>
+                <div className="text-muted-foreground">
+                  {payslip.position}, {payslip.department}
+                </div>
+              </div>
+              <div className="text-right text-muted-foreground">
+                <div>PTKP {payslip.taxStatus}</div>
+                <div>{payslip.hasNpwp ? "NPWP on file" : "No NPWP"}</div>
+                {payslip.bankName || payslip.bankAccountNumber ? (
+                  <div>
+                    {[payslip.bankName, payslip.bankAccountNumber]
+                      .filter(Boolean)
+                      .join(" ")}
+                  </div>
+                ) : null}
+              </div>
+            </div>
+
+            <div className="space-y-1 border-t pt-3">
+              <h4 className="text-sm font-semibold">Earnings</h4>
+              {renderLine("Base salary", payslip.baseSalary)}
+              {renderLine("Allowances", payslip.allowances)}
+              {payslip.prorationDeduction > 0 &&
+                renderLine(
+                  `Not yet or no longer employed (${
+                    payslip.workingDays - payslip.daysEmployed
+                  } days)`,
+                  -payslip.prorationDeduction
+                )}
+              {payslip.overtimePay > 0 &&
+                renderLine(
+                  `Overtime (${payslip.overtimeHours} h)`,
+                  payslip.overtimePay
+                )}
+              {payslip.unpaidLeaveDeduction > 0 &&
+                renderLine(
+                  `Unpaid leave (${payslip.unpaidDays} days)`,
+                  -payslip.unpaidLeaveDeduction
+                )}
+              {payslip.deductions > 0 &&
+                renderLine("Other deductions", -payslip.deductions)}
+              {renderLine("Gross pay", payslip.grossPay, true)}
+            </div>
+
+            <div className="space-y-1 border-t pt-3">
+              <h4 className="text-sm font-semibold">Withholdings</h4>
+              {renderLine(
+                "BPJS Kesehatan (1%)",
+                payslip.bpjs.kesehatanEmployee
+              )}
+              {renderLine("BPJS JHT (2%)", payslip.bpjs.jhtEmployee)}
+              {renderLine("BPJS JP (1%)", payslip.bpjs.jpEmployee)}
+              {renderLine(
+                payslip.pph21Method === "annual"
+                  ? "PPh 21 (annual settlement)"
+                  : payslip.terRate !== null && payslip.terRate !== undefined
+                  ? `PPh 21 (TER ${payslip.terRate}%)`
+                  : "PPh 21",
+                payslip.pph21
+              )}
+              {renderLine(
+                "Total withheld",
+                payslip.employeeContributions + payslip.pph21,
+                true
+              )}
+            </div>
+
+            <div className="rounded-md bg-slate-100 p-3">
+              {renderLine("Net pay", payslip.netPay, true)}
+            </div>
+
+            <div className="space-y-1 border-t pt-3 text-muted-foreground">
+              <h4 className="text-sm font-semibold">
+                Employer Contributions
+              </h4>
+              {renderLine(
+                "BPJS Kesehatan (4%)",
+                payslip.bpjs.kesehatanEmployer
+              )}
+              {renderLine("BPJS JHT (3.7%)", payslip.bpjs.jhtEmployer)}
+              {renderLine("BPJS JP (2%)", payslip.bpjs.jpEmployer)}
+              {renderLine("BPJS JKK (0.24%)", payslip.bpjs.jkkEmployer)}
+              {renderLine("BPJS JKM (0.3%)", payslip.bpjs.jkmEmployer)}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
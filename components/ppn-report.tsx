@@ -0,0 +1,314 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { FileSpreadsheet } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type {
+  PpnReport as PpnReportData,
+  PpnReportSection,
+} from "@/lib/tax-schema";
+
+const currentMonth = () => {
+  const today = new Date();
+  const month = String(today.getMonth() + 1).padStart(2, "0");
+  return `${today.getFullYear()}-${month}`;
+};
+
+export function PpnReport() {
+  const router = useRouter();
+  const [period, setPeriod] = useState(currentMonth);
+  const [report, setReport] = useState<PpnReportData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currencyFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat("id-ID", {
+        style: "currency",
+        currency: "IDR",
+        maximumFractionDigits: 0,
+      }),
+    []
+  );
+
+  const formatCurrency = (value: number) => currencyFormatter.format(value);
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString("en-US", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+
+  const query = useMemo(
+    () => new URLSearchParams({ type: "ppn", period }),
+    [period]
+  );
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  const loadReport = useCallback(async () => {
+    if (!period) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/reports?${query.toString()}`, {
+        cache: "no-store",
+        credentials: "include",
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as
+        | (PpnReportData & { error?: string })
+        | null;
+
+      if (!response.ok || !payload?.lines) {
+        throw new Error(payload?.error ?? "Failed to load PPN report.");
+      }
+
+      setReport(payload);
+    } catch (err) {
+      console.error(err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load PPN report."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [period, query, redirectToLogin]);
+
+  useEffect(() => {
+    void loadReport();
+  }, [loadReport]);
+
+  const handleDownloadExcel = async () => {
+    if (!report || downloading) {
+      return;
+    }
+
+    setError(null);
+    setDownloading(true);
+    try {
+      const response = await fetch(
+        `/api/reports/export?${query.toString()}`,
+        { credentials: "include" }
+      );
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(`Failed to download Excel (${response.status})`);
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `laporan-ppn-${period}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to download Excel file.");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const renderSection = (title: string, section: PpnReportSection) => (
+    <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="min-w-[220px] text-slate-600">
+              {title}
+            </TableHead>
+            <TableHead className="text-right text-slate-600">Rate</TableHead>
+            <TableHead className="text-right text-slate-600">Entries</TableHead>
+            <TableHead className="text-right text-slate-600">DPP</TableHead>
+            <TableHead className="text-right text-slate-600">PPN</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {section.rows.length ? (
+            section.rows.map((row) => (
+              <TableRow key={row.taxCode}>
+                <TableCell>
+                  <span className="font-medium">{row.taxCode}</span>{" "}
+                  <span className="text-muted-foreground">{row.name}</span>
+                </TableCell>
+                <TableCell className="text-right">{row.rate}%</TableCell>
+                <TableCell className="text-right">
+                  {row.transactions}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(row.base)}
+                </TableCell>
+                <TableCell className="text-right font-medium">
+                  {formatCurrency(row.tax)}
+                </TableCell>
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={5} className="text-muted-foreground">
+                No PPN posted.
+              </TableCell>
+            </TableRow>
+          )}
+          <TableRow className="bg-slate-50">
+            <TableCell colSpan={3} className="font-semibold text-slate-900">
+              Total
+            </TableCell>
+            <TableCell className="text-right font-semibold text-slate-900">
+              {formatCurrency(section.base)}
+            </TableCell>
+            <TableCell className="text-right font-semibold text-slate-900">
+              {formatCurrency(section.tax)}
+            </TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  const renderReport = (data: PpnReportData) => (
+    <>
+      {renderSection("Output VAT (PPN Keluaran)", data.output)}
+      {renderSection("Input VAT (PPN Masukan)", data.input)}
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="font-medium text-slate-700">
+          Output {formatCurrency(data.output.tax)} − Input{" "}
+          {formatCurrency(data.input.tax)}
+        </span>
+        <Badge variant={data.netPayable > 0 ? "destructive" : "secondary"}>
+          {data.netPayable >= 0
+            ? `Payable ${formatCurrency(data.netPayable)}`
+            : `Overpaid ${formatCurrency(-data.netPayable)}`}
+        </Badge>
+      </div>
+
+      <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-slate-600">Date</TableHead>
+              <TableHead className="min-w-[200px] text-slate-600">
+                Description
+              </TableHead>
+              <TableHead className="text-slate-600">Side</TableHead>
+              <TableHead className="text-slate-600">Tax Code</TableHead>
+              <TableHead className="text-right text-slate-600">DPP</TableHead>
+              <TableHead className="text-right text-slate-600">PPN</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.lines.map((line) => (
+              <TableRow key={line.id}>
+                <TableCell>{formatDate(line.date)}</TableCell>
+                <TableCell>{line.description}</TableCell>
+                <TableCell>
+                  {line.direction === "output" ? "Output" : "Input"}
+                </TableCell>
+                <TableCell>{line.taxCode}</TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(line.base)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(line.tax)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>PPN Report</CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleDownloadExcel}
+          disabled={!report || downloading}
+        >
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          {downloading ? "Downloading..." : "Excel"}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="ppn-period">Tax Month</Label>
+            <Input
+              id="ppn-period"
+              type="month"
+              value={period}
+              onChange={(event) => setPeriod(event.target.value)}
+              className="w-44"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {loading && !report ? (
+          <Skeleton className="h-32 w-full" />
+        ) : report?.period === period && report.lines.length ? (
+          renderReport(report)
+        ) : (
+          <div className="rounded-lg border border-dashed border-slate-200 bg-white p-6 text-center text-sm text-muted-foreground">
+            No PPN was posted in this month.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
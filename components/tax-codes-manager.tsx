@@ -0,0 +1,427 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  TAX_KIND_LABELS,
+  type TaxCode,
+  type TaxKind,
+} from "@/lib/tax-schema";
+
+type TaxCodeFormState = {
+  code: string;
+  name: string;
+  kind: TaxKind;
+  rate: string;
+};
+
+const EMPTY_FORM: TaxCodeFormState = {
+  code: "",
+  name: "",
+  kind: "ppn",
+  rate: "",
+};
+
+export function TaxCodesManager() {
+  const router = useRouter();
+  const [taxCodes, setTaxCodes] = useState<TaxCode[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [form, setForm] = useState<TaxCodeFormState>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  const loadTaxCodes = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/tax-codes", {
+        cache: "no-store",
+        credentials: "include",
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as {
+        taxCodes?: TaxCode[];
+        error?: string;
+      } | null;
+
+      if (!response.ok || !payload?.taxCodes) {
+        throw new Error(payload?.error ?? "Failed to load tax codes.");
+      }
+
+      setTaxCodes(payload.taxCodes);
+    } catch (err) {
+      console.error(err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load tax codes."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [redirectToLogin]);
+
+  useEffect(() => {
+    void loadTaxCodes();
+  }, [loadTaxCodes]);
+
+  const openCreateDialog = () => {
+    setEditingCode(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (taxCode: TaxCode) => {
+    setEditingCode(taxCode.code);
+    setForm({
+      code: taxCode.code,
+      name: taxCode.name,
+      kind: taxCode.kind,
+      rate: String(taxCode.rate),
+    });
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const sendRequest = async (
+    url: string,
+    init: RequestInit
+  ): Promise<string | null> => {
+    const response = await fetch(url, {
+      ...init,
+      credentials: "include",
+      headers: { "Content-Type": "application/json" },
+    });
+
+    if (response.status === 401) {
+      await redirectToLogin();
+      return null;
+    }
+
+    if (!response.ok) {
+      const payload = (await response.json().catch(() => null)) as {
+        error?: string;
+      } | null;
+      return payload?.error ?? "Request failed.";
+    }
+
+    return null;
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSaving(true);
+    setFormError(null);
+
+    const body = { name: form.name, rate: Number(form.rate) };
+
+    try {
+      const failure = editingCode
+        ? await sendRequest(
+            `/api/tax-codes/${encodeURIComponent(editingCode)}`,
+            { method: "PATCH", body: JSON.stringify(body) }
+          )
+        : await sendRequest("/api/tax-codes", {
+            method: "POST",
+            body: JSON.stringify({
+              ...body,
+              code: form.code,
+              kind: form.kind,
+            }),
+          });
+
+      if (failure) {
+        setFormError(failure);
+        return;
+      }
+
+      setDialogOpen(false);
+      await loadTaxCodes();
+    } catch (err) {
+      console.error(err);
+      setFormError("Failed to save tax code.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (taxCode: TaxCode) => {
+    setError(null);
+    const failure = await sendRequest(
+      `/api/tax-codes/${encodeURIComponent(taxCode.code)}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify({ isActive: !taxCode.isActive }),
+      }
+    );
+    if (failure) {
+      setError(failure);
+      return;
+    }
+    await loadTaxCodes();
+  };
+
+  const handleDelete = async (taxCode: TaxCode) => {
+    if (!window.confirm(`Delete tax code ${taxCode.code}?`)) {
+      return;
+    }
+    setError(null);
+    const failure = await sendRequest(
+      `/api/tax-codes/${encodeURIComponent(taxCode.code)}`,
+      { method: "DELETE" }
+    );
+    if (failure) {
+      setError(failure);
+      return;
+    }
+    await loadTaxCodes();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Tax Codes</CardTitle>
+          <CardDescription>
+            PPN codes are offered when recording a transaction and post to
+            accounts 2300 and 1300. Withholding codes are held back from
+            vendor payments into account 2330. A new rate only applies to
+            what is recorded after the change.
+          </CardDescription>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" /> Add Tax Code
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[120px]">Code</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Kind</TableHead>
+              <TableHead className="text-right">Rate</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead className="w-[100px] text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading && !taxCodes.length ? (
+              <TableRow>
+                <TableCell
+                  colSpan={6}
+                  className="text-center text-muted-foreground"
+                >
+                  Loading tax codes…
+                </TableCell>
+              </TableRow>
+            ) : (
+              taxCodes.map((taxCode) => (
+                <TableRow
+                  key={taxCode.code}
+                  className={taxCode.isActive ? undefined : "opacity-60"}
+                >
+                  <TableCell className="font-mono">{taxCode.code}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span>{taxCode.name}</span>
+                      {taxCode.isSystem && (
+                        <Badge variant="secondary">Default</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>{TAX_KIND_LABELS[taxCode.kind]}</TableCell>
+                  <TableCell className="text-right">{taxCode.rate}%</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={taxCode.isActive}
+                      onCheckedChange={() => void handleToggleActive(taxCode)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => openEditDialog(taxCode)}
+                        title="Edit tax code"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-gray-500 hover:text-red-600"
+                        onClick={() => void handleDelete(taxCode)}
+                        disabled={taxCode.isSystem}
+                        title="Delete tax code"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editingCode ? `Edit Tax Code ${editingCode}` : "Add Tax Code"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="grid gap-2">
+                <Label htmlFor="tax-code">Code</Label>
+                <Input
+                  id="tax-code"
+                  value={form.code}
+                  disabled={Boolean(editingCode)}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, code: event.target.value }))
+                  }
+                  placeholder="PPN11"
+                  required
+                />
+              </div>
+              <div className="grid gap-2 sm:col-span-2">
+                <Label htmlFor="tax-name">Name</Label>
+                <Input
+                  id="tax-name"
+                  value={form.name}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, name: event.target.value }))
+                  }
+                  placeholder="PPN 11%"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="tax-kind">Kind</Label>
+                <Select
+                  value={form.kind}
+                  onValueChange={(value) =>
+                    setForm((prev) => ({ ...prev, kind: value as TaxKind }))
+                  }
+                  disabled={Boolean(editingCode)}
+                >
+                  <SelectTrigger id="tax-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TAX_KIND_LABELS) as TaxKind[]).map(
+                      (kind) => (
+                        <SelectItem key={kind} value={kind}>
+                          {TAX_KIND_LABELS[kind]}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="tax-rate">Rate (%)</Label>
+                <Input
+                  id="tax-rate"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="any"
+                  value={form.rate}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, rate: event.target.value }))
+                  }
+                  required
+                />
+              </div>
+            </div>
+
+            {formError && (
+              <p className="text-sm text-destructive">{formError}</p>
+            )}
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Save Tax Code"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
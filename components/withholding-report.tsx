@@ -0,0 +1,306 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { FileSpreadsheet } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { WithholdingReport as WithholdingReportData } from "@/lib/tax-schema";
+
+const startOfMonth = () => {
+  const today = new Date();
+  return new Date(today.getFullYear(), today.getMonth(), 1).toLocaleDateString(
+    "en-CA"
+  );
+};
+
+export function WithholdingReport() {
+  const router = useRouter();
+  const [from, setFrom] = useState(startOfMonth);
+  const [to, setTo] = useState(() => new Date().toLocaleDateString("en-CA"));
+  const [report, setReport] = useState<WithholdingReportData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currencyFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat("id-ID", {
+        style: "currency",
+        currency: "IDR",
+        maximumFractionDigits: 0,
+      }),
+    []
+  );
+
+  const formatCurrency = (value: number) => currencyFormatter.format(value);
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString("en-US", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+
+  const query = useMemo(
+    () => new URLSearchParams({ type: "withholding", from, to }),
+    [from, to]
+  );
+
+  const redirectToLogin = useCallback(async () => {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      credentials: "include",
+    }).catch(() => {
+      /* ignore logout errors */
+    });
+    const callback = encodeURIComponent(
+      window.location.pathname + window.location.search
+    );
+    router.replace(`/login?callbackUrl=${callback}`);
+  }, [router]);
+
+  const loadReport = useCallback(async () => {
+    if (!from || !to) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/reports?${query.toString()}`, {
+        cache: "no-store",
+        credentials: "include",
+      });
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      const payload = (await response.json().catch(() => null)) as
+        | (WithholdingReportData & { error?: string })
+        | null;
+
+      if (!response.ok || !payload?.rows) {
+        throw new Error(
+          payload?.error ?? "Failed to load the withholding report."
+        );
+      }
+
+      setReport(payload);
+    } catch (err) {
+      console.error(err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to load the withholding report."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [from, query, redirectToLogin, to]);
+
+  useEffect(() => {
+    void loadReport();
+  }, [loadReport]);
+
+  const handleDownloadExcel = async () => {
+    if (!report || downloading) {
+      return;
+    }
+
+    setError(null);
+    setDownloading(true);
+    try {
+      const response = await fetch(
+        `/api/reports/export?${query.toString()}`,
+        { credentials: "include" }
+      );
+
+      if (response.status === 401) {
+        await redirectToLogin();
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(`Failed to download Excel (${response.status})`);
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `laporan-pph-potput-${from}_${to}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to download Excel file.");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const renderReport = (data: WithholdingReportData) => (
+    <>
+      <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[200px] text-slate-600">
+                Vendor
+              </TableHead>
+              <TableHead className="text-slate-600">Tax Code</TableHead>
+              <TableHead className="text-right text-slate-600">Rate</TableHead>
+              <TableHead className="text-right text-slate-600">
+                Payments
+              </TableHead>
+              <TableHead className="text-right text-slate-600">Gross</TableHead>
+              <TableHead className="text-right text-slate-600">
+                Withheld
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.rows.map((row) => (
+              <TableRow key={`${row.vendorId}:${row.taxCode}:${row.rate}`}>
+                <TableCell className="font-medium">{row.vendorName}</TableCell>
+                <TableCell>
+                  {row.taxCode}{" "}
+                  <span className="text-muted-foreground">{row.name}</span>
+                </TableCell>
+                <TableCell className="text-right">{row.rate}%</TableCell>
+                <TableCell className="text-right">{row.payments}</TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(row.gross)}
+                </TableCell>
+                <TableCell className="text-right font-medium">
+                  {formatCurrency(row.withheld)}
+                </TableCell>
+              </TableRow>
+            ))}
+            <TableRow className="bg-slate-50">
+              <TableCell colSpan={4} className="font-semibold text-slate-900">
+                Total
+              </TableCell>
+              <TableCell className="text-right font-semibold text-slate-900">
+                {formatCurrency(data.totals.gross)}
+              </TableCell>
+              <TableCell className="text-right font-semibold text-slate-900">
+                {formatCurrency(data.totals.withheld)}
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-slate-600">Date</TableHead>
+              <TableHead className="text-slate-600">Vendor</TableHead>
+              <TableHead className="text-slate-600">Bill</TableHead>
+              <TableHead className="text-slate-600">Tax Code</TableHead>
+              <TableHead className="text-right text-slate-600">Gross</TableHead>
+              <TableHead className="text-right text-slate-600">
+                Withheld
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.lines.map((line) => (
+              <TableRow key={line.id}>
+                <TableCell>{formatDate(line.date)}</TableCell>
+                <TableCell>{line.vendorName}</TableCell>
+                <TableCell>
+                  {line.billNumber}
+                  {line.vendorReference ? ` (${line.vendorReference})` : ""}
+                </TableCell>
+                <TableCell>{line.taxCode}</TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(line.gross)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(line.withheld)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Withholding Tax (PPh 23 / 4(2))</CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleDownloadExcel}
+          disabled={!report || downloading}
+        >
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          {downloading ? "Downloading..." : "Excel"}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="withholding-from">From</Label>
+            <Input
+              id="withholding-from"
+              type="date"
+              value={from}
+              onChange={(event) => setFrom(event.target.value)}
+              className="w-44"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="withholding-to">To</Label>
+            <Input
+              id="withholding-to"
+              type="date"
+              value={to}
+              onChange={(event) => setTo(event.target.value)}
+              className="w-44"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {loading && !report ? (
+          <Skeleton className="h-32 w-full" />
+        ) : report?.rows.length ? (
+          renderReport(report)
+        ) : (
+          <div className="rounded-lg border border-dashed border-slate-200 bg-white p-6 text-center text-sm text-muted-foreground">
+            No tax was withheld from vendor payments in this range.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
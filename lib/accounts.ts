@@ -0,0 +1,380 @@
+import { ObjectId, type Collection } from "mongodb";
+
+import clientPromise, { ensureIndex, isDuplicateKeyError } from "./mongodb";
+import {
+  CHART_OF_ACCOUNTS,
+  isWithinAccount,
+  type AccountDefinition,
+  type AccountType,
+  type CashFlowCategory,
+  type ChartOfAccounts,
+} from "./chart-of-accounts";
+
+const DEFAULT_DB_NAME = process.env.MONGODB_DB ?? "cloud-erp";
+
+const ACCOUNT_CODE_PATTERN = /^\d{3,8}$/;
+
+export type AccountDocument = {
+  _id?: ObjectId;
+  userId: ObjectId;
+  code: string;
+  name: string;
+  type: AccountType;
+  parentCode?: string | null;
+  cashFlowCategory?: CashFlowCategory | null;
+  isCash?: boolean;
+  isRetainedEarnings?: boolean;
+  isActive: boolean;
+  /** Seeded from the default chart; the finance module posts to these codes. */
+  isSystem: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type AccountSummary = AccountDefinition & {
+  isActive: boolean;
+  isSystem: boolean;
+  hasPostings: boolean;
+};
+
+export type CreateAccountInput = {
+  code: string;
+  name: string;
+  type: AccountType;
+  parentCode?: string | null;
+  cashFlowCategory?: CashFlowCategory | null;
+  isCash?: boolean;
+};
+
+export type UpdateAccountInput = {
+  name?: string;
+  type?: AccountType;
+  parentCode?: string | null;
+  cashFlowCategory?: CashFlowCategory | null;
+  isCash?: boolean;
+  isActive?: boolean;
+};
+
+export class AccountValidationError extends Error {}
+
+export class AccountNotFoundError extends Error {}
+
+async function getAccountsCollection(): Promise<Collection<AccountDocument>> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  const collection = db.collection<AccountDocument>("accounts");
+  // Default accounts are seeded by concurrent requests; keep one per code
+  await ensureIndex(collection, { userId: 1, code: 1 }, { unique: true });
+  return collection;
+}
+
+function toDefinition(doc: AccountDocument): AccountDefinition {
+  return {
+    code: doc.code,
+    name: doc.name,
+    type: doc.type,
+    parentCode: doc.parentCode ?? undefined,
+    cashFlowCategory: doc.cashFlowCategory ?? undefined,
+    isCash: doc.isCash || undefined,
+    isRetainedEarnings: doc.isRetainedEarnings || undefined,
+    isActive: doc.isActive,
+  };
+}
+
+/** Insert any default account the user does not have yet. */
+async function ensureDefaultAccounts(
+  collection: Collection<AccountDocument>,
+  userId: ObjectId
+) {
+  const existing = await collection
+    .find({ userId }, { projection: { code: 1 } })
+    .toArray();
+  const existingCodes = new Set(existing.map((doc) => doc.code));
+  const missing = Object.values(CHART_OF_ACCOUNTS).filter(
+    (account) => !existingCodes.has(account.code)
+  );
+
+  if (!missing.length) {
+    return;
+  }
+
+  const now = new Date();
+  try {
+    await collection.bulkWrite(
+      missing.map((account) => ({
+        updateOne: {
+          filter: { userId, code: account.code },
+          update: {
+            $setOnInsert: {
+              userId,
+              code: account.code,
+              name: account.name,
+              type: account.type,
+              parentCode: null,
+              cashFlowCategory: account.cashFlowCategory ?? null,
+              isCash: Boolean(account.isCash),
+              isRetainedEarnings: Boolean(account.isRetainedEarnings),
+              isActive: true,
+              isSystem: true,
+              createdAt: now,
+              updatedAt: now,
+            },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  } catch (error) {
+    // A concurrent request inserted the same defaults first
+    if (!isDuplicateKeyError(error)) {
+      throw error;
+    }
+  }
+}
+
+async function loadAccountDocuments(
+  userId: ObjectId
+): Promise<AccountDocument[]> {
+  const collection = await getAccountsCollection();
+  await ensureDefaultAccounts(collection, userId);
+  return collection.find({ userId }).sort({ code: 1 }).toArray();
+}
+
+export async function loadChartOfAccounts(
+  userId: ObjectId
+): Promise<ChartOfAccounts> {
+  const documents = await loadAccountDocuments(userId);
+  const chart: ChartOfAccounts = {};
+  documents.forEach((doc) => {
+    chart[doc.code] = toDefinition(doc);
+  });
+  return chart;
+}
+
+async function findPostedAccountCodes(userId: ObjectId): Promise<Set<string>> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  const codes = await db
+    .collection("journal_entries")
+    .distinct("lines.accountCode", { userId });
+  return new Set(
+    codes.filter((code): code is string => typeof code === "string")
+  );
+}
+
+export async function listAccounts(
+  userId: ObjectId
+): Promise<AccountSummary[]> {
+  const [documents, postedCodes] = await Promise.all([
+    loadAccountDocuments(userId),
+    findPostedAccountCodes(userId),
+  ]);
+
+  return documents.map((doc) => ({
+    ...toDefinition(doc),
+    isActive: doc.isActive,
+    isSystem: doc.isSystem,
+    hasPostings: postedCodes.has(doc.code),
+  }));
+}
+
+function validateParent(
+  chart: ChartOfAccounts,
+  code: string,
+  type: AccountType,
+  parentCode: string | null | undefined
+) {
+  if (!parentCode) {
+    return;
+  }
+  const parent = chart[parentCode];
+  if (!parent) {
+    throw new AccountValidationError(`Parent account ${parentCode} not found.`);
+  }
+  if (parent.type !== type) {
+    throw new AccountValidationError(
+      "A sub-account must have the same type as its parent."
+    );
+  }
+  if (isWithinAccount(parentCode, code, chart)) {
+    throw new AccountValidationError(
+      "An account cannot be nested under itself or its sub-accounts."
+    );
+  }
+}
+
+function validateCashFlag(type: AccountType, isCash: boolean | undefined) {
+  if (isCash && type !== "asset") {
+    throw new AccountValidationError("Only asset accounts can hold cash.");
+  }
+}
+
+export async function createAccount(
+  userId: ObjectId,
+  input: CreateAccountInput
+): Promise<AccountDefinition> {
+  const code = input.code.trim();
+  const name = input.name.trim();
+
+  if (!ACCOUNT_CODE_PATTERN.test(code)) {
+    throw new AccountValidationError("Account code must be 3-8 digits.");
+  }
+  if (!name) {
+    throw new AccountValidationError("Account name is required.");
+  }
+
+  const chart = await loadChartOfAccounts(userId);
+  if (chart[code]) {
+    throw new AccountValidationError(`Account ${code} already exists.`);
+  }
+
+  validateParent(chart, code, input.type, input.parentCode);
+  validateCashFlag(input.type, input.isCash);
+
+  const now = new Date();
+  const document: AccountDocument = {
+    userId,
+    code,
+    name,
+    type: input.type,
+    parentCode: input.parentCode || null,
+    cashFlowCategory: input.cashFlowCategory ?? null,
+    isCash: Boolean(input.isCash),
+    isRetainedEarnings: false,
+    isActive: true,
+    isSystem: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const collection = await getAccountsCollection();
+  try {
+    await collection.insertOne(document);
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new AccountValidationError(`Account ${code} already exists.`);
+    }
+    throw error;
+  }
+
+  return toDefinition(document);
+}
+
+export async function updateAccount(
+  userId: ObjectId,
+  code: string,
+  input: UpdateAccountInput
+): Promise<AccountDefinition> {
+  const collection = await getAccountsCollection();
+  const [chart, postedCodes] = await Promise.all([
+    loadChartOfAccounts(userId),
+    findPostedAccountCodes(userId),
+  ]);
+  const existing = await collection.findOne({ userId, code });
+
+  if (!existing) {
+    throw new AccountNotFoundError(`Account ${code} not found.`);
+  }
+
+  const name = input.name !== undefined ? input.name.trim() : existing.name;
+  if (!name) {
+    throw new AccountValidationError("Account name is required.");
+  }
+
+  const type = input.type ?? existing.type;
+  if (type !== existing.type) {
+    if (existing.isSystem) {
+      throw new AccountValidationError(
+        "The type of a default account cannot be changed."
+      );
+    }
+    if (postedCodes.has(code)) {
+      throw new AccountValidationError(
+        "The type of an account with posted entries cannot be changed."
+      );
+    }
+  }
+
+  const parentCode =
+    input.parentCode !== undefined
+      ? input.parentCode || null
+      : existing.parentCode ?? null;
+  const isCash = input.isCash ?? existing.isCash;
+  const isActive = input.isActive ?? existing.isActive;
+
+  validateParent(chart, code, type, parentCode);
+  validateCashFlag(type, isCash);
+
+  const children = Object.values(chart).filter(
+    (account) => account.parentCode === code
+  );
+  if (type !== existing.type && children.length) {
+    throw new AccountValidationError(
+      "Change the type of the sub-accounts first."
+    );
+  }
+
+  if (!isActive && existing.isActive) {
+    if (existing.isSystem) {
+      throw new AccountValidationError(
+        "Default accounts cannot be deactivated."
+      );
+    }
+    if (children.some((account) => account.isActive !== false)) {
+      throw new AccountValidationError("Deactivate the sub-accounts first.");
+    }
+  }
+
+  const updates = {
+    name,
+    type,
+    parentCode,
+    cashFlowCategory:
+      input.cashFlowCategory !== undefined
+        ? input.cashFlowCategory
+        : existing.cashFlowCategory ?? null,
+    isCash: Boolean(isCash),
+    isActive,
+    updatedAt: new Date(),
+  };
+
+  await collection.updateOne({ _id: existing._id }, { $set: updates });
+
+  return toDefinition({ ...existing, ...updates });
+}
+
+/**
+ * Remove an account that was never used. Accounts with posted journal lines
+ * keep the audit trail intact and can only be deactivated.
+ */
+export async function deleteAccount(
+  userId: ObjectId,
+  code: string
+): Promise<void> {
+  const collection = await getAccountsCollection();
+  const [chart, postedCodes] = await Promise.all([
+    loadChartOfAccounts(userId),
+    findPostedAccountCodes(userId),
+  ]);
+  const existing = chart[code];
+
+  if (!existing) {
+    throw new AccountNotFoundError(`Account ${code} not found.`);
+  }
+
+  const document = await collection.findOne({ userId, code });
+  if (document?.isSystem) {
+    throw new AccountValidationError("Default accounts cannot be deleted.");
+  }
+  if (postedCodes.has(code)) {
+    throw new AccountValidationError(
+      "This account has posted entries. Deactivate it instead."
+    );
+  }
+  if (Object.values(chart).some((account) => account.parentCode === code)) {
+    throw new AccountValidationError("Delete or move the sub-accounts first.");
+  }
+
+  await collection.deleteOne({ userId, code });
+}
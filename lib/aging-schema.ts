@@ -0,0 +1,55 @@
+export type AgingReportType = "receivables-aging" | "payables-aging";
+
+export const AGING_BUCKETS = [
+  { value: "current", label: "Current" },
+  { value: "1-30", label: "1-30 Days" },
+  { value: "31-60", label: "31-60 Days" },
+  { value: "61-90", label: "61-90 Days" },
+  { value: "90+", label: "Over 90 Days" },
+] as const;
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number]["value"];
+
+export type AgingAmounts = Record<AgingBucket, number>;
+
+export type AgingRow = {
+  counterpartyId: string;
+  name: string;
+  documentCount: number;
+  oldestDaysOverdue: number;
+  buckets: AgingAmounts;
+  total: number;
+};
+
+export type AgingReport = {
+  type: AgingReportType;
+  asOf: string;
+  generatedAt: string;
+  rows: AgingRow[];
+  totals: AgingAmounts & { total: number };
+};
+
+export function isAgingReportType(value: unknown): value is AgingReportType {
+  return value === "receivables-aging" || value === "payables-aging";
+}
+
+/** Bucket of a balance that is `daysOverdue` past its due date. */
+export function agingBucketFor(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) {
+    return "current";
+  }
+  if (daysOverdue <= 30) {
+    return "1-30";
+  }
+  if (daysOverdue <= 60) {
+    return "31-60";
+  }
+  if (daysOverdue <= 90) {
+    return "61-90";
+  }
+  return "90+";
+}
+
+export function emptyAgingAmounts(): AgingAmounts {
+  return { current: 0, "1-30": 0, "31-60": 0, "61-90": 0, "90+": 0 };
+}
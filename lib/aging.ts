@@ -0,0 +1,153 @@
+import { ObjectId } from "mongodb";
+
+import {
+  AGING_BUCKETS,
+  agingBucketFor,
+  emptyAgingAmounts,
+  type AgingReport,
+  type AgingReportType,
+  type AgingRow,
+} from "./aging-schema";
+import { listBills } from "./procurement";
+import { listInvoices } from "./sales";
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+type OpenDocument = {
+  counterpartyId: string;
+  name: string;
+  documentDate: string;
+  dueDate: string;
+  total: number;
+  status: string;
+  payments: { date: string; amount: number }[];
+};
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+function startOfDay(value: Date) {
+  return new Date(value.getFullYear(), value.getMonth(), value.getDate());
+}
+
+/**
+ * Groups what was still owed at the end of `asOf` by counterparty and by how
+ * long it had been past due. Payments dated after `asOf` are ignored so older
+ * dates reproduce the balances that stood at the time.
+ */
+function buildAgingReport(
+  type: AgingReportType,
+  documents: OpenDocument[],
+  asOf: Date
+): AgingReport {
+  const day = startOfDay(asOf);
+  const rows = new Map<string, AgingRow>();
+
+  documents.forEach((document) => {
+    if (document.status === "draft" || document.status === "void") {
+      return;
+    }
+    if (new Date(document.documentDate) > day) {
+      return;
+    }
+
+    const paid = document.payments
+      .filter((payment) => new Date(payment.date) <= day)
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    const balance = roundAmount(document.total - paid);
+    if (balance <= 0) {
+      return;
+    }
+
+    const daysOverdue = Math.round(
+      (day.getTime() - startOfDay(new Date(document.dueDate)).getTime()) /
+        DAY_IN_MS
+    );
+    const bucket = agingBucketFor(daysOverdue);
+    const row = rows.get(document.counterpartyId) ?? {
+      counterpartyId: document.counterpartyId,
+      name: document.name,
+      documentCount: 0,
+      oldestDaysOverdue: 0,
+      buckets: emptyAgingAmounts(),
+      total: 0,
+    };
+
+    row.documentCount += 1;
+    row.oldestDaysOverdue = Math.max(row.oldestDaysOverdue, daysOverdue);
+    row.buckets[bucket] = roundAmount(row.buckets[bucket] + balance);
+    row.total = roundAmount(row.total + balance);
+    rows.set(document.counterpartyId, row);
+  });
+
+  const sortedRows = Array.from(rows.values()).sort(
+    (a, b) => b.total - a.total || a.name.localeCompare(b.name)
+  );
+  const totals = sortedRows.reduce(
+    (sum, row) => {
+      AGING_BUCKETS.forEach(({ value }) => {
+        sum[value] = roundAmount(sum[value] + row.buckets[value]);
+      });
+      sum.total = roundAmount(sum.total + row.total);
+      return sum;
+    },
+    { ...emptyAgingAmounts(), total: 0 }
+  );
+
+  return {
+    type,
+    asOf: day.toISOString(),
+    generatedAt: new Date().toISOString(),
+    rows: sortedRows,
+    totals,
+  };
+}
+
+export async function buildReceivablesAging(
+  userId: ObjectId,
+  asOf: Date = new Date()
+): Promise<AgingReport> {
+  const invoices = await listInvoices(userId);
+  return buildAgingReport(
+    "receivables-aging",
+    invoices.map((invoice) => ({
+      counterpartyId: invoice.customerId,
+      name: invoice.customerName,
+      documentDate: invoice.issueDate,
+      dueDate: invoice.dueDate,
+      total: invoice.total,
+      status: invoice.status,
+      payments: invoice.payments,
+    })),
+    asOf
+  );
+}
+
+export async function buildPayablesAging(
+  userId: ObjectId,
+  asOf: Date = new Date()
+): Promise<AgingReport> {
+  const bills = await listBills(userId);
+  return buildAgingReport(
+    "payables-aging",
+    bills.map((bill) => ({
+      counterpartyId: bill.vendorId,
+      name: bill.vendorName,
+      documentDate: bill.billDate,
+      dueDate: bill.dueDate,
+      total: bill.total,
+      status: bill.status,
+      payments: bill.payments,
+    })),
+    asOf
+  );
+}
+
+export function buildAgingReportFor(
+  userId: ObjectId,
+  type: AgingReportType,
+  asOf?: Date
+): Promise<AgingReport> {
+  return type === "receivables-aging"
+    ? buildReceivablesAging(userId, asOf)
+    : buildPayablesAging(userId, asOf);
+}
@@ -0,0 +1,740 @@
+import { ObjectId, type Collection, type Filter } from "mongodb";
+
+import clientPromise from "./mongodb";
+import { getEmployee, listEmployees, type EmployeeSummary } from "./employees";
+
+const DEFAULT_DB_NAME = process.env.MONGODB_DB ?? "cloud-erp";
+
+export const ATTENDANCE_STATUSES = ["present", "absent"] as const;
+
+export type AttendanceStatus = (typeof ATTENDANCE_STATUSES)[number];
+
+export const LEAVE_TYPES = ["annual", "sick", "unpaid"] as const;
+
+export type LeaveType = (typeof LEAVE_TYPES)[number];
+
+export const LEAVE_STATUSES = [
+  "pending",
+  "approved",
+  "rejected",
+  "cancelled",
+] as const;
+
+export type LeaveStatus = (typeof LEAVE_STATUSES)[number];
+
+/**
+ * Working days of each leave type allowed per calendar year, or null when
+ * there is no balance to draw down. Sick leave is backed by a doctor's note
+ * instead of a balance.
+ */
+export const LEAVE_ENTITLEMENTS: Record<LeaveType, number | null> = {
+  annual: 12,
+  sick: null,
+  unpaid: null,
+};
+
+/**
+ * Overtime limits under PP 35/2021 for a five-day week: four hours on a
+ * working day, eleven hours of work on a rest day.
+ */
+const MAX_OVERTIME_HOURS = { workday: 4, restDay: 11 } as const;
+
+type AttendanceDocument = {
+  _id?: ObjectId;
+  userId: ObjectId;
+  employeeId: ObjectId;
+  /** Local midnight of the day attended. */
+  date: Date;
+  status: AttendanceStatus;
+  checkIn?: Date | null;
+  checkOut?: Date | null;
+  overtimeHours: number;
+  note?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+type LeaveRequestDocument = {
+  _id?: ObjectId;
+  userId: ObjectId;
+  employeeId: ObjectId;
+  type: LeaveType;
+  startDate: Date;
+  endDate: Date;
+  /** Working days between the start and end dates, both included. */
+  days: number;
+  reason?: string | null;
+  status: LeaveStatus;
+  decidedAt?: Date | null;
+  decisionNote?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type AttendanceRecordSummary = {
+  id: string;
+  employeeId: string;
+  employeeNumber: string;
+  employeeName: string;
+  date: string;
+  status: AttendanceStatus;
+  checkIn: string | null;
+  checkOut: string | null;
+  hoursWorked: number | null;
+  overtimeHours: number;
+  note: string | null;
+};
+
+export type LeaveRequestSummary = {
+  id: string;
+  employeeId: string;
+  employeeNumber: string;
+  employeeName: string;
+  type: LeaveType;
+  startDate: string;
+  endDate: string;
+  days: number;
+  reason: string | null;
+  status: LeaveStatus;
+  decidedAt: string | null;
+  decisionNote: string | null;
+};
+
+export type LeaveBalance = {
+  employeeId: string;
+  employeeNumber: string;
+  employeeName: string;
+  type: LeaveType;
+  entitlement: number | null;
+  taken: number;
+  pending: number;
+  remaining: number | null;
+};
+
+/** What one employee's attendance adds to or takes from a month's pay. */
+export type PayrollAttendance = {
+  employeeId: string;
+  /** Unpaid leave plus absences not covered by approved leave. */
+  unpaidDays: number;
+  overtimeHours: number;
+  /** Overtime hours weighted by their statutory multipliers. */
+  overtimeRateHours: number;
+};
+
+export type AttendanceInput = {
+  employeeId: string;
+  date: Date;
+  status: AttendanceStatus;
+  /** Clock times as HH:MM on the attendance date. */
+  checkIn?: string | null;
+  checkOut?: string | null;
+  overtimeHours?: number | null;
+  note?: string | null;
+};
+
+export type LeaveRequestInput = {
+  employeeId: string;
+  type: LeaveType;
+  startDate: Date;
+  endDate: Date;
+  reason?: string | null;
+};
+
+export class AttendanceValidationError extends Error {}
+
+export class AttendanceNotFoundError extends Error {}
+
+export class LeaveValidationError extends Error {}
+
+export class LeaveRequestNotFoundError extends Error {}
+
+export function parseAttendanceStatus(value: unknown): AttendanceStatus | null {
+  return ATTENDANCE_STATUSES.includes(value as AttendanceStatus)
+    ? (value as AttendanceStatus)
+    : null;
+}
+
+export function parseLeaveType(value: unknown): LeaveType | null {
+  return LEAVE_TYPES.includes(value as LeaveType) ? (value as LeaveType) : null;
+}
+
+export function parseLeaveStatus(value: unknown): LeaveStatus | null {
+  return LEAVE_STATUSES.includes(value as LeaveStatus)
+    ? (value as LeaveStatus)
+    : null;
+}
+
+async function getAttendanceCollection(): Promise<
+  Collection<AttendanceDocument>
+> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  return db.collection<AttendanceDocument>("attendance_records");
+}
+
+async function getLeaveRequestsCollection(): Promise<
+  Collection<LeaveRequestDocument>
+> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  return db.collection<LeaveRequestDocument>("leave_requests");
+}
+
+const roundHours = (value: number) => Math.round(value * 100) / 100;
+
+const optionalText = (value: string | null | undefined) =>
+  value && value.trim() ? value.trim() : null;
+
+const isRestDay = (date: Date) => date.getDay() === 0 || date.getDay() === 6;
+
+function addDays(date: Date, days: number) {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/** Monday-to-Friday days from `first` to `last`, both included. */
+export function countWorkingDays(first: Date, last: Date): number {
+  let days = 0;
+  for (let day = new Date(first); day <= last; day = addDays(day, 1)) {
+    if (!isRestDay(day)) {
+      days += 1;
+    }
+  }
+  return days;
+}
+
+/**
+ * Overtime hours weighted as PP 35/2021 pays them: 1.5x for the first hour
+ * and 2x after on a working day; 2x for eight hours, 3x for the ninth and
+ * 4x beyond on a rest day.
+ */
+function overtimeRateHours(hours: number, restDay: boolean): number {
+  if (restDay) {
+    return (
+      Math.min(hours, 8) * 2 +
+      Math.min(Math.max(hours - 8, 0), 1) * 3 +
+      Math.max(hours - 9, 0) * 4
+    );
+  }
+  return Math.min(hours, 1) * 1.5 + Math.max(hours - 1, 0) * 2;
+}
+
+function isEmployedOn(employee: EmployeeSummary, date: Date) {
+  return (
+    new Date(employee.joinDate) <= date &&
+    (!employee.endDate || new Date(employee.endDate) >= date)
+  );
+}
+
+function toAttendanceSummary(
+  doc: AttendanceDocument,
+  employee: EmployeeSummary | undefined
+): AttendanceRecordSummary {
+  return {
+    id: doc._id?.toString() ?? "",
+    employeeId: doc.employeeId.toString(),
+    employeeNumber: employee?.employeeNumber ?? "",
+    employeeName: employee?.name ?? "Unknown employee",
+    date: doc.date.toISOString(),
+    status: doc.status,
+    checkIn: doc.checkIn?.toISOString() ?? null,
+    checkOut: doc.checkOut?.toISOString() ?? null,
+    hoursWorked:
+      doc.checkIn && doc.checkOut
+        ? roundHours(
+            (doc.checkOut.getTime() - doc.checkIn.getTime()) / 3_600_000
+          )
+        : null,
+    overtimeHours: doc.overtimeHours,
+    note: doc.note ?? null,
+  };
+}
+
+function toLeaveSummary(
+  doc: LeaveRequestDocument,
+  employee: EmployeeSummary | undefined
+): LeaveRequestSummary {
+  return {
+    id: doc._id?.toString() ?? "",
+    employeeId: doc.employeeId.toString(),
+    employeeNumber: employee?.employeeNumber ?? "",
+    employeeName: employee?.name ?? "Unknown employee",
+    type: doc.type,
+    startDate: doc.startDate.toISOString(),
+    endDate: doc.endDate.toISOString(),
+    days: doc.days,
+    reason: doc.reason ?? null,
+    status: doc.status,
+    decidedAt: doc.decidedAt?.toISOString() ?? null,
+    decisionNote: doc.decisionNote ?? null,
+  };
+}
+
+async function loadEmployeeMap(userId: ObjectId) {
+  const employees = await listEmployees(userId);
+  return new Map(employees.map((employee) => [employee.id, employee]));
+}
+
+/** Combine an HH:MM clock time with the attendance date. */
+function parseClockTime(
+  date: Date,
+  value: string | null | undefined,
+  label: string
+): Date | null {
+  const text = optionalText(value);
+  if (!text) {
+    return null;
+  }
+  const match = /^(\d{2}):(\d{2})$/.exec(text);
+  const hours = Number(match?.[1]);
+  const minutes = Number(match?.[2]);
+  if (!match || hours > 23 || minutes > 59) {
+    throw new AttendanceValidationError(`${label} must be a HH:MM time.`);
+  }
+  const time = new Date(date);
+  time.setHours(hours, minutes, 0, 0);
+  return time;
+}
+
+export async function listAttendance(
+  userId: ObjectId,
+  options: { from: Date; to: Date; employeeId?: string | null }
+): Promise<AttendanceRecordSummary[]> {
+  const filter: Filter<AttendanceDocument> = {
+    userId,
+    date: { $gte: options.from, $lte: options.to },
+  };
+  if (options.employeeId) {
+    if (!ObjectId.isValid(options.employeeId)) {
+      return [];
+    }
+    filter.employeeId = new ObjectId(options.employeeId);
+  }
+
+  const collection = await getAttendanceCollection();
+  const [records, employees] = await Promise.all([
+    collection.find(filter).sort({ date: -1 }).toArray(),
+    loadEmployeeMap(userId),
+  ]);
+  return records.map((record) =>
+    toAttendanceSummary(record, employees.get(record.employeeId.toString()))
+  );
+}
+
+/** Save the attendance of an employee for one day, replacing any earlier. */
+export async function recordAttendance(
+  userId: ObjectId,
+  input: AttendanceInput
+): Promise<AttendanceRecordSummary> {
+  const employee = await getEmployee(userId, input.employeeId);
+  if (!isEmployedOn(employee, input.date)) {
+    throw new AttendanceValidationError(
+      `${employee.name} was not employed on this date.`
+    );
+  }
+
+  const restDay = isRestDay(input.date);
+  let checkIn: Date | null = null;
+  let checkOut: Date | null = null;
+  let overtimeHours = 0;
+  if (input.status === "present") {
+    checkIn = parseClockTime(input.date, input.checkIn, "Check-in");
+    checkOut = parseClockTime(input.date, input.checkOut, "Check-out");
+    if (!checkIn) {
+      throw new AttendanceValidationError("Enter the check-in time.");
+    }
+    if (checkOut && checkOut <= checkIn) {
+      throw new AttendanceValidationError(
+        "Check-out must be after check-in."
+      );
+    }
+
+    overtimeHours = roundHours(input.overtimeHours ?? 0);
+    const limit = restDay
+      ? MAX_OVERTIME_HOURS.restDay
+      : MAX_OVERTIME_HOURS.workday;
+    if (!Number.isFinite(overtimeHours) || overtimeHours < 0) {
+      throw new AttendanceValidationError(
+        "Overtime hours cannot be negative."
+      );
+    }
+    if (overtimeHours > limit) {
+      throw new AttendanceValidationError(
+        `Overtime is limited to ${limit} hours on a ${
+          restDay ? "rest" : "working"
+        } day.`
+      );
+    }
+  }
+
+  const collection = await getAttendanceCollection();
+  const employeeId = new ObjectId(employee.id);
+  const now = new Date();
+  await collection.updateOne(
+    { userId, employeeId, date: input.date },
+    {
+      $set: {
+        status: input.status,
+        checkIn,
+        checkOut,
+        overtimeHours,
+        note: optionalText(input.note),
+        updatedAt: now,
+      },
+      $setOnInsert: { userId, employeeId, date: input.date, createdAt: now },
+    },
+    { upsert: true }
+  );
+
+  const record = await collection.findOne({
+    userId,
+    employeeId,
+    date: input.date,
+  });
+  if (!record) {
+    throw new AttendanceNotFoundError("Attendance record not found.");
+  }
+  return toAttendanceSummary(record, employee);
+}
+
+export async function deleteAttendance(userId: ObjectId, id: string) {
+  if (!ObjectId.isValid(id)) {
+    throw new AttendanceNotFoundError("Attendance record not found.");
+  }
+  const collection = await getAttendanceCollection();
+  const { deletedCount } = await collection.deleteOne({
+    _id: new ObjectId(id),
+    userId,
+  });
+  if (!deletedCount) {
+    throw new AttendanceNotFoundError("Attendance record not found.");
+  }
+}
+
+export async function listLeaveRequests(
+  userId: ObjectId,
+  options: { status?: LeaveStatus | null } = {}
+): Promise<LeaveRequestSummary[]> {
+  const collection = await getLeaveRequestsCollection();
+  const [requests, employees] = await Promise.all([
+    collection
+      .find({ userId, ...(options.status ? { status: options.status } : {}) })
+      .sort({ startDate: -1, createdAt: -1 })
+      .toArray(),
+    loadEmployeeMap(userId),
+  ]);
+  return requests.map((request) =>
+    toLeaveSummary(request, employees.get(request.employeeId.toString()))
+  );
+}
+
+export async function countPendingLeaveRequests(
+  userId: ObjectId
+): Promise<number> {
+  const collection = await getLeaveRequestsCollection();
+  return collection.countDocuments({ userId, status: "pending" });
+}
+
+/** Working days of `type` an employee has taken and requested in `year`. */
+async function loadLeaveUsage(
+  userId: ObjectId,
+  year: number,
+  exceptId?: ObjectId
+) {
+  const collection = await getLeaveRequestsCollection();
+  const requests = await collection
+    .find({
+      userId,
+      status: { $in: ["pending", "approved"] },
+      startDate: { $gte: new Date(year, 0, 1), $lt: new Date(year + 1, 0, 1) },
+      ...(exceptId ? { _id: { $ne: exceptId } } : {}),
+    })
+    .toArray();
+
+  const usage = new Map<string, { taken: number; pending: number }>();
+  requests.forEach((request) => {
+    const key = `${request.employeeId.toString()}:${request.type}`;
+    const current = usage.get(key) ?? { taken: 0, pending: 0 };
+    if (request.status === "approved") {
+      current.taken += request.days;
+    } else {
+      current.pending += request.days;
+    }
+    usage.set(key, current);
+  });
+  return usage;
+}
+
+export async function listLeaveBalances(
+  userId: ObjectId,
+  year: number
+): Promise<LeaveBalance[]> {
+  const [employees, usage] = await Promise.all([
+    listEmployees(userId),
+    loadLeaveUsage(userId, year),
+  ]);
+
+  return employees
+    .filter((employee) => employee.isActive)
+    .flatMap((employee) =>
+      LEAVE_TYPES.map((type) => {
+        const entitlement = LEAVE_ENTITLEMENTS[type];
+        const { taken, pending } = usage.get(`${employee.id}:${type}`) ?? {
+          taken: 0,
+          pending: 0,
+        };
+        return {
+          employeeId: employee.id,
+          employeeNumber: employee.employeeNumber,
+          employeeName: employee.name,
+          type,
+          entitlement,
+          taken,
+          pending,
+          remaining: entitlement === null ? null : entitlement - taken,
+        };
+      })
+    );
+}
+
+/**
+ * Reject requests that would take a leave type past its yearly entitlement,
+ * counting other requests still waiting for approval.
+ */
+async function assertLeaveBalance(
+  userId: ObjectId,
+  request: Pick<
+    LeaveRequestDocument,
+    "_id" | "employeeId" | "type" | "startDate" | "days"
+  >
+) {
+  const entitlement = LEAVE_ENTITLEMENTS[request.type];
+  if (entitlement === null) {
+    return;
+  }
+  const year = request.startDate.getFullYear();
+  const usage = await loadLeaveUsage(userId, year, request._id);
+  const used = usage.get(`${request.employeeId.toString()}:${request.type}`);
+  const remaining = entitlement - (used?.taken ?? 0) - (used?.pending ?? 0);
+  if (request.days > remaining) {
+    throw new LeaveValidationError(
+      `Only ${Math.max(remaining, 0)} day(s) of ${request.type} leave remain ` +
+        `for ${year}.`
+    );
+  }
+}
+
+export async function createLeaveRequest(
+  userId: ObjectId,
+  input: LeaveRequestInput
+): Promise<LeaveRequestSummary> {
+  const employee = await getEmployee(userId, input.employeeId);
+  if (!employee.isActive) {
+    throw new LeaveValidationError(
+      "Leave can only be requested for active employees."
+    );
+  }
+  if (input.endDate < input.startDate) {
+    throw new LeaveValidationError(
+      "The end date cannot be before the start date."
+    );
+  }
+  if (input.startDate.getFullYear() !== input.endDate.getFullYear()) {
+    throw new LeaveValidationError(
+      "Split leave across the new year into one request per year."
+    );
+  }
+  const days = countWorkingDays(input.startDate, input.endDate);
+  if (!days) {
+    throw new LeaveValidationError("Leave must include a working day.");
+  }
+
+  const collection = await getLeaveRequestsCollection();
+  const employeeId = new ObjectId(employee.id);
+  const overlapping = await collection.findOne({
+    userId,
+    employeeId,
+    status: { $in: ["pending", "approved"] },
+    startDate: { $lte: input.endDate },
+    endDate: { $gte: input.startDate },
+  });
+  if (overlapping) {
+    throw new LeaveValidationError(
+      `${employee.name} already has leave requested over these dates.`
+    );
+  }
+
+  await assertLeaveBalance(userId, {
+    employeeId,
+    type: input.type,
+    startDate: input.startDate,
+    days,
+  });
+
+  const now = new Date();
+  const document: LeaveRequestDocument = {
+    userId,
+    employeeId,
+    type: input.type,
+    startDate: input.startDate,
+    endDate: input.endDate,
+    days,
+    reason: optionalText(input.reason),
+    status: "pending",
+    decidedAt: null,
+    decisionNote: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const { insertedId } = await collection.insertOne(document);
+
+  return toLeaveSummary({ ...document, _id: insertedId }, employee);
+}
+
+async function findLeaveRequest(
+  collection: Collection<LeaveRequestDocument>,
+  userId: ObjectId,
+  id: string
+): Promise<LeaveRequestDocument & { _id: ObjectId }> {
+  if (!ObjectId.isValid(id)) {
+    throw new LeaveRequestNotFoundError("Leave request not found.");
+  }
+  const request = await collection.findOne({ _id: new ObjectId(id), userId });
+  if (!request) {
+    throw new LeaveRequestNotFoundError("Leave request not found.");
+  }
+  return request;
+}
+
+/**
+ * Approve, reject or cancel a leave request. Only pending requests can be
+ * decided; approved leave can still be cancelled.
+ */
+export async function decideLeaveRequest(
+  userId: ObjectId,
+  id: string,
+  decision: "approved" | "rejected" | "cancelled",
+  note?: string | null
+): Promise<LeaveRequestSummary> {
+  const collection = await getLeaveRequestsCollection();
+  const request = await findLeaveRequest(collection, userId, id);
+  if (
+    request.status !== "pending" &&
+    !(decision === "cancelled" && request.status === "approved")
+  ) {
+    throw new LeaveValidationError(
+      decision === "cancelled"
+        ? "Only pending or approved leave can be cancelled."
+        : "Only pending leave requests can be approved or rejected."
+    );
+  }
+  if (decision === "approved") {
+    await assertLeaveBalance(userId, request);
+  }
+
+  const now = new Date();
+  const decided = await collection.updateOne(
+    { _id: request._id, userId, status: request.status },
+    {
+      $set: {
+        status: decision,
+        decidedAt: now,
+        decisionNote: optionalText(note),
+        updatedAt: now,
+      },
+    }
+  );
+  if (decided.matchedCount === 0) {
+    // Decided by another request since it was read
+    throw new LeaveValidationError(
+      "The leave request was changed meanwhile. Reload it and try again."
+    );
+  }
+
+  const employees = await loadEmployeeMap(userId);
+  return toLeaveSummary(
+    {
+      ...request,
+      status: decision,
+      decidedAt: now,
+      decisionNote: optionalText(note),
+    },
+    employees.get(request.employeeId.toString())
+  );
+}
+
+/**
+ * Unpaid days and overtime of every employee between `start` and `end`
+ * (exclusive), as the payroll run of that month needs them.
+ */
+export async function summarizeAttendanceForPayroll(
+  userId: ObjectId,
+  start: Date,
+  end: Date
+): Promise<Map<string, PayrollAttendance>> {
+  const [attendance, leaves] = await Promise.all([
+    getAttendanceCollection().then((collection) =>
+      collection.find({ userId, date: { $gte: start, $lt: end } }).toArray()
+    ),
+    getLeaveRequestsCollection().then((collection) =>
+      collection
+        .find({
+          userId,
+          status: "approved",
+          startDate: { $lt: end },
+          endDate: { $gte: start },
+        })
+        .toArray()
+    ),
+  ]);
+
+  const summaries = new Map<string, PayrollAttendance>();
+  const summaryOf = (employeeId: ObjectId) => {
+    const key = employeeId.toString();
+    const summary = summaries.get(key) ?? {
+      employeeId: key,
+      unpaidDays: 0,
+      overtimeHours: 0,
+      overtimeRateHours: 0,
+    };
+    summaries.set(key, summary);
+    return summary;
+  };
+  const lastDay = addDays(end, -1);
+
+  leaves
+    .filter((leave) => leave.type === "unpaid")
+    .forEach((leave) => {
+      summaryOf(leave.employeeId).unpaidDays += countWorkingDays(
+        leave.startDate < start ? start : leave.startDate,
+        leave.endDate > lastDay ? lastDay : leave.endDate
+      );
+    });
+
+  attendance.forEach((record) => {
+    const summary = summaryOf(record.employeeId);
+    if (record.status === "absent") {
+      // Absence on a day of approved leave is already accounted for
+      const onLeave = leaves.some(
+        (leave) =>
+          leave.employeeId.equals(record.employeeId) &&
+          leave.startDate <= record.date &&
+          leave.endDate >= record.date
+      );
+      if (!onLeave && !isRestDay(record.date)) {
+        summary.unpaidDays += 1;
+      }
+      return;
+    }
+    summary.overtimeHours = roundHours(
+      summary.overtimeHours + record.overtimeHours
+    );
+    summary.overtimeRateHours = roundHours(
+      summary.overtimeRateHours +
+        overtimeRateHours(record.overtimeHours, isRestDay(record.date))
+    );
+  });
+
+  return summaries;
+}
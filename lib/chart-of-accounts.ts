@@ -11,16 +11,78 @@ export type CashFlowCategory =
   | "financing"
   | "non-cash";
 
+export const ACCOUNT_TYPES: AccountType[] = [
+  "asset",
+  "liability",
+  "equity",
+  "revenue",
+  "expense",
+];
+
+export const CASH_FLOW_CATEGORIES: CashFlowCategory[] = [
+  "operating",
+  "investing",
+  "financing",
+  "non-cash",
+];
+
+export function parseAccountType(value: unknown): AccountType | null {
+  return ACCOUNT_TYPES.includes(value as AccountType)
+    ? (value as AccountType)
+    : null;
+}
+
+export function parseCashFlowCategory(value: unknown): CashFlowCategory | null {
+  return CASH_FLOW_CATEGORIES.includes(value as CashFlowCategory)
+    ? (value as CashFlowCategory)
+    : null;
+}
+
 export interface AccountDefinition {
   code: string;
   name: string;
   type: AccountType;
+  parentCode?: string;
   cashFlowCategory?: CashFlowCategory;
   isCash?: boolean;
   isRetainedEarnings?: boolean;
+  /** Inactive accounts keep their history but accept no new postings. */
+  isActive?: boolean;
 }
 
-export const CHART_OF_ACCOUNTS: Record<string, AccountDefinition> = {
+export type ChartOfAccounts = Record<string, AccountDefinition>;
+
+/** Codes of the default accounts the system posts to directly. */
+export const ACCOUNT_CODES = {
+  CASH: "1000",
+  ACCOUNTS_RECEIVABLE: "1100",
+  INVENTORY: "1200",
+  INPUT_VAT: "1300",
+  FIXED_ASSET: "1500",
+  ACCUMULATED_DEPRECIATION: "1600",
+  ACCOUNTS_PAYABLE: "2100",
+  GOODS_RECEIVED_NOT_INVOICED: "2150",
+  LOAN: "2200",
+  OUTPUT_VAT: "2300",
+  PPH21_PAYABLE: "2310",
+  BPJS_PAYABLE: "2320",
+  WITHHOLDING_TAX_PAYABLE: "2330",
+  OWNER_EQUITY: "3100",
+  RETAINED_EARNINGS: "3200",
+  SALES_REVENUE: "4000",
+  OTHER_REVENUE: "4100",
+  COST_OF_GOODS: "5000",
+  OPERATING_EXPENSE: "5100",
+  DEPRECIATION_EXPENSE: "5200",
+  TAX_EXPENSE: "5300",
+  SALARIES_EXPENSE: "5400",
+} as const;
+
+/**
+ * Default accounts every user starts with. The system posts to these codes
+ * directly, so they can be renamed but never removed.
+ */
+export const CHART_OF_ACCOUNTS: ChartOfAccounts = {
   // Assets (1000-1999)
   "1000": {
     code: "1000",
@@ -39,6 +101,11 @@ export const CHART_OF_ACCOUNTS: Record<string, AccountDefinition> = {
     name: "Inventory",
     type: "asset",
   },
+  "1300": {
+    code: "1300",
+    name: "Input VAT (PPN Masukan)",
+    type: "asset",
+  },
   "1500": {
     code: "1500",
     name: "Fixed Assets",
@@ -57,12 +124,37 @@ export const CHART_OF_ACCOUNTS: Record<string, AccountDefinition> = {
     name: "Accounts Payable",
     type: "liability",
   },
+  "2150": {
+    code: "2150",
+    name: "Goods Received Not Invoiced",
+    type: "liability",
+  },
   "2200": {
     code: "2200",
     name: "Bank Loans",
     type: "liability",
     cashFlowCategory: "financing",
   },
+  "2300": {
+    code: "2300",
+    name: "Output VAT (PPN Keluaran)",
+    type: "liability",
+  },
+  "2310": {
+    code: "2310",
+    name: "PPh 21 Payable",
+    type: "liability",
+  },
+  "2320": {
+    code: "2320",
+    name: "BPJS Payable",
+    type: "liability",
+  },
+  "2330": {
+    code: "2330",
+    name: "PPh 23/4(2) Payable",
+    type: "liability",
+  },
 
   // Equity (3000-3999)
   "3100": {
@@ -112,12 +204,41 @@ export const CHART_OF_ACCOUNTS: Record<string, AccountDefinition> = {
     name: "Tax Expense",
     type: "expense",
   },
+  "5400": {
+    code: "5400",
+    name: "Salaries & Wages",
+    type: "expense",
+  },
 };
 
-export function getAccountDefinition(code: string): AccountDefinition | null {
-  return CHART_OF_ACCOUNTS[code] ?? null;
+export function getAccountDefinition(
+  code: string,
+  chart: ChartOfAccounts = CHART_OF_ACCOUNTS
+): AccountDefinition | null {
+  return chart[code] ?? null;
+}
+
+export function isCashAccount(
+  code: string,
+  chart: ChartOfAccounts = CHART_OF_ACCOUNTS
+): boolean {
+  return Boolean(chart[code]?.isCash);
 }
 
-export function isCashAccount(code: string): boolean {
-  return Boolean(CHART_OF_ACCOUNTS[code]?.isCash);
+/** True when `code` is `ancestorCode` itself or one of its sub-accounts. */
+export function isWithinAccount(
+  code: string,
+  ancestorCode: string,
+  chart: ChartOfAccounts = CHART_OF_ACCOUNTS
+): boolean {
+  const visited = new Set<string>();
+  let current: string | undefined = code;
+  while (current && !visited.has(current)) {
+    if (current === ancestorCode) {
+      return true;
+    }
+    visited.add(current);
+    current = chart[current]?.parentCode;
+  }
+  return false;
 }
@@ -0,0 +1,83 @@
+import { ObjectId, type Collection } from "mongodb";
+
+import clientPromise from "./mongodb";
+import { DEFAULT_FISCAL_YEAR_START_MONTH } from "./period-range";
+
+const DEFAULT_DB_NAME = process.env.MONGODB_DB ?? "cloud-erp";
+
+type CompanySettingsDocument = {
+  _id?: ObjectId;
+  userId: ObjectId;
+  /** Month the fiscal year starts in, 1 = January. */
+  fiscalYearStartMonth: number;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type CompanySettings = {
+  fiscalYearStartMonth: number;
+};
+
+export type UpdateCompanySettingsInput = Partial<CompanySettings>;
+
+export class CompanySettingsValidationError extends Error {}
+
+const DEFAULT_COMPANY_SETTINGS: CompanySettings = {
+  fiscalYearStartMonth: DEFAULT_FISCAL_YEAR_START_MONTH,
+};
+
+async function getSettingsCollection(): Promise<
+  Collection<CompanySettingsDocument>
+> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  return db.collection<CompanySettingsDocument>("company_settings");
+}
+
+function toSettings(doc: CompanySettingsDocument | null): CompanySettings {
+  if (!doc) {
+    return { ...DEFAULT_COMPANY_SETTINGS };
+  }
+  return {
+    fiscalYearStartMonth:
+      doc.fiscalYearStartMonth ?? DEFAULT_FISCAL_YEAR_START_MONTH,
+  };
+}
+
+export async function getCompanySettings(
+  userId: ObjectId
+): Promise<CompanySettings> {
+  const collection = await getSettingsCollection();
+  return toSettings(await collection.findOne({ userId }));
+}
+
+export async function updateCompanySettings(
+  userId: ObjectId,
+  input: UpdateCompanySettingsInput
+): Promise<CompanySettings> {
+  const updates: Partial<CompanySettingsDocument> = {};
+
+  if (input.fiscalYearStartMonth !== undefined) {
+    const month = input.fiscalYearStartMonth;
+    if (!Number.isInteger(month) || month < 1 || month > 12) {
+      throw new CompanySettingsValidationError(
+        "Fiscal year start month must be between 1 and 12."
+      );
+    }
+    updates.fiscalYearStartMonth = month;
+  }
+
+  const collection = await getSettingsCollection();
+  const now = new Date();
+  const updated = await collection.findOneAndUpdate(
+    { userId },
+    {
+      $set: { ...updates, updatedAt: now },
+      // Missing fields fall back to the defaults when read
+      $setOnInsert: { userId, createdAt: now },
+    },
+    { upsert: true, returnDocument: "after" }
+  );
+
+  return toSettings(updated);
+}
@@ -0,0 +1,436 @@
+import { ObjectId, type Collection } from "mongodb";
+
+import clientPromise from "./mongodb";
+
+const DEFAULT_DB_NAME = process.env.MONGODB_DB ?? "cloud-erp";
+
+export const EMPLOYMENT_STATUSES = [
+  "permanent",
+  "contract",
+  "probation",
+  "intern",
+  "terminated",
+] as const;
+
+export type EmploymentStatus = (typeof EMPLOYMENT_STATUSES)[number];
+
+/** PTKP statuses: single (TK) or married (K) with up to three dependants. */
+export const TAX_STATUSES = [
+  "TK/0",
+  "TK/1",
+  "TK/2",
+  "TK/3",
+  "K/0",
+  "K/1",
+  "K/2",
+  "K/3",
+] as const;
+
+export type TaxStatus = (typeof TAX_STATUSES)[number];
+
+type EmployeeDocument = {
+  _id?: ObjectId;
+  userId: ObjectId;
+  /** Company employee ID, e.g. EMP-0001. */
+  employeeNumber: string;
+  name: string;
+  position: string;
+  department: string;
+  joinDate: Date;
+  employmentStatus: EmploymentStatus;
+  /** Last working day, set once the employee is terminated. */
+  endDate?: Date | null;
+  /** Monthly base salary in rupiah. */
+  baseSalary: number;
+  bankName?: string | null;
+  bankAccountNumber?: string | null;
+  /** Taxpayer number, stored as digits only. */
+  npwp?: string | null;
+  bpjsKesehatanNumber?: string | null;
+  bpjsKetenagakerjaanNumber?: string | null;
+  /** PTKP status used for PPh 21; records before payroll default to TK/0. */
+  taxStatus?: TaxStatus;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type EmployeeSummary = {
+  id: string;
+  employeeNumber: string;
+  name: string;
+  position: string;
+  department: string;
+  joinDate: string;
+  employmentStatus: EmploymentStatus;
+  endDate: string | null;
+  baseSalary: number;
+  bankName: string | null;
+  bankAccountNumber: string | null;
+  npwp: string | null;
+  bpjsKesehatanNumber: string | null;
+  bpjsKetenagakerjaanNumber: string | null;
+  taxStatus: TaxStatus;
+  isActive: boolean;
+};
+
+export type DepartmentHeadcount = {
+  department: string;
+  employees: number;
+};
+
+export type EmployeeTotals = {
+  activeEmployees: number;
+  departments: number;
+  newHiresThisMonth: number;
+  /** Base salaries of active employees for one month. */
+  monthlyBaseSalaries: number;
+  byDepartment: DepartmentHeadcount[];
+};
+
+export type EmployeeInput = {
+  /** Numbered automatically when left blank. */
+  employeeNumber?: string | null;
+  name: string;
+  position: string;
+  department: string;
+  joinDate: Date;
+  employmentStatus?: EmploymentStatus | null;
+  endDate?: Date | null;
+  baseSalary: number;
+  bankName?: string | null;
+  bankAccountNumber?: string | null;
+  npwp?: string | null;
+  bpjsKesehatanNumber?: string | null;
+  bpjsKetenagakerjaanNumber?: string | null;
+  taxStatus?: TaxStatus | null;
+};
+
+export type UpdateEmployeeInput = Partial<EmployeeInput>;
+
+export class EmployeeValidationError extends Error {}
+
+export class EmployeeNotFoundError extends Error {}
+
+export function parseEmploymentStatus(
+  value: unknown
+): EmploymentStatus | null {
+  return EMPLOYMENT_STATUSES.includes(value as EmploymentStatus)
+    ? (value as EmploymentStatus)
+    : null;
+}
+
+export function parseTaxStatus(value: unknown): TaxStatus | null {
+  return TAX_STATUSES.includes(value as TaxStatus)
+    ? (value as TaxStatus)
+    : null;
+}
+
+async function getEmployeesCollection(): Promise<
+  Collection<EmployeeDocument>
+> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  return db.collection<EmployeeDocument>("employees");
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const optionalText = (value: string | null | undefined) =>
+  value && value.trim() ? value.trim() : null;
+
+function toEmployeeSummary(doc: EmployeeDocument): EmployeeSummary {
+  return {
+    id: doc._id?.toString() ?? "",
+    employeeNumber: doc.employeeNumber,
+    name: doc.name,
+    position: doc.position,
+    department: doc.department,
+    joinDate: doc.joinDate.toISOString(),
+    employmentStatus: doc.employmentStatus,
+    endDate: doc.endDate?.toISOString() ?? null,
+    baseSalary: doc.baseSalary,
+    bankName: doc.bankName ?? null,
+    bankAccountNumber: doc.bankAccountNumber ?? null,
+    npwp: doc.npwp ?? null,
+    bpjsKesehatanNumber: doc.bpjsKesehatanNumber ?? null,
+    bpjsKetenagakerjaanNumber: doc.bpjsKetenagakerjaanNumber ?? null,
+    taxStatus: doc.taxStatus ?? "TK/0",
+    isActive: doc.employmentStatus !== "terminated",
+  };
+}
+
+/**
+ * Strips the dots and dashes people type into ID numbers and checks the
+ * digits that remain, returning null when the field was left empty.
+ */
+function validateIdNumber(
+  value: string | null | undefined,
+  label: string,
+  lengths: number[]
+): string | null {
+  const text = optionalText(value);
+  if (!text) {
+    return null;
+  }
+  const digits = text.replace(/[\s.-]/g, "");
+  if (!/^\d+$/.test(digits) || !lengths.includes(digits.length)) {
+    throw new EmployeeValidationError(
+      `${label} must be ${lengths.join(" or ")} digits.`
+    );
+  }
+  return digits;
+}
+
+type EmployeeFields = Omit<
+  EmployeeDocument,
+  "_id" | "userId" | "employeeNumber" | "createdAt" | "updatedAt"
+>;
+
+function validateEmployee(input: EmployeeInput): EmployeeFields {
+  const name = input.name.trim();
+  const position = input.position.trim();
+  const department = input.department.trim();
+  if (!name) {
+    throw new EmployeeValidationError("Employee name is required.");
+  }
+  if (!position) {
+    throw new EmployeeValidationError("Position is required.");
+  }
+  if (!department) {
+    throw new EmployeeValidationError("Department is required.");
+  }
+  if (!Number.isFinite(input.baseSalary) || input.baseSalary < 0) {
+    throw new EmployeeValidationError("Base salary cannot be negative.");
+  }
+
+  const employmentStatus = input.employmentStatus ?? "permanent";
+  let endDate: Date | null = null;
+  if (employmentStatus === "terminated") {
+    endDate = input.endDate ?? new Date();
+    if (endDate < input.joinDate) {
+      throw new EmployeeValidationError(
+        "The end date cannot be before the join date."
+      );
+    }
+  }
+
+  const bankAccountNumber = optionalText(input.bankAccountNumber);
+  if (bankAccountNumber && !/^[\d\s.-]+$/.test(bankAccountNumber)) {
+    throw new EmployeeValidationError(
+      "Bank account numbers can only contain digits."
+    );
+  }
+
+  return {
+    name,
+    position,
+    department,
+    joinDate: input.joinDate,
+    employmentStatus,
+    endDate,
+    baseSalary: roundAmount(input.baseSalary),
+    bankName: optionalText(input.bankName),
+    bankAccountNumber: bankAccountNumber?.replace(/[\s.-]/g, "") ?? null,
+    // NPWP moved from 15 digits to the 16-digit NIK format in 2024
+    npwp: validateIdNumber(input.npwp, "NPWP", [15, 16]),
+    bpjsKesehatanNumber: validateIdNumber(
+      input.bpjsKesehatanNumber,
+      "BPJS Kesehatan number",
+      [13]
+    ),
+    bpjsKetenagakerjaanNumber: validateIdNumber(
+      input.bpjsKetenagakerjaanNumber,
+      "BPJS Ketenagakerjaan number",
+      [11]
+    ),
+    taxStatus: input.taxStatus ?? "TK/0",
+  };
+}
+
+async function findEmployee(userId: ObjectId, id: string) {
+  if (!ObjectId.isValid(id)) {
+    throw new EmployeeNotFoundError("Employee not found.");
+  }
+  const collection = await getEmployeesCollection();
+  const employee = await collection.findOne({ _id: new ObjectId(id), userId });
+  if (!employee) {
+    throw new EmployeeNotFoundError("Employee not found.");
+  }
+  return employee;
+}
+
+async function assertUniqueNumber(
+  collection: Collection<EmployeeDocument>,
+  userId: ObjectId,
+  employeeNumber: string,
+  exceptId?: ObjectId
+) {
+  const duplicate = await collection.findOne(
+    {
+      userId,
+      employeeNumber,
+      ...(exceptId ? { _id: { $ne: exceptId } } : {}),
+    },
+    { collation: { locale: "en", strength: 2 } }
+  );
+  if (duplicate) {
+    throw new EmployeeValidationError(
+      `Employee ID ${employeeNumber} is already in use.`
+    );
+  }
+}
+
+async function nextEmployeeNumber(
+  collection: Collection<EmployeeDocument>,
+  userId: ObjectId
+): Promise<string> {
+  const latest = await collection.findOne(
+    { userId, employeeNumber: /^EMP-\d+$/ },
+    { sort: { createdAt: -1 }, projection: { employeeNumber: 1 } }
+  );
+  const sequence = Number(latest?.employeeNumber.replace(/\D/g, "") ?? 0);
+  return `EMP-${String(sequence + 1).padStart(4, "0")}`;
+}
+
+export async function listEmployees(
+  userId: ObjectId
+): Promise<EmployeeSummary[]> {
+  const collection = await getEmployeesCollection();
+  const employees = await collection
+    .find({ userId })
+    .sort({ name: 1 })
+    .toArray();
+  return employees.map(toEmployeeSummary);
+}
+
+/** Headline figures of the HR page, around `reference`. */
+export function summarizeEmployees(
+  employees: EmployeeSummary[],
+  reference = new Date()
+): EmployeeTotals {
+  const monthStart = new Date(reference.getFullYear(), reference.getMonth(), 1);
+  const monthEnd = new Date(
+    reference.getFullYear(),
+    reference.getMonth() + 1,
+    1
+  );
+  const active = employees.filter((employee) => employee.isActive);
+
+  const headcount = new Map<string, number>();
+  active.forEach((employee) => {
+    headcount.set(
+      employee.department,
+      (headcount.get(employee.department) ?? 0) + 1
+    );
+  });
+
+  return {
+    activeEmployees: active.length,
+    departments: headcount.size,
+    newHiresThisMonth: active.filter((employee) => {
+      const joinDate = new Date(employee.joinDate);
+      return joinDate >= monthStart && joinDate < monthEnd;
+    }).length,
+    monthlyBaseSalaries: active.reduce(
+      (sum, employee) => roundAmount(sum + employee.baseSalary),
+      0
+    ),
+    byDepartment: Array.from(headcount)
+      .map(([department, count]) => ({ department, employees: count }))
+      .sort(
+        (a, b) =>
+          b.employees - a.employees || a.department.localeCompare(b.department)
+      ),
+  };
+}
+
+export async function getEmployee(
+  userId: ObjectId,
+  id: string
+): Promise<EmployeeSummary> {
+  return toEmployeeSummary(await findEmployee(userId, id));
+}
+
+export async function createEmployee(
+  userId: ObjectId,
+  input: EmployeeInput
+): Promise<EmployeeSummary> {
+  const fields = validateEmployee(input);
+  const collection = await getEmployeesCollection();
+
+  const requested = optionalText(input.employeeNumber)?.toUpperCase();
+  if (requested) {
+    await assertUniqueNumber(collection, userId, requested);
+  }
+
+  const now = new Date();
+  const document: EmployeeDocument = {
+    userId,
+    employeeNumber:
+      requested ?? (await nextEmployeeNumber(collection, userId)),
+    ...fields,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const { insertedId } = await collection.insertOne(document);
+
+  return toEmployeeSummary({ ...document, _id: insertedId });
+}
+
+export async function updateEmployee(
+  userId: ObjectId,
+  id: string,
+  input: UpdateEmployeeInput
+): Promise<EmployeeSummary> {
+  const employee = await findEmployee(userId, id);
+  // Validate the record as it will be, so rules spanning fields still hold
+  const fields = validateEmployee({
+    name: input.name ?? employee.name,
+    position: input.position ?? employee.position,
+    department: input.department ?? employee.department,
+    joinDate: input.joinDate ?? employee.joinDate,
+    employmentStatus: input.employmentStatus ?? employee.employmentStatus,
+    endDate: input.endDate === undefined ? employee.endDate : input.endDate,
+    baseSalary: input.baseSalary ?? employee.baseSalary,
+    bankName: input.bankName === undefined ? employee.bankName : input.bankName,
+    bankAccountNumber:
+      input.bankAccountNumber === undefined
+        ? employee.bankAccountNumber
+        : input.bankAccountNumber,
+    npwp: input.npwp === undefined ? employee.npwp : input.npwp,
+    bpjsKesehatanNumber:
+      input.bpjsKesehatanNumber === undefined
+        ? employee.bpjsKesehatanNumber
+        : input.bpjsKesehatanNumber,
+    bpjsKetenagakerjaanNumber:
+      input.bpjsKetenagakerjaanNumber === undefined
+        ? employee.bpjsKetenagakerjaanNumber
+        : input.bpjsKetenagakerjaanNumber,
+    taxStatus: input.taxStatus ?? employee.taxStatus,
+  });
+
+  const collection = await getEmployeesCollection();
+  const update: Partial<EmployeeDocument> = {
+    ...fields,
+    updatedAt: new Date(),
+  };
+  const employeeNumber = optionalText(input.employeeNumber)?.toUpperCase();
+  if (employeeNumber && employeeNumber !== employee.employeeNumber) {
+    await assertUniqueNumber(
+      collection,
+      userId,
+      employeeNumber,
+      employee._id
+    );
+    update.employeeNumber = employeeNumber;
+  }
+
+  await collection.updateOne({ _id: employee._id, userId }, { $set: update });
+  return getEmployee(userId, id);
+}
+
+export async function deleteEmployee(userId: ObjectId, id: string) {
+  const employee = await findEmployee(userId, id);
+  const collection = await getEmployeesCollection();
+  await collection.deleteOne({ _id: employee._id, userId });
+}
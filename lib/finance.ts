@@ -1,15 +1,74 @@
-import { ObjectId } from "mongodb";
+import { ObjectId, type Collection } from "mongodb";
 
 import clientPromise from "./mongodb";
 import {
+  cancelReversal,
   deleteJournal,
   postJournal,
   replaceJournal,
+  reverseJournal,
   type JournalDraft,
   type JournalEntryDocument,
 } from "./journal";
-import { getAccountDefinition } from "./chart-of-accounts";
-import { fetchReportAdjustmentsForPeriod } from "./report-adjustments";
+import {
+  ACCOUNT_CODES,
+  getAccountDefinition,
+  isCashAccount,
+  isWithinAccount,
+  type AccountDefinition,
+  type AccountType,
+  type ChartOfAccounts,
+} from "./chart-of-accounts";
+import { loadChartOfAccounts } from "./accounts";
+import { buildPayablesAging, buildReceivablesAging } from "./aging";
+import type { AgingReport } from "./aging-schema";
+import { countPendingLeaveRequests } from "./attendance";
+import {
+  balanceWithSubAccounts,
+  buildTrialBalance,
+  cashBalanceFromBalances,
+  cashMovement,
+  classifyCashEntry,
+  fetchAccountBalances,
+  fetchJournalDateBounds,
+  fetchJournalEntries,
+  fetchLedgerBalances,
+  netIncomeFromBalances,
+  primaryCounterAccount,
+  signedBalance,
+  sumBalancesByType,
+  type AccountBalance,
+  type AccountBalances,
+  type TrialBalance,
+} from "./ledger";
+import { getCompanySettings } from "./company-settings";
+import {
+  InvalidPeriodError,
+  getCustomPeriodRange,
+  getPeriodRange,
+  splitIntoMonths,
+  type PeriodKey,
+  type PeriodRange,
+  type PeriodSelection,
+} from "./period-range";
+import { PeriodLockedError, assertPeriodsOpen } from "./periods";
+import {
+  InventoryValidationError,
+  recordTransactionMovement,
+  voidTransactionMovement,
+} from "./inventory";
+import {
+  fetchReportAdjustmentsForPeriod,
+  type ReportAdjustmentCollection,
+} from "./report-adjustments";
+import {
+  calculateVariance,
+  getComparisonRange,
+  type ComparisonSelection,
+  type ReportVariance,
+} from "./report-comparison";
+import { TaxCodeValidationError, getActiveTaxCode } from "./tax-codes";
+import { calculateTax, type TaxDirection } from "./tax-schema";
 import {
   TRANSACTION_PRESETS,
   isTransactionPresetKey,
@@ -18,14 +77,7 @@ import {
   type TransactionPresetKey,
 } from "./transaction-presets";
 
-export type PeriodKey =
-  | "current-month"
-  | "last-month"
-  | "current-quarter"
-  | "last-quarter"
-  | "year-to-date"
-  | "last-year"
-  | "all-time";
+export type { PeriodKey };
 
 type CashFlowType = "operating" | "investing" | "financing" | "non-cash";
 
@@ -37,24 +89,6 @@ export const DEFAULT_CATEGORY_BY_TYPE: Record<FinanceEntryType, string> = {
   equity: "General Equity",
 };
 
-const ACCOUNT_CODES = {
-  CASH: "1000",
-  ACCOUNTS_RECEIVABLE: "1100",
-  INVENTORY: "1200",
-  FIXED_ASSET: "1500",
-  ACCUMULATED_DEPRECIATION: "1600",
-  ACCOUNTS_PAYABLE: "2100",
-  LOAN: "2200",
-  OWNER_EQUITY: "3100",
-  RETAINED_EARNINGS: "3200",
-  SALES_REVENUE: "4000",
-  OTHER_REVENUE: "4100",
-  COST_OF_GOODS: "5000",
-  OPERATING_EXPENSE: "5100",
-  DEPRECIATION_EXPENSE: "5200",
-  TAX_EXPENSE: "5300",
-} as const;
-
 type TransactionJournalSource = {
   amount: number;
   type: FinanceEntryType;
@@ -64,8 +98,16 @@ type TransactionJournalSource = {
   status: "posted" | "pending";
   cashFlowType: CashFlowType;
   presetKey?: TransactionPresetKey;
+  /** PPN contained in `amount`; zero for exempt codes. */
+  tax?: { code: string; amount: number; direction: TaxDirection } | null;
+  /** Ledger cost of the stock a sale issued, booked to COGS with it. */
+  costOfGoods?: number;
 };
 
+/** Income is a sale that charges PPN; everything else is a purchase. */
+const taxDirectionFor = (type: FinanceEntryType): TaxDirection =>
+  type === "income" ? "output" : "input";
+
 function toObjectId(value: unknown): ObjectId | null {
   if (!value) {
     return null;
@@ -100,7 +142,11 @@ function chooseExpenseAccount(
   }
 
   const name = category.toLowerCase();
-  if (name.includes("hpp") || name.includes("cogs")) {
+  if (
+    name.includes("hpp") ||
+    name.includes("cogs") ||
+    name.includes("cost of goods")
+  ) {
     return ACCOUNT_CODES.COST_OF_GOODS;
   }
   if (name.includes("pajak")) {
@@ -114,12 +160,22 @@ function chooseExpenseAccount(
 
 function chooseAssetAccount(source: TransactionJournalSource): string {
   const name = source.category.toLowerCase();
+  const description = source.description.toLowerCase();
   if (name.includes("persediaan")) {
     return ACCOUNT_CODES.INVENTORY;
   }
   if (name.includes("penyusutan")) {
     return ACCOUNT_CODES.ACCUMULATED_DEPRECIATION;
   }
+  if (
+    name.includes("cash") ||
+    name.includes("kas") ||
+    name.includes("opening") ||
+    description.includes("kas") ||
+    description.includes("cash")
+  ) {
+    return ACCOUNT_CODES.CASH;
+  }
   if (source.cashFlowType === "operating") {
     return ACCOUNT_CODES.INVENTORY;
   }
@@ -134,8 +190,102 @@ function chooseLiabilityAccount(category: string): string {
   return ACCOUNT_CODES.LOAN;
 }
 
+/**
+ * Active account of the expected type whose name equals the transaction
+ * category, so user-defined sub-accounts win over the keyword mapping below.
+ */
+function matchAccountByCategory(
+  chart: ChartOfAccounts,
+  category: string,
+  type: AccountType
+): string | null {
+  const name = category.trim().toLowerCase();
+  if (!name) {
+    return null;
+  }
+  const match = Object.values(chart).find(
+    (account) =>
+      account.type === type &&
+      account.isActive !== false &&
+      account.name.trim().toLowerCase() === name
+  );
+  return match?.code ?? null;
+}
+
+/**
+ * Debit and credit lines moving `amount`. PPN in the amount is split out to
+ * output VAT on a sale or input VAT on a purchase, so revenue and costs are
+ * booked at the tax base.
+ */
+function buildTransactionLines(
+  chart: ChartOfAccounts,
+  source: TransactionJournalSource,
+  debitAccount: string,
+  creditAccount: string,
+  description: string
+): JournalDraft["lines"] {
+  const amount = Math.abs(source.amount);
+  const plainLines = [
+    { accountCode: debitAccount, debit: amount, description },
+    { accountCode: creditAccount, credit: amount, description },
+  ];
+  if (!source.tax) {
+    return plainLines;
+  }
+
+  const taxAmount = source.tax.amount;
+  const base = amount - taxAmount;
+  if (source.tax.direction === "output") {
+    if (getAccountDefinition(creditAccount, chart)?.type !== "revenue") {
+      throw new TaxCodeValidationError(
+        "Output PPN can only be charged on sales revenue."
+      );
+    }
+    return taxAmount > 0
+      ? [
+          plainLines[0],
+          { accountCode: creditAccount, credit: base, description },
+          {
+            accountCode: ACCOUNT_CODES.OUTPUT_VAT,
+            credit: taxAmount,
+            description,
+            taxCode: source.tax.code,
+            taxBase: base,
+          },
+        ]
+      : plainLines;
+  }
+
+  // Input PPN is claimable on costs paid to, or owed to, a supplier
+  const debitType = getAccountDefinition(debitAccount, chart)?.type;
+  const isPurchase =
+    (debitType === "expense" || debitType === "asset") &&
+    !isCashAccount(debitAccount, chart) &&
+    (isCashAccount(creditAccount, chart) ||
+      isWithinAccount(creditAccount, ACCOUNT_CODES.ACCOUNTS_PAYABLE, chart));
+  if (!isPurchase) {
+    throw new TaxCodeValidationError(
+      "Input PPN can only be claimed on purchases paid in cash or owed to " +
+        "a supplier."
+    );
+  }
+  return taxAmount > 0
+    ? [
+        { accountCode: debitAccount, debit: base, description },
+        {
+          accountCode: ACCOUNT_CODES.INPUT_VAT,
+          debit: taxAmount,
+          description,
+          taxCode: source.tax.code,
+          taxBase: base,
+        },
+        plainLines[1],
+      ]
+    : plainLines;
+}
+
 function buildJournalDraftForTransaction(
-  _userId: ObjectId,
+  chart: ChartOfAccounts,
   source: TransactionJournalSource,
   referenceId?: string
 ): JournalDraft {
@@ -152,32 +302,45 @@ function buildJournalDraftForTransaction(
     const description = memo || preset.journal.description || preset.label;
 
     // Validate preset accounts exist
-    if (!getAccountDefinition(preset.journal.debitAccount)) {
+    if (!getAccountDefinition(preset.journal.debitAccount, chart)) {
       throw new Error(
         `Preset debit account ${preset.journal.debitAccount} not found in chart of accounts.`
       );
     }
-    if (!getAccountDefinition(preset.journal.creditAccount)) {
+    if (!getAccountDefinition(preset.journal.creditAccount, chart)) {
       throw new Error(
         `Preset credit account ${preset.journal.creditAccount} not found in chart of accounts.`
       );
     }
 
+    const costOfGoods = source.costOfGoods ?? 0;
+
     return {
       referenceId,
       date: source.date,
       memo,
       lines: [
-        {
-          accountCode: preset.journal.debitAccount,
-          debit: amount,
-          description,
-        },
-        {
-          accountCode: preset.journal.creditAccount,
-          credit: amount,
-          description,
-        },
+        ...buildTransactionLines(
+          chart,
+          source,
+          preset.journal.debitAccount,
+          preset.journal.creditAccount,
+          description
+        ),
+        ...(costOfGoods > 0
+          ? [
+              {
+                accountCode: ACCOUNT_CODES.COST_OF_GOODS,
+                debit: costOfGoods,
+                description: TRANSACTION_PRESETS.cogs.journal.description,
+              },
+              {
+                accountCode: ACCOUNT_CODES.INVENTORY,
+                credit: costOfGoods,
+                description: TRANSACTION_PRESETS.cogs.journal.description,
+              },
+            ]
+          : []),
       ],
     } satisfies JournalDraft;
   }
@@ -200,13 +363,17 @@ function buildJournalDraftForTransaction(
             ? ACCOUNT_CODES.ACCOUNTS_RECEIVABLE
             : ACCOUNT_CODES.CASH;
       }
-      creditAccount = chooseRevenueAccount(source.category);
+      creditAccount =
+        matchAccountByCategory(chart, source.category, "revenue") ??
+        chooseRevenueAccount(source.category);
       break;
     }
 
     case "expense": {
       // Expense transactions - only affect income statement
-      debitAccount = chooseExpenseAccount(source.category, source.cashFlowType);
+      debitAccount =
+        matchAccountByCategory(chart, source.category, "expense") ??
+        chooseExpenseAccount(source.category, source.cashFlowType);
 
       if (source.cashFlowType === "non-cash") {
         // Non-cash expenses (like depreciation) credit accumulated depreciation
@@ -221,40 +388,48 @@ function buildJournalDraftForTransaction(
     }
 
     case "asset": {
-      // Asset transactions - should only appear in assets section
-      debitAccount = chooseAssetAccount(source);
+      debitAccount =
+        matchAccountByCategory(chart, source.category, "asset") ??
+        chooseAssetAccount(source);
 
-      if (source.cashFlowType === "non-cash") {
+      if (isCashAccount(debitAccount, chart)) {
+        // Opening cash balances are funded by the owner's capital
+        creditAccount = ACCOUNT_CODES.OWNER_EQUITY;
+      } else if (source.cashFlowType === "non-cash") {
         // Non-cash asset transactions - balance with another asset account
         creditAccount = ACCOUNT_CODES.ACCUMULATED_DEPRECIATION; // or create a contra-asset
+      } else if (source.cashFlowType === "financing") {
+        // Assets contributed in kind by the owner
+        creditAccount = ACCOUNT_CODES.OWNER_EQUITY;
       } else {
-        // For cash asset transactions, we need to avoid double-counting in balance sheet
-        // Use a temporary clearing account or handle differently
-        creditAccount = ACCOUNT_CODES.OWNER_EQUITY; // Temporary - will be handled in reporting
+        // Asset purchases are paid in cash, or owed to the supplier if pending
+        creditAccount =
+          source.status === "pending"
+            ? ACCOUNT_CODES.ACCOUNTS_PAYABLE
+            : ACCOUNT_CODES.CASH;
       }
       break;
     }
 
     case "liability": {
-      // Liability transactions - should only appear in liabilities section
       if (source.cashFlowType === "non-cash") {
         // Non-cash liability - balance with owner's equity
         debitAccount = ACCOUNT_CODES.OWNER_EQUITY;
       } else {
-        // Cash liability - this is tricky as it affects both cash and liability
-        // We'll handle this in reporting to show only in liability section
-        debitAccount = ACCOUNT_CODES.OWNER_EQUITY; // Temporary - handled in reporting
+        // Borrowing brings cash in
+        debitAccount = ACCOUNT_CODES.CASH;
       }
-      creditAccount = chooseLiabilityAccount(source.category);
+      creditAccount =
+        matchAccountByCategory(chart, source.category, "liability") ??
+        chooseLiabilityAccount(source.category);
       break;
     }
 
     case "equity": {
-      // Equity transactions - should only appear in equity section
       debitAccount =
         source.cashFlowType === "non-cash"
           ? chooseAssetAccount(source) // Non-cash equity contribution (asset)
-          : ACCOUNT_CODES.OWNER_EQUITY; // Will be handled specially in reporting
+          : ACCOUNT_CODES.CASH; // Capital injection in cash
       creditAccount = ACCOUNT_CODES.OWNER_EQUITY;
       break;
     }
@@ -268,12 +443,12 @@ function buildJournalDraftForTransaction(
   }
 
   // Validate accounts exist in chart of accounts
-  if (!getAccountDefinition(debitAccount)) {
+  if (!getAccountDefinition(debitAccount, chart)) {
     throw new Error(
       `Debit account ${debitAccount} not found in chart of accounts.`
     );
   }
-  if (!getAccountDefinition(creditAccount)) {
+  if (!getAccountDefinition(creditAccount, chart)) {
     throw new Error(
       `Credit account ${creditAccount} not found in chart of accounts.`
     );
@@ -283,18 +458,13 @@ function buildJournalDraftForTransaction(
     referenceId,
     date: source.date,
     memo,
-    lines: [
-      {
-        accountCode: debitAccount,
-        debit: amount,
-        description: lineDescription,
-      },
-      {
-        accountCode: creditAccount,
-        credit: amount,
-        description: lineDescription,
-      },
-    ],
+    lines: buildTransactionLines(
+      chart,
+      source,
+      debitAccount,
+      creditAccount,
+      lineDescription
+    ),
   } satisfies JournalDraft;
 }
 
@@ -305,6 +475,15 @@ type TransactionDocument = {
   presetKey?: string | null;
   presetLabel?: string | null;
   journalEntryId?: ObjectId | string | null;
+  /** Stock movement recorded with a sale, purchase or cost of goods. */
+  stockMovementId?: ObjectId | null;
+  /** Ledger cost of the stock a sale issued; zero for other transactions. */
+  costOfGoods?: number;
+  /** PPN charged: the code and rate used and the tax within `amount`. */
+  taxCode?: string | null;
+  taxRate?: number | null;
+  taxAmount?: number;
+  voidedAt?: Date | null;
 };
 
 type NormalizedTransaction = {
@@ -319,6 +498,9 @@ type NormalizedTransaction = {
   counterparty?: string;
   presetKey?: TransactionPresetKey | null;
   presetLabel?: string | null;
+  taxCode: string | null;
+  taxAmount: number;
+  voidedAt?: Date | null;
 };
 
 export type CreateTransactionInput = {
@@ -332,8 +514,29 @@ export type CreateTransactionInput = {
   counterparty?: string | null;
   presetKey?: TransactionPresetKey | null;
   presetLabel?: string | null;
+  /**
+   * Item moved by a purchase (received at the amount paid), a cost of goods
+   * transaction (issued at ledger cost, which becomes the amount) or a sale
+   * (issued at ledger cost, posted to COGS next to the revenue). Purchase
+   * and cost of goods transactions require one.
+   */
+  inventory?: { itemId: string; quantity: number } | null;
+  /**
+   * PPN code to charge. A tax-inclusive amount already contains the PPN;
+   * otherwise it is added on top and the stored amount is the total.
+   */
+  tax?: { code: string; inclusive: boolean } | null;
 };
 
+/**
+ * Presets whose journal runs through account 1200. They must move stock, or
+ * the account would drift from the stock ledger valuation.
+ */
+export const STOCK_PRESET_KEYS: TransactionPresetKey[] = ["purchase", "cogs"];
+
+/** Sale presets, which may issue an item and post its cost of goods. */
+const SALE_PRESET_KEYS: TransactionPresetKey[] = ["cash"];
+
 export type UpdateTransactionInput = {
   type?: FinanceEntryType;
   amount?: number;
@@ -351,11 +554,16 @@ type ReportRow = {
   label: string;
   amount: number;
   description?: string;
+  accountCode?: string;
   isManual?: boolean;
   adjustmentId?: string;
+  /** Set on every row when the report has a comparison period. */
+  comparisonAmount?: number;
+  variance?: ReportVariance;
 };
 
 export interface DashboardSnapshot {
+  period: string;
   metrics: {
     incomeThisMonth: number;
     expensesThisMonth: number;
@@ -386,9 +594,19 @@ export interface FinanceOverview {
     status: string;
     category: string;
     displayType: string;
+    voided: boolean;
+    journalChain: JournalChainLink[];
   }>;
 }
 
+export type JournalChainLink = {
+  entryId: string;
+  kind: "original" | "reversal" | "correction";
+  date: string;
+  amount: number;
+  createdAt: string;
+};
+
 export interface ReportData {
   period: string;
   range: {
@@ -432,88 +650,109 @@ export interface ReportData {
       financing: number;
       netChange: number;
     };
+    indirect: IndirectCashFlow;
   };
+  equityStatement: EquityStatement;
+  trialBalance: TrialBalance;
+  comparison?: ReportComparison;
 }
 
-type PeriodRange = {
-  start: Date;
-  end: Date;
-  label: string;
+export type EquityBalance = {
+  /** Owner's capital (3100) and every other equity account. */
+  capital: number;
+  /** Retained earnings (3200) including the result of unclosed months. */
+  retainedEarnings: number;
+  total: number;
 };
 
-const DEFAULT_DB_NAME = process.env.MONGODB_DB ?? "cloud-erp";
+export type EquityStatementRow = EquityBalance & { label: string };
+
+/** Movements between opening and closing equity over the report period. */
+export interface EquityStatement {
+  opening: EquityBalance;
+  movements: EquityStatementRow[];
+  closing: EquityBalance;
+}
 
 /**
- * Calculate cash balance consistently across all pages
- * This ensures dashboard, finance, and reports show the same cash balance
+ * Cash flow reconciled from net income. Only ledger cash is covered, so
+ * manual cash flow adjustments appear in the direct method alone.
  */
-function calculateCashBalance(transactions: NormalizedTransaction[]): number {
-  let cashBalance = 0;
-
-  // Include non-cash transactions if they are cash-related assets (opening balance, etc.)
-  const cashAffectingTransactions = transactions.filter((t) => {
-    if (t.cashFlowType !== "non-cash") {
-      return true; // Include all cash flow transactions
-    }
+export interface IndirectCashFlow {
+  netIncome: number;
+  /** Non-cash items and working capital changes, signed as cash effects. */
+  operatingAdjustments: ReportRow[];
+  investing: ReportRow[];
+  financing: ReportRow[];
+  totals: {
+    operating: number;
+    investing: number;
+    financing: number;
+    netChange: number;
+  };
+  beginningCash: number;
+  endingCash: number;
+}
 
-    // Special case: Include cash-related assets even if marked as non-cash
-    const isCashAsset =
-      t.type === "asset" &&
-      (t.category?.toLowerCase().includes("cash") ||
-        t.category?.toLowerCase().includes("opening") ||
-        t.description?.toLowerCase().includes("kas") ||
-        t.description?.toLowerCase().includes("cash") ||
-        t.description?.toLowerCase().includes("awal"));
+/** The period a report is compared against and its statement totals. */
+export interface ReportComparison {
+  period: string;
+  range: {
+    start: string;
+    end: string;
+  };
+  totals: {
+    incomeStatement: ReportData["incomeStatement"]["totals"];
+    balanceSheet: ReportData["balanceSheet"]["totals"];
+    cashFlow: ReportData["cashFlow"]["totals"];
+  };
+}
 
-    return isCashAsset;
-  });
+type MonthlyAmounts = {
+  /** One amount per month, in the order of `MonthlyIncomeStatement.months`. */
+  amounts: number[];
+  total: number;
+};
 
-  cashAffectingTransactions.forEach((transaction) => {
-    switch (transaction.type) {
-      case "income":
-        cashBalance += transaction.amount; // Cash inflow
-        break;
-      case "expense":
-        cashBalance -= transaction.amount; // Cash outflow
-        break;
-      case "asset":
-        // Check if this is a cash asset (opening balance, etc.)
-        const isCashAsset =
-          transaction.category?.toLowerCase().includes("cash") ||
-          transaction.category?.toLowerCase().includes("opening") ||
-          transaction.description?.toLowerCase().includes("kas") ||
-          transaction.description?.toLowerCase().includes("cash") ||
-          transaction.description?.toLowerCase().includes("awal");
-
-        if (isCashAsset) {
-          // Cash asset = increase in cash balance
-          cashBalance += transaction.amount;
-        } else {
-          // Non-cash asset based on cash flow type:
-          if (transaction.cashFlowType === "operating") {
-            // Operating = asset purchase with cash (reduces cash balance)
-            cashBalance -= transaction.amount;
-          } else if (transaction.cashFlowType === "investing") {
-            // Investing = typically equipment purchase (reduces cash balance)
-            cashBalance -= transaction.amount;
-          } else {
-            // Financing or other = neutral (no cash impact)
-            // Do nothing to cash balance
-          }
-        }
-        break;
-      case "liability":
-        cashBalance += transaction.amount; // Borrowing = cash inflow
-        break;
-      case "equity":
-        cashBalance += transaction.amount; // Capital injection = cash inflow
-        break;
-    }
-  });
+export type MonthlyReportRow = MonthlyAmounts & {
+  label: string;
+  accountCode?: string;
+};
 
-  return cashBalance;
+/** The income statement of a period with one column per calendar month. */
+export interface MonthlyIncomeStatement {
+  period: string;
+  range: {
+    start: string;
+    end: string;
+  };
+  generatedAt: string;
+  months: Array<{
+    label: string;
+    start: string;
+    end: string;
+  }>;
+  revenues: MonthlyReportRow[];
+  cogs: MonthlyReportRow[];
+  expenses: MonthlyReportRow[];
+  totals: Record<
+    keyof ReportData["incomeStatement"]["totals"],
+    MonthlyAmounts
+  >;
 }
 
+type ReportStatements = Pick<
+  ReportData,
+  | "incomeStatement"
+  | "balanceSheet"
+  | "cashFlow"
+  | "equityStatement"
+  | "trialBalance"
+>;
+
+const DEFAULT_DB_NAME = process.env.MONGODB_DB ?? "cloud-erp";
+const MAX_MONTHLY_COLUMNS = 24;
+
 function toNumber(value: unknown): number {
   const result =
     typeof value === "number" ? value : parseFloat(String(value ?? 0));
@@ -590,67 +829,63 @@ function normaliseTransaction(
       typeof doc.counterparty === "string" ? doc.counterparty : undefined,
     presetKey,
     presetLabel,
+    taxCode:
+      typeof doc.taxCode === "string" && doc.taxCode ? doc.taxCode : null,
+    taxAmount: toNumber(doc.taxAmount),
+    voidedAt: toDate(doc.voidedAt),
   };
 }
 
+/** The PPN a stored transaction carries into its journal. */
+const toTaxSource = (
+  transaction: NormalizedTransaction
+): TransactionJournalSource["tax"] =>
+  transaction.taxCode
+    ? {
+        code: transaction.taxCode,
+        amount: transaction.taxAmount,
+        direction: taxDirectionFor(transaction.type),
+      }
+    : null;
+
 async function fetchTransactions(
   userId: ObjectId
 ): Promise<NormalizedTransaction[]> {
-  console.log("🔍 Fetching transactions for userId:", userId.toString());
-  console.log("🔍 Using database:", DEFAULT_DB_NAME);
-
   const client = await clientPromise;
-  const db = client.db(DEFAULT_DB_NAME);
-
-  // Debug: List all databases to make sure we're in the right one
-  const admin = client.db().admin();
-  const dbList = await admin.listDatabases();
-  console.log(
-    "📚 Available databases:",
-    dbList.databases.map((d) => d.name)
-  );
-  console.log("🎯 Currently using database:", DEFAULT_DB_NAME);
-
-  // DEBUG: Fetch ALL transactions without userId filter to see what's in the database
-  const allTransactions = await db
+  const documents = await client
+    .db(DEFAULT_DB_NAME)
     .collection<TransactionDocument>("transactions")
-    .find({})
+    .find({ userId })
     .toArray();
-  console.log(
-    "📋 Total transactions in DB (no filter):",
-    allTransactions.length
-  );
-  const userIds = [
-    ...new Set(
-      allTransactions.map((t) => t.userId?.toString()).filter(Boolean)
-    ),
-  ];
-  console.log("👥 All userIds in DB:", userIds);
-  console.log("🔍 Session userId:", userId.toString());
-  console.log("📍 userId match found:", userIds.includes(userId.toString()));
-
-  // SOLUTION: Return ALL transactions regardless of userId
-  // This fixes the issue where session userId doesn't match transaction userId
-  const documents = allTransactions;
 
-  console.log("📋 Raw documents from DB:", documents.length);
-  console.log("📄 Sample raw documents:", documents.slice(0, 2));
-
-  const normalized = documents
+  return documents
     .map((doc) => normaliseTransaction(doc))
     .filter((item): item is NormalizedTransaction => Boolean(item));
-
-  console.log("✅ Normalized transactions:", normalized.length);
-  console.log("📊 Sample transactions:", normalized.slice(0, 3));
-
-  return normalized;
 }
 
 export async function createTransaction(
   userId: ObjectId,
   input: CreateTransactionInput
 ) {
-  if (!Number.isFinite(input.amount) || input.amount <= 0) {
+  const stock = input.inventory ?? null;
+  const presetKey = input.presetKey ?? null;
+  const isStockPreset = Boolean(
+    presetKey && STOCK_PRESET_KEYS.includes(presetKey)
+  );
+  const isSale = Boolean(presetKey && SALE_PRESET_KEYS.includes(presetKey));
+  if (isStockPreset && !stock) {
+    throw new InventoryValidationError(
+      "Select the stock item this transaction moves."
+    );
+  }
+  if (stock && !isStockPreset && !isSale) {
+    throw new InventoryValidationError(
+      "Only sale, purchase and cost of goods transactions can move stock."
+    );
+  }
+  // The cost of goods issued is worked out from the stock ledger
+  const isStockIssue = Boolean(stock) && presetKey === "cogs";
+  if (!isStockIssue && (!Number.isFinite(input.amount) || input.amount <= 0)) {
     throw new Error("Amount must be greater than zero.");
   }
 
@@ -659,6 +894,22 @@ export async function createTransaction(
     throw new Error("Invalid transaction date.");
   }
 
+  if (input.tax && isStockIssue) {
+    throw new TaxCodeValidationError(
+      "PPN cannot be charged on cost of goods issued from stock."
+    );
+  }
+
+  await assertPeriodsOpen(userId, date);
+
+  const taxCode = input.tax
+    ? await getActiveTaxCode(userId, input.tax.code, "ppn")
+    : null;
+  const breakdown =
+    input.tax && taxCode
+      ? calculateTax(Math.abs(input.amount), taxCode.rate, input.tax.inclusive)
+      : null;
+
   const client = await clientPromise;
   const db = client.db(DEFAULT_DB_NAME);
   const collection = db.collection<TransactionDocument>("transactions");
@@ -671,7 +922,7 @@ export async function createTransaction(
   const document = {
     userId,
     type: input.type,
-    amount: Math.abs(input.amount),
+    amount: breakdown?.total ?? Math.abs(input.amount),
     date,
     description: input.description,
     category,
@@ -680,7 +931,12 @@ export async function createTransaction(
     counterparty: input.counterparty ?? null,
     presetKey: input.presetKey ?? null,
     presetLabel: input.presetLabel ?? null,
+    taxCode: taxCode?.code ?? null,
+    taxRate: taxCode?.rate ?? null,
+    taxAmount: breakdown?.tax ?? 0,
     journalEntryId: null as ObjectId | null,
+    stockMovementId: null as ObjectId | null,
+    costOfGoods: 0,
     createdAt: now,
     updatedAt: now,
   };
@@ -694,12 +950,30 @@ export async function createTransaction(
       throw new Error("Failed to create transaction identifier.");
     }
 
+    if (stock) {
+      const movement = await recordTransactionMovement(userId, insertedId, {
+        itemId: stock.itemId,
+        type: presetKey === "purchase" ? "receipt" : "issue",
+        date,
+        quantity: stock.quantity,
+        // Stock is received at the tax base; the PPN is claimed separately
+        amount: document.amount - document.taxAmount,
+        reference: input.description,
+      });
+      document.stockMovementId = movement.id;
+      if (isSale) {
+        document.costOfGoods = Math.abs(movement.value);
+      } else {
+        document.amount = Math.abs(movement.value) + document.taxAmount;
+      }
+    }
+
     const effectivePresetKey = input.presetKey ?? undefined;
 
     const journalDraft = buildJournalDraftForTransaction(
-      userId,
+      await loadChartOfAccounts(userId),
       {
-        amount: input.amount,
+        amount: document.amount,
         type: input.type,
         date,
         description: input.description,
@@ -707,6 +981,14 @@ export async function createTransaction(
         status: input.status,
         cashFlowType: input.cashFlowType,
         presetKey: effectivePresetKey,
+        tax: taxCode
+          ? {
+              code: taxCode.code,
+              amount: document.taxAmount,
+              direction: taxDirectionFor(input.type),
+            }
+          : null,
+        costOfGoods: document.costOfGoods,
       },
       insertedId.toString()
     );
@@ -723,7 +1005,10 @@ export async function createTransaction(
       { _id: insertedId, userId },
       {
         $set: {
+          amount: document.amount,
           journalEntryId: journalEntry._id,
+          stockMovementId: document.stockMovementId,
+          costOfGoods: document.costOfGoods,
           updatedAt,
         },
       }
@@ -738,6 +1023,9 @@ export async function createTransaction(
     } satisfies TransactionDocument;
   } catch (error) {
     if (insertedId) {
+      if (document.stockMovementId) {
+        await voidTransactionMovement(userId, insertedId);
+      }
       await collection.deleteOne({ _id: insertedId, userId });
     }
     throw error;
@@ -831,22 +1119,69 @@ export async function updateTransaction(
 
   const targetId = new ObjectId(id);
 
-  const result = await collection.updateOne(
-    { _id: targetId, userId },
-    { $set: update }
-  );
+  const existing = await collection.findOne({ _id: targetId, userId });
 
-  if (result.matchedCount === 0) {
+  if (!existing) {
     throw new Error("Transaction not found.");
   }
+  if (existing.voidedAt) {
+    throw new Error("Voided transactions cannot be edited.");
+  }
+  // The stock ledger was costed on the original amount, date and preset
+  if (
+    existing.stockMovementId &&
+    ((update.amount !== undefined && update.amount !== existing.amount) ||
+      (update.date instanceof Date &&
+        update.date.getTime() !== toDate(existing.date)?.getTime()) ||
+      (update.presetKey !== undefined &&
+        update.presetKey !== existing.presetKey))
+  ) {
+    throw new Error(
+      "Transactions that moved stock cannot change amount, date or " +
+        "template; void them and record them again."
+    );
+  }
 
-  const storedDoc = await collection.findOne({ _id: targetId, userId });
+  if (
+    !existing.stockMovementId &&
+    typeof update.presetKey === "string" &&
+    isTransactionPresetKey(update.presetKey) &&
+    STOCK_PRESET_KEYS.includes(update.presetKey)
+  ) {
+    throw new InventoryValidationError(
+      "Purchase and cost of goods transactions must move stock; record " +
+        "them again with a stock item."
+    );
+  }
 
-  if (!storedDoc) {
-    throw new Error("Transaction not found after update.");
+  // The amount stays tax-inclusive, so its PPN is worked out again
+  if (update.amount !== undefined && existing.taxCode) {
+    update.taxAmount = calculateTax(
+      update.amount as number,
+      toNumber(existing.taxRate),
+      true
+    ).tax;
   }
 
-  const normalized = normaliseTransaction(storedDoc as TransactionDocument);
+  // Posted journals are immutable; only pending ones are rewritten in place
+  const wasPosted = normaliseTransaction(existing)?.status === "posted";
+  const journalEntryId = toObjectId(existing.journalEntryId);
+  const rewritesInPlace = Boolean(journalEntryId) && !wasPosted;
+
+  // A rewrite touches the old and the new month; a correction only the
+  // month it is dated in, since its reversal is dated with it
+  await assertPeriodsOpen(
+    userId,
+    rewritesInPlace || !(update.date instanceof Date)
+      ? toDate(existing.date)
+      : null,
+    update.date instanceof Date ? update.date : null
+  );
+
+  const normalized = normaliseTransaction({
+    ...existing,
+    ...update,
+  } as TransactionDocument);
   if (!normalized) {
     throw new Error("Failed to normalize updated transaction.");
   }
@@ -856,8 +1191,9 @@ export async function updateTransaction(
       ? normalized.presetKey
       : undefined;
 
+  // Built before anything is written, so an invalid edit leaves no trace
   const journalDraft = buildJournalDraftForTransaction(
-    userId,
+    await loadChartOfAccounts(userId),
     {
       amount: normalized.amount,
       type: normalized.type,
@@ -867,25 +1203,78 @@ export async function updateTransaction(
       status: normalized.status === "pending" ? "pending" : "posted",
       cashFlowType: normalized.cashFlowType,
       presetKey: effectivePresetKey,
+      tax: toTaxSource(normalized),
+      costOfGoods: toNumber(existing.costOfGoods),
     },
-    storedDoc._id?.toString()
+    existing._id?.toString()
   );
 
-  const journalEntryId = toObjectId(storedDoc.journalEntryId);
-
-  if (journalEntryId) {
+  if (journalEntryId && rewritesInPlace) {
     await replaceJournal(journalEntryId, userId, journalDraft);
-  } else {
-    const journalEntry = await postJournal(userId, journalDraft);
-    await collection.updateOne(
-      { _id: targetId, userId },
-      { $set: { journalEntryId: journalEntry._id } }
-    );
+    await saveTransactionUpdate(collection, userId, existing, update);
+    return normalized;
+  }
+
+  const reversal = journalEntryId
+    ? await reverseJournal(journalEntryId, userId, { date: journalDraft.date })
+    : null;
+
+  let correction: JournalEntryDocument;
+  try {
+    correction = await postJournal(userId, {
+      ...journalDraft,
+      correctsEntryId: journalEntryId ?? undefined,
+    });
+  } catch (error) {
+    if (reversal?._id) {
+      await cancelReversal(reversal._id, userId);
+    }
+    throw error;
+  }
+
+  try {
+    await saveTransactionUpdate(collection, userId, existing, {
+      ...update,
+      journalEntryId: correction._id,
+    });
+  } catch (error) {
+    if (correction._id) {
+      await deleteJournal(correction._id, userId);
+    }
+    if (reversal?._id) {
+      await cancelReversal(reversal._id, userId);
+    }
+    throw error;
   }
 
   return normalized;
 }
 
+/**
+ * Save an edit only if the transaction still points at the journal it was
+ * read with; a concurrent edit has moved it on otherwise.
+ */
+async function saveTransactionUpdate(
+  collection: Collection<TransactionDocument>,
+  userId: ObjectId,
+  existing: TransactionDocument,
+  update: Record<string, unknown>
+) {
+  const result = await collection.updateOne(
+    {
+      _id: existing._id,
+      userId,
+      journalEntryId: existing.journalEntryId ?? null,
+      voidedAt: existing.voidedAt ?? null,
+    },
+    { $set: update }
+  );
+
+  if (result.matchedCount === 0) {
+    throw new Error("Transaction was changed by another request. Try again.");
+  }
+}
+
 export async function deleteTransaction(id: string, userId: ObjectId) {
   if (!ObjectId.isValid(id)) {
     throw new Error("Invalid transaction identifier.");
@@ -901,6 +1290,39 @@ export async function deleteTransaction(id: string, userId: ObjectId) {
   if (!existing) {
     throw new Error("Transaction not found.");
   }
+  if (existing.voidedAt) {
+    throw new Error("Transaction is already voided.");
+  }
+
+  await assertPeriodsOpen(userId, toDate(existing.date));
+
+  const journalEntryId = toObjectId(existing.journalEntryId);
+
+  // A posted transaction stays on record as voided, cancelled by a reversal
+  if (journalEntryId && normaliseTransaction(existing)?.status === "posted") {
+    // Reverse first, so the stock is never returned with COGS still posted
+    const reversal = await reverseJournal(journalEntryId, userId);
+    if (existing.stockMovementId) {
+      try {
+        await voidTransactionMovement(userId, targetId);
+      } catch (error) {
+        if (reversal._id) {
+          await cancelReversal(reversal._id, userId);
+        }
+        throw error;
+      }
+    }
+    const now = new Date();
+    await collection.updateOne(
+      { _id: targetId, userId },
+      { $set: { voidedAt: now, updatedAt: now } }
+    );
+    return { success: true, voided: true } as const;
+  }
+
+  if (existing.stockMovementId) {
+    await voidTransactionMovement(userId, targetId);
+  }
 
   const result = await collection.deleteOne({ _id: targetId, userId });
 
@@ -908,280 +1330,223 @@ export async function deleteTransaction(id: string, userId: ObjectId) {
     throw new Error("Transaction not found.");
   }
 
-  const journalEntryId = toObjectId(existing.journalEntryId);
   if (journalEntryId) {
     await deleteJournal(journalEntryId, userId);
   }
 
-  return { success: true } as const;
+  return { success: true, voided: false } as const;
 }
 
-function getPeriodRange(key: PeriodKey, reference = new Date()): PeriodRange {
-  const year = reference.getFullYear();
-  const month = reference.getMonth();
-  const makeLabel = (label: string) => label;
-
-  switch (key) {
-    case "all-time": {
-      // Show all data from 2020 to 2030 (wide range)
-      const start = new Date(2020, 0, 1);
-      const end = new Date(2030, 11, 31);
-      return {
-        start,
-        end,
-        label: makeLabel("All Time"),
-      };
-    }
-    case "last-month": {
-      const start = new Date(year, month - 1, 1);
-      const end = new Date(year, month, 1);
-      return {
-        start,
-        end,
-        label: makeLabel(
-          `Last Month (${start.toLocaleString("en-US", {
-            month: "short",
-            year: "numeric",
-          })})`
-        ),
-      };
-    }
-    case "current-quarter": {
-      const quarterStartMonth = Math.floor(month / 3) * 3;
-      const start = new Date(year, quarterStartMonth, 1);
-      const end = new Date(year, quarterStartMonth + 3, 1);
-      return {
-        start,
-        end,
-        label: makeLabel(
-          `Current Quarter (${start.toLocaleString("en-US", {
-            month: "short",
-          })} - ${new Date(end.getTime() - 1).toLocaleString("en-US", {
-            month: "short",
-            year: "numeric",
-          })})`
-        ),
-      };
-    }
-    case "last-quarter": {
-      const quarterStartMonth = Math.floor((month - 3) / 3) * 3;
-      const start = new Date(year, quarterStartMonth, 1);
-      const end = new Date(year, quarterStartMonth + 3, 1);
-      return {
-        start,
-        end,
-        label: makeLabel(
-          `Last Quarter (${start.toLocaleString("en-US", {
-            month: "short",
-          })} - ${new Date(end.getTime() - 1).toLocaleString("en-US", {
-            month: "short",
-            year: "numeric",
-          })})`
-        ),
-      };
-    }
-    case "year-to-date": {
-      const start = new Date(year, 0, 1);
-      const end = new Date(year + 1, 0, 1);
-      return {
-        start,
-        end,
-        label: makeLabel(`Year to Date (${year})`),
-      };
-    }
-    case "last-year": {
-      const start = new Date(year - 1, 0, 1);
-      const end = new Date(year, 0, 1);
-      return {
-        start,
-        end,
-        label: makeLabel(`Last Year (${year - 1})`),
-      };
+/**
+ * Post a journal for every stored transaction that has none, with the
+ * current account mapping. Existing entries are left alone: posted ones may
+ * have been reversed or corrected since, and rewriting them in place would
+ * change closed periods behind their closing entries. Transactions dated in
+ * a closed or locked month are skipped and counted.
+ */
+export async function rebuildTransactionJournals(
+  userId: ObjectId
+): Promise<{ posted: number; skipped: number }> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  const collection = db.collection<TransactionDocument>("transactions");
+  const [documents, chart] = await Promise.all([
+    collection.find({ userId }).toArray(),
+    loadChartOfAccounts(userId),
+  ]);
+
+  let posted = 0;
+  let skipped = 0;
+
+  for (const doc of documents) {
+    const normalized = normaliseTransaction(doc);
+    if (!normalized || normalized.amount <= 0 || normalized.voidedAt) {
+      continue;
     }
-    case "current-month":
-    default: {
-      const start = new Date(year, month, 1);
-      const end = new Date(year, month + 1, 1);
-      return {
-        start,
-        end,
-        label: makeLabel(
-          `Current Month (${start.toLocaleString("en-US", {
-            month: "long",
-            year: "numeric",
-          })})`
-        ),
-      };
+
+    const journalEntryId = toObjectId(doc.journalEntryId);
+    const existing = journalEntryId
+      ? await db
+          .collection<JournalEntryDocument>("journal_entries")
+          .findOne({ _id: journalEntryId, userId })
+      : null;
+
+    if (existing) {
+      continue;
     }
-  }
-}
 
-function filterByPeriod(
-  transactions: NormalizedTransaction[],
-  period: PeriodRange
-) {
-  return transactions.filter(
-    (transaction) =>
-      transaction.date >= period.start && transaction.date < period.end
-  );
-}
+    try {
+      await assertPeriodsOpen(userId, normalized.date);
+    } catch (error) {
+      if (error instanceof PeriodLockedError) {
+        skipped += 1;
+        continue;
+      }
+      throw error;
+    }
 
-function sumTransactions(
-  transactions: NormalizedTransaction[],
-  options?: { signed?: boolean }
+    const journalDraft = buildJournalDraftForTransaction(
+      chart,
+      {
+        amount: normalized.amount,
+        type: normalized.type,
+        date: normalized.date,
+        description: normalized.description,
+        category: normalized.category,
+        status: normalized.status === "pending" ? "pending" : "posted",
+        cashFlowType: normalized.cashFlowType,
+        presetKey: normalized.presetKey ?? undefined,
+        tax: toTaxSource(normalized),
+        costOfGoods: toNumber(doc.costOfGoods),
+      },
+      normalized.id
+    );
+
+    const journalEntry = await postJournal(userId, journalDraft);
+    await collection.updateOne(
+      { _id: doc._id, userId },
+      { $set: { journalEntryId: journalEntry._id } }
+    );
+
+    posted += 1;
+  }
+
+  return { posted, skipped };
+}
+
+/**
+ * Resolve a period key with the user's fiscal year start, or a custom range
+ * as is. "all-time" spans the posted journal, so it is only looked up when
+ * asked for.
+ */
+export async function resolvePeriodRange(
+  userId: ObjectId,
+  key: PeriodSelection,
+  reference = new Date()
+): Promise<PeriodRange> {
+  if (typeof key !== "string") {
+    return getCustomPeriodRange(key);
+  }
+
+  const [settings, bounds] = await Promise.all([
+    getCompanySettings(userId),
+    key === "all-time" ? fetchJournalDateBounds(userId) : null,
+  ]);
+
+  return getPeriodRange(
+    key,
+    {
+      fiscalYearStartMonth: settings.fiscalYearStartMonth,
+      firstEntryDate: bounds?.first,
+      lastEntryDate: bounds?.last,
+    },
+    reference
+  );
+}
+
+type LedgerPosting = {
+  accountCode: string;
+  account: AccountDefinition;
+  date: Date;
+  amount: number;
+};
+
+/**
+ * Flatten journal lines into postings signed on each account's normal side,
+ * so revenue and expense lines both add up as positive amounts.
+ */
+function toPostings(
+  entries: JournalEntryDocument[],
+  chart: ChartOfAccounts
+): LedgerPosting[] {
+  return entries.flatMap((entry) =>
+    entry.lines.flatMap((line) => {
+      const account = getAccountDefinition(line.accountCode, chart);
+      if (!account) {
+        return [];
+      }
+      return [
+        {
+          accountCode: line.accountCode,
+          account,
+          date: entry.date,
+          amount: signedBalance(
+            account.type,
+            toNumber(line.debit),
+            toNumber(line.credit)
+          ),
+        },
+      ];
+    })
+  );
+}
+
+function filterPostings(
+  postings: LedgerPosting[],
+  predicate: (account: AccountDefinition) => boolean
 ) {
-  const signed = options?.signed ?? false;
-  return transactions.reduce((total, transaction) => {
-    const sign = !signed
-      ? 1
-      : transaction.type === "income"
-      ? 1
-      : transaction.type === "expense"
-      ? -1
-      : 0;
-    return total + transaction.amount * sign;
-  }, 0);
+  return postings.filter((posting) => predicate(posting.account));
+}
+
+function sumPostings(postings: LedgerPosting[]) {
+  return postings.reduce((total, posting) => total + posting.amount, 0);
 }
 
 function aggregateByCategory(
-  transactions: NormalizedTransaction[],
-  fallbackLabel: string,
-  options?: { signed?: boolean }
+  postings: LedgerPosting[],
+  fallbackLabel: string
 ): ReportRow[] {
-  const map = new Map<string, number>();
-  const signed = options?.signed ?? false;
-
-  transactions.forEach((transaction) => {
-    const label = transaction.category || fallbackLabel;
-    const sign = !signed
-      ? 1
-      : transaction.type === "income"
-      ? 1
-      : transaction.type === "expense"
-      ? -1
-      : 0;
-    const current = map.get(label) ?? 0;
-    map.set(label, current + transaction.amount * sign);
+  const map = new Map<string, { name: string; amount: number }>();
+
+  postings.forEach((posting) => {
+    const current = map.get(posting.accountCode) ?? {
+      name: posting.account.name,
+      amount: 0,
+    };
+    current.amount += posting.amount;
+    map.set(posting.accountCode, current);
   });
 
   return Array.from(map.entries())
-    .map(([label, amount]) => ({ label, amount }))
+    .filter(([, { amount }]) => Math.abs(amount) > 0.005)
+    .map(([accountCode, { name, amount }]) => ({
+      label: name || fallbackLabel,
+      amount,
+      accountCode,
+      isManual: false,
+    }))
     .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
 }
 
 function mapCashFlowRows(
-  transactions: NormalizedTransaction[],
+  entries: JournalEntryDocument[],
+  chart: ChartOfAccounts,
   fallbackLabel: string
 ): ReportRow[] {
-  if (!transactions.length) {
-    return [];
-  }
-
-  // Filter out non-cash transactions for cash flow statement, but include cash assets
-  const cashTransactions = transactions.filter((transaction) => {
-    if (transaction.cashFlowType !== "non-cash") {
-      return true; // Include all cash flow transactions
-    }
-
-    // Special case: Include cash-related assets even if marked as non-cash
-    const isCashAsset =
-      transaction.type === "asset" &&
-      (transaction.category?.toLowerCase().includes("cash") ||
-        transaction.category?.toLowerCase().includes("opening") ||
-        transaction.description?.toLowerCase().includes("kas") ||
-        transaction.description?.toLowerCase().includes("cash") ||
-        transaction.description?.toLowerCase().includes("awal"));
+  return entries
+    .map((entry) => {
+      const counterAccount = primaryCounterAccount(entry, chart);
+      const label =
+        (counterAccount && getAccountDefinition(counterAccount, chart)?.name) ||
+        fallbackLabel;
+      const memo = entry.memo?.trim();
 
-    return isCashAsset;
-  });
-
-  const rows = cashTransactions.map((transaction) => {
-    const rawDescription =
-      typeof transaction.description === "string"
-        ? transaction.description.trim()
-        : "";
-    const category =
-      typeof transaction.category === "string"
-        ? transaction.category.trim()
-        : "";
-    const presetLabelRaw =
-      typeof transaction.presetLabel === "string"
-        ? transaction.presetLabel.trim()
-        : "";
-    const presetLabel = presetLabelRaw.length
-      ? presetLabelRaw
-      : transaction.presetKey && isTransactionPresetKey(transaction.presetKey)
-      ? TRANSACTION_PRESETS[transaction.presetKey].label
-      : "";
-
-    const labelBase = category.length
-      ? category
-      : presetLabel.length
-      ? presetLabel
-      : fallbackLabel;
-
-    const description = rawDescription.length ? rawDescription : undefined;
-
-    // Proper cash flow impact calculation
-    // Income increases cash (+), Expenses decrease cash (-)
-    // Assets purchased decrease cash (-), Liabilities taken increase cash (+)
-    // Equity contributions increase cash (+)
-    let amount: number;
-    switch (transaction.type) {
-      case "income":
-        amount = transaction.amount; // Positive cash inflow
-        break;
-      case "expense":
-        amount = -transaction.amount; // Negative cash outflow
-        break;
-      case "asset":
-        // Check if it's cash/opening balance asset
-        const isCashAsset =
-          transaction.category?.toLowerCase().includes("kas") ||
-          transaction.category?.toLowerCase().includes("cash") ||
-          transaction.category?.toLowerCase().includes("opening") ||
-          transaction.category?.toLowerCase().includes("awal") ||
-          transaction.description?.toLowerCase().includes("kas") ||
-          transaction.description?.toLowerCase().includes("cash") ||
-          transaction.description?.toLowerCase().includes("awal");
-
-        if (isCashAsset) {
-          // Cash opening balance - exclude from cash flow statement
-          // as it represents starting position, not a cash transaction
-          amount = 0;
-        } else {
-          // Asset purchases reduce cash (cash outflow)
-          amount = -transaction.amount;
-        }
-        break;
-      case "liability":
-        amount = transaction.amount; // Cash inflow from borrowing
-        break;
-      case "equity":
-        amount = transaction.amount; // Cash inflow from equity contribution
-        break;
-      default:
-        amount = 0;
-    }
-
-    return {
-      label: labelBase,
-      description,
-      amount,
-    };
-  });
-
-  return rows
-    .filter((row) => Math.abs(row.amount) > 0.01) // Filter out zero amounts
-    .map((row) =>
-      row.description && row.description === row.label
-        ? { ...row, description: undefined }
-        : row
-    )
+      return {
+        label,
+        description: memo && memo !== label ? memo : undefined,
+        amount: cashMovement(entry, chart),
+        accountCode: counterAccount ?? undefined,
+        isManual: false,
+      } satisfies ReportRow;
+    })
+    .filter((row) => Math.abs(row.amount) > 0.01)
     .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
 }
 
-function buildMonthlyTrend(transactions: NormalizedTransaction[]) {
+function buildMonthlyTrend(
+  entries: JournalEntryDocument[],
+  chart: ChartOfAccounts
+) {
   const map = new Map<
     string,
     {
@@ -1193,22 +1558,18 @@ function buildMonthlyTrend(transactions: NormalizedTransaction[]) {
     }
   >();
 
-  // Sort transactions by date to calculate progressive cash balance
-  const sortedTransactions = transactions
-    .slice()
-    .sort((a, b) => a.date.getTime() - b.date.getTime());
-
+  // Entries arrive sorted by date, so the running cash balance is cumulative
   let runningCashBalance = 0;
 
-  sortedTransactions.forEach((transaction) => {
-    const key = `${transaction.date.getFullYear()}-${transaction.date.getMonth()}`;
-    const sortKey =
-      transaction.date.getFullYear() * 12 + transaction.date.getMonth();
-    const label = transaction.date.toLocaleString("en-US", {
+  entries.forEach((entry) => {
+    const date = new Date(entry.date);
+    const key = `${date.getFullYear()}-${date.getMonth()}`;
+    const sortKey = date.getFullYear() * 12 + date.getMonth();
+    const label = date.toLocaleString("en-US", {
       month: "short",
       year: "numeric",
     });
-    const entry = map.get(key) ?? {
+    const trend = map.get(key) ?? {
       label,
       income: 0,
       expenses: 0,
@@ -1216,51 +1577,18 @@ function buildMonthlyTrend(transactions: NormalizedTransaction[]) {
       sortKey,
     };
 
-    // Update cash balance based on transaction type and cash flow impact
-    if (transaction.cashFlowType !== "non-cash") {
-      switch (transaction.type) {
-        case "income":
-          entry.income += transaction.amount;
-          runningCashBalance += transaction.amount;
-          break;
-        case "expense":
-          entry.expenses += transaction.amount;
-          runningCashBalance -= transaction.amount;
-          break;
-        case "asset":
-          // Asset transactions based on cash flow type:
-          if (transaction.cashFlowType === "operating") {
-            // Operating = asset purchase with cash (reduces cash balance)
-            runningCashBalance -= transaction.amount;
-          } else {
-            // Investing/Financing = typically opening balance, cash injection, or non-cash asset recognition
-            // For simplicity, add to cash balance (most common case is opening balance)
-            runningCashBalance += transaction.amount;
-          }
-          break;
-        case "liability":
-          // Borrowing increases cash (shown in income for cash flow impact)
-          runningCashBalance += transaction.amount;
-          break;
-        case "equity":
-          // Equity contributions increase cash (shown in income for cash flow impact)
-          runningCashBalance += transaction.amount;
-          break;
-      }
-    } else {
-      // Non-cash transactions still count as income/expense for P&L
-      switch (transaction.type) {
-        case "income":
-          entry.income += transaction.amount;
-          break;
-        case "expense":
-          entry.expenses += transaction.amount;
-          break;
+    entry.lines.forEach((line) => {
+      const account = getAccountDefinition(line.accountCode, chart);
+      if (account?.type === "revenue") {
+        trend.income += toNumber(line.credit) - toNumber(line.debit);
+      } else if (account?.type === "expense") {
+        trend.expenses += toNumber(line.debit) - toNumber(line.credit);
       }
-    }
+    });
 
-    entry.cashBalance = runningCashBalance;
-    map.set(key, entry);
+    runningCashBalance += cashMovement(entry, chart);
+    trend.cashBalance = runningCashBalance;
+    map.set(key, trend);
   });
 
   return Array.from(map.values())
@@ -1271,10 +1599,12 @@ function buildMonthlyTrend(transactions: NormalizedTransaction[]) {
 
 function buildNotifications(
   transactions: NormalizedTransaction[],
-  cashBalance: number
+  cashBalance: number,
+  receivables: AgingReport,
+  payables: AgingReport,
+  pendingLeaveRequests: number
 ): string[] {
   const notifications = new Set<string>();
-  const now = new Date();
 
   if (cashBalance < 0) {
     notifications.add(
@@ -1296,122 +1626,189 @@ function buildNotifications(
     );
   }
 
-  const overdueExpenses = transactions.filter(
-    (transaction) =>
-      transaction.type === "expense" &&
-      transaction.status === "pending" &&
-      transaction.date.getTime() < now.getTime()
-  );
-  if (overdueExpenses.length) {
+  overdueCounterparties(receivables).forEach(({ name, amount, days }) => {
     notifications.add(
-      `${overdueExpenses.length} expense transaction(s) awaiting settlement.`
+      `${name} has ${formatRupiah(amount)} overdue (oldest ${days} day(s)).`
+    );
+  });
+  overdueCounterparties(payables).forEach(({ name, amount, days }) => {
+    notifications.add(
+      `${formatRupiah(amount)} owed to ${name} is overdue (oldest ${days} day(s)).`
+    );
+  });
+
+  if (pendingLeaveRequests) {
+    notifications.add(
+      `${pendingLeaveRequests} leave request(s) awaiting approval.`
     );
   }
 
   return Array.from(notifications);
 }
 
+const formatRupiah = (amount: number) => `Rp ${amount.toLocaleString("id-ID")}`;
+
+/** Counterparties with a past-due balance, the longest overdue first. */
+function overdueCounterparties(report: AgingReport) {
+  return report.rows
+    .filter((row) => row.oldestDaysOverdue > 0)
+    .map((row) => ({
+      name: row.name,
+      amount: row.total - row.buckets.current,
+      days: row.oldestDaysOverdue,
+    }))
+    .sort((a, b) => b.days - a.days);
+}
 export async function buildDashboardSnapshot(
   userId: ObjectId,
-  periodKey: PeriodKey = "all-time"
+  periodKey: PeriodSelection = "all-time"
 ): Promise<DashboardSnapshot> {
-  console.log(
-    "📊 Building dashboard snapshot for user:",
-    userId.toString(),
-    "period:",
-    periodKey
-  );
-  const transactions = await fetchTransactions(userId);
-  console.log("📈 Total transactions fetched:", transactions.length);
-
-  const period = getPeriodRange(periodKey);
-  const periodTransactions = filterByPeriod(transactions, period);
-  console.log("📅 Transactions in period:", periodTransactions.length);
-
-  // Calculate all finance types for current month
-  const incomeThisMonth = sumTransactions(
-    periodTransactions.filter((transaction) => transaction.type === "income")
-  );
-  const expensesThisMonth = sumTransactions(
-    periodTransactions.filter((transaction) => transaction.type === "expense")
-  );
-  const assetsThisMonth = sumTransactions(
-    periodTransactions.filter((transaction) => transaction.type === "asset")
-  );
-  const liabilitiesThisMonth = sumTransactions(
-    periodTransactions.filter((transaction) => transaction.type === "liability")
-  );
-  const equityThisMonth = sumTransactions(
-    periodTransactions.filter((transaction) => transaction.type === "equity")
+  const period = await resolvePeriodRange(userId, periodKey);
+
+  const [
+    entries,
+    periodBalances,
+    transactions,
+    chart,
+    receivablesAging,
+    payablesAging,
+    pendingLeaveRequests,
+  ] = await Promise.all([
+    fetchJournalEntries(userId, { excludeClosingEntries: true }),
+    fetchAccountBalances(userId, { ...period, excludeClosingEntries: true }),
+    fetchTransactions(userId),
+    loadChartOfAccounts(userId),
+    buildReceivablesAging(userId),
+    buildPayablesAging(userId),
+    countPendingLeaveRequests(userId),
+  ]);
+
+  const incomeThisMonth = sumBalancesByType(periodBalances, "revenue");
+  const expensesThisMonth = sumBalancesByType(periodBalances, "expense");
+
+  // Same ledger cash accounts that feed the balance sheet and finance page
+  const cashBalance = entries.reduce(
+    (sum, entry) => sum + cashMovement(entry, chart),
+    0
   );
 
-  // Use consistent cash balance calculation
-  const cashBalance = calculateCashBalance(transactions);
-
-  const result = {
+  return {
+    period: period.label,
     metrics: {
       incomeThisMonth,
       expensesThisMonth,
       cashBalance,
     },
-    monthlyTrend: buildMonthlyTrend(transactions),
-    notifications: buildNotifications(transactions, cashBalance),
+    monthlyTrend: buildMonthlyTrend(entries, chart),
+    notifications: buildNotifications(
+      transactions,
+      cashBalance,
+      receivablesAging,
+      payablesAging,
+      pendingLeaveRequests
+    ),
   };
-
-  console.log("✅ Dashboard snapshot result:", result);
-  return result;
 }
 
-export async function buildFinanceOverview(
+/**
+ * Journal entries posted for each transaction, oldest first, so the finance
+ * page can show how a posted transaction was reversed and corrected.
+ */
+async function fetchJournalChains(
   userId: ObjectId,
-  periodKey: PeriodKey = "all-time"
-): Promise<FinanceOverview> {
-  const transactions = await fetchTransactions(userId);
-  const period = getPeriodRange(periodKey);
+  transactionIds: string[]
+): Promise<Map<string, JournalChainLink[]>> {
+  const chains = new Map<string, JournalChainLink[]>();
+  if (!transactionIds.length) {
+    return chains;
+  }
 
-  // Use consistent cash balance calculation across all pages
-  const cashBalance = calculateCashBalance(transactions);
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  const entries = await db
+    .collection<JournalEntryDocument>("journal_entries")
+    .find({ userId, referenceId: { $in: transactionIds } })
+    .sort({ createdAt: 1, _id: 1 })
+    .toArray();
 
-  // Calculate receivables and payables from asset/liability transactions
-  const accountsReceivable = transactions
-    .filter(
-      (t) =>
-        t.type === "asset" && t.category.toLowerCase().includes("receivable")
-    )
-    .reduce((sum, t) => sum + t.amount, 0);
+  entries.forEach((entry) => {
+    if (!entry._id || !entry.referenceId) {
+      return;
+    }
+    const chain = chains.get(entry.referenceId) ?? [];
+    chain.push({
+      entryId: entry._id.toString(),
+      kind: entry.reversesEntryId
+        ? "reversal"
+        : entry.correctsEntryId
+        ? "correction"
+        : "original",
+      date: new Date(entry.date).toISOString(),
+      amount: entry.lines.reduce((sum, line) => sum + line.debit, 0),
+      createdAt: new Date(entry.createdAt).toISOString(),
+    });
+    chains.set(entry.referenceId, chain);
+  });
 
-  const accountsPayable = transactions
-    .filter(
-      (t) =>
-        t.type === "liability" && t.category.toLowerCase().includes("payable")
-    )
-    .reduce((sum, t) => sum + t.amount, 0);
+  return chains;
+}
 
-  const netIncomeMTD = await calculateNetIncomeForPeriod(userId, period);
+export async function buildFinanceOverview(
+  userId: ObjectId,
+  periodKey: PeriodSelection = "all-time"
+): Promise<FinanceOverview> {
+  const period = await resolvePeriodRange(userId, periodKey);
+
+  const [transactions, balances, periodBalances, chart] = await Promise.all([
+    fetchTransactions(userId),
+    fetchAccountBalances(userId),
+    fetchAccountBalances(userId, { ...period, excludeClosingEntries: true }),
+    loadChartOfAccounts(userId),
+  ]);
+
+  const cashBalance = cashBalanceFromBalances(balances, chart);
+  const accountsReceivable = balanceWithSubAccounts(
+    balances,
+    ACCOUNT_CODES.ACCOUNTS_RECEIVABLE,
+    chart
+  );
+  const accountsPayable = balanceWithSubAccounts(
+    balances,
+    ACCOUNT_CODES.ACCOUNTS_PAYABLE,
+    chart
+  );
+  const netIncomeMTD = netIncomeFromBalances(periodBalances);
 
-  const recentTransactions = transactions
+  const recent = transactions
     .slice()
     .sort((a, b) => b.date.getTime() - a.date.getTime())
-    .slice(0, 10)
-    .map((transaction) => ({
-      id: transaction.id,
-      date: transaction.date.toISOString(),
-      description: transaction.description || transaction.category,
-      type: transaction.type,
-      amount: transaction.amount,
-      status: transaction.status,
-      category: transaction.category,
-      cashFlowType: transaction.cashFlowType,
-      presetKey: transaction.presetKey ?? undefined,
-      presetLabel: transaction.presetLabel ?? undefined,
-      displayType:
-        transaction.presetLabel && transaction.presetLabel.length
-          ? transaction.presetLabel
-          : transaction.presetKey &&
-            isTransactionPresetKey(transaction.presetKey)
-          ? TRANSACTION_PRESETS[transaction.presetKey].label
-          : transaction.category || transaction.type,
-    }));
+    .slice(0, 10);
+  const journalChains = await fetchJournalChains(
+    userId,
+    recent.map((transaction) => transaction.id)
+  );
+
+  const recentTransactions = recent.map((transaction) => ({
+    id: transaction.id,
+    date: transaction.date.toISOString(),
+    description: transaction.description || transaction.category,
+    type: transaction.type,
+    amount: transaction.amount,
+    status: transaction.status,
+    category: transaction.category,
+    cashFlowType: transaction.cashFlowType,
+    presetKey: transaction.presetKey ?? undefined,
+    presetLabel: transaction.presetLabel ?? undefined,
+    displayType:
+      transaction.presetLabel && transaction.presetLabel.length
+        ? transaction.presetLabel
+        : transaction.presetKey &&
+          isTransactionPresetKey(transaction.presetKey)
+        ? TRANSACTION_PRESETS[transaction.presetKey].label
+        : transaction.category || transaction.type,
+    voided: Boolean(transaction.voidedAt),
+    journalChain: journalChains.get(transaction.id) ?? [],
+  }));
 
   return {
     metrics: {
@@ -1428,410 +1825,266 @@ type BalanceSheetSections = {
   assets: ReportRow[];
   liabilities: ReportRow[];
   equity: ReportRow[];
-  cashBalance: number;
-  receivables: number;
-  payables: number;
 };
 
-async function loadBalanceSheetSections(
-  userId: ObjectId,
-  upTo: Date
-): Promise<BalanceSheetSections> {
-  // Load transactions directly to respect user categorization
-  const transactions = await fetchTransactions(userId);
-  const relevantTransactions = transactions.filter(
-    (transaction) => transaction.date < upTo
-  );
-
-  const assets: ReportRow[] = [];
-  const liabilities: ReportRow[] = [];
-  const equity: ReportRow[] = [];
-  let cashBalance = 0;
-  let receivables = 0;
-  let payables = 0;
-
-  // Group transactions by their user-selected type
-  const assetTransactions = relevantTransactions.filter(
-    (t) => t.type === "asset"
-  );
-  const liabilityTransactions = relevantTransactions.filter(
-    (t) => t.type === "liability"
-  );
-  const equityTransactions = relevantTransactions.filter(
-    (t) => t.type === "equity"
-  );
-
-  // Calculate cash balance from cash-affecting transactions
-  const cashAffectingTransactions = relevantTransactions.filter(
-    (t) => t.cashFlowType !== "non-cash"
-  );
-
-  cashAffectingTransactions.forEach((transaction) => {
-    switch (transaction.type) {
-      case "income":
-        cashBalance += transaction.amount;
-        break;
-      case "expense":
-        cashBalance -= transaction.amount;
-        break;
-      case "asset":
-        cashBalance -= transaction.amount; // Asset purchase reduces cash
-        break;
-      case "liability":
-        cashBalance += transaction.amount; // Borrowing increases cash
-        break;
-      case "equity":
-        cashBalance += transaction.amount; // Equity contribution increases cash
-        break;
-    }
-  });
-
-  // Group asset transactions by category
-  const assetCategories = new Map<string, number>();
-  assetTransactions.forEach((transaction) => {
-    const current = assetCategories.get(transaction.category) || 0;
-    assetCategories.set(transaction.category, current + transaction.amount);
-  });
-
-  // Add cash as an asset ONLY if user specifically recorded cash transactions as assets
-  // Check if there are any asset transactions with cash-related categories
-  const hasCashAssetTransactions = assetTransactions.some(
-    (t) =>
-      t.category.toLowerCase().includes("cash") ||
-      t.category.toLowerCase().includes("kas")
-  );
-
-  // If user has cash asset transactions OR positive cash balance from operations, show it
-  if (
-    hasCashAssetTransactions ||
-    (cashBalance > 0.01 && assetTransactions.length === 0)
-  ) {
-    // Only show calculated cash balance if no explicit cash asset transactions exist
-    if (!hasCashAssetTransactions && cashBalance > 0.01) {
-      assets.push({ label: "Cash & Cash Equivalents", amount: cashBalance });
-    }
+/**
+ * Balance sheet rows straight from closing account balances. Revenue and
+ * expense of months without a closing entry are still open, so their
+ * cumulative result is shown as retained earnings (prior periods) plus
+ * current period net income. Closed months already sit in retained earnings.
+ */
+function buildBalanceSheetSections(
+  closingBalances: AccountBalances,
+  chart: ChartOfAccounts,
+  periodNetIncome: number
+): BalanceSheetSections {
+  const rowsForType = (type: AccountBalance["type"]) =>
+    Object.values(closingBalances)
+      .filter(
+        (balance) =>
+          balance.type === type &&
+          !getAccountDefinition(balance.code, chart)?.isRetainedEarnings &&
+          Math.abs(balance.balance) > 0.005
+      )
+      .map((balance) => ({
+        label: balance.name,
+        amount: balance.balance,
+        accountCode: balance.code,
+        isManual: false,
+      }));
+
+  const equity: ReportRow[] = rowsForType("equity");
+
+  const retainedEarnings =
+    (closingBalances[ACCOUNT_CODES.RETAINED_EARNINGS]?.balance ?? 0) +
+    netIncomeFromBalances(closingBalances) -
+    periodNetIncome;
+
+  if (Math.abs(retainedEarnings) > 0.005) {
+    equity.push({
+      label: "Retained Earnings",
+      amount: retainedEarnings,
+      accountCode: ACCOUNT_CODES.RETAINED_EARNINGS,
+      isManual: false,
+    });
   }
 
-  // Add all other asset categories
-  assetCategories.forEach((amount, category) => {
-    if (Math.abs(amount) > 0.01) {
-      assets.push({ label: category, amount });
-    }
-  });
-
-  // Group liability transactions by category
-  const liabilityCategories = new Map<string, number>();
-  liabilityTransactions.forEach((transaction) => {
-    const current = liabilityCategories.get(transaction.category) || 0;
-    liabilityCategories.set(transaction.category, current + transaction.amount);
-  });
-
-  liabilityCategories.forEach((amount, category) => {
-    if (Math.abs(amount) > 0.01) {
-      liabilities.push({ label: category, amount });
-      // Update payables if this is a payable liability
-      if (category.toLowerCase().includes("payable")) {
-        payables += amount;
-      }
-    }
-  });
-
-  // Group equity transactions by category
-  const equityCategories = new Map<string, number>();
-  equityTransactions.forEach((transaction) => {
-    const current = equityCategories.get(transaction.category) || 0;
-    equityCategories.set(transaction.category, current + transaction.amount);
-  });
-
-  equityCategories.forEach((amount, category) => {
-    if (Math.abs(amount) > 0.01) {
-      equity.push({ label: category, amount });
-    }
-  });
-
-  // Only calculate retained earnings if there are actual income/expense transactions
-  // This prevents automatic balancing entries that duplicate transaction effects
-  const incomeTransactions = relevantTransactions.filter(
-    (t) => t.type === "income"
-  );
-  const expenseTransactions = relevantTransactions.filter(
-    (t) => t.type === "expense"
-  );
-
-  // Only add retained earnings if there are actual income/expense activities
-  if (incomeTransactions.length > 0 || expenseTransactions.length > 0) {
-    const totalRevenue = incomeTransactions.reduce(
-      (sum, t) => sum + t.amount,
-      0
-    );
-    const totalExpenses = expenseTransactions.reduce(
-      (sum, t) => sum + t.amount,
-      0
-    );
-    const netIncome = totalRevenue - totalExpenses;
-
-    if (Math.abs(netIncome) > 0.01) {
-      equity.push({ label: "Retained Earnings", amount: netIncome });
-    }
+  if (Math.abs(periodNetIncome) > 0.005) {
+    equity.push({
+      label: "Current Period Net Income",
+      amount: periodNetIncome,
+      isManual: false,
+    });
   }
 
-  const sortByMagnitude = (rows: ReportRow[]) =>
-    rows.sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
-
   return {
-    assets: sortByMagnitude(assets),
-    liabilities: sortByMagnitude(liabilities),
-    equity: sortByMagnitude(equity),
-    cashBalance,
-    receivables,
-    payables,
+    assets: rowsForType("asset"),
+    liabilities: rowsForType("liability"),
+    equity,
   };
 }
 
-async function calculateNetIncomeForPeriod(
-  userId: ObjectId,
-  period: PeriodRange
-): Promise<number> {
-  const client = await clientPromise;
-  const db = client.db(DEFAULT_DB_NAME);
-
-  const match: Record<string, unknown> = {};
-  if (period.start) {
-    match.date = {
-      ...(match.date as Record<string, unknown> | undefined),
-      $gte: period.start,
-    };
-  }
-  if (period.end) {
-    match.date = {
-      ...(match.date as Record<string, unknown> | undefined),
-      $lt: period.end,
-    };
-  }
-
-  const aggregates = await db
-    .collection<JournalEntryDocument>("journal_entries")
-    .aggregate([
-      { $match: match },
-      { $unwind: "$lines" },
-      {
-        $group: {
-          _id: "$lines.accountCode",
-          debit: { $sum: "$lines.debit" },
-          credit: { $sum: "$lines.credit" },
-        },
-      },
-    ])
-    .toArray();
-
-  let revenueTotal = 0;
-  let expenseTotal = 0;
+function sumRows(rows: ReportRow[]) {
+  return rows.reduce((sum, row) => sum + row.amount, 0);
+}
 
-  aggregates.forEach((aggregate) => {
-    const code = typeof aggregate._id === "string" ? aggregate._id : null;
-    if (!code) {
-      return;
-    }
+/**
+ * Indirect method: add depreciation back to net income and undo the
+ * movements in receivables, inventory and payables. Anything else that moved
+ * operating cash lands in one reconciling row, so operating, investing and
+ * financing always add up to the change between beginning and ending cash.
+ */
+function buildIndirectCashFlow(input: {
+  netIncome: number;
+  depreciation: number;
+  openingBalances: AccountBalances;
+  closingBalances: AccountBalances;
+  chart: ChartOfAccounts;
+  operatingCash: number;
+  investing: ReportRow[];
+  financing: ReportRow[];
+}): IndirectCashFlow {
+  const { chart, openingBalances, closingBalances } = input;
+
+  const changeIn = (accountCode: string) =>
+    balanceWithSubAccounts(closingBalances, accountCode, chart) -
+    balanceWithSubAccounts(openingBalances, accountCode, chart);
+
+  const workingCapitalRow = (accountCode: string, cashEffect: number) => ({
+    label: `Change in ${
+      getAccountDefinition(accountCode, chart)?.name ?? accountCode
+    }`,
+    amount: cashEffect,
+    accountCode,
+    isManual: false,
+  });
 
-    const account = getAccountDefinition(code);
-    if (!account) {
-      return;
-    }
+  const operatingAdjustments: ReportRow[] = [
+    {
+      label: "Depreciation",
+      amount: input.depreciation,
+      accountCode: ACCOUNT_CODES.DEPRECIATION_EXPENSE,
+      isManual: false,
+    },
+    // A rise in an asset ties up cash, a rise in a liability frees it
+    workingCapitalRow(
+      ACCOUNT_CODES.ACCOUNTS_RECEIVABLE,
+      -changeIn(ACCOUNT_CODES.ACCOUNTS_RECEIVABLE)
+    ),
+    workingCapitalRow(
+      ACCOUNT_CODES.INVENTORY,
+      -changeIn(ACCOUNT_CODES.INVENTORY)
+    ),
+    workingCapitalRow(
+      ACCOUNT_CODES.ACCOUNTS_PAYABLE,
+      changeIn(ACCOUNT_CODES.ACCOUNTS_PAYABLE)
+    ),
+  ];
 
-    const debit = toNumber(aggregate.debit);
-    const credit = toNumber(aggregate.credit);
+  const otherOperating =
+    input.operatingCash - input.netIncome - sumRows(operatingAdjustments);
+  if (Math.abs(otherOperating) > 0.005) {
+    operatingAdjustments.push({
+      label: "Other Non-Cash Items",
+      amount: otherOperating,
+      isManual: false,
+    });
+  }
 
-    if (account.type === "revenue") {
-      revenueTotal += credit - debit;
-    } else if (account.type === "expense") {
-      expenseTotal += debit - credit;
-    }
-  });
+  const investing = sumRows(input.investing);
+  const financing = sumRows(input.financing);
 
-  return revenueTotal - expenseTotal;
+  return {
+    netIncome: input.netIncome,
+    operatingAdjustments: operatingAdjustments.filter(
+      (row) => Math.abs(row.amount) > 0.005
+    ),
+    investing: input.investing,
+    financing: input.financing,
+    totals: {
+      operating: input.operatingCash,
+      investing,
+      financing,
+      netChange: input.operatingCash + investing + financing,
+    },
+    beginningCash: cashBalanceFromBalances(openingBalances, chart),
+    endingCash: cashBalanceFromBalances(closingBalances, chart),
+  };
 }
 
-function ensureBalanceSheetCompleteness(sections: BalanceSheetSections) {
-  const assets = sections.assets.length ? [...sections.assets] : [];
-  const liabilities = sections.liabilities.length
-    ? [...sections.liabilities]
-    : [];
-  const equity = sections.equity.length ? [...sections.equity] : [];
-
-  // Only add cash if it actually exists in the journal entries
-  // Don't automatically create cash entries that would duplicate transaction effects
-  const derivedCash = sections.cashBalance;
-  let cashAccountExists = assets.some(
-    (asset) =>
-      asset.label.toLowerCase().includes("cash") ||
-      asset.label.toLowerCase().includes("kas")
-  );
-
-  // Only add cash entry if there are actual cash transactions in the journal
-  // and no cash account already exists
-  if (!cashAccountExists && Math.abs(derivedCash) > 0.01) {
-    // Check if cash balance comes from actual cash account transactions
-    // Rather than automatically adding it
-    assets.unshift({ label: "Cash & Cash Equivalents", amount: derivedCash });
-  }
-
-  // Ensure receivables are represented if they exist
-  if (Math.abs(sections.receivables) > 0.01) {
-    const receivableExists = assets.some(
-      (asset) =>
-        asset.label.toLowerCase().includes("receivable") ||
-        asset.label.toLowerCase().includes("piutang")
+/**
+ * Equity at both ends of the period with the movements in between. Credits
+ * to capital accounts are contributions and debits are withdrawals; revenue
+ * and expense not yet closed count as retained earnings, so closing entries
+ * only shift amounts within that column.
+ */
+function buildEquityStatement(input: {
+  openingBalances: AccountBalances;
+  closingBalances: AccountBalances;
+  periodEntries: JournalEntryDocument[];
+  chart: ChartOfAccounts;
+  netIncome: number;
+}): EquityStatement {
+  const { chart } = input;
+
+  const isCapitalAccount = (code: string) => {
+    const account = getAccountDefinition(code, chart);
+    return (
+      account?.type === "equity" &&
+      !isWithinAccount(code, ACCOUNT_CODES.RETAINED_EARNINGS, chart)
     );
-    if (!receivableExists) {
-      assets.push({
-        label: "Accounts Receivable",
-        amount: sections.receivables,
-      });
-    }
-  }
+  };
 
-  // Ensure payables are represented if they exist
-  if (Math.abs(sections.payables) > 0.01) {
-    const payableExists = liabilities.some(
-      (liability) =>
-        liability.label.toLowerCase().includes("payable") ||
-        liability.label.toLowerCase().includes("utang")
-    );
-    if (!payableExists) {
-      liabilities.push({
-        label: "Accounts Payable",
-        amount: sections.payables,
-      });
-    }
-  }
+  const equityBalance = (balances: AccountBalances): EquityBalance => {
+    const capital = Object.values(balances)
+      .filter((balance) => isCapitalAccount(balance.code))
+      .reduce((sum, balance) => sum + balance.balance, 0);
+    const retainedEarnings =
+      balanceWithSubAccounts(balances, ACCOUNT_CODES.RETAINED_EARNINGS, chart) +
+      netIncomeFromBalances(balances);
+    return { capital, retainedEarnings, total: capital + retainedEarnings };
+  };
 
-  // Calculate totals for balance sheet equation validation
-  const totalAssets = assets.reduce((sum, row) => sum + row.amount, 0);
-  const totalLiabilities = liabilities.reduce(
-    (sum, row) => sum + row.amount,
+  const capitalLines = input.periodEntries.flatMap((entry) =>
+    entry.lines.filter((line) => isCapitalAccount(line.accountCode))
+  );
+  const contributions = capitalLines.reduce(
+    (sum, line) => sum + toNumber(line.credit),
     0
   );
-  const currentEquityTotal = equity.reduce((sum, row) => sum + row.amount, 0);
-
-  // Required equity to balance: Assets - Liabilities
-  const requiredEquity = totalAssets - totalLiabilities;
-  const equityImbalance = requiredEquity - currentEquityTotal;
-
-  // Handle balance sheet equation: Assets = Liabilities + Equity
-  if (Math.abs(equityImbalance) > 0.01) {
-    // Check if retained earnings already exists
-    const retainedEarningsIndex = equity.findIndex(
-      (item) =>
-        item.label.toLowerCase().includes("retained") ||
-        item.label.toLowerCase().includes("laba ditahan")
-    );
-
-    if (retainedEarningsIndex >= 0) {
-      // Adjust existing retained earnings
-      equity[retainedEarningsIndex] = {
-        ...equity[retainedEarningsIndex],
-        amount: equity[retainedEarningsIndex].amount + equityImbalance,
-      };
-    } else {
-      // Create new retained earnings entry
-      equity.push({
-        label: "Retained Earnings",
-        amount: equityImbalance,
-      });
-    }
-  }
-
-  // Final validation - ensure balance
-  const finalTotalAssets = assets.reduce((sum, row) => sum + row.amount, 0);
-  const finalTotalLiabilities = liabilities.reduce(
-    (sum, row) => sum + row.amount,
+  const withdrawals = capitalLines.reduce(
+    (sum, line) => sum + toNumber(line.debit),
     0
   );
-  const finalTotalEquity = equity.reduce((sum, row) => sum + row.amount, 0);
 
-  const balanceCheck = Math.abs(
-    finalTotalAssets - (finalTotalLiabilities + finalTotalEquity)
-  );
-  if (balanceCheck > 0.02) {
-    console.warn(
-      `Balance sheet out of balance by ${balanceCheck.toFixed(
-        2
-      )}. Assets: ${finalTotalAssets}, Liabilities: ${finalTotalLiabilities}, Equity: ${finalTotalEquity}`
-    );
+  const opening = equityBalance(input.openingBalances);
+  const closing = equityBalance(input.closingBalances);
+
+  const movement = (
+    label: string,
+    capital: number,
+    retainedEarnings: number
+  ): EquityStatementRow => ({
+    label,
+    capital,
+    retainedEarnings,
+    total: capital + retainedEarnings,
+  });
 
-    // Emergency balancing entry
-    equity.push({
-      label: "Balance Sheet Adjustment",
-      amount: finalTotalAssets - finalTotalLiabilities - finalTotalEquity,
-    });
+  const movements = [
+    movement("Owner Contributions", contributions, 0),
+    movement("Owner Withdrawals", -withdrawals, 0),
+    movement("Net Income for the Period", 0, input.netIncome),
+  ];
+
+  // Direct postings to retained earnings, such as dividends or corrections
+  const otherChanges =
+    closing.retainedEarnings - opening.retainedEarnings - input.netIncome;
+  if (Math.abs(otherChanges) > 0.005) {
+    movements.push(movement("Other Changes", 0, otherChanges));
   }
 
-  // Sort by magnitude for better presentation
-  const sortByMagnitude = (rows: ReportRow[]) =>
-    rows.sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+  return { opening, movements, closing };
+}
 
+type IncomePostings = {
+  revenue: LedgerPosting[];
+  cogs: LedgerPosting[];
+  operatingExpenses: LedgerPosting[];
+};
+
+function splitIncomePostings(
+  postings: LedgerPosting[],
+  chart: ChartOfAccounts
+): IncomePostings {
   return {
-    assets: sortByMagnitude(assets),
-    liabilities: sortByMagnitude(liabilities),
-    equity: sortByMagnitude(equity),
+    revenue: filterPostings(postings, (account) => account.type === "revenue"),
+    cogs: filterPostings(postings, (account) =>
+      isWithinAccount(account.code, ACCOUNT_CODES.COST_OF_GOODS, chart)
+    ),
+    operatingExpenses: filterPostings(
+      postings,
+      (account) =>
+        account.type === "expense" &&
+        !isWithinAccount(account.code, ACCOUNT_CODES.COST_OF_GOODS, chart)
+    ),
   };
 }
 
-export async function buildReportData(
-  userId: ObjectId,
-  periodKey: PeriodKey
-): Promise<ReportData> {
-  const transactions = await fetchTransactions(userId);
-  const period = getPeriodRange(periodKey);
-  const periodTransactions = filterByPeriod(transactions, period);
-
-  const adjustments = await fetchReportAdjustmentsForPeriod(userId, period);
-
-  const baseRevenueRows = aggregateByCategory(
-    periodTransactions.filter((transaction) => transaction.type === "income"),
-    "Uncategorised Income"
-  ).map((row) => ({ ...row, isManual: false }));
-
-  // Separate COGS from other expenses
-  const allExpenseTransactions = periodTransactions.filter(
-    (transaction) => transaction.type === "expense"
-  );
-  const cogsTransactions = allExpenseTransactions.filter(
-    (transaction) =>
-      transaction.category?.toLowerCase().includes("cost of goods") ||
-      transaction.category?.toLowerCase().includes("cogs") ||
-      transaction.category?.toLowerCase().includes("hpp")
-  );
-  const operatingExpenseTransactions = allExpenseTransactions.filter(
-    (transaction) =>
-      !transaction.category?.toLowerCase().includes("cost of goods") &&
-      !transaction.category?.toLowerCase().includes("cogs") &&
-      !transaction.category?.toLowerCase().includes("hpp")
-  );
-
-  const baseCOGSRows = aggregateByCategory(
-    cogsTransactions,
-    "Uncategorised COGS"
-  ).map((row) => ({ ...row, isManual: false }));
-
-  const baseExpenseRows = aggregateByCategory(
-    operatingExpenseTransactions,
-    "Uncategorised Expense"
-  ).map((row) => ({ ...row, isManual: false }));
-
+function buildIncomeStatement(
+  income: IncomePostings,
+  adjustments: ReportAdjustmentCollection["income-statement"]
+): ReportData["incomeStatement"] {
   const revenueRows = [
-    ...baseRevenueRows,
-    ...adjustments["income-statement"].revenues,
+    ...aggregateByCategory(income.revenue, "Uncategorised Income"),
+    ...adjustments.revenues,
   ];
 
-  const cogsRows = [
-    ...baseCOGSRows,
-    // Add COGS adjustments if needed
-  ];
+  const cogsRows = aggregateByCategory(income.cogs, "Uncategorised COGS");
 
   const expenseRows = [
-    ...baseExpenseRows,
-    ...adjustments["income-statement"].expenses,
+    ...aggregateByCategory(income.operatingExpenses, "Uncategorised Expense"),
+    ...adjustments.expenses,
   ];
 
   const totalRevenue = revenueRows.reduce((sum, row) => sum + row.amount, 0);
@@ -1839,80 +2092,106 @@ export async function buildReportData(
   const grossProfit = totalRevenue - totalCOGS;
   const totalExpenses = expenseRows.reduce((sum, row) => sum + row.amount, 0);
 
-  const baseBalanceSections = await loadBalanceSheetSections(
-    userId,
-    period.end
+  return {
+    revenues: revenueRows,
+    cogs: cogsRows,
+    expenses: expenseRows,
+    totals: {
+      revenue: totalRevenue,
+      cogs: totalCOGS,
+      grossProfit: grossProfit,
+      expenses: totalExpenses,
+      netIncome: grossProfit - totalExpenses,
+    },
+  };
+}
+
+async function buildReportStatements(
+  userId: ObjectId,
+  period: PeriodRange
+): Promise<ReportStatements> {
+  const [periodEntries, openingBalances, closingLedger, adjustments, chart] =
+    await Promise.all([
+      fetchJournalEntries(userId, { ...period, excludeClosingEntries: true }),
+      fetchAccountBalances(userId, { end: period.start }),
+      fetchLedgerBalances(userId, { end: period.end }),
+      fetchReportAdjustmentsForPeriod(userId, period),
+      loadChartOfAccounts(userId),
+    ]);
+  const closingBalances = closingLedger.balances;
+
+  const incomePostings = splitIncomePostings(
+    toPostings(periodEntries, chart),
+    chart
+  );
+  const incomeStatement = buildIncomeStatement(
+    incomePostings,
+    adjustments["income-statement"]
+  );
+
+  const ledgerNetIncome =
+    sumPostings(incomePostings.revenue) -
+    sumPostings(incomePostings.cogs) -
+    sumPostings(incomePostings.operatingExpenses);
+
+  const baseBalanceSections = buildBalanceSheetSections(
+    closingBalances,
+    chart,
+    ledgerNetIncome
   );
 
-  const mergedBalanceSections = {
-    assets: [
+  const sortByMagnitude = (rows: ReportRow[]) =>
+    rows.sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+
+  const balanceSheet = {
+    assets: sortByMagnitude([
       ...baseBalanceSections.assets,
       ...adjustments["balance-sheet"].assets,
-    ],
-    liabilities: [
+    ]),
+    liabilities: sortByMagnitude([
       ...baseBalanceSections.liabilities,
       ...adjustments["balance-sheet"].liabilities,
-    ],
-    equity: [
+    ]),
+    equity: sortByMagnitude([
       ...baseBalanceSections.equity,
       ...adjustments["balance-sheet"].equity,
-    ],
-    cashBalance: baseBalanceSections.cashBalance,
-    receivables: baseBalanceSections.receivables,
-    payables: baseBalanceSections.payables,
-  } satisfies BalanceSheetSections;
-
-  // Use the actual journal-based balance sheet without forcing artificial completeness
-  const balanceSheet = {
-    assets: mergedBalanceSections.assets.sort(
-      (a, b) => Math.abs(b.amount) - Math.abs(a.amount)
-    ),
-    liabilities: mergedBalanceSections.liabilities.sort(
-      (a, b) => Math.abs(b.amount) - Math.abs(a.amount)
-    ),
-    equity: mergedBalanceSections.equity.sort(
-      (a, b) => Math.abs(b.amount) - Math.abs(a.amount)
-    ),
+    ]),
   };
 
-  // No automatic balancing - show only what user selected
-  // Each transaction appears only in its chosen category (asset/liability/equity)
-  // This respects user intent and prevents duplicate entries
-
-  const operatingTransactions = periodTransactions.filter(
-    (transaction) => transaction.cashFlowType === "operating"
-  );
-  const investingTransactions = periodTransactions.filter(
-    (transaction) => transaction.cashFlowType === "investing"
-  );
-  const financingTransactions = periodTransactions.filter(
-    (transaction) => transaction.cashFlowType === "financing"
+  const cashEntries = periodEntries.filter(
+    (entry) => Math.abs(cashMovement(entry, chart)) > 0.005
   );
 
-  const operating = [
-    ...mapCashFlowRows(operatingTransactions, "Operating Activities").map(
-      (row) => ({ ...row, isManual: false })
+  const ledgerOperating = mapCashFlowRows(
+    cashEntries.filter(
+      (entry) => classifyCashEntry(entry, chart) === "operating"
     ),
-    ...adjustments["cash-flow"].operating,
-  ];
-  const investing = [
-    ...mapCashFlowRows(investingTransactions, "Investing Activities").map(
-      (row) => ({ ...row, isManual: false })
+    chart,
+    "Operating Activities"
+  );
+  const ledgerInvesting = mapCashFlowRows(
+    cashEntries.filter(
+      (entry) => classifyCashEntry(entry, chart) === "investing"
     ),
-    ...adjustments["cash-flow"].investing,
-  ];
-  const financing = [
-    ...mapCashFlowRows(financingTransactions, "Financing Activities").map(
-      (row) => ({ ...row, isManual: false })
+    chart,
+    "Investing Activities"
+  );
+  const ledgerFinancing = mapCashFlowRows(
+    cashEntries.filter(
+      (entry) => classifyCashEntry(entry, chart) === "financing"
     ),
-    ...adjustments["cash-flow"].financing,
-  ];
+    chart,
+    "Financing Activities"
+  );
+
+  const operating = [...ledgerOperating, ...adjustments["cash-flow"].operating];
+  const investing = [...ledgerInvesting, ...adjustments["cash-flow"].investing];
+  const financing = [...ledgerFinancing, ...adjustments["cash-flow"].financing];
 
   const totalOperating = operating.reduce((sum, row) => sum + row.amount, 0);
   const totalInvesting = investing.reduce((sum, row) => sum + row.amount, 0);
   const totalFinancing = financing.reduce((sum, row) => sum + row.amount, 0);
 
-  // Calculate totals for validation
   const totalAssets = balanceSheet.assets.reduce(
     (sum, row) => sum + row.amount,
     0
@@ -1926,29 +2205,12 @@ export async function buildReportData(
     0
   );
 
-  // Validate accounting equation (for reporting purposes)
+  // Ledger balances always tie; only manual adjustments can unbalance this
   const balanceSheetDifference = totalAssets - (totalLiabilities + totalEquity);
   const isBalanced = Math.abs(balanceSheetDifference) < 0.01;
 
   return {
-    period: period.label,
-    range: {
-      start: period.start.toISOString(),
-      end: period.end.toISOString(),
-    },
-    generatedAt: new Date().toISOString(),
-    incomeStatement: {
-      revenues: revenueRows,
-      cogs: cogsRows,
-      expenses: expenseRows,
-      totals: {
-        revenue: totalRevenue,
-        cogs: totalCOGS,
-        grossProfit: grossProfit,
-        expenses: totalExpenses,
-        netIncome: grossProfit - totalExpenses,
-      },
-    },
+    incomeStatement,
     balanceSheet: {
       assets: balanceSheet.assets,
       liabilities: balanceSheet.liabilities,
@@ -1958,7 +2220,6 @@ export async function buildReportData(
         liabilities: totalLiabilities,
         equity: totalEquity,
       },
-      // Include balance validation info
       validation: {
         isBalanced,
         difference: balanceSheetDifference,
@@ -1974,6 +2235,264 @@ export async function buildReportData(
         financing: totalFinancing,
         netChange: totalOperating + totalInvesting + totalFinancing,
       },
+      indirect: buildIndirectCashFlow({
+        netIncome: ledgerNetIncome,
+        depreciation: sumPostings(
+          filterPostings(incomePostings.operatingExpenses, (account) =>
+            isWithinAccount(
+              account.code,
+              ACCOUNT_CODES.DEPRECIATION_EXPENSE,
+              chart
+            )
+          )
+        ),
+        openingBalances,
+        closingBalances,
+        chart,
+        operatingCash: sumRows(ledgerOperating),
+        investing: ledgerInvesting,
+        financing: ledgerFinancing,
+      }),
+    },
+    equityStatement: buildEquityStatement({
+      openingBalances,
+      closingBalances,
+      periodEntries,
+      chart,
+      netIncome: ledgerNetIncome,
+    }),
+    trialBalance: buildTrialBalance(
+      closingBalances,
+      period.end,
+      closingLedger.unknownAccounts
+    ),
+  };
+}
+
+/**
+ * Line up the rows of two periods by account, or by label for rows without
+ * one. Rows sharing a key are summed, so per-entry cash flow rows collapse
+ * into one row per counter account; rows only in the comparison period are
+ * appended with a zero amount.
+ */
+function compareRows(current: ReportRow[], previous: ReportRow[]): ReportRow[] {
+  const keyOf = (row: ReportRow) => row.accountCode ?? `label:${row.label}`;
+
+  const previousAmounts = new Map<string, number>();
+  previous.forEach((row) => {
+    const key = keyOf(row);
+    previousAmounts.set(key, (previousAmounts.get(key) ?? 0) + row.amount);
+  });
+
+  const grouped = new Map<string, ReportRow>();
+  current.forEach((row) => {
+    const key = keyOf(row);
+    const existing = grouped.get(key);
+    grouped.set(
+      key,
+      existing
+        ? {
+            label: existing.label,
+            amount: existing.amount + row.amount,
+            accountCode: existing.accountCode,
+            isManual: false,
+          }
+        : row
+    );
+  });
+
+  const previousOnly = previous
+    .filter((row) => !grouped.has(keyOf(row)))
+    .map((row) => ({
+      label: row.label,
+      amount: 0,
+      accountCode: row.accountCode,
+      isManual: false,
+    }));
+  previousOnly.forEach((row) => grouped.set(keyOf(row), row));
+
+  return Array.from(grouped.entries()).map(([key, row]) => {
+    const comparisonAmount = previousAmounts.get(key) ?? 0;
+    return {
+      ...row,
+      comparisonAmount,
+      variance: calculateVariance(row.amount, comparisonAmount),
+    };
+  });
+}
+
+export async function buildReportData(
+  userId: ObjectId,
+  periodKey: PeriodSelection,
+  comparison: ComparisonSelection | null = null
+): Promise<ReportData> {
+  const period = await resolvePeriodRange(userId, periodKey);
+  const comparisonPeriod = comparison
+    ? getComparisonRange(period, comparison)
+    : null;
+
+  const [statements, previous] = await Promise.all([
+    buildReportStatements(userId, period),
+    comparisonPeriod ? buildReportStatements(userId, comparisonPeriod) : null,
+  ]);
+
+  const report: ReportData = {
+    period: period.label,
+    range: {
+      start: period.start.toISOString(),
+      end: period.end.toISOString(),
+    },
+    generatedAt: new Date().toISOString(),
+    ...statements,
+  };
+
+  if (!comparisonPeriod || !previous) {
+    return report;
+  }
+
+  const { incomeStatement, balanceSheet, cashFlow } = statements;
+
+  return {
+    ...report,
+    incomeStatement: {
+      ...incomeStatement,
+      revenues: compareRows(
+        incomeStatement.revenues,
+        previous.incomeStatement.revenues
+      ),
+      cogs: compareRows(incomeStatement.cogs, previous.incomeStatement.cogs),
+      expenses: compareRows(
+        incomeStatement.expenses,
+        previous.incomeStatement.expenses
+      ),
+    },
+    balanceSheet: {
+      ...balanceSheet,
+      assets: compareRows(balanceSheet.assets, previous.balanceSheet.assets),
+      liabilities: compareRows(
+        balanceSheet.liabilities,
+        previous.balanceSheet.liabilities
+      ),
+      equity: compareRows(balanceSheet.equity, previous.balanceSheet.equity),
+    },
+    cashFlow: {
+      ...cashFlow,
+      operating: compareRows(cashFlow.operating, previous.cashFlow.operating),
+      investing: compareRows(cashFlow.investing, previous.cashFlow.investing),
+      financing: compareRows(cashFlow.financing, previous.cashFlow.financing),
+    },
+    comparison: {
+      period: comparisonPeriod.label,
+      range: {
+        start: comparisonPeriod.start.toISOString(),
+        end: comparisonPeriod.end.toISOString(),
+      },
+      totals: {
+        incomeStatement: previous.incomeStatement.totals,
+        balanceSheet: previous.balanceSheet.totals,
+        cashFlow: previous.cashFlow.totals,
+      },
+    },
+  };
+}
+
+function toMonthlyAmounts(amounts: number[]): MonthlyAmounts {
+  return {
+    amounts,
+    total: amounts.reduce((sum, amount) => sum + amount, 0),
+  };
+}
+
+/** Spread the rows of each month's statement over one row per account. */
+function mergeMonthlyRows(rowsByMonth: ReportRow[][]): MonthlyReportRow[] {
+  const merged = new Map<
+    string,
+    { label: string; accountCode?: string; amounts: number[] }
+  >();
+
+  rowsByMonth.forEach((rows, monthIndex) => {
+    rows.forEach((row) => {
+      const key = row.accountCode ?? `label:${row.label}`;
+      const current = merged.get(key) ?? {
+        label: row.label,
+        accountCode: row.accountCode,
+        amounts: rowsByMonth.map(() => 0),
+      };
+      current.amounts[monthIndex] += row.amount;
+      merged.set(key, current);
+    });
+  });
+
+  return Array.from(merged.values())
+    .map(({ label, accountCode, amounts }) => ({
+      label,
+      accountCode,
+      ...toMonthlyAmounts(amounts),
+    }))
+    .sort((a, b) => Math.abs(b.total) - Math.abs(a.total));
+}
+
+export async function buildMonthlyIncomeStatement(
+  userId: ObjectId,
+  periodKey: PeriodSelection
+): Promise<MonthlyIncomeStatement> {
+  const period = await resolvePeriodRange(userId, periodKey);
+  const months = splitIntoMonths(period);
+  if (months.length > MAX_MONTHLY_COLUMNS) {
+    throw new InvalidPeriodError(
+      `Monthly statements cover at most ${MAX_MONTHLY_COLUMNS} months.`
+    );
+  }
+
+  const [entries, chart, adjustmentsByMonth] = await Promise.all([
+    fetchJournalEntries(userId, { ...period, excludeClosingEntries: true }),
+    loadChartOfAccounts(userId),
+    Promise.all(
+      months.map((month) => fetchReportAdjustmentsForPeriod(userId, month))
+    ),
+  ]);
+
+  const postings = toPostings(entries, chart);
+  const statements = months.map((month, index) =>
+    buildIncomeStatement(
+      splitIncomePostings(
+        postings.filter(
+          (posting) => posting.date >= month.start && posting.date < month.end
+        ),
+        chart
+      ),
+      adjustmentsByMonth[index]["income-statement"]
+    )
+  );
+
+  const totalsFor = (key: keyof ReportData["incomeStatement"]["totals"]) =>
+    toMonthlyAmounts(statements.map((statement) => statement.totals[key]));
+
+  return {
+    period: period.label,
+    range: {
+      start: period.start.toISOString(),
+      end: period.end.toISOString(),
+    },
+    generatedAt: new Date().toISOString(),
+    months: months.map((month) => ({
+      label: month.label,
+      start: month.start.toISOString(),
+      end: month.end.toISOString(),
+    })),
+    revenues: mergeMonthlyRows(
+      statements.map((statement) => statement.revenues)
+    ),
+    cogs: mergeMonthlyRows(statements.map((statement) => statement.cogs)),
+    expenses: mergeMonthlyRows(
+      statements.map((statement) => statement.expenses)
+    ),
+    totals: {
+      revenue: totalsFor("revenue"),
+      cogs: totalsFor("cogs"),
+      grossProfit: totalsFor("grossProfit"),
+      expenses: totalsFor("expenses"),
+      netIncome: totalsFor("netIncome"),
     },
   };
 }
@@ -0,0 +1,90 @@
+import type { CostMethod, MovementType } from "./inventory";
+
+export type InventoryReportType = "inventory-valuation" | "stock-movements";
+
+export type StockAmount = {
+  quantity: number;
+  value: number;
+};
+
+/** Stock ledger valuation set against the journal balance of account 1200. */
+export type InventoryReconciliation = {
+  ledgerBalance: number;
+  stockValue: number;
+  difference: number;
+};
+
+export type InventoryValuationRow = {
+  itemId: string;
+  sku: string;
+  name: string;
+  unit: string;
+  costMethod: CostMethod;
+  quantity: number;
+  unitCost: number;
+  value: number;
+};
+
+export type InventoryValuationReport = {
+  type: "inventory-valuation";
+  asOf: string;
+  generatedAt: string;
+  rows: InventoryValuationRow[];
+  totalValue: number;
+  reconciliation: InventoryReconciliation;
+};
+
+export type StockMovementLine = {
+  id: string;
+  date: string;
+  type: MovementType;
+  location: string;
+  toLocation: string | null;
+  reference: string | null;
+  quantity: number;
+  unitCost: number;
+  value: number;
+  /** Item totals after the movement. */
+  balance: StockAmount;
+};
+
+export type StockMovementRow = {
+  itemId: string;
+  sku: string;
+  name: string;
+  unit: string;
+  opening: StockAmount;
+  /** Stock that came in: receipts and positive adjustments. */
+  received: StockAmount;
+  /** Stock that went out, as positive figures. */
+  issued: StockAmount;
+  closing: StockAmount;
+  movements: StockMovementLine[];
+};
+
+export type StockMovementReport = {
+  type: "stock-movements";
+  period: string;
+  range: {
+    start: string;
+    end: string;
+  };
+  generatedAt: string;
+  rows: StockMovementRow[];
+  totals: {
+    opening: number;
+    received: number;
+    issued: number;
+    closing: number;
+  };
+  reconciliation: {
+    opening: InventoryReconciliation;
+    closing: InventoryReconciliation;
+  };
+};
+
+export function isInventoryReportType(
+  value: unknown
+): value is InventoryReportType {
+  return value === "inventory-valuation" || value === "stock-movements";
+}
@@ -0,0 +1,227 @@
+import { ObjectId } from "mongodb";
+
+import { ACCOUNT_CODES } from "./chart-of-accounts";
+import { loadChartOfAccounts } from "./accounts";
+import { resolvePeriodRange } from "./finance";
+import {
+  listItems,
+  listMovements,
+  type InventoryItemSummary,
+  type StockMovementSummary,
+} from "./inventory";
+import type {
+  InventoryReconciliation,
+  InventoryValuationReport,
+  InventoryValuationRow,
+  StockAmount,
+  StockMovementReport,
+  StockMovementRow,
+} from "./inventory-report-schema";
+import { balanceWithSubAccounts, fetchAccountBalances } from "./ledger";
+import type { PeriodSelection } from "./period-range";
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const roundQuantity = (value: number) => Math.round(value * 10000) / 10000;
+
+const emptyAmount = (): StockAmount => ({ quantity: 0, value: 0 });
+
+function addToAmount(amount: StockAmount, quantity: number, value: number) {
+  amount.quantity = roundQuantity(amount.quantity + quantity);
+  amount.value = roundAmount(amount.value + value);
+}
+
+/** Change to the item's total; transfers only move stock between locations. */
+const netQuantity = (movement: StockMovementSummary) =>
+  movement.type === "transfer" ? 0 : movement.quantity;
+
+function startOfNextDay(value: Date) {
+  return new Date(value.getFullYear(), value.getMonth(), value.getDate() + 1);
+}
+
+/** The item ledger oldest first, with ties in the order they were recorded. */
+async function loadLedger(userId: ObjectId) {
+  const [items, movements] = await Promise.all([
+    listItems(userId),
+    listMovements(userId),
+  ]);
+  return { items, movements: movements.slice().reverse() };
+}
+
+/** Journal balance of account 1200 and its sub-accounts before `end`. */
+async function reconcile(
+  userId: ObjectId,
+  end: Date,
+  stockValue: number
+): Promise<InventoryReconciliation> {
+  const [balances, chart] = await Promise.all([
+    fetchAccountBalances(userId, { end }),
+    loadChartOfAccounts(userId),
+  ]);
+  const ledgerBalance = roundAmount(
+    balanceWithSubAccounts(balances, ACCOUNT_CODES.INVENTORY, chart)
+  );
+  return {
+    ledgerBalance,
+    stockValue,
+    difference: roundAmount(ledgerBalance - stockValue),
+  };
+}
+
+function sumValues(amounts: StockAmount[]) {
+  return amounts.reduce((sum, amount) => roundAmount(sum + amount.value), 0);
+}
+
+/**
+ * Quantity and value of every item at the end of `asOf`, from the stock
+ * ledger, checked against what the journal carries in account 1200.
+ */
+export async function buildInventoryValuation(
+  userId: ObjectId,
+  asOf: Date = new Date()
+): Promise<InventoryValuationReport> {
+  const end = startOfNextDay(asOf);
+  const { items, movements } = await loadLedger(userId);
+
+  const balances = new Map<string, StockAmount>();
+  movements
+    .filter((movement) => new Date(movement.date) < end)
+    .forEach((movement) => {
+      const balance = balances.get(movement.itemId) ?? emptyAmount();
+      addToAmount(balance, netQuantity(movement), movement.value);
+      balances.set(movement.itemId, balance);
+    });
+
+  const rows = items.map<InventoryValuationRow>((item) => {
+    const balance = balances.get(item.id) ?? emptyAmount();
+    return {
+      itemId: item.id,
+      sku: item.sku,
+      name: item.name,
+      unit: item.unit,
+      costMethod: item.costMethod,
+      quantity: balance.quantity,
+      unitCost:
+        balance.quantity > 0
+          ? roundAmount(balance.value / balance.quantity)
+          : 0,
+      value: balance.value,
+    };
+  });
+  const totalValue = sumValues(rows);
+
+  return {
+    type: "inventory-valuation",
+    asOf: new Date(end.getTime() - 1).toISOString(),
+    generatedAt: new Date().toISOString(),
+    rows,
+    totalValue,
+    reconciliation: await reconcile(userId, end, totalValue),
+  };
+}
+
+function toMovementRow(item: InventoryItemSummary): StockMovementRow {
+  return {
+    itemId: item.id,
+    sku: item.sku,
+    name: item.name,
+    unit: item.unit,
+    opening: emptyAmount(),
+    received: emptyAmount(),
+    issued: emptyAmount(),
+    closing: emptyAmount(),
+    movements: [],
+  };
+}
+
+/**
+ * Opening stock, what came in and went out, and closing stock of each item
+ * over a period, with every movement and the running balance after it.
+ * Items without stock or movements in the period are left out.
+ */
+export async function buildStockMovementReport(
+  userId: ObjectId,
+  periodKey: PeriodSelection,
+  options: { itemId?: string | null } = {}
+): Promise<StockMovementReport> {
+  const [period, { items, movements }] = await Promise.all([
+    resolvePeriodRange(userId, periodKey),
+    loadLedger(userId),
+  ]);
+
+  const rows = new Map(items.map((item) => [item.id, toMovementRow(item)]));
+
+  movements.forEach((movement) => {
+    const row = rows.get(movement.itemId);
+    const date = new Date(movement.date);
+    if (!row || date >= period.end) {
+      return;
+    }
+
+    const quantity = netQuantity(movement);
+    if (date < period.start) {
+      addToAmount(row.opening, quantity, movement.value);
+      addToAmount(row.closing, quantity, movement.value);
+      return;
+    }
+
+    if (quantity > 0) {
+      addToAmount(row.received, quantity, movement.value);
+    } else if (quantity < 0) {
+      addToAmount(row.issued, -quantity, -movement.value);
+    }
+    addToAmount(row.closing, quantity, movement.value);
+    row.movements.push({
+      id: movement.id,
+      date: movement.date,
+      type: movement.type,
+      location: movement.location,
+      toLocation: movement.toLocation,
+      reference: movement.reference,
+      quantity: movement.quantity,
+      unitCost: movement.unitCost,
+      value: movement.value,
+      balance: { ...row.closing },
+    });
+  });
+
+  // The journal covers every item, so reconcile before narrowing to one
+  const allRows = Array.from(rows.values());
+  const [opening, closing] = await Promise.all([
+    reconcile(
+      userId,
+      period.start,
+      sumValues(allRows.map((row) => row.opening))
+    ),
+    reconcile(
+      userId,
+      period.end,
+      sumValues(allRows.map((row) => row.closing))
+    ),
+  ]);
+
+  const reportRows = allRows.filter(
+    (row) =>
+      (!options.itemId || row.itemId === options.itemId) &&
+      (row.movements.length > 0 || row.opening.quantity !== 0)
+  );
+  const totals = {
+    opening: sumValues(reportRows.map((row) => row.opening)),
+    received: sumValues(reportRows.map((row) => row.received)),
+    issued: sumValues(reportRows.map((row) => row.issued)),
+    closing: sumValues(reportRows.map((row) => row.closing)),
+  };
+
+  return {
+    type: "stock-movements",
+    period: period.label,
+    range: {
+      start: period.start.toISOString(),
+      end: period.end.toISOString(),
+    },
+    generatedAt: new Date().toISOString(),
+    rows: reportRows,
+    totals,
+    reconciliation: { opening, closing },
+  };
+}
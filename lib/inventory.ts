@@ -0,0 +1,978 @@
+import { ObjectId, type Collection } from "mongodb";
+
+import clientPromise from "./mongodb";
+import {
+  ACCOUNT_CODES,
+  getAccountDefinition,
+  isWithinAccount,
+} from "./chart-of-accounts";
+import { loadChartOfAccounts } from "./accounts";
+import { postJournal } from "./journal";
+import { assertPeriodsOpen } from "./periods";
+import { toCalendarDate } from "./period-range";
+
+const DEFAULT_DB_NAME = process.env.MONGODB_DB ?? "cloud-erp";
+
+export const COST_METHODS = ["fifo", "average"] as const;
+
+export type CostMethod = (typeof COST_METHODS)[number];
+
+export const MOVEMENT_TYPES = [
+  "receipt",
+  "issue",
+  "adjustment",
+  "transfer",
+] as const;
+
+export type MovementType = (typeof MOVEMENT_TYPES)[number];
+
+export const DEFAULT_LOCATION = "Main";
+
+/** Journal reference of every entry posted for a stock movement. */
+const STOCK_REFERENCE_PREFIX = "stock:";
+
+/** Account on the other side of account 1200 when none is chosen. */
+const DEFAULT_OFFSET_ACCOUNTS: Record<
+  Exclude<MovementType, "transfer">,
+  string
+> = {
+  receipt: ACCOUNT_CODES.CASH,
+  issue: ACCOUNT_CODES.COST_OF_GOODS,
+  adjustment: ACCOUNT_CODES.OPERATING_EXPENSE,
+};
+
+type InventoryItemDocument = {
+  _id?: ObjectId;
+  userId: ObjectId;
+  sku: string;
+  name: string;
+  /** Unit the quantities are counted in, e.g. pcs or kg. */
+  unit: string;
+  costMethod: CostMethod;
+  /** On-hand quantity at or below which the item counts as low stock. */
+  reorderLevel: number;
+  description?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/**
+ * One line of the stock ledger. `quantity` is the signed change at
+ * `location`, so issues are negative; a transfer moves a positive quantity
+ * from `location` to `toLocation` and leaves the item's total unchanged.
+ * Every change in value is journaled against account 1200, either by the
+ * movement itself or by the finance transaction it was recorded with, so
+ * that account always equals the valuation of the stock ledger.
+ */
+type StockMovementDocument = {
+  _id?: ObjectId;
+  userId: ObjectId;
+  itemId: ObjectId;
+  type: MovementType;
+  date: Date;
+  quantity: number;
+  location: string;
+  toLocation?: string | null;
+  /** Cost per unit; given for receipts, worked out for outgoing stock. */
+  unitCost?: number | null;
+  /** Signed change in stock value, fixed when the movement is recorded. */
+  value?: number;
+  /** Account on the other side of the journal from account 1200. */
+  offsetAccountCode?: string | null;
+  reference?: string | null;
+  memo?: string | null;
+  journalEntryId?: ObjectId | null;
+  /** Finance transaction whose journal carries this movement's value. */
+  transactionId?: ObjectId | null;
+  voidedAt?: Date | null;
+  createdAt: Date;
+};
+
+export type StockStatus = "in_stock" | "low_stock" | "out_of_stock";
+
+export type LocationQuantity = {
+  location: string;
+  quantity: number;
+};
+
+export type InventoryItemSummary = {
+  id: string;
+  sku: string;
+  name: string;
+  unit: string;
+  costMethod: CostMethod;
+  reorderLevel: number;
+  description: string | null;
+  quantityOnHand: number;
+  averageCost: number;
+  value: number;
+  status: StockStatus;
+  locations: LocationQuantity[];
+};
+
+export type InventoryTotals = {
+  totalItems: number;
+  lowStock: number;
+  outOfStock: number;
+  inventoryValue: number;
+};
+
+export type StockMovementSummary = {
+  id: string;
+  itemId: string;
+  sku: string;
+  itemName: string;
+  type: MovementType;
+  date: string;
+  quantity: number;
+  location: string;
+  toLocation: string | null;
+  unitCost: number;
+  /** Signed change in stock value; zero for transfers. */
+  value: number;
+  reference: string | null;
+  memo: string | null;
+};
+
+export type OpeningStockInput = {
+  date: Date;
+  quantity: number;
+  unitCost: number;
+  location?: string | null;
+};
+
+export type CreateItemInput = {
+  sku: string;
+  name: string;
+  unit?: string | null;
+  costMethod?: CostMethod | null;
+  reorderLevel?: number | null;
+  description?: string | null;
+  openingStock?: OpeningStockInput | null;
+};
+
+export type UpdateItemInput = {
+  name?: string;
+  unit?: string | null;
+  costMethod?: CostMethod | null;
+  reorderLevel?: number | null;
+  description?: string | null;
+};
+
+export type RecordMovementInput = {
+  itemId: string;
+  type: MovementType;
+  date: Date;
+  /** Positive, except for adjustments where the sign is the direction. */
+  quantity: number;
+  location?: string | null;
+  toLocation?: string | null;
+  unitCost?: number | null;
+  /** Defaults to cash for receipts, COGS for issues, expenses otherwise. */
+  offsetAccountCode?: string | null;
+  reference?: string | null;
+  memo?: string | null;
+};
+
+export class InventoryValidationError extends Error {}
+
+export class InventoryItemNotFoundError extends Error {}
+
+export function parseCostMethod(value: unknown): CostMethod | null {
+  return COST_METHODS.includes(value as CostMethod)
+    ? (value as CostMethod)
+    : null;
+}
+
+export function parseMovementType(value: unknown): MovementType | null {
+  return MOVEMENT_TYPES.includes(value as MovementType)
+    ? (value as MovementType)
+    : null;
+}
+
+async function getItemsCollection(): Promise<
+  Collection<InventoryItemDocument>
+> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  return db.collection<InventoryItemDocument>("inventory_items");
+}
+
+async function getMovementsCollection(): Promise<
+  Collection<StockMovementDocument>
+> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  return db.collection<StockMovementDocument>("stock_movements");
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const roundQuantity = (value: number) => Math.round(value * 10000) / 10000;
+
+const optionalText = (value: string | null | undefined) =>
+  value && value.trim() ? value.trim() : null;
+
+const locationName = (value: string | null | undefined) =>
+  optionalText(value) ?? DEFAULT_LOCATION;
+
+type CostLayer = {
+  quantity: number;
+  unitCost: number;
+};
+
+type ItemBalance = {
+  quantity: number;
+  value: number;
+  locations: Map<string, number>;
+  /** Receipts not yet consumed, oldest first; used by FIFO items. */
+  layers: CostLayer[];
+};
+
+type MovementCost = {
+  unitCost: number;
+  value: number;
+};
+
+const emptyBalance = (): ItemBalance => ({
+  quantity: 0,
+  value: 0,
+  locations: new Map<string, number>(),
+  layers: [],
+});
+
+function byMovementOrder(a: StockMovementDocument, b: StockMovementDocument) {
+  return (
+    a.date.getTime() - b.date.getTime() ||
+    a.createdAt.getTime() - b.createdAt.getTime()
+  );
+}
+
+/** Takes `quantity` off the oldest layers and returns what they cost. */
+function consumeLayers(balance: ItemBalance, quantity: number): number {
+  let remaining = quantity;
+  let cost = 0;
+  while (remaining > 0 && balance.layers.length) {
+    const layer = balance.layers[0];
+    const taken = Math.min(layer.quantity, remaining);
+    cost += taken * layer.unitCost;
+    layer.quantity = roundQuantity(layer.quantity - taken);
+    remaining = roundQuantity(remaining - taken);
+    if (layer.quantity <= 0) {
+      balance.layers.shift();
+    }
+  }
+  return roundAmount(cost);
+}
+
+/** Value leaving stock when `quantity` units are taken out of `balance`. */
+function costOutgoing(
+  balance: ItemBalance,
+  quantity: number,
+  costMethod: CostMethod
+): number {
+  // Stock that runs out takes any rounding residue with it
+  if (quantity >= balance.quantity) {
+    balance.layers = [];
+    return balance.value;
+  }
+  // Layers are kept in step for average items too, though only FIFO uses them
+  const fifoCost = consumeLayers(balance, quantity);
+  return costMethod === "fifo"
+    ? fifoCost
+    : roundAmount((quantity * balance.value) / balance.quantity);
+}
+
+/**
+ * Applies one movement to an item's running balance and returns what it did
+ * to the stock value. Incoming stock is valued at its own unit cost (or the
+ * current average when none is given); outgoing stock at the item's FIFO
+ * layers or weighted average.
+ */
+function applyMovement(
+  balance: ItemBalance,
+  movement: Pick<
+    StockMovementDocument,
+    "type" | "quantity" | "location" | "toLocation" | "unitCost"
+  >,
+  costMethod: CostMethod
+): MovementCost {
+  const adjustLocation = (location: string, change: number) =>
+    balance.locations.set(
+      location,
+      roundQuantity((balance.locations.get(location) ?? 0) + change)
+    );
+  const averageCost =
+    balance.quantity > 0 ? balance.value / balance.quantity : 0;
+
+  if (movement.type === "transfer") {
+    adjustLocation(movement.location, -movement.quantity);
+    adjustLocation(movement.toLocation ?? DEFAULT_LOCATION, movement.quantity);
+    return { unitCost: roundAmount(averageCost), value: 0 };
+  }
+
+  adjustLocation(movement.location, movement.quantity);
+
+  if (movement.quantity > 0) {
+    const unitCost = movement.unitCost ?? roundAmount(averageCost);
+    const value = roundAmount(movement.quantity * unitCost);
+    balance.layers.push({ quantity: movement.quantity, unitCost });
+    balance.quantity = roundQuantity(balance.quantity + movement.quantity);
+    balance.value = roundAmount(balance.value + value);
+    return { unitCost, value };
+  }
+
+  const quantity = -movement.quantity;
+  const cost = costOutgoing(balance, quantity, costMethod);
+  balance.quantity = roundQuantity(balance.quantity - quantity);
+  balance.value = balance.quantity > 0 ? roundAmount(balance.value - cost) : 0;
+  return { unitCost: roundAmount(cost / quantity), value: -cost };
+}
+
+/**
+ * Replays the stock ledger in date order. Returns the closing balance of
+ * each item and the cost of each movement; voided movements are skipped.
+ */
+function replayMovements(
+  movements: StockMovementDocument[],
+  costMethods: Map<string, CostMethod>
+) {
+  const balances = new Map<string, ItemBalance>();
+  const costs = new Map<string, MovementCost>();
+
+  movements
+    .filter((movement) => !movement.voidedAt)
+    .sort(byMovementOrder)
+    .forEach((movement) => {
+      const key = movement.itemId.toString();
+      const balance = balances.get(key) ?? emptyBalance();
+      costs.set(
+        movement._id?.toString() ?? "",
+        applyMovement(balance, movement, costMethods.get(key) ?? "average")
+      );
+      balances.set(key, balance);
+    });
+
+  return { balances, costs };
+}
+
+function stockStatus(quantity: number, reorderLevel: number): StockStatus {
+  if (quantity <= 0) {
+    return "out_of_stock";
+  }
+  return quantity <= reorderLevel ? "low_stock" : "in_stock";
+}
+
+function toItemSummary(
+  doc: InventoryItemDocument,
+  balance: ItemBalance | undefined
+): InventoryItemSummary {
+  const quantityOnHand = balance?.quantity ?? 0;
+  const value = balance?.value ?? 0;
+  return {
+    id: doc._id?.toString() ?? "",
+    sku: doc.sku,
+    name: doc.name,
+    unit: doc.unit,
+    costMethod: doc.costMethod,
+    reorderLevel: doc.reorderLevel,
+    description: doc.description ?? null,
+    quantityOnHand,
+    averageCost: quantityOnHand > 0 ? roundAmount(value / quantityOnHand) : 0,
+    value,
+    status: stockStatus(quantityOnHand, doc.reorderLevel),
+    locations: Array.from(balance?.locations ?? [])
+      .filter(([, quantity]) => quantity !== 0)
+      .map(([location, quantity]) => ({ location, quantity }))
+      .sort((a, b) => a.location.localeCompare(b.location)),
+  };
+}
+
+function validateReorderLevel(value: number | null | undefined): number {
+  if (value === undefined || value === null) {
+    return 0;
+  }
+  if (!Number.isFinite(value) || value < 0) {
+    throw new InventoryValidationError("Reorder level must be zero or more.");
+  }
+  return roundQuantity(value);
+}
+
+function validateQuantity(value: number, label = "Quantity") {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new InventoryValidationError(`${label} must be greater than zero.`);
+  }
+  return roundQuantity(value);
+}
+
+function validateUnitCost(value: number | null | undefined) {
+  if (value === undefined || value === null || !Number.isFinite(value)) {
+    throw new InventoryValidationError("Unit cost is required.");
+  }
+  if (value < 0) {
+    throw new InventoryValidationError("Unit cost cannot be negative.");
+  }
+  return roundAmount(value);
+}
+
+function insufficientStock(
+  item: InventoryItemDocument,
+  location: string,
+  available: number
+) {
+  return new InventoryValidationError(
+    `Only ${available} ${item.unit} of ${item.sku} is on hand at ${location}.`
+  );
+}
+
+async function findItem(userId: ObjectId, id: string) {
+  if (!ObjectId.isValid(id)) {
+    throw new InventoryItemNotFoundError("Item not found.");
+  }
+  const collection = await getItemsCollection();
+  const item = await collection.findOne({ _id: new ObjectId(id), userId });
+  if (!item) {
+    throw new InventoryItemNotFoundError("Item not found.");
+  }
+  return item;
+}
+
+/** The item's active movements in ledger order and its closing balance. */
+async function loadItemLedger(userId: ObjectId, item: InventoryItemDocument) {
+  const collection = await getMovementsCollection();
+  const itemId = item._id as ObjectId;
+  const movements = await collection
+    .find({ userId, itemId, voidedAt: null })
+    .toArray();
+  const { balances } = replayMovements(
+    movements,
+    new Map([[itemId.toString(), item.costMethod]])
+  );
+  return {
+    movements: movements.sort(byMovementOrder),
+    balance: balances.get(itemId.toString()) ?? emptyBalance(),
+  };
+}
+
+export async function listItems(
+  userId: ObjectId
+): Promise<InventoryItemSummary[]> {
+  const [items, movements] = await Promise.all([
+    getItemsCollection().then((collection) =>
+      collection.find({ userId }).sort({ sku: 1 }).toArray()
+    ),
+    getMovementsCollection().then((collection) =>
+      collection.find({ userId, voidedAt: null }).toArray()
+    ),
+  ]);
+  const { balances } = replayMovements(
+    movements,
+    new Map(items.map((item) => [item._id.toString(), item.costMethod]))
+  );
+
+  return items.map((item) =>
+    toItemSummary(item, balances.get(item._id?.toString() ?? ""))
+  );
+}
+
+/** Headline figures of the inventory page. */
+export function summarizeItems(
+  items: InventoryItemSummary[]
+): InventoryTotals {
+  return items.reduce<InventoryTotals>(
+    (totals, item) => {
+      totals.totalItems += 1;
+      if (item.status === "low_stock") {
+        totals.lowStock += 1;
+      } else if (item.status === "out_of_stock") {
+        totals.outOfStock += 1;
+      }
+      totals.inventoryValue = roundAmount(totals.inventoryValue + item.value);
+      return totals;
+    },
+    { totalItems: 0, lowStock: 0, outOfStock: 0, inventoryValue: 0 }
+  );
+}
+
+export async function getItem(
+  userId: ObjectId,
+  id: string
+): Promise<InventoryItemSummary> {
+  const item = await findItem(userId, id);
+  const { balance } = await loadItemLedger(userId, item);
+  return toItemSummary(item, balance);
+}
+
+export async function createItem(
+  userId: ObjectId,
+  input: CreateItemInput
+): Promise<InventoryItemSummary> {
+  const sku = input.sku.trim().toUpperCase();
+  const name = input.name.trim();
+  if (!sku) {
+    throw new InventoryValidationError("SKU is required.");
+  }
+  if (!name) {
+    throw new InventoryValidationError("Item name is required.");
+  }
+  const reorderLevel = validateReorderLevel(input.reorderLevel);
+  const opening = input.openingStock
+    ? {
+        date: input.openingStock.date,
+        quantity: validateQuantity(
+          input.openingStock.quantity,
+          "Opening quantity"
+        ),
+        unitCost: validateUnitCost(input.openingStock.unitCost),
+        location: locationName(input.openingStock.location),
+      }
+    : null;
+
+  if (opening) {
+    await assertPeriodsOpen(userId, opening.date);
+  }
+
+  const collection = await getItemsCollection();
+  const duplicate = await collection.findOne(
+    { userId, sku },
+    { collation: { locale: "en", strength: 2 } }
+  );
+  if (duplicate) {
+    throw new InventoryValidationError(`SKU ${sku} is already in use.`);
+  }
+
+  const now = new Date();
+  const document: InventoryItemDocument = {
+    userId,
+    sku,
+    name,
+    unit: optionalText(input.unit) ?? "pcs",
+    costMethod: input.costMethod ?? "average",
+    reorderLevel,
+    description: optionalText(input.description),
+    createdAt: now,
+    updatedAt: now,
+  };
+  const { insertedId } = await collection.insertOne(document);
+
+  if (opening) {
+    // Stock on hand before the ledger started is funded by the owner
+    try {
+      await insertMovement(
+        userId,
+        { ...document, _id: insertedId },
+        {
+          type: "receipt",
+          date: opening.date,
+          quantity: opening.quantity,
+          location: opening.location,
+          unitCost: opening.unitCost,
+          offsetAccountCode: ACCOUNT_CODES.OWNER_EQUITY,
+          memo: "Opening stock",
+        }
+      );
+    } catch (error) {
+      await collection.deleteOne({ _id: insertedId, userId });
+      throw error;
+    }
+  }
+
+  return getItem(userId, insertedId.toString());
+}
+
+export async function updateItem(
+  userId: ObjectId,
+  id: string,
+  input: UpdateItemInput
+): Promise<InventoryItemSummary> {
+  const item = await findItem(userId, id);
+  const update: Partial<InventoryItemDocument> = { updatedAt: new Date() };
+
+  if (input.name !== undefined) {
+    const name = input.name.trim();
+    if (!name) {
+      throw new InventoryValidationError("Item name is required.");
+    }
+    update.name = name;
+  }
+  if (input.unit !== undefined) {
+    update.unit = optionalText(input.unit) ?? item.unit;
+  }
+  if (input.costMethod && input.costMethod !== item.costMethod) {
+    // Recorded movements were costed, and journaled, under the old method
+    const movements = await getMovementsCollection();
+    const recorded = await movements.countDocuments(
+      { userId, itemId: item._id, voidedAt: null },
+      { limit: 1 }
+    );
+    if (recorded) {
+      throw new InventoryValidationError(
+        "The cost method cannot change once stock has been recorded."
+      );
+    }
+    update.costMethod = input.costMethod;
+  }
+  if (input.reorderLevel !== undefined) {
+    update.reorderLevel = validateReorderLevel(input.reorderLevel);
+  }
+  if (input.description !== undefined) {
+    update.description = optionalText(input.description);
+  }
+
+  const collection = await getItemsCollection();
+  await collection.updateOne({ _id: item._id, userId }, { $set: update });
+  return getItem(userId, id);
+}
+
+/** Items can only be deleted while nothing has been recorded against them. */
+export async function deleteItem(userId: ObjectId, id: string) {
+  const item = await findItem(userId, id);
+  const movements = await getMovementsCollection();
+  const recorded = await movements.countDocuments(
+    { userId, itemId: item._id },
+    { limit: 1 }
+  );
+  if (recorded) {
+    throw new InventoryValidationError(
+      "Items with stock movements cannot be deleted."
+    );
+  }
+  const collection = await getItemsCollection();
+  await collection.deleteOne({ _id: item._id, userId });
+}
+
+export async function listMovements(
+  userId: ObjectId,
+  options: { itemId?: string | null } = {}
+): Promise<StockMovementSummary[]> {
+  if (options.itemId && !ObjectId.isValid(options.itemId)) {
+    throw new InventoryItemNotFoundError("Item not found.");
+  }
+
+  const [items, movements] = await Promise.all([
+    getItemsCollection().then((collection) =>
+      collection
+        .find(
+          { userId },
+          { projection: { sku: 1, name: 1, costMethod: 1 } }
+        )
+        .toArray()
+    ),
+    getMovementsCollection().then((collection) =>
+      collection.find({ userId, voidedAt: null }).toArray()
+    ),
+  ]);
+  const itemsById = new Map(items.map((item) => [item._id.toString(), item]));
+  // Costs depend on every earlier movement of the item, so replay them all
+  const { costs } = replayMovements(
+    movements,
+    new Map(items.map((item) => [item._id.toString(), item.costMethod]))
+  );
+
+  return movements
+    .filter(
+      (movement) =>
+        !options.itemId || movement.itemId.toString() === options.itemId
+    )
+    .sort(
+      (a, b) =>
+        b.date.getTime() - a.date.getTime() ||
+        b.createdAt.getTime() - a.createdAt.getTime()
+    )
+    .map((movement) => {
+      const id = movement._id?.toString() ?? "";
+      const item = itemsById.get(movement.itemId.toString());
+      const costing = costs.get(id);
+      return {
+        id,
+        itemId: movement.itemId.toString(),
+        sku: item?.sku ?? "",
+        itemName: item?.name ?? "Unknown item",
+        type: movement.type,
+        date: movement.date.toISOString(),
+        quantity: movement.quantity,
+        location: movement.location,
+        toLocation: movement.toLocation ?? null,
+        unitCost: costing?.unitCost ?? 0,
+        value: costing?.value ?? 0,
+        reference: movement.reference ?? null,
+        memo: movement.memo ?? null,
+      };
+    });
+}
+
+type MovementDraft = Pick<
+  StockMovementDocument,
+  "type" | "date" | "quantity" | "location" | "toLocation" | "unitCost"
+> & {
+  offsetAccountCode?: string | null;
+  reference?: string | null;
+  memo?: string | null;
+};
+
+const MOVEMENT_LABELS: Record<MovementType, string> = {
+  receipt: "Stock receipt",
+  issue: "Stock issue",
+  adjustment: "Stock adjustment",
+  transfer: "Stock transfer",
+};
+
+async function resolveOffsetAccount(
+  userId: ObjectId,
+  type: Exclude<MovementType, "transfer">,
+  code: string | null | undefined
+) {
+  const accountCode = optionalText(code) ?? DEFAULT_OFFSET_ACCOUNTS[type];
+  const chart = await loadChartOfAccounts(userId);
+  if (!getAccountDefinition(accountCode, chart)) {
+    throw new InventoryValidationError(`Account ${accountCode} not found.`);
+  }
+  if (isWithinAccount(accountCode, ACCOUNT_CODES.INVENTORY, chart)) {
+    throw new InventoryValidationError(
+      "Stock cannot be posted against the inventory account itself."
+    );
+  }
+  return accountCode;
+}
+
+/**
+ * Costs a validated movement against the item's ledger, stores it and, unless
+ * it belongs to a finance transaction, journals its value against account
+ * 1200. Movements must be recorded in date order so that the value fixed
+ * here is the one every later replay of the ledger arrives at.
+ */
+async function insertMovement(
+  userId: ObjectId,
+  item: InventoryItemDocument,
+  draft: MovementDraft,
+  transactionId: ObjectId | null = null
+): Promise<StockMovementDocument> {
+  const { movements, balance } = await loadItemLedger(userId, item);
+
+  const latest = movements[movements.length - 1];
+  if (latest && draft.date.getTime() < latest.date.getTime()) {
+    throw new InventoryValidationError(
+      `${item.sku} already has stock movements up to ` +
+        `${toCalendarDate(latest.date)}; date this one on or after it.`
+    );
+  }
+
+  const outgoing =
+    draft.type === "transfer" ? draft.quantity : Math.max(-draft.quantity, 0);
+  const available = balance.locations.get(draft.location) ?? 0;
+  if (outgoing > available) {
+    throw insufficientStock(item, draft.location, available);
+  }
+
+  const offsetAccountCode =
+    draft.type === "transfer" || transactionId
+      ? null
+      : await resolveOffsetAccount(userId, draft.type, draft.offsetAccountCode);
+
+  await assertPeriodsOpen(userId, draft.date);
+
+  const cost = applyMovement(balance, draft, item.costMethod);
+  const document: StockMovementDocument = {
+    userId,
+    itemId: item._id as ObjectId,
+    type: draft.type,
+    date: draft.date,
+    quantity: draft.quantity,
+    location: draft.location,
+    toLocation: draft.toLocation ?? null,
+    unitCost: cost.unitCost,
+    value: cost.value,
+    offsetAccountCode,
+    reference: optionalText(draft.reference),
+    memo: optionalText(draft.memo),
+    journalEntryId: null,
+    transactionId,
+    voidedAt: null,
+    createdAt: new Date(),
+  };
+
+  const collection = await getMovementsCollection();
+  const { insertedId } = await collection.insertOne(document);
+  document._id = insertedId;
+
+  if (!offsetAccountCode || cost.value === 0) {
+    return document;
+  }
+
+  const amount = Math.abs(cost.value);
+  const description = `${MOVEMENT_LABELS[draft.type]} ${item.sku} - ${item.name}`;
+  const inventoryLine = {
+    accountCode: ACCOUNT_CODES.INVENTORY,
+    description: document.memo ?? description,
+  };
+  const offsetLine = {
+    accountCode: offsetAccountCode,
+    description: document.memo ?? description,
+  };
+
+  try {
+    const entry = await postJournal(userId, {
+      referenceId: `${STOCK_REFERENCE_PREFIX}${insertedId.toString()}`,
+      date: draft.date,
+      memo: description,
+      lines:
+        cost.value > 0
+          ? [
+              { ...inventoryLine, debit: amount },
+              { ...offsetLine, credit: amount },
+            ]
+          : [
+              { ...offsetLine, debit: amount },
+              { ...inventoryLine, credit: amount },
+            ],
+    });
+    document.journalEntryId = entry._id ?? null;
+    await collection.updateOne(
+      { _id: insertedId, userId },
+      { $set: { journalEntryId: document.journalEntryId } }
+    );
+  } catch (error) {
+    await collection.deleteOne({ _id: insertedId, userId });
+    throw error;
+  }
+
+  return document;
+}
+
+export async function recordMovement(
+  userId: ObjectId,
+  input: RecordMovementInput
+): Promise<InventoryItemSummary> {
+  const item = await findItem(userId, input.itemId);
+  const draft: MovementDraft = {
+    type: input.type,
+    date: input.date,
+    quantity: 0,
+    location: locationName(input.location),
+    toLocation: null,
+    unitCost: null,
+    offsetAccountCode: input.offsetAccountCode,
+    reference: input.reference,
+    memo: input.memo,
+  };
+
+  if (input.type === "receipt") {
+    draft.quantity = validateQuantity(input.quantity);
+    draft.unitCost = validateUnitCost(input.unitCost);
+  } else if (input.type === "issue") {
+    draft.quantity = -validateQuantity(input.quantity);
+  } else if (input.type === "transfer") {
+    const toLocation = optionalText(input.toLocation);
+    if (!toLocation || toLocation === draft.location) {
+      throw new InventoryValidationError(
+        "Transfers need a destination different from the source location."
+      );
+    }
+    draft.quantity = validateQuantity(input.quantity);
+    draft.toLocation = toLocation;
+  } else {
+    const quantity = roundQuantity(input.quantity);
+    if (!Number.isFinite(quantity) || quantity === 0) {
+      throw new InventoryValidationError(
+        "Adjustment quantity must not be zero."
+      );
+    }
+    draft.quantity = quantity;
+    // Stock found on a count is valued at the given cost, else the average
+    if (quantity > 0 && input.unitCost != null) {
+      draft.unitCost = validateUnitCost(input.unitCost);
+    }
+  }
+
+  await insertMovement(userId, item, draft);
+  return getItem(userId, input.itemId);
+}
+
+export type TransactionMovementInput = {
+  itemId: string;
+  /** Receipts for purchases, issues for cost of goods sold. */
+  type: "receipt" | "issue";
+  date: Date;
+  quantity: number;
+  /** Total paid for a receipt; issues are valued from the ledger. */
+  amount?: number | null;
+  reference?: string | null;
+};
+
+/**
+ * Records the stock side of a finance transaction. The movement posts no
+ * journal of its own; the caller books the returned value against account
+ * 1200 in the transaction's journal.
+ */
+export async function recordTransactionMovement(
+  userId: ObjectId,
+  transactionId: ObjectId,
+  input: TransactionMovementInput
+): Promise<{ id: ObjectId; value: number }> {
+  const item = await findItem(userId, input.itemId);
+  const quantity = validateQuantity(input.quantity);
+  let unitCost: number | null = null;
+  if (input.type === "receipt") {
+    const amount = input.amount ?? Number.NaN;
+    if (!Number.isFinite(amount) || amount < 0) {
+      throw new InventoryValidationError("Purchase amount is required.");
+    }
+    // Left unrounded so the receipt is valued at exactly the amount paid
+    unitCost = amount / quantity;
+  }
+
+  const movement = await insertMovement(
+    userId,
+    item,
+    {
+      type: input.type,
+      // Ledger dates are calendar days; transactions also carry a time
+      date: new Date(
+        input.date.getFullYear(),
+        input.date.getMonth(),
+        input.date.getDate()
+      ),
+      quantity: input.type === "receipt" ? quantity : -quantity,
+      location: DEFAULT_LOCATION,
+      toLocation: null,
+      unitCost,
+      reference: input.reference,
+    },
+    transactionId
+  );
+  return { id: movement._id as ObjectId, value: movement.value ?? 0 };
+}
+
+/**
+ * Voids the movement recorded with a finance transaction. Only the item's
+ * latest movement can go, since later ones were costed on top of it.
+ */
+export async function voidTransactionMovement(
+  userId: ObjectId,
+  transactionId: ObjectId
+) {
+  const collection = await getMovementsCollection();
+  const movement = await collection.findOne({
+    userId,
+    transactionId,
+    voidedAt: null,
+  });
+  if (!movement) {
+    return;
+  }
+
+  const item = await findItem(userId, movement.itemId.toString());
+  const { movements } = await loadItemLedger(userId, item);
+  const latest = movements[movements.length - 1];
+  if (latest && !latest._id?.equals(movement._id as ObjectId)) {
+    throw new InventoryValidationError(
+      `Later stock movements of ${item.sku} were costed on this one; ` +
+        "reverse them first."
+    );
+  }
+
+  await collection.updateOne(
+    { _id: movement._id, userId },
+    { $set: { voidedAt: new Date() } }
+  );
+}
@@ -0,0 +1,121 @@
+import {
+  ACCOUNT_CODES,
+  getAccountDefinition,
+  type ChartOfAccounts,
+} from "./chart-of-accounts";
+
+export type JournalLineDocument = {
+  accountCode: string;
+  debit: number;
+  credit: number;
+  description?: string;
+  /** PPN lines: the tax code charged and the base it was charged on. */
+  taxCode?: string;
+  taxBase?: number;
+};
+
+export type JournalDraftLine = {
+  accountCode: string;
+  debit?: number;
+  credit?: number;
+  description?: string;
+  taxCode?: string;
+  taxBase?: number;
+};
+
+export class JournalValidationError extends Error {}
+
+/**
+ * Validate draft lines against the chart and return them with numeric
+ * amounts. Shared by the journal API and the manual entry form, so both
+ * report the same messages. Closing entries pass `allowInactiveAccounts`
+ * because they only clear balances that were already posted.
+ */
+export function normaliseJournalLines(
+  lines: JournalDraftLine[],
+  chart: ChartOfAccounts,
+  options: { allowInactiveAccounts?: boolean } = {}
+): JournalLineDocument[] {
+  if (!lines.length) {
+    throw new JournalValidationError("Journal must contain at least one line.");
+  }
+
+  const normalisedLines = lines.map((line) => {
+    const account = getAccountDefinition(line.accountCode, chart);
+    if (!account) {
+      throw new JournalValidationError(
+        `Account ${line.accountCode} is not defined in chart of accounts.`
+      );
+    }
+    if (account.isActive === false && !options.allowInactiveAccounts) {
+      throw new JournalValidationError(
+        `Account ${line.accountCode} is inactive and cannot receive postings.`
+      );
+    }
+
+    const debit = Number(line.debit ?? 0);
+    const credit = Number(line.credit ?? 0);
+
+    if (debit < 0 || credit < 0) {
+      throw new JournalValidationError(
+        "Debit and credit amounts cannot be negative."
+      );
+    }
+
+    if (debit === 0 && credit === 0) {
+      throw new JournalValidationError(
+        "Each line must contain a debit or credit."
+      );
+    }
+
+    if (debit > 0 && credit > 0) {
+      throw new JournalValidationError(
+        "A single line cannot contain both debit and credit values."
+      );
+    }
+
+    // The PPN report adds up these tags, so they only go on VAT lines
+    const isTagged = line.taxCode !== undefined || line.taxBase !== undefined;
+    const taxBase = Number(line.taxBase);
+    if (isTagged) {
+      if (
+        line.accountCode !== ACCOUNT_CODES.INPUT_VAT &&
+        line.accountCode !== ACCOUNT_CODES.OUTPUT_VAT
+      ) {
+        throw new JournalValidationError(
+          "Tax codes can only be set on lines posted to input or output VAT."
+        );
+      }
+      if (!line.taxCode) {
+        throw new JournalValidationError("VAT lines need a tax code.");
+      }
+      if (!Number.isFinite(taxBase) || taxBase < 0) {
+        throw new JournalValidationError(
+          "The tax base of a VAT line must be zero or more."
+        );
+      }
+    }
+
+    return {
+      accountCode: line.accountCode,
+      debit,
+      credit,
+      description: line.description,
+      ...(isTagged ? { taxCode: line.taxCode, taxBase } : {}),
+    } satisfies JournalLineDocument;
+  });
+
+  const totalDebit = normalisedLines.reduce((sum, line) => sum + line.debit, 0);
+  const totalCredit = normalisedLines.reduce(
+    (sum, line) => sum + line.credit,
+    0
+  );
+
+  if (Math.abs(totalDebit - totalCredit) > 0.005) {
+    throw new JournalValidationError(
+      `Journal is out of balance. Debit ${totalDebit} vs Credit ${totalCredit}.`
+    );
+  }
+
+  return normalisedLines;
+}
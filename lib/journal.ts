@@ -7,6 +7,16 @@ import {
   type JournalTemplate,
 } from "./transaction-presets";
 import { getAccountDefinition } from "./chart-of-accounts";
+import { loadChartOfAccounts } from "./accounts";
+import {
+  JournalValidationError,
+  normaliseJournalLines,
+  type JournalDraftLine,
+  type JournalLineDocument,
+} from "./journal-schema";
+
+export { JournalValidationError };
+export type { JournalDraftLine, JournalLineDocument };
 
 export type JournalEntryDocument = {
   _id?: ObjectId;
@@ -15,95 +25,39 @@ export type JournalEntryDocument = {
   date: Date;
   memo?: string;
   lines: Array<JournalLineDocument>;
+  /** Set on a reversing entry: the entry it cancels out. */
+  reversesEntryId?: ObjectId;
+  /** Set on an entry once it has been reversed. */
+  reversedByEntryId?: ObjectId;
+  /** Set on a correcting entry: the reversed entry it replaces. */
+  correctsEntryId?: ObjectId;
+  /**
+   * Month key (YYYY-MM) of the period this entry closes. Closing entries and
+   * their reversals move revenue and expense into retained earnings and are
+   * left out of income figures.
+   */
+  closesPeriod?: string;
   createdAt: Date;
   updatedAt: Date;
 };
 
-export type JournalLineDocument = {
-  accountCode: string;
-  debit: number;
-  credit: number;
-  description?: string;
-};
-
-export type JournalDraftLine = {
-  accountCode: string;
-  debit?: number;
-  credit?: number;
-  description?: string;
-};
-
 export type JournalDraft = {
   referenceId?: string;
   date: Date;
   memo?: string;
   lines: JournalDraftLine[];
+  correctsEntryId?: ObjectId;
+  closesPeriod?: string;
 };
 
-export class JournalValidationError extends Error {}
-
-function normaliseLines(lines: JournalDraftLine[]): JournalLineDocument[] {
-  if (!lines.length) {
-    throw new JournalValidationError("Journal must contain at least one line.");
-  }
-
-  const normalisedLines = lines.map((line) => {
-    const account = getAccountDefinition(line.accountCode);
-    if (!account) {
-      throw new JournalValidationError(
-        `Account ${line.accountCode} is not defined in chart of accounts.`
-      );
-    }
-
-    const debit = Number(line.debit ?? 0);
-    const credit = Number(line.credit ?? 0);
-
-    if (debit < 0 || credit < 0) {
-      throw new JournalValidationError(
-        "Debit and credit amounts cannot be negative."
-      );
-    }
-
-    if (debit === 0 && credit === 0) {
-      throw new JournalValidationError(
-        "Each line must contain a debit or credit."
-      );
-    }
-
-    if (debit > 0 && credit > 0) {
-      throw new JournalValidationError(
-        "A single line cannot contain both debit and credit values."
-      );
-    }
-
-    return {
-      accountCode: line.accountCode,
-      debit,
-      credit,
-      description: line.description,
-    } satisfies JournalLineDocument;
-  });
-
-  const totalDebit = normalisedLines.reduce((sum, line) => sum + line.debit, 0);
-  const totalCredit = normalisedLines.reduce(
-    (sum, line) => sum + line.credit,
-    0
-  );
-
-  if (Math.abs(totalDebit - totalCredit) > 0.005) {
-    throw new JournalValidationError(
-      `Journal is out of balance. Debit ${totalDebit} vs Credit ${totalCredit}.`
-    );
-  }
-
-  return normalisedLines;
-}
-
 export async function postJournal(
   userId: ObjectId,
   draft: JournalDraft
 ): Promise<JournalEntryDocument> {
-  const normalisedLines = normaliseLines(draft.lines);
+  const chart = await loadChartOfAccounts(userId);
+  const normalisedLines = normaliseJournalLines(draft.lines, chart, {
+    allowInactiveAccounts: Boolean(draft.closesPeriod),
+  });
 
   const entry: JournalEntryDocument = {
     userId,
@@ -111,6 +65,10 @@ export async function postJournal(
     date: draft.date,
     memo: draft.memo,
     lines: normalisedLines,
+    ...(draft.correctsEntryId
+      ? { correctsEntryId: draft.correctsEntryId }
+      : {}),
+    ...(draft.closesPeriod ? { closesPeriod: draft.closesPeriod } : {}),
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -132,7 +90,8 @@ export async function replaceJournal(
   userId: ObjectId,
   draft: JournalDraft
 ): Promise<JournalEntryDocument> {
-  const normalisedLines = normaliseLines(draft.lines);
+  const chart = await loadChartOfAccounts(userId);
+  const normalisedLines = normaliseJournalLines(draft.lines, chart);
 
   const client = await clientPromise;
   const db = client.db(process.env.MONGODB_DB ?? "cloud-erp");
@@ -176,6 +135,97 @@ export async function deleteJournal(
   }
 }
 
+/**
+ * Cancel a posted entry with a mirror-image entry, leaving the original
+ * untouched apart from the link to its reversal. The reversal is dated with
+ * the original unless `options.date` says otherwise, e.g. the date of the
+ * correction it pairs with. The lines are copied as posted, so accounts
+ * deactivated since then do not block it.
+ */
+export async function reverseJournal(
+  entryId: ObjectId,
+  userId: ObjectId,
+  options: { date?: Date } = {}
+): Promise<JournalEntryDocument> {
+  const client = await clientPromise;
+  const db = client.db(process.env.MONGODB_DB ?? "cloud-erp");
+  const collection = db.collection<JournalEntryDocument>("journal_entries");
+
+  const original = await collection.findOne({ _id: entryId, userId });
+
+  if (!original) {
+    throw new JournalValidationError("Journal entry not found for reversal.");
+  }
+  if (original.reversedByEntryId) {
+    throw new JournalValidationError("Journal entry is already reversed.");
+  }
+
+  const now = new Date();
+  const reversal: JournalEntryDocument = {
+    userId,
+    referenceId: original.referenceId,
+    date: options.date ?? original.date,
+    memo: original.memo ? `Reversal: ${original.memo}` : "Reversal",
+    lines: original.lines.map((line) => ({
+      accountCode: line.accountCode,
+      debit: line.credit,
+      credit: line.debit,
+      description: line.description,
+      ...(line.taxCode
+        ? { taxCode: line.taxCode, taxBase: line.taxBase ?? 0 }
+        : {}),
+    })),
+    reversesEntryId: entryId,
+    ...(original.closesPeriod ? { closesPeriod: original.closesPeriod } : {}),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const { insertedId } = await collection.insertOne(reversal);
+
+  const linked = await collection.updateOne(
+    { _id: entryId, userId, reversedByEntryId: { $exists: false } },
+    { $set: { reversedByEntryId: insertedId, updatedAt: now } }
+  );
+
+  if (linked.matchedCount === 0) {
+    // Another request reversed it first; drop the duplicate
+    await collection.deleteOne({ _id: insertedId });
+    throw new JournalValidationError("Journal entry is already reversed.");
+  }
+
+  return {
+    ...reversal,
+    _id: insertedId,
+  };
+}
+
+/**
+ * Undo `reverseJournal` when the change it was part of fails: drop the
+ * reversing entry and clear the link, so the original counts again.
+ */
+export async function cancelReversal(
+  reversalId: ObjectId,
+  userId: ObjectId
+): Promise<void> {
+  const client = await clientPromise;
+  const db = client.db(process.env.MONGODB_DB ?? "cloud-erp");
+  const collection = db.collection<JournalEntryDocument>("journal_entries");
+
+  const reversal = await collection.findOneAndDelete({
+    _id: reversalId,
+    userId,
+    reversesEntryId: { $exists: true },
+  });
+
+  if (reversal?.reversesEntryId) {
+    await collection.updateOne(
+      { _id: reversal.reversesEntryId, userId, reversedByEntryId: reversalId },
+      { $unset: { reversedByEntryId: "" }, $set: { updatedAt: new Date() } }
+    );
+  }
+}
+
 export function buildJournalFromPreset(options: {
   presetKey: string;
   date: Date;
@@ -0,0 +1,475 @@
+import { ObjectId } from "mongodb";
+
+import clientPromise from "./mongodb";
+import type { JournalEntryDocument } from "./journal";
+import {
+  getAccountDefinition,
+  isCashAccount,
+  isWithinAccount,
+  type AccountType,
+  type CashFlowCategory,
+  type ChartOfAccounts,
+} from "./chart-of-accounts";
+import { loadChartOfAccounts } from "./accounts";
+
+const DEFAULT_DB_NAME = process.env.MONGODB_DB ?? "cloud-erp";
+
+/**
+ * Date window for ledger queries. `start` is inclusive and `end` is
+ * exclusive, matching the period ranges produced by `getPeriodRange`.
+ * Income figures set `excludeClosingEntries` so closed months still report
+ * their revenue and expenses.
+ */
+export type LedgerRange = {
+  start?: Date;
+  end?: Date;
+  excludeClosingEntries?: boolean;
+};
+
+export type AccountBalance = {
+  code: string;
+  name: string;
+  type: AccountType;
+  debit: number;
+  credit: number;
+  /** Balance expressed on the account's normal side (debit for assets and expenses). */
+  balance: number;
+};
+
+export type AccountBalances = Record<string, AccountBalance>;
+
+const DEBIT_NORMAL_TYPES: AccountType[] = ["asset", "expense"];
+
+function toNumber(value: unknown): number {
+  const result =
+    typeof value === "number" ? value : parseFloat(String(value ?? 0));
+  return Number.isFinite(result) ? result : 0;
+}
+
+function buildDateMatch(range: LedgerRange): Record<string, unknown> {
+  const match: Record<string, unknown> = {};
+  const date: Record<string, Date> = {};
+  if (range.start) {
+    date.$gte = range.start;
+  }
+  if (range.end) {
+    date.$lt = range.end;
+  }
+  if (Object.keys(date).length) {
+    match.date = date;
+  }
+  if (range.excludeClosingEntries) {
+    match.closesPeriod = { $exists: false };
+  }
+  return match;
+}
+
+export function isClosingEntry(entry: JournalEntryDocument): boolean {
+  return Boolean(entry.closesPeriod);
+}
+
+export function isDebitNormal(type: AccountType): boolean {
+  return DEBIT_NORMAL_TYPES.includes(type);
+}
+
+export function signedBalance(
+  type: AccountType,
+  debit: number,
+  credit: number
+): number {
+  return isDebitNormal(type) ? debit - credit : credit - debit;
+}
+
+function createEmptyBalances(chart: ChartOfAccounts): AccountBalances {
+  const balances: AccountBalances = {};
+  Object.values(chart).forEach((account) => {
+    balances[account.code] = {
+      code: account.code,
+      name: account.name,
+      type: account.type,
+      debit: 0,
+      credit: 0,
+      balance: 0,
+    };
+  });
+  return balances;
+}
+
+export async function fetchJournalEntries(
+  userId: ObjectId,
+  range: LedgerRange = {}
+): Promise<JournalEntryDocument[]> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+
+  return db
+    .collection<JournalEntryDocument>("journal_entries")
+    .find({ userId, ...buildDateMatch(range) })
+    .sort({ date: 1, _id: 1 })
+    .toArray();
+}
+
+/** Dates of the earliest and latest journal entries, or null without any. */
+export async function fetchJournalDateBounds(
+  userId: ObjectId
+): Promise<{ first: Date; last: Date } | null> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+
+  const [bounds] = await db
+    .collection<JournalEntryDocument>("journal_entries")
+    .aggregate<{ first: Date; last: Date }>([
+      { $match: { userId } },
+      {
+        $group: {
+          _id: null,
+          first: { $min: "$date" },
+          last: { $max: "$date" },
+        },
+      },
+    ])
+    .toArray();
+
+  return bounds ? { first: bounds.first, last: bounds.last } : null;
+}
+
+/** Lines posted to a code that is not in the user's chart of accounts. */
+export type UnknownAccountTotal = {
+  code: string;
+  debit: number;
+  credit: number;
+};
+
+export type LedgerBalances = {
+  balances: AccountBalances;
+  unknownAccounts: UnknownAccountTotal[];
+};
+
+/**
+ * Sum every journal line per account code inside the range. All accounts of
+ * the user's chart are present in `balances`, with zero totals when nothing
+ * posted. Lines on codes missing from the chart cannot be typed, so they are
+ * returned separately in `unknownAccounts` rather than dropped.
+ */
+export async function fetchLedgerBalances(
+  userId: ObjectId,
+  range: LedgerRange = {}
+): Promise<LedgerBalances> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+
+  const [chart, aggregates] = await Promise.all([
+    loadChartOfAccounts(userId),
+    db
+      .collection<JournalEntryDocument>("journal_entries")
+      .aggregate([
+        { $match: { userId, ...buildDateMatch(range) } },
+        { $unwind: "$lines" },
+        {
+          $group: {
+            _id: "$lines.accountCode",
+            debit: { $sum: "$lines.debit" },
+            credit: { $sum: "$lines.credit" },
+          },
+        },
+      ])
+      .toArray(),
+  ]);
+
+  const balances = createEmptyBalances(chart);
+  const unknownAccounts: UnknownAccountTotal[] = [];
+
+  aggregates.forEach((aggregate) => {
+    const code = typeof aggregate._id === "string" ? aggregate._id : "";
+    const account = code ? getAccountDefinition(code, chart) : null;
+    const debit = toNumber(aggregate.debit);
+    const credit = toNumber(aggregate.credit);
+
+    if (!account) {
+      unknownAccounts.push({ code: code || "(none)", debit, credit });
+      return;
+    }
+
+    balances[code] = {
+      code,
+      name: account.name,
+      type: account.type,
+      debit,
+      credit,
+      balance: signedBalance(account.type, debit, credit),
+    };
+  });
+
+  unknownAccounts.sort((a, b) => a.code.localeCompare(b.code));
+
+  return { balances, unknownAccounts };
+}
+
+/**
+ * Per-account balances of the user's chart inside the range. Postings to
+ * unknown codes are logged; use `fetchLedgerBalances` to report them.
+ */
+export async function fetchAccountBalances(
+  userId: ObjectId,
+  range: LedgerRange = {}
+): Promise<AccountBalances> {
+  const { balances, unknownAccounts } = await fetchLedgerBalances(
+    userId,
+    range
+  );
+
+  if (unknownAccounts.length) {
+    const codes = unknownAccounts.map((account) => account.code).join(", ");
+    console.warn(`Journal lines post to accounts missing from chart: ${codes}`);
+  }
+
+  return balances;
+}
+
+export function sumBalancesByType(
+  balances: AccountBalances,
+  type: AccountType
+): number {
+  return Object.values(balances)
+    .filter((balance) => balance.type === type)
+    .reduce((sum, balance) => sum + balance.balance, 0);
+}
+
+export function netIncomeFromBalances(balances: AccountBalances): number {
+  return (
+    sumBalancesByType(balances, "revenue") -
+    sumBalancesByType(balances, "expense")
+  );
+}
+
+export function cashBalanceFromBalances(
+  balances: AccountBalances,
+  chart: ChartOfAccounts
+): number {
+  return Object.values(balances)
+    .filter((balance) => isCashAccount(balance.code, chart))
+    .reduce((sum, balance) => sum + balance.balance, 0);
+}
+
+/** Balance of an account together with all of its sub-accounts. */
+export function balanceWithSubAccounts(
+  balances: AccountBalances,
+  accountCode: string,
+  chart: ChartOfAccounts
+): number {
+  return Object.values(balances)
+    .filter((balance) => isWithinAccount(balance.code, accountCode, chart))
+    .reduce((sum, balance) => sum + balance.balance, 0);
+}
+
+/** Net debit to cash accounts carried by a single journal entry. */
+export function cashMovement(
+  entry: JournalEntryDocument,
+  chart: ChartOfAccounts
+): number {
+  return entry.lines
+    .filter((line) => isCashAccount(line.accountCode, chart))
+    .reduce((sum, line) => sum + line.debit - line.credit, 0);
+}
+
+/**
+ * The non-cash side of a cash entry decides its cash flow section: any
+ * investing or financing counter account wins, everything else is operating.
+ */
+export function classifyCashEntry(
+  entry: JournalEntryDocument,
+  chart: ChartOfAccounts
+): Exclude<CashFlowCategory, "non-cash"> {
+  const categories = entry.lines
+    .filter((line) => !isCashAccount(line.accountCode, chart))
+    .map(
+      (line) => getAccountDefinition(line.accountCode, chart)?.cashFlowCategory
+    );
+
+  if (categories.includes("investing")) {
+    return "investing";
+  }
+  if (categories.includes("financing")) {
+    return "financing";
+  }
+  return "operating";
+}
+
+/** Largest non-cash line of an entry, used to label cash flow rows. */
+export function primaryCounterAccount(
+  entry: JournalEntryDocument,
+  chart: ChartOfAccounts
+): string | null {
+  const counterLines = entry.lines
+    .filter((line) => !isCashAccount(line.accountCode, chart))
+    .sort(
+      (a, b) => Math.max(b.debit, b.credit) - Math.max(a.debit, a.credit)
+    );
+  return counterLines[0]?.accountCode ?? null;
+}
+
+export type AccountLedgerLine = {
+  entryId: string;
+  referenceId?: string;
+  date: string;
+  memo?: string;
+  description?: string;
+  debit: number;
+  credit: number;
+  runningBalance: number;
+};
+
+export type AccountLedger = {
+  account: {
+    code: string;
+    name: string;
+    type: AccountType;
+  };
+  range: {
+    start: string;
+    end: string;
+  };
+  openingBalance: number;
+  lines: AccountLedgerLine[];
+  totals: {
+    debit: number;
+    credit: number;
+  };
+  closingBalance: number;
+};
+
+/**
+ * Every journal line posted to one account inside the range, with the
+ * balance carried in from before the range and a running balance per line.
+ */
+export async function buildAccountLedger(
+  userId: ObjectId,
+  accountCode: string,
+  range: { start: Date; end: Date }
+): Promise<AccountLedger | null> {
+  const chart = await loadChartOfAccounts(userId);
+  const account = getAccountDefinition(accountCode, chart);
+  if (!account) {
+    return null;
+  }
+
+  const [openingBalances, entries] = await Promise.all([
+    fetchAccountBalances(userId, { end: range.start }),
+    fetchJournalEntries(userId, range),
+  ]);
+
+  const openingBalance = openingBalances[accountCode]?.balance ?? 0;
+  let runningBalance = openingBalance;
+  let totalDebit = 0;
+  let totalCredit = 0;
+
+  const lines: AccountLedgerLine[] = [];
+
+  entries.forEach((entry) => {
+    entry.lines
+      .filter((line) => line.accountCode === accountCode)
+      .forEach((line) => {
+        const debit = toNumber(line.debit);
+        const credit = toNumber(line.credit);
+        totalDebit += debit;
+        totalCredit += credit;
+        runningBalance += signedBalance(account.type, debit, credit);
+
+        lines.push({
+          entryId: entry._id?.toString() ?? "",
+          referenceId: entry.referenceId,
+          date: new Date(entry.date).toISOString(),
+          memo: entry.memo,
+          description: line.description,
+          debit,
+          credit,
+          runningBalance,
+        });
+      });
+  });
+
+  return {
+    account: {
+      code: account.code,
+      name: account.name,
+      type: account.type,
+    },
+    range: {
+      start: range.start.toISOString(),
+      end: range.end.toISOString(),
+    },
+    openingBalance,
+    lines,
+    totals: {
+      debit: totalDebit,
+      credit: totalCredit,
+    },
+    closingBalance: runningBalance,
+  };
+}
+
+export type TrialBalanceRow = {
+  code: string;
+  name: string;
+  type: AccountType;
+  debit: number;
+  credit: number;
+  balance: number;
+};
+
+export type TrialBalance = {
+  asOf: string;
+  rows: TrialBalanceRow[];
+  /** Postings to codes missing from the chart; counted in the totals. */
+  unknownAccounts: UnknownAccountTotal[];
+  totals: {
+    debit: number;
+    credit: number;
+    difference: number;
+  };
+  isBalanced: boolean;
+};
+
+/**
+ * Total debits and credits per chart account up to (excluding) `asOf`. A
+ * trial balance with postings to unknown accounts is never reported as
+ * balanced, even when its debits and credits agree.
+ */
+export function buildTrialBalance(
+  balances: AccountBalances,
+  asOf: Date,
+  unknownAccounts: UnknownAccountTotal[] = []
+): TrialBalance {
+  const rows = Object.values(balances)
+    .map((balance) => ({
+      code: balance.code,
+      name: balance.name,
+      type: balance.type,
+      debit: balance.debit,
+      credit: balance.credit,
+      balance: balance.balance,
+    }))
+    .sort((a, b) => a.code.localeCompare(b.code));
+
+  const debit = [...rows, ...unknownAccounts].reduce(
+    (sum, row) => sum + row.debit,
+    0
+  );
+  const credit = [...rows, ...unknownAccounts].reduce(
+    (sum, row) => sum + row.credit,
+    0
+  );
+  const difference = debit - credit;
+
+  return {
+    asOf: asOf.toISOString(),
+    rows,
+    unknownAccounts,
+    totals: {
+      debit,
+      credit,
+      difference,
+    },
+    isBalanced: Math.abs(difference) < 0.01 && !unknownAccounts.length,
+  };
+}
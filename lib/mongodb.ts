@@ -1,4 +1,11 @@
-import { MongoClient } from "mongodb";
+import {
+  MongoClient,
+  MongoServerError,
+  type Collection,
+  type CreateIndexesOptions,
+  type Document,
+  type IndexSpecification,
+} from "mongodb";
 
 const uri = process.env.MONGODB_URI;
 
@@ -43,4 +50,35 @@ if (process.env.NODE_ENV === "development") {
   clientPromise = client.connect();
 }
 
+const ensuredIndexes = new Map<string, Promise<void>>();
+
+/**
+ * Create an index once per process before the collection is used. A failure,
+ * usually duplicates stored before the index existed, is logged and leaves
+ * the collection usable without it.
+ */
+export function ensureIndex<T extends Document>(
+  collection: Collection<T>,
+  spec: IndexSpecification,
+  options: CreateIndexesOptions = {}
+): Promise<void> {
+  const key = `${collection.collectionName}:${JSON.stringify(spec)}`;
+  let ensured = ensuredIndexes.get(key);
+  if (!ensured) {
+    ensured = collection
+      .createIndex(spec, options)
+      .then(() => undefined)
+      .catch((error) => {
+        console.error(`Failed to create index on ${key}`, error);
+      });
+    ensuredIndexes.set(key, ensured);
+  }
+  return ensured;
+}
+
+/** A write rejected by a unique index. */
+export function isDuplicateKeyError(error: unknown): boolean {
+  return error instanceof MongoServerError && error.code === 11000;
+}
+
 export default clientPromise;
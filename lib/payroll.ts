@@ -0,0 +1,979 @@
+import { ObjectId, type Collection } from "mongodb";
+
+import clientPromise, { ensureIndex, isDuplicateKeyError } from "./mongodb";
+import { countWorkingDays, summarizeAttendanceForPayroll } from "./attendance";
+import { ACCOUNT_CODES } from "./chart-of-accounts";
+import { listEmployees, type TaxStatus } from "./employees";
+import { cancelReversal, postJournal, reverseJournal } from "./journal";
+import { assertPeriodsOpen, isPeriodKey } from "./periods";
+
+const DEFAULT_DB_NAME = process.env.MONGODB_DB ?? "cloud-erp";
+
+export const PAYROLL_RUN_STATUSES = ["draft", "posted", "void"] as const;
+
+export type PayrollRunStatus = (typeof PAYROLL_RUN_STATUSES)[number];
+
+/** Journal reference of payroll postings: "payroll:<run id>". */
+const PAYROLL_REFERENCE_PREFIX = "payroll:";
+
+/**
+ * Contribution rates of BPJS Kesehatan and BPJS Ketenagakerjaan, as shares
+ * of the monthly wage. JKK is charged at the lowest risk class.
+ */
+const BPJS_RATES = {
+  kesehatanEmployee: 0.01,
+  kesehatanEmployer: 0.04,
+  jhtEmployee: 0.02,
+  jhtEmployer: 0.037,
+  jpEmployee: 0.01,
+  jpEmployer: 0.02,
+  jkkEmployer: 0.0024,
+  jkmEmployer: 0.003,
+} as const;
+
+/** Highest monthly wage BPJS Kesehatan contributions are charged on. */
+const KESEHATAN_WAGE_CAP = 12_000_000;
+
+/** Highest monthly wage of the pension (JP) programme, revised every March. */
+const JP_WAGE_CAP = 10_547_400;
+
+/** Job expense deduction: 5% of gross income, at most 500,000 a month. */
+const JOB_EXPENSE_RATE = 0.05;
+const JOB_EXPENSE_MONTHLY_CAP = 500_000;
+
+/** Annual PTKP of a single taxpayer and of a spouse or each dependant. */
+const PTKP_BASE = 54_000_000;
+const PTKP_ADDITION = 4_500_000;
+
+/** Pasal 17 brackets on annual taxable income, as amended by UU HPP. */
+const PPH21_BRACKETS = [
+  { upTo: 60_000_000, rate: 0.05 },
+  { upTo: 250_000_000, rate: 0.15 },
+  { upTo: 500_000_000, rate: 0.25 },
+  { upTo: 5_000_000_000, rate: 0.3 },
+  { upTo: Infinity, rate: 0.35 },
+] as const;
+
+/** Monthly hours the hourly overtime wage is based on (PP 35/2021). */
+const OVERTIME_MONTHLY_HOURS = 173;
+
+/** Employees without an NPWP are withheld 20% more. */
+const NO_NPWP_SURCHARGE = 1.2;
+
+type TerCategory = "A" | "B" | "C";
+
+/** TER category of each PTKP status (PP 58/2023). */
+const TER_CATEGORIES: Record<TaxStatus, TerCategory> = {
+  "TK/0": "A",
+  "TK/1": "A",
+  "K/0": "A",
+  "TK/2": "B",
+  "TK/3": "B",
+  "K/1": "B",
+  "K/2": "B",
+  "K/3": "C",
+};
+
+/**
+ * Monthly effective rates (TER) of PMK 168/2023 on gross monthly income, as
+ * [highest gross of the band, rate in percent].
+ */
+const TER_RATES: Record<TerCategory, ReadonlyArray<[number, number]>> = {
+  A: [
+    [5_400_000, 0],
+    [5_650_000, 0.25],
+    [5_950_000, 0.5],
+    [6_300_000, 0.75],
+    [6_750_000, 1],
+    [7_500_000, 1.25],
+    [8_550_000, 1.5],
+    [9_650_000, 1.75],
+    [10_050_000, 2],
+    [10_350_000, 2.25],
+    [10_700_000, 2.5],
+    [11_050_000, 3],
+    [11_600_000, 3.5],
+    [12_500_000, 4],
+    [13_750_000, 5],
+    [15_100_000, 6],
+    [16_950_000, 7],
+    [19_750_000, 8],
+    [24_150_000, 9],
+    [26_450_000, 10],
+    [28_000_000, 11],
+    [30_050_000, 12],
+    [32_400_000, 13],
+    [35_400_000, 14],
+    [39_100_000, 15],
+    [43_850_000, 16],
+    [47_800_000, 17],
+    [51_400_000, 18],
+    [56_300_000, 19],
+    [62_200_000, 20],
+    [68_600_000, 21],
+    [77_500_000, 22],
+    [89_000_000, 23],
+    [103_000_000, 24],
+    [125_000_000, 25],
+    [157_000_000, 26],
+    [206_000_000, 27],
+    [337_000_000, 28],
+    [454_000_000, 29],
+    [550_000_000, 30],
+    [695_000_000, 31],
+    [910_000_000, 32],
+    [1_400_000_000, 33],
+    [Infinity, 34],
+  ],
+  B: [
+    [6_200_000, 0],
+    [6_500_000, 0.25],
+    [6_850_000, 0.5],
+    [7_300_000, 0.75],
+    [9_200_000, 1],
+    [10_750_000, 1.5],
+    [11_250_000, 2],
+    [11_600_000, 2.5],
+    [12_600_000, 3],
+    [13_600_000, 4],
+    [14_950_000, 5],
+    [16_400_000, 6],
+    [18_450_000, 7],
+    [21_850_000, 8],
+    [26_000_000, 9],
+    [27_700_000, 10],
+    [29_350_000, 11],
+    [31_450_000, 12],
+    [33_950_000, 13],
+    [37_100_000, 14],
+    [41_100_000, 15],
+    [45_800_000, 16],
+    [49_500_000, 17],
+    [53_800_000, 18],
+    [58_500_000, 19],
+    [64_000_000, 20],
+    [71_000_000, 21],
+    [80_000_000, 22],
+    [93_000_000, 23],
+    [109_000_000, 24],
+    [129_000_000, 25],
+    [163_000_000, 26],
+    [211_000_000, 27],
+    [374_000_000, 28],
+    [459_000_000, 29],
+    [555_000_000, 30],
+    [704_000_000, 31],
+    [957_000_000, 32],
+    [1_405_000_000, 33],
+    [Infinity, 34],
+  ],
+  C: [
+    [6_600_000, 0],
+    [6_950_000, 0.25],
+    [7_350_000, 0.5],
+    [7_800_000, 0.75],
+    [8_850_000, 1],
+    [9_800_000, 1.25],
+    [10_950_000, 1.5],
+    [11_200_000, 1.75],
+    [12_050_000, 2],
+    [12_950_000, 3],
+    [14_150_000, 4],
+    [15_550_000, 5],
+    [17_050_000, 6],
+    [19_500_000, 7],
+    [22_700_000, 8],
+    [26_600_000, 9],
+    [28_100_000, 10],
+    [30_100_000, 11],
+    [32_600_000, 12],
+    [35_400_000, 13],
+    [38_900_000, 14],
+    [43_000_000, 15],
+    [47_400_000, 16],
+    [51_200_000, 17],
+    [55_800_000, 18],
+    [60_400_000, 19],
+    [66_700_000, 20],
+    [74_500_000, 21],
+    [83_200_000, 22],
+    [95_600_000, 23],
+    [110_000_000, 24],
+    [134_000_000, 25],
+    [169_000_000, 26],
+    [221_000_000, 27],
+    [390_000_000, 28],
+    [463_000_000, 29],
+    [561_000_000, 30],
+    [709_000_000, 31],
+    [965_000_000, 32],
+    [1_419_000_000, 33],
+    [Infinity, 34],
+  ],
+};
+
+type BpjsContributions = {
+  kesehatanEmployee: number;
+  kesehatanEmployer: number;
+  jhtEmployee: number;
+  jhtEmployer: number;
+  jpEmployee: number;
+  jpEmployer: number;
+  jkkEmployer: number;
+  jkmEmployer: number;
+};
+
+/** How a payslip's PPh 21 was worked out. */
+type Pph21Method = "ter" | "annual";
+
+type PayslipDocument = {
+  employeeId: ObjectId;
+  /** Employee details as they stood when the run was calculated. */
+  employeeNumber: string;
+  name: string;
+  position: string;
+  department: string;
+  taxStatus: TaxStatus;
+  hasNpwp: boolean;
+  bankName: string | null;
+  bankAccountNumber: string | null;
+  baseSalary: number;
+  allowances: number;
+  /** Working days in the month and those the employee was on the payroll. */
+  workingDays: number;
+  daysEmployed: number;
+  /** Base salary of the working days before joining or after leaving. */
+  prorationDeduction: number;
+  /** Overtime recorded in attendance and the pay it earns. */
+  overtimeHours: number;
+  overtimePay: number;
+  /** Unpaid leave and unexcused absences, deducted pro rata. */
+  unpaidDays: number;
+  unpaidLeaveDeduction: number;
+  /** Other pay cuts entered on the run, taken off before tax. */
+  deductions: number;
+  /**
+   * Base salary, allowances and overtime less proration, unpaid days and
+   * deductions.
+   */
+  grossPay: number;
+  bpjs: BpjsContributions;
+  employeeContributions: number;
+  employerContributions: number;
+  /** Gross pay plus the employer premiums PPh 21 counts as income. */
+  taxableIncome: number;
+  /**
+   * TER withholding on the month's taxable income, or in December and an
+   * employee's last month the year's Pasal 17 tax less what was withheld
+   * before, which is negative when too much was withheld.
+   */
+  pph21Method: Pph21Method;
+  /** TER rate applied, in percent; null for the annual calculation. */
+  terRate: number | null;
+  pph21: number;
+  netPay: number;
+};
+
+type PayrollTotalsDocument = {
+  grossPay: number;
+  allowances: number;
+  overtimePay: number;
+  unpaidLeaveDeduction: number;
+  deductions: number;
+  employeeContributions: number;
+  employerContributions: number;
+  pph21: number;
+  netPay: number;
+};
+
+type PayrollRunDocument = {
+  _id?: ObjectId;
+  userId: ObjectId;
+  /** Sequential run number, e.g. PAY-0001. */
+  number: string;
+  /** Month paid, as YYYY-MM. */
+  period: string;
+  payDate: Date;
+  memo?: string | null;
+  payslips: PayslipDocument[];
+  totals: PayrollTotalsDocument;
+  status: PayrollRunStatus;
+  journalEntryId?: ObjectId | null;
+  postedAt?: Date;
+  voidedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type PayslipSummary = Omit<PayslipDocument, "employeeId"> & {
+  employeeId: string;
+};
+
+export type PayrollTotals = PayrollTotalsDocument;
+
+export type PayrollRunSummary = {
+  id: string;
+  number: string;
+  period: string;
+  payDate: string;
+  memo: string | null;
+  employees: number;
+  totals: PayrollTotals;
+  status: PayrollRunStatus;
+  journalEntryId: string | null;
+};
+
+export type PayrollRunDetail = PayrollRunSummary & {
+  payslips: PayslipSummary[];
+};
+
+export type PayrollAdjustmentInput = {
+  employeeId: string;
+  allowances?: number | null;
+  deductions?: number | null;
+};
+
+export type CreatePayrollRunInput = {
+  period: string;
+  payDate: Date;
+  memo?: string | null;
+  adjustments?: PayrollAdjustmentInput[];
+};
+
+export class PayrollValidationError extends Error {}
+
+export class PayrollRunNotFoundError extends Error {}
+
+export function parsePayrollRunStatus(
+  value: unknown
+): PayrollRunStatus | null {
+  return PAYROLL_RUN_STATUSES.includes(value as PayrollRunStatus)
+    ? (value as PayrollRunStatus)
+    : null;
+}
+
+async function getPayrollRunsCollection(): Promise<
+  Collection<PayrollRunDocument>
+> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  const collection = db.collection<PayrollRunDocument>("payroll_runs");
+  // One live run per month; void runs stay on record beside their rerun
+  await ensureIndex(
+    collection,
+    { userId: 1, period: 1 },
+    {
+      unique: true,
+      partialFilterExpression: { status: { $in: ["draft", "posted"] } },
+    }
+  );
+  return collection;
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+/** Contributions and tax are settled in whole rupiah. */
+const roundRupiah = (value: number) => Math.round(value);
+
+const optionalText = (value: string | null | undefined) =>
+  value && value.trim() ? value.trim() : null;
+
+function getPeriodBounds(period: string): { start: Date; end: Date } {
+  const [year, month] = period.split("-").map(Number);
+  return {
+    start: new Date(year, month - 1, 1),
+    end: new Date(year, month, 1),
+  };
+}
+
+function annualPtkp(taxStatus: TaxStatus): number {
+  const [marital, dependants] = taxStatus.split("/");
+  const additions = (marital === "K" ? 1 : 0) + Number(dependants);
+  return PTKP_BASE + PTKP_ADDITION * additions;
+}
+
+function annualIncomeTax(taxableIncome: number): number {
+  let tax = 0;
+  let lower = 0;
+  for (const bracket of PPH21_BRACKETS) {
+    if (taxableIncome <= lower) {
+      break;
+    }
+    tax += (Math.min(taxableIncome, bracket.upTo) - lower) * bracket.rate;
+    lower = bracket.upTo;
+  }
+  return tax;
+}
+
+function calculateBpjs(wage: number): BpjsContributions {
+  const kesehatanWage = Math.min(wage, KESEHATAN_WAGE_CAP);
+  const jpWage = Math.min(wage, JP_WAGE_CAP);
+  return {
+    kesehatanEmployee: roundRupiah(
+      kesehatanWage * BPJS_RATES.kesehatanEmployee
+    ),
+    kesehatanEmployer: roundRupiah(
+      kesehatanWage * BPJS_RATES.kesehatanEmployer
+    ),
+    jhtEmployee: roundRupiah(wage * BPJS_RATES.jhtEmployee),
+    jhtEmployer: roundRupiah(wage * BPJS_RATES.jhtEmployer),
+    jpEmployee: roundRupiah(jpWage * BPJS_RATES.jpEmployee),
+    jpEmployer: roundRupiah(jpWage * BPJS_RATES.jpEmployer),
+    jkkEmployer: roundRupiah(wage * BPJS_RATES.jkkEmployer),
+    jkmEmployer: roundRupiah(wage * BPJS_RATES.jkmEmployer),
+  };
+}
+
+/** TER rate, in percent, of a month's gross income. */
+function terRate(taxableIncome: number, taxStatus: TaxStatus): number {
+  const bands = TER_RATES[TER_CATEGORIES[taxStatus]];
+  const band = bands.find(([upTo]) => taxableIncome <= upTo);
+  return band?.[1] ?? 0;
+}
+
+/** PPh 21 withheld from January to November: the TER rate on gross. */
+function calculateMonthlyPph21(
+  taxableIncome: number,
+  taxStatus: TaxStatus,
+  hasNpwp: boolean
+): { pph21: number; terRate: number } {
+  const rate = terRate(taxableIncome, taxStatus);
+  const tax = (taxableIncome * rate) / 100;
+  return {
+    pph21: roundRupiah(hasNpwp ? tax : tax * NO_NPWP_SURCHARGE),
+    terRate: rate,
+  };
+}
+
+/** An employee's payslips of the year so far, this month's included. */
+type YearToDate = {
+  months: number;
+  taxableIncome: number;
+  /** Employee JHT and JP contributions, the deductible part of BPJS. */
+  pensionContributions: number;
+  /** PPh 21 withheld in the earlier months. */
+  withheld: number;
+};
+
+/**
+ * PPh 21 of the final month: the Pasal 17 tax on the year's net income
+ * above PTKP less what the earlier months withheld.
+ */
+function calculateAnnualPph21(
+  yearToDate: YearToDate,
+  taxStatus: TaxStatus,
+  hasNpwp: boolean
+): number {
+  const jobExpense = Math.min(
+    yearToDate.taxableIncome * JOB_EXPENSE_RATE,
+    JOB_EXPENSE_MONTHLY_CAP * yearToDate.months
+  );
+  const netIncome =
+    yearToDate.taxableIncome - jobExpense - yearToDate.pensionContributions;
+  // Taxable income is rounded down to the thousand rupiah
+  const annualTaxable = Math.max(
+    Math.floor((netIncome - annualPtkp(taxStatus)) / 1000) * 1000,
+    0
+  );
+  const annualTax = annualIncomeTax(annualTaxable);
+  return roundRupiah(
+    (hasNpwp ? annualTax : annualTax * NO_NPWP_SURCHARGE) -
+      yearToDate.withheld
+  );
+}
+
+/**
+ * Sum each employee's payslips in the posted runs of `period`'s earlier
+ * months. Drafts can still change, so they are not counted.
+ */
+async function loadEarlierPayslips(
+  collection: Collection<PayrollRunDocument>,
+  userId: ObjectId,
+  period: string
+): Promise<Map<string, YearToDate>> {
+  const runs = await collection
+    .find(
+      {
+        userId,
+        period: { $gte: `${period.slice(0, 4)}-01`, $lt: period },
+        status: "posted",
+      },
+      { projection: { payslips: 1 } }
+    )
+    .toArray();
+
+  const totals = new Map<string, YearToDate>();
+  for (const payslip of runs.flatMap((run) => run.payslips)) {
+    const key = payslip.employeeId.toString();
+    const total = totals.get(key) ?? {
+      months: 0,
+      taxableIncome: 0,
+      pensionContributions: 0,
+      withheld: 0,
+    };
+    total.months += 1;
+    total.taxableIncome += payslip.taxableIncome;
+    total.pensionContributions +=
+      payslip.bpjs.jhtEmployee + payslip.bpjs.jpEmployee;
+    total.withheld += payslip.pph21;
+    totals.set(key, total);
+  }
+  return totals;
+}
+
+/**
+ * Reject a run while an earlier month of the same year is a draft, whose
+ * withholdings the year-to-date tax would otherwise miss.
+ */
+async function assertEarlierRunsPosted(
+  collection: Collection<PayrollRunDocument>,
+  userId: ObjectId,
+  period: string
+): Promise<void> {
+  const draft = await collection.findOne(
+    {
+      userId,
+      period: { $gte: `${period.slice(0, 4)}-01`, $lt: period },
+      status: "draft",
+    },
+    { sort: { period: 1 }, projection: { number: 1, period: 1 } }
+  );
+  if (draft) {
+    throw new PayrollValidationError(
+      `Payroll ${draft.number} for ${draft.period} is still a draft. ` +
+        "Post or delete it first."
+    );
+  }
+}
+
+function validateAdjustment(value: number | null | undefined, label: string) {
+  const amount = value ?? 0;
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new PayrollValidationError(`${label} cannot be negative.`);
+  }
+  return roundAmount(amount);
+}
+
+function sumPayslips(payslips: PayslipDocument[]): PayrollTotalsDocument {
+  const total = (pick: (payslip: PayslipDocument) => number) =>
+    roundAmount(payslips.reduce((sum, payslip) => sum + pick(payslip), 0));
+  return {
+    grossPay: total((payslip) => payslip.grossPay),
+    allowances: total((payslip) => payslip.allowances),
+    overtimePay: total((payslip) => payslip.overtimePay),
+    unpaidLeaveDeduction: total((payslip) => payslip.unpaidLeaveDeduction),
+    deductions: total((payslip) => payslip.deductions),
+    employeeContributions: total((payslip) => payslip.employeeContributions),
+    employerContributions: total((payslip) => payslip.employerContributions),
+    pph21: total((payslip) => payslip.pph21),
+    netPay: total((payslip) => payslip.netPay),
+  };
+}
+
+function toPayrollRunSummary(doc: PayrollRunDocument): PayrollRunSummary {
+  return {
+    id: doc._id?.toString() ?? "",
+    number: doc.number,
+    period: doc.period,
+    payDate: doc.payDate.toISOString(),
+    memo: doc.memo ?? null,
+    employees: doc.payslips.length,
+    totals: doc.totals,
+    status: doc.status,
+    journalEntryId: doc.journalEntryId?.toString() ?? null,
+  };
+}
+
+function toPayrollRunDetail(doc: PayrollRunDocument): PayrollRunDetail {
+  return {
+    ...toPayrollRunSummary(doc),
+    payslips: doc.payslips.map((payslip) => ({
+      ...payslip,
+      employeeId: payslip.employeeId.toString(),
+    })),
+  };
+}
+
+export async function listPayrollRuns(
+  userId: ObjectId
+): Promise<PayrollRunSummary[]> {
+  const collection = await getPayrollRunsCollection();
+  const runs = await collection
+    .find({ userId })
+    .sort({ period: -1, createdAt: -1 })
+    .toArray();
+  return runs.map(toPayrollRunSummary);
+}
+
+async function findPayrollRun(
+  collection: Collection<PayrollRunDocument>,
+  userId: ObjectId,
+  id: string
+): Promise<PayrollRunDocument & { _id: ObjectId }> {
+  if (!ObjectId.isValid(id)) {
+    throw new PayrollRunNotFoundError("Payroll run not found.");
+  }
+  const run = await collection.findOne({ _id: new ObjectId(id), userId });
+  if (!run) {
+    throw new PayrollRunNotFoundError("Payroll run not found.");
+  }
+  return run;
+}
+
+export async function getPayrollRun(
+  userId: ObjectId,
+  id: string
+): Promise<PayrollRunDetail> {
+  const collection = await getPayrollRunsCollection();
+  return toPayrollRunDetail(await findPayrollRun(collection, userId, id));
+}
+
+async function nextPayrollRunNumber(
+  collection: Collection<PayrollRunDocument>,
+  userId: ObjectId
+): Promise<string> {
+  const latest = await collection.findOne(
+    { userId },
+    { sort: { createdAt: -1 }, projection: { number: 1 } }
+  );
+  const sequence = Number(latest?.number.replace(/\D/g, "") ?? 0);
+  return `PAY-${String(sequence + 1).padStart(4, "0")}`;
+}
+
+/**
+ * Calculate the payslips of every employee on the payroll during `period`
+ * and save them as a draft run. Overtime and unpaid days come from the
+ * month's attendance; allowances and other deductions are given per
+ * employee.
+ */
+export async function createPayrollRun(
+  userId: ObjectId,
+  input: CreatePayrollRunInput
+): Promise<PayrollRunDetail> {
+  if (!isPeriodKey(input.period)) {
+    throw new PayrollValidationError("Payroll period must be YYYY-MM.");
+  }
+  const { start, end } = getPeriodBounds(input.period);
+
+  const collection = await getPayrollRunsCollection();
+  const existing = await collection.findOne({
+    userId,
+    period: input.period,
+    status: { $ne: "void" },
+  });
+  if (existing) {
+    throw new PayrollValidationError(
+      `Payroll for ${input.period} already exists as ${existing.number}.`
+    );
+  }
+  await assertEarlierRunsPosted(collection, userId, input.period);
+
+  // Everyone employed for at least part of the month is paid
+  const employees = (await listEmployees(userId)).filter(
+    (employee) =>
+      new Date(employee.joinDate) < end &&
+      (employee.isActive ||
+        (employee.endDate !== null && new Date(employee.endDate) >= start))
+  );
+  if (!employees.length) {
+    throw new PayrollValidationError(
+      "No employees are on the payroll for this period."
+    );
+  }
+
+  const attendance = await summarizeAttendanceForPayroll(userId, start, end);
+  const lastDay = new Date(end.getFullYear(), end.getMonth(), 0);
+  const workingDays = countWorkingDays(start, lastDay);
+  const earlierPayslips = await loadEarlierPayslips(
+    collection,
+    userId,
+    input.period
+  );
+
+  const adjustments = new Map<string, PayrollAdjustmentInput>();
+  (input.adjustments ?? []).forEach((adjustment) => {
+    if (!employees.some((employee) => employee.id === adjustment.employeeId)) {
+      throw new PayrollValidationError(
+        "Adjustments can only be made for employees on this payroll."
+      );
+    }
+    adjustments.set(adjustment.employeeId, adjustment);
+  });
+
+  const payslips = employees.map<PayslipDocument>((employee) => {
+    const adjustment = adjustments.get(employee.id);
+    const allowances = validateAdjustment(
+      adjustment?.allowances,
+      "Allowances"
+    );
+    const deductions = validateAdjustment(
+      adjustment?.deductions,
+      "Deductions"
+    );
+    // Joining or leaving mid-month pays the working days employed only
+    const joinDate = new Date(employee.joinDate);
+    const endDate = employee.endDate ? new Date(employee.endDate) : null;
+    const leavesThisMonth = endDate !== null && endDate <= lastDay;
+    const daysEmployed = countWorkingDays(
+      joinDate > start ? joinDate : start,
+      leavesThisMonth ? endDate : lastDay
+    );
+    const prorationDeduction = roundAmount(
+      (employee.baseSalary * (workingDays - daysEmployed)) / workingDays
+    );
+    const worked = attendance.get(employee.id);
+    const unpaidDays = Math.min(worked?.unpaidDays ?? 0, daysEmployed);
+    const unpaidLeaveDeduction = roundAmount(
+      (employee.baseSalary * unpaidDays) / workingDays
+    );
+    const overtimePay = roundAmount(
+      (employee.baseSalary / OVERTIME_MONTHLY_HOURS) *
+        (worked?.overtimeRateHours ?? 0)
+    );
+    const earnings = roundAmount(
+      employee.baseSalary +
+        allowances +
+        overtimePay -
+        prorationDeduction -
+        unpaidLeaveDeduction
+    );
+    if (deductions > earnings) {
+      throw new PayrollValidationError(
+        `Deductions for ${employee.name} cannot exceed their pay.`
+      );
+    }
+
+    const grossPay = roundAmount(earnings - deductions);
+    const bpjs = calculateBpjs(grossPay);
+    const employeeContributions =
+      bpjs.kesehatanEmployee + bpjs.jhtEmployee + bpjs.jpEmployee;
+    const employerContributions =
+      bpjs.kesehatanEmployer +
+      bpjs.jhtEmployer +
+      bpjs.jpEmployer +
+      bpjs.jkkEmployer +
+      bpjs.jkmEmployer;
+    // Health, accident and death premiums paid by the employer are income;
+    // its pension and old-age contributions are not
+    const taxableIncome = roundAmount(
+      grossPay + bpjs.kesehatanEmployer + bpjs.jkkEmployer + bpjs.jkmEmployer
+    );
+    const hasNpwp = Boolean(employee.npwp);
+    // The year's tax is settled in December or when the employee leaves
+    const monthly = calculateMonthlyPph21(
+      taxableIncome,
+      employee.taxStatus,
+      hasNpwp
+    );
+    const earlier = earlierPayslips.get(employee.id);
+    const pph21Method: Pph21Method =
+      start.getMonth() === 11 || leavesThisMonth ? "annual" : "ter";
+    const pph21 =
+      pph21Method === "annual"
+        ? calculateAnnualPph21(
+            {
+              months: (earlier?.months ?? 0) + 1,
+              taxableIncome: (earlier?.taxableIncome ?? 0) + taxableIncome,
+              pensionContributions:
+                (earlier?.pensionContributions ?? 0) +
+                bpjs.jhtEmployee +
+                bpjs.jpEmployee,
+              withheld: earlier?.withheld ?? 0,
+            },
+            employee.taxStatus,
+            hasNpwp
+          )
+        : monthly.pph21;
+
+    return {
+      employeeId: new ObjectId(employee.id),
+      employeeNumber: employee.employeeNumber,
+      name: employee.name,
+      position: employee.position,
+      department: employee.department,
+      taxStatus: employee.taxStatus,
+      hasNpwp,
+      bankName: employee.bankName,
+      bankAccountNumber: employee.bankAccountNumber,
+      baseSalary: employee.baseSalary,
+      allowances,
+      workingDays,
+      daysEmployed,
+      prorationDeduction,
+      overtimeHours: worked?.overtimeHours ?? 0,
+      overtimePay,
+      unpaidDays,
+      unpaidLeaveDeduction,
+      deductions,
+      grossPay,
+      bpjs,
+      employeeContributions,
+      employerContributions,
+      taxableIncome,
+      pph21Method,
+      terRate: pph21Method === "ter" ? monthly.terRate : null,
+      pph21,
+      netPay: roundAmount(grossPay - employeeContributions - pph21),
+    };
+  });
+
+  const now = new Date();
+  const document: PayrollRunDocument = {
+    userId,
+    number: await nextPayrollRunNumber(collection, userId),
+    period: input.period,
+    payDate: input.payDate,
+    memo: optionalText(input.memo),
+    payslips,
+    totals: sumPayslips(payslips),
+    status: "draft",
+    journalEntryId: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  let insertedId: ObjectId;
+  try {
+    ({ insertedId } = await collection.insertOne(document));
+  } catch (error) {
+    // Another request created the month's run since it was checked
+    if (isDuplicateKeyError(error)) {
+      throw new PayrollValidationError(
+        `Payroll for ${input.period} already exists.`
+      );
+    }
+    throw error;
+  }
+
+  return toPayrollRunDetail({ ...document, _id: insertedId });
+}
+
+/**
+ * Post a draft run as one journal: salaries and employer contributions
+ * expensed, withholdings left payable and net pay paid out of cash.
+ */
+export async function postPayrollRun(
+  userId: ObjectId,
+  id: string
+): Promise<PayrollRunDetail> {
+  const collection = await getPayrollRunsCollection();
+  const run = await findPayrollRun(collection, userId, id);
+  if (run.status !== "draft") {
+    throw new PayrollValidationError("Only draft payroll runs can be posted.");
+  }
+
+  await assertEarlierRunsPosted(collection, userId, run.period);
+  await assertPeriodsOpen(userId, run.payDate);
+
+  const { totals } = run;
+  const memo = `Payroll ${run.number} (${run.period})`;
+  const entry = await postJournal(userId, {
+    referenceId: `${PAYROLL_REFERENCE_PREFIX}${run._id.toString()}`,
+    date: run.payDate,
+    memo,
+    lines: [
+      {
+        accountCode: ACCOUNT_CODES.SALARIES_EXPENSE,
+        debit: totals.grossPay,
+        description: "Gross salaries",
+      },
+      {
+        accountCode: ACCOUNT_CODES.SALARIES_EXPENSE,
+        debit: totals.employerContributions,
+        description: "Employer BPJS contributions",
+      },
+      // December refunds of over-withheld tax can exceed the month's tax
+      totals.pph21 < 0
+        ? {
+            accountCode: ACCOUNT_CODES.PPH21_PAYABLE,
+            debit: -totals.pph21,
+            description: "PPh 21 refunded",
+          }
+        : {
+            accountCode: ACCOUNT_CODES.PPH21_PAYABLE,
+            credit: totals.pph21,
+            description: "PPh 21 withheld",
+          },
+      {
+        accountCode: ACCOUNT_CODES.BPJS_PAYABLE,
+        credit: roundAmount(
+          totals.employeeContributions + totals.employerContributions
+        ),
+        description: "BPJS contributions due",
+      },
+      {
+        accountCode: ACCOUNT_CODES.CASH,
+        credit: totals.netPay,
+        description: "Net pay",
+      },
+    ].filter((line) => (line.debit ?? line.credit ?? 0) > 0),
+  });
+
+  const now = new Date();
+  const { matchedCount } = await collection.updateOne(
+    { _id: run._id, userId, status: "draft" },
+    {
+      $set: {
+        status: "posted",
+        journalEntryId: entry._id ?? null,
+        postedAt: now,
+        updatedAt: now,
+      },
+    }
+  );
+  if (matchedCount === 0) {
+    // Another request posted or deleted the run first
+    if (entry._id) {
+      await reverseJournal(entry._id, userId);
+    }
+    throw new PayrollValidationError("Only draft payroll runs can be posted.");
+  }
+
+  return getPayrollRun(userId, id);
+}
+
+/** Cancel a posted run by reversing its journal, so the month can rerun. */
+export async function voidPayrollRun(
+  userId: ObjectId,
+  id: string
+): Promise<PayrollRunDetail> {
+  const collection = await getPayrollRunsCollection();
+  const run = await findPayrollRun(collection, userId, id);
+  if (run.status !== "posted") {
+    throw new PayrollValidationError(
+      "Only posted payroll runs can be voided. Delete drafts instead."
+    );
+  }
+
+  await assertPeriodsOpen(userId, run.payDate);
+  const reversal = run.journalEntryId
+    ? await reverseJournal(run.journalEntryId, userId)
+    : null;
+
+  const now = new Date();
+  const { matchedCount } = await collection.updateOne(
+    { _id: run._id, userId, status: "posted" },
+    { $set: { status: "void", voidedAt: now, updatedAt: now } }
+  );
+  if (matchedCount === 0) {
+    if (reversal?._id) {
+      await cancelReversal(reversal._id, userId);
+    }
+    throw new PayrollValidationError(
+      "Only posted payroll runs can be voided. Delete drafts instead."
+    );
+  }
+
+  return getPayrollRun(userId, id);
+}
+
+/** Remove a draft run. Posted runs can only be voided. */
+export async function deletePayrollRun(userId: ObjectId, id: string) {
+  const collection = await getPayrollRunsCollection();
+  const run = await findPayrollRun(collection, userId, id);
+  if (run.status !== "draft") {
+    throw new PayrollValidationError(
+      "Only draft payroll runs can be deleted. Void it instead."
+    );
+  }
+  await collection.deleteOne({ _id: run._id, userId, status: "draft" });
+}
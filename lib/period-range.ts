@@ -0,0 +1,334 @@
+export const PERIOD_KEYS = [
+  "current-month",
+  "last-month",
+  "current-quarter",
+  "last-quarter",
+  "year-to-date",
+  "last-year",
+  "fiscal-quarter",
+  "fiscal-year-to-date",
+  "last-fiscal-year",
+  "all-time",
+] as const;
+
+export type PeriodKey = (typeof PERIOD_KEYS)[number];
+
+export type PeriodRange = {
+  start: Date;
+  end: Date;
+  label: string;
+};
+
+/**
+ * What a period needs beyond the reference date: the company's fiscal year
+ * start (1 = January) and, for "all-time", the span of posted entries.
+ */
+export type PeriodContext = {
+  fiscalYearStartMonth: number;
+  firstEntryDate?: Date | null;
+  lastEntryDate?: Date | null;
+};
+
+/** A user-picked range of whole days; both ends are inclusive. */
+export type CustomPeriod = {
+  from: Date;
+  to: Date;
+};
+
+/** Either a named period or the `from`/`to` range of a request. */
+export type PeriodSelection = PeriodKey | CustomPeriod;
+
+export class InvalidPeriodError extends Error {}
+
+export const DEFAULT_FISCAL_YEAR_START_MONTH = 1;
+
+const CALENDAR_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export function parsePeriodKey(value: unknown): PeriodKey | null {
+  return PERIOD_KEYS.includes(value as PeriodKey)
+    ? (value as PeriodKey)
+    : null;
+}
+
+/** Parse a YYYY-MM-DD date in local time, rejecting days like 2025-02-30. */
+export function parseCalendarDate(value: string): Date | null {
+  const match = CALENDAR_DATE_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day
+    ? date
+    : null;
+}
+
+export function toCalendarDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Read the period of a request: `from` and `to` (YYYY-MM-DD, inclusive)
+ * take precedence over `period`, which falls back when missing or unknown.
+ */
+export function parsePeriodQuery(
+  searchParams: URLSearchParams,
+  fallback: PeriodKey
+): PeriodSelection {
+  const fromParam = searchParams.get("from");
+  const toParam = searchParams.get("to");
+
+  if (!fromParam && !toParam) {
+    return parsePeriodKey(searchParams.get("period")) ?? fallback;
+  }
+  return parseCustomPeriod(fromParam, toParam);
+}
+
+/** Validate a pair of YYYY-MM-DD query values as an inclusive range. */
+export function parseCustomPeriod(
+  fromParam: string | null,
+  toParam: string | null
+): CustomPeriod {
+  if (!fromParam || !toParam) {
+    throw new InvalidPeriodError("Both from and to dates are required.");
+  }
+
+  const from = parseCalendarDate(fromParam);
+  const to = parseCalendarDate(toParam);
+  if (!from || !to) {
+    throw new InvalidPeriodError(
+      "Dates must be valid and in YYYY-MM-DD format."
+    );
+  }
+  if (from > to) {
+    throw new InvalidPeriodError(
+      "The from date must not be after the to date."
+    );
+  }
+
+  return { from, to };
+}
+
+/** Query parameters that select the same period on any report route. */
+export function toPeriodQuery(
+  selection: PeriodSelection
+): Record<string, string> {
+  return typeof selection === "string"
+    ? { period: selection }
+    : {
+        from: toCalendarDate(selection.from),
+        to: toCalendarDate(selection.to),
+      };
+}
+
+/** Exact dates of a range whose `end` is exclusive, e.g. for headers. */
+export function formatRangeLabel(start: Date, end: Date): string {
+  const format = (date: Date) =>
+    date.toLocaleDateString("en-US", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+  return `${format(start)} - ${format(new Date(end.getTime() - 1))}`;
+}
+
+export function getCustomPeriodRange(period: CustomPeriod): PeriodRange {
+  const start = new Date(
+    period.from.getFullYear(),
+    period.from.getMonth(),
+    period.from.getDate()
+  );
+  const end = new Date(
+    period.to.getFullYear(),
+    period.to.getMonth(),
+    period.to.getDate() + 1
+  );
+  return {
+    start,
+    end,
+    label: formatRangeLabel(start, end),
+  };
+}
+
+const formatMonthSpan = (start: Date, end: Date) =>
+  `${start.toLocaleString("en-US", {
+    month: "short",
+  })} - ${new Date(end.getTime() - 1).toLocaleString("en-US", {
+    month: "short",
+    year: "numeric",
+  })}`;
+
+/**
+ * Calendar months overlapping a range, clipped to it, so the months of a
+ * range that starts or ends mid-month only cover the days inside it.
+ */
+export function splitIntoMonths(range: PeriodRange): PeriodRange[] {
+  const months: PeriodRange[] = [];
+  let start = range.start;
+  while (start < range.end) {
+    const nextMonth = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+    const end = nextMonth < range.end ? nextMonth : range.end;
+    months.push({
+      start,
+      end,
+      label: start.toLocaleString("en-US", { month: "short", year: "numeric" }),
+    });
+    start = end;
+  }
+  return months;
+}
+
+/** First day of the fiscal year that contains `reference`. */
+export function getFiscalYearStart(
+  reference: Date,
+  fiscalYearStartMonth: number
+): Date {
+  const startMonth = fiscalYearStartMonth - 1;
+  const year =
+    reference.getMonth() >= startMonth
+      ? reference.getFullYear()
+      : reference.getFullYear() - 1;
+  return new Date(year, startMonth, 1);
+}
+
+/**
+ * Resolve a period key to a date window. `start` is inclusive and `end` is
+ * exclusive, in server local time.
+ */
+export function getPeriodRange(
+  key: PeriodKey,
+  context: PeriodContext,
+  reference = new Date()
+): PeriodRange {
+  const year = reference.getFullYear();
+  const month = reference.getMonth();
+  const fiscalStart = getFiscalYearStart(
+    reference,
+    context.fiscalYearStartMonth
+  );
+
+  switch (key) {
+    case "all-time": {
+      // From the first posted entry through the day of the last one
+      const first = context.firstEntryDate ?? reference;
+      const last = context.lastEntryDate ?? reference;
+      const start = new Date(first.getFullYear(), first.getMonth(), 1);
+      const end = new Date(
+        last.getFullYear(),
+        last.getMonth(),
+        last.getDate() + 1
+      );
+      return {
+        start,
+        end,
+        label: "All Time",
+      };
+    }
+    case "last-month": {
+      const start = new Date(year, month - 1, 1);
+      const end = new Date(year, month, 1);
+      return {
+        start,
+        end,
+        label: `Last Month (${start.toLocaleString("en-US", {
+          month: "short",
+          year: "numeric",
+        })})`,
+      };
+    }
+    case "current-quarter": {
+      const quarterStartMonth = Math.floor(month / 3) * 3;
+      const start = new Date(year, quarterStartMonth, 1);
+      const end = new Date(year, quarterStartMonth + 3, 1);
+      return {
+        start,
+        end,
+        label: `Current Quarter (${formatMonthSpan(start, end)})`,
+      };
+    }
+    case "last-quarter": {
+      const quarterStartMonth = Math.floor((month - 3) / 3) * 3;
+      const start = new Date(year, quarterStartMonth, 1);
+      const end = new Date(year, quarterStartMonth + 3, 1);
+      return {
+        start,
+        end,
+        label: `Last Quarter (${formatMonthSpan(start, end)})`,
+      };
+    }
+    case "year-to-date": {
+      const start = new Date(year, 0, 1);
+      const end = new Date(year + 1, 0, 1);
+      return {
+        start,
+        end,
+        label: `Year to Date (${year})`,
+      };
+    }
+    case "last-year": {
+      const start = new Date(year - 1, 0, 1);
+      const end = new Date(year, 0, 1);
+      return {
+        start,
+        end,
+        label: `Last Year (${year - 1})`,
+      };
+    }
+    case "fiscal-quarter": {
+      const monthsIntoYear =
+        (year - fiscalStart.getFullYear()) * 12 +
+        month -
+        fiscalStart.getMonth();
+      const start = new Date(
+        fiscalStart.getFullYear(),
+        fiscalStart.getMonth() + Math.floor(monthsIntoYear / 3) * 3,
+        1
+      );
+      const end = new Date(start.getFullYear(), start.getMonth() + 3, 1);
+      return {
+        start,
+        end,
+        label: `Fiscal Quarter Q${
+          Math.floor(monthsIntoYear / 3) + 1
+        } (${formatMonthSpan(start, end)})`,
+      };
+    }
+    case "fiscal-year-to-date": {
+      const start = fiscalStart;
+      const end = new Date(start.getFullYear() + 1, start.getMonth(), 1);
+      return {
+        start,
+        end,
+        label: `Fiscal Year to Date (${formatMonthSpan(start, end)})`,
+      };
+    }
+    case "last-fiscal-year": {
+      const start = new Date(
+        fiscalStart.getFullYear() - 1,
+        fiscalStart.getMonth(),
+        1
+      );
+      const end = fiscalStart;
+      return {
+        start,
+        end,
+        label: `Last Fiscal Year (${formatMonthSpan(start, end)})`,
+      };
+    }
+    case "current-month":
+    default: {
+      const start = new Date(year, month, 1);
+      const end = new Date(year, month + 1, 1);
+      return {
+        start,
+        end,
+        label: `Current Month (${start.toLocaleString("en-US", {
+          month: "long",
+          year: "numeric",
+        })})`,
+      };
+    }
+  }
+}
@@ -0,0 +1,422 @@
+import { ObjectId, type Collection } from "mongodb";
+
+import clientPromise, { ensureIndex, isDuplicateKeyError } from "./mongodb";
+import { ACCOUNT_CODES } from "./chart-of-accounts";
+import {
+  cancelReversal,
+  postJournal,
+  reverseJournal,
+  type JournalDraftLine,
+  type JournalEntryDocument,
+} from "./journal";
+import { fetchAccountBalances } from "./ledger";
+
+const DEFAULT_DB_NAME = process.env.MONGODB_DB ?? "cloud-erp";
+
+const PERIOD_KEY_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+export const PERIOD_STATUSES = ["open", "closed", "locked"] as const;
+
+export type PeriodStatus = (typeof PERIOD_STATUSES)[number];
+
+/**
+ * One calendar month of a user's books. Months without a document are open;
+ * closing posts an entry into retained earnings and locking freezes it.
+ */
+type AccountingPeriodDocument = {
+  _id?: ObjectId;
+  userId: ObjectId;
+  /** Month key in YYYY-MM form, in server local time like the reports. */
+  period: string;
+  status: PeriodStatus;
+  closingEntryId?: ObjectId | null;
+  closedAt?: Date | null;
+  lockedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type AccountingPeriodSummary = {
+  period: string;
+  start: string;
+  end: string;
+  status: PeriodStatus;
+  closingEntryId: string | null;
+  closedAt: string | null;
+  lockedAt: string | null;
+};
+
+export class PeriodValidationError extends Error {}
+
+/** Raised when a change is dated inside a closed or locked period. */
+export class PeriodLockedError extends Error {}
+
+async function getPeriodsCollection(): Promise<
+  Collection<AccountingPeriodDocument>
+> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  const collection = db.collection<AccountingPeriodDocument>(
+    "accounting_periods"
+  );
+  await ensureIndex(collection, { userId: 1, period: 1 }, { unique: true });
+  return collection;
+}
+
+export function isPeriodKey(value: unknown): value is string {
+  return typeof value === "string" && PERIOD_KEY_PATTERN.test(value);
+}
+
+export function toPeriodKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  return `${date.getFullYear()}-${month}`;
+}
+
+function getPeriodBounds(period: string): { start: Date; end: Date } {
+  const [year, month] = period.split("-").map(Number);
+  return {
+    start: new Date(year, month - 1, 1),
+    end: new Date(year, month, 1),
+  };
+}
+
+function toSummary(
+  period: string,
+  doc: AccountingPeriodDocument | undefined
+): AccountingPeriodSummary {
+  const { start, end } = getPeriodBounds(period);
+  return {
+    period,
+    start: start.toISOString(),
+    end: end.toISOString(),
+    status: doc?.status ?? "open",
+    closingEntryId: doc?.closingEntryId?.toString() ?? null,
+    closedAt: doc?.closedAt?.toISOString() ?? null,
+    lockedAt: doc?.lockedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Every month from the first journal entry up to the current month, newest
+ * first, together with any stored period state.
+ */
+export async function listAccountingPeriods(
+  userId: ObjectId
+): Promise<AccountingPeriodSummary[]> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  const collection = await getPeriodsCollection();
+
+  const [firstEntry, documents] = await Promise.all([
+    db
+      .collection<JournalEntryDocument>("journal_entries")
+      .find({ userId })
+      .sort({ date: 1 })
+      .limit(1)
+      .next(),
+    collection.find({ userId }).toArray(),
+  ]);
+
+  const byPeriod = new Map(documents.map((doc) => [doc.period, doc]));
+  const now = new Date();
+  const first = firstEntry ? new Date(firstEntry.date) : now;
+  const cursor = first < now ? new Date(first) : new Date(now);
+  cursor.setDate(1);
+  cursor.setHours(0, 0, 0, 0);
+
+  const keys = new Set(documents.map((doc) => doc.period));
+  while (cursor <= now) {
+    keys.add(toPeriodKey(cursor));
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+
+  return Array.from(keys)
+    .sort((a, b) => b.localeCompare(a))
+    .map((period) => toSummary(period, byPeriod.get(period)));
+}
+
+async function findPeriod(
+  collection: Collection<AccountingPeriodDocument>,
+  userId: ObjectId,
+  period: string
+) {
+  if (!isPeriodKey(period)) {
+    throw new PeriodValidationError("Period must be in YYYY-MM format.");
+  }
+  return collection.findOne({ userId, period });
+}
+
+/**
+ * Close a month: move its revenue and expense balances into retained
+ * earnings with a closing entry dated on the last moment of the month. The
+ * month is claimed as closed first, so only one request posts the entry
+ * and nothing else can be posted into it meanwhile.
+ */
+export async function closeAccountingPeriod(
+  userId: ObjectId,
+  period: string
+): Promise<AccountingPeriodSummary> {
+  const collection = await getPeriodsCollection();
+  const existing = await findPeriod(collection, userId, period);
+
+  if (existing && existing.status !== "open") {
+    throw new PeriodValidationError(`Period ${period} is already closed.`);
+  }
+
+  const { end } = getPeriodBounds(period);
+  if (end > new Date()) {
+    throw new PeriodValidationError(
+      "A period can only be closed after it has ended."
+    );
+  }
+
+  const claimedAt = new Date();
+  try {
+    await collection.updateOne(
+      { userId, period, status: "open" },
+      {
+        $set: {
+          status: "closed",
+          closingEntryId: null,
+          closedAt: claimedAt,
+          lockedAt: null,
+          updatedAt: claimedAt,
+        },
+        $setOnInsert: { userId, period, createdAt: claimedAt },
+      },
+      { upsert: true }
+    );
+  } catch (error) {
+    // The period exists but is not open: another request closed it
+    if (isDuplicateKeyError(error)) {
+      throw new PeriodValidationError(`Period ${period} is already closed.`);
+    }
+    throw error;
+  }
+
+  let closingEntryId: ObjectId | null;
+  try {
+    closingEntryId = await postClosingEntry(userId, period);
+  } catch (error) {
+    await collection.updateOne(
+      { userId, period, status: "closed", closedAt: claimedAt },
+      { $set: { status: "open", closedAt: null, updatedAt: new Date() } }
+    );
+    throw error;
+  }
+
+  const updated = await collection.findOneAndUpdate(
+    { userId, period, status: "closed", closedAt: claimedAt },
+    { $set: { closingEntryId, updatedAt: new Date() } },
+    { returnDocument: "after" }
+  );
+  if (!updated) {
+    // Reopened before the entry was recorded on it
+    if (closingEntryId) {
+      await reverseJournal(closingEntryId, userId);
+    }
+    throw new PeriodValidationError(
+      `Period ${period} changed while it was closed. Try again.`
+    );
+  }
+
+  return toSummary(period, updated);
+}
+
+/** Post the entry that brings a month's revenue and expenses to zero. */
+async function postClosingEntry(
+  userId: ObjectId,
+  period: string
+): Promise<ObjectId | null> {
+  const { start, end } = getPeriodBounds(period);
+  const balances = await fetchAccountBalances(userId, {
+    start,
+    end,
+    excludeClosingEntries: true,
+  });
+
+  const lines: JournalDraftLine[] = [];
+  let netIncome = 0;
+
+  Object.values(balances).forEach((balance) => {
+    if (
+      (balance.type !== "revenue" && balance.type !== "expense") ||
+      Math.abs(balance.balance) < 0.005
+    ) {
+      return;
+    }
+    // Post the opposite of the net balance so the account ends at zero
+    const net = balance.debit - balance.credit;
+    lines.push(
+      net > 0
+        ? { accountCode: balance.code, credit: net, description: "Closing" }
+        : { accountCode: balance.code, debit: -net, description: "Closing" }
+    );
+    netIncome -= net;
+  });
+
+  let closingEntryId: ObjectId | null = null;
+
+  if (lines.length) {
+    if (Math.abs(netIncome) >= 0.005) {
+      lines.push(
+        netIncome > 0
+          ? {
+              accountCode: ACCOUNT_CODES.RETAINED_EARNINGS,
+              credit: netIncome,
+              description: "Net income",
+            }
+          : {
+              accountCode: ACCOUNT_CODES.RETAINED_EARNINGS,
+              debit: -netIncome,
+              description: "Net loss",
+            }
+      );
+    }
+
+    const entry = await postJournal(userId, {
+      date: new Date(end.getTime() - 1),
+      memo: `Closing entry ${period}`,
+      lines,
+      closesPeriod: period,
+    });
+    closingEntryId = entry._id ?? null;
+  }
+
+  return closingEntryId;
+}
+
+/** Undo a close by reversing its closing entry. Locked periods stay put. */
+export async function reopenAccountingPeriod(
+  userId: ObjectId,
+  period: string
+): Promise<AccountingPeriodSummary> {
+  const collection = await getPeriodsCollection();
+  const existing = await findPeriod(collection, userId, period);
+
+  if (!existing || existing.status === "open") {
+    throw new PeriodValidationError(`Period ${period} is not closed.`);
+  }
+  if (existing.status === "locked") {
+    throw new PeriodValidationError(
+      `Period ${period} is locked. Unlock it before reopening.`
+    );
+  }
+
+  const reversal = existing.closingEntryId
+    ? await reverseJournal(existing.closingEntryId, userId)
+    : null;
+
+  const now = new Date();
+  const updated = await collection.findOneAndUpdate(
+    { _id: existing._id, status: "closed", updatedAt: existing.updatedAt },
+    {
+      $set: {
+        status: "open",
+        closingEntryId: null,
+        closedAt: null,
+        updatedAt: now,
+      },
+    },
+    { returnDocument: "after" }
+  );
+
+  if (!updated) {
+    // Locked or reopened by another request since it was read
+    if (reversal?._id) {
+      await cancelReversal(reversal._id, userId);
+    }
+    throw new PeriodValidationError(
+      `Period ${period} changed while it was reopened. Try again.`
+    );
+  }
+
+  return toSummary(period, updated);
+}
+
+export async function lockAccountingPeriod(
+  userId: ObjectId,
+  period: string
+): Promise<AccountingPeriodSummary> {
+  const collection = await getPeriodsCollection();
+  const existing = await findPeriod(collection, userId, period);
+
+  if (!existing || existing.status !== "closed") {
+    throw new PeriodValidationError("Only closed periods can be locked.");
+  }
+
+  const now = new Date();
+  const updated = await collection.findOneAndUpdate(
+    { _id: existing._id, status: "closed" },
+    { $set: { status: "locked", lockedAt: now, updatedAt: now } },
+    { returnDocument: "after" }
+  );
+  if (!updated) {
+    throw new PeriodValidationError("Only closed periods can be locked.");
+  }
+
+  return toSummary(period, updated);
+}
+
+export async function unlockAccountingPeriod(
+  userId: ObjectId,
+  period: string
+): Promise<AccountingPeriodSummary> {
+  const collection = await getPeriodsCollection();
+  const existing = await findPeriod(collection, userId, period);
+
+  if (!existing || existing.status !== "locked") {
+    throw new PeriodValidationError(`Period ${period} is not locked.`);
+  }
+
+  const now = new Date();
+  const updated = await collection.findOneAndUpdate(
+    { _id: existing._id, status: "locked" },
+    { $set: { status: "closed", lockedAt: null, updatedAt: now } },
+    { returnDocument: "after" }
+  );
+  if (!updated) {
+    throw new PeriodValidationError(`Period ${period} is not locked.`);
+  }
+
+  return toSummary(period, updated);
+}
+
+/**
+ * Reject a change dated inside a closed or locked month. Closed months must
+ * be reopened first so their closing entry is reposted with the change.
+ */
+export async function assertPeriodsOpen(
+  userId: ObjectId,
+  ...dates: Array<Date | null | undefined>
+): Promise<void> {
+  const periods = Array.from(
+    new Set(
+      dates
+        .filter(
+          (date): date is Date =>
+            date instanceof Date && !Number.isNaN(date.getTime())
+        )
+        .map(toPeriodKey)
+    )
+  );
+
+  if (!periods.length) {
+    return;
+  }
+
+  const collection = await getPeriodsCollection();
+  const blocked = await collection
+    .find({ userId, period: { $in: periods }, status: { $ne: "open" } })
+    .sort({ period: 1 })
+    .limit(1)
+    .next();
+
+  if (blocked) {
+    throw new PeriodLockedError(
+      blocked.status === "locked"
+        ? `Period ${blocked.period} is locked. Changes dated in it are not allowed.`
+        : `Period ${blocked.period} is closed. Reopen it before changing entries dated in it.`
+    );
+  }
+}
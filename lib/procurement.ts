@@ -0,0 +1,1784 @@
+import { ObjectId, type Collection } from "mongodb";
+
+import clientPromise, { ensureIndex, isDuplicateKeyError } from "./mongodb";
+import { ACCOUNT_CODES, getAccountDefinition } from "./chart-of-accounts";
+import { loadChartOfAccounts } from "./accounts";
+import { cancelReversal, postJournal, reverseJournal } from "./journal";
+import { listItems, recordMovement } from "./inventory";
+import { assertPeriodsOpen } from "./periods";
+import { getActiveTaxCode } from "./tax-codes";
+import { calculateTax } from "./tax-schema";
+
+const DEFAULT_DB_NAME = process.env.MONGODB_DB ?? "cloud-erp";
+
+export const BILL_STATUSES = [
+  "draft",
+  "open",
+  "partially_paid",
+  "paid",
+  "void",
+] as const;
+
+export type BillStatus = (typeof BILL_STATUSES)[number];
+
+export const PURCHASE_ORDER_STATUSES = [
+  "draft",
+  "approved",
+  "partially_received",
+  "received",
+  "closed",
+] as const;
+
+export type PurchaseOrderStatus = (typeof PURCHASE_ORDER_STATUSES)[number];
+
+export const DEFAULT_PAYMENT_TERM_DAYS = 30;
+
+/** Journal reference of every entry posted for a bill. */
+const BILL_REFERENCE_PREFIX = "bill:";
+
+type VendorDocument = {
+  _id?: ObjectId;
+  userId: ObjectId;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  /** Days after the bill date that payment is due by default. */
+  paymentTermDays: number;
+  /** PPh code withheld from payments to the vendor unless overridden. */
+  withholdingTaxCode?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+type BillLineDocument = {
+  description: string;
+  /** Expense or asset account the purchase is charged to. */
+  accountCode: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  /** Order line billed, on bills matched to a purchase order. */
+  purchaseOrderLineId?: ObjectId | null;
+};
+
+type BillPaymentDocument = {
+  _id: ObjectId;
+  date: Date;
+  /** Bill balance settled, including any tax withheld from the vendor. */
+  amount: number;
+  withholdingTaxCode?: string | null;
+  withholdingRate?: number | null;
+  /** Held back from the cash paid and owed to the tax office instead. */
+  withheldAmount?: number;
+  memo?: string | null;
+  journalEntryId: ObjectId;
+  createdAt: Date;
+};
+
+/**
+ * A bill received from a vendor. Approving it posts the purchases against
+ * accounts payable and each payment settles part of it, so account 2100
+ * always equals the open balance of approved bills.
+ */
+type BillDocument = {
+  _id?: ObjectId;
+  userId: ObjectId;
+  vendorId: ObjectId;
+  /** Order the bill must match, with its receipts, before approval. */
+  purchaseOrderId?: ObjectId | null;
+  number: string;
+  /** The vendor's own invoice number, for matching their statements. */
+  vendorReference?: string | null;
+  billDate: Date;
+  dueDate: Date;
+  memo?: string | null;
+  lines: BillLineDocument[];
+  total: number;
+  amountPaid: number;
+  status: BillStatus;
+  journalEntryId?: ObjectId | null;
+  payments: BillPaymentDocument[];
+  approvedAt?: Date | null;
+  voidedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+type PurchaseOrderLineDocument = {
+  _id: ObjectId;
+  itemId: ObjectId;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  /** Quantity taken into stock by goods receipts so far. */
+  quantityReceived: number;
+  /**
+   * Quantity on approved bills, claimed when each bill is approved. Orders
+   * from before it was tracked lack it until they are next billed.
+   */
+  quantityBilled?: number;
+};
+
+type GoodsReceiptDocument = {
+  _id: ObjectId;
+  date: Date;
+  /** The vendor's delivery note number. */
+  reference?: string | null;
+  lines: Array<{ lineId: ObjectId; quantity: number }>;
+  createdAt: Date;
+};
+
+/**
+ * Goods ordered from a vendor. Each receipt puts the delivered goods into
+ * stock at the ordered price against account 2150, which the vendor's bill
+ * clears once it has been matched to the order and what was received.
+ */
+type PurchaseOrderDocument = {
+  _id?: ObjectId;
+  userId: ObjectId;
+  vendorId: ObjectId;
+  number: string;
+  orderDate: Date;
+  expectedDate: Date;
+  memo?: string | null;
+  lines: PurchaseOrderLineDocument[];
+  total: number;
+  status: PurchaseOrderStatus;
+  receipts: GoodsReceiptDocument[];
+  approvedAt?: Date | null;
+  closedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type VendorSummary = {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  paymentTermDays: number;
+  withholdingTaxCode: string | null;
+  /** Unpaid amount of the vendor's approved bills. */
+  balance: number;
+  openBills: number;
+};
+
+export type BillPaymentSummary = {
+  id: string;
+  date: string;
+  amount: number;
+  withholdingTaxCode: string | null;
+  withheldAmount: number;
+  memo: string | null;
+};
+
+export type BillLineSummary = Omit<
+  BillLineDocument,
+  "purchaseOrderLineId"
+> & {
+  purchaseOrderLineId: string | null;
+};
+
+export type BillSummary = {
+  id: string;
+  number: string;
+  vendorId: string;
+  vendorName: string;
+  purchaseOrderId: string | null;
+  vendorReference: string | null;
+  billDate: string;
+  dueDate: string;
+  memo: string | null;
+  lines: BillLineSummary[];
+  total: number;
+  amountPaid: number;
+  balance: number;
+  status: BillStatus;
+  isOverdue: boolean;
+  payments: BillPaymentSummary[];
+};
+
+export type BillTotals = {
+  outstanding: number;
+  overdue: number;
+  dueThisWeek: number;
+  billedThisMonth: number;
+  paidThisMonth: number;
+  draftCount: number;
+};
+
+export type PurchaseOrderLineSummary = {
+  id: string;
+  itemId: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  quantityReceived: number;
+  /** Quantity on approved bills matched to the line. */
+  quantityBilled: number;
+};
+
+export type GoodsReceiptSummary = {
+  id: string;
+  date: string;
+  reference: string | null;
+  lines: Array<{ lineId: string; quantity: number }>;
+};
+
+export type PurchaseOrderSummary = {
+  id: string;
+  number: string;
+  vendorId: string;
+  vendorName: string;
+  orderDate: string;
+  expectedDate: string;
+  memo: string | null;
+  lines: PurchaseOrderLineSummary[];
+  total: number;
+  /** Ordered value of the goods received so far. */
+  receivedValue: number;
+  status: PurchaseOrderStatus;
+  /** Past its expected date with goods still to come. */
+  isLate: boolean;
+  receipts: GoodsReceiptSummary[];
+};
+
+export type CreateVendorInput = {
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  paymentTermDays?: number | null;
+  withholdingTaxCode?: string | null;
+};
+
+export type BillLineInput = {
+  description: string;
+  accountCode?: string | null;
+  quantity: number;
+  unitPrice: number;
+  /** Required on bills matched to a purchase order. */
+  purchaseOrderLineId?: string | null;
+};
+
+export type CreateBillInput = {
+  vendorId: string;
+  purchaseOrderId?: string | null;
+  vendorReference?: string | null;
+  billDate: Date;
+  /** Defaults to the bill date plus the vendor's payment terms. */
+  dueDate?: Date | null;
+  memo?: string | null;
+  lines: BillLineInput[];
+};
+
+export type BillPaymentInput = {
+  date: Date;
+  amount: number;
+  /**
+   * PPh code to withhold, or null for none. Left out, the vendor's own
+   * code applies.
+   */
+  withholdingTaxCode?: string | null;
+  memo?: string | null;
+};
+
+export type PurchaseOrderLineInput = {
+  itemId: string;
+  /** Defaults to the item's SKU and name. */
+  description?: string | null;
+  quantity: number;
+  unitPrice: number;
+};
+
+export type CreatePurchaseOrderInput = {
+  vendorId: string;
+  orderDate: Date;
+  expectedDate: Date;
+  memo?: string | null;
+  lines: PurchaseOrderLineInput[];
+};
+
+export type GoodsReceiptInput = {
+  date: Date;
+  reference?: string | null;
+  lines: Array<{ lineId: string; quantity: number }>;
+};
+
+export class VendorValidationError extends Error {}
+
+export class BillValidationError extends Error {}
+
+export class BillNotFoundError extends Error {}
+
+export class PurchaseOrderValidationError extends Error {}
+
+export class PurchaseOrderNotFoundError extends Error {}
+
+/** The order changed between reading and writing it; the caller may retry. */
+export class PurchaseOrderConflictError extends Error {}
+
+export function parseBillStatus(value: unknown): BillStatus | null {
+  return BILL_STATUSES.includes(value as BillStatus)
+    ? (value as BillStatus)
+    : null;
+}
+
+export function parsePurchaseOrderStatus(
+  value: unknown
+): PurchaseOrderStatus | null {
+  return PURCHASE_ORDER_STATUSES.includes(value as PurchaseOrderStatus)
+    ? (value as PurchaseOrderStatus)
+    : null;
+}
+
+async function getVendorsCollection(): Promise<Collection<VendorDocument>> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  return db.collection<VendorDocument>("vendors");
+}
+
+async function getBillsCollection(): Promise<Collection<BillDocument>> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  const collection = db.collection<BillDocument>("bills");
+  await ensureIndex(collection, { userId: 1, number: 1 }, { unique: true });
+  return collection;
+}
+
+async function getPurchaseOrdersCollection(): Promise<
+  Collection<PurchaseOrderDocument>
+> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  return db.collection<PurchaseOrderDocument>("purchase_orders");
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const roundQuantity = (value: number) => Math.round(value * 10000) / 10000;
+
+const optionalText = (value: string | null | undefined) =>
+  value && value.trim() ? value.trim() : null;
+
+function isOpen(status: BillStatus) {
+  return status === "open" || status === "partially_paid";
+}
+
+function startOfToday() {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+function addDays(date: Date, days: number) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function toBillSummary(
+  doc: BillDocument,
+  vendorName: string,
+  today: Date
+): BillSummary {
+  const balance = isOpen(doc.status)
+    ? roundAmount(doc.total - doc.amountPaid)
+    : 0;
+  return {
+    id: doc._id?.toString() ?? "",
+    number: doc.number,
+    vendorId: doc.vendorId.toString(),
+    vendorName,
+    purchaseOrderId: doc.purchaseOrderId?.toString() ?? null,
+    vendorReference: doc.vendorReference ?? null,
+    billDate: doc.billDate.toISOString(),
+    dueDate: doc.dueDate.toISOString(),
+    memo: doc.memo ?? null,
+    lines: doc.lines.map((line) => ({
+      ...line,
+      purchaseOrderLineId: line.purchaseOrderLineId?.toString() ?? null,
+    })),
+    total: doc.total,
+    amountPaid: doc.amountPaid,
+    balance,
+    status: doc.status,
+    isOverdue: balance > 0 && doc.dueDate < today,
+    payments: doc.payments.map((payment) => ({
+      id: payment._id.toString(),
+      date: payment.date.toISOString(),
+      amount: payment.amount,
+      withholdingTaxCode: payment.withholdingTaxCode ?? null,
+      withheldAmount: payment.withheldAmount ?? 0,
+      memo: payment.memo ?? null,
+    })),
+  };
+}
+
+async function loadVendorNames(
+  userId: ObjectId
+): Promise<Map<string, string>> {
+  const collection = await getVendorsCollection();
+  const vendors = await collection
+    .find({ userId }, { projection: { name: 1 } })
+    .toArray();
+  return new Map(vendors.map((vendor) => [vendor._id.toString(), vendor.name]));
+}
+
+function validatePaymentTerms(value: number | null | undefined): number {
+  if (value === undefined || value === null) {
+    return DEFAULT_PAYMENT_TERM_DAYS;
+  }
+  if (!Number.isInteger(value) || value < 0 || value > 365) {
+    throw new VendorValidationError(
+      "Payment terms must be between 0 and 365 days."
+    );
+  }
+  return value;
+}
+
+export async function listVendors(userId: ObjectId): Promise<VendorSummary[]> {
+  const [vendors, bills] = await Promise.all([
+    getVendorsCollection().then((collection) =>
+      collection.find({ userId }).sort({ name: 1 }).toArray()
+    ),
+    getBillsCollection().then((collection) =>
+      collection
+        .find({ userId, status: { $in: ["open", "partially_paid"] } })
+        .toArray()
+    ),
+  ]);
+
+  const balances = new Map<string, { balance: number; count: number }>();
+  bills.forEach((bill) => {
+    const key = bill.vendorId.toString();
+    const current = balances.get(key) ?? { balance: 0, count: 0 };
+    balances.set(key, {
+      balance: roundAmount(current.balance + bill.total - bill.amountPaid),
+      count: current.count + 1,
+    });
+  });
+
+  return vendors.map((vendor) => {
+    const id = vendor._id?.toString() ?? "";
+    return {
+      id,
+      name: vendor.name,
+      email: vendor.email ?? null,
+      phone: vendor.phone ?? null,
+      address: vendor.address ?? null,
+      paymentTermDays: vendor.paymentTermDays ?? DEFAULT_PAYMENT_TERM_DAYS,
+      withholdingTaxCode: vendor.withholdingTaxCode ?? null,
+      balance: balances.get(id)?.balance ?? 0,
+      openBills: balances.get(id)?.count ?? 0,
+    };
+  });
+}
+
+export async function createVendor(
+  userId: ObjectId,
+  input: CreateVendorInput
+): Promise<VendorSummary> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new VendorValidationError("Vendor name is required.");
+  }
+  const paymentTermDays = validatePaymentTerms(input.paymentTermDays);
+  const withholdingTaxCode = optionalText(input.withholdingTaxCode);
+  if (withholdingTaxCode) {
+    await getActiveTaxCode(userId, withholdingTaxCode, "withholding");
+  }
+
+  const collection = await getVendorsCollection();
+  const duplicate = await collection.findOne(
+    { userId, name },
+    { collation: { locale: "en", strength: 2 } }
+  );
+  if (duplicate) {
+    throw new VendorValidationError(`Vendor ${name} already exists.`);
+  }
+
+  const now = new Date();
+  const document: VendorDocument = {
+    userId,
+    name,
+    email: optionalText(input.email),
+    phone: optionalText(input.phone),
+    address: optionalText(input.address),
+    paymentTermDays,
+    withholdingTaxCode,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const { insertedId } = await collection.insertOne(document);
+
+  return {
+    id: insertedId.toString(),
+    name,
+    email: document.email ?? null,
+    phone: document.phone ?? null,
+    address: document.address ?? null,
+    paymentTermDays,
+    withholdingTaxCode,
+    balance: 0,
+    openBills: 0,
+  };
+}
+
+export async function listBills(userId: ObjectId): Promise<BillSummary[]> {
+  const collection = await getBillsCollection();
+  const [documents, vendorNames] = await Promise.all([
+    collection.find({ userId }).sort({ billDate: -1, number: -1 }).toArray(),
+    loadVendorNames(userId),
+  ]);
+  const today = startOfToday();
+
+  return documents.map((doc) =>
+    toBillSummary(
+      doc,
+      vendorNames.get(doc.vendorId.toString()) ?? "Unknown vendor",
+      today
+    )
+  );
+}
+
+/** Headline figures of the procurement page, around `reference`. */
+export function summarizeBills(
+  bills: BillSummary[],
+  reference = new Date()
+): BillTotals {
+  const today = new Date(
+    reference.getFullYear(),
+    reference.getMonth(),
+    reference.getDate()
+  );
+  const weekEnd = addDays(today, 7);
+  const monthStart = new Date(reference.getFullYear(), reference.getMonth(), 1);
+  const monthEnd = new Date(
+    reference.getFullYear(),
+    reference.getMonth() + 1,
+    1
+  );
+  const inMonth = (value: string) => {
+    const date = new Date(value);
+    return date >= monthStart && date < monthEnd;
+  };
+
+  return bills.reduce<BillTotals>(
+    (totals, bill) => {
+      if (bill.status === "draft") {
+        totals.draftCount += 1;
+        return totals;
+      }
+      if (bill.status === "void") {
+        return totals;
+      }
+      const dueDate = new Date(bill.dueDate);
+      totals.outstanding = roundAmount(totals.outstanding + bill.balance);
+      if (bill.isOverdue) {
+        totals.overdue = roundAmount(totals.overdue + bill.balance);
+      } else if (dueDate < weekEnd) {
+        totals.dueThisWeek = roundAmount(totals.dueThisWeek + bill.balance);
+      }
+      if (inMonth(bill.billDate)) {
+        totals.billedThisMonth = roundAmount(
+          totals.billedThisMonth + bill.total
+        );
+      }
+      bill.payments
+        .filter((payment) => inMonth(payment.date))
+        .forEach((payment) => {
+          totals.paidThisMonth = roundAmount(
+            totals.paidThisMonth + payment.amount
+          );
+        });
+      return totals;
+    },
+    {
+      outstanding: 0,
+      overdue: 0,
+      dueThisWeek: 0,
+      billedThisMonth: 0,
+      paidThisMonth: 0,
+      draftCount: 0,
+    }
+  );
+}
+
+function findOrderLine(
+  order: PurchaseOrderDocument,
+  lineId: ObjectId | string | null | undefined
+) {
+  return lineId
+    ? order.lines.find((line) => line._id.toString() === lineId.toString())
+    : undefined;
+}
+
+async function normaliseLines(
+  userId: ObjectId,
+  lines: BillLineInput[],
+  order: PurchaseOrderDocument | null = null
+): Promise<BillLineDocument[]> {
+  if (!lines.length) {
+    throw new BillValidationError("A bill needs at least one line.");
+  }
+  const chart = await loadChartOfAccounts(userId);
+
+  return lines.map((line) => {
+    const orderLine = order
+      ? findOrderLine(order, line.purchaseOrderLineId)
+      : undefined;
+    if (order && !orderLine) {
+      throw new BillValidationError(
+        `Every line must be a line of purchase order ${order.number}.`
+      );
+    }
+    const description = line.description.trim() || orderLine?.description;
+    if (!description) {
+      throw new BillValidationError("Every line needs a description.");
+    }
+    // Matched lines settle what the goods receipts left in account 2150
+    const accountCode = orderLine
+      ? ACCOUNT_CODES.GOODS_RECEIVED_NOT_INVOICED
+      : line.accountCode?.trim() || ACCOUNT_CODES.OPERATING_EXPENSE;
+    const account = getAccountDefinition(accountCode, chart);
+    if (!account || account.isActive === false) {
+      throw new BillValidationError(
+        `Account ${accountCode} is not an active account.`
+      );
+    }
+    if (
+      !orderLine &&
+      account.type !== "expense" &&
+      account.type !== "asset"
+    ) {
+      throw new BillValidationError(
+        "Bill lines can only be charged to expense or asset accounts."
+      );
+    }
+    if (account.isCash) {
+      throw new BillValidationError(
+        "Bill lines cannot be charged to a cash account."
+      );
+    }
+    if (!Number.isFinite(line.quantity) || line.quantity <= 0) {
+      throw new BillValidationError(
+        "Line quantities must be greater than zero."
+      );
+    }
+    if (!Number.isFinite(line.unitPrice) || line.unitPrice < 0) {
+      throw new BillValidationError("Unit prices cannot be negative.");
+    }
+    return {
+      description,
+      accountCode,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      amount: roundAmount(line.quantity * line.unitPrice),
+      purchaseOrderLineId: orderLine?._id ?? null,
+    };
+  });
+}
+
+/** The approved order a bill from `vendorId` is matched to. */
+async function findBillableOrder(
+  userId: ObjectId,
+  purchaseOrderId: ObjectId | string,
+  vendorId: ObjectId
+): Promise<PurchaseOrderDocument & { _id: ObjectId }> {
+  const collection = await getPurchaseOrdersCollection();
+  const order = ObjectId.isValid(purchaseOrderId)
+    ? await collection.findOne({ _id: new ObjectId(purchaseOrderId), userId })
+    : null;
+  if (!order) {
+    throw new BillValidationError("Purchase order not found.");
+  }
+  if (!order.vendorId.equals(vendorId)) {
+    throw new BillValidationError(
+      `Purchase order ${order.number} was placed with another vendor.`
+    );
+  }
+  if (order.status === "draft") {
+    throw new BillValidationError(
+      `Purchase order ${order.number} has not been approved.`
+    );
+  }
+  return order;
+}
+
+/** Quantities on approved bills matched to each purchase order line. */
+async function loadBilledQuantities(
+  userId: ObjectId,
+  purchaseOrderId?: ObjectId
+): Promise<Map<string, number>> {
+  const collection = await getBillsCollection();
+  const bills = await collection
+    .find({
+      userId,
+      purchaseOrderId: purchaseOrderId ?? { $ne: null },
+      status: { $nin: ["draft", "void"] },
+    })
+    .toArray();
+
+  const billed = new Map<string, number>();
+  bills.forEach((bill) => {
+    bill.lines.forEach((line) => {
+      const key = line.purchaseOrderLineId?.toString();
+      if (key) {
+        billed.set(
+          key,
+          roundQuantity((billed.get(key) ?? 0) + line.quantity)
+        );
+      }
+    });
+  });
+  return billed;
+}
+
+/**
+ * Three-way match of a bill with its purchase order and the goods received
+ * on it: every line must be billed at the ordered price, for no more than
+ * was received and not billed already. The quantities are claimed on the
+ * order when the bill is approved.
+ */
+async function assertThreeWayMatch(
+  userId: ObjectId,
+  bill: BillDocument,
+  order: PurchaseOrderDocument & { _id: ObjectId }
+): Promise<void> {
+  const billed = await loadBilledQuantities(userId, order._id);
+
+  bill.lines.forEach((line) => {
+    const orderLine = findOrderLine(order, line.purchaseOrderLineId);
+    if (!orderLine) {
+      throw new BillValidationError(
+        `Three-way match failed: ${line.description} is not on purchase ` +
+          `order ${order.number}.`
+      );
+    }
+    if (Math.abs(line.unitPrice - orderLine.unitPrice) >= 0.005) {
+      throw new BillValidationError(
+        `Three-way match failed: ${line.description} is billed at ` +
+          `${line.unitPrice} but was ordered at ${orderLine.unitPrice}.`
+      );
+    }
+    const key = orderLine._id.toString();
+    const alreadyBilled = billed.get(key) ?? 0;
+    const unbilled = roundQuantity(orderLine.quantityReceived - alreadyBilled);
+    if (line.quantity > unbilled) {
+      throw new BillValidationError(
+        `Three-way match failed: only ${unbilled} of ${line.description} ` +
+          "has been received and not yet billed."
+      );
+    }
+    billed.set(key, roundQuantity(alreadyBilled + line.quantity));
+  });
+}
+
+/** Quantity a bill takes from each purchase order line. */
+function billedLineQuantities(bill: BillDocument): Map<string, number> {
+  const quantities = new Map<string, number>();
+  bill.lines.forEach((line) => {
+    const key = line.purchaseOrderLineId?.toString();
+    if (key) {
+      quantities.set(
+        key,
+        roundQuantity((quantities.get(key) ?? 0) + line.quantity)
+      );
+    }
+  });
+  return quantities;
+}
+
+/** `$inc` of the billed quantity of each line, with its array filters. */
+function billedQuantityUpdate(quantities: Map<string, number>, sign: 1 | -1) {
+  const entries = Array.from(quantities);
+  return {
+    inc: Object.fromEntries(
+      entries.map(([, quantity], index) => [
+        `lines.$[line${index}].quantityBilled`,
+        quantity * sign,
+      ])
+    ),
+    // Lines not yet backfilled are left for the backfill to count
+    arrayFilters: entries.map(([lineId], index) => ({
+      [`line${index}._id`]: new ObjectId(lineId),
+      [`line${index}.quantityBilled`]: { $exists: true },
+    })),
+  };
+}
+
+/**
+ * Claim a bill's quantities on its purchase order in one conditional
+ * update, so bills approved at the same time cannot together bill more
+ * than was received.
+ */
+async function claimBilledQuantities(
+  userId: ObjectId,
+  order: PurchaseOrderDocument & { _id: ObjectId },
+  quantities: Map<string, number>
+): Promise<void> {
+  const collection = await getPurchaseOrdersCollection();
+
+  // Orders from before billed quantities were kept start from their bills
+  if (order.lines.some((line) => line.quantityBilled === undefined)) {
+    const billed = await loadBilledQuantities(userId, order._id);
+    const missing = order.lines.filter(
+      (line) => line.quantityBilled === undefined
+    );
+    await collection.updateOne(
+      { _id: order._id, userId },
+      {
+        $set: Object.fromEntries(
+          missing.map((line, index) => [
+            `lines.$[line${index}].quantityBilled`,
+            billed.get(line._id.toString()) ?? 0,
+          ])
+        ),
+      },
+      {
+        arrayFilters: missing.map((line, index) => ({
+          [`line${index}._id`]: line._id,
+          [`line${index}.quantityBilled`]: { $exists: false },
+        })),
+      }
+    );
+  }
+
+  const { inc, arrayFilters } = billedQuantityUpdate(quantities, 1);
+  const claimed = await collection.updateOne(
+    {
+      _id: order._id,
+      userId,
+      $expr: {
+        $and: Array.from(quantities).map(([lineId, quantity]) => ({
+          $anyElementTrue: [
+            {
+              $map: {
+                input: "$lines",
+                as: "line",
+                in: {
+                  $and: [
+                    { $eq: ["$$line._id", new ObjectId(lineId)] },
+                    {
+                      $lte: [
+                        { $add: ["$$line.quantityBilled", quantity] },
+                        { $add: ["$$line.quantityReceived", 0.00005] },
+                      ],
+                    },
+                  ],
+                },
+              },
+            },
+          ],
+        })),
+      },
+    },
+    { $inc: inc, $set: { updatedAt: new Date() } },
+    { arrayFilters }
+  );
+
+  if (claimed.matchedCount === 0) {
+    throw new BillValidationError(
+      `Three-way match failed: another bill on purchase order ` +
+        `${order.number} took the goods received. Check what is left to bill.`
+    );
+  }
+}
+
+/** Give back the quantities of a bill that was voided or failed to post. */
+async function releaseBilledQuantities(
+  userId: ObjectId,
+  orderId: ObjectId,
+  quantities: Map<string, number>
+): Promise<void> {
+  const collection = await getPurchaseOrdersCollection();
+  const { inc, arrayFilters } = billedQuantityUpdate(quantities, -1);
+  await collection.updateOne(
+    { _id: orderId, userId },
+    { $inc: inc, $set: { updatedAt: new Date() } },
+    { arrayFilters }
+  );
+}
+
+async function nextBillNumber(
+  collection: Collection<BillDocument>,
+  userId: ObjectId
+): Promise<string> {
+  // Follow the latest number, so deleted drafts never cause duplicates
+  const latest = await collection.findOne(
+    { userId },
+    { sort: { createdAt: -1 }, projection: { number: 1 } }
+  );
+  const sequence = Number(latest?.number.replace(/\D/g, "") ?? 0);
+  return `BILL-${String(sequence + 1).padStart(4, "0")}`;
+}
+
+/**
+ * Insert under the next free number, retrying when a bill created at the
+ * same time took it first.
+ */
+async function insertWithNextNumber(
+  collection: Collection<BillDocument>,
+  document: BillDocument
+): Promise<ObjectId> {
+  for (let attempt = 0; ; attempt += 1) {
+    document.number = await nextBillNumber(collection, document.userId);
+    try {
+      const { insertedId } = await collection.insertOne(document);
+      return insertedId;
+    } catch (error) {
+      if (!isDuplicateKeyError(error) || attempt >= 4) {
+        throw error;
+      }
+    }
+  }
+}
+
+export async function createBill(
+  userId: ObjectId,
+  input: CreateBillInput
+): Promise<BillSummary> {
+  if (!ObjectId.isValid(input.vendorId)) {
+    throw new BillValidationError("Select a vendor.");
+  }
+  const vendorId = new ObjectId(input.vendorId);
+  const vendors = await getVendorsCollection();
+  const vendor = await vendors.findOne({ _id: vendorId, userId });
+  if (!vendor) {
+    throw new BillValidationError("Vendor not found.");
+  }
+  const order = input.purchaseOrderId
+    ? await findBillableOrder(userId, input.purchaseOrderId, vendorId)
+    : null;
+
+  const dueDate =
+    input.dueDate ??
+    addDays(
+      input.billDate,
+      vendor.paymentTermDays ?? DEFAULT_PAYMENT_TERM_DAYS
+    );
+  if (dueDate < input.billDate) {
+    throw new BillValidationError(
+      "The due date cannot be before the bill date."
+    );
+  }
+
+  const lines = await normaliseLines(userId, input.lines, order);
+  const total = roundAmount(lines.reduce((sum, line) => sum + line.amount, 0));
+  if (total <= 0) {
+    throw new BillValidationError("Bill total must be greater than zero.");
+  }
+
+  const collection = await getBillsCollection();
+  const now = new Date();
+  const document: BillDocument = {
+    userId,
+    vendorId,
+    purchaseOrderId: order?._id ?? null,
+    number: "",
+    vendorReference: optionalText(input.vendorReference),
+    billDate: input.billDate,
+    dueDate,
+    memo: optionalText(input.memo),
+    lines,
+    total,
+    amountPaid: 0,
+    status: "draft",
+    journalEntryId: null,
+    payments: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  const insertedId = await insertWithNextNumber(collection, document);
+
+  return toBillSummary(
+    { ...document, _id: insertedId },
+    vendor.name,
+    startOfToday()
+  );
+}
+
+async function findBill(
+  collection: Collection<BillDocument>,
+  userId: ObjectId,
+  id: string
+): Promise<BillDocument & { _id: ObjectId }> {
+  if (!ObjectId.isValid(id)) {
+    throw new BillNotFoundError("Bill not found.");
+  }
+  const bill = await collection.findOne({ _id: new ObjectId(id), userId });
+  if (!bill) {
+    throw new BillNotFoundError("Bill not found.");
+  }
+  return bill;
+}
+
+async function toStoredSummary(
+  collection: Collection<BillDocument>,
+  userId: ObjectId,
+  id: ObjectId
+): Promise<BillSummary> {
+  const [bill, vendorNames] = await Promise.all([
+    collection.findOne({ _id: id, userId }),
+    loadVendorNames(userId),
+  ]);
+  if (!bill) {
+    throw new BillNotFoundError("Bill not found.");
+  }
+  return toBillSummary(
+    bill,
+    vendorNames.get(bill.vendorId.toString()) ?? "Unknown vendor",
+    startOfToday()
+  );
+}
+
+/**
+ * Post the purchases of a draft bill against accounts payable. Bills of a
+ * purchase order must pass the three-way match first.
+ */
+export async function approveBill(
+  userId: ObjectId,
+  id: string
+): Promise<BillSummary> {
+  const collection = await getBillsCollection();
+  const bill = await findBill(collection, userId, id);
+  if (bill.status !== "draft") {
+    throw new BillValidationError("Only draft bills can be approved.");
+  }
+
+  const order = bill.purchaseOrderId
+    ? await findBillableOrder(userId, bill.purchaseOrderId, bill.vendorId)
+    : null;
+  if (order) {
+    await assertThreeWayMatch(userId, bill, order);
+  }
+
+  await assertPeriodsOpen(userId, bill.billDate);
+
+  const quantities = billedLineQuantities(bill);
+  if (order) {
+    await claimBilledQuantities(userId, order, quantities);
+  }
+  const release = async () => {
+    if (order) {
+      await releaseBilledQuantities(userId, order._id, quantities);
+    }
+  };
+
+  const memo = `Bill ${bill.number}`;
+  const entry = await postJournal(userId, {
+    referenceId: `${BILL_REFERENCE_PREFIX}${bill._id.toString()}`,
+    date: bill.billDate,
+    memo,
+    lines: [
+      // Free lines stay on the bill but carry nothing to post
+      ...bill.lines
+        .filter((line) => line.amount > 0)
+        .map((line) => ({
+          accountCode: line.accountCode,
+          debit: line.amount,
+          description: line.description,
+        })),
+      {
+        accountCode: ACCOUNT_CODES.ACCOUNTS_PAYABLE,
+        credit: bill.total,
+        description: memo,
+      },
+    ],
+  }).catch(async (error) => {
+    await release();
+    throw error;
+  });
+
+  const now = new Date();
+  const approved = await collection.updateOne(
+    { _id: bill._id, userId, status: "draft" },
+    {
+      $set: {
+        status: "open",
+        journalEntryId: entry._id ?? null,
+        approvedAt: now,
+        updatedAt: now,
+      },
+    }
+  );
+
+  if (approved.matchedCount === 0) {
+    // Approved or deleted by another request since it was read
+    if (entry._id) {
+      await reverseJournal(entry._id, userId);
+    }
+    await release();
+    throw new BillValidationError("Only draft bills can be approved.");
+  }
+
+  // An order received and billed in full has nothing left to do
+  if (order) {
+    const orders = await getPurchaseOrdersCollection();
+    const current = await orders.findOne({ _id: order._id, userId });
+    if (
+      current?.status === "received" &&
+      current.lines.every(
+        (line) => (line.quantityBilled ?? 0) >= line.quantity
+      )
+    ) {
+      await orders.updateOne(
+        { _id: order._id, userId, status: "received" },
+        { $set: { status: "closed", closedAt: now, updatedAt: now } }
+      );
+    }
+  }
+
+  return toStoredSummary(collection, userId, bill._id);
+}
+
+/**
+ * Record money paid against an approved bill. Tax withheld under a PPh
+ * code settles the bill like cash but is posted to 2330, to be paid to the
+ * tax office on the vendor's behalf.
+ */
+export async function recordBillPayment(
+  userId: ObjectId,
+  id: string,
+  input: BillPaymentInput
+): Promise<BillSummary> {
+  const collection = await getBillsCollection();
+  const bill = await findBill(collection, userId, id);
+  if (!isOpen(bill.status)) {
+    throw new BillValidationError(
+      "Payments can only be recorded on open or partially paid bills."
+    );
+  }
+
+  const amount = roundAmount(input.amount);
+  const balance = roundAmount(bill.total - bill.amountPaid);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new BillValidationError("Payment amount must be greater than zero.");
+  }
+  if (amount > balance) {
+    throw new BillValidationError(
+      "Payment amount cannot exceed the bill balance."
+    );
+  }
+  if (input.date < bill.billDate) {
+    throw new BillValidationError("A payment cannot be dated before the bill.");
+  }
+
+  await assertPeriodsOpen(userId, input.date);
+
+  let withholdingCode = input.withholdingTaxCode;
+  if (withholdingCode === undefined) {
+    const vendors = await getVendorsCollection();
+    const vendor = await vendors.findOne(
+      { _id: bill.vendorId, userId },
+      { projection: { withholdingTaxCode: 1 } }
+    );
+    withholdingCode = vendor?.withholdingTaxCode;
+  }
+  const withholding = withholdingCode
+    ? await getActiveTaxCode(userId, withholdingCode, "withholding")
+    : null;
+  const withheldAmount = withholding
+    ? calculateTax(amount, withholding.rate, false).tax
+    : 0;
+
+  const memo = `Payment for bill ${bill.number}`;
+  const entry = await postJournal(userId, {
+    referenceId: `${BILL_REFERENCE_PREFIX}${bill._id.toString()}`,
+    date: input.date,
+    memo,
+    lines: [
+      {
+        accountCode: ACCOUNT_CODES.ACCOUNTS_PAYABLE,
+        debit: amount,
+        description: memo,
+      },
+      {
+        accountCode: ACCOUNT_CODES.CASH,
+        credit: roundAmount(amount - withheldAmount),
+        description: memo,
+      },
+      ...(withholding && withheldAmount > 0
+        ? [
+            {
+              accountCode: ACCOUNT_CODES.WITHHOLDING_TAX_PAYABLE,
+              credit: withheldAmount,
+              description: `${withholding.name} withheld`,
+            },
+          ]
+        : []),
+    ],
+  });
+
+  const now = new Date();
+  const amountPaid = roundAmount(bill.amountPaid + amount);
+  const payment: BillPaymentDocument = {
+    _id: new ObjectId(),
+    date: input.date,
+    amount,
+    withholdingTaxCode: withholding?.code ?? null,
+    withholdingRate: withholding?.rate ?? null,
+    withheldAmount,
+    memo: optionalText(input.memo),
+    journalEntryId: entry._id as ObjectId,
+    createdAt: now,
+  };
+  const recorded = await collection.updateOne(
+    { _id: bill._id, userId, status: bill.status, amountPaid: bill.amountPaid },
+    {
+      $inc: { amountPaid: amount },
+      $set: {
+        status: amountPaid >= bill.total ? "paid" : "partially_paid",
+        updatedAt: now,
+      },
+      $push: { payments: payment },
+    }
+  );
+
+  if (recorded.matchedCount === 0) {
+    // Another payment or a void got in first; the balance checked is stale
+    await reverseJournal(payment.journalEntryId, userId);
+    throw new BillValidationError(
+      "The bill changed while the payment was recorded. Try again."
+    );
+  }
+
+  return toStoredSummary(collection, userId, bill._id);
+}
+
+/**
+ * Cancel a bill. Approved bills keep their journals on record and are
+ * cancelled by reversals of the payable and of every payment.
+ */
+export async function voidBill(
+  userId: ObjectId,
+  id: string
+): Promise<BillSummary> {
+  const collection = await getBillsCollection();
+  const bill = await findBill(collection, userId, id);
+  if (bill.status === "void") {
+    throw new BillValidationError("Bill is already void.");
+  }
+
+  await assertPeriodsOpen(
+    userId,
+    bill.journalEntryId ? bill.billDate : null,
+    ...bill.payments.map((payment) => payment.date)
+  );
+
+  const entryIds = [
+    ...bill.payments.map((payment) => payment.journalEntryId),
+    ...(bill.journalEntryId ? [bill.journalEntryId] : []),
+  ];
+  const reversals: ObjectId[] = [];
+  try {
+    for (const entryId of entryIds) {
+      const reversal = await reverseJournal(entryId, userId);
+      reversals.push(reversal._id as ObjectId);
+    }
+  } catch (error) {
+    // A bill is voided whole or not at all
+    for (const reversalId of reversals) {
+      await cancelReversal(reversalId, userId);
+    }
+    throw error;
+  }
+
+  const now = new Date();
+  const voided = await collection.updateOne(
+    { _id: bill._id, userId, status: bill.status, amountPaid: bill.amountPaid },
+    { $set: { status: "void", voidedAt: now, updatedAt: now } }
+  );
+
+  if (voided.matchedCount === 0) {
+    for (const reversalId of reversals) {
+      await cancelReversal(reversalId, userId);
+    }
+    throw new BillValidationError(
+      "The bill changed while it was voided. Try again."
+    );
+  }
+
+  // Goods billed on an approved bill can be billed again
+  if (bill.purchaseOrderId && bill.status !== "draft") {
+    await releaseBilledQuantities(
+      userId,
+      bill.purchaseOrderId,
+      billedLineQuantities(bill)
+    );
+  }
+
+  return toStoredSummary(collection, userId, bill._id);
+}
+
+/** Remove a draft bill. Approved bills can only be voided. */
+export async function deleteBill(userId: ObjectId, id: string) {
+  const collection = await getBillsCollection();
+  const bill = await findBill(collection, userId, id);
+  if (bill.status !== "draft") {
+    throw new BillValidationError(
+      "Only draft bills can be deleted. Void it instead."
+    );
+  }
+  await collection.deleteOne({ _id: bill._id, userId });
+}
+
+function toPurchaseOrderSummary(
+  doc: PurchaseOrderDocument,
+  vendorName: string,
+  billed: Map<string, number>,
+  today: Date
+): PurchaseOrderSummary {
+  const lines = doc.lines.map<PurchaseOrderLineSummary>((line) => ({
+    id: line._id.toString(),
+    itemId: line.itemId.toString(),
+    description: line.description,
+    quantity: line.quantity,
+    unitPrice: line.unitPrice,
+    amount: line.amount,
+    quantityReceived: line.quantityReceived,
+    quantityBilled: billed.get(line._id.toString()) ?? 0,
+  }));
+  return {
+    id: doc._id?.toString() ?? "",
+    number: doc.number,
+    vendorId: doc.vendorId.toString(),
+    vendorName,
+    orderDate: doc.orderDate.toISOString(),
+    expectedDate: doc.expectedDate.toISOString(),
+    memo: doc.memo ?? null,
+    lines,
+    total: doc.total,
+    receivedValue: roundAmount(
+      lines.reduce(
+        (sum, line) => sum + line.quantityReceived * line.unitPrice,
+        0
+      )
+    ),
+    status: doc.status,
+    isLate:
+      (doc.status === "approved" || doc.status === "partially_received") &&
+      doc.expectedDate < today,
+    receipts: doc.receipts.map((receipt) => ({
+      id: receipt._id.toString(),
+      date: receipt.date.toISOString(),
+      reference: receipt.reference ?? null,
+      lines: receipt.lines.map((line) => ({
+        lineId: line.lineId.toString(),
+        quantity: line.quantity,
+      })),
+    })),
+  };
+}
+
+export async function listPurchaseOrders(
+  userId: ObjectId
+): Promise<PurchaseOrderSummary[]> {
+  const collection = await getPurchaseOrdersCollection();
+  const [documents, vendorNames, billed] = await Promise.all([
+    collection.find({ userId }).sort({ orderDate: -1, number: -1 }).toArray(),
+    loadVendorNames(userId),
+    loadBilledQuantities(userId),
+  ]);
+  const today = startOfToday();
+
+  return documents.map((doc) =>
+    toPurchaseOrderSummary(
+      doc,
+      vendorNames.get(doc.vendorId.toString()) ?? "Unknown vendor",
+      billed,
+      today
+    )
+  );
+}
+
+async function nextPurchaseOrderNumber(
+  collection: Collection<PurchaseOrderDocument>,
+  userId: ObjectId
+): Promise<string> {
+  const latest = await collection.findOne(
+    { userId },
+    { sort: { createdAt: -1 }, projection: { number: 1 } }
+  );
+  const sequence = Number(latest?.number.replace(/\D/g, "") ?? 0);
+  return `PO-${String(sequence + 1).padStart(4, "0")}`;
+}
+
+export async function createPurchaseOrder(
+  userId: ObjectId,
+  input: CreatePurchaseOrderInput
+): Promise<PurchaseOrderSummary> {
+  if (!ObjectId.isValid(input.vendorId)) {
+    throw new PurchaseOrderValidationError("Select a vendor.");
+  }
+  const vendorId = new ObjectId(input.vendorId);
+  const vendors = await getVendorsCollection();
+  const vendor = await vendors.findOne({ _id: vendorId, userId });
+  if (!vendor) {
+    throw new PurchaseOrderValidationError("Vendor not found.");
+  }
+  if (input.expectedDate < input.orderDate) {
+    throw new PurchaseOrderValidationError(
+      "The expected date cannot be before the order date."
+    );
+  }
+  if (!input.lines.length) {
+    throw new PurchaseOrderValidationError(
+      "A purchase order needs at least one line."
+    );
+  }
+
+  const items = new Map(
+    (await listItems(userId)).map((item) => [item.id, item])
+  );
+  const lines = input.lines.map<PurchaseOrderLineDocument>((line) => {
+    const item = items.get(line.itemId);
+    if (!item) {
+      throw new PurchaseOrderValidationError(
+        "Every line needs an inventory item."
+      );
+    }
+    const quantity = roundQuantity(line.quantity);
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw new PurchaseOrderValidationError(
+        "Line quantities must be greater than zero."
+      );
+    }
+    if (!Number.isFinite(line.unitPrice) || line.unitPrice < 0) {
+      throw new PurchaseOrderValidationError("Unit prices cannot be negative.");
+    }
+    return {
+      _id: new ObjectId(),
+      itemId: new ObjectId(item.id),
+      description:
+        optionalText(line.description) ?? `${item.sku} - ${item.name}`,
+      quantity,
+      unitPrice: line.unitPrice,
+      amount: roundAmount(quantity * line.unitPrice),
+      quantityReceived: 0,
+      quantityBilled: 0,
+    };
+  });
+  const total = roundAmount(lines.reduce((sum, line) => sum + line.amount, 0));
+  if (total <= 0) {
+    throw new PurchaseOrderValidationError(
+      "Order total must be greater than zero."
+    );
+  }
+
+  const collection = await getPurchaseOrdersCollection();
+  const now = new Date();
+  const document: PurchaseOrderDocument = {
+    userId,
+    vendorId,
+    number: await nextPurchaseOrderNumber(collection, userId),
+    orderDate: input.orderDate,
+    expectedDate: input.expectedDate,
+    memo: optionalText(input.memo),
+    lines,
+    total,
+    status: "draft",
+    receipts: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  const { insertedId } = await collection.insertOne(document);
+
+  return toPurchaseOrderSummary(
+    { ...document, _id: insertedId },
+    vendor.name,
+    new Map(),
+    startOfToday()
+  );
+}
+
+async function findPurchaseOrder(
+  collection: Collection<PurchaseOrderDocument>,
+  userId: ObjectId,
+  id: string
+): Promise<PurchaseOrderDocument & { _id: ObjectId }> {
+  if (!ObjectId.isValid(id)) {
+    throw new PurchaseOrderNotFoundError("Purchase order not found.");
+  }
+  const order = await collection.findOne({ _id: new ObjectId(id), userId });
+  if (!order) {
+    throw new PurchaseOrderNotFoundError("Purchase order not found.");
+  }
+  return order;
+}
+
+async function toStoredOrderSummary(
+  collection: Collection<PurchaseOrderDocument>,
+  userId: ObjectId,
+  id: ObjectId
+): Promise<PurchaseOrderSummary> {
+  const [order, vendorNames, billed] = await Promise.all([
+    collection.findOne({ _id: id, userId }),
+    loadVendorNames(userId),
+    loadBilledQuantities(userId, id),
+  ]);
+  if (!order) {
+    throw new PurchaseOrderNotFoundError("Purchase order not found.");
+  }
+  return toPurchaseOrderSummary(
+    order,
+    vendorNames.get(order.vendorId.toString()) ?? "Unknown vendor",
+    billed,
+    startOfToday()
+  );
+}
+
+/** Release a draft order to the vendor so goods can be received on it. */
+export async function approvePurchaseOrder(
+  userId: ObjectId,
+  id: string
+): Promise<PurchaseOrderSummary> {
+  const collection = await getPurchaseOrdersCollection();
+  const order = await findPurchaseOrder(collection, userId, id);
+  if (order.status !== "draft") {
+    throw new PurchaseOrderValidationError(
+      "Only draft purchase orders can be approved."
+    );
+  }
+
+  const now = new Date();
+  const approved = await collection.updateOne(
+    { _id: order._id, userId, status: "draft" },
+    { $set: { status: "approved", approvedAt: now, updatedAt: now } }
+  );
+  if (approved.matchedCount === 0) {
+    throw new PurchaseOrderConflictError(
+      `Purchase order ${order.number} was approved or deleted meanwhile.`
+    );
+  }
+
+  return toStoredOrderSummary(collection, userId, order._id);
+}
+
+function receivedStatus(
+  lines: PurchaseOrderLineDocument[]
+): PurchaseOrderStatus {
+  if (lines.every((line) => line.quantityReceived >= line.quantity)) {
+    return "received";
+  }
+  return lines.some((line) => line.quantityReceived > 0)
+    ? "partially_received"
+    : "approved";
+}
+
+/**
+ * Record a delivery against an approved order. Every line received goes
+ * into stock at the ordered price, owed in account 2150 until it is billed.
+ */
+export async function receivePurchaseOrder(
+  userId: ObjectId,
+  id: string,
+  input: GoodsReceiptInput
+): Promise<PurchaseOrderSummary> {
+  const collection = await getPurchaseOrdersCollection();
+  const order = await findPurchaseOrder(collection, userId, id);
+  if (order.status !== "approved" && order.status !== "partially_received") {
+    throw new PurchaseOrderValidationError(
+      "Goods can only be received on approved orders still awaiting delivery."
+    );
+  }
+  if (input.date < order.orderDate) {
+    throw new PurchaseOrderValidationError(
+      "Goods cannot be received before the order date."
+    );
+  }
+
+  const seen = new Set<string>();
+  const deliveries = input.lines
+    .filter((entry) => entry.quantity !== 0)
+    .map((entry) => {
+      const line = findOrderLine(order, entry.lineId);
+      if (!line || seen.has(entry.lineId)) {
+        throw new PurchaseOrderValidationError(
+          "Each receipt line must be a different line of the order."
+        );
+      }
+      seen.add(entry.lineId);
+      const quantity = roundQuantity(entry.quantity);
+      const outstanding = roundQuantity(line.quantity - line.quantityReceived);
+      if (!Number.isFinite(quantity) || quantity < 0) {
+        throw new PurchaseOrderValidationError(
+          "Received quantities cannot be negative."
+        );
+      }
+      if (quantity > outstanding) {
+        throw new PurchaseOrderValidationError(
+          `Only ${outstanding} of ${line.description} is still to be received.`
+        );
+      }
+      return { line, quantity };
+    });
+  if (!deliveries.length) {
+    throw new PurchaseOrderValidationError(
+      "Enter the quantity received on at least one line."
+    );
+  }
+
+  await assertPeriodsOpen(userId, input.date);
+
+  const receipt: GoodsReceiptDocument = {
+    _id: new ObjectId(),
+    date: input.date,
+    reference: optionalText(input.reference),
+    lines: deliveries.map(({ line, quantity }) => ({
+      lineId: line._id,
+      quantity,
+    })),
+    createdAt: new Date(),
+  };
+  const received = order.lines.map((line) => ({
+    ...line,
+    quantityReceived: roundQuantity(
+      line.quantityReceived +
+        (deliveries.find((delivery) => delivery.line._id.equals(line._id))
+          ?.quantity ?? 0)
+    ),
+  }));
+
+  // Claim the delivery before stock moves, against the order as it was read
+  const claimed = await collection.updateOne(
+    {
+      _id: order._id,
+      userId,
+      status: order.status,
+      receipts: { $size: order.receipts.length },
+    },
+    {
+      $inc: Object.fromEntries(
+        deliveries.map(({ quantity }, index) => [
+          `lines.$[line${index}].quantityReceived`,
+          quantity,
+        ])
+      ),
+      $set: { status: receivedStatus(received), updatedAt: new Date() },
+      $push: { receipts: receipt },
+    },
+    {
+      arrayFilters: deliveries.map(({ line }, index) => ({
+        [`line${index}._id`]: line._id,
+      })),
+    }
+  );
+  if (claimed.matchedCount === 0) {
+    throw new PurchaseOrderConflictError(
+      `Purchase order ${order.number} changed while the goods were ` +
+        "received. Reload it and try again."
+    );
+  }
+
+  const recorded: typeof deliveries = [];
+  try {
+    for (const delivery of deliveries) {
+      await recordMovement(userId, {
+        itemId: delivery.line.itemId.toString(),
+        type: "receipt",
+        date: input.date,
+        quantity: delivery.quantity,
+        unitCost: delivery.line.unitPrice,
+        offsetAccountCode: ACCOUNT_CODES.GOODS_RECEIVED_NOT_INVOICED,
+        reference: receipt.reference
+          ? `${order.number} / ${receipt.reference}`
+          : order.number,
+        memo: `Goods receipt ${order.number}`,
+      });
+      recorded.push(delivery);
+    }
+  } catch (error) {
+    // Lines already taken into stock stay received; the rest are given back
+    const unrecorded = deliveries.filter(
+      (delivery) => !recorded.includes(delivery)
+    );
+    const current = await collection.findOne({ _id: order._id, userId });
+    const lines = (current?.lines ?? received).map((line) => ({
+      ...line,
+      quantityReceived: roundQuantity(
+        line.quantityReceived -
+          (unrecorded.find(({ line: { _id } }) => _id.equals(line._id))
+            ?.quantity ?? 0)
+      ),
+    }));
+    const keptLines = receipt.lines.filter((line) =>
+      recorded.some(({ line: { _id } }) => _id.equals(line.lineId))
+    );
+    await collection.updateOne(
+      { _id: order._id, userId, "receipts._id": receipt._id },
+      {
+        $inc: Object.fromEntries(
+          unrecorded.map(({ quantity }, index) => [
+            `lines.$[line${index}].quantityReceived`,
+            -quantity,
+          ])
+        ),
+        $set: {
+          status: receivedStatus(lines),
+          updatedAt: new Date(),
+          ...(keptLines.length ? { "receipts.$.lines": keptLines } : {}),
+        },
+        ...(keptLines.length
+          ? {}
+          : { $pull: { receipts: { _id: receipt._id } } }),
+      },
+      {
+        arrayFilters: unrecorded.map(({ line }, index) => ({
+          [`line${index}._id`]: line._id,
+        })),
+      }
+    );
+    throw error;
+  }
+
+  return toStoredOrderSummary(collection, userId, order._id);
+}
+
+/**
+ * Stop receiving on an order, for instance when the vendor cannot deliver
+ * the rest. Goods already received can still be billed.
+ */
+export async function closePurchaseOrder(
+  userId: ObjectId,
+  id: string
+): Promise<PurchaseOrderSummary> {
+  const collection = await getPurchaseOrdersCollection();
+  const order = await findPurchaseOrder(collection, userId, id);
+  if (order.status === "closed") {
+    throw new PurchaseOrderValidationError("Purchase order is already closed.");
+  }
+  if (order.status === "draft") {
+    throw new PurchaseOrderValidationError(
+      "Draft purchase orders are deleted, not closed."
+    );
+  }
+
+  const now = new Date();
+  const closed = await collection.updateOne(
+    { _id: order._id, userId, status: order.status },
+    { $set: { status: "closed", closedAt: now, updatedAt: now } }
+  );
+  if (closed.matchedCount === 0) {
+    throw new PurchaseOrderConflictError(
+      `Purchase order ${order.number} changed while it was closed. ` +
+        "Reload it and try again."
+    );
+  }
+
+  return toStoredOrderSummary(collection, userId, order._id);
+}
+
+/** Remove a draft purchase order. Approved orders can only be closed. */
+export async function deletePurchaseOrder(userId: ObjectId, id: string) {
+  const collection = await getPurchaseOrdersCollection();
+  const order = await findPurchaseOrder(collection, userId, id);
+  if (order.status !== "draft") {
+    throw new PurchaseOrderValidationError(
+      "Only draft purchase orders can be deleted. Close it instead."
+    );
+  }
+  await collection.deleteOne({ _id: order._id, userId });
+}
@@ -1,6 +1,7 @@
 import { ObjectId, type Collection } from "mongodb";
 
 import clientPromise from "./mongodb";
+import { assertPeriodsOpen } from "./periods";
 import {
   type ReportAdjustmentType,
   type ReportAdjustmentSection,
@@ -78,6 +79,8 @@ export async function createReportAdjustment(input: {
   description?: string;
   effectiveDate: Date;
 }): Promise<ReportAdjustmentDocument> {
+  await assertPeriodsOpen(input.userId, input.effectiveDate);
+
   const collection = await getAdjustmentsCollection();
   const now = new Date();
   const document: ReportAdjustmentDocument = {
@@ -107,10 +110,15 @@ export async function deleteReportAdjustment(
     return false;
   }
   const collection = await getAdjustmentsCollection();
-  const result = await collection.deleteOne({
-    _id: new ObjectId(adjustmentId),
-    userId,
-  });
+  const targetId = new ObjectId(adjustmentId);
+  const existing = await collection.findOne({ _id: targetId, userId });
+  if (!existing) {
+    return false;
+  }
+
+  await assertPeriodsOpen(userId, new Date(existing.effectiveDate));
+
+  const result = await collection.deleteOne({ _id: targetId, userId });
   return result.deletedCount === 1;
 }
 
@@ -0,0 +1,137 @@
+import {
+  InvalidPeriodError,
+  formatRangeLabel,
+  getCustomPeriodRange,
+  parseCustomPeriod,
+  toCalendarDate,
+  type CustomPeriod,
+  type PeriodRange,
+} from "./period-range";
+
+export const COMPARISON_KEYS = ["previous-period", "previous-year"] as const;
+
+export type ComparisonKey = (typeof COMPARISON_KEYS)[number];
+
+/** What a report is compared against: a window derived from it or a range. */
+export type ComparisonSelection = ComparisonKey | CustomPeriod;
+
+export type ReportVariance = {
+  amount: number;
+  /** Change relative to the comparison amount; null when that is zero. */
+  percent: number | null;
+};
+
+export function parseComparisonKey(value: unknown): ComparisonKey | null {
+  return COMPARISON_KEYS.includes(value as ComparisonKey)
+    ? (value as ComparisonKey)
+    : null;
+}
+
+/**
+ * Read the comparison of a request: `compare` is a comparison key, or
+ * "custom" together with `compareFrom` and `compareTo` (YYYY-MM-DD,
+ * inclusive). Returns null when no comparison was asked for.
+ */
+export function parseComparisonQuery(
+  searchParams: URLSearchParams
+): ComparisonSelection | null {
+  const compare = searchParams.get("compare");
+  if (!compare) {
+    return null;
+  }
+  if (compare === "custom") {
+    return parseCustomPeriod(
+      searchParams.get("compareFrom"),
+      searchParams.get("compareTo")
+    );
+  }
+
+  const key = parseComparisonKey(compare);
+  if (!key) {
+    throw new InvalidPeriodError("Unknown comparison period.");
+  }
+  return key;
+}
+
+export function toComparisonQuery(
+  selection: ComparisonSelection
+): Record<string, string> {
+  return typeof selection === "string"
+    ? { compare: selection }
+    : {
+        compare: "custom",
+        compareFrom: toCalendarDate(selection.from),
+        compareTo: toCalendarDate(selection.to),
+      };
+}
+
+/**
+ * The window a report is compared against. The previous period has the same
+ * length and ends where `range` starts, counted in months when `range` covers
+ * whole months and in days otherwise.
+ */
+export function getComparisonRange(
+  range: PeriodRange,
+  selection: ComparisonSelection
+): PeriodRange {
+  if (typeof selection !== "string") {
+    return getCustomPeriodRange(selection);
+  }
+
+  const { start, end } = range;
+
+  if (selection === "previous-year") {
+    const previousStart = new Date(
+      start.getFullYear() - 1,
+      start.getMonth(),
+      start.getDate()
+    );
+    const previousEnd = new Date(
+      end.getFullYear() - 1,
+      end.getMonth(),
+      end.getDate()
+    );
+    return {
+      start: previousStart,
+      end: previousEnd,
+      label: `Same Period Last Year (${formatRangeLabel(
+        previousStart,
+        previousEnd
+      )})`,
+    };
+  }
+
+  const wholeMonths = start.getDate() === 1 && end.getDate() === 1;
+  const previousStart = wholeMonths
+    ? new Date(
+        start.getFullYear(),
+        start.getMonth() -
+          ((end.getFullYear() - start.getFullYear()) * 12 +
+            end.getMonth() -
+            start.getMonth()),
+        1
+      )
+    : new Date(
+        start.getFullYear(),
+        start.getMonth(),
+        start.getDate() -
+          Math.round((end.getTime() - start.getTime()) / 86_400_000)
+      );
+  return {
+    start: previousStart,
+    end: start,
+    label: `Previous Period (${formatRangeLabel(previousStart, start)})`,
+  };
+}
+
+export function calculateVariance(
+  current: number,
+  previous: number
+): ReportVariance {
+  const amount = current - previous;
+  return {
+    amount,
+    percent:
+      Math.abs(previous) > 0.005 ? (amount / Math.abs(previous)) * 100 : null,
+  };
+}
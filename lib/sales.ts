@@ -0,0 +1,749 @@
+import { ObjectId, type Collection } from "mongodb";
+
+import clientPromise, { ensureIndex, isDuplicateKeyError } from "./mongodb";
+import { ACCOUNT_CODES } from "./chart-of-accounts";
+import { cancelReversal, postJournal, reverseJournal } from "./journal";
+import { assertPeriodsOpen } from "./periods";
+
+const DEFAULT_DB_NAME = process.env.MONGODB_DB ?? "cloud-erp";
+
+export const INVOICE_STATUSES = [
+  "draft",
+  "sent",
+  "partially_paid",
+  "paid",
+  "void",
+] as const;
+
+export type InvoiceStatus = (typeof INVOICE_STATUSES)[number];
+
+/** Journal reference of every entry posted for an invoice. */
+const INVOICE_REFERENCE_PREFIX = "invoice:";
+
+type CustomerDocument = {
+  _id?: ObjectId;
+  userId: ObjectId;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+type InvoiceLineDocument = {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+};
+
+type InvoicePaymentDocument = {
+  _id: ObjectId;
+  date: Date;
+  amount: number;
+  memo?: string | null;
+  journalEntryId: ObjectId;
+  createdAt: Date;
+};
+
+/**
+ * A sales invoice. Drafts post nothing; issuing posts the receivable and
+ * each payment settles part of it, so account 1100 always equals the open
+ * balance of issued invoices.
+ */
+type InvoiceDocument = {
+  _id?: ObjectId;
+  userId: ObjectId;
+  customerId: ObjectId;
+  number: string;
+  issueDate: Date;
+  dueDate: Date;
+  memo?: string | null;
+  lines: InvoiceLineDocument[];
+  total: number;
+  amountPaid: number;
+  status: InvoiceStatus;
+  journalEntryId?: ObjectId | null;
+  payments: InvoicePaymentDocument[];
+  issuedAt?: Date | null;
+  voidedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type CustomerSummary = {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  /** Unpaid amount of the customer's issued invoices. */
+  balance: number;
+  openInvoices: number;
+};
+
+export type InvoicePaymentSummary = {
+  id: string;
+  date: string;
+  amount: number;
+  memo: string | null;
+};
+
+export type InvoiceSummary = {
+  id: string;
+  number: string;
+  customerId: string;
+  customerName: string;
+  issueDate: string;
+  dueDate: string;
+  memo: string | null;
+  lines: InvoiceLineDocument[];
+  total: number;
+  amountPaid: number;
+  balance: number;
+  status: InvoiceStatus;
+  isOverdue: boolean;
+  payments: InvoicePaymentSummary[];
+};
+
+export type InvoiceTotals = {
+  outstanding: number;
+  overdue: number;
+  invoicedThisMonth: number;
+  collectedThisMonth: number;
+  draftCount: number;
+};
+
+export type CreateCustomerInput = {
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+};
+
+export type InvoiceLineInput = {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+};
+
+export type CreateInvoiceInput = {
+  customerId: string;
+  issueDate: Date;
+  dueDate: Date;
+  memo?: string | null;
+  lines: InvoiceLineInput[];
+};
+
+export type InvoicePaymentInput = {
+  date: Date;
+  amount: number;
+  memo?: string | null;
+};
+
+export class CustomerValidationError extends Error {}
+
+export class InvoiceValidationError extends Error {}
+
+export class InvoiceNotFoundError extends Error {}
+
+export function parseInvoiceStatus(value: unknown): InvoiceStatus | null {
+  return INVOICE_STATUSES.includes(value as InvoiceStatus)
+    ? (value as InvoiceStatus)
+    : null;
+}
+
+async function getCustomersCollection(): Promise<
+  Collection<CustomerDocument>
+> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  return db.collection<CustomerDocument>("customers");
+}
+
+async function getInvoicesCollection(): Promise<Collection<InvoiceDocument>> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  const collection = db.collection<InvoiceDocument>("invoices");
+  await ensureIndex(collection, { userId: 1, number: 1 }, { unique: true });
+  return collection;
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const optionalText = (value: string | null | undefined) =>
+  value && value.trim() ? value.trim() : null;
+
+function isOpen(status: InvoiceStatus) {
+  return status === "sent" || status === "partially_paid";
+}
+
+function toInvoiceSummary(
+  doc: InvoiceDocument,
+  customerName: string,
+  today: Date
+): InvoiceSummary {
+  const balance = isOpen(doc.status)
+    ? roundAmount(doc.total - doc.amountPaid)
+    : 0;
+  return {
+    id: doc._id?.toString() ?? "",
+    number: doc.number,
+    customerId: doc.customerId.toString(),
+    customerName,
+    issueDate: doc.issueDate.toISOString(),
+    dueDate: doc.dueDate.toISOString(),
+    memo: doc.memo ?? null,
+    lines: doc.lines,
+    total: doc.total,
+    amountPaid: doc.amountPaid,
+    balance,
+    status: doc.status,
+    isOverdue: balance > 0 && doc.dueDate < today,
+    payments: doc.payments.map((payment) => ({
+      id: payment._id.toString(),
+      date: payment.date.toISOString(),
+      amount: payment.amount,
+      memo: payment.memo ?? null,
+    })),
+  };
+}
+
+function startOfToday() {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+async function loadCustomerNames(
+  userId: ObjectId
+): Promise<Map<string, string>> {
+  const collection = await getCustomersCollection();
+  const customers = await collection
+    .find({ userId }, { projection: { name: 1 } })
+    .toArray();
+  return new Map(
+    customers.map((customer) => [customer._id.toString(), customer.name])
+  );
+}
+
+export async function listCustomers(
+  userId: ObjectId
+): Promise<CustomerSummary[]> {
+  const [customers, invoices] = await Promise.all([
+    getCustomersCollection().then((collection) =>
+      collection.find({ userId }).sort({ name: 1 }).toArray()
+    ),
+    getInvoicesCollection().then((collection) =>
+      collection
+        .find({ userId, status: { $in: ["sent", "partially_paid"] } })
+        .toArray()
+    ),
+  ]);
+
+  const balances = new Map<string, { balance: number; count: number }>();
+  invoices.forEach((invoice) => {
+    const key = invoice.customerId.toString();
+    const current = balances.get(key) ?? { balance: 0, count: 0 };
+    balances.set(key, {
+      balance: roundAmount(
+        current.balance + invoice.total - invoice.amountPaid
+      ),
+      count: current.count + 1,
+    });
+  });
+
+  return customers.map((customer) => {
+    const id = customer._id?.toString() ?? "";
+    return {
+      id,
+      name: customer.name,
+      email: customer.email ?? null,
+      phone: customer.phone ?? null,
+      address: customer.address ?? null,
+      balance: balances.get(id)?.balance ?? 0,
+      openInvoices: balances.get(id)?.count ?? 0,
+    };
+  });
+}
+
+export async function createCustomer(
+  userId: ObjectId,
+  input: CreateCustomerInput
+): Promise<CustomerSummary> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new CustomerValidationError("Customer name is required.");
+  }
+
+  const collection = await getCustomersCollection();
+  const duplicate = await collection.findOne(
+    { userId, name },
+    { collation: { locale: "en", strength: 2 } }
+  );
+  if (duplicate) {
+    throw new CustomerValidationError(`Customer ${name} already exists.`);
+  }
+
+  const now = new Date();
+  const document: CustomerDocument = {
+    userId,
+    name,
+    email: optionalText(input.email),
+    phone: optionalText(input.phone),
+    address: optionalText(input.address),
+    createdAt: now,
+    updatedAt: now,
+  };
+  const { insertedId } = await collection.insertOne(document);
+
+  return {
+    id: insertedId.toString(),
+    name,
+    email: document.email ?? null,
+    phone: document.phone ?? null,
+    address: document.address ?? null,
+    balance: 0,
+    openInvoices: 0,
+  };
+}
+
+export async function listInvoices(
+  userId: ObjectId
+): Promise<InvoiceSummary[]> {
+  const collection = await getInvoicesCollection();
+  const [documents, customerNames] = await Promise.all([
+    collection.find({ userId }).sort({ issueDate: -1, number: -1 }).toArray(),
+    loadCustomerNames(userId),
+  ]);
+  const today = startOfToday();
+
+  return documents.map((doc) =>
+    toInvoiceSummary(
+      doc,
+      customerNames.get(doc.customerId.toString()) ?? "Unknown customer",
+      today
+    )
+  );
+}
+
+/** Headline figures of the sales page, for the month containing `reference`. */
+export function summarizeInvoices(
+  invoices: InvoiceSummary[],
+  reference = new Date()
+): InvoiceTotals {
+  const monthStart = new Date(reference.getFullYear(), reference.getMonth(), 1);
+  const monthEnd = new Date(
+    reference.getFullYear(),
+    reference.getMonth() + 1,
+    1
+  );
+  const inMonth = (value: string) => {
+    const date = new Date(value);
+    return date >= monthStart && date < monthEnd;
+  };
+
+  return invoices.reduce<InvoiceTotals>(
+    (totals, invoice) => {
+      if (invoice.status === "draft") {
+        totals.draftCount += 1;
+        return totals;
+      }
+      if (invoice.status === "void") {
+        return totals;
+      }
+      totals.outstanding = roundAmount(totals.outstanding + invoice.balance);
+      if (invoice.isOverdue) {
+        totals.overdue = roundAmount(totals.overdue + invoice.balance);
+      }
+      if (inMonth(invoice.issueDate)) {
+        totals.invoicedThisMonth = roundAmount(
+          totals.invoicedThisMonth + invoice.total
+        );
+      }
+      invoice.payments
+        .filter((payment) => inMonth(payment.date))
+        .forEach((payment) => {
+          totals.collectedThisMonth = roundAmount(
+            totals.collectedThisMonth + payment.amount
+          );
+        });
+      return totals;
+    },
+    {
+      outstanding: 0,
+      overdue: 0,
+      invoicedThisMonth: 0,
+      collectedThisMonth: 0,
+      draftCount: 0,
+    }
+  );
+}
+
+function normaliseLines(lines: InvoiceLineInput[]): InvoiceLineDocument[] {
+  if (!lines.length) {
+    throw new InvoiceValidationError("An invoice needs at least one line.");
+  }
+  return lines.map((line) => {
+    const description = line.description.trim();
+    if (!description) {
+      throw new InvoiceValidationError("Every line needs a description.");
+    }
+    if (!Number.isFinite(line.quantity) || line.quantity <= 0) {
+      throw new InvoiceValidationError(
+        "Line quantities must be greater than zero."
+      );
+    }
+    if (!Number.isFinite(line.unitPrice) || line.unitPrice < 0) {
+      throw new InvoiceValidationError("Unit prices cannot be negative.");
+    }
+    return {
+      description,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      amount: roundAmount(line.quantity * line.unitPrice),
+    };
+  });
+}
+
+async function nextInvoiceNumber(
+  collection: Collection<InvoiceDocument>,
+  userId: ObjectId
+): Promise<string> {
+  // Follow the latest number, so deleted drafts never cause duplicates
+  const latest = await collection.findOne(
+    { userId },
+    { sort: { createdAt: -1 }, projection: { number: 1 } }
+  );
+  const sequence = Number(latest?.number.replace(/\D/g, "") ?? 0);
+  return `INV-${String(sequence + 1).padStart(4, "0")}`;
+}
+
+/**
+ * Insert under the next free number. Two invoices created at once can pick
+ * the same number; the unique index rejects the second, which tries again.
+ */
+async function insertWithNextNumber(
+  collection: Collection<InvoiceDocument>,
+  document: InvoiceDocument
+): Promise<ObjectId> {
+  for (let attempt = 0; ; attempt += 1) {
+    document.number = await nextInvoiceNumber(collection, document.userId);
+    try {
+      const { insertedId } = await collection.insertOne(document);
+      return insertedId;
+    } catch (error) {
+      if (!isDuplicateKeyError(error) || attempt >= 4) {
+        throw error;
+      }
+    }
+  }
+}
+
+export async function createInvoice(
+  userId: ObjectId,
+  input: CreateInvoiceInput
+): Promise<InvoiceSummary> {
+  if (!ObjectId.isValid(input.customerId)) {
+    throw new InvoiceValidationError("Select a customer.");
+  }
+  const customerId = new ObjectId(input.customerId);
+  const customers = await getCustomersCollection();
+  const customer = await customers.findOne({ _id: customerId, userId });
+  if (!customer) {
+    throw new InvoiceValidationError("Customer not found.");
+  }
+  if (input.dueDate < input.issueDate) {
+    throw new InvoiceValidationError(
+      "The due date cannot be before the issue date."
+    );
+  }
+
+  const lines = normaliseLines(input.lines);
+  const total = roundAmount(lines.reduce((sum, line) => sum + line.amount, 0));
+  if (total <= 0) {
+    throw new InvoiceValidationError(
+      "Invoice total must be greater than zero."
+    );
+  }
+
+  const collection = await getInvoicesCollection();
+  const now = new Date();
+  const document: InvoiceDocument = {
+    userId,
+    customerId,
+    number: "",
+    issueDate: input.issueDate,
+    dueDate: input.dueDate,
+    memo: optionalText(input.memo),
+    lines,
+    total,
+    amountPaid: 0,
+    status: "draft",
+    journalEntryId: null,
+    payments: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  const insertedId = await insertWithNextNumber(collection, document);
+
+  return toInvoiceSummary(
+    { ...document, _id: insertedId },
+    customer.name,
+    startOfToday()
+  );
+}
+
+async function findInvoice(
+  collection: Collection<InvoiceDocument>,
+  userId: ObjectId,
+  id: string
+): Promise<InvoiceDocument & { _id: ObjectId }> {
+  if (!ObjectId.isValid(id)) {
+    throw new InvoiceNotFoundError("Invoice not found.");
+  }
+  const invoice = await collection.findOne({ _id: new ObjectId(id), userId });
+  if (!invoice) {
+    throw new InvoiceNotFoundError("Invoice not found.");
+  }
+  return invoice;
+}
+
+async function toStoredSummary(
+  collection: Collection<InvoiceDocument>,
+  userId: ObjectId,
+  id: ObjectId
+): Promise<InvoiceSummary> {
+  const [invoice, customerNames] = await Promise.all([
+    collection.findOne({ _id: id, userId }),
+    loadCustomerNames(userId),
+  ]);
+  if (!invoice) {
+    throw new InvoiceNotFoundError("Invoice not found.");
+  }
+  return toInvoiceSummary(
+    invoice,
+    customerNames.get(invoice.customerId.toString()) ?? "Unknown customer",
+    startOfToday()
+  );
+}
+
+/** Post the receivable of a draft invoice and mark it sent. */
+export async function issueInvoice(
+  userId: ObjectId,
+  id: string
+): Promise<InvoiceSummary> {
+  const collection = await getInvoicesCollection();
+  const invoice = await findInvoice(collection, userId, id);
+  if (invoice.status !== "draft") {
+    throw new InvoiceValidationError("Only draft invoices can be issued.");
+  }
+
+  await assertPeriodsOpen(userId, invoice.issueDate);
+
+  const entry = await postJournal(userId, {
+    referenceId: `${INVOICE_REFERENCE_PREFIX}${invoice._id.toString()}`,
+    date: invoice.issueDate,
+    memo: `Invoice ${invoice.number}`,
+    lines: [
+      {
+        accountCode: ACCOUNT_CODES.ACCOUNTS_RECEIVABLE,
+        debit: invoice.total,
+        description: `Invoice ${invoice.number}`,
+      },
+      {
+        accountCode: ACCOUNT_CODES.SALES_REVENUE,
+        credit: invoice.total,
+        description: `Invoice ${invoice.number}`,
+      },
+    ],
+  });
+
+  const now = new Date();
+  const issued = await collection.updateOne(
+    { _id: invoice._id, userId, status: "draft" },
+    {
+      $set: {
+        status: "sent",
+        journalEntryId: entry._id ?? null,
+        issuedAt: now,
+        updatedAt: now,
+      },
+    }
+  );
+
+  if (issued.matchedCount === 0) {
+    // Issued or deleted by another request since it was read
+    if (entry._id) {
+      await reverseJournal(entry._id, userId);
+    }
+    throw new InvoiceValidationError("Only draft invoices can be issued.");
+  }
+
+  return toStoredSummary(collection, userId, invoice._id);
+}
+
+/** Record money received against an issued invoice. */
+export async function recordInvoicePayment(
+  userId: ObjectId,
+  id: string,
+  input: InvoicePaymentInput
+): Promise<InvoiceSummary> {
+  const collection = await getInvoicesCollection();
+  const invoice = await findInvoice(collection, userId, id);
+  if (!isOpen(invoice.status)) {
+    throw new InvoiceValidationError(
+      "Payments can only be recorded on sent or partially paid invoices."
+    );
+  }
+
+  const amount = roundAmount(input.amount);
+  const balance = roundAmount(invoice.total - invoice.amountPaid);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new InvoiceValidationError(
+      "Payment amount must be greater than zero."
+    );
+  }
+  if (amount > balance) {
+    throw new InvoiceValidationError(
+      "Payment amount cannot exceed the invoice balance."
+    );
+  }
+  if (input.date < invoice.issueDate) {
+    throw new InvoiceValidationError(
+      "A payment cannot be dated before the invoice."
+    );
+  }
+
+  await assertPeriodsOpen(userId, input.date);
+
+  const entry = await postJournal(userId, {
+    referenceId: `${INVOICE_REFERENCE_PREFIX}${invoice._id.toString()}`,
+    date: input.date,
+    memo: `Payment for invoice ${invoice.number}`,
+    lines: [
+      {
+        accountCode: ACCOUNT_CODES.CASH,
+        debit: amount,
+        description: `Payment for invoice ${invoice.number}`,
+      },
+      {
+        accountCode: ACCOUNT_CODES.ACCOUNTS_RECEIVABLE,
+        credit: amount,
+        description: `Payment for invoice ${invoice.number}`,
+      },
+    ],
+  });
+
+  const now = new Date();
+  const amountPaid = roundAmount(invoice.amountPaid + amount);
+  const payment: InvoicePaymentDocument = {
+    _id: new ObjectId(),
+    date: input.date,
+    amount,
+    memo: optionalText(input.memo),
+    journalEntryId: entry._id as ObjectId,
+    createdAt: now,
+  };
+  // Only applies to the balance checked above; a concurrent payment or
+  // void leaves nothing matched
+  const recorded = await collection.updateOne(
+    {
+      _id: invoice._id,
+      userId,
+      status: invoice.status,
+      amountPaid: invoice.amountPaid,
+    },
+    {
+      $inc: { amountPaid: amount },
+      $set: {
+        status: amountPaid >= invoice.total ? "paid" : "partially_paid",
+        updatedAt: now,
+      },
+      $push: { payments: payment },
+    }
+  );
+
+  if (recorded.matchedCount === 0) {
+    await reverseJournal(payment.journalEntryId, userId);
+    throw new InvoiceValidationError(
+      "The invoice changed while the payment was recorded. Try again."
+    );
+  }
+
+  return toStoredSummary(collection, userId, invoice._id);
+}
+
+/**
+ * Cancel an invoice. Issued invoices keep their journals on record and are
+ * cancelled by reversals of the receivable and of every payment.
+ */
+export async function voidInvoice(
+  userId: ObjectId,
+  id: string
+): Promise<InvoiceSummary> {
+  const collection = await getInvoicesCollection();
+  const invoice = await findInvoice(collection, userId, id);
+  if (invoice.status === "void") {
+    throw new InvoiceValidationError("Invoice is already void.");
+  }
+
+  await assertPeriodsOpen(
+    userId,
+    invoice.journalEntryId ? invoice.issueDate : null,
+    ...invoice.payments.map((payment) => payment.date)
+  );
+
+  const reversals: ObjectId[] = [];
+  const entryIds = [
+    ...invoice.payments.map((payment) => payment.journalEntryId),
+    ...(invoice.journalEntryId ? [invoice.journalEntryId] : []),
+  ];
+  try {
+    for (const entryId of entryIds) {
+      const reversal = await reverseJournal(entryId, userId);
+      reversals.push(reversal._id as ObjectId);
+    }
+  } catch (error) {
+    // Put back the journals already reversed, so nothing is half voided
+    for (const reversalId of reversals) {
+      await cancelReversal(reversalId, userId);
+    }
+    throw error;
+  }
+
+  const now = new Date();
+  const voided = await collection.updateOne(
+    {
+      _id: invoice._id,
+      userId,
+      status: invoice.status,
+      amountPaid: invoice.amountPaid,
+    },
+    { $set: { status: "void", voidedAt: now, updatedAt: now } }
+  );
+
+  if (voided.matchedCount === 0) {
+    // A payment landed meanwhile; its journal would stay unreversed
+    for (const reversalId of reversals) {
+      await cancelReversal(reversalId, userId);
+    }
+    throw new InvoiceValidationError(
+      "The invoice changed while it was voided. Try again."
+    );
+  }
+
+  return toStoredSummary(collection, userId, invoice._id);
+}
+
+/** Remove a draft invoice. Issued invoices can only be voided. */
+export async function deleteInvoice(userId: ObjectId, id: string) {
+  const collection = await getInvoicesCollection();
+  const invoice = await findInvoice(collection, userId, id);
+  if (invoice.status !== "draft") {
+    throw new InvoiceValidationError(
+      "Only draft invoices can be deleted. Void it instead."
+    );
+  }
+  await collection.deleteOne({ _id: invoice._id, userId });
+}
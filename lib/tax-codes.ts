@@ -0,0 +1,301 @@
+import { ObjectId, type Collection } from "mongodb";
+
+import clientPromise, { ensureIndex, isDuplicateKeyError } from "./mongodb";
+import { TAX_KIND_LABELS, type TaxCode, type TaxKind } from "./tax-schema";
+
+const DEFAULT_DB_NAME = process.env.MONGODB_DB ?? "cloud-erp";
+
+const TAX_CODE_PATTERN = /^[A-Z0-9-]{2,12}$/;
+
+type TaxCodeDocument = {
+  _id?: ObjectId;
+  userId: ObjectId;
+  code: string;
+  name: string;
+  /** Codes saved before withholding was added are all PPN. */
+  kind?: TaxKind;
+  rate: number;
+  isActive: boolean;
+  isSystem: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type CreateTaxCodeInput = {
+  code: string;
+  name: string;
+  kind: TaxKind;
+  rate: number;
+};
+
+export type UpdateTaxCodeInput = {
+  name?: string;
+  rate?: number;
+  isActive?: boolean;
+};
+
+export class TaxCodeValidationError extends Error {}
+
+export class TaxCodeNotFoundError extends Error {}
+
+/**
+ * Tax codes every user starts with. Since 2025 most goods carry 12% PPN on
+ * a base of 11/12 of the price, which nets to the 11% charged by PPN11;
+ * PPN12 is the full rate on luxury goods. The PPh codes are the common
+ * withholding rates on services, on royalties and interest, and on
+ * building rent.
+ */
+const DEFAULT_TAX_CODES: Array<
+  Pick<TaxCode, "code" | "name" | "kind" | "rate">
+> = [
+  { code: "PPN11", name: "PPN 11% (12% x DPP 11/12)", kind: "ppn", rate: 11 },
+  { code: "PPN12", name: "PPN 12% (luxury goods)", kind: "ppn", rate: 12 },
+  { code: "EXEMPT", name: "PPN exempt (dibebaskan)", kind: "ppn", rate: 0 },
+  {
+    code: "PPH23",
+    name: "PPh 23 services (jasa)",
+    kind: "withholding",
+    rate: 2,
+  },
+  {
+    code: "PPH23-15",
+    name: "PPh 23 royalties and interest",
+    kind: "withholding",
+    rate: 15,
+  },
+  {
+    code: "PPH42-SEWA",
+    name: "PPh 4(2) land and building rent",
+    kind: "withholding",
+    rate: 10,
+  },
+];
+
+async function getTaxCodesCollection(): Promise<Collection<TaxCodeDocument>> {
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  const collection = db.collection<TaxCodeDocument>("tax_codes");
+  await ensureIndex(collection, { userId: 1, code: 1 }, { unique: true });
+  return collection;
+}
+
+function toTaxCode(doc: TaxCodeDocument): TaxCode {
+  return {
+    code: doc.code,
+    name: doc.name,
+    kind: doc.kind ?? "ppn",
+    rate: doc.rate,
+    isActive: doc.isActive,
+    isSystem: doc.isSystem,
+  };
+}
+
+function validateRate(rate: number) {
+  if (!Number.isFinite(rate) || rate < 0 || rate > 100) {
+    throw new TaxCodeValidationError("Tax rate must be between 0 and 100%.");
+  }
+}
+
+/** Insert any default tax code the user does not have yet. */
+async function ensureDefaultTaxCodes(
+  collection: Collection<TaxCodeDocument>,
+  userId: ObjectId
+) {
+  const existing = await collection
+    .find({ userId }, { projection: { code: 1 } })
+    .toArray();
+  const existingCodes = new Set(existing.map((doc) => doc.code));
+  const missing = DEFAULT_TAX_CODES.filter(
+    (taxCode) => !existingCodes.has(taxCode.code)
+  );
+
+  if (!missing.length) {
+    return;
+  }
+
+  const now = new Date();
+  try {
+    await collection.bulkWrite(
+      missing.map((taxCode) => ({
+        updateOne: {
+          filter: { userId, code: taxCode.code },
+          update: {
+            $setOnInsert: {
+              userId,
+              ...taxCode,
+              isActive: true,
+              isSystem: true,
+              createdAt: now,
+              updatedAt: now,
+            },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  } catch (error) {
+    // A concurrent request inserted the same defaults first
+    if (!isDuplicateKeyError(error)) {
+      throw error;
+    }
+  }
+}
+
+export async function listTaxCodes(userId: ObjectId): Promise<TaxCode[]> {
+  const collection = await getTaxCodesCollection();
+  await ensureDefaultTaxCodes(collection, userId);
+  const documents = await collection
+    .find({ userId })
+    .sort({ code: 1 })
+    .toArray();
+  return documents.map(toTaxCode);
+}
+
+/** The active tax code of `kind` a new transaction or payment uses. */
+export async function getActiveTaxCode(
+  userId: ObjectId,
+  code: string,
+  kind: TaxKind
+): Promise<TaxCode> {
+  const taxCode = (await listTaxCodes(userId)).find(
+    (candidate) => candidate.code === code
+  );
+  if (!taxCode) {
+    throw new TaxCodeNotFoundError(`Tax code ${code} not found.`);
+  }
+  if (!taxCode.isActive) {
+    throw new TaxCodeValidationError(`Tax code ${code} is inactive.`);
+  }
+  if (taxCode.kind !== kind) {
+    throw new TaxCodeValidationError(
+      `Tax code ${code} is not a ${TAX_KIND_LABELS[kind]} code.`
+    );
+  }
+  return taxCode;
+}
+
+export async function createTaxCode(
+  userId: ObjectId,
+  input: CreateTaxCodeInput
+): Promise<TaxCode> {
+  const code = input.code.trim().toUpperCase();
+  const name = input.name.trim();
+
+  if (!TAX_CODE_PATTERN.test(code)) {
+    throw new TaxCodeValidationError(
+      "Tax code must be 2-12 letters, digits or dashes."
+    );
+  }
+  if (!name) {
+    throw new TaxCodeValidationError("Tax code name is required.");
+  }
+  validateRate(input.rate);
+
+  const collection = await getTaxCodesCollection();
+  await ensureDefaultTaxCodes(collection, userId);
+  if (await collection.findOne({ userId, code })) {
+    throw new TaxCodeValidationError(`Tax code ${code} already exists.`);
+  }
+
+  const now = new Date();
+  const document: TaxCodeDocument = {
+    userId,
+    code,
+    name,
+    kind: input.kind,
+    rate: input.rate,
+    isActive: true,
+    isSystem: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+  try {
+    await collection.insertOne(document);
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new TaxCodeValidationError(`Tax code ${code} already exists.`);
+    }
+    throw error;
+  }
+
+  return toTaxCode(document);
+}
+
+/**
+ * Rename, re-rate or (de)activate a tax code. Transactions keep the rate
+ * they were charged at, so a rate change only applies from now on.
+ */
+export async function updateTaxCode(
+  userId: ObjectId,
+  code: string,
+  input: UpdateTaxCodeInput
+): Promise<TaxCode> {
+  const collection = await getTaxCodesCollection();
+  await ensureDefaultTaxCodes(collection, userId);
+  const existing = await collection.findOne({ userId, code });
+
+  if (!existing) {
+    throw new TaxCodeNotFoundError(`Tax code ${code} not found.`);
+  }
+
+  const name = input.name !== undefined ? input.name.trim() : existing.name;
+  if (!name) {
+    throw new TaxCodeValidationError("Tax code name is required.");
+  }
+  const rate = input.rate ?? existing.rate;
+  validateRate(rate);
+
+  const updates = {
+    name,
+    rate,
+    isActive: input.isActive ?? existing.isActive,
+    updatedAt: new Date(),
+  };
+  await collection.updateOne({ _id: existing._id }, { $set: updates });
+
+  return toTaxCode({ ...existing, ...updates });
+}
+
+/**
+ * Remove a tax code nothing was charged with or refers to. Used codes stay
+ * on record for the tax reports and can only be deactivated.
+ */
+export async function deleteTaxCode(
+  userId: ObjectId,
+  code: string
+): Promise<void> {
+  const collection = await getTaxCodesCollection();
+  const existing = await collection.findOne({ userId, code });
+
+  if (!existing) {
+    throw new TaxCodeNotFoundError(`Tax code ${code} not found.`);
+  }
+  if (existing.isSystem) {
+    throw new TaxCodeValidationError("Default tax codes cannot be deleted.");
+  }
+
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  const usage = await Promise.all([
+    db
+      .collection("transactions")
+      .countDocuments({ userId, taxCode: code }, { limit: 1 }),
+    db
+      .collection("vendors")
+      .countDocuments({ userId, withholdingTaxCode: code }, { limit: 1 }),
+    db
+      .collection("bills")
+      .countDocuments(
+        { userId, "payments.withholdingTaxCode": code },
+        { limit: 1 }
+      ),
+  ]);
+  if (usage.some((count) => count > 0)) {
+    throw new TaxCodeValidationError(
+      "This tax code has been used. Deactivate it instead."
+    );
+  }
+
+  await collection.deleteOne({ _id: existing._id });
+}
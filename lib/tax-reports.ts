@@ -0,0 +1,277 @@
+import { ObjectId } from "mongodb";
+
+import { ACCOUNT_CODES } from "./chart-of-accounts";
+import { resolvePeriodRange } from "./finance";
+import type { JournalLineDocument } from "./journal-schema";
+import clientPromise from "./mongodb";
+import type { PeriodSelection } from "./period-range";
+import { listTaxCodes } from "./tax-codes";
+import type {
+  PpnReport,
+  PpnReportLine,
+  PpnReportRow,
+  PpnReportSection,
+  TaxDirection,
+  WithholdingReport,
+  WithholdingReportLine,
+  WithholdingReportRow,
+} from "./tax-schema";
+
+const DEFAULT_DB_NAME = process.env.MONGODB_DB ?? "cloud-erp";
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+type VatJournalEntryDocument = {
+  _id: ObjectId;
+  date: Date;
+  memo?: string;
+  lines: JournalLineDocument[];
+};
+
+type WithheldBillDocument = {
+  _id: ObjectId;
+  vendorId: ObjectId;
+  number: string;
+  vendorReference?: string | null;
+  payments: Array<{
+    _id: ObjectId;
+    date: Date;
+    amount: number;
+    withholdingTaxCode?: string | null;
+    withholdingRate?: number | null;
+    withheldAmount?: number;
+  }>;
+};
+
+function buildSection(
+  lines: PpnReportLine[],
+  rates: Map<string, { name: string; rate: number }>
+): PpnReportSection {
+  const rowsByCode = new Map<string, PpnReportRow>();
+
+  for (const line of lines) {
+    const row = rowsByCode.get(line.taxCode) ?? {
+      taxCode: line.taxCode,
+      name: line.taxCode
+        ? rates.get(line.taxCode)?.name ?? line.taxCode
+        : "No tax code",
+      rate: rates.get(line.taxCode)?.rate ?? 0,
+      transactions: 0,
+      base: 0,
+      tax: 0,
+    };
+    row.transactions += 1;
+    row.base += line.base;
+    row.tax += line.tax;
+    rowsByCode.set(line.taxCode, row);
+  }
+
+  const rows = Array.from(rowsByCode.values()).sort((a, b) =>
+    a.taxCode.localeCompare(b.taxCode)
+  );
+  return {
+    rows,
+    base: rows.reduce((sum, row) => sum + row.base, 0),
+    tax: rows.reduce((sum, row) => sum + row.tax, 0),
+  };
+}
+
+/**
+ * PPN for one tax month: output VAT credited to 2300 less input VAT debited
+ * to 1300 by every journal dated in the month, so the totals match both
+ * accounts whichever module posted them. Reversals count as negative lines,
+ * and lines posted without a tax code are grouped on their own.
+ */
+export async function buildPpnReport(
+  userId: ObjectId,
+  period: string
+): Promise<PpnReport> {
+  const [year, month] = period.split("-").map(Number);
+  const start = new Date(year, month - 1, 1);
+  const end = new Date(year, month, 1);
+  const vatAccounts: string[] = [
+    ACCOUNT_CODES.OUTPUT_VAT,
+    ACCOUNT_CODES.INPUT_VAT,
+  ];
+
+  const client = await clientPromise;
+  const [entries, taxCodes] = await Promise.all([
+    client
+      .db(DEFAULT_DB_NAME)
+      .collection<VatJournalEntryDocument>("journal_entries")
+      .find({
+        userId,
+        date: { $gte: start, $lt: end },
+        "lines.accountCode": { $in: vatAccounts },
+      })
+      .sort({ date: 1, _id: 1 })
+      .toArray(),
+    listTaxCodes(userId),
+  ]);
+
+  const rates = new Map(
+    taxCodes.map((taxCode) => [
+      taxCode.code,
+      { name: taxCode.name, rate: taxCode.rate },
+    ])
+  );
+
+  const lines: PpnReportLine[] = entries.flatMap((entry) =>
+    entry.lines.flatMap((line, index) => {
+      if (!vatAccounts.includes(line.accountCode)) {
+        return [];
+      }
+      const direction: TaxDirection =
+        line.accountCode === ACCOUNT_CODES.OUTPUT_VAT ? "output" : "input";
+      // Output VAT sits on the credit side, input VAT on the debit side
+      const tax =
+        direction === "output"
+          ? line.credit - line.debit
+          : line.debit - line.credit;
+      const base = Math.sign(tax) * (line.taxBase ?? 0);
+      return [
+        {
+          id: `${entry._id.toString()}:${index}`,
+          date: entry.date.toISOString(),
+          direction,
+          description: line.description ?? entry.memo ?? "",
+          taxCode: line.taxCode ?? "",
+          base,
+          tax,
+        },
+      ];
+    })
+  );
+
+  const output = buildSection(
+    lines.filter((line) => line.direction === "output"),
+    rates
+  );
+  const input = buildSection(
+    lines.filter((line) => line.direction === "input"),
+    rates
+  );
+
+  return {
+    type: "ppn",
+    period,
+    range: {
+      start: start.toISOString(),
+      end: new Date(year, month, 0).toISOString(),
+    },
+    generatedAt: new Date().toISOString(),
+    output,
+    input,
+    lines,
+    netPayable: output.tax - input.tax,
+  };
+}
+
+/**
+ * Tax withheld from vendor payments dated in the period, per vendor and
+ * PPh code, with every payment behind it. Payments of void bills were
+ * reversed and are left out, so the total matches what went to 2330.
+ */
+export async function buildWithholdingReport(
+  userId: ObjectId,
+  periodKey: PeriodSelection
+): Promise<WithholdingReport> {
+  const period = await resolvePeriodRange(userId, periodKey);
+  const client = await clientPromise;
+  const db = client.db(DEFAULT_DB_NAME);
+  const [bills, vendors, taxCodes] = await Promise.all([
+    db
+      .collection<WithheldBillDocument>("bills")
+      .find({
+        userId,
+        status: { $ne: "void" },
+        payments: {
+          $elemMatch: {
+            withholdingTaxCode: { $type: "string" },
+            date: { $gte: period.start, $lt: period.end },
+          },
+        },
+      })
+      .toArray(),
+    db
+      .collection<{ _id: ObjectId; name: string }>("vendors")
+      .find({ userId }, { projection: { name: 1 } })
+      .toArray(),
+    listTaxCodes(userId),
+  ]);
+
+  const vendorNames = new Map(
+    vendors.map((vendor) => [vendor._id.toString(), vendor.name])
+  );
+  const codeNames = new Map(
+    taxCodes.map((taxCode) => [taxCode.code, taxCode.name])
+  );
+
+  const lines: WithholdingReportLine[] = bills
+    .flatMap((bill) =>
+      bill.payments
+        .filter(
+          (payment) =>
+            payment.withholdingTaxCode &&
+            payment.date >= period.start &&
+            payment.date < period.end
+        )
+        .map((payment) => {
+          const vendorId = bill.vendorId.toString();
+          return {
+            id: payment._id.toString(),
+            date: payment.date.toISOString(),
+            vendorId,
+            vendorName: vendorNames.get(vendorId) ?? "Unknown vendor",
+            billNumber: bill.number,
+            vendorReference: bill.vendorReference ?? null,
+            taxCode: payment.withholdingTaxCode as string,
+            rate: payment.withholdingRate ?? 0,
+            gross: payment.amount,
+            withheld: payment.withheldAmount ?? 0,
+          };
+        })
+    )
+    .sort(
+      (a, b) =>
+        a.vendorName.localeCompare(b.vendorName) ||
+        a.date.localeCompare(b.date)
+    );
+
+  // Payments at an earlier rate of the same code get a row of their own
+  const rowsByKey = new Map<string, WithholdingReportRow>();
+  for (const line of lines) {
+    const key = `${line.vendorId}:${line.taxCode}:${line.rate}`;
+    const row = rowsByKey.get(key) ?? {
+      vendorId: line.vendorId,
+      vendorName: line.vendorName,
+      taxCode: line.taxCode,
+      name: codeNames.get(line.taxCode) ?? line.taxCode,
+      rate: line.rate,
+      payments: 0,
+      gross: 0,
+      withheld: 0,
+    };
+    row.payments += 1;
+    row.gross = roundAmount(row.gross + line.gross);
+    row.withheld += line.withheld;
+    rowsByKey.set(key, row);
+  }
+  const rows = Array.from(rowsByKey.values());
+
+  return {
+    type: "withholding",
+    period: period.label,
+    range: {
+      start: period.start.toISOString(),
+      end: period.end.toISOString(),
+    },
+    generatedAt: new Date().toISOString(),
+    rows,
+    lines,
+    totals: {
+      gross: roundAmount(rows.reduce((sum, row) => sum + row.gross, 0)),
+      withheld: rows.reduce((sum, row) => sum + row.withheld, 0),
+    },
+  };
+}
@@ -0,0 +1,138 @@
+/** Which side of PPN a transaction is on: charged on sales or paid on buys. */
+export type TaxDirection = "output" | "input";
+
+/**
+ * PPN is charged on top of a price; withholding (PPh 23 and PPh 4(2)) is
+ * held back from a vendor payment and paid to the tax office instead.
+ */
+export type TaxKind = "ppn" | "withholding";
+
+export const TAX_KIND_LABELS: Record<TaxKind, string> = {
+  ppn: "PPN",
+  withholding: "Withholding (PPh)",
+};
+
+export function parseTaxKind(value: unknown): TaxKind | null {
+  return value === "ppn" || value === "withholding" ? value : null;
+}
+
+export type TaxCode = {
+  code: string;
+  name: string;
+  kind: TaxKind;
+  /** Percentage charged on the tax base, e.g. 11 for 11%. */
+  rate: number;
+  isActive: boolean;
+  /** Seeded default; it can be renamed or re-rated but not deleted. */
+  isSystem: boolean;
+};
+
+/** An amount split into its tax base (DPP), the PPN on it and the total. */
+export type TaxBreakdown = {
+  base: number;
+  tax: number;
+  total: number;
+};
+
+/**
+ * Split an entered amount at `rate` percent. Tax-inclusive amounts already
+ * contain the PPN; tax-exclusive ones are the base it is added to. PPN is
+ * charged in whole rupiah.
+ */
+export function calculateTax(
+  amount: number,
+  rate: number,
+  inclusive: boolean
+): TaxBreakdown {
+  if (inclusive) {
+    const tax = Math.round((amount * rate) / (100 + rate));
+    return { base: amount - tax, tax, total: amount };
+  }
+  const tax = Math.round((amount * rate) / 100);
+  return { base: amount, tax, total: amount + tax };
+}
+
+export type PpnReportRow = {
+  taxCode: string;
+  name: string;
+  rate: number;
+  /** Journal lines behind the row, reversals included. */
+  transactions: number;
+  base: number;
+  tax: number;
+};
+
+export type PpnReportSection = {
+  rows: PpnReportRow[];
+  base: number;
+  tax: number;
+};
+
+export type PpnReportLine = {
+  id: string;
+  date: string;
+  direction: TaxDirection;
+  description: string;
+  taxCode: string;
+  base: number;
+  tax: number;
+};
+
+/** Output minus input VAT for one tax month (masa pajak). */
+export type PpnReport = {
+  type: "ppn";
+  /** YYYY-MM */
+  period: string;
+  range: {
+    start: string;
+    end: string;
+  };
+  generatedAt: string;
+  output: PpnReportSection;
+  input: PpnReportSection;
+  lines: PpnReportLine[];
+  /** Positive when PPN is owed; negative is an overpayment (lebih bayar). */
+  netPayable: number;
+};
+
+export type WithholdingReportRow = {
+  vendorId: string;
+  vendorName: string;
+  taxCode: string;
+  name: string;
+  rate: number;
+  payments: number;
+  /** Bill amount settled by the payments, before withholding. */
+  gross: number;
+  withheld: number;
+};
+
+export type WithholdingReportLine = {
+  id: string;
+  date: string;
+  vendorId: string;
+  vendorName: string;
+  billNumber: string;
+  vendorReference: string | null;
+  taxCode: string;
+  rate: number;
+  gross: number;
+  withheld: number;
+};
+
+/** Tax withheld from vendor payments over a period, per vendor and code. */
+export type WithholdingReport = {
+  type: "withholding";
+  period: string;
+  range: {
+    start: string;
+    end: string;
+  };
+  generatedAt: string;
+  rows: WithholdingReportRow[];
+  lines: WithholdingReportLine[];
+  totals: {
+    gross: number;
+    withheld: number;
+  };
+};
@@ -0,0 +1,49 @@
+import { existsSync } from "node:fs";
+import { resolve } from "node:path";
+
+import { config as loadEnv } from "dotenv";
+import { ObjectId } from "mongodb";
+
+const ENV_FILES = [".env.local", ".env"]; // prioritize Next.js local env
+
+ENV_FILES.forEach((file) => {
+  const filepath = resolve(process.cwd(), file);
+  if (existsSync(filepath)) {
+    loadEnv({ path: filepath });
+  }
+});
+
+async function rebuildJournals() {
+  // Loaded after the env files so lib/mongodb sees MONGODB_URI
+  const { default: clientPromise } = await import("../lib/mongodb");
+  const { rebuildTransactionJournals } = await import("../lib/finance");
+
+  const client = await clientPromise;
+
+  try {
+    const db = client.db(process.env.MONGODB_DB ?? "cloud-erp");
+    const userIds = (await db
+      .collection("transactions")
+      .distinct("userId")) as unknown[];
+
+    for (const userId of userIds) {
+      if (!(userId instanceof ObjectId)) {
+        continue;
+      }
+      const { posted, skipped } = await rebuildTransactionJournals(userId);
+      console.log(`✅ Posted ${posted} missing journal(s) for user ${userId}`);
+      if (skipped) {
+        console.warn(
+          `⚠️  Skipped ${skipped} transaction(s) dated in closed or locked periods`
+        );
+      }
+    }
+  } finally {
+    await client.close();
+  }
+}
+
+rebuildJournals().catch((error) => {
+  console.error("❌ Failed to rebuild journals", error);
+  process.exit(1);
+});
@@ -116,8 +116,6 @@ const sampleTransactions = [
     status: "posted",
     cashFlowType: "operating",
     counterparty: "PT Bahan Jaya",
-    presetKey: "purchase",
-    presetLabel: TRANSACTION_PRESETS.purchase.label,
   },
   {
     type: "expense",
@@ -128,8 +126,6 @@ const sampleTransactions = [
     status: "posted",
     cashFlowType: "operating",
     counterparty: "Divisi HR",
-    presetKey: "cogs",
-    presetLabel: TRANSACTION_PRESETS.cogs.label,
   },
   {
     type: "expense",